@@ -0,0 +1,145 @@
+import { afterEach, beforeEach, describe, it, expect, vi } from "vitest";
+import { callDataApi, getDataApiHealth, resetDataApiHealth } from "../server/_core/dataApi";
+import { ENV } from "../server/_core/env";
+import type { TrpcContext } from "../server/_core/context";
+import { setAlertStore, type AlertStore } from "../server/alertStore";
+import { createMemoryAlertStore } from "../server/memoryAlertStore";
+import { checkPriceAlerts, getAlertVolume, getCheckRuns, getRecentDevices } from "../server/priceAlertService";
+import { appRouter } from "../server/routers";
+
+/**
+ * Admin Operations Tests
+ *
+ * Validates what the alert service dashboard reads: check runs and why a
+ * run didn't check anything, alert volume per stock, recently seen devices
+ * with masked push tokens, and Data API call health. Also checks that the
+ * admin router turns away other accounts.
+ */
+
+// Sunday, and Monday 14:00 Athens
+const SUNDAY = Date.parse("2026-02-15T12:00:00Z");
+const MONDAY = Date.parse("2026-02-16T12:00:00Z");
+const DAY = 24 * 60 * 60 * 1000;
+
+describe("Admin Operations", () => {
+  let store: AlertStore;
+
+  beforeEach(() => {
+    store = createMemoryAlertStore();
+    setAlertStore(store);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    setAlertStore(null);
+  });
+
+  it("should log check runs, including the ones that had nothing to check", async () => {
+    vi.useFakeTimers({ now: SUNDAY, toFake: ["Date"] });
+    // A second check while one is in progress is dropped
+    const [first, overlapping] = await Promise.all([checkPriceAlerts(), checkPriceAlerts("manual")]);
+    expect(first).toEqual({ checked: 0, triggered: 0, sent: 0 });
+    expect(overlapping).toEqual({ checked: 0, triggered: 0, sent: 0 });
+    expect(getCheckRuns(1)[0]).toMatchObject({ startedAt: SUNDAY, source: "schedule", outcome: "market_closed" });
+
+    vi.setSystemTime(MONDAY);
+    await checkPriceAlerts("manual");
+    const runs = getCheckRuns(2);
+    expect(runs.map((r) => [r.source, r.outcome])).toEqual([
+      ["manual", "idle"],
+      ["schedule", "market_closed"],
+    ]);
+    expect(runs[0]).toMatchObject({ checked: 0, triggered: 0, sent: 0, error: null });
+  });
+
+  it("should count alerts per stock and recent triggers, busiest first", async () => {
+    const alert = {
+      scope: "stock" as const,
+      stockName: "",
+      type: "above" as const,
+      threshold: 15,
+      rule: null,
+      enabled: true,
+      lastTriggered: null,
+      createdAt: MONDAY,
+    };
+    await store.insertAlert(7, { ...alert, id: "a1", stockId: "opap" });
+    await store.insertAlert(7, { ...alert, id: "a2", stockId: "opap", enabled: false });
+    await store.insertAlert(8, { ...alert, id: "a3", stockId: "mytil" });
+    const trigger = {
+      alertId: "a3",
+      userId: 8,
+      deviceId: null,
+      stockId: "mytil",
+      price: 15.2,
+      previousPrice: 14.9,
+      title: "",
+      body: "",
+      status: "queued" as const,
+      notificationId: "push-1",
+    };
+    await store.recordTrigger({ ...trigger, triggeredAt: MONDAY });
+    await store.recordTrigger({ ...trigger, triggeredAt: MONDAY - 10 * DAY });
+
+    expect(await getAlertVolume(MONDAY - 7 * DAY)).toEqual([
+      { stockId: "mytil", alerts: 1, enabled: 1, triggers: 1 },
+      { stockId: "opap", alerts: 2, enabled: 1, triggers: 0 },
+    ]);
+  });
+
+  it("should list recently seen devices with masked push tokens", async () => {
+    vi.useFakeTimers({ now: MONDAY, toFake: ["Date"] });
+    await store.upsertDevice("phone", "ExponentPushToken[abcdefghijklmnop]", "ios");
+    vi.setSystemTime(MONDAY + 1000);
+    await store.upsertDevice("tablet", "ExponentPushToken[qrstuvwxyz123456]", "android");
+
+    const devices = await getRecentDevices(10);
+    expect(devices.map((d) => [d.deviceId, d.pushToken])).toEqual([
+      ["tablet", "ExponentPushToken[qrst…3456]"],
+      ["phone", "ExponentPushToken[abcd…mnop]"],
+    ]);
+  });
+
+  it("should record Data API calls, failures and latency", async () => {
+    const defaults = { url: ENV.forgeApiUrl, key: ENV.forgeApiKey };
+    ENV.forgeApiUrl = "https://forge.test";
+    ENV.forgeApiKey = "test-key";
+    resetDataApiHealth();
+    let fail = false;
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () =>
+        fail
+          ? new Response("upstream down", { status: 502, statusText: "Bad Gateway" })
+          : new Response(JSON.stringify({ jsonData: "{}" }))
+      )
+    );
+
+    try {
+      await callDataApi("YahooFinance/get_stock_chart");
+      await callDataApi("YahooFinance/get_stock_chart");
+      fail = true;
+      await expect(callDataApi("YahooFinance/get_stock_chart")).rejects.toThrow("502");
+
+      const [chart] = getDataApiHealth();
+      expect(chart).toMatchObject({ apiId: "YahooFinance/get_stock_chart", calls: 3, failures: 1 });
+      expect(chart.lastError).toContain("Bad Gateway");
+      expect(chart.lastSuccessAt).not.toBeNull();
+      expect(chart.p95LatencyMs).toBeGreaterThanOrEqual(chart.avgLatencyMs);
+    } finally {
+      ENV.forgeApiUrl = defaults.url;
+      ENV.forgeApiKey = defaults.key;
+      resetDataApiHealth();
+    }
+  });
+
+  it("should refuse accounts that aren't admins", async () => {
+    const caller = (role: "user" | "admin") =>
+      appRouter.createCaller({ req: {}, res: {}, user: { id: 7, role } } as unknown as TrpcContext);
+
+    await expect(caller("user").admin.getCheckRuns({ limit: 5 })).rejects.toMatchObject({ code: "FORBIDDEN" });
+    const runs = await caller("admin").admin.getCheckRuns({ limit: 5 });
+    expect(runs.success).toBe(true);
+  });
+});
@@ -0,0 +1,147 @@
+import { afterEach, beforeEach, describe, it, expect } from "vitest";
+import { setAlertStore, type AlertStore } from "../server/alertStore";
+import { createMemoryAlertStore } from "../server/memoryAlertStore";
+import { getAlertAudit, replayAlert, type PriceAlert } from "../server/priceAlertService";
+import { enqueuePush } from "../server/pushDeliveryService";
+import { getTradingSessions } from "../shared/market-calendar";
+import type { ChartDataPoint } from "../server/stockService";
+
+/**
+ * Alert Audit and Backtest Tests
+ *
+ * Validates that alert checks are logged as runs of the same outcome, that
+ * an alert's audit trail shows each firing's push delivery to its owner
+ * only, and that backtests replay daily bars through the live alert
+ * condition, cooldown included.
+ */
+
+const NOW = Date.parse("2026-02-13T13:00:00Z");
+const COOLDOWN = 30 * 60 * 1000;
+
+function makeAlert(overrides: Partial<PriceAlert> = {}): PriceAlert {
+  return {
+    id: "alert-1",
+    scope: "stock",
+    stockId: "opap",
+    stockName: "OPAP",
+    type: "above",
+    threshold: 15,
+    rule: null,
+    enabled: true,
+    lastTriggered: null,
+    createdAt: NOW,
+    ...overrides,
+  };
+}
+
+describe("Alert Audit", () => {
+  let store: AlertStore;
+
+  beforeEach(() => {
+    store = createMemoryAlertStore();
+    setAlertStore(store);
+  });
+
+  afterEach(() => {
+    setAlertStore(null);
+  });
+
+  const check = (outcome: "not_met" | "fired" | "cooling_down", now: number, price = 14.8) =>
+    store.recordEvaluation({ alertId: "alert-1", userId: 7, deviceId: null, outcome, price }, now);
+
+  it("should log consecutive checks with the same outcome as one run", async () => {
+    await check("not_met", NOW);
+    await check("not_met", NOW + 1000);
+    await check("fired", NOW + 2000, 15.1);
+    await check("cooling_down", NOW + 3000, 15.2);
+    await check("cooling_down", NOW + 4000, 15.3);
+    await check("fired", NOW + 5000, 15.4);
+    await check("fired", NOW + 6000, 15.5);
+
+    const runs = await store.listEvaluations("alert-1", 10);
+    expect(runs.map((r) => [r.outcome, r.count])).toEqual([
+      ["fired", 1],
+      ["fired", 1],
+      ["cooling_down", 2],
+      ["fired", 1],
+      ["not_met", 2],
+    ]);
+    expect(runs[2]).toMatchObject({ price: 15.3, firstEvaluatedAt: NOW + 3000, lastEvaluatedAt: NOW + 4000 });
+  });
+
+  it("should show each firing's delivery to the alert's owner only", async () => {
+    await store.insertAlert(7, makeAlert());
+    const trigger = {
+      alertId: "alert-1",
+      userId: 7,
+      deviceId: null,
+      stockId: "opap",
+      price: 15.2,
+      previousPrice: 14.9,
+      title: "OPAP hit €15.00",
+      body: "",
+    };
+    await store.recordTrigger({ ...trigger, status: "held", notificationId: "push-held", triggeredAt: NOW });
+    await store.recordTrigger({ ...trigger, status: "queued", notificationId: "push-1", triggeredAt: NOW + COOLDOWN });
+    await enqueuePush("push-1", ["ExponentPushToken[a]"], { title: trigger.title, body: "" }, NOW + COOLDOWN);
+    await check("fired", NOW + COOLDOWN, 15.2);
+
+    const audit = await getAlertAudit(7, "alert-1");
+    expect(audit?.triggers.map((t) => [t.status, t.delivery])).toEqual([
+      ["queued", "queued"],
+      ["held", null],
+    ]);
+    expect(audit?.evaluations).toHaveLength(1);
+    expect(await getAlertAudit(8, "alert-1")).toBeNull();
+  });
+});
+
+describe("Alert Backtest", () => {
+  // 20 sessions from Monday 2026-01-12, flat at €10 unless overridden
+  const sessions = getTradingSessions(new Date("2026-01-12T12:00:00Z"), new Date("2026-02-13T12:00:00Z")).slice(0, 20);
+
+  function makeBars(overrides: Record<number, Partial<ChartDataPoint>> = {}): ChartDataPoint[] {
+    return sessions.map((session, i) => ({
+      // Stamped at Athens midnight, like Yahoo's daily bars
+      timestamp: session.open.getTime() / 1000 - 10.25 * 60 * 60,
+      open: 10,
+      high: 10,
+      low: 10,
+      close: 10,
+      volume: 1000,
+      ...overrides[i],
+    }));
+  }
+
+  it("should replay intraday highs and repeat price targets after the cooldown", () => {
+    // Session 5 only spikes briefly; session 12 climbs and closes above the target
+    const bars = makeBars({ 5: { high: 15.5 }, 12: { high: 16, close: 16 } });
+    const result = replayAlert(makeAlert(), bars, 0);
+
+    expect(result.sessions).toBe(20);
+    expect(result.sessionsFired).toBe(2);
+    const [spike, ...climb] = result.firings;
+    expect(new Date(spike.timestamp).toISOString().slice(0, 10)).toBe(sessions[5].date);
+    expect(climb.length).toBeGreaterThan(1);
+    for (let i = 1; i < climb.length; i++) {
+      expect(climb[i].timestamp - climb[i - 1].timestamp).toBeGreaterThanOrEqual(COOLDOWN);
+    }
+    expect(climb.every((f) => f.price >= 15)).toBe(true);
+  });
+
+  it("should fire moves at most once per session and only in the replayed range", () => {
+    const alert = makeAlert({ type: "percent_change", threshold: 5 });
+    const bars = makeBars({ 3: { high: 11, close: 11 }, 15: { low: 9, close: 9 } });
+
+    const all = replayAlert(alert, bars, 0);
+    // Sessions 4 and 16 open on the previous close's move back to €10
+    expect(all.firings).toHaveLength(4);
+    expect(all.sessionsFired).toBe(4);
+
+    const recent = replayAlert(alert, bars, sessions[10].open.getTime(), sessions[18].close.getTime());
+    expect(recent.sessions).toBe(9);
+    expect(recent.firings).toHaveLength(2);
+    expect(recent.from).toBe(sessions[10].open.getTime());
+    expect(recent.to).toBe(sessions[18].close.getTime());
+  });
+});
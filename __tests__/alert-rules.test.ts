@@ -0,0 +1,177 @@
+import { describe, it, expect } from "vitest";
+import {
+  describeRule,
+  evaluateCondition,
+  evaluateRule,
+  ruleLookback,
+  validateRule,
+  type AlertRule,
+  type RuleBar,
+  type RuleMarketData,
+} from "../shared/alert-rules";
+
+/**
+ * Alert Rule Tests
+ *
+ * Validates each condition type against hand-built daily history, the
+ * AND/OR combination, and the descriptions and validation the rule builder
+ * relies on.
+ */
+function bars(closes: number[], volume = 1000): RuleBar[] {
+  return closes.map((close) => ({ open: close, high: close, low: close, close, volume }));
+}
+
+function data(history: RuleBar[], today: Partial<RuleMarketData["today"]>, previousPrice: number | null = null) {
+  const price = today.price ?? history[history.length - 1].close;
+  return {
+    history,
+    today: { open: price, high: price, low: price, price, volume: 0, ...today },
+    previousPrice,
+  };
+}
+
+const rule52WeekHigh: AlertRule = {
+  match: "all",
+  conditions: [{ type: "range_break", direction: "high", weeks: 52 }],
+};
+
+describe("Alert Rules", () => {
+  describe("Crosses", () => {
+    it("should fire when RSI(14) crosses below 30", () => {
+      // 14 straight gains put RSI at 100; a 35-point drop takes it to ~27
+      const history = bars(Array.from({ length: 15 }, (_, i) => 100 + i));
+      const condition = {
+        type: "cross" as const,
+        left: { kind: "rsi" as const, period: 14 },
+        direction: "below" as const,
+        right: { kind: "value" as const, value: 30 },
+      };
+      expect(evaluateCondition(condition, data(history, { price: 79 }, 114))).toBe(true);
+      expect(evaluateCondition(condition, data(history, { price: 100 }, 114))).toBe(false);
+      // Already below at the previous check
+      expect(evaluateCondition(condition, data(history, { price: 78 }, 79))).toBe(false);
+    });
+
+    it("should fire when the price crosses above its SMA", () => {
+      const history = bars(Array(20).fill(10));
+      const condition = {
+        type: "cross" as const,
+        left: { kind: "price" as const },
+        direction: "above" as const,
+        right: { kind: "sma" as const, period: 5 },
+      };
+      expect(evaluateCondition(condition, data(history, { price: 10.5 }, 9.9))).toBe(true);
+      expect(evaluateCondition(condition, data(history, { price: 10.5 }, 10.4))).toBe(false);
+    });
+
+    it("should compare against the previous close without a previous check", () => {
+      const condition = {
+        type: "cross" as const,
+        left: { kind: "price" as const },
+        direction: "below" as const,
+        right: { kind: "value" as const, value: 10 },
+      };
+      expect(evaluateCondition(condition, data(bars([10.2]), { price: 9.9 }))).toBe(true);
+      expect(evaluateCondition(condition, data(bars([9.95]), { price: 9.9 }))).toBe(false);
+    });
+  });
+
+  describe("Volume", () => {
+    const condition = {
+      type: "compare" as const,
+      left: { kind: "volume" as const },
+      op: "above" as const,
+      right: { kind: "avg_volume" as const, period: 20 },
+      multiplier: 3,
+    };
+
+    it("should compare today's volume with a multiple of the average", () => {
+      const history = bars(Array(20).fill(10), 1000);
+      expect(evaluateCondition(condition, data(history, { volume: 3500 }))).toBe(true);
+      expect(evaluateCondition(condition, data(history, { volume: 2500 }))).toBe(false);
+    });
+
+    it("should not fire without enough history for the average", () => {
+      expect(evaluateCondition(condition, data(bars(Array(19).fill(10)), { volume: 10_000 }))).toBe(false);
+    });
+  });
+
+  describe("Ranges and gaps", () => {
+    it("should detect a new 52-week high", () => {
+      const history = bars(Array(260).fill(12));
+      const condition = { type: "range_break" as const, direction: "high" as const, weeks: 52 };
+      expect(evaluateCondition(condition, data(history, { price: 12.1, high: 12.5 }))).toBe(true);
+      expect(evaluateCondition(condition, data(history, { price: 11.9, high: 11.9 }))).toBe(false);
+    });
+
+    it("should measure gaps from the previous close to today's open", () => {
+      const condition = { type: "gap" as const, direction: "up" as const, percent: 2 };
+      expect(evaluateCondition(condition, data(bars([10]), { open: 10.25, price: 10 }))).toBe(true);
+      expect(evaluateCondition(condition, data(bars([10]), { open: 10.1, price: 10.5 }))).toBe(false);
+    });
+
+    it("should measure changes from the previous close", () => {
+      const condition = { type: "change" as const, direction: "down" as const, percent: 5 };
+      expect(evaluateCondition(condition, data(bars([10]), { price: 9.5 }))).toBe(true);
+      expect(evaluateCondition(condition, data(bars([10]), { price: 10.5 }))).toBe(false);
+    });
+  });
+
+  describe("Combining conditions", () => {
+    const rule: AlertRule = {
+      match: "all",
+      conditions: [
+        { type: "change", direction: "up", percent: 3 },
+        { type: "range_break", direction: "high", weeks: 4 },
+      ],
+    };
+
+    it("should require every condition for AND and any for OR", () => {
+      const history = bars([10, 11, 10]);
+      const market = data(history, { price: 10.4 });
+      expect(evaluateRule(rule, market)).toBe(false);
+      expect(evaluateRule({ ...rule, match: "any" }, market)).toBe(true);
+      expect(evaluateRule(rule, data(history, { price: 11.2 }))).toBe(true);
+    });
+
+    it("should never fire an empty rule", () => {
+      expect(evaluateRule({ match: "any", conditions: [] }, data(bars([10]), {}))).toBe(false);
+    });
+
+    it("should describe rules for the alert list", () => {
+      expect(describeRule(rule)).toBe("Up 3% from previous close and New 4-week high");
+      expect(
+        describeRule({
+          match: "any",
+          conditions: [
+            {
+              type: "compare",
+              left: { kind: "volume" },
+              op: "above",
+              right: { kind: "avg_volume", period: 20 },
+              multiplier: 3,
+            },
+          ],
+        })
+      ).toBe("Volume above 3× 20-day avg volume");
+    });
+  });
+
+  describe("Validation", () => {
+    it("should reject empty rules and out-of-range periods", () => {
+      expect(validateRule({ match: "all", conditions: [] })).not.toBeNull();
+      expect(
+        validateRule({
+          match: "all",
+          conditions: [{ type: "cross", left: { kind: "sma", period: 0 }, direction: "above", right: { kind: "price" } }],
+        })
+      ).not.toBeNull();
+      expect(validateRule(rule52WeekHigh)).toBeNull();
+    });
+
+    it("should ask for enough history for the deepest condition", () => {
+      expect(ruleLookback(rule52WeekHigh)).toBe(261);
+      expect(ruleLookback({ match: "all", conditions: [{ type: "gap", direction: "up", percent: 1 }] })).toBe(2);
+    });
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, it, expect } from "vitest";
+import {
+  changeBetween,
+  formatBarTime,
+  formatChangePercent,
+  indexForX,
+  isIntraday,
+  scrubAt,
+  xForIndex,
+} from "../lib/chart-scrub";
+
+/**
+ * Chart Scrub Tests
+ *
+ * Validates touch-to-bar mapping for line and candlestick layouts, the
+ * change readouts shown while scrubbing and measuring, and tooltip dates.
+ */
+describe("Chart Scrubbing", () => {
+  const plot = { left: 48, width: 300 };
+
+  describe("Geometry", () => {
+    it("should put line chart points on the plot edges", () => {
+      expect(xForIndex(0, 11, plot, "edges")).toBe(48);
+      expect(xForIndex(10, 11, plot, "edges")).toBe(348);
+      expect(indexForX(48 + 31, 11, plot, "edges")).toBe(1);
+    });
+
+    it("should centre candlesticks in equal slots", () => {
+      expect(xForIndex(0, 10, plot, "slots")).toBe(63);
+      expect(indexForX(48 + 29, 10, plot, "slots")).toBe(0);
+      expect(indexForX(48 + 31, 10, plot, "slots")).toBe(1);
+    });
+
+    it("should clamp touches outside the plot to the first and last bar", () => {
+      expect(indexForX(0, 10, plot, "edges")).toBe(0);
+      expect(indexForX(1000, 10, plot, "slots")).toBe(9);
+    });
+  });
+
+  describe("Readouts", () => {
+    const closes = [20, 21, 19, 22];
+
+    it("should report change from the start of the range", () => {
+      const scrub = scrubAt(closes, [3]);
+      expect(scrub?.value).toBe(22);
+      expect(scrub?.change).toBe(2);
+      expect(scrub?.changePercent).toBeCloseTo(10);
+      expect(scrub?.measure).toBeUndefined();
+    });
+
+    it("should measure from the earlier to the later bar with two fingers", () => {
+      const scrub = scrubAt(closes, [3, 1]);
+      expect(scrub?.measure).toMatchObject({ fromIndex: 1, toIndex: 3, change: 1 });
+      expect(scrub?.measure?.changePercent).toBeCloseTo(4.7619, 3);
+    });
+
+    it("should return null without data or touches", () => {
+      expect(scrubAt([], [0])).toBeNull();
+      expect(scrubAt(closes, [])).toBeNull();
+    });
+
+    it("should not divide by a zero starting price", () => {
+      expect(changeBetween(0, 5)).toEqual({ change: 5, changePercent: 0 });
+    });
+
+    it("should sign percent changes", () => {
+      expect(formatChangePercent(1.234)).toBe("+1.23%");
+      expect(formatChangePercent(-0.5)).toBe("-0.50%");
+    });
+  });
+
+  describe("Tooltip dates", () => {
+    it("should detect intraday bars from their spacing", () => {
+      expect(isIntraday([0, 300])).toBe(true);
+      expect(isIntraday([0, 86_400])).toBe(false);
+      expect(isIntraday([0])).toBe(false);
+    });
+
+    it("should label bars in Athens time", () => {
+      // 2026-02-12 12:35 UTC is 14:35 in Athens (UTC+2)
+      const ts = Date.UTC(2026, 1, 12, 12, 35) / 1000;
+      expect(formatBarTime(ts, true)).toContain("14:35");
+      expect(formatBarTime(ts, false)).toBe("12 Feb 2026");
+    });
+  });
+});
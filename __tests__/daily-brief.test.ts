@@ -0,0 +1,153 @@
+import { afterEach, beforeEach, describe, it, expect, vi } from "vitest";
+import type { JsonSchema } from "../server/_core/llm";
+import { clearDailyBriefCache, composeDailyBrief, getDailyBrief, runDailyBriefJob } from "../server/dailyBriefService";
+import type { NewsArticle } from "../server/newsService";
+import type { StockQuote } from "../server/stockService";
+import { createFakeLLM } from "./fake-llm";
+
+/**
+ * Daily Brief Tests
+ *
+ * Writes the daily market brief through a fake LLM. Validates that the
+ * movers, sectors and most widely reported stories reach the model, that
+ * the stocks' moves and the cited URLs come from the data rather than the
+ * model, that answers citing anything they weren't given are rejected, and
+ * that the job only runs after the close of a trading day.
+ */
+
+const DAY = "2026-02-16";
+// Monday 16 February 2026, 19:00 Athens — after the close
+const AFTER_CLOSE = Date.parse("2026-02-16T17:00:00Z");
+
+function quote(id: string, name: string, changePercent: number, price = 10): StockQuote {
+  return {
+    id,
+    ticker: id.toUpperCase(),
+    yahooSymbol: `${id.toUpperCase()}.AT`,
+    name,
+    price,
+    previousClose: price / (1 + changePercent / 100),
+    change: 0,
+    changePercent,
+    dayHigh: price,
+    dayLow: price,
+    volume: 1000,
+    fiftyTwoWeekHigh: price,
+    fiftyTwoWeekLow: price,
+    marketCap: "",
+    currency: "EUR",
+    exchange: "ATH",
+    category: "blue-chip",
+    sparkline: [],
+    lastUpdated: AFTER_CLOSE,
+    marketTime: AFTER_CLOSE,
+  };
+}
+
+const QUOTES = [
+  quote("ete", "National Bank of Greece", 4.2, 8.5),
+  quote("alpha", "Alpha Bank", 3.1, 2.1),
+  quote("opap", "OPAP S.A.", -2.5, 16.4),
+  quote("ppc", "Public Power Corporation", 0.4, 12.9),
+];
+
+function article(title: string, hoursAgo: number, alsoReportedBy: string[] = []): NewsArticle {
+  return {
+    title,
+    source: "Naftemporiki",
+    url: `https://news.example/${encodeURIComponent(title)}`,
+    publishedAt: new Date(AFTER_CLOSE - hoursAgo * 60 * 60 * 1000).toISOString(),
+    relativeTime: `${hoursAgo}h ago`,
+    alsoReportedBy,
+  };
+}
+
+const ARTICLES = [
+  article("OPAP slips after tax proposal", 2),
+  article("Greek banks rally on ECB decision", 5, ["Kathimerini", "Reuters"]),
+  // Yesterday's news is not part of today's brief
+  article("ATHEX closes week higher", 60, ["Capital.gr", "Reuters", "Bloomberg"]),
+];
+
+describe("Daily Brief", () => {
+  let answer: unknown;
+  const llm = createFakeLLM(() => answer);
+
+  beforeEach(() => {
+    clearDailyBriefCache();
+    llm.calls.length = 0;
+    llm.install();
+    answer = {
+      headline: "Banks lead ATHEX higher as OPAP slips",
+      bullets: [
+        "National Bank and Alpha Bank led gains after the ECB decision.",
+        "OPAP fell on a proposed tax change.",
+        "Most sectors ended the session higher.",
+      ],
+      stocks: ["ete", "alpha", "opap", "ete"],
+      citations: [1, 2, 1],
+    };
+  });
+
+  afterEach(() => {
+    llm.uninstall();
+    vi.unstubAllGlobals();
+  });
+
+  it("should write the brief from the day's movers, sectors and top stories", async () => {
+    const result = await composeDailyBrief(DAY, QUOTES, ARTICLES, AFTER_CLOSE);
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+
+    const format = llm.calls[0].responseFormat as { type: string; json_schema: JsonSchema };
+    expect(format.type).toBe("json_schema");
+    expect(format.json_schema).toMatchObject({ name: "daily_brief", strict: true });
+    const prompt = String(llm.calls[0].messages[1].content);
+    expect(prompt).toContain("- ete: National Bank of Greece (ETE) +4.20% at €8.50");
+    expect(prompt).toContain("- Banking: +3.65% (2 stocks)");
+    // The most widely reported story first; old stories left out
+    expect(prompt).toContain("1. Greek banks rally on ECB decision (Naftemporiki, Kathimerini, Reuters)\n2. OPAP slips");
+    expect(prompt).not.toContain("ATHEX closes week higher");
+
+    expect(result.brief).toMatchObject({ day: DAY, headline: "Banks lead ATHEX higher as OPAP slips", model: "fake-llm" });
+    expect(result.brief.bullets).toHaveLength(3);
+    expect(result.brief.stocks.map((s) => [s.stockId, s.changePercent, s.price])).toEqual([
+      ["ete", 4.2, 8.5],
+      ["alpha", 3.1, 2.1],
+      ["opap", -2.5, 16.4],
+    ]);
+    expect(result.brief.sources.map((s) => s.url)).toEqual([ARTICLES[1].url, ARTICLES[0].url]);
+  });
+
+  it("should reject a brief that cites what it wasn't given", async () => {
+    answer = { ...(answer as object), citations: [3] };
+    expect(await composeDailyBrief(DAY, QUOTES, ARTICLES, AFTER_CLOSE)).toEqual({
+      success: false,
+      error: "Brief cites a story it wasn't given",
+    });
+
+    answer = { ...(answer as object), citations: [], stocks: ["mytil"] };
+    expect(await composeDailyBrief(DAY, QUOTES, ARTICLES, AFTER_CLOSE)).toEqual({
+      success: false,
+      error: "Brief mentions a stock it wasn't given",
+    });
+
+    answer = { ...(answer as object), stocks: [], bullets: ["Only one bullet"] };
+    expect(await composeDailyBrief(DAY, QUOTES, ARTICLES, AFTER_CLOSE)).toEqual({
+      success: false,
+      error: "Response didn't match the schema",
+    });
+  });
+
+  it("should only run after the close of a trading day", async () => {
+    const fetchMock = vi.fn(async () => new Response("", { status: 500 }));
+    vi.stubGlobal("fetch", fetchMock);
+
+    // Monday mid-session, and Sunday
+    expect(await runDailyBriefJob(Date.parse("2026-02-16T11:00:00Z"))).toBeNull();
+    expect(await runDailyBriefJob(Date.parse("2026-02-15T17:00:00Z"))).toBeNull();
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(llm.calls).toHaveLength(0);
+    expect(await getDailyBrief()).toBeNull();
+  });
+});
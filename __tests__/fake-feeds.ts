@@ -0,0 +1,30 @@
+/**
+ * Google News RSS for stubbed fetches in news tests. Each item is titled
+ * "<title> - <source>" as Google News does, links to
+ * https://news.example/<index> and names its source; the publication date
+ * is left out unless given.
+ */
+export interface FeedItem {
+  title: string;
+  /** Default "Naftemporiki" */
+  source?: string;
+  /** Unix ms */
+  publishedAt?: number;
+}
+
+export function googleNewsRss(items: (FeedItem | string)[]): string {
+  const xml = items
+    .map((entry, i) => {
+      const item = typeof entry === "string" ? { title: entry } : entry;
+      const source = item.source ?? "Naftemporiki";
+      return `<item>
+        <title>${item.title} - ${source}</title>
+        <link>https://news.example/${i}</link>${
+          item.publishedAt !== undefined ? `\n        <pubDate>${new Date(item.publishedAt).toUTCString()}</pubDate>` : ""
+        }
+        <source url="https://news.example">${source}</source>
+      </item>`;
+    })
+    .join("");
+  return `<?xml version="1.0"?><rss><channel>${xml}</channel></rss>`;
+}
@@ -0,0 +1,32 @@
+import { setLLMClient, type InvokeParams, type InvokeResult } from "../server/_core/llm";
+
+/**
+ * Fake LLM for tests: install() routes every invokeLLM() call to `respond`,
+ * which returns the message content (objects are sent as JSON) or throws.
+ * Calls are kept for assertions; usage counts one token per 4 characters.
+ */
+export function createFakeLLM(respond: (params: InvokeParams, prompt: string) => unknown) {
+  const calls: InvokeParams[] = [];
+
+  const client = async (params: InvokeParams): Promise<InvokeResult> => {
+    calls.push(params);
+    const prompt = params.messages.map((m) => (typeof m.content === "string" ? m.content : JSON.stringify(m.content))).join("\n");
+    const answer = await respond(params, prompt);
+    const content = typeof answer === "string" ? answer : JSON.stringify(answer);
+    const promptTokens = Math.ceil(prompt.length / 4);
+    const completionTokens = Math.ceil(content.length / 4);
+    return {
+      id: `fake-${calls.length}`,
+      created: Math.floor(Date.now() / 1000),
+      model: "fake-llm",
+      choices: [{ index: 0, message: { role: "assistant", content }, finish_reason: "stop" }],
+      usage: { prompt_tokens: promptTokens, completion_tokens: completionTokens, total_tokens: promptTokens + completionTokens },
+    };
+  };
+
+  return {
+    calls,
+    install: () => setLLMClient(client),
+    uninstall: () => setLLMClient(null),
+  };
+}
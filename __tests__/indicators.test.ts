@@ -0,0 +1,91 @@
+import { describe, it, expect } from "vitest";
+import { sma, ema, bollingerBands, rsi, macd, lastValue } from "../shared/indicators";
+
+/**
+ * Technical Indicator Tests
+ *
+ * Validates warm-up alignment and values against hand-computed results
+ * and the classic Wilder RSI worked example.
+ */
+describe("Technical Indicators", () => {
+  const values = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10];
+
+  describe("SMA", () => {
+    it("should average the trailing window and pad the warm-up with nulls", () => {
+      const result = sma(values, 3);
+      expect(result).toHaveLength(values.length);
+      expect(result.slice(0, 2)).toEqual([null, null]);
+      expect(result[2]).toBe(2);
+      expect(result[9]).toBe(9);
+    });
+
+    it("should reject a non-positive period", () => {
+      expect(() => sma(values, 0)).toThrow(RangeError);
+    });
+  });
+
+  describe("EMA", () => {
+    it("should seed with the SMA and then smooth by 2 / (period + 1)", () => {
+      const result = ema([2, 4, 6, 8, 10], 3);
+      expect(result.slice(0, 2)).toEqual([null, null]);
+      expect(result[2]).toBe(4); // SMA of 2, 4, 6
+      expect(result[3]).toBe(6); // 8 * 0.5 + 4 * 0.5
+      expect(result[4]).toBe(8);
+    });
+
+    it("should return all nulls when there are fewer values than the period", () => {
+      expect(ema([1, 2], 3)).toEqual([null, null]);
+    });
+  });
+
+  describe("Bollinger Bands", () => {
+    it("should sit two population standard deviations around the SMA", () => {
+      const { middle, upper, lower } = bollingerBands([2, 4, 4, 4, 5, 5, 7, 9], 8, 2);
+      // Mean 5, population standard deviation 2
+      expect(middle[7]).toBe(5);
+      expect(upper[7]).toBe(9);
+      expect(lower[7]).toBe(1);
+      expect(upper[6]).toBeNull();
+    });
+  });
+
+  describe("RSI", () => {
+    // Wilder's worked example (New Concepts in Technical Trading Systems)
+    const closes = [
+      44.34, 44.09, 44.15, 43.61, 44.33, 44.83, 45.1, 45.42, 45.84, 46.08, 45.89, 46.03, 45.61, 46.28,
+      46.28, 46.0, 46.03, 46.41, 46.22, 45.64,
+    ];
+
+    it("should match the worked example", () => {
+      const result = rsi(closes, 14);
+      expect(result[13]).toBeNull();
+      expect(result[14]).toBeCloseTo(70.46, 1);
+      expect(result[15]).toBeCloseTo(66.25, 1);
+      expect(result[19]).toBeCloseTo(57.92, 0);
+    });
+
+    it("should be 100 when prices only rise", () => {
+      expect(lastValue(rsi(values, 5))).toBe(100);
+    });
+  });
+
+  describe("MACD", () => {
+    it("should be the fast EMA minus the slow EMA, with signal and histogram", () => {
+      const closes = Array.from({ length: 60 }, (_, i) => 10 + Math.sin(i / 4) * 2 + i * 0.05);
+      const { macd: line, signal, histogram } = macd(closes, 12, 26, 9);
+      const fast = ema(closes, 12);
+      const slow = ema(closes, 26);
+
+      expect(line[24]).toBeNull();
+      expect(line[25]).toBeCloseTo((fast[25] as number) - (slow[25] as number), 10);
+      // Signal needs 9 MACD values
+      expect(signal[32]).toBeNull();
+      expect(signal[33]).not.toBeNull();
+      expect(histogram[40]).toBeCloseTo((line[40] as number) - (signal[40] as number), 10);
+    });
+
+    it("should reject a fast period that is not shorter than the slow one", () => {
+      expect(() => macd(values, 26, 12)).toThrow(RangeError);
+    });
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, it, expect } from "vitest";
+import {
+  getOrthodoxEaster,
+  getAthexHolidays,
+  getHoliday,
+  isTradingDay,
+  getMarketPhase,
+  getNextOpen,
+  getNextClose,
+  getTradingSessions,
+} from "../shared/market-calendar";
+
+/**
+ * ATHEX Market Calendar Tests
+ *
+ * Validates holiday computation (including Orthodox Easter), session
+ * phases in Athens time across DST, and next open / close times.
+ */
+describe("ATHEX Market Calendar", () => {
+  describe("Orthodox Easter", () => {
+    it("should compute known Orthodox Easter Sundays", () => {
+      expect(getOrthodoxEaster(2023)).toEqual({ year: 2023, month: 4, day: 16 });
+      expect(getOrthodoxEaster(2024)).toEqual({ year: 2024, month: 5, day: 5 });
+      expect(getOrthodoxEaster(2025)).toEqual({ year: 2025, month: 4, day: 20 });
+      expect(getOrthodoxEaster(2026)).toEqual({ year: 2026, month: 4, day: 12 });
+    });
+  });
+
+  describe("Holidays", () => {
+    it("should include the Easter-dependent holidays", () => {
+      const dates = getAthexHolidays(2025).map((h) => h.date);
+      expect(dates).toContain("2025-03-03"); // Clean Monday
+      expect(dates).toContain("2025-04-18"); // Good Friday
+      expect(dates).toContain("2025-04-21"); // Easter Monday
+      expect(dates).toContain("2025-06-09"); // Whit Monday
+    });
+
+    it("should include fixed-date holidays in date order", () => {
+      const holidays = getAthexHolidays(2025);
+      expect(holidays[0]).toEqual({ date: "2025-01-01", name: "New Year's Day" });
+      expect(holidays.map((h) => h.date)).toContain("2025-03-25");
+      expect(holidays[holidays.length - 1].date).toBe("2025-12-31");
+    });
+
+    it("should treat holidays and weekends as non-trading days", () => {
+      expect(getHoliday(new Date("2025-04-21T09:00:00Z"))).toBe("Easter Monday");
+      expect(isTradingDay(new Date("2025-04-21T09:00:00Z"))).toBe(false);
+      expect(isTradingDay(new Date("2025-04-19T09:00:00Z"))).toBe(false); // Saturday
+      expect(isTradingDay(new Date("2025-04-22T09:00:00Z"))).toBe(true);
+    });
+  });
+
+  describe("Session phases", () => {
+    it("should follow Athens time in winter (UTC+2)", () => {
+      // Tuesday 14 January 2025
+      expect(getMarketPhase(new Date("2025-01-14T07:59:00Z"))).toBe("closed");
+      expect(getMarketPhase(new Date("2025-01-14T08:15:00Z"))).toBe("pre_open");
+      expect(getMarketPhase(new Date("2025-01-14T08:30:00Z"))).toBe("continuous");
+      expect(getMarketPhase(new Date("2025-01-14T15:25:00Z"))).toBe("closing_auction");
+      expect(getMarketPhase(new Date("2025-01-14T15:30:00Z"))).toBe("closed");
+    });
+
+    it("should follow Athens time in summer (UTC+3)", () => {
+      // Tuesday 10 June 2025
+      expect(getMarketPhase(new Date("2025-06-10T07:15:00Z"))).toBe("pre_open");
+      expect(getMarketPhase(new Date("2025-06-10T11:00:00Z"))).toBe("continuous");
+      expect(getMarketPhase(new Date("2025-06-10T14:25:00Z"))).toBe("closing_auction");
+    });
+
+    it("should be closed all day on a holiday", () => {
+      expect(getMarketPhase(new Date("2025-03-25T11:00:00Z"))).toBe("closed");
+    });
+  });
+
+  describe("Next open and close", () => {
+    it("should return today's close while the market is open", () => {
+      const now = new Date("2025-01-14T10:00:00Z");
+      expect(getNextClose(now).toISOString()).toBe("2025-01-14T15:30:00.000Z");
+      expect(getNextOpen(now).toISOString()).toBe("2025-01-15T08:00:00.000Z");
+    });
+
+    it("should skip weekends", () => {
+      // Friday evening → Monday
+      const now = new Date("2025-01-17T18:00:00Z");
+      expect(getNextOpen(now).toISOString()).toBe("2025-01-20T08:00:00.000Z");
+      expect(getNextClose(now).toISOString()).toBe("2025-01-20T15:30:00.000Z");
+    });
+
+    it("should skip the Easter long weekend", () => {
+      // Thursday 17 April 2025 after close → Tuesday 22 April (Good Friday and Easter Monday closed)
+      const now = new Date("2025-04-17T16:00:00Z");
+      expect(getNextOpen(now).toISOString()).toBe("2025-04-22T07:00:00.000Z");
+    });
+
+    it("should use the new UTC offset after the clocks change", () => {
+      // Friday 28 March 2025 (UTC+2) → Monday 31 March (UTC+3)
+      const now = new Date("2025-03-28T16:00:00Z");
+      expect(getNextOpen(now).toISOString()).toBe("2025-03-31T07:00:00.000Z");
+    });
+  });
+
+  describe("Trading Sessions", () => {
+    it("should list trading days only, with continuous-open and close times", () => {
+      // Week of Good Friday 2025
+      const sessions = getTradingSessions(new Date("2025-04-14T12:00:00Z"), new Date("2025-04-20T12:00:00Z"));
+      expect(sessions.map((s) => s.date)).toEqual(["2025-04-14", "2025-04-15", "2025-04-16", "2025-04-17"]);
+      expect(sessions[0].open.toISOString()).toBe("2025-04-14T07:30:00.000Z");
+      expect(sessions[0].close.toISOString()).toBe("2025-04-14T14:30:00.000Z");
+    });
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect } from "vitest";
+import { createSimulatedProvider } from "../server/simulatedMarketDataProvider";
+import { createFixtureProvider } from "../server/fixtureMarketDataProvider";
+import { CHART_RANGE_SPECS, aggregateBars } from "../server/marketDataProvider";
+
+/**
+ * Market Data Provider Tests
+ *
+ * Validates that the simulator is deterministic and consistent between
+ * quotes and charts, that the fixture provider replays recorded Yahoo
+ * responses, and the shared bar aggregation.
+ */
+const OPAP = { id: "opap", yahoo: "OPAP.AT", name: "OPAP S.A." };
+
+// Friday 13 February 2026, 15:00 Athens — mid-session
+const MID_SESSION = Date.parse("2026-02-13T13:00:00Z");
+// Saturday 14 February 2026
+const WEEKEND = Date.parse("2026-02-14T10:00:00Z");
+
+describe("Simulated Market Data Provider", () => {
+  it("should produce the same prices for the same time", async () => {
+    const a = await createSimulatedProvider(() => MID_SESSION).getQuote(OPAP);
+    const b = await createSimulatedProvider(() => MID_SESSION).getQuote(OPAP);
+    expect(a).toEqual(b);
+    expect(a!.price).toBeGreaterThan(0);
+  });
+
+  it("should agree between the quote and the intraday chart", async () => {
+    const provider = createSimulatedProvider(() => MID_SESSION);
+    const quote = await provider.getQuote(OPAP);
+    const chart = await provider.getChart(OPAP, CHART_RANGE_SPECS["1D"]);
+    const closes = chart!.data.map((d) => d.close);
+    expect(closes[closes.length - 1]).toBe(quote!.price);
+    expect(Math.max(...chart!.data.map((d) => d.high))).toBe(quote!.dayHigh);
+    // 10:30 to 15:00 in 5-minute bars
+    expect(chart!.data).toHaveLength(55);
+    expect(quote!.marketTime).toBe(MID_SESSION);
+  });
+
+  it("should hold the last session's close over the weekend", async () => {
+    const friday = await createSimulatedProvider(() => Date.parse("2026-02-13T16:00:00Z")).getQuote(OPAP);
+    const saturday = await createSimulatedProvider(() => WEEKEND).getQuote(OPAP);
+    expect(saturday!.price).toBe(friday!.price);
+    // Last traded at Friday's close
+    expect(saturday!.marketTime).toBe(friday!.marketTime);
+    expect(saturday!.marketTime).toBeLessThan(Date.parse("2026-02-13T16:00:00Z"));
+  });
+});
+
+describe("Fixture Market Data Provider", () => {
+  it("should replay recorded responses and return null without a fixture", async () => {
+    const provider = createFixtureProvider("server/fixtures/market-data");
+    const quote = await provider.getQuote(OPAP);
+    expect(quote!.price).toBe(23.975);
+    expect(quote!.intradayCloses.length).toBeGreaterThan(1);
+
+    const missing = await provider.getQuote({ id: "eee", yahoo: "EEE.AT", name: "Coca-Cola HBC" });
+    expect(missing).toBeNull();
+  });
+});
+
+describe("Bar Aggregation", () => {
+  const day = (date: string, open: number, close: number, volume: number) => ({
+    timestamp: Date.parse(`${date}T07:30:00Z`) / 1000,
+    open,
+    high: Math.max(open, close) + 1,
+    low: Math.min(open, close) - 1,
+    close,
+    volume,
+  });
+
+  it("should merge daily bars into weekly OHLCV bars", () => {
+    // Thu, Fri | Mon, Tue
+    const weeks = aggregateBars(
+      [day("2026-02-12", 10, 11, 100), day("2026-02-13", 11, 12, 200), day("2026-02-16", 12, 9, 50), day("2026-02-17", 9, 10, 50)],
+      "1wk",
+    );
+    expect(weeks).toHaveLength(2);
+    expect(weeks[0]).toMatchObject({ open: 10, high: 13, low: 9, close: 12, volume: 300 });
+    expect(weeks[1]).toMatchObject({ open: 12, high: 13, low: 8, close: 10, volume: 100 });
+  });
+});
@@ -0,0 +1,179 @@
+import { afterEach, beforeEach, describe, it, expect, vi } from "vitest";
+import { ENV } from "../server/_core/env";
+import type { InvokeParams, JsonSchema } from "../server/_core/llm";
+import { clearMoveExplanations, getMoveExplanation } from "../server/moveExplainerService";
+import { clearNewsCache } from "../server/newsService";
+import { clearCache, getIndexChangePercent } from "../server/stockService";
+import { googleNewsRss } from "./fake-feeds";
+import { createFakeLLM } from "./fake-llm";
+
+/**
+ * Move Explainer Tests
+ *
+ * Explains a sharp move of National Bank of Greece from stubbed Yahoo
+ * quotes and a stubbed Google News feed through a fake LLM. Validates that
+ * the stock's articles, its sector peers and the index reach the model,
+ * that explanations cite the articles they rely on and are cached until
+ * the move drifts, and that the explainer says it is unsure when no article
+ * supports it.
+ */
+
+const HOUR = 60 * 60 * 1000;
+
+/** [price, previous close] per Yahoo symbol; others aren't quoted */
+let prices: Record<string, [number, number]> = {};
+let headlines: string[] = [];
+
+function chart([price, previousClose]: [number, number]) {
+  return {
+    chart: {
+      result: [
+        {
+          meta: { regularMarketPrice: price, chartPreviousClose: previousClose, currency: "EUR" },
+          indicators: { quote: [{ close: [previousClose, price] }] },
+        },
+      ],
+    },
+  };
+}
+
+const schemaName = (params: InvokeParams) =>
+  (params.responseFormat as { json_schema: JsonSchema } | undefined)?.json_schema.name;
+
+describe("Move Explainer", () => {
+  let answer: unknown;
+  const llm = createFakeLLM((params, prompt) => {
+    // Stock news sentiment runs through the same client
+    if (schemaName(params) === "headline_sentiment") {
+      return { labels: prompt.split("\n").filter((l) => /^\d+\. /.test(l)).map(() => "neutral"), score: 0 };
+    }
+    return answer;
+  });
+  const explanationCalls = () => llm.calls.filter((c) => schemaName(c) === "move_explanation");
+  const defaults = { forgeApiUrl: ENV.forgeApiUrl, forgeApiKey: ENV.forgeApiKey };
+
+  beforeEach(() => {
+    clearCache();
+    clearNewsCache();
+    clearMoveExplanations();
+    llm.calls.length = 0;
+    llm.install();
+    ENV.forgeApiUrl = "https://forge.example/";
+    ENV.forgeApiKey = "test-key";
+    prices = {
+      "ETE.AT": [6.3, 6.0],
+      "EUROB.AT": [2.04, 2.0],
+      "ALPHA.AT": [2.02, 2.0],
+      "GD.AT": [2020, 2000],
+    };
+    headlines = ["National Bank of Greece profit beats forecasts", "National Bank of Greece to hold shareholder meeting"];
+    answer = {
+      explanation: "National Bank of Greece rose after first-quarter profit beat forecasts.",
+      supported: true,
+      citations: [1],
+    };
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async (url: string, init?: RequestInit) => {
+        if (url.startsWith("https://news.google.com/")) {
+          return new Response(googleNewsRss(headlines.map((title) => ({ title, publishedAt: Date.now() - 2 * HOUR }))));
+        }
+        if (url.startsWith(ENV.forgeApiUrl)) {
+          const { query } = JSON.parse(String(init?.body));
+          const quote = prices[query.symbol];
+          return Response.json({ jsonData: JSON.stringify(quote ? chart(quote) : { chart: { result: [] } }) });
+        }
+        return new Response("", { status: 404 });
+      })
+    );
+  });
+
+  afterEach(() => {
+    llm.uninstall();
+    vi.unstubAllGlobals();
+    Object.assign(ENV, defaults);
+  });
+
+  it("should explain a sharp move from its articles, sector peers and the index", async () => {
+    const explanation = await getMoveExplanation("ete");
+    expect(explanation).toMatchObject({
+      stockId: "ete",
+      text: "National Bank of Greece rose after first-quarter profit beat forecasts.",
+      supported: true,
+      sector: "Banking",
+      sectorChangePercent: 1.5,
+      model: "fake-llm",
+    });
+    expect(explanation!.changePercent).toBeCloseTo(5);
+    expect(explanation!.indexChangePercent).toBeCloseTo(1);
+    expect(explanation!.sources).toEqual([
+      expect.objectContaining({ title: headlines[0], source: "Naftemporiki", url: "https://news.example/0" }),
+    ]);
+
+    const prompt = String(explanationCalls()[0].messages[1].content);
+    expect(prompt).toContain("moved +5.00% today");
+    expect(prompt).toContain("Sector (Banking): +1.50% on average");
+    expect(prompt).toContain("- Eurobank: +2.00%");
+    expect(prompt).toContain("ATHEX General Index: +1.00%");
+    expect(prompt).toContain(`1. ${headlines[0]} (Naftemporiki`);
+
+    // Cached while the move holds
+    expect(await getMoveExplanation("ete")).toEqual(explanation);
+    expect(explanationCalls()).toHaveLength(1);
+  });
+
+  it("should explain the move again once it drifts", async () => {
+    expect((await getMoveExplanation("ete"))!.changePercent).toBeCloseTo(5);
+
+    clearCache();
+    prices["ETE.AT"] = [6.6, 6.0];
+    answer = { explanation: "National Bank of Greece extended gains after the results.", supported: true, citations: [1] };
+    const explanation = await getMoveExplanation("ete");
+    expect(explanation).toMatchObject({ text: "National Bank of Greece extended gains after the results." });
+    expect(explanation!.changePercent).toBeCloseTo(10);
+    expect(String(explanationCalls()[1].messages[1].content)).toContain("moved +10.00% today");
+  });
+
+  it("should say it is unsure when no article supports the explanation", async () => {
+    // A reason without a citation is not trusted
+    answer = { explanation: "Banks rallied on hopes of rate cuts.", supported: true, citations: [] };
+    const explanation = await getMoveExplanation("ete");
+    expect(explanation).toMatchObject({ supported: false, sources: [] });
+    expect(explanation!.text).toBe(
+      "We're not sure why National Bank of Greece moved +5.00% today: no recent article explains it. Banking stocks moved +1.50% on average and the ATHEX General Index +1.00%."
+    );
+
+    // No recent articles: written from the data alone, without the model
+    clearMoveExplanations();
+    clearNewsCache();
+    headlines = [];
+    llm.calls.length = 0;
+    expect(await getMoveExplanation("ete")).toMatchObject({ supported: false, model: null });
+    expect(explanationCalls()).toHaveLength(0);
+  });
+
+  it("should not cache an answer citing articles it wasn't given", async () => {
+    answer = { explanation: "See article 7.", supported: true, citations: [7] };
+    expect(await getMoveExplanation("ete")).toMatchObject({ supported: false, model: null });
+
+    answer = { explanation: "Profit beat forecasts.", supported: true, citations: [1] };
+    expect(await getMoveExplanation("ete")).toMatchObject({ supported: true, model: "fake-llm" });
+    expect(explanationCalls()).toHaveLength(2);
+  });
+
+  it("should not ask for the index again while it fails", async () => {
+    const fetchMock = vi.mocked(fetch);
+    fetchMock.mockImplementation(async () => new Response("", { status: 500 }));
+
+    expect(await getIndexChangePercent()).toBeNull();
+    expect(await getIndexChangePercent()).toBeNull();
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("should not explain moves below the threshold", async () => {
+    prices["ETE.AT"] = [6.1, 6.0];
+    expect(await getMoveExplanation("ete")).toBeNull();
+    expect(await getMoveExplanation("unknown")).toBeNull();
+    expect(llm.calls).toHaveLength(0);
+  });
+});
@@ -0,0 +1,206 @@
+import { readFileSync } from "fs";
+import { afterEach, beforeEach, describe, it, expect, vi } from "vitest";
+import { ENV } from "../server/_core/env";
+import { parseFeed } from "../server/feedParser";
+import { ingestMarketNews, ingestStockNews, matchStocks, mergeDuplicates, stockQueries } from "../server/newsIngestion";
+import { clearNewsCache, type NewsArticle } from "../server/newsService";
+import { ATHEX_SYMBOLS } from "../server/stockService";
+
+/**
+ * News Ingestion Tests
+ *
+ * Parses recorded RSS, RDF and Atom feeds from server/fixtures/news, matches
+ * headlines in English and Greek to stocks, merges the same story carried
+ * by several sources, and runs stock and market ingestion across Google
+ * News, ATHEX announcements and IR feeds with a stubbed fetch.
+ */
+
+const fixture = (name: string) => readFileSync(`server/fixtures/news/${name}`, "utf8");
+
+function article(title: string, source: string, stockIds: string[] = []): NewsArticle {
+  return { title, source, url: `https://news.example/${source}`, publishedAt: "2026-02-16T08:00:00.000Z", relativeTime: "1h ago", stockIds };
+}
+
+describe("Feed Parser", () => {
+  it("should parse a Google News RSS feed", () => {
+    const feed = parseFeed(fixture("google-news-el.xml"));
+    expect(feed?.format).toBe("rss");
+    expect(feed?.title).toBe('"ΟΠΑΠ μετοχή" - Google News');
+    // The item without a link is dropped
+    expect(feed?.entries.map((e) => e.title)).toEqual([
+      "ΟΠΑΠ: Άλμα 12% στα καθαρά κέρδη εξαμήνου - naftemporiki.gr",
+      "Allwyn & ΟΠΑΠ: Ολοκληρώθηκε η συγχώνευση <μετά από 6 μήνες> - Καθημερινή",
+      "Χρηματιστήριο: Ράλι για ΔΕΗ και ΟΠΑΠ – στις 2.100 μονάδες ο Γενικός Δείκτης - Capital.gr",
+    ]);
+    expect(feed?.entries[0]).toEqual({
+      title: "ΟΠΑΠ: Άλμα 12% στα καθαρά κέρδη εξαμήνου - naftemporiki.gr",
+      url: "https://news.google.com/rss/articles/CBMi-opap-1?oc=5",
+      publishedAt: "2026-02-16T08:30:00.000Z",
+      source: "naftemporiki.gr",
+      summary: "ΟΠΑΠ: Άλμα 12% στα καθαρά κέρδη εξαμήνου naftemporiki.gr",
+      id: "CBMi-opap-1",
+    });
+    expect(feed?.entries[2].source).toBeNull();
+  });
+
+  it("should parse an Atom feed with html and xhtml text", () => {
+    const feed = parseFeed(fixture("athex-announcements.atom"));
+    expect(feed?.format).toBe("atom");
+    expect(feed?.title).toBe("Ανακοινώσεις Εισηγμένων Εταιρειών");
+    const [buyback, results, filing] = feed!.entries;
+    expect(buyback).toMatchObject({
+      title: "ΟΠΑΠ Α.Ε. Ανακοίνωση Αγοράς Ιδίων Μετοχών",
+      // The alternate link, not the PDF enclosure
+      url: "https://announcements.example/opap/buyback",
+      publishedAt: "2026-02-16T07:00:00.000Z",
+      source: null,
+      id: "urn:athex:announcement:1001",
+    });
+    expect(results).toMatchObject({
+      title: "Τράπεζα Πειραιώς: Οικονομικά Αποτελέσματα 2025",
+      publishedAt: "2026-02-16T06:00:00.000Z",
+      source: "Piraeus Financial Holdings IR",
+      summary: "Καθαρά κέρδη 1,2 δισ. ευρώ",
+    });
+    expect(filing.publishedAt).toBeNull();
+  });
+
+  it("should parse an RSS 1.0 (RDF) feed", () => {
+    const feed = parseFeed(fixture("ir-rdf.xml"));
+    expect(feed?.format).toBe("rdf");
+    expect(feed?.title).toBe("PPC Investor Relations");
+    expect(feed?.entries.map((e) => [e.title, e.publishedAt])).toEqual([
+      ["Financial calendar 2026", "2026-02-16T06:00:00.000Z"],
+      ["Ολοκλήρωση εξαγοράς στη Ρουμανία", "2026-02-10T12:00:00.000Z"],
+    ]);
+  });
+
+  it("should read what it can of a malformed feed and reject documents that aren't feeds", () => {
+    const feed = parseFeed(fixture("malformed.xml"));
+    expect(feed?.entries.map((e) => [e.title, e.url])).toEqual([
+      ["Metlen signs & closes deal", "https://broken.example/1"],
+      ["Unclosed item with a stray tag", "https://broken.example/2"],
+    ]);
+
+    expect(parseFeed("<html><body><item><title>Not a feed</title></item></body></html>")).toBeNull();
+    expect(parseFeed("")).toBeNull();
+  });
+});
+
+describe("News Entities", () => {
+  it("should match company names in English and Greek, any case or accents", () => {
+    expect(matchStocks("Εθνική Τράπεζα και Τράπεζα Πειραιώς στα υψηλά")).toEqual(["ete", "tpeir"]);
+    expect(matchStocks("ΟΠΑΠ: ΚΕΡΔΗ ΑΝΩ ΤΩΝ ΕΚΤΙΜΗΣΕΩΝ")).toEqual(["opap"]);
+    expect(matchStocks("Νέα επένδυση της Μυτιληναίου")).toEqual(["mtln"]);
+    expect(matchStocks("Coca-Cola HBC and Jumbo lead gains")).toEqual(["eee", "bela"]);
+  });
+
+  it("should prefer the longest name and only match tickers in capitals", () => {
+    expect(matchStocks("National Bank of Greece beats estimates")).toEqual(["ete"]);
+    expect(matchStocks("Bank of Greece keeps growth forecast")).toEqual(["tell"]);
+    expect(matchStocks("MTLN and OPAP lead the index")).toEqual(["mtln", "opap"]);
+    expect(matchStocks("Opap-style lotteries and the Mtln brand")).toEqual(["opap"]);
+    // Tickers that are ordinary words or abbreviations
+    expect(matchStocks("CPI rises as SPACE race heats up")).toEqual([]);
+  });
+
+  it("should search for every listed stock by name in both languages", () => {
+    expect(stockQueries("opap")).toEqual({ en: "OPAP Greece stock", el: "ΟΠΑΠ μετοχή" });
+    expect(stockQueries("hto")).toEqual({ en: "Hellenic Telecom Greece stock", el: "ΟΤΕ μετοχή" });
+    for (const stockId of Object.keys(ATHEX_SYMBOLS)) {
+      expect(stockQueries(stockId).en).not.toMatch(/[()]|S\.A\./);
+    }
+  });
+
+  it("should merge near-duplicate headlines and keep their sources", () => {
+    const merged = mergeDuplicates([
+      article("ATHEX rally lifts banks to record high", "Naftemporiki", ["exae"]),
+      article("Metlen wins contract in Chile", "Reuters", ["mtln"]),
+      article("ATHEX rally lifts banks to record high!", "Kathimerini"),
+      article("Athex rally lifts banks to a record high", "Reuters", ["ete"]),
+      article("ATHEX rally lifts banks to record high", "Naftemporiki"),
+    ]);
+    expect(merged.map((a) => [a.title, a.source, a.alsoReportedBy, a.stockIds])).toEqual([
+      ["ATHEX rally lifts banks to record high", "Naftemporiki", ["Kathimerini", "Reuters"], ["exae", "ete"]],
+      ["Metlen wins contract in Chile", "Reuters", undefined, ["mtln"]],
+    ]);
+  });
+});
+
+describe("News Ingestion", () => {
+  const defaults = { announcements: ENV.athexAnnouncementsFeedUrl, ir: ENV.newsIrFeeds };
+  const requested: string[] = [];
+
+  const englishOpap = `<rss><channel>
+    <item><title>OPAP first-half profit jumps 12% - Reuters</title><link>https://news.example/en-1</link><pubDate>Mon, 16 Feb 2026 09:30:00 GMT</pubDate></item>
+    <item><title>Eurobank prices senior bond - Bloomberg</title><link>https://news.example/en-2</link><pubDate>Mon, 16 Feb 2026 09:00:00 GMT</pubDate></item>
+    <item><title>Greek gaming market grows - Reuters</title><link>https://news.example/en-3</link><pubDate>Fri, 13 Feb 2026 09:00:00 GMT</pubDate></item>
+  </channel></rss>`;
+
+  beforeEach(() => {
+    clearNewsCache();
+    requested.length = 0;
+    ENV.athexAnnouncementsFeedUrl = "https://announcements.example/feed";
+    ENV.newsIrFeeds = "ppc=https://ir.example/ppc/rss, nope=https://ir.example/nope";
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async (url: string) => {
+        requested.push(url);
+        const { hostname, searchParams } = new URL(url);
+        if (hostname === "announcements.example") return new Response(fixture("athex-announcements.atom"));
+        if (hostname === "ir.example") return new Response(fixture("ir-rdf.xml"));
+        if (searchParams.get("hl") === "el") return new Response(fixture("google-news-el.xml"));
+        if (searchParams.get("q") === "OPAP Greece stock") return new Response(englishOpap);
+        return new Response("<rss><channel></channel></rss>");
+      })
+    );
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    ENV.athexAnnouncementsFeedUrl = defaults.announcements;
+    ENV.newsIrFeeds = defaults.ir;
+    clearNewsCache();
+  });
+
+  it("should gather a stock's news from every source, newest first", async () => {
+    const articles = await ingestStockNews("opap");
+    expect(articles.map((a) => [a.title, a.source, a.language, a.kind])).toEqual([
+      ["OPAP first-half profit jumps 12%", "Reuters", "en", "news"],
+      ["ΟΠΑΠ: Άλμα 12% στα καθαρά κέρδη εξαμήνου", "naftemporiki.gr", "el", "news"],
+      ["Χρηματιστήριο: Ράλι για ΔΕΗ και ΟΠΑΠ – στις 2.100 μονάδες ο Γενικός Δείκτης", "Capital.gr", "el", "news"],
+      ["ΟΠΑΠ Α.Ε. Ανακοίνωση Αγοράς Ιδίων Μετοχών", "Ανακοινώσεις Εισηγμένων Εταιρειών", "el", "announcement"],
+      ["Allwyn & ΟΠΑΠ: Ολοκληρώθηκε η συγχώνευση <μετά από 6 μήνες>", "Καθημερινή", "el", "news"],
+      // Mentions no stock, so it's kept; the Eurobank story isn't
+      ["Greek gaming market grows", "Reuters", "en", "news"],
+    ]);
+    expect(articles[2].stockIds).toEqual(["ppc", "opap"]);
+
+    const queries = requested.filter((u) => u.startsWith("https://news.google.com")).map((u) => new URL(u).searchParams.get("q"));
+    expect(queries).toEqual(["OPAP Greece stock", "ΟΠΑΠ μετοχή"]);
+    // Only the IR feed of the stock asked for
+    expect(requested.some((u) => u.startsWith("https://ir.example"))).toBe(false);
+  });
+
+  it("should attribute IR releases to their company and fetch announcements once", async () => {
+    const articles = await ingestStockNews("ppc");
+    const ir = articles.filter((a) => a.kind === "ir");
+    expect(ir.map((a) => [a.title, a.source, a.language, a.stockIds])).toEqual([
+      ["Financial calendar 2026", "PPC Investor Relations", "en", ["ppc"]],
+      ["Ολοκλήρωση εξαγοράς στη Ρουμανία", "PPC Investor Relations", "el", ["ppc"]],
+    ]);
+
+    // The Motor Oil filing is matched from its summary
+    const moh = await ingestStockNews("moh");
+    expect(moh.map((a) => a.title)).toContain("Ανακοίνωση Ρυθμιζόμενης Πληροφορίας");
+    expect(requested.filter((u) => u.startsWith("https://announcements.example"))).toHaveLength(1);
+  });
+
+  it("should gather market news in English and Greek with the latest announcements", async () => {
+    const articles = await ingestMarketNews();
+    const queries = requested.filter((u) => u.startsWith("https://news.google.com")).map((u) => new URL(u).searchParams.get("q"));
+    expect(queries).toEqual(["Athens stock exchange ATHEX", "Greek stock market", "Χρηματιστήριο Αθηνών"]);
+    expect(articles.filter((a) => a.kind === "announcement")).toHaveLength(3);
+    expect(articles.filter((a) => a.language === "el" && a.kind === "news")).toHaveLength(3);
+  });
+});
@@ -0,0 +1,179 @@
+import { afterEach, beforeEach, describe, it, expect, vi } from "vitest";
+import { ENV } from "../server/_core/env";
+import { setAlertStore, type AlertStore } from "../server/alertStore";
+import { createMemoryAlertStore } from "../server/memoryAlertStore";
+import { getInbox } from "../server/notificationInboxService";
+import { clearNewsCache } from "../server/newsService";
+import { MAX_NEWS_PUSHES_PER_DAY, pushMarketNews, resetNewsSentiment } from "../server/newsPushService";
+import { googleNewsRss } from "./fake-feeds";
+
+/**
+ * Market News Push Tests
+ *
+ * Runs the news push job against a stubbed Google News RSS feed. Validates
+ * that only high-signal, recent headlines reach opted-in users, that a
+ * story is pushed once however many feeds carry it, that the daily cap and
+ * quiet hours hold, and that a strong sentiment shift is pushed.
+ */
+
+const NOW = Date.parse("2026-02-16T10:00:00Z");
+const HOUR = 60 * 60 * 1000;
+
+interface NewsItem {
+  title: string;
+  source?: string;
+  /** Hours before NOW */
+  age?: number;
+}
+
+/** Items per Google News query */
+let feeds: Record<string, NewsItem[]> = {};
+
+function rss(items: NewsItem[]): string {
+  return googleNewsRss(items.map(({ age, ...item }) => ({ ...item, publishedAt: NOW - (age ?? 1) * HOUR })));
+}
+
+describe("Market News Pushes", () => {
+  let store: AlertStore;
+  const defaultLLMKey = ENV.forgeApiKey;
+
+  beforeEach(() => {
+    store = createMemoryAlertStore();
+    setAlertStore(store);
+    clearNewsCache();
+    resetNewsSentiment();
+    feeds = {};
+    // Keyword sentiment, so the headlines below decide it
+    ENV.forgeApiKey = "";
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async (url: string) => new Response(rss(feeds[new URL(url).searchParams.get("q") ?? ""] ?? [])))
+    );
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    ENV.forgeApiKey = defaultLLMKey;
+    setAlertStore(null);
+  });
+
+  async function subscribe(userId: number, options: { marketNews?: boolean; alertOn?: string } = {}) {
+    await store.upsertDevice(`device-${userId}`, `ExponentPushToken[${userId}]`, "ios");
+    await store.claimDevice(`device-${userId}`, userId);
+    if (options.marketNews === false) await store.updatePreferences(userId, { marketNews: false });
+    if (options.alertOn) {
+      await store.insertAlert(userId, {
+        id: `alert-${userId}`,
+        scope: "stock",
+        stockId: options.alertOn,
+        stockName: "",
+        type: "above",
+        threshold: 100,
+        rule: null,
+        enabled: true,
+        lastTriggered: null,
+        createdAt: NOW,
+      });
+    }
+  }
+
+  const titles = async (userId: number) => (await getInbox(userId)).items.map((n) => n.body);
+
+  it("should push each recent high-signal story once to opted-in users", async () => {
+    await subscribe(7, { alertOn: "opap" });
+    await subscribe(8);
+    await subscribe(9, { marketNews: false });
+    feeds["OPAP Greece stock"] = [
+      { title: "OPAP profit jumps on online gaming" },
+      { title: "OPAP to hold shareholder meeting" },
+      { title: "OPAP shares surge after buyback", age: 6 },
+    ];
+    feeds["Athens stock exchange ATHEX"] = [{ title: "ATHEX rally lifts banks to record high" }];
+    // The same stories again, from other sources
+    feeds["Greek stock market"] = [
+      { title: "ATHEX rally lifts banks to record high!", source: "Kathimerini" },
+      { title: "OPAP profit jumps on online gaming", source: "Reuters" },
+    ];
+
+    expect(await pushMarketNews(NOW)).toEqual({ pushed: 4, capped: 0 });
+    expect(await titles(7)).toEqual([
+      "ATHEX rally lifts banks to record high (Naftemporiki)",
+      "OPAP profit jumps on online gaming (Naftemporiki)",
+    ]);
+    expect((await getInbox(7)).items[1]).toMatchObject({ category: "news", data: { type: "market_news", stockId: "opap" } });
+    expect(await titles(8)).toEqual([
+      "OPAP profit jumps on online gaming (Reuters)",
+      "ATHEX rally lifts banks to record high (Naftemporiki)",
+    ]);
+    expect(await titles(9)).toEqual([]);
+
+    // Nothing is pushed twice
+    clearNewsCache();
+    expect(await pushMarketNews(NOW + HOUR / 2)).toEqual({ pushed: 0, capped: 0 });
+  });
+
+  it("should stop at the daily cap until the user's next day", async () => {
+    await subscribe(7);
+    feeds["Athens stock exchange ATHEX"] = [
+      "Banks rally on ECB decision",
+      "Metlen shares jump on new contract",
+      "PPC profit beats forecasts",
+      "Jumbo dividend boost approved",
+      "Aegean traffic growth strong in January",
+    ].map((title, i) => ({ title, age: i * 0.1 + 0.1 }));
+
+    expect(await pushMarketNews(NOW)).toEqual({ pushed: MAX_NEWS_PUSHES_PER_DAY, capped: 1 });
+    // Newest stories first
+    expect((await titles(7))[2]).toBe("Banks rally on ECB decision (Naftemporiki)");
+
+    clearNewsCache();
+    expect(await pushMarketNews(NOW + HOUR)).toEqual({ pushed: 0, capped: 1 });
+
+    // 01:00 the next day in Athens
+    clearNewsCache();
+    feeds["Athens stock exchange ATHEX"] = [{ title: "Banks extend rally into the new week", age: -12.5 }];
+    expect(await pushMarketNews(NOW + 13 * HOUR)).toEqual({ pushed: 1, capped: 0 });
+  });
+
+  it("should hold pushes during quiet hours", async () => {
+    await subscribe(7);
+    await store.updatePreferences(7, { quietHoursStart: 11, quietHoursEnd: 13, timezone: "Europe/Athens" });
+    feeds["Athens stock exchange ATHEX"] = [{ title: "ATHEX slump deepens as banks fall" }];
+
+    expect((await pushMarketNews(NOW)).pushed).toBe(1);
+    // Filed in the inbox, but the push waits for quiet hours to end
+    expect(await titles(7)).toHaveLength(1);
+    expect(await store.takeDueNotifications(NOW)).toHaveLength(0);
+    expect(await store.takeDueNotifications(NOW + 2 * HOUR)).toHaveLength(1);
+  });
+
+  it("should push a strong sentiment shift on the user's stocks", async () => {
+    await subscribe(7, { alertOn: "opap" });
+    // Old headlines: they set the baseline but aren't pushed themselves
+    feeds["OPAP Greece stock"] = [
+      { title: "OPAP to hold shareholder meeting", age: 30 },
+      { title: "OPAP announces board changes", age: 30 },
+    ];
+    expect((await pushMarketNews(NOW)).pushed).toBe(0);
+
+    clearNewsCache();
+    feeds["OPAP Greece stock"] = [
+      { title: "OPAP shares plunge on tax fears", age: 5 },
+      { title: "OPAP downgrade as online revenue falls", age: 6 },
+      { title: "OPAP to hold shareholder meeting", age: 30 },
+    ];
+    expect((await pushMarketNews(NOW + HOUR)).pushed).toBe(1);
+    const [shift] = (await getInbox(7)).items;
+    expect(shift.title).toContain("OPAP S.A. turned bearish");
+    expect(shift.data).toMatchObject({ stockId: "opap", sentiment: "bearish" });
+
+    // Once per stock, direction and day
+    const bearish = feeds["OPAP Greece stock"];
+    clearNewsCache();
+    feeds["OPAP Greece stock"] = [{ title: "OPAP to hold shareholder meeting", age: 30 }];
+    await pushMarketNews(NOW + 2 * HOUR);
+    clearNewsCache();
+    feeds["OPAP Greece stock"] = bearish;
+    expect((await pushMarketNews(NOW + 3 * HOUR)).pushed).toBe(0);
+  });
+});
@@ -0,0 +1,90 @@
+import { afterEach, beforeEach, describe, it, expect, vi } from "vitest";
+import { ENV } from "../server/_core/env";
+import { clearNewsCache, getSentimentAnalyses, getStockNews } from "../server/newsService";
+import { googleNewsRss } from "./fake-feeds";
+import { createFakeLLM } from "./fake-llm";
+
+/**
+ * News Sentiment Tests
+ *
+ * Runs stock news sentiment through a fake LLM. Validates the strict JSON
+ * schema request, that per-headline labels from the model tag the articles,
+ * that model, latency and token usage are recorded, and that answers
+ * outside the schema fall back to keyword sentiment.
+ */
+
+const HEADLINES = [
+  "OPAP to hold shareholder meeting",
+  "OPAP profit jumps on online gaming",
+  "Regulator opens probe into OPAP betting licence",
+];
+
+describe("News Sentiment", () => {
+  let answer: unknown;
+  const llm = createFakeLLM(() => answer);
+
+  beforeEach(() => {
+    clearNewsCache();
+    llm.calls.length = 0;
+    llm.install();
+    vi.stubGlobal("fetch", vi.fn(async () => new Response(googleNewsRss(HEADLINES))));
+  });
+
+  afterEach(() => {
+    llm.uninstall();
+    vi.unstubAllGlobals();
+  });
+
+  it("should label each headline with the model's strict JSON answer", async () => {
+    answer = { labels: ["neutral", "bullish", "bearish"], score: -0.2 };
+
+    const news = await getStockNews("opap");
+    expect(news.articles.map((a) => a.sentiment)).toEqual(["neutral", "bullish", "bearish"]);
+    expect(news.sentiment).toMatchObject({ score: -0.2, label: "Bearish", bullishPercent: 33, bearishPercent: 33, neutralPercent: 34 });
+
+    const [request] = llm.calls;
+    expect(request.responseFormat).toMatchObject({ type: "json_schema", json_schema: { name: "headline_sentiment", strict: true } });
+    expect(JSON.stringify(request.messages)).toContain("3. Regulator opens probe into OPAP betting licence");
+  });
+
+  it("should record the model, latency and token usage of each analysis", async () => {
+    answer = { labels: ["neutral", "bullish", "neutral"], score: 0.3 };
+
+    const { analysis } = await getStockNews("opap");
+    expect(analysis).toMatchObject({ method: "llm", model: "fake-llm", error: null });
+    expect(analysis.promptTokens).toBeGreaterThan(0);
+    expect(analysis.completionTokens).toBeGreaterThan(0);
+    expect(analysis.latencyMs).toBeGreaterThanOrEqual(0);
+    expect(getSentimentAnalyses(1)[0]).toEqual({ stockId: "opap", ...analysis });
+  });
+
+  it("should fall back to keywords when the answer is outside the schema", async () => {
+    for (const bad of [
+      { labels: ["bullish"], score: 0.5 },
+      { labels: ["neutral", "bullish", "bearish"], score: 3 },
+      { labels: ["neutral", "bullish", "bearish"], score: 0, reasoning: "extra field" },
+      "The headlines look mostly positive.",
+    ]) {
+      clearNewsCache();
+      answer = bad;
+      const news = await getStockNews("opap");
+      expect(news.analysis).toMatchObject({ method: "keywords", model: null });
+      expect(news.analysis.error).not.toBeNull();
+      // Keyword tags: "profit" and "jump" are bullish, the probe has no signal words
+      expect(news.articles.map((a) => a.sentiment)).toEqual(["neutral", "bullish", "neutral"]);
+    }
+  });
+
+  it("should use keywords without calling anything when no LLM is configured", async () => {
+    llm.uninstall();
+    const defaultKey = ENV.forgeApiKey;
+    ENV.forgeApiKey = "";
+    try {
+      const news = await getStockNews("opap");
+      expect(news.analysis).toMatchObject({ method: "keywords", error: null });
+      expect(llm.calls).toHaveLength(0);
+    } finally {
+      ENV.forgeApiKey = defaultKey;
+    }
+  });
+});
@@ -0,0 +1,94 @@
+import { afterEach, beforeEach, describe, it, expect, vi } from "vitest";
+import { DEFAULT_PREFERENCES, setAlertStore, type AlertStore } from "../server/alertStore";
+import { createMemoryAlertStore } from "../server/memoryAlertStore";
+import { deliverNotification } from "../server/priceAlertService";
+import { getInbox, markInboxRead, removeInboxNotifications } from "../server/notificationInboxService";
+
+/**
+ * Notification Inbox Tests
+ *
+ * Validates that delivered notifications are filed in the account's inbox
+ * (with or without a device to push to), that the inbox pages newest first,
+ * and that read state and deletions are scoped to the account.
+ */
+
+const NOW = Date.parse("2026-02-16T10:00:00Z");
+const MINUTE = 60 * 1000;
+
+describe("Notification Inbox", () => {
+  let store: AlertStore;
+
+  beforeEach(() => {
+    store = createMemoryAlertStore();
+    setAlertStore(store);
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async (_url: string, init: { body: string }) => {
+        const messages: unknown[] = JSON.parse(init.body);
+        return new Response(JSON.stringify({ data: messages.map((_, i) => ({ status: "ok", id: `ticket-${i}` })) }));
+      })
+    );
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    setAlertStore(null);
+  });
+
+  const notify = (userId: number, title: string, now = NOW, tokens: string[] = []) =>
+    deliverNotification({ userId }, tokens, DEFAULT_PREFERENCES, "alerts", { title, body: "", data: { stockId: "opap" } }, now);
+
+  it("should file delivered notifications in the owner's inbox", async () => {
+    const outcome = await notify(7, "OPAP hit €15.00", NOW, ["ExponentPushToken[a]"]);
+    // No device to push to, but the inbox still has it
+    await notify(7, "Metlen moved 5.2% up", NOW + MINUTE);
+    await notify(8, "Someone else's alert");
+
+    const page = await getInbox(7);
+    expect(page.items.map((n) => n.title)).toEqual(["Metlen moved 5.2% up", "OPAP hit €15.00"]);
+    expect(page.unreadCount).toBe(2);
+    expect(page.items[1]).toMatchObject({
+      notificationId: outcome.notificationId,
+      category: "alerts",
+      read: false,
+      createdAt: NOW,
+    });
+    expect(page.items[1].data).toMatchObject({ stockId: "opap" });
+
+    // The push carries the inbox ID so the app can mark it read when tapped
+    const pushed = await store.listPushMessages(outcome.notificationId);
+    expect(pushed[0].data).toMatchObject({ notificationId: outcome.notificationId, inboxId: String(page.items[1].id) });
+  });
+
+  it("should page newest first", async () => {
+    for (let i = 0; i < 5; i++) await notify(7, `Alert ${i}`, NOW + i * MINUTE);
+
+    const first = await getInbox(7, null, 2);
+    expect(first.items.map((n) => n.title)).toEqual(["Alert 4", "Alert 3"]);
+    const second = await getInbox(7, first.nextCursor, 2);
+    expect(second.items.map((n) => n.title)).toEqual(["Alert 2", "Alert 1"]);
+    const last = await getInbox(7, second.nextCursor, 2);
+    expect(last.items.map((n) => n.title)).toEqual(["Alert 0"]);
+    expect(last.nextCursor).toBeNull();
+  });
+
+  it("should sync read state and deletions for the account only", async () => {
+    for (let i = 0; i < 3; i++) await notify(7, `Alert ${i}`, NOW + i * MINUTE);
+    await notify(8, "Someone else's alert");
+    const ids = (await getInbox(7)).items.map((n) => n.id);
+    const otherId = (await getInbox(8)).items[0].id;
+
+    expect(await markInboxRead(7, [ids[0], otherId])).toBe(2);
+    expect(await markInboxRead(7, [ids[0]], false)).toBe(3);
+    expect(await markInboxRead(7, null)).toBe(0);
+    expect((await getInbox(8)).unreadCount).toBe(1);
+
+    await markInboxRead(7, [ids[1]], false);
+    expect(await removeInboxNotifications(7, [ids[1], otherId])).toBe(0);
+    expect((await getInbox(7)).items).toHaveLength(2);
+    expect((await getInbox(8)).items).toHaveLength(1);
+
+    await removeInboxNotifications(7, null);
+    expect((await getInbox(7)).items).toHaveLength(0);
+  });
+});
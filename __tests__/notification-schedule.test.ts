@@ -0,0 +1,141 @@
+import { afterEach, beforeEach, describe, it, expect, vi } from "vitest";
+import { DEFAULT_PREFERENCES, setAlertStore, type AlertStore } from "../server/alertStore";
+import { createMemoryAlertStore } from "../server/memoryAlertStore";
+import { deliverNotification, flushHeldNotifications, type NotificationPreferences } from "../server/priceAlertService";
+import { processPushQueue } from "../server/pushDeliveryService";
+import {
+  isDeliveryHeld,
+  isInQuietHours,
+  localTime,
+  nextDeliveryTime,
+  type DeliverySettings,
+} from "../shared/notification-schedule";
+
+/**
+ * Notification Schedule Tests
+ *
+ * Validates that quiet hours and category windows are read in the user's
+ * timezone rather than the server's, when held notifications become due,
+ * and that held notifications are queued and later sent one by one or as a
+ * morning digest.
+ */
+
+// Friday 2026-02-13 22:30 UTC = Saturday 00:30 in Athens (UTC+2)
+const FRIDAY_NIGHT = Date.parse("2026-02-13T22:30:00Z");
+const HOUR = 60 * 60 * 1000;
+
+function settings(overrides: Partial<DeliverySettings> = {}): DeliverySettings {
+  return {
+    timezone: "Europe/Athens",
+    quietHoursStart: 23,
+    quietHoursEnd: 7,
+    schedules: {},
+    heldDelivery: "when_quiet_ends",
+    digestHour: 8,
+    ...overrides,
+  };
+}
+
+describe("Notification Schedules", () => {
+  it("should read quiet hours in the user's timezone", () => {
+    expect(localTime(FRIDAY_NIGHT, "Europe/Athens")).toEqual({ weekday: 6, hour: 0, minute: 30 });
+    expect(isInQuietHours(settings(), FRIDAY_NIGHT)).toBe(true);
+    // 17:30 in New York is outside the same quiet hours
+    expect(isInQuietHours(settings({ timezone: "America/New_York" }), FRIDAY_NIGHT)).toBe(false);
+  });
+
+  it("should hold categories outside their window or on weekends", () => {
+    const prefs = settings({
+      quietHoursStart: null,
+      quietHoursEnd: null,
+      schedules: { news: { startHour: 9, endHour: 21, weekends: true }, social: { startHour: 0, endHour: 0, weekends: false } },
+    });
+    expect(isDeliveryHeld(prefs, "news", FRIDAY_NIGHT)).toBe(true);
+    expect(isDeliveryHeld(prefs, "alerts", FRIDAY_NIGHT)).toBe(false);
+    // All-day window, but weekdays only
+    expect(isDeliveryHeld(prefs, "social", FRIDAY_NIGHT)).toBe(true);
+    expect(isDeliveryHeld(prefs, "social", FRIDAY_NIGHT - 6 * HOUR)).toBe(false);
+  });
+
+  it("should release held notifications when quiet hours end", () => {
+    // 07:00 Athens = 05:00 UTC
+    expect(nextDeliveryTime(settings(), "alerts", FRIDAY_NIGHT)).toBe(Date.parse("2026-02-14T05:00:00Z"));
+    // ...unless the category's window opens later
+    const news = settings({ schedules: { news: { startHour: 9, endHour: 21, weekends: true } } });
+    expect(nextDeliveryTime(news, "news", FRIDAY_NIGHT)).toBe(Date.parse("2026-02-14T07:00:00Z"));
+    // ...or skips the weekend
+    const weekdays = settings({ schedules: { news: { startHour: 9, endHour: 21, weekends: false } } });
+    expect(nextDeliveryTime(weekdays, "news", FRIDAY_NIGHT)).toBe(Date.parse("2026-02-16T07:00:00Z"));
+  });
+
+  it("should hold morning digests until the digest hour", () => {
+    const digest = settings({ heldDelivery: "morning_digest", digestHour: 8 });
+    expect(nextDeliveryTime(digest, "alerts", FRIDAY_NIGHT)).toBe(Date.parse("2026-02-14T06:00:00Z"));
+    // A digest hour inside quiet hours falls back to when they end
+    const quiet = settings({ heldDelivery: "morning_digest", digestHour: 3 });
+    expect(nextDeliveryTime(quiet, "alerts", FRIDAY_NIGHT)).toBe(Date.parse("2026-02-14T05:00:00Z"));
+  });
+});
+
+describe("Held Notifications", () => {
+  let store: AlertStore;
+  const sent: { title: string; body: string }[] = [];
+
+  beforeEach(async () => {
+    store = createMemoryAlertStore();
+    setAlertStore(store);
+    sent.length = 0;
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async (_url: string, init: { body: string }) => {
+        const messages: { title: string; body: string }[] = JSON.parse(init.body);
+        sent.push(...messages.map(({ title, body }) => ({ title, body })));
+        return new Response(JSON.stringify({ data: messages.map((_, i) => ({ status: "ok", id: `ticket-${i}` })) }));
+      })
+    );
+    await store.upsertDevice("phone", "ExponentPushToken[a]", "ios");
+    await store.claimDevice("phone", 7);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    setAlertStore(null);
+  });
+
+  const prefs = (overrides: Partial<NotificationPreferences> = {}): NotificationPreferences => ({
+    ...DEFAULT_PREFERENCES,
+    ...settings(),
+    ...overrides,
+  });
+
+  it("should send outside quiet hours and hold inside them", async () => {
+    const owner = { userId: 7 };
+    const tokens = ["ExponentPushToken[a]"];
+    const notification = { title: "OPAP hit €15.00", body: "" };
+
+    const evening = FRIDAY_NIGHT - 6 * HOUR;
+    expect((await deliverNotification(owner, tokens, prefs(), "alerts", notification, evening)).status).toBe("queued");
+    expect((await deliverNotification(owner, tokens, prefs(), "alerts", notification, FRIDAY_NIGHT)).status).toBe("held");
+    await processPushQueue(FRIDAY_NIGHT);
+    expect(sent).toHaveLength(1);
+
+    expect(await flushHeldNotifications(FRIDAY_NIGHT + HOUR)).toEqual({ queued: 0, failed: 0 });
+    expect(await flushHeldNotifications(FRIDAY_NIGHT + 7 * HOUR)).toEqual({ queued: 1, failed: 0 });
+    expect(sent.map((n) => n.title)).toEqual(["OPAP hit €15.00", "OPAP hit €15.00"]);
+    // Sent once only
+    expect(await flushHeldNotifications(FRIDAY_NIGHT + 8 * HOUR)).toEqual({ queued: 0, failed: 0 });
+  });
+
+  it("should combine held notifications into one morning digest", async () => {
+    await store.updatePreferences(7, { heldDelivery: "morning_digest" });
+    const digestPrefs = prefs({ heldDelivery: "morning_digest" });
+    for (const title of ["OPAP hit €15.00", "Metlen moved 5.2% up"]) {
+      await deliverNotification({ userId: 7 }, ["ExponentPushToken[a]"], digestPrefs, "alerts", { title, body: "" }, FRIDAY_NIGHT);
+    }
+
+    expect(await flushHeldNotifications(FRIDAY_NIGHT + 8 * HOUR)).toEqual({ queued: 1, failed: 0 });
+    expect(sent).toHaveLength(1);
+    expect(sent[0].title).toContain("2 updates");
+    expect(sent[0].body).toContain("Metlen moved 5.2% up");
+  });
+});
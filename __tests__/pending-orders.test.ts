@@ -0,0 +1,70 @@
+import { describe, it, expect } from "vitest";
+import { evaluateOrder } from "../server/orderService";
+
+/**
+ * Pending Order Evaluation Tests
+ *
+ * Validates when limit, stop and stop-limit orders trigger and fill
+ * against the current market price.
+ */
+describe("Pending Order Evaluation", () => {
+  const base = { limitPrice: null, stopPrice: null, stopTriggered: false };
+
+  describe("Limit orders", () => {
+    it("should fill a buy limit at or below the limit price", () => {
+      const order = { ...base, side: "buy" as const, orderType: "limit" as const, limitPrice: 10 };
+      expect(evaluateOrder(order, 10.5)).toEqual({ action: "none" });
+      expect(evaluateOrder(order, 10)).toEqual({ action: "fill", price: 10 });
+      expect(evaluateOrder(order, 9.8)).toEqual({ action: "fill", price: 9.8 });
+    });
+
+    it("should fill a sell limit at or above the limit price", () => {
+      const order = { ...base, side: "sell" as const, orderType: "limit" as const, limitPrice: 10 };
+      expect(evaluateOrder(order, 9.9)).toEqual({ action: "none" });
+      expect(evaluateOrder(order, 10.2)).toEqual({ action: "fill", price: 10.2 });
+    });
+  });
+
+  describe("Stop orders", () => {
+    it("should fill a buy stop once the price rises to the stop", () => {
+      const order = { ...base, side: "buy" as const, orderType: "stop" as const, stopPrice: 12 };
+      expect(evaluateOrder(order, 11.9)).toEqual({ action: "none" });
+      expect(evaluateOrder(order, 12.1)).toEqual({ action: "fill", price: 12.1 });
+    });
+
+    it("should fill a sell stop once the price falls to the stop", () => {
+      const order = { ...base, side: "sell" as const, orderType: "stop" as const, stopPrice: 8 };
+      expect(evaluateOrder(order, 8.5)).toEqual({ action: "none" });
+      expect(evaluateOrder(order, 7.9)).toEqual({ action: "fill", price: 7.9 });
+    });
+  });
+
+  describe("Stop-limit orders", () => {
+    const sellStopLimit = {
+      ...base,
+      side: "sell" as const,
+      orderType: "stop_limit" as const,
+      stopPrice: 8,
+      limitPrice: 7.8,
+    };
+
+    it("should do nothing before the stop is hit", () => {
+      expect(evaluateOrder(sellStopLimit, 8.2)).toEqual({ action: "none" });
+    });
+
+    it("should fill when the stop is hit and the limit is marketable", () => {
+      expect(evaluateOrder(sellStopLimit, 7.9)).toEqual({ action: "fill", price: 7.9 });
+    });
+
+    it("should trigger without filling when the price gaps through the limit", () => {
+      expect(evaluateOrder(sellStopLimit, 7.5)).toEqual({ action: "trigger" });
+    });
+
+    it("should rest as a limit order once triggered", () => {
+      const triggered = { ...sellStopLimit, stopTriggered: true };
+      expect(evaluateOrder(triggered, 7.5)).toEqual({ action: "none" });
+      // Recovers above the stop but still within the limit
+      expect(evaluateOrder(triggered, 8.3)).toEqual({ action: "fill", price: 8.3 });
+    });
+  });
+});
@@ -0,0 +1,162 @@
+import { afterEach, beforeEach, describe, it, expect } from "vitest";
+import { drizzle } from "drizzle-orm/mysql-proxy";
+import { ENV } from "../server/_core/env";
+import { ensurePortfolio, fillPortfolioTrade, isQuoteFresh, type Db, type Tx } from "../server/portfolioService";
+import { DEMO_BALANCE, PORTFOLIO_HOLDINGS } from "../lib/mock-data";
+
+/**
+ * Portfolio Service Tests
+ *
+ * Runs the service against a database that records every statement.
+ * Validates that fills lock the portfolio row before checking the balance
+ * and reject overspending without writing, that open orders keep their
+ * reserved cash, that a first access seeds the portfolio in one
+ * transaction, and which quotes a demo trade may fill at.
+ */
+
+interface Statement {
+  sql: string;
+  params: unknown[];
+}
+
+/**
+ * A drizzle database over the mysql-proxy driver: records statements and
+ * answers selects with `answer` (rows as column arrays). The proxy has no
+ * transactions, so they run inline between "begin" and "commit".
+ */
+function createRecordingDb(answer: (sql: string) => unknown[][]) {
+  const statements: Statement[] = [];
+  const db = drizzle(async (sql, params, method) => {
+    statements.push({ sql, params });
+    return method === "all" ? { rows: answer(sql) } : { rows: [{ insertId: 1, affectedRows: 1 }] };
+  });
+  Object.assign(db, {
+    transaction: async (run: (tx: typeof db) => Promise<unknown>) => {
+      statements.push({ sql: "begin", params: [] });
+      const result = await run(db);
+      statements.push({ sql: "commit", params: [] });
+      return result;
+    },
+  });
+  return { db: db as unknown as Db & Tx, statements };
+}
+
+const UPDATED_AT = "2026-02-13 10:00:00";
+/** id, userId, balance, xp, streak, createdAt, updatedAt */
+const portfolioRow = (balance: number) => [1, 7, balance, 240, 5, UPDATED_AT, UPDATED_AT];
+
+const BUY = { stockId: "opap", ticker: "OPAP", name: "OPAP S.A.", type: "buy" as const, amount: 100, shares: 6.25, price: 16 };
+
+describe("Portfolio Fills", () => {
+  /** id, stockId, side, shares, limitPrice, stopPrice */
+  const openBuy = ["order-1", "ete", "buy", 50, 8, null];
+  const answerWithBalance =
+    (balance: number, openOrders: unknown[][] = []) =>
+    (sql: string) => {
+      if (sql.includes("from `portfolios`")) return [portfolioRow(balance)];
+      if (sql.includes("from `orders`")) return openOrders;
+      return [];
+    };
+
+  it("should lock the portfolio row before checking the balance", async () => {
+    const { db, statements } = createRecordingDb(answerWithBalance(500));
+    const result = await fillPortfolioTrade(db, 1, BUY);
+    expect(result).toMatchObject({ success: true, trade: { stockId: "opap", amount: 100, shares: 6.25 } });
+
+    expect(statements[0].sql).toMatch(/^select .* from `portfolios` .* for update$/);
+    const writes = statements.filter((s) => !s.sql.startsWith("select")).map((s) => s.sql.split(" ").slice(0, 3).join(" "));
+    expect(writes).toEqual(["insert into `holdings`", "insert into `trades`", "update `portfolios` set"]);
+    // 500 - 100, and 15 XP for the trade
+    expect(statements[statements.length - 1].params.slice(0, 2)).toEqual([400, 255]);
+  });
+
+  it("should reject a buy the balance can't cover without writing", async () => {
+    const { db, statements } = createRecordingDb(answerWithBalance(50));
+    expect(await fillPortfolioTrade(db, 1, BUY)).toEqual({
+      success: false,
+      error: "Insufficient balance. You have €50.00 available but need €100.00",
+    });
+    expect(statements.every((s) => s.sql.startsWith("select"))).toBe(true);
+  });
+
+  it("should keep the cash an open buy order reserves", async () => {
+    // 50 shares at 8 hold €400 of the €450
+    const { db } = createRecordingDb(answerWithBalance(450, [openBuy]));
+    expect(await fillPortfolioTrade(db, 1, BUY)).toEqual({
+      success: false,
+      error: "Insufficient balance. You have €50.00 available but need €100.00",
+    });
+
+    // The order itself may use what it reserved
+    const fill = { ...BUY, stockId: "ete", amount: 400, shares: 50, price: 8, orderId: "order-1" };
+    expect(await fillPortfolioTrade(db, 1, fill)).toMatchObject({ success: true });
+  });
+});
+
+describe("Portfolio Seeding", () => {
+  it("should seed a new portfolio with the starting balance and holdings in one transaction", async () => {
+    // Not found at first, then found once inserted
+    let lookups = 0;
+    const { db, statements } = createRecordingDb(() => (lookups++ === 0 ? [] : [[1]]));
+    expect(await ensurePortfolio(db, 7)).toBe(1);
+
+    const seedCost = PORTFOLIO_HOLDINGS.reduce((sum, h) => sum + h.shares * h.avgCost, 0);
+    const begin = statements.findIndex((s) => s.sql === "begin");
+    const insertPortfolio = statements[begin + 1];
+    expect(insertPortfolio.sql).toMatch(/^insert into `portfolios` .* on duplicate key update/);
+    expect(insertPortfolio.params).toEqual(expect.arrayContaining([7, DEMO_BALANCE - seedCost, 240, 5]));
+
+    const insertHoldings = statements.find((s) => s.sql.startsWith("insert into `holdings`"))!;
+    expect(insertHoldings.params).toEqual(expect.arrayContaining(PORTFOLIO_HOLDINGS.map((h) => h.asset.id)));
+    expect(statements.indexOf(insertHoldings)).toBeLessThan(statements.findIndex((s) => s.sql === "commit"));
+  });
+
+  it("should return an existing portfolio without seeding it again", async () => {
+    const { db, statements } = createRecordingDb(() => [[3]]);
+    expect(await ensurePortfolio(db, 7)).toBe(3);
+    expect(statements).toHaveLength(1);
+  });
+});
+
+const MINUTE = 60 * 1000;
+// Friday 13 February 2026, 15:00 Athens — mid-session
+const MID_SESSION = Date.parse("2026-02-13T13:00:00Z");
+// Saturday 14 February 2026
+const WEEKEND = Date.parse("2026-02-14T10:00:00Z");
+
+describe("Quote Freshness", () => {
+  const maxAge = ENV.tradeMaxQuoteAgeMs;
+  const maxTradeAge = ENV.tradeMaxLastTradeAgeMs;
+
+  beforeEach(() => {
+    ENV.tradeMaxQuoteAgeMs = 5 * MINUTE;
+  });
+
+  afterEach(() => {
+    ENV.tradeMaxQuoteAgeMs = maxAge;
+    ENV.tradeMaxLastTradeAgeMs = maxTradeAge;
+  });
+
+  it("should reject a quote fetched too long ago", () => {
+    expect(isQuoteFresh({ lastUpdated: MID_SESSION - MINUTE, marketTime: MID_SESSION - MINUTE }, MID_SESSION)).toBe(true);
+    expect(isQuoteFresh({ lastUpdated: MID_SESSION - 6 * MINUTE, marketTime: null }, MID_SESSION)).toBe(false);
+  });
+
+  it("should accept a just-fetched quote whose last trade is old by default", () => {
+    ENV.tradeMaxLastTradeAgeMs = 0;
+    expect(isQuoteFresh({ lastUpdated: MID_SESSION, marketTime: MID_SESSION - 20 * MINUTE }, MID_SESSION)).toBe(true);
+  });
+
+  it("should reject a quote whose last trade is older than the last trade limit during the session", () => {
+    ENV.tradeMaxLastTradeAgeMs = 60 * MINUTE;
+    expect(isQuoteFresh({ lastUpdated: MID_SESSION, marketTime: MID_SESSION - 20 * MINUTE }, MID_SESSION)).toBe(true);
+    expect(isQuoteFresh({ lastUpdated: MID_SESSION, marketTime: MID_SESSION - 90 * MINUTE }, MID_SESSION)).toBe(false);
+    // Without a market time only the fetch counts
+    expect(isQuoteFresh({ lastUpdated: MID_SESSION, marketTime: null }, MID_SESSION)).toBe(true);
+  });
+
+  it("should accept the last close outside trading", () => {
+    ENV.tradeMaxLastTradeAgeMs = 60 * MINUTE;
+    expect(isQuoteFresh({ lastUpdated: WEEKEND, marketTime: WEEKEND - 24 * 60 * MINUTE }, WEEKEND)).toBe(true);
+  });
+});
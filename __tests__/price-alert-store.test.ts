@@ -0,0 +1,331 @@
+import { afterEach, beforeEach, describe, it, expect } from "vitest";
+import { setAlertStore } from "../server/alertStore";
+import { createMemoryAlertStore } from "../server/memoryAlertStore";
+import { valuePortfolio } from "../server/portfolioService";
+import {
+  checkAlertCondition,
+  checkPortfolioCondition,
+  claimDevice,
+  findMovers,
+  getDevice,
+  getDevices,
+  registerDevice,
+  unregisterDevice,
+  type PriceAlert,
+} from "../server/priceAlertService";
+import type { RuleMarketData } from "../shared/alert-rules";
+import type { StockQuote } from "../server/stockService";
+
+/**
+ * Price Alert Store Tests
+ *
+ * Validates the alert store contract on the in-memory implementation:
+ * alerts and preferences are scoped to an account and fire on all of its
+ * devices, only one caller can claim an alert per cooldown, and failed
+ * pushes release their claim. Also covers who may link a device and when
+ * stock, portfolio and watchlist alerts fire.
+ */
+const COOLDOWN = 30 * 60 * 1000;
+const NOW = Date.parse("2026-02-13T13:00:00Z");
+
+function makeAlert(overrides: Partial<PriceAlert> = {}): PriceAlert {
+  return {
+    id: "alert-1",
+    scope: "stock",
+    stockId: "opap",
+    stockName: "OPAP",
+    type: "above",
+    threshold: 15,
+    rule: null,
+    enabled: true,
+    lastTriggered: null,
+    createdAt: NOW,
+    ...overrides,
+  };
+}
+
+describe("Alert Store", () => {
+  it("should keep the owner and alerts when a device re-registers", async () => {
+    const store = createMemoryAlertStore();
+    await store.upsertDevice("device-1", "ExponentPushToken[a]", "ios");
+    await store.claimDevice("device-1", 7);
+    await store.insertAlert(7, makeAlert());
+
+    const device = await store.upsertDevice("device-1", "ExponentPushToken[b]", "ios");
+    expect(device.pushToken).toBe("ExponentPushToken[b]");
+    expect(device.userId).toBe(7);
+    expect(await store.listAlerts(7)).toHaveLength(1);
+  });
+
+  it("should scope alerts and preferences to their account", async () => {
+    const store = createMemoryAlertStore();
+    await store.insertAlert(7, makeAlert());
+    await store.updatePreferences(7, { percentThreshold: 2 });
+
+    expect(await store.listAlerts(8)).toEqual([]);
+    expect(await store.deleteAlert(8, "alert-1")).toBe(false);
+    expect(await store.toggleAlert(8, "alert-1")).toBe(false);
+    expect((await store.getPreferences(8)).percentThreshold).toBe(5);
+    expect((await store.getPreferences(7)).percentThreshold).toBe(2);
+  });
+
+  it("should push an account's alerts to all of its devices", async () => {
+    const store = createMemoryAlertStore();
+    await store.upsertDevice("phone", "t1", "ios");
+    await store.upsertDevice("tablet", "t2", "android");
+    await store.upsertDevice("other", "t3", "ios");
+    await store.claimDevice("phone", 7);
+    await store.claimDevice("tablet", 7);
+    await store.insertAlert(7, makeAlert({ id: "a" }));
+    await store.insertAlert(7, makeAlert({ id: "b", enabled: false }));
+
+    const active = await store.listActiveAlerts();
+    expect(active.map((a) => a.alert.id)).toEqual(["a"]);
+    expect(active[0].owner).toEqual({ userId: 7 });
+    expect(active[0].pushTokens.sort()).toEqual(["t1", "t2"]);
+  });
+
+  it("should skip accounts with price alerts off or no devices", async () => {
+    const store = createMemoryAlertStore();
+    await store.insertAlert(7, makeAlert({ id: "a" }));
+    await store.upsertDevice("phone", "t1", "ios");
+    await store.claimDevice("phone", 8);
+    await store.insertAlert(8, makeAlert({ id: "b" }));
+    await store.updatePreferences(8, { priceAlerts: false });
+
+    expect(await store.listActiveAlerts()).toEqual([]);
+  });
+
+  it("should let only one caller claim an alert per cooldown", async () => {
+    const store = createMemoryAlertStore();
+    await store.insertAlert(7, makeAlert());
+
+    const claims = await Promise.all([
+      store.claimAlert("alert-1", NOW, COOLDOWN),
+      store.claimAlert("alert-1", NOW, COOLDOWN),
+    ]);
+    expect(claims.filter(Boolean)).toHaveLength(1);
+    expect(await store.claimAlert("alert-1", NOW + COOLDOWN - 1, COOLDOWN)).toBe(false);
+    expect(await store.claimAlert("alert-1", NOW + COOLDOWN, COOLDOWN)).toBe(true);
+  });
+
+  it("should release a claim after a failed push unless it was claimed again", async () => {
+    const store = createMemoryAlertStore();
+    await store.insertAlert(7, makeAlert());
+
+    await store.claimAlert("alert-1", NOW, COOLDOWN);
+    await store.releaseAlert("alert-1", NOW, null);
+    expect((await store.listAlerts(7))[0].lastTriggered).toBeNull();
+
+    await store.claimAlert("alert-1", NOW, COOLDOWN);
+    await store.releaseAlert("alert-1", NOW - 1, null);
+    expect((await store.listAlerts(7))[0].lastTriggered).toBe(NOW);
+  });
+
+  it("should return an account's triggers newest first", async () => {
+    const store = createMemoryAlertStore();
+    const trigger = {
+      alertId: "alert-1",
+      userId: 7,
+      deviceId: null,
+      stockId: "opap",
+      price: 15.2,
+      previousPrice: 14.9,
+      title: "OPAP hit €15.00",
+      body: "",
+      status: "sent" as const,
+      notificationId: null,
+    };
+    await store.recordTrigger({ ...trigger, triggeredAt: NOW });
+    await store.recordTrigger({ ...trigger, userId: 8, triggeredAt: NOW + 1 });
+    await store.recordTrigger({ ...trigger, status: "failed", triggeredAt: NOW + 2 });
+
+    const history = await store.listTriggers(7, 10);
+    expect(history.map((t) => t.triggeredAt)).toEqual([NOW + 2, NOW]);
+  });
+
+  it("should list one alert's triggers since a time, oldest first", async () => {
+    const store = createMemoryAlertStore();
+    const trigger = {
+      alertId: "alert-1",
+      userId: 7,
+      deviceId: null,
+      stockId: null,
+      price: 101_000,
+      previousPrice: null,
+      title: "Your portfolio passed €100000.00",
+      body: "",
+      status: "sent" as const,
+      notificationId: null,
+    };
+    await store.recordTrigger({ ...trigger, triggeredAt: NOW - 1 });
+    await store.recordTrigger({ ...trigger, stockId: "opap", triggeredAt: NOW + 1 });
+    await store.recordTrigger({ ...trigger, triggeredAt: NOW });
+    await store.recordTrigger({ ...trigger, alertId: "alert-2", triggeredAt: NOW });
+
+    const triggers = await store.listAlertTriggers("alert-1", NOW);
+    expect(triggers.map((t) => [t.triggeredAt, t.stockId])).toEqual([
+      [NOW, null],
+      [NOW + 1, "opap"],
+    ]);
+  });
+});
+
+describe("Device Ownership", () => {
+  beforeEach(() => setAlertStore(createMemoryAlertStore()));
+  afterEach(() => setAlertStore(null));
+
+  it("should link a device when a signed-in user registers it", async () => {
+    await registerDevice("phone", "t1", "ios");
+    const result = await registerDevice("phone", "t1", "ios", 7);
+    expect(result.success && result.device.userId).toBe(7);
+    expect((await getDevices(7)).map((d) => d.deviceId)).toEqual(["phone"]);
+  });
+
+  it("should claim anonymous devices but not other accounts' devices", async () => {
+    await registerDevice("phone", "t1", "ios");
+    expect((await claimDevice("phone", 7)).success).toBe(true);
+    expect((await claimDevice("phone", 8)).success).toBe(false);
+    expect((await claimDevice("missing", 7)).success).toBe(false);
+  });
+
+  it("should let only one of two concurrent claims link a device", async () => {
+    await registerDevice("phone", "t1", "ios");
+    const [first, second] = await Promise.all([claimDevice("phone", 7), claimDevice("phone", 8)]);
+    expect([first.success, second.success].filter(Boolean)).toHaveLength(1);
+    expect((await getDevice("phone"))?.userId).toBe(first.success ? 7 : 8);
+  });
+
+  it("should not let anonymous callers take over a linked device", async () => {
+    await registerDevice("phone", "t1", "ios", 7);
+    expect((await registerDevice("phone", "attacker", "ios")).success).toBe(false);
+    expect(await unregisterDevice("phone")).toBe(false);
+    expect((await getDevice("phone"))?.pushToken).toBe("t1");
+  });
+
+  it("should move a device to a new account only with its current push token", async () => {
+    await registerDevice("phone", "t1", "ios", 7);
+    expect((await registerDevice("phone", "other", "ios", 8)).success).toBe(false);
+    const moved = await registerDevice("phone", "t1", "ios", 8);
+    expect(moved.success && moved.device.userId).toBe(8);
+  });
+});
+
+/** Market data with a €10 previous close and the given live price */
+function market(price: number): RuleMarketData {
+  return {
+    history: [{ open: 10, high: 10, low: 10, close: 10, volume: 0 }],
+    today: { open: 10, high: price, low: price, price, volume: 0 },
+    previousPrice: null,
+  };
+}
+
+describe("Alert Conditions", () => {
+  it("should fire above and below thresholds", () => {
+    expect(checkAlertCondition(makeAlert(), market(15), NOW)).toBe(true);
+    expect(checkAlertCondition(makeAlert(), market(14.99), NOW)).toBe(false);
+    expect(checkAlertCondition(makeAlert({ type: "below" }), market(14.5), NOW)).toBe(true);
+  });
+
+  it("should measure percent changes against the previous close", () => {
+    const alert = makeAlert({ type: "percent_change", threshold: 5 });
+    expect(checkAlertCondition(alert, market(10.5), NOW)).toBe(true);
+    expect(checkAlertCondition(alert, market(9.5), NOW)).toBe(true);
+    expect(checkAlertCondition(alert, market(10.4), NOW)).toBe(false);
+    // The previous check doesn't matter, only the move on the day
+    expect(checkAlertCondition(alert, { ...market(10.5), previousPrice: 10.4 }, NOW)).toBe(true);
+  });
+
+  it("should stay quiet during the cooldown", () => {
+    const alert = makeAlert({ lastTriggered: NOW - 60_000 });
+    expect(checkAlertCondition(alert, market(16), NOW)).toBe(false);
+    expect(checkAlertCondition(alert, market(16), NOW + COOLDOWN)).toBe(true);
+  });
+
+  it("should fire moves and rules at most once per session", () => {
+    const alert = makeAlert({ type: "percent_change", threshold: 5, lastTriggered: NOW - 2 * COOLDOWN });
+    expect(checkAlertCondition(alert, market(11), NOW)).toBe(false);
+    // Next trading day (Monday)
+    expect(checkAlertCondition(alert, market(11), NOW + 3 * 24 * 60 * 60 * 1000)).toBe(true);
+  });
+
+  it("should evaluate rule alerts", () => {
+    const alert = makeAlert({
+      type: "rule",
+      threshold: 0,
+      rule: { match: "all", conditions: [{ type: "gap", direction: "up", percent: 2 }] },
+    });
+    expect(checkAlertCondition(alert, { ...market(10.5), today: { ...market(10.5).today, open: 10.3 } }, NOW)).toBe(
+      true
+    );
+    expect(checkAlertCondition(alert, market(10.5), NOW)).toBe(false);
+  });
+});
+
+function quote(id: string, price: number, previousClose: number): StockQuote {
+  return {
+    id,
+    ticker: id.toUpperCase(),
+    yahooSymbol: `${id.toUpperCase()}.AT`,
+    name: id.toUpperCase(),
+    price,
+    previousClose,
+    change: price - previousClose,
+    changePercent: ((price - previousClose) / previousClose) * 100,
+    dayHigh: price,
+    dayLow: price,
+    volume: 0,
+    fiftyTwoWeekHigh: price,
+    fiftyTwoWeekLow: price,
+    marketCap: "",
+    currency: "EUR",
+    exchange: "ATHEX",
+    category: "blue-chip",
+    sparkline: [],
+    lastUpdated: NOW,
+    marketTime: NOW,
+  };
+}
+
+describe("Portfolio and Watchlist Alerts", () => {
+  const portfolio = {
+    balance: 1000,
+    holdings: {
+      opap: { stockId: "opap", ticker: "OPAP", name: "OPAP", shares: 100, totalCost: 1500 },
+      mtln: { stockId: "mtln", ticker: "MTLN", name: "Metlen", shares: 10, totalCost: 400 },
+    },
+  };
+
+  it("should value holdings at live prices and cost without a quote", () => {
+    const valuation = valuePortfolio(portfolio, new Map([["opap", quote("opap", 16, 15)]]));
+    expect(valuation).toEqual({ totalValue: 1000 + 1600 + 400, dailyPnl: 100 });
+  });
+
+  it("should fire on total value and daily P&L", () => {
+    const valuation = { totalValue: 3000, dailyPnl: -250 };
+    const alert = (overrides: Partial<PriceAlert>) =>
+      makeAlert({ scope: "portfolio", stockId: null, stockName: "Portfolio", ...overrides });
+
+    expect(checkPortfolioCondition(alert({ type: "above", threshold: 3000 }), valuation, NOW)).toBe(true);
+    expect(checkPortfolioCondition(alert({ type: "below", threshold: 2500 }), valuation, NOW)).toBe(false);
+    expect(checkPortfolioCondition(alert({ type: "pnl_loss", threshold: 200 }), valuation, NOW)).toBe(true);
+    expect(checkPortfolioCondition(alert({ type: "pnl_loss", threshold: 300 }), valuation, NOW)).toBe(false);
+    expect(checkPortfolioCondition(alert({ type: "pnl_gain", threshold: 200 }), valuation, NOW)).toBe(false);
+    // P&L alerts describe the day, so they fire once per session
+    const fired = alert({ type: "pnl_loss", threshold: 200, lastTriggered: NOW - 2 * COOLDOWN });
+    expect(checkPortfolioCondition(fired, valuation, NOW)).toBe(false);
+  });
+
+  it("should find holdings that dropped and skip stocks already notified", () => {
+    const alert = makeAlert({ scope: "portfolio", stockId: null, type: "holding_drop", threshold: 5 });
+    const quotes = [quote("opap", 9.4, 10), quote("mtln", 9.6, 10), quote("eee", 10.8, 10)];
+    expect(findMovers(alert, quotes, 3).map((q) => q.id)).toEqual(["opap"]);
+    expect(findMovers(alert, quotes, 3, new Set(["opap"]))).toEqual([]);
+  });
+
+  it("should find watchlist stocks moving past the percent preference either way", () => {
+    const alert = makeAlert({ scope: "watchlist", stockId: null, type: "percent_change", threshold: 0 });
+    const quotes = [quote("opap", 9.4, 10), quote("mtln", 9.9, 10), quote("eee", 10.8, 10)];
+    expect(findMovers(alert, quotes, 5).map((q) => q.id)).toEqual(["opap", "eee"]);
+  });
+});
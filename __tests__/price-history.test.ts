@@ -0,0 +1,211 @@
+import { afterEach, beforeEach, describe, it, expect, vi } from "vitest";
+import { drizzle } from "drizzle-orm/mysql-proxy";
+import {
+  getStoredBars,
+  getStoredChart,
+  runPriceBackfill,
+  setPriceHistoryDb,
+  syncPriceBars,
+} from "../server/priceHistoryService";
+import { setMarketDataProvider, type ChartSpec, type MarketDataProvider } from "../server/marketDataProvider";
+import type { ChartDataPoint } from "../server/stockService";
+
+/**
+ * Price History Tests
+ *
+ * Runs the price_bars store against an in-memory table behind the
+ * mysql-proxy driver. Validates that a sync only fetches the tail after
+ * the latest stored bar, that fetched bars merge into stored ones without
+ * duplicates, that ALL charts reach back past five years, and that the
+ * backfill fills gaps, leaves older bars alone and prunes old intraday bars.
+ */
+
+const OPAP = { id: "opap", yahoo: "OPAP.AT", name: "OPAP S.A." };
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Friday 13 February 2026, 15:00 Athens — mid-session
+const MID_SESSION = Date.parse("2026-02-13T13:00:00Z");
+
+type Row = [timestamp: number, open: number, high: number, low: number, close: number, volume: number];
+
+/**
+ * A drizzle database over the mysql-proxy driver, backed by an in-memory
+ * price_bars table keyed like its unique index (stock, interval, timestamp).
+ */
+function createPriceBarsDb() {
+  const table = new Map<string, Row>();
+  const key = (stockId: unknown, interval: unknown, timestamp: unknown) => `${stockId}|${interval}|${timestamp}`;
+  const rowsOf = (stockId: unknown, interval: unknown) =>
+    Array.from(table.entries())
+      .filter(([k]) => k.startsWith(`${stockId}|${interval}|`))
+      .map(([, row]) => row)
+      .sort((a, b) => a[0] - b[0]);
+
+  const db = drizzle(async (sql, params) => {
+    if (sql.startsWith("select max(")) {
+      const rows = rowsOf(params[0], params[1]);
+      return { rows: [[rows.length > 0 ? rows[rows.length - 1][0] : null]] };
+    }
+    if (sql.startsWith("select")) {
+      return { rows: rowsOf(params[0], params[1]).filter((row) => row[0] >= Number(params[2])) };
+    }
+    if (sql.startsWith("insert")) {
+      // stockId, interval, timestamp, open, high, low, close, volume per row
+      for (let i = 0; i < params.length; i += 8) {
+        const [stockId, interval, ...bar] = params.slice(i, i + 8);
+        table.set(key(stockId, interval, bar[0]), bar as Row);
+      }
+      return { rows: [{ affectedRows: params.length / 8 }] };
+    }
+    if (sql.startsWith("delete")) {
+      const [interval, cutoff] = params;
+      let affectedRows = 0;
+      for (const [k, row] of table) {
+        if (k.split("|")[1] === interval && row[0] < Number(cutoff)) {
+          table.delete(k);
+          affectedRows++;
+        }
+      }
+      return { rows: [{ affectedRows }] };
+    }
+    throw new Error(`Unexpected statement: ${sql}`);
+  });
+
+  const store = (stockId: string, interval: string, bars: ChartDataPoint[]) => {
+    for (const b of bars) table.set(key(stockId, interval, b.timestamp), [b.timestamp, b.open, b.high, b.low, b.close, b.volume]);
+  };
+  return { db: db as unknown as Parameters<typeof setPriceHistoryDb>[0], store, rowsOf };
+}
+
+/** One daily bar per weekday from `from` to `to` (unix ms), all closing at `close` */
+function dailyBars(from: number, to: number, close: number): ChartDataPoint[] {
+  const bars: ChartDataPoint[] = [];
+  for (let t = from; t <= to; t += DAY_MS) {
+    const day = new Date(t).getUTCDay();
+    if (day === 0 || day === 6) continue;
+    bars.push({ timestamp: Math.floor(t / 1000), open: close, high: close, low: close, close, volume: 1000 });
+  }
+  return bars;
+}
+
+/** Days each provider lookback covers */
+const RANGE_DAYS: Record<string, number> = { "1d": 1, "5d": 5, "1mo": 30, "3mo": 90, "1y": 365, "5y": 5 * 365, max: Infinity };
+
+/** A provider with `history` for OPAP only, recording every chart request */
+function createHistoryProvider(history: ChartDataPoint[]) {
+  const requests: ChartSpec[] = [];
+  const provider: MarketDataProvider = {
+    name: "fixture",
+    getQuote: async () => null,
+    getChart: async (symbol, spec) => {
+      requests.push(spec);
+      if (symbol.id !== OPAP.id) return null;
+      const since = Math.floor((Date.now() - RANGE_DAYS[spec.range] * DAY_MS) / 1000);
+      const data = history.filter((b) => b.timestamp >= since);
+      return {
+        symbol: symbol.yahoo,
+        interval: spec.interval,
+        range: spec.range,
+        data,
+        meta: { currency: "EUR", exchange: "ATH", regularMarketPrice: data[data.length - 1]?.close ?? 0 },
+      };
+    },
+  };
+  return { provider, requests };
+}
+
+describe("Price History", () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ now: MID_SESSION, toFake: ["Date"] });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    setPriceHistoryDb(null);
+    setMarketDataProvider(null);
+  });
+
+  it("should fetch only the tail after the latest stored bar", async () => {
+    const { db, store } = createPriceBarsDb();
+    // Stored through Tuesday; Wednesday to Friday are missing
+    store(OPAP.id, "1d", dailyBars(MID_SESSION - 60 * DAY_MS, MID_SESSION - 3 * DAY_MS, 10));
+    const { provider, requests } = createHistoryProvider(dailyBars(MID_SESSION - 400 * DAY_MS, MID_SESSION, 11));
+    setPriceHistoryDb(db);
+    setMarketDataProvider(provider);
+
+    // Tuesday (rewritten) plus Wednesday to Friday
+    expect(await syncPriceBars(OPAP, "1d")).toBe(4);
+    expect(requests).toEqual([{ interval: "1d", range: "5d" }]);
+  });
+
+  it("should fetch the full history when nothing is stored", async () => {
+    const { db } = createPriceBarsDb();
+    const { provider, requests } = createHistoryProvider(dailyBars(MID_SESSION - 30 * DAY_MS, MID_SESSION, 11));
+    setPriceHistoryDb(db);
+    setMarketDataProvider(provider);
+
+    await syncPriceBars(OPAP, "5m");
+    await syncPriceBars(OPAP, "1d");
+    expect(requests).toEqual([
+      { interval: "5m", range: "5d" },
+      { interval: "1d", range: "max" },
+    ]);
+  });
+
+  it("should merge fetched bars into stored ones without duplicates", async () => {
+    const { db, store } = createPriceBarsDb();
+    const stored = dailyBars(MID_SESSION - 60 * DAY_MS, MID_SESSION - 3 * DAY_MS, 10);
+    store(OPAP.id, "1d", stored);
+    setPriceHistoryDb(db);
+    setMarketDataProvider(createHistoryProvider(dailyBars(MID_SESSION - 400 * DAY_MS, MID_SESSION, 11)).provider);
+
+    await syncPriceBars(OPAP, "1d");
+    const bars = await getStoredBars(OPAP.id, "1d");
+    const timestamps = bars.map((b) => b.timestamp);
+    expect(new Set(timestamps).size).toBe(timestamps.length);
+    expect(bars).toHaveLength(stored.length + 3);
+    // Older bars keep their stored values; the latest stored bar takes the fetched one
+    expect(bars.slice(0, stored.length - 1).every((b) => b.close === 10)).toBe(true);
+    expect(bars.slice(stored.length - 1).map((b) => b.close)).toEqual([11, 11, 11, 11]);
+  });
+
+  it("should serve ALL charts from stored daily bars older than five years", async () => {
+    const { db, store } = createPriceBarsDb();
+    const first = MID_SESSION - 8 * 365 * DAY_MS;
+    store(OPAP.id, "1d", dailyBars(first, MID_SESSION, 10));
+    setPriceHistoryDb(db);
+    setMarketDataProvider(createHistoryProvider(dailyBars(MID_SESSION - 5 * DAY_MS, MID_SESSION, 10)).provider);
+
+    const chart = await getStoredChart(OPAP, "ALL");
+    expect(chart).toMatchObject({ interval: "1mo", range: "max" });
+    expect(chart!.data[0].timestamp * 1000).toBeLessThan(MID_SESSION - 5 * 365 * DAY_MS);
+    // About eight years of monthly bars
+    expect(chart!.data.length).toBeGreaterThanOrEqual(8 * 12);
+    expect(chart!.data.length).toBeLessThanOrEqual(8 * 12 + 1);
+  });
+
+  it("should fill a gap in daily bars, leave older bars alone and prune old intraday bars", async () => {
+    const { db, store, rowsOf } = createPriceBarsDb();
+    store(OPAP.id, "1d", dailyBars(MID_SESSION - 200 * DAY_MS, MID_SESSION - 20 * DAY_MS, 10));
+    const before = rowsOf(OPAP.id, "1d");
+    // One 5m bar past the 10-day retention, one inside it
+    store(OPAP.id, "5m", [
+      { timestamp: Math.floor((MID_SESSION - 11 * DAY_MS) / 1000), open: 1, high: 1, low: 1, close: 1, volume: 1 },
+      { timestamp: Math.floor((MID_SESSION - DAY_MS) / 1000), open: 1, high: 1, low: 1, close: 1, volume: 1 },
+    ]);
+    setPriceHistoryDb(db);
+    setMarketDataProvider(createHistoryProvider(dailyBars(MID_SESSION - 400 * DAY_MS, MID_SESSION, 11)).provider);
+
+    const result = await runPriceBackfill();
+    expect(result.failed).toBe(0);
+    expect(result.pruned).toBe(1);
+
+    const after = rowsOf(OPAP.id, "1d");
+    // The last 20 days are filled in, one bar per weekday
+    expect(after.map((row) => row[0])).toEqual(
+      dailyBars(MID_SESSION - 200 * DAY_MS, MID_SESSION, 0).map((b) => b.timestamp),
+    );
+    // Every bar before the latest stored one is untouched
+    expect(after.slice(0, before.length - 1)).toEqual(before.slice(0, -1));
+    expect(rowsOf(OPAP.id, "5m")).toHaveLength(1);
+  });
+});
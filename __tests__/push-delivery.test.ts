@@ -0,0 +1,202 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, it, expect } from "vitest";
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
+import { ENV } from "../server/_core/env";
+import { setAlertStore, type AlertStore } from "../server/alertStore";
+import { createMemoryAlertStore } from "../server/memoryAlertStore";
+import {
+  checkPushReceipts,
+  enqueuePush,
+  getDeliveryStatus,
+  processPushQueue,
+} from "../server/pushDeliveryService";
+
+/**
+ * Push Delivery Tests
+ *
+ * Runs the push queue against a local stand-in for the Expo Push API that
+ * answers /send with tickets and /getReceipts with receipts, so batching,
+ * retries with backoff, receipts and pruning of unregistered tokens are
+ * exercised over real HTTP without reaching Expo.
+ */
+
+const NOW = Date.parse("2026-02-16T10:00:00Z");
+const MINUTE = 60 * 1000;
+
+interface ExpoMessage {
+  to: string;
+  title: string;
+}
+
+/** What the stand-in server received and how it should answer */
+const expo = {
+  sends: [] as ExpoMessage[][],
+  receiptRequests: [] as string[][],
+  /** HTTP statuses to answer the next /send requests with */
+  failures: [] as number[],
+  /** Tokens whose tickets say DeviceNotRegistered */
+  unregistered: new Set<string>(),
+  /** Receipt per ticket ID; tickets not listed have no receipt yet */
+  receipts: new Map<string, object>(),
+  nextTicket: 1,
+};
+
+function startStandInServer(): Promise<Server> {
+  const server = createServer((req, res) => {
+    let raw = "";
+    req.on("data", (chunk) => (raw += chunk));
+    req.on("end", () => {
+      const payload = JSON.parse(raw);
+      res.setHeader("Content-Type", "application/json");
+
+      if (req.url === "/send") {
+        const failure = expo.failures.shift();
+        if (failure) {
+          res.statusCode = failure;
+          res.end(JSON.stringify({ errors: [{ code: "INTERNAL_SERVER_ERROR", message: "Try again" }] }));
+          return;
+        }
+        expo.sends.push(payload);
+        const tickets = (payload as ExpoMessage[]).map((message) =>
+          expo.unregistered.has(message.to)
+            ? {
+                status: "error",
+                message: `"${message.to}" is not a registered push notification recipient`,
+                details: { error: "DeviceNotRegistered" },
+              }
+            : { status: "ok", id: `ticket-${expo.nextTicket++}` }
+        );
+        res.end(JSON.stringify({ data: tickets }));
+      } else if (req.url === "/getReceipts") {
+        expo.receiptRequests.push(payload.ids);
+        const data = Object.fromEntries(
+          (payload.ids as string[]).flatMap((id) => (expo.receipts.has(id) ? [[id, expo.receipts.get(id)]] : []))
+        );
+        res.end(JSON.stringify({ data }));
+      } else {
+        res.statusCode = 404;
+        res.end("{}");
+      }
+    });
+  });
+  return new Promise((resolve) => server.listen(0, "127.0.0.1", () => resolve(server)));
+}
+
+describe("Push Delivery", () => {
+  let server: Server;
+  let store: AlertStore;
+  const defaultApiUrl = ENV.expoPushApiUrl;
+
+  beforeAll(async () => {
+    server = await startStandInServer();
+    ENV.expoPushApiUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    ENV.expoPushApiUrl = defaultApiUrl;
+    await new Promise((resolve) => server?.close(resolve));
+  });
+
+  beforeEach(() => {
+    store = createMemoryAlertStore();
+    setAlertStore(store);
+    expo.sends = [];
+    expo.receiptRequests = [];
+    expo.failures = [];
+    expo.unregistered.clear();
+    expo.receipts.clear();
+    expo.nextTicket = 1;
+  });
+
+  afterEach(() => {
+    setAlertStore(null);
+  });
+
+  const tokens = (n: number) => Array.from({ length: n }, (_, i) => `ExponentPushToken[${i}]`);
+  const notification = { title: "OPAP hit €15.00", body: "Now €15.20" };
+
+  it("should send queued messages in batches of 100", async () => {
+    await enqueuePush("push-1", tokens(180), notification, NOW);
+    await enqueuePush("push-2", tokens(70), notification, NOW);
+
+    expect(await processPushQueue(NOW)).toEqual({ sent: 250, failed: 0, retrying: 0 });
+    expect(expo.sends.map((batch) => batch.length)).toEqual([100, 100, 50]);
+    expect(await getDeliveryStatus("push-1")).toBe("sent");
+
+    // Nothing is sent twice
+    expect(await processPushQueue(NOW + MINUTE)).toEqual({ sent: 0, failed: 0, retrying: 0 });
+    expect(expo.sends).toHaveLength(3);
+  });
+
+  it("should retry transient failures with backoff", async () => {
+    await enqueuePush("push-1", tokens(2), notification, NOW);
+    expo.failures.push(503, 429);
+
+    expect(await processPushQueue(NOW)).toEqual({ sent: 0, failed: 0, retrying: 2 });
+    expect(await getDeliveryStatus("push-1")).toBe("queued");
+    // First retry after 30 seconds, the second a minute after that
+    expect((await processPushQueue(NOW + 20_000)).retrying).toBe(0);
+    expect((await processPushQueue(NOW + 30_000)).retrying).toBe(2);
+    expect((await processPushQueue(NOW + 60_000)).sent).toBe(0);
+    expect(await processPushQueue(NOW + 90_000)).toEqual({ sent: 2, failed: 0, retrying: 0 });
+    expect(expo.sends).toHaveLength(1);
+    expect((await store.listPushMessages("push-1"))[0].attempts).toBe(3);
+  });
+
+  it("should give up after repeated transient failures", async () => {
+    await enqueuePush("push-1", tokens(1), notification, NOW);
+    expo.failures.push(500, 500, 500, 500, 500);
+
+    let now = NOW;
+    const outcomes = [];
+    for (let i = 0; i < 5; i++) {
+      outcomes.push(await processPushQueue(now));
+      now += 15 * MINUTE;
+    }
+    expect(outcomes.map((o) => o.retrying)).toEqual([1, 1, 1, 1, 0]);
+    expect(outcomes[4].failed).toBe(1);
+    expect(await getDeliveryStatus("push-1")).toBe("failed");
+  });
+
+  it("should prune devices whose token is not registered", async () => {
+    await store.upsertDevice("phone", "ExponentPushToken[dead]", "ios");
+    await store.upsertDevice("tablet", "ExponentPushToken[live]", "ios");
+    expo.unregistered.add("ExponentPushToken[dead]");
+
+    await enqueuePush("push-1", ["ExponentPushToken[dead]", "ExponentPushToken[live]"], notification, NOW);
+    expect(await processPushQueue(NOW)).toEqual({ sent: 1, failed: 1, retrying: 0 });
+
+    expect(await store.getDevice("phone")).toBeNull();
+    expect(await store.getDevice("tablet")).not.toBeNull();
+    const messages = await store.listPushMessages("push-1");
+    expect(messages.map((m) => m.status)).toEqual(["unregistered", "sent"]);
+    expect(await getDeliveryStatus("push-1")).toBe("sent");
+  });
+
+  it("should poll receipts once they are due and record delivery", async () => {
+    await store.upsertDevice("phone", "ExponentPushToken[0]", "ios");
+    await store.upsertDevice("old-phone", "ExponentPushToken[1]", "android");
+    await enqueuePush("push-1", tokens(3), notification, NOW);
+    await processPushQueue(NOW);
+
+    // Receipts are not requested right after the send
+    expect(await checkPushReceipts(NOW + MINUTE)).toEqual({ delivered: 0, failed: 0, pending: 0 });
+    expect(expo.receiptRequests).toHaveLength(0);
+
+    expo.receipts.set("ticket-1", { status: "ok" });
+    expo.receipts.set("ticket-2", {
+      status: "error",
+      message: "The device cannot receive push notifications anymore",
+      details: { error: "DeviceNotRegistered" },
+    });
+    expect(await checkPushReceipts(NOW + 15 * MINUTE)).toEqual({ delivered: 1, failed: 1, pending: 1 });
+    expect(expo.receiptRequests).toEqual([["ticket-1", "ticket-2", "ticket-3"]]);
+    expect(await store.getDevice("old-phone")).toBeNull();
+    expect(await getDeliveryStatus("push-1")).toBe("delivered");
+
+    // The missing receipt is asked for again later
+    expo.receipts.set("ticket-3", { status: "ok" });
+    expect(await checkPushReceipts(NOW + 30 * MINUTE)).toEqual({ delivered: 1, failed: 0, pending: 0 });
+    expect(expo.receiptRequests[1]).toEqual(["ticket-3"]);
+  });
+});
@@ -49,7 +49,12 @@ describe("PriceAlertService", () => {
   });
 
   it("should use Expo push notification API for delivery", () => {
-    expect(serviceContent).toContain("https://exp.host/--/api/v2/push/send");
+    const deliveryContent = fs.readFileSync(path.resolve(__dirname, "../server/pushDeliveryService.ts"), "utf-8");
+    const envContent = fs.readFileSync(path.resolve(__dirname, "../server/_core/env.ts"), "utf-8");
+    expect(serviceContent).toContain('from "./pushDeliveryService"');
+    expect(envContent).toContain("https://exp.host/--/api/v2/push");
+    expect(deliveryContent).toContain('"send"');
+    expect(deliveryContent).toContain('"getReceipts"');
   });
 
   it("should track last triggered time to prevent spam", () => {
@@ -0,0 +1,126 @@
+import { EventEmitter } from "events";
+import type { Request, Response } from "express";
+import { afterEach, describe, it, expect, vi } from "vitest";
+import { ENV } from "../server/_core/env";
+import { computeQuoteDeltas, handleQuoteStream, toQuoteDelta } from "../server/quoteStreamService";
+import { clearCache, type StockQuote } from "../server/stockService";
+
+/**
+ * Quote Stream Tests
+ *
+ * Validates that the stream poller only pushes symbols whose price data
+ * changed, with the compact delta shape, and that a new client gets its
+ * symbols without waiting for a poll that is already running.
+ */
+function makeQuote(overrides: Partial<StockQuote> = {}): StockQuote {
+  return {
+    id: "opap",
+    ticker: "OPAP",
+    yahooSymbol: "OPAP.AT",
+    name: "OPAP S.A.",
+    price: 16.5,
+    previousClose: 16.2,
+    change: 0.3,
+    changePercent: 1.85,
+    dayHigh: 16.6,
+    dayLow: 16.1,
+    volume: 120_000,
+    fiftyTwoWeekHigh: 18,
+    fiftyTwoWeekLow: 14,
+    marketCap: "€6.1B",
+    currency: "EUR",
+    exchange: "ATH",
+    category: "blue-chip",
+    sparkline: [16.2, 16.4, 16.5],
+    lastUpdated: 1_700_000_000_000,
+    marketTime: 1_700_000_000_000,
+    ...overrides,
+  };
+}
+
+describe("Quote Stream Deltas", () => {
+  it("should treat a symbol with no previous quote as changed", () => {
+    const deltas = computeQuoteDeltas(new Map(), [makeQuote()]);
+    expect(deltas).toHaveLength(1);
+    expect(deltas[0]).toEqual(toQuoteDelta(makeQuote()));
+  });
+
+  it("should skip symbols whose price data is unchanged", () => {
+    const previous = new Map([["opap", makeQuote()]]);
+    // A refetch with a newer timestamp but the same prices is not a change
+    const deltas = computeQuoteDeltas(previous, [makeQuote({ lastUpdated: 1_700_000_015_000 })]);
+    expect(deltas).toHaveLength(0);
+  });
+
+  it("should include symbols whose price or volume moved", () => {
+    const previous = new Map([
+      ["opap", makeQuote()],
+      ["ete", makeQuote({ id: "ete", ticker: "ETE" })],
+    ]);
+    const deltas = computeQuoteDeltas(previous, [
+      makeQuote({ price: 16.52 }),
+      makeQuote({ id: "ete", ticker: "ETE", volume: 130_000 }),
+    ]);
+    expect(deltas.map((d) => d.id)).toEqual(["opap", "ete"]);
+  });
+
+  it("should only carry the intraday fields", () => {
+    const [delta] = computeQuoteDeltas(new Map(), [makeQuote()]);
+    expect(Object.keys(delta).sort()).toEqual(
+      ["change", "changePercent", "dayHigh", "dayLow", "id", "lastUpdated", "previousClose", "price", "volume"].sort(),
+    );
+  });
+});
+
+describe("Quote Stream Subscriptions", () => {
+  const defaults = { forgeApiUrl: ENV.forgeApiUrl, forgeApiKey: ENV.forgeApiKey };
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    Object.assign(ENV, defaults);
+  });
+
+  /** A stream request for `symbols` and the events written to it */
+  function connect(symbols: string) {
+    const req = Object.assign(new EventEmitter(), { query: { symbols } });
+    const events: string[] = [];
+    const res = {
+      writeHead: vi.fn(),
+      write: (chunk: string) => events.push(chunk),
+    };
+    handleQuoteStream(req as unknown as Request, res as unknown as Response);
+    return { events, close: () => req.emit("close") };
+  }
+
+  it("should fetch a new client's symbols while a poll is running", async () => {
+    clearCache();
+    ENV.forgeApiUrl = "https://forge.example/";
+    ENV.forgeApiKey = "test-key";
+    let releaseOpap = () => {};
+    const opapFetched = new Promise<void>((resolve) => (releaseOpap = resolve));
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async (_url: string, init?: RequestInit) => {
+        const { query } = JSON.parse(String(init?.body));
+        // The poll for the first client hangs on OPAP
+        if (query.symbol === "OPAP.AT") await opapFetched;
+        const result = { meta: { regularMarketPrice: 8, chartPreviousClose: 7.9 }, indicators: { quote: [{ close: [8] }] } };
+        return Response.json({ jsonData: JSON.stringify({ chart: { result: [result] } }) });
+      })
+    );
+
+    const first = connect("opap");
+    await vi.waitFor(() => expect(fetch).toHaveBeenCalled());
+
+    const second = connect("ete");
+    const quotesFor = (events: string[], id: string) =>
+      events.some((e) => e.startsWith("event: quotes") && e.includes(`"id":"${id}"`));
+    await vi.waitFor(() => expect(quotesFor(second.events, "ete")).toBe(true));
+    expect(quotesFor(first.events, "opap")).toBe(false);
+
+    releaseOpap();
+    await vi.waitFor(() => expect(quotesFor(first.events, "opap")).toBe(true));
+    first.close();
+    second.close();
+  });
+});
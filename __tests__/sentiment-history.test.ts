@@ -0,0 +1,51 @@
+import { describe, it, expect } from "vitest";
+import { sentimentHistoryStart, sentimentPerBar } from "../lib/news-sentiment";
+import { summarizeSentimentDay, type SentimentDay } from "../server/newsArchiveService";
+
+/**
+ * Sentiment History Tests
+ *
+ * Validates the daily sentiment stored per stock, and how the asset
+ * screen lines it up with chart bars: intraday bars take their day's
+ * score, daily bars their own day, and weekly bars every day they span.
+ */
+
+/** Unix seconds of an Athens wall-clock time (UTC+2 in February) */
+const athens = (iso: string) => Date.parse(`${iso}+02:00`) / 1000;
+
+const day = (date: string, bullish: number, bearish: number, neutral = 0): SentimentDay =>
+  summarizeSentimentDay(date, { bullish, bearish, neutral });
+
+describe("Sentiment History", () => {
+  it("should score a day from its labeled articles", () => {
+    expect(summarizeSentimentDay("2026-02-16", { bullish: 3, bearish: 1, neutral: 2 })).toEqual({
+      day: "2026-02-16",
+      articles: 6,
+      bullish: 3,
+      bearish: 1,
+      neutral: 2,
+      score: 0.33,
+    });
+    expect(summarizeSentimentDay("2026-02-16", {}).score).toBe(0);
+  });
+
+  it("should give intraday and daily bars their Athens day's score", () => {
+    const history = [day("2026-02-13", 0, 2), day("2026-02-16", 1, 0, 1)];
+
+    // 00:30 Athens is still the previous day in UTC
+    const intraday = [athens("2026-02-16T00:30:00"), athens("2026-02-16T10:15:00"), athens("2026-02-16T17:00:00")];
+    expect(sentimentPerBar(intraday.map((timestamp) => ({ timestamp })), history)).toEqual([0.5, 0.5, 0.5]);
+    expect(sentimentHistoryStart([{ timestamp: intraday[0] }])).toBe("2026-02-16");
+
+    const daily = ["2026-02-12", "2026-02-13", "2026-02-16"].map((d) => ({ timestamp: athens(`${d}T10:15:00`) }));
+    expect(sentimentPerBar(daily, history)).toEqual([null, -1, 0.5]);
+  });
+
+  it("should weight the days a weekly bar spans by their articles", () => {
+    const history = [day("2026-02-02", 3, 0), day("2026-02-04", 0, 1), day("2026-02-10", 0, 0, 2)];
+    const weekly = ["2026-02-02", "2026-02-09"].map((d) => ({ timestamp: athens(`${d}T10:15:00`) }));
+    // (1 × 3 + -1 × 1) / 4 articles
+    expect(sentimentPerBar(weekly, history)).toEqual([0.5, 0]);
+    expect(sentimentPerBar(weekly, [])).toEqual([null, null]);
+  });
+});
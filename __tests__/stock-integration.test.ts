@@ -1,15 +1,47 @@
-import { describe, it, expect } from "vitest";
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import express from "express";
+import type { AddressInfo } from "net";
+import type { Server } from "http";
+import { createExpressMiddleware } from "@trpc/server/adapters/express";
 
 /**
  * Stock Service Integration Tests
  *
- * These tests validate the tRPC stock endpoints.
- * Note: The Data API has usage quotas. Tests are written to handle
- * rate-limited responses gracefully — they validate structure when data
- * is available, and skip assertions when the API is exhausted.
+ * These tests validate the tRPC stock endpoints over HTTP, served by an
+ * in-process server backed by the fixture market data provider
+ * (server/fixtures/market-data), so they never reach Yahoo.
+ * Structure checks stay tolerant of missing data so the same tests can be
+ * pointed at a live provider.
  */
 describe("Stock Service Integration", () => {
-  const API_BASE = "http://127.0.0.1:3000/api/trpc";
+  let API_BASE = "";
+  let server: Server;
+
+  beforeAll(async () => {
+    // Must be set before the env module is first imported
+    process.env.MARKET_DATA_PROVIDER = "fixture";
+    process.env.MARKET_DATA_FIXTURE_DIR = "server/fixtures/market-data";
+    const { router } = await import("../server/_core/trpc");
+    const { stockRouter } = await import("../server/stockRouter");
+
+    const app = express();
+    app.use(express.json());
+    app.use(
+      "/api/trpc",
+      createExpressMiddleware({
+        router: router({ stocks: stockRouter }),
+        createContext: ({ req, res }) => ({ req, res, user: null }),
+      }),
+    );
+    server = await new Promise<Server>((resolve) => {
+      const listening = app.listen(0, "127.0.0.1", () => resolve(listening));
+    });
+    API_BASE = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/trpc`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server?.close(resolve));
+  });
 
   it("should return available stock list", async () => {
     const res = await fetch(`${API_BASE}/stocks.getAvailable`);
@@ -83,6 +115,26 @@ describe("Stock Service Integration", () => {
     }
   });
 
+  it("should serve recorded quotes from the fixture provider", async () => {
+    const res = await fetch(`${API_BASE}/stocks.getQuotes`);
+    const result = (await res.json()).result.data.json;
+    // Only symbols with a recorded fixture have quotes
+    expect(result.count).toBe(5);
+    const opap = result.data.find((q: { id: string }) => q.id === "opap");
+    expect(opap.price).toBe(23.975);
+    expect(opap.previousClose).toBe(24.085);
+    expect(opap.sparkline.length).toBeGreaterThan(1);
+  });
+
+  it("should return no chart for a range without a fixture", async () => {
+    const input = encodeURIComponent(
+      JSON.stringify({ json: { stockId: "ete", range: "1Y" } })
+    );
+    const res = await fetch(`${API_BASE}/stocks.getChart?input=${input}`);
+    const result = (await res.json()).result.data.json;
+    expect(result.success).toBe(false);
+  });
+
   it("should handle invalid stock ID gracefully", async () => {
     const input = encodeURIComponent(
       JSON.stringify({ json: { stockId: "invalid_stock_xyz" } })
@@ -15,7 +15,8 @@ import { useRouter } from "expo-router";
 import { ScreenContainer } from "@/components/screen-container";
 import { DemoBanner } from "@/components/ui/demo-banner";
 import { XPBar } from "@/components/ui/xp-bar";
-import { useStockQuotes, useRefreshCache } from "@/hooks/use-stocks";
+import { useStockQuotes, useStreamedStocks, useRefreshCache } from "@/hooks/use-stocks";
+import { useDailyBrief } from "@/hooks/use-news";
 import { useNotifications } from "@/lib/notification-context";
 import { useDemo, type LivePriceMap } from "@/lib/demo-context";
 import { useViewMode } from "@/lib/viewmode-context";
@@ -26,6 +27,7 @@ import {
   QuickStats,
   QuickActions,
   DailyChallengeCard,
+  DailyBriefCard,
   WatchlistSection,
   TrendingSection,
   SocialFeedPreview,
@@ -41,8 +43,9 @@ export default function HomeScreen() {
   const router = useRouter();
   const colors = useColors();
   const [refreshing, setRefreshing] = useState(false);
-  const { stocks, isLoading, isLive, lastUpdated, refetch } = useStockQuotes();
+  const { stocks, isLoading, isLive, isStale, lastUpdated, refetch } = useStockQuotes();
   const refreshCache = useRefreshCache();
+  const { brief, isLoading: briefLoading } = useDailyBrief();
 
   const { unreadCount } = useNotifications();
   const { getPortfolioValue, getPortfolioPnL, state: demoState } = useDemo();
@@ -78,6 +81,17 @@ export default function HomeScreen() {
     [stocks, watchlist],
   );
 
+  // Stream what the dashboard shows: trending, watchlist and holdings
+  const streamedIds = useMemo(
+    () => [
+      ...trendingStocks.map((s) => s.id),
+      ...watchlistedStocks.map((s) => s.id),
+      ...Object.keys(demoState.holdings),
+    ],
+    [trendingStocks, watchlistedStocks, demoState.holdings],
+  );
+  useStreamedStocks(streamedIds);
+
   const onRefresh = useCallback(async () => {
     setRefreshing(true);
     try {
@@ -119,6 +133,7 @@ export default function HomeScreen() {
           userName="Andreas"
           isPro={isPro}
           isLive={isLive}
+          isStale={isStale}
           lastUpdated={lastUpdated}
           userStreak={USER_STREAK}
           unreadCount={unreadCount}
@@ -145,6 +160,9 @@ export default function HomeScreen() {
         {/* Daily Challenge — Pro only */}
         {isPro && <DailyChallengeCard />}
 
+        {/* AI Daily Brief */}
+        <DailyBriefCard brief={brief} isLoading={briefLoading} />
+
         {/* Watchlist */}
         <WatchlistSection
           watchlistedStocks={watchlistedStocks}
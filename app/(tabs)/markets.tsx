@@ -11,6 +11,7 @@ import {
   StyleSheet,
   RefreshControl,
   Platform,
+  type ViewToken,
 } from "react-native";
 import { useRouter } from "expo-router";
 import * as Haptics from "expo-haptics";
@@ -20,7 +21,7 @@ import { StockListSkeleton } from "@/components/ui/skeleton";
 import { MarketsHeader, SearchBarWithClear, SectorFilterChips, SortOptionChips } from "@/components/features/markets";
 import { useColors } from "@/hooks/use-colors";
 import { IconSymbol } from "@/components/ui/icon-symbol";
-import { useStockQuotes, useRefreshCache } from "@/hooks/use-stocks";
+import { useStockQuotes, useStreamedStocks, useRefreshCache } from "@/hooks/use-stocks";
 import {
   Callout,
 } from "@/components/ui/typography";
@@ -40,9 +41,16 @@ export default function MarketsScreen() {
   const { isWatchlisted, toggle: toggleWatchlist, count: watchlistCount } = useWatchlist();
   const [sortMode, setSortMode] = useState<SortMode>("default");
   const [refreshing, setRefreshing] = useState(false);
-  const { stocks, isLoading, isLive, lastUpdated, refetch } = useStockQuotes();
+  const { stocks, isLoading, isLive, isStale, lastUpdated, refetch } = useStockQuotes();
   const refreshCache = useRefreshCache();
 
+  // Stream only the rows on screen; FlatList needs a callback that never changes
+  const [visibleIds, setVisibleIds] = useState<string[]>([]);
+  useStreamedStocks(visibleIds);
+  const onViewableItemsChanged = useCallback(({ viewableItems }: { viewableItems: ViewToken[] }) => {
+    setVisibleIds(viewableItems.map((token) => token.key));
+  }, []);
+
   const filteredStocks = useMemo(() => {
     let filtered = [...stocks];
 
@@ -112,7 +120,7 @@ export default function MarketsScreen() {
   return (
     <ScreenContainer>
       {/* Header */}
-      <MarketsHeader isLive={isLive} lastUpdated={lastUpdated} />
+      <MarketsHeader isLive={isLive} isStale={isStale} lastUpdated={lastUpdated} />
 
       {/* Search */}
       <SearchBarWithClear value={search} onChange={setSearch} />
@@ -139,6 +147,7 @@ export default function MarketsScreen() {
         <FlatList
           data={filteredStocks}
           keyExtractor={(item) => item.id}
+          onViewableItemsChanged={onViewableItemsChanged}
           showsVerticalScrollIndicator={false}
           contentContainerStyle={styles.listContent}
           refreshControl={
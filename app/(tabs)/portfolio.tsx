@@ -18,7 +18,7 @@ import { useColors } from "@/hooks/use-colors";
 import { useThemeContext } from "@/lib/theme-provider";
 import { LiveBadge } from "@/components/ui/live-badge";
 import { StockListSkeleton } from "@/components/ui/skeleton";
-import { useStockQuotes, useRefreshCache } from "@/hooks/use-stocks";
+import { useStockQuotes, useStreamedStocks, useRefreshCache } from "@/hooks/use-stocks";
 import { ShareCardModal } from "@/components/ui/share-card-modal";
 import type { ShareCardData } from "@/components/ui/share-card";
 import { useDemo, type LivePriceMap } from "@/lib/demo-context";
@@ -72,9 +72,11 @@ export default function PortfolioScreen() {
   const router = useRouter();
   const { isSimple, isPro } = useViewMode();
   const [refreshing, setRefreshing] = useState(false);
-  const { stocks, isLoading, isLive, lastUpdated, refetch } = useStockQuotes();
+  const { stocks, isLoading, isLive, isStale, lastUpdated, refetch } = useStockQuotes();
   const refreshCache = useRefreshCache();
   const { state, holdingsArray, getPortfolioValue, getPortfolioCost, getPortfolioPnL } = useDemo();
+  const holdingIds = useMemo(() => holdingsArray.map((h) => h.stockId), [holdingsArray]);
+  useStreamedStocks(holdingIds);
 
   // Responsive sparkline width
   const { width: screenWidth } = useWindowDimensions();
@@ -226,6 +228,7 @@ export default function PortfolioScreen() {
           holdingCount={enrichedHoldings.length}
           hasHoldings={hasHoldings}
           isLive={isLive}
+          isStale={isStale}
           lastUpdated={lastUpdated}
           onShare={handleSharePortfolio}
         />
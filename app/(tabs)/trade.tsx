@@ -4,6 +4,10 @@
  * Three states: Stock Picker → Order Sheet → Success Screen.
  * Order sheet uses flex layout with fixed bottom SwipeToConfirm
  * that is always visible regardless of content height.
+ *
+ * Signed-in users can also place limit, stop and stop-limit orders.
+ * These rest on the server until filled, so confirming one returns to
+ * the picker, which lists open orders with Edit / Cancel actions.
  */
 import React, { useState, useCallback, useMemo, useRef } from "react";
 import {
@@ -22,7 +26,16 @@ import { useRouter, useLocalSearchParams } from "expo-router";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 import { ScreenContainer } from "@/components/screen-container";
 import { SearchBarWithClear } from "@/components/features/markets";
-import { BuySellToggle, AmountInput, QuickAmountChips, OrderPreview, TradeSuccessScreen } from "@/components/features/trading";
+import {
+  BuySellToggle,
+  AmountInput,
+  QuickAmountChips,
+  OrderPreview,
+  TradeSuccessScreen,
+  OrderTypeSelector,
+  OpenOrderRow,
+  type OrderKind,
+} from "@/components/features/trading";
 import { AnimatedPressable } from "@/components/ui/animated-pressable";
 import { AssetRow } from "@/components/ui/asset-row";
 import { LiveBadge } from "@/components/ui/live-badge";
@@ -32,8 +45,9 @@ import { SwipeToConfirm } from "@/components/ui/swipe-to-confirm";
 import { ShareCardModal } from "@/components/ui/share-card-modal";
 import { useColors, colorAlpha } from "@/hooks/use-colors";
 import { useThemeContext } from "@/lib/theme-provider";
-import { useStockQuotes } from "@/hooks/use-stocks";
-import { useDemo } from "@/lib/demo-context";
+import { useStockQuotes, useStreamedStocks } from "@/hooks/use-stocks";
+import { useDemo, type DemoTrade } from "@/lib/demo-context";
+import { useOrders, type PendingOrder, type TimeInForce } from "@/hooks/use-orders";
 import { useViewMode } from "@/lib/viewmode-context";
 import type { ShareCardData } from "@/components/ui/share-card";
 import {
@@ -50,6 +64,13 @@ import { Spacing, Radius } from "@/constants/spacing";
 const { height: SCREEN_HEIGHT } = Dimensions.get("window");
 const IS_SMALL = SCREEN_HEIGHT < 700;
 const QUICK_AMOUNTS = [5, 10, 25, 50, 100, 250];
+/** Open orders listed in the picker before linking to Trade History */
+const OPEN_ORDERS_PREVIEW = 3;
+
+function parsePrice(text: string): number {
+  const num = parseFloat(text);
+  return isNaN(num) || num <= 0 ? 0 : num;
+}
 
 interface SelectedStock {
   id: string;
@@ -77,9 +98,24 @@ export default function TradeScreen() {
   const [showSuccess, setShowSuccess] = useState(false);
   const [showShareModal, setShowShareModal] = useState(false);
   const [tradeError, setTradeError] = useState<string | null>(null);
+  /** The fill returned by executeTrade — may differ from the quote shown when confirming */
+  const [filledTrade, setFilledTrade] = useState<DemoTrade | null>(null);
+  const [orderType, setOrderType] = useState<OrderKind>("market");
+  const [limitText, setLimitText] = useState("");
+  const [stopText, setStopText] = useState("");
+  const [timeInForce, setTimeInForce] = useState<TimeInForce>("gtc");
+  /** Set when the sheet is modifying an existing pending order */
+  const [editingOrder, setEditingOrder] = useState<PendingOrder | null>(null);
   const amountInputRef = useRef<TextInput>(null);
-  const { stocks, isLoading, isLive, lastUpdated } = useStockQuotes();
+  const { stocks, isLoading, isLive, isStale, lastUpdated } = useStockQuotes();
   const { executeTrade, state: demoState, getHolding } = useDemo();
+  const {
+    isAvailable: ordersAvailable,
+    openOrders,
+    placeOrder,
+    modifyOrder,
+    cancelOrder,
+  } = useOrders();
 
   // Handle URL params for stockId and mode from asset detail navigation
   React.useEffect(() => {
@@ -101,31 +137,64 @@ export default function TradeScreen() {
     return Math.round(num * 100) / 100;
   }, [amountText]);
 
+  // Pending orders are sized at their limit (or stop) price, market orders at the quote
+  const isPendingOrder = orderType !== "market";
+  const limitPrice = parsePrice(limitText);
+  const stopPrice = parsePrice(stopText);
+  const orderPrice = !selectedAsset
+    ? 0
+    : !isPendingOrder
+    ? selectedAsset.price
+    : orderType === "stop"
+    ? stopPrice
+    : limitPrice;
+
   // Compute current holding for sell validation
   const currentHolding = selectedAsset ? getHolding(selectedAsset.id) : undefined;
   const currentShares = currentHolding?.shares ?? 0;
   const currentHoldingValue = selectedAsset ? currentShares * selectedAsset.price : 0;
 
+  // Cash and shares held by other open orders, which the server reserves
+  const reserved = useMemo(() => {
+    let cash = 0;
+    let shares = 0;
+    for (const order of openOrders) {
+      if (order.id === editingOrder?.id) continue;
+      if (order.side === "buy") cash += order.shares * (order.limitPrice ?? order.stopPrice ?? 0);
+      else if (order.stockId === selectedAsset?.id) shares += order.shares;
+    }
+    return { cash, shares };
+  }, [openOrders, editingOrder, selectedAsset]);
+  const availableBalance = Math.max(0, demoState.balance - reserved.cash);
+  const sellableShares = Math.max(0, currentShares - reserved.shares);
+  const sellableValue = sellableShares * (isPendingOrder ? orderPrice : (selectedAsset?.price ?? 0));
+
   // Max amount available
   const maxAmount = useMemo(() => {
     if (isBuy) {
-      return Math.floor(demoState.balance * 100) / 100;
+      return Math.floor(availableBalance * 100) / 100;
     }
-    return Math.floor(currentHoldingValue * 100) / 100;
-  }, [isBuy, demoState.balance, currentHoldingValue]);
+    return Math.floor(sellableValue * 100) / 100;
+  }, [isBuy, availableBalance, sellableValue]);
 
   // Validation
   const validationError = useMemo(() => {
     if (parsedAmount === 0) return null;
     if (parsedAmount < 1) return "Minimum trade amount is €1.00";
-    if (isBuy && parsedAmount > demoState.balance) {
-      return `Insufficient balance (€${demoState.balance.toFixed(2)} available)`;
+    if ((orderType === "stop" || orderType === "stop_limit") && stopPrice === 0) {
+      return "Enter a stop price";
     }
-    if (!isBuy && parsedAmount > currentHoldingValue) {
-      return `Insufficient shares (€${currentHoldingValue.toFixed(2)} available)`;
+    if ((orderType === "limit" || orderType === "stop_limit") && limitPrice === 0) {
+      return "Enter a limit price";
+    }
+    if (isBuy && parsedAmount > availableBalance) {
+      return `Insufficient balance (€${availableBalance.toFixed(2)} available)`;
+    }
+    if (!isBuy && parsedAmount > sellableValue) {
+      return `Insufficient shares (€${sellableValue.toFixed(2)} available)`;
     }
     return null;
-  }, [parsedAmount, isBuy, demoState.balance, currentHoldingValue]);
+  }, [parsedAmount, orderType, stopPrice, limitPrice, isBuy, availableBalance, sellableValue]);
 
   const isValidAmount = parsedAmount >= 1 && !validationError;
 
@@ -141,6 +210,13 @@ export default function TradeScreen() {
     return stocks.slice(0, 8);
   }, [stocks, search]);
 
+  // Stream the picker's stocks, or the one being traded
+  const streamedIds = useMemo(
+    () => (selectedAsset ? [selectedAsset.id] : filteredStocks.map((s) => s.id)),
+    [selectedAsset, filteredStocks],
+  );
+  useStreamedStocks(streamedIds);
+
   const handleAmountChange = useCallback((text: string) => {
     const cleaned = text.replace(/[^0-9.]/g, "");
     const parts = cleaned.split(".");
@@ -166,10 +242,45 @@ export default function TradeScreen() {
     }
   }, [maxAmount]);
 
-  const handleConfirm = useCallback(() => {
+  const resetOrderSheet = useCallback(() => {
+    setSelectedAsset(null);
+    setAmountText("");
+    setTradeError(null);
+    setOrderType("market");
+    setLimitText("");
+    setStopText("");
+    setTimeInForce("gtc");
+    setEditingOrder(null);
+  }, []);
+
+  const handleConfirm = useCallback(async () => {
     if (!selectedAsset || !isValidAmount) return;
     setTradeError(null);
-    const result = executeTrade({
+
+    if (orderType !== "market") {
+      const terms = {
+        amount: parsedAmount,
+        limitPrice: orderType === "stop" ? null : limitPrice,
+        stopPrice: orderType === "limit" ? null : stopPrice,
+        timeInForce,
+      };
+      const result = editingOrder
+        ? await modifyOrder(editingOrder.id, terms)
+        : await placeOrder({
+            ...terms,
+            stockId: selectedAsset.id,
+            side: isBuy ? "buy" : "sell",
+            orderType,
+          });
+      if (result.success) {
+        resetOrderSheet();
+      } else {
+        setTradeError(result.error ?? "Order failed");
+      }
+      return;
+    }
+
+    const result = await executeTrade({
       stockId: selectedAsset.id,
       ticker: selectedAsset.ticker,
       name: selectedAsset.name,
@@ -177,15 +288,46 @@ export default function TradeScreen() {
       amount: parsedAmount,
       price: selectedAsset.price,
     });
-    if (result.success) {
+    if (result.success && result.trade) {
+      setFilledTrade(result.trade);
       setShowSuccess(true);
     } else {
       setTradeError(result.error ?? "Trade failed");
     }
-  }, [selectedAsset, isValidAmount, parsedAmount, isBuy, executeTrade]);
+  }, [
+    selectedAsset,
+    isValidAmount,
+    parsedAmount,
+    isBuy,
+    executeTrade,
+    orderType,
+    limitPrice,
+    stopPrice,
+    timeInForce,
+    editingOrder,
+    modifyOrder,
+    placeOrder,
+    resetOrderSheet,
+  ]);
+
+  const handleEditOrder = useCallback((order: PendingOrder) => {
+    const stock = stocks.find((s) => s.id === order.stockId);
+    if (!stock) return;
+    const sizingPrice = (order.orderType === "stop" ? order.stopPrice : order.limitPrice) ?? stock.price;
+    setSelectedAsset(stock);
+    setIsBuy(order.side === "buy");
+    setOrderType(order.orderType);
+    setLimitText(order.limitPrice?.toString() ?? "");
+    setStopText(order.stopPrice?.toString() ?? "");
+    setTimeInForce(order.timeInForce);
+    setAmountText((order.shares * sizingPrice).toFixed(2));
+    setTradeError(null);
+    setEditingOrder(order);
+  }, [stocks]);
 
   const handleDismissSuccess = useCallback(() => {
     setShowSuccess(false);
+    setFilledTrade(null);
     setSelectedAsset(null);
     setAmountText("");
     setTradeError(null);
@@ -194,11 +336,12 @@ export default function TradeScreen() {
   // Build share card data from the current trade
   const shareCardData: ShareCardData | null = useMemo(() => {
     if (!selectedAsset || !parsedAmount) return null;
-    const shares = parsedAmount / selectedAsset.price;
+    const price = filledTrade?.price ?? selectedAsset.price;
+    const shares = filledTrade?.shares ?? parsedAmount / price;
     return {
       ticker: selectedAsset.ticker,
       companyName: selectedAsset.name,
-      price: selectedAsset.price,
+      price,
       pnlAmount: 0,
       pnlPercent: selectedAsset.changePercent,
       sparkline: selectedAsset.sparkline,
@@ -207,22 +350,21 @@ export default function TradeScreen() {
       tradeAmount: parsedAmount,
       shares,
     };
-  }, [selectedAsset, parsedAmount, isBuy]);
+  }, [selectedAsset, parsedAmount, isBuy, filledTrade]);
 
   // Tab bar height for bottom padding
   const tabBarBottomPad = Platform.OS === "web" ? 12 : Math.max(insets.bottom, 8);
   const tabBarHeight = 60 + tabBarBottomPad;
 
   // ─── Success Screen ─────────────────────────────────────────────
-  if (showSuccess && selectedAsset && parsedAmount) {
-    const shares = (parsedAmount / selectedAsset.price).toFixed(4);
+  if (showSuccess && filledTrade) {
     return (
       <ScreenContainer>
         <TradeSuccessScreen
-          isBuy={isBuy}
-          shares={shares}
-          amount={parsedAmount}
-          ticker={selectedAsset.ticker}
+          isBuy={filledTrade.type === "buy"}
+          shares={filledTrade.shares.toFixed(4)}
+          amount={filledTrade.amount}
+          ticker={filledTrade.ticker}
           onShare={() => setShowShareModal(true)}
           onDone={handleDismissSuccess}
         />
@@ -243,6 +385,15 @@ export default function TradeScreen() {
       ? demoState.balance - parsedAmount
       : demoState.balance + parsedAmount;
 
+    const orderLabel = orderType === "stop_limit" ? "stop-limit" : orderType;
+    const confirmLabel = !isValidAmount
+      ? ""
+      : editingOrder
+      ? `Slide to update order (€${parsedAmount.toFixed(2)})`
+      : isPendingOrder
+      ? `Slide to place ${orderLabel} ${isBuy ? "buy" : "sell"} €${parsedAmount.toFixed(2)}`
+      : `Slide to ${isBuy ? "Buy" : "Sell"} €${parsedAmount.toFixed(2)}`;
+
     return (
       <ScreenContainer>
         <KeyboardAvoidingView
@@ -261,11 +412,7 @@ export default function TradeScreen() {
             <View style={styles.sheetHeader}>
               <AnimatedPressable
                 variant="icon"
-                onPress={() => {
-                  setSelectedAsset(null);
-                  setAmountText("");
-                  setTradeError(null);
-                }}
+                onPress={resetOrderSheet}
                 style={[
                   styles.closeButton,
                   { backgroundColor: colors.foregroundAlpha4 },
@@ -275,18 +422,20 @@ export default function TradeScreen() {
               </AnimatedPressable>
               <View style={styles.sheetTitleRow}>
                 <Subhead style={{ fontFamily: FontFamily.semibold }}>
-                  {selectedAsset.ticker}
+                  {editingOrder ? `Edit ${selectedAsset.ticker} order` : selectedAsset.ticker}
                 </Subhead>
-                <LiveBadge isLive={isLive} />
+                <LiveBadge isLive={isLive} isStale={isStale} />
               </View>
               <View style={{ width: 32 }} />
             </View>
 
-            {/* Buy / Sell Toggle */}
-            <BuySellToggle
-              isBuy={isBuy}
-              onChange={(buy) => { setIsBuy(buy); setTradeError(null); }}
-            />
+            {/* Buy / Sell Toggle (an order's side is fixed once placed) */}
+            {!editingOrder && (
+              <BuySellToggle
+                isBuy={isBuy}
+                onChange={(buy) => { setIsBuy(buy); setTradeError(null); }}
+              />
+            )}
 
             {/* Asset Info Card */}
             <View
@@ -336,6 +485,22 @@ export default function TradeScreen() {
               </View>
             </View>
 
+            {/* Order Type — pending orders need an account */}
+            {ordersAvailable && (
+              <OrderTypeSelector
+                orderType={orderType}
+                onOrderTypeChange={(type) => { setOrderType(type); setTradeError(null); }}
+                limitPrice={limitText}
+                onLimitPriceChange={(text) => { setLimitText(text); setTradeError(null); }}
+                stopPrice={stopText}
+                onStopPriceChange={(text) => { setStopText(text); setTradeError(null); }}
+                timeInForce={timeInForce}
+                onTimeInForceChange={setTimeInForce}
+                isBuy={isBuy}
+                lockType={!!editingOrder}
+              />
+            )}
+
             {/* Amount Hero */}
             <AmountInput
               ref={amountInputRef}
@@ -354,7 +519,7 @@ export default function TradeScreen() {
                     Available
                   </Footnote>
                   <MonoSubhead style={{ fontSize: 12, color: colors.foreground }}>
-                    €{demoState.balance.toFixed(2)}
+                    €{availableBalance.toFixed(2)}
                   </MonoSubhead>
                 </View>
               ) : (
@@ -405,7 +570,7 @@ export default function TradeScreen() {
             {isValidAmount && isPro && (
               <OrderPreview
                 amount={parsedAmount}
-                price={selectedAsset.price}
+                price={orderPrice}
                 balanceAfter={balanceAfter}
                 isBuy={isBuy}
               />
@@ -459,11 +624,7 @@ export default function TradeScreen() {
             ]}
           >
             <SwipeToConfirm
-              label={
-                isValidAmount
-                  ? `Slide to ${isBuy ? "Buy" : "Sell"} €${parsedAmount.toFixed(2)}`
-                  : ""
-              }
+              label={confirmLabel}
               enabled={isValidAmount}
               onConfirm={handleConfirm}
               variant={isBuy ? "buy" : "sell"}
@@ -481,7 +642,7 @@ export default function TradeScreen() {
       {/* Header */}
       <Animated.View entering={FadeIn.duration(200)} style={styles.header}>
         <Title1>Trade</Title1>
-        <LiveBadge isLive={isLive} lastUpdated={lastUpdated} />
+        <LiveBadge isLive={isLive} isStale={isStale} lastUpdated={lastUpdated} />
       </Animated.View>
 
       {/* Search */}
@@ -492,6 +653,40 @@ export default function TradeScreen() {
         animationDelay={60}
       />
 
+      {/* Open Orders */}
+      {openOrders.length > 0 && !search.trim() && (
+        <Animated.View entering={FadeIn.duration(200).delay(90)} style={styles.openOrders}>
+          <View style={styles.openOrdersHeader}>
+            <Caption1
+              style={{
+                fontFamily: FontFamily.semibold,
+                textTransform: "uppercase",
+                letterSpacing: 0.5,
+                color: colors.muted,
+                fontSize: 11,
+              }}
+            >
+              Open orders
+            </Caption1>
+            {openOrders.length > OPEN_ORDERS_PREVIEW && (
+              <AnimatedPressable variant="chip" onPress={() => router.push("/trade-history")}>
+                <Caption1 style={{ fontFamily: FontFamily.semibold, color: colors.primary, fontSize: 11 }}>
+                  See all {openOrders.length}
+                </Caption1>
+              </AnimatedPressable>
+            )}
+          </View>
+          {openOrders.slice(0, OPEN_ORDERS_PREVIEW).map((order) => (
+            <OpenOrderRow
+              key={order.id}
+              order={order}
+              onEdit={handleEditOrder}
+              onCancel={(o) => cancelOrder(o.id)}
+            />
+          ))}
+        </Animated.View>
+      )}
+
       {/* Quick Trade Label */}
       <Animated.View
         entering={FadeIn.duration(200).delay(120)}
@@ -576,6 +771,16 @@ const styles = StyleSheet.create({
     alignItems: "center",
     paddingTop: Spacing[12],
   },
+  openOrders: {
+    marginBottom: Spacing[3],
+  },
+  openOrdersHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    paddingHorizontal: Spacing[4],
+    marginBottom: Spacing[1],
+  },
 
   // Order Sheet
   orderRoot: {
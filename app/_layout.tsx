@@ -13,8 +13,6 @@ import { useAppFonts } from "@/hooks/use-app-fonts";
 import { ThemeProvider as CDSThemeProvider } from "@coinbase/cds-mobile/system";
 import { defaultTheme } from "@coinbase/cds-mobile/themes/defaultTheme";
 
-// Keep splash screen visible while fonts load
-SplashScreen.preventAutoHideAsync();
 import {
   SafeAreaFrameContext,
   SafeAreaInsetsContext,
@@ -29,8 +27,12 @@ import { DemoProvider } from "@/lib/demo-context";
 import { WatchlistProvider } from "@/lib/watchlist-context";
 import { NotificationProvider } from "@/lib/notification-context";
 import { ViewModeProvider } from "@/lib/viewmode-context";
+import { DataSourceProvider } from "@/lib/data-source-context";
 import { ErrorBoundary } from "@/components/errors/error-boundary";
 
+// Keep splash screen visible while fonts load
+SplashScreen.preventAutoHideAsync();
+
 const DEFAULT_WEB_INSETS: EdgeInsets = { top: 0, right: 0, bottom: 0, left: 0 };
 const DEFAULT_WEB_FRAME: Rect = { x: 0, y: 0, width: 0, height: 0 };
 
@@ -65,6 +67,7 @@ function InnerLayout() {
         <Stack.Screen name="settings" options={{ animation: "slide_from_right" }} />
         <Stack.Screen name="price-alerts" options={{ animation: "slide_from_right" }} />
         <Stack.Screen name="notification-history" options={{ animation: "slide_from_right" }} />
+        <Stack.Screen name="notification-schedule" options={{ animation: "slide_from_right" }} />
         <Stack.Screen name="trade-history" options={{ animation: "slide_from_right" }} />
         <Stack.Screen name="oauth/callback" />
       </Stack>
@@ -154,21 +157,23 @@ export default function RootLayout() {
 
   const content = (
     <GestureHandlerRootView style={{ flex: 1 }}>
-      <DemoProvider>
-      <WatchlistProvider>
-      <ViewModeProvider>
       <trpc.Provider client={trpcClient} queryClient={queryClient}>
         <QueryClientProvider client={queryClient}>
+          <DataSourceProvider>
+          <DemoProvider>
+          <WatchlistProvider>
+          <ViewModeProvider>
           <NotificationProvider>
             <ErrorBoundary>
               <InnerLayout />
             </ErrorBoundary>
           </NotificationProvider>
+          </ViewModeProvider>
+          </WatchlistProvider>
+          </DemoProvider>
+          </DataSourceProvider>
         </QueryClientProvider>
       </trpc.Provider>
-      </ViewModeProvider>
-      </WatchlistProvider>
-      </DemoProvider>
     </GestureHandlerRootView>
   );
 
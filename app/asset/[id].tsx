@@ -1,7 +1,9 @@
 /**
  * Asset Detail Screen — Stock detail with chart, stats, and trade CTAs
  *
- * News section disabled. Uses design tokens for all spacing and colors.
+ * News section disabled; the chart shows the archived daily news sentiment
+ * under the price, and a sharp daily move is explained with cited articles
+ * above the About section. Uses design tokens for all spacing and colors.
  */
 import React, { useState, useCallback, useMemo } from "react";
 import {
@@ -23,6 +25,7 @@ import { IconSymbol } from "@/components/ui/icon-symbol";
 import { LiveBadge } from "@/components/ui/live-badge";
 import { ChartSkeleton, Skeleton } from "@/components/ui/skeleton";
 import { useStockQuote, useStockChart } from "@/hooks/use-stocks";
+import { useMoveExplanation, useSentimentHistory } from "@/hooks/use-news";
 import { GREEK_STOCKS } from "@/lib/mock-data";
 import { ShareCardModal } from "@/components/ui/share-card-modal";
 import type { ShareCardData, ShareSentiment } from "@/components/ui/share-card";
@@ -39,7 +42,9 @@ import {
 import { Caption2, Footnote } from "@/components/ui/cds-typography";
 import { FontFamily } from "@/constants/typography";
 import { Spacing, Radius } from "@/constants/spacing";
-import { CDSLineChart } from "@/components/ui/cds-line-chart";
+import { AssetPriceChart, ChartControls, MoveExplainerCard } from "@/components/features/asset";
+import { useViewMode } from "@/lib/viewmode-context";
+import { formatVolume, type ChartScrub } from "@/lib/chart-scrub";
 import { useWatchlist } from "@/lib/watchlist-context";
 import { useNotifications } from "@/lib/notification-context";
 import { AddAlertModal } from "@/components/ui/add-alert-modal";
@@ -48,12 +53,6 @@ import { Platform } from "react-native";
 
 const TIME_PERIODS = ["1D", "1W", "1M", "3M", "1Y", "ALL"];
 
-function formatVolume(vol: number): string {
-  if (vol >= 1_000_000) return `${(vol / 1_000_000).toFixed(1)}M`;
-  if (vol >= 1_000) return `${(vol / 1_000).toFixed(0)}K`;
-  return vol.toString();
-}
-
 // ─── Main Screen ────────────────────────────────────────────────────────────
 
 export default function AssetDetailScreen() {
@@ -69,10 +68,14 @@ export default function AssetDetailScreen() {
   const stockAlerts = getAlertsForStock(id ?? "");
   const hasActiveAlerts = stockAlerts.some((a) => a.enabled);
 
-  const { stock, isLoading: quoteLoading, isLive } = useStockQuote(id ?? "");
+  const { stock, isLoading: quoteLoading, isLive, isStale } = useStockQuote(id ?? "");
   const { isWatchlisted, toggle: toggleWatchlist } = useWatchlist();
   const starred = isWatchlisted(id ?? "");
-  const { chartData, isLoading: chartLoading } = useStockChart(id ?? "", activePeriod);
+  const { chartData, bars, isLoading: chartLoading } = useStockChart(id ?? "", activePeriod);
+  const { perBar: newsSentiment } = useSentimentHistory(id ?? "", bars);
+  const { explanation } = useMoveExplanation(id ?? "");
+  const { isPro, activeChart } = useViewMode();
+  const [scrub, setScrub] = useState<ChartScrub | null>(null);
 
   // Fallback to mock data if stock not found
   const mockAsset = GREEK_STOCKS.find((s) => s.id === id);
@@ -91,6 +94,12 @@ export default function AssetDetailScreen() {
 
   const isPositive = change >= 0;
 
+  // While scrubbing, the hero shows the point under the finger (or the
+  // measured span) and its change instead of today's quote
+  const heroPrice = scrub ? chartData[scrub.measure?.toIndex ?? scrub.index] ?? price : price;
+  const heroChange = scrub ? (scrub.measure ?? scrub).change : change;
+  const heroChangePercent = scrub ? (scrub.measure ?? scrub).changePercent : changePercent;
+
   // Build share card data
   const shareCardData: ShareCardData = {
     ticker,
@@ -137,7 +146,7 @@ export default function AssetDetailScreen() {
           <View style={styles.headerCenter}>
             <View style={styles.headerTitleRow}>
               <Title3>{ticker}</Title3>
-              <LiveBadge isLive={isLive} />
+              <LiveBadge isLive={isLive} isStale={isStale} />
             </View>
             <Footnote color="muted">{name}</Footnote>
           </View>
@@ -202,7 +211,7 @@ export default function AssetDetailScreen() {
           ) : (
             <>
               <AnimatedNumber
-                value={price}
+                value={heroPrice}
                 prefix="€"
                 decimals={2}
                 style={{
@@ -214,9 +223,9 @@ export default function AssetDetailScreen() {
                 }}
               />
               <View style={styles.changeRow}>
-                <AnimatedPnLNumber value={change} format="currency" size="md" showArrow={true} successColor={colors.success} errorColor={colors.error} mutedColor={colors.muted} />
+                <AnimatedPnLNumber value={heroChange} format="currency" size="md" showArrow={true} successColor={colors.success} errorColor={colors.error} mutedColor={colors.muted} />
                 <Footnote color="muted"> · </Footnote>
-                <AnimatedPnLNumber value={changePercent} format="percent" size="md" showArrow={false} successColor={colors.success} errorColor={colors.error} mutedColor={colors.muted} />
+                <AnimatedPnLNumber value={heroChangePercent} format="percent" size="md" showArrow={false} successColor={colors.success} errorColor={colors.error} mutedColor={colors.muted} />
               </View>
             </>
           )}
@@ -231,15 +240,13 @@ export default function AssetDetailScreen() {
               <Footnote color="muted">No chart data available</Footnote>
             </View>
           ) : (
-            <CDSLineChart
-              data={chartData.length > 0 ? chartData : (mockAsset?.sparkline ?? [])}
-              height={200}
+            <AssetPriceChart
+              closes={chartData}
+              bars={bars}
               positive={isPositive}
-              showGradient={true}
-              smooth={true}
-              showDots={false}
-              showGrid={true}
-              gridLines={5}
+              chart={activeChart}
+              onScrub={setScrub}
+              newsSentiment={newsSentiment}
             />
           )}
         </ReAnimated.View>
@@ -272,6 +279,9 @@ export default function AssetDetailScreen() {
           })}
         </ReAnimated.View>
 
+        {/* Chart style and indicators (Pro) */}
+        {isPro && <ChartControls />}
+
         {/* Key Stats */}
         <ReAnimated.View
           entering={FadeInDown.duration(250).delay(240)}
@@ -300,6 +310,9 @@ export default function AssetDetailScreen() {
           </View>
         </ReAnimated.View>
 
+        {/* Why is it moving — sharp daily moves only */}
+        <MoveExplainerCard ticker={ticker} explanation={explanation} />
+
         {/* About Section */}
         <ReAnimated.View entering={FadeInDown.duration(250).delay(300)} style={styles.aboutSection}>
           <Title3 style={{ marginBottom: Spacing[3] }}>About {ticker}</Title3>
@@ -0,0 +1,346 @@
+/**
+ * Alert Service Dashboard
+ *
+ * Operations screen for admins: price alert service status with start,
+ * stop and "Run check now", the latest check runs, alert volume per stock,
+ * recently seen devices, the health of each Data API the server calls, and
+ * the latest news sentiment analyses.
+ * Refreshes every 15 seconds. Not linked from the app; other accounts get
+ * "Admin access required".
+ */
+import React, { useCallback, useState } from "react";
+import { View, ScrollView, StyleSheet } from "react-native";
+import { useRouter } from "expo-router";
+import { AnimatedPressable } from "@/components/ui/animated-pressable";
+import { ScreenContainer } from "@/components/screen-container";
+import { useColors, colorAlpha } from "@/hooks/use-colors";
+import { IconSymbol } from "@/components/ui/icon-symbol";
+import { LargeTitle, Body, Subhead, Caption1 } from "@/components/ui/typography";
+import { Footnote } from "@/components/ui/cds-typography";
+import { FontFamily } from "@/constants/typography";
+import { Spacing, Radius } from "@/constants/spacing";
+import { trpc } from "@/lib/trpc";
+import type { CheckRunOutcome } from "@/server/priceAlertService";
+
+// ─── Constants ──────────────────────────────────────────────────────────────
+
+const REFRESH_MS = 15_000;
+
+const OUTCOME_LABELS: Record<CheckRunOutcome, string> = {
+  completed: "Completed",
+  market_closed: "Market closed",
+  standby: "Standby (another server checks)",
+  idle: "Nothing to check",
+  error: "Failed",
+};
+
+function formatTime(timestamp: number | null): string {
+  if (timestamp === null) return "never";
+  return new Date(timestamp).toLocaleString(undefined, {
+    day: "numeric",
+    month: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  });
+}
+
+// ─── Component ──────────────────────────────────────────────────────────────
+
+export default function AlertServiceScreen() {
+  const router = useRouter();
+  const colors = useColors();
+  const utils = trpc.useUtils();
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  const polling = { refetchInterval: REFRESH_MS, retry: false } as const;
+  const statusQuery = trpc.admin.getServiceStatus.useQuery(undefined, polling);
+  const runsQuery = trpc.admin.getCheckRuns.useQuery({ limit: 20 }, polling);
+  const volumeQuery = trpc.admin.getAlertVolume.useQuery({ days: 7 }, polling);
+  const devicesQuery = trpc.admin.listDevices.useQuery({ limit: 20 }, polling);
+  const healthQuery = trpc.admin.getProviderHealth.useQuery(undefined, polling);
+  const sentimentQuery = trpc.admin.getSentimentAnalyses.useQuery({ limit: 10 }, polling);
+
+  const refresh = useCallback(() => utils.admin.invalidate(), [utils]);
+  const onSettled = {
+    onSuccess: (result: { success: boolean; error?: string }) => {
+      setActionError(result.success ? null : (result.error ?? null));
+      refresh();
+    },
+    onError: (error: { message: string }) => setActionError(error.message),
+  };
+  const startMutation = trpc.admin.startService.useMutation(onSettled);
+  const stopMutation = trpc.admin.stopService.useMutation(onSettled);
+  const runCheckMutation = trpc.admin.runCheck.useMutation(onSettled);
+  const busy = startMutation.isPending || stopMutation.isPending || runCheckMutation.isPending;
+
+  const status = statusQuery.data?.success ? statusQuery.data.data : null;
+  const runs = runsQuery.data?.success ? runsQuery.data.data : [];
+  const volume = volumeQuery.data?.success ? volumeQuery.data.data : [];
+  const devices = devicesQuery.data?.success ? devicesQuery.data.data : [];
+  const health = healthQuery.data?.success ? healthQuery.data.data : [];
+  const analyses = sentimentQuery.data?.success ? sentimentQuery.data.data : [];
+  const forbidden = statusQuery.error?.data?.code === "FORBIDDEN" || statusQuery.error?.data?.code === "UNAUTHORIZED";
+
+  const actionButton = (label: string, onPress: () => void, color: string, disabled = false) => (
+    <AnimatedPressable
+      variant="chip"
+      onPress={onPress}
+      disabled={busy || disabled}
+      style={[styles.actionButton, { backgroundColor: colorAlpha(color, disabled ? 0.08 : 0.2) }]}
+      accessibilityLabel={label}
+      accessibilityRole="button"
+    >
+      <Caption1 style={{ color, fontFamily: FontFamily.semibold }}>{label}</Caption1>
+    </AnimatedPressable>
+  );
+
+  const card = (title: string, children: React.ReactNode) => (
+    <View style={[styles.card, { backgroundColor: colors.surface, borderColor: colors.border }]}>
+      <Footnote color="muted" style={styles.cardLabel}>
+        {title}
+      </Footnote>
+      {children}
+    </View>
+  );
+
+  const row = (key: string | number, left: string, right: string, tone?: string) => (
+    <View key={key} style={styles.row}>
+      <Caption1 style={{ flex: 1 }} numberOfLines={1}>
+        {left}
+      </Caption1>
+      <Caption1 style={tone ? { color: tone } : undefined} color={tone ? undefined : "muted"}>
+        {right}
+      </Caption1>
+    </View>
+  );
+
+  return (
+    <ScreenContainer edges={["top", "left", "right"]}>
+      {/* ── Header ── */}
+      <View style={styles.header}>
+        <AnimatedPressable
+          variant="icon"
+          onPress={() => router.back()}
+          style={[styles.backButton, { backgroundColor: colors.surfaceSecondary }]}
+        >
+          <IconSymbol name="chevron.right" size={20} color={colors.foreground} style={{ transform: [{ scaleX: -1 }] }} />
+        </AnimatedPressable>
+        <LargeTitle style={{ letterSpacing: -0.5, flex: 1 }}>Alert Service</LargeTitle>
+      </View>
+
+      {forbidden ? (
+        <View style={styles.emptyState}>
+          <Subhead style={{ fontFamily: FontFamily.semibold, textAlign: "center" }}>Admin access required</Subhead>
+          <Body color="muted" style={{ textAlign: "center", marginTop: 8 }}>
+            Sign in with an admin account to see the alert service.
+          </Body>
+        </View>
+      ) : (
+        <ScrollView contentContainerStyle={styles.content} showsVerticalScrollIndicator={false}>
+          {/* ── Status ── */}
+          {card(
+            "Status",
+            !status ? (
+              <Caption1 color="muted">{statusQuery.isLoading ? "Loading..." : "Status isn't available right now."}</Caption1>
+            ) : (
+              <>
+                {row("running", "Periodic checks", status.isRunning ? "Running" : "Stopped", status.isRunning ? colors.success : colors.error)}
+                {row("phase", "Market", status.marketPhase)}
+                {row("interval", "Check interval", `${status.checkIntervalMs / 1000}s`)}
+                {row("store", "Store", status.store)}
+                {row("alerts", "Alerts", `${status.activeAlerts} active of ${status.totalAlerts}`)}
+                {row("stocks", "Stocks monitored", String(status.stocksMonitored))}
+                {row("devices", "Devices", `${status.registeredDevices} (${status.linkedDevices} signed in)`)}
+                <View style={styles.actions}>
+                  {status.isRunning
+                    ? actionButton("Stop", () => stopMutation.mutate(), colors.error)
+                    : actionButton("Start", () => startMutation.mutate(), colors.success)}
+                  {actionButton(
+                    status.checkInProgress || runCheckMutation.isPending ? "Checking..." : "Run check now",
+                    () => runCheckMutation.mutate(),
+                    colors.primary,
+                    status.checkInProgress
+                  )}
+                </View>
+                {actionError && <Caption1 style={{ marginTop: 8, color: colors.error }}>{actionError}</Caption1>}
+              </>
+            )
+          )}
+
+          {/* ── Check Runs ── */}
+          {card(
+            "Recent Checks",
+            runs.length === 0 ? (
+              <Caption1 color="muted">No checks since this server started.</Caption1>
+            ) : (
+              runs.map((run) => (
+                <View key={run.startedAt} style={styles.runRow}>
+                  <View style={styles.row}>
+                    <Caption1 style={{ flex: 1, fontFamily: FontFamily.medium }}>
+                      {formatTime(run.startedAt)}
+                      {run.source === "manual" ? " · manual" : ""}
+                    </Caption1>
+                    <Caption1 style={{ color: run.outcome === "error" ? colors.error : colors.muted }}>
+                      {OUTCOME_LABELS[run.outcome]}
+                    </Caption1>
+                  </View>
+                  <Caption1 color="muted">
+                    {run.checked} checked · {run.triggered} triggered · {run.sent} sent · {run.durationMs} ms
+                  </Caption1>
+                  {run.error && <Caption1 style={{ color: colors.error }}>{run.error}</Caption1>}
+                </View>
+              ))
+            )
+          )}
+
+          {/* ── Alert Volume ── */}
+          {card(
+            "Alerts per Stock (triggers over 7 days)",
+            volume.length === 0 ? (
+              <Caption1 color="muted">No stock alerts yet.</Caption1>
+            ) : (
+              volume.map((v) =>
+                row(v.stockId, v.stockId.toUpperCase(), `${v.enabled}/${v.alerts} enabled · ${v.triggers} triggers`)
+              )
+            )
+          )}
+
+          {/* ── Data API Health ── */}
+          {card(
+            "Data API Health",
+            health.length === 0 ? (
+              <Caption1 color="muted">No Data API calls since this server started.</Caption1>
+            ) : (
+              health.map((api) => (
+                <View key={api.apiId} style={styles.runRow}>
+                  {row(
+                    "name",
+                    api.apiId,
+                    `${api.failures}/${api.calls} failed`,
+                    api.lastFailureAt !== null && (api.lastSuccessAt ?? 0) < api.lastFailureAt ? colors.error : undefined
+                  )}
+                  <Caption1 color="muted">
+                    avg {api.avgLatencyMs} ms · p95 {api.p95LatencyMs} ms · last {api.lastLatencyMs} ms
+                  </Caption1>
+                  {api.lastError && (
+                    <Caption1 color="muted" numberOfLines={2}>
+                      Last error ({formatTime(api.lastFailureAt)}): {api.lastError}
+                    </Caption1>
+                  )}
+                </View>
+              ))
+            )
+          )}
+
+          {/* ── News Sentiment ── */}
+          {card(
+            "News Sentiment Analyses",
+            analyses.length === 0 ? (
+              <Caption1 color="muted">No news analyzed since this server started.</Caption1>
+            ) : (
+              analyses.map((a) => (
+                <View key={`${a.stockId}-${a.analyzedAt}`} style={styles.runRow}>
+                  {row(
+                    "name",
+                    `${a.stockId.toUpperCase()} · ${formatTime(a.analyzedAt)}`,
+                    a.model ?? "keywords",
+                    a.error ? colors.error : undefined
+                  )}
+                  {a.method === "llm" && (
+                    <Caption1 color="muted">
+                      {a.latencyMs} ms · {a.promptTokens} prompt + {a.completionTokens} completion tokens
+                    </Caption1>
+                  )}
+                  {a.error && (
+                    <Caption1 color="muted" numberOfLines={2}>
+                      Fell back to keywords: {a.error}
+                    </Caption1>
+                  )}
+                </View>
+              ))
+            )
+          )}
+
+          {/* ── Devices ── */}
+          {card(
+            "Recently Seen Devices",
+            devices.length === 0 ? (
+              <Caption1 color="muted">No registered devices.</Caption1>
+            ) : (
+              devices.map((d) =>
+                row(
+                  d.deviceId,
+                  `${d.platform} · ${d.userId !== null ? `user ${d.userId}` : "anonymous"} · ${d.pushToken}`,
+                  formatTime(d.lastSeen)
+                )
+              )
+            )
+          )}
+        </ScrollView>
+      )}
+    </ScreenContainer>
+  );
+}
+
+// ─── Styles ─────────────────────────────────────────────────────────────────
+
+const styles = StyleSheet.create({
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: 16,
+    paddingTop: 8,
+    paddingBottom: 16,
+    gap: 14,
+  },
+  backButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  emptyState: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    paddingHorizontal: 32,
+    paddingBottom: 80,
+  },
+  content: {
+    paddingHorizontal: 16,
+    paddingBottom: 40,
+    gap: 12,
+  },
+  card: {
+    padding: Spacing[4],
+    borderRadius: Radius[400],
+    borderWidth: StyleSheet.hairlineWidth,
+  },
+  cardLabel: {
+    fontFamily: FontFamily.semibold,
+    textTransform: "uppercase",
+    letterSpacing: 0.8,
+    marginBottom: 6,
+  },
+  row: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    gap: 8,
+    paddingVertical: 3,
+  },
+  runRow: {
+    paddingVertical: 4,
+  },
+  actions: {
+    flexDirection: "row",
+    gap: 8,
+    marginTop: 10,
+  },
+  actionButton: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: Radius[500],
+  },
+});
@@ -4,8 +4,11 @@
  * Displays a chronological record of all past price alert triggers and
  * system notifications. Items are grouped by date (Today, Yesterday, Earlier).
  * Supports mark-as-read, delete individual items, mark-all-read, and clear-all.
+ * When signed in, the list is the account's server inbox (merged with items
+ * kept on this device): it is refreshed on open and pages in older items
+ * as the user scrolls, and read state follows the account across devices.
  */
-import React, { useMemo, useCallback } from "react";
+import React, { useMemo, useCallback, useEffect } from "react";
 import {
   View,
   StyleSheet,
@@ -109,8 +112,14 @@ export default function NotificationHistoryScreen() {
     markAllAsRead,
     removeFromHistory,
     clearHistory,
+    loadMoreHistory,
+    refreshHistory,
   } = useNotifications();
 
+  useEffect(() => {
+    refreshHistory();
+  }, [refreshHistory]);
+
   // Group notifications by date
   const sections = useMemo<GroupedSection[]>(() => {
     const groups: Record<DateGroup, NotificationHistoryItem[]> = {
@@ -401,6 +410,8 @@ export default function NotificationHistoryScreen() {
           contentContainerStyle={styles.listContent}
           showsVerticalScrollIndicator={false}
           ItemSeparatorComponent={() => <View style={{ height: 6 }} />}
+          onEndReached={loadMoreHistory}
+          onEndReachedThreshold={0.5}
         />
       )}
     </ScreenContainer>
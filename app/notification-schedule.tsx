@@ -0,0 +1,314 @@
+/**
+ * Notification Schedule Screen
+ *
+ * When notifications may arrive: quiet hours, a delivery window per
+ * category, and whether notifications held outside those hours come when
+ * the hold lifts or as one morning digest. Hours are read in the account's
+ * timezone, which follows this device. Reached from Settings.
+ */
+import React, { useCallback } from "react";
+import { View, ScrollView, StyleSheet, Switch, Platform } from "react-native";
+import ReAnimated, { FadeIn, FadeInDown } from "react-native-reanimated";
+import { useRouter } from "expo-router";
+import { AnimatedPressable } from "@/components/ui/animated-pressable";
+import { CDSChip } from "@/components/ui/cds-chip";
+import { CDSStepper } from "@/components/ui/cds-stepper";
+import { ScreenContainer } from "@/components/screen-container";
+import { useColors } from "@/hooks/use-colors";
+import { useNotifications } from "@/lib/notification-context";
+import { IconSymbol } from "@/components/ui/icon-symbol";
+import { LargeTitle, Body, Subhead, Caption1 } from "@/components/ui/typography";
+import { Footnote } from "@/components/ui/cds-typography";
+import { FontFamily } from "@/constants/typography";
+import { Spacing, Radius } from "@/constants/spacing";
+import {
+  CATEGORY_LABELS,
+  NOTIFICATION_CATEGORIES,
+  describeHours,
+  type DeliveryWindow,
+  type NotificationCategory,
+} from "@shared/notification-schedule";
+
+// ─── Constants ──────────────────────────────────────────────────────────────
+
+const DEFAULT_QUIET_HOURS = { start: 22, end: 7 };
+const DEFAULT_WINDOW: DeliveryWindow = { startHour: 9, endHour: 21, weekends: true };
+
+function formatHour(hour: number): string {
+  return `${String(hour).padStart(2, "0")}:00`;
+}
+
+// ─── Component ──────────────────────────────────────────────────────────────
+
+export default function NotificationScheduleScreen() {
+  const router = useRouter();
+  const colors = useColors();
+  const { preferences, updatePreferences, canManageAlerts } = useNotifications();
+
+  const quietHoursOn = preferences?.quietHoursStart != null && preferences?.quietHoursEnd != null;
+
+  const setWindow = useCallback(
+    (category: NotificationCategory, window: DeliveryWindow | undefined) => {
+      if (!preferences) return;
+      const schedules = { ...preferences.schedules };
+      if (window) {
+        schedules[category] = window;
+      } else {
+        delete schedules[category];
+      }
+      updatePreferences({ schedules });
+    },
+    [preferences, updatePreferences]
+  );
+
+  const switchProps = {
+    trackColor: { false: colors.surfaceSecondary, true: colors.primary },
+    thumbColor: Platform.OS === "android" ? colors.onPrimary : undefined,
+    ios_backgroundColor: colors.surfaceSecondary,
+  };
+
+  return (
+    <ScreenContainer edges={["top", "left", "right"]}>
+      <ScrollView contentContainerStyle={styles.scrollContent} showsVerticalScrollIndicator={false}>
+        {/* ── Header ── */}
+        <ReAnimated.View entering={FadeIn.duration(200)} style={styles.header}>
+          <AnimatedPressable
+            variant="icon"
+            onPress={() => router.back()}
+            style={[styles.backButton, { backgroundColor: colors.surface }]}
+          >
+            <IconSymbol
+              name="chevron.right"
+              size={20}
+              color={colors.foreground}
+              style={{ transform: [{ scaleX: -1 }] }}
+            />
+          </AnimatedPressable>
+          <LargeTitle style={{ letterSpacing: -0.5 }}>Delivery Schedule</LargeTitle>
+        </ReAnimated.View>
+
+        {!canManageAlerts || !preferences ? (
+          <Body color="muted" style={styles.signedOut}>
+            {canManageAlerts
+              ? "Loading your schedule..."
+              : "Sign in to set quiet hours and delivery schedules. They're saved to your account and apply to all your devices."}
+          </Body>
+        ) : (
+          <ReAnimated.View entering={FadeInDown.duration(250).delay(60)}>
+            <Caption1 color="muted" style={styles.timezone}>
+              Times are in {preferences.timezone}, this device&apos;s timezone.
+            </Caption1>
+
+            {/* ── Quiet Hours ── */}
+            <SectionLabel text="Quiet Hours" />
+            <View style={[styles.card, { backgroundColor: colors.surface, borderColor: colors.border }]}>
+              <View style={styles.row}>
+                <View style={{ flex: 1, marginRight: Spacing[3] }}>
+                  <Subhead style={{ fontFamily: FontFamily.medium }}>Quiet Hours</Subhead>
+                  <Caption1 color="muted" style={{ marginTop: 2 }}>
+                    {quietHoursOn
+                      ? `Nothing arrives ${describeHours(preferences.quietHoursStart!, preferences.quietHoursEnd!)}`
+                      : "Notifications arrive any time"}
+                  </Caption1>
+                </View>
+                <Switch
+                  value={quietHoursOn}
+                  onValueChange={(on) =>
+                    updatePreferences(
+                      on
+                        ? { quietHoursStart: DEFAULT_QUIET_HOURS.start, quietHoursEnd: DEFAULT_QUIET_HOURS.end }
+                        : { quietHoursStart: null, quietHoursEnd: null }
+                    )
+                  }
+                  {...switchProps}
+                />
+              </View>
+              {quietHoursOn && (
+                <>
+                  <HourRow
+                    label="From"
+                    hour={preferences.quietHoursStart!}
+                    onChange={(quietHoursStart) => updatePreferences({ quietHoursStart })}
+                  />
+                  <HourRow
+                    label="Until"
+                    hour={preferences.quietHoursEnd!}
+                    onChange={(quietHoursEnd) => updatePreferences({ quietHoursEnd })}
+                  />
+                </>
+              )}
+            </View>
+
+            {/* ── Held Notifications ── */}
+            <SectionLabel text="Held Notifications" />
+            <View style={[styles.card, { backgroundColor: colors.surface, borderColor: colors.border }]}>
+              <View style={[styles.row, { flexDirection: "column", alignItems: "flex-start", gap: 10 }]}>
+                <Caption1 color="muted">
+                  Notifications during quiet hours or outside a schedule are kept, not dropped.
+                </Caption1>
+                <View style={styles.chipRow}>
+                  <CDSChip
+                    label="Send when the hold ends"
+                    selected={preferences.heldDelivery === "when_quiet_ends"}
+                    onPress={() => updatePreferences({ heldDelivery: "when_quiet_ends" })}
+                  />
+                  <CDSChip
+                    label="Morning digest"
+                    selected={preferences.heldDelivery === "morning_digest"}
+                    onPress={() => updatePreferences({ heldDelivery: "morning_digest" })}
+                  />
+                </View>
+              </View>
+              {preferences.heldDelivery === "morning_digest" && (
+                <HourRow
+                  label="Digest at"
+                  hour={preferences.digestHour}
+                  onChange={(digestHour) => updatePreferences({ digestHour })}
+                />
+              )}
+            </View>
+
+            {/* ── Per-Category Schedules ── */}
+            <SectionLabel text="Schedules" />
+            <View style={{ gap: Spacing[3] }}>
+              {NOTIFICATION_CATEGORIES.map((category) => {
+                const window = preferences.schedules[category];
+                return (
+                  <View
+                    key={category}
+                    style={[styles.card, { backgroundColor: colors.surface, borderColor: colors.border }]}
+                  >
+                    <View style={styles.row}>
+                      <View style={{ flex: 1, marginRight: Spacing[3] }}>
+                        <Subhead style={{ fontFamily: FontFamily.medium }}>{CATEGORY_LABELS[category]}</Subhead>
+                        <Caption1 color="muted" style={{ marginTop: 2 }}>
+                          {window
+                            ? `${describeHours(window.startHour, window.endHour)}${window.weekends ? "" : ", weekdays only"}`
+                            : "Any time outside quiet hours"}
+                        </Caption1>
+                      </View>
+                      <Switch
+                        value={window !== undefined}
+                        onValueChange={(on) => setWindow(category, on ? DEFAULT_WINDOW : undefined)}
+                        accessibilityLabel={`${CATEGORY_LABELS[category]} schedule`}
+                        {...switchProps}
+                      />
+                    </View>
+                    {window && (
+                      <>
+                        <HourRow
+                          label="From"
+                          hour={window.startHour}
+                          onChange={(startHour) => setWindow(category, { ...window, startHour })}
+                        />
+                        <HourRow
+                          label="Until"
+                          hour={window.endHour}
+                          onChange={(endHour) => setWindow(category, { ...window, endHour })}
+                        />
+                        <View style={[styles.row, { borderTopWidth: StyleSheet.hairlineWidth, borderTopColor: colors.border }]}>
+                          <Subhead>Weekends</Subhead>
+                          <Switch
+                            value={window.weekends}
+                            onValueChange={(weekends) => setWindow(category, { ...window, weekends })}
+                            {...switchProps}
+                          />
+                        </View>
+                      </>
+                    )}
+                  </View>
+                );
+              })}
+            </View>
+          </ReAnimated.View>
+        )}
+      </ScrollView>
+    </ScreenContainer>
+  );
+}
+
+// ─── Sub-components ─────────────────────────────────────────────────────────
+
+function SectionLabel({ text }: { text: string }) {
+  return (
+    <View style={styles.sectionLabel}>
+      <Footnote
+        color="muted"
+        style={{
+          fontFamily: FontFamily.semibold,
+          textTransform: "uppercase",
+          letterSpacing: 0.8,
+        }}
+      >
+        {text}
+      </Footnote>
+    </View>
+  );
+}
+
+function HourRow({ label, hour, onChange }: { label: string; hour: number; onChange: (hour: number) => void }) {
+  const colors = useColors();
+  return (
+    <View style={[styles.row, { borderTopWidth: StyleSheet.hairlineWidth, borderTopColor: colors.border }]}>
+      <Subhead>
+        {label} <Subhead style={{ fontFamily: FontFamily.semibold }}>{formatHour(hour)}</Subhead>
+      </Subhead>
+      <CDSStepper value={hour} onChange={onChange} min={0} max={23} size="sm" showValue={false} />
+    </View>
+  );
+}
+
+// ─── Styles ─────────────────────────────────────────────────────────────────
+
+const styles = StyleSheet.create({
+  scrollContent: {
+    paddingBottom: 40,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: Spacing[4],
+    paddingTop: Spacing[2],
+    paddingBottom: Spacing[4],
+    gap: Spacing[3],
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: Radius[500],
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  signedOut: {
+    textAlign: "center",
+    paddingHorizontal: 32,
+    marginTop: 40,
+  },
+  timezone: {
+    paddingHorizontal: Spacing[5],
+  },
+  sectionLabel: {
+    paddingHorizontal: Spacing[5],
+    paddingTop: Spacing[6],
+    paddingBottom: Spacing[2],
+  },
+  card: {
+    marginHorizontal: Spacing[4],
+    borderRadius: Radius[400],
+    borderWidth: StyleSheet.hairlineWidth,
+    overflow: "hidden",
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingVertical: 14,
+    paddingHorizontal: Spacing[4],
+    minHeight: 50,
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+});
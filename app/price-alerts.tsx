@@ -2,7 +2,11 @@
  * Price Alerts Screen
  *
  * Full management screen for viewing, adding, and managing price alerts.
- * Accessible from Settings and from the Asset Detail screen.
+ * Accessible from Settings and from the Asset Detail screen. "New Rule"
+ * opens the rule builder for AND/OR alerts on indicators, volume, ranges
+ * and gaps; "Portfolio" sets alerts on the demo portfolio or watchlist.
+ * Tapping an alert shows its activity: when it fired, at what price and
+ * whether the push was delivered, and the outcome of recent checks.
  */
 import React, { useState, useCallback } from "react";
 import {
@@ -19,6 +23,8 @@ import { STAGGER_DELAY, STAGGER_MAX } from "@/lib/animations";
 import { useRouter } from "expo-router";
 import { AnimatedPressable } from "@/components/ui/animated-pressable";
 import { CDSButton } from "@/components/ui/cds-button";
+import { RuleBuilderModal } from "@/components/ui/rule-builder-modal";
+import { ScopeAlertModal } from "@/components/ui/scope-alert-modal";
 import { ScreenContainer } from "@/components/screen-container";
 import { useColors, colorAlpha } from "@/hooks/use-colors";
 import { useNotifications } from "@/lib/notification-context";
@@ -33,7 +39,45 @@ import {
 import { Footnote } from "@/components/ui/cds-typography";
 import { FontFamily } from "@/constants/typography";
 import { Spacing, Radius } from "@/constants/spacing";
-import type { PriceAlert } from "@/server/priceAlertService";
+import { trpc } from "@/lib/trpc";
+import type { AlertEvaluationOutcome } from "@/server/alertStore";
+import type { AuditedTrigger, PriceAlert } from "@/server/priceAlertService";
+import { describeRule } from "@shared/alert-rules";
+
+// ─── Constants ──────────────────────────────────────────────────────────────
+
+const OUTCOME_LABELS: Record<AlertEvaluationOutcome, string> = {
+  not_met: "Condition not met",
+  fired: "Fired",
+  cooling_down: "Cooling down",
+  claimed_elsewhere: "Fired by another server",
+  no_data: "No market data",
+};
+
+function formatDateTime(timestamp: number): string {
+  return new Date(timestamp).toLocaleString(undefined, {
+    day: "numeric",
+    month: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+function deliveryLabel(trigger: AuditedTrigger): string {
+  switch (trigger.delivery) {
+    case "delivered":
+      return "Delivered";
+    case "sent":
+      return "Sent";
+    case "queued":
+      return "Sending";
+    case "failed":
+      return "Not delivered";
+    default:
+      if (trigger.status === "held") return "Held for quiet hours";
+      return trigger.status === "failed" ? "No devices" : "Not pushed";
+  }
+}
 
 // ─── Component ──────────────────────────────────────────────────────────────
 
@@ -42,6 +86,7 @@ export default function PriceAlertsScreen() {
   const colors = useColors();
   const {
     alerts,
+    canManageAlerts,
     hasPermission,
     isSupported,
     requestPermission,
@@ -49,6 +94,9 @@ export default function PriceAlertsScreen() {
     togglePriceAlert,
     preferences,
   } = useNotifications();
+  const [ruleBuilderVisible, setRuleBuilderVisible] = useState(false);
+  const [scopeAlertVisible, setScopeAlertVisible] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
 
   const handleToggle = useCallback(
     async (alertId: string) => {
@@ -64,9 +112,10 @@ export default function PriceAlertsScreen() {
         removePriceAlert(alert.id);
         return;
       }
+      const subject = alert.scope === "stock" ? `alert for ${alert.stockName}` : `${alert.scope} alert`;
       Alert.alert(
         "Delete Alert",
-        `Remove ${alert.type === "above" ? "above" : alert.type === "below" ? "below" : "% change"} alert for ${alert.stockName}?`,
+        `Remove this ${subject}?`,
         [
           { text: "Cancel", style: "cancel" },
           {
@@ -83,79 +132,114 @@ export default function PriceAlertsScreen() {
   const formatAlertType = (alert: PriceAlert): string => {
     switch (alert.type) {
       case "above":
-        return `Above €${alert.threshold.toFixed(2)}`;
+        return alert.scope === "portfolio"
+          ? `Value above €${alert.threshold.toFixed(2)}`
+          : `Above €${alert.threshold.toFixed(2)}`;
       case "below":
-        return `Below €${alert.threshold.toFixed(2)}`;
+        return alert.scope === "portfolio"
+          ? `Value below €${alert.threshold.toFixed(2)}`
+          : `Below €${alert.threshold.toFixed(2)}`;
       case "percent_change":
-        return `±${alert.threshold.toFixed(1)}% change`;
+        return alert.scope === "watchlist"
+          ? `Any stock ±${preferences?.percentThreshold ?? 5}% on the day`
+          : `±${alert.threshold.toFixed(1)}% change`;
+      case "pnl_gain":
+        return `Up €${alert.threshold.toFixed(2)} today`;
+      case "pnl_loss":
+        return `Down €${alert.threshold.toFixed(2)} today`;
+      case "holding_drop":
+        return `Any holding down ${alert.threshold.toFixed(1)}% today`;
+      case "rule":
+        return alert.rule ? describeRule(alert.rule) : "Rule";
       default:
         return "Unknown";
     }
   };
 
-  const formatAlertIcon = (type: string): string => {
-    switch (type) {
+  const formatAlertIcon = (alert: PriceAlert): string => {
+    if (alert.scope === "watchlist") return "👀";
+    switch (alert.type) {
       case "above":
         return "📈";
       case "below":
         return "📉";
       case "percent_change":
         return "🔔";
+      case "rule":
+        return "🧩";
+      case "pnl_gain":
+        return "🔥";
+      case "pnl_loss":
+      case "holding_drop":
+        return "⚠️";
       default:
         return "🔔";
     }
   };
 
   const renderAlert = ({ item }: { item: PriceAlert }) => (
-    <View
-      style={[
-        styles.alertRow,
-        { backgroundColor: colors.surface, borderColor: colors.border },
-      ]}
-    >
-      <View style={styles.alertLeft}>
-        <Body style={{ fontSize: 20 }}>{formatAlertIcon(item.type)}</Body>
-        <View style={styles.alertInfo}>
-          <Subhead style={{ fontFamily: FontFamily.semibold }}>
-            {item.stockName}
-          </Subhead>
-          <Caption1 color="muted">{formatAlertType(item)}</Caption1>
-          {item.lastTriggered && (
-            <Caption1 color="muted" style={{ marginTop: 2 }}>
-              Last triggered:{" "}
-              {new Date(item.lastTriggered).toLocaleDateString()}
-            </Caption1>
-          )}
-        </View>
-      </View>
-      <View style={styles.alertRight}>
-        <Switch
-          value={item.enabled}
-          onValueChange={() => handleToggle(item.id)}
-          trackColor={{
-            false: colors.surfaceSecondary,
-            true: colors.primary,
-          }}
-          thumbColor={
-            Platform.OS === "android" ? colors.onPrimary : undefined
-          }
-          ios_backgroundColor={colors.surfaceSecondary}
-        />
+    <View>
+      <View
+        style={[
+          styles.alertRow,
+          { backgroundColor: colors.surface, borderColor: colors.border },
+        ]}
+      >
         <AnimatedPressable
-          variant="destructive"
-          onPress={() => handleDelete(item)}
-          style={[
-            styles.deleteButton,
-            { backgroundColor: colorAlpha(colors.error, 0.20) },
-          ]}
-          accessibilityLabel={`Delete ${item.stockName} alert`}
+          variant="card"
+          haptic={false}
+          onPress={() =>
+            setExpandedId((id) => (id === item.id ? null : item.id))
+          }
+          style={styles.alertLeft}
+          accessibilityLabel={`${item.stockName} alert activity`}
           accessibilityRole="button"
+          accessibilityState={{ expanded: expandedId === item.id }}
         >
-          <Caption1 style={{ color: colors.error, fontFamily: FontFamily.semibold }}>
-            Delete
-          </Caption1>
+          <Body style={{ fontSize: 20 }}>{formatAlertIcon(item)}</Body>
+          <View style={styles.alertInfo}>
+            <Subhead style={{ fontFamily: FontFamily.semibold }}>
+              {item.stockName}
+            </Subhead>
+            <Caption1 color="muted">{formatAlertType(item)}</Caption1>
+            {item.lastTriggered && (
+              <Caption1 color="muted" style={{ marginTop: 2 }}>
+                Last triggered:{" "}
+                {new Date(item.lastTriggered).toLocaleDateString()}
+              </Caption1>
+            )}
+          </View>
         </AnimatedPressable>
+        <View style={styles.alertRight}>
+          <Switch
+            value={item.enabled}
+            onValueChange={() => handleToggle(item.id)}
+            trackColor={{
+              false: colors.surfaceSecondary,
+              true: colors.primary,
+            }}
+            thumbColor={
+              Platform.OS === "android" ? colors.onPrimary : undefined
+            }
+            ios_backgroundColor={colors.surfaceSecondary}
+          />
+          <AnimatedPressable
+            variant="destructive"
+            onPress={() => handleDelete(item)}
+            style={[
+              styles.deleteButton,
+              { backgroundColor: colorAlpha(colors.error, 0.20) },
+            ]}
+            accessibilityLabel={`Delete ${item.stockName} alert`}
+            accessibilityRole="button"
+          >
+            <Caption1 style={{ color: colors.error, fontFamily: FontFamily.semibold }}>
+              Delete
+            </Caption1>
+          </AnimatedPressable>
+        </View>
       </View>
+      {expandedId === item.id && <AlertActivity alertId={item.id} />}
     </View>
   );
 
@@ -181,7 +265,33 @@ export default function PriceAlertsScreen() {
             style={{ transform: [{ scaleX: -1 }] }}
           />
         </AnimatedPressable>
-        <LargeTitle style={{ letterSpacing: -0.5 }}>Price Alerts</LargeTitle>
+        <LargeTitle style={{ letterSpacing: -0.5, flex: 1 }}>Price Alerts</LargeTitle>
+        {canManageAlerts && (
+          <AnimatedPressable
+            variant="chip"
+            onPress={() => setScopeAlertVisible(true)}
+            style={[styles.newRuleButton, { backgroundColor: colorAlpha(colors.primary, 0.20) }]}
+            accessibilityLabel="New portfolio or watchlist alert"
+            accessibilityRole="button"
+          >
+            <Caption1 style={{ color: colors.primary, fontFamily: FontFamily.semibold }}>
+              Portfolio
+            </Caption1>
+          </AnimatedPressable>
+        )}
+        {canManageAlerts && (
+          <AnimatedPressable
+            variant="chip"
+            onPress={() => setRuleBuilderVisible(true)}
+            style={[styles.newRuleButton, { backgroundColor: colorAlpha(colors.primary, 0.20) }]}
+            accessibilityLabel="New rule alert"
+            accessibilityRole="button"
+          >
+            <Caption1 style={{ color: colors.primary, fontFamily: FontFamily.semibold }}>
+              New Rule
+            </Caption1>
+          </AnimatedPressable>
+        )}
       </ReAnimated.View>
 
       {/* ── Permission Banner ── */}
@@ -224,8 +334,9 @@ export default function PriceAlertsScreen() {
             color="muted"
             style={{ textAlign: "center", marginTop: 8, paddingHorizontal: 32 }}
           >
-            Set price alerts on stocks from the Markets or Asset Detail screen.
-            You'll be notified when prices hit your targets.
+            {canManageAlerts
+              ? "Set price alerts on stocks from the Markets or Asset Detail screen. You'll be notified when prices hit your targets."
+              : "Sign in to set price alerts. They're saved to your account and notify all your devices."}
           </Body>
         </ReAnimated.View>
       ) : (
@@ -247,10 +358,87 @@ export default function PriceAlertsScreen() {
           ItemSeparatorComponent={() => <View style={{ height: 8 }} />}
         />
       )}
+
+      <RuleBuilderModal visible={ruleBuilderVisible} onClose={() => setRuleBuilderVisible(false)} />
+      <ScopeAlertModal visible={scopeAlertVisible} onClose={() => setScopeAlertVisible(false)} />
     </ScreenContainer>
   );
 }
 
+// ─── Sub-components ─────────────────────────────────────────────────────────
+
+function AlertActivity({ alertId }: { alertId: string }) {
+  const colors = useColors();
+  const auditQuery = trpc.notifications.getAlertAudit.useQuery({
+    alertId,
+    limit: 10,
+  });
+  const audit = auditQuery.data?.success ? auditQuery.data.data : null;
+
+  return (
+    <View
+      style={[
+        styles.activity,
+        { backgroundColor: colors.surface, borderColor: colors.border },
+      ]}
+    >
+      {!audit ? (
+        <Caption1 color="muted">
+          {auditQuery.isLoading
+            ? "Loading activity..."
+            : "Activity isn't available right now."}
+        </Caption1>
+      ) : (
+        <>
+          <Footnote color="muted" style={styles.activityLabel}>
+            Fired
+          </Footnote>
+          {audit.triggers.length === 0 ? (
+            <Caption1 color="muted">Hasn&apos;t fired yet.</Caption1>
+          ) : (
+            audit.triggers.map((t, i) => (
+              <View
+                key={`${t.triggeredAt}-${t.stockId ?? i}`}
+                style={styles.activityRow}
+              >
+                <Caption1 style={{ flex: 1 }}>
+                  {formatDateTime(t.triggeredAt)} ·{" "}
+                  {t.stockId ? `${t.stockId.toUpperCase()} ` : ""}€
+                  {t.price.toFixed(2)}
+                </Caption1>
+                <Caption1 color="muted">{deliveryLabel(t)}</Caption1>
+              </View>
+            ))
+          )}
+          <Footnote
+            color="muted"
+            style={[styles.activityLabel, { marginTop: Spacing[3] }]}
+          >
+            Recent Checks
+          </Footnote>
+          {audit.evaluations.length === 0 ? (
+            <Caption1 color="muted">
+              Not checked yet; alerts are checked while the market is open.
+            </Caption1>
+          ) : (
+            audit.evaluations.map((e) => (
+              <View key={e.id} style={styles.activityRow}>
+                <Caption1 style={{ flex: 1 }}>
+                  {OUTCOME_LABELS[e.outcome]}
+                </Caption1>
+                <Caption1 color="muted">
+                  {e.count > 1 ? `${e.count} checks until ` : ""}
+                  {formatDateTime(e.lastEvaluatedAt)}
+                </Caption1>
+              </View>
+            ))
+          )}
+        </>
+      )}
+    </View>
+  );
+}
+
 // ─── Styles ─────────────────────────────────────────────────────────────────
 
 const styles = StyleSheet.create({
@@ -320,6 +508,29 @@ const styles = StyleSheet.create({
     alignItems: "center",
     gap: 10,
   },
+  newRuleButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: Radius[500],
+  },
+  activity: {
+    marginTop: 4,
+    padding: Spacing[4],
+    borderRadius: Radius[400],
+    borderWidth: StyleSheet.hairlineWidth,
+  },
+  activityLabel: {
+    fontFamily: FontFamily.semibold,
+    textTransform: "uppercase",
+    letterSpacing: 0.8,
+    marginBottom: 6,
+  },
+  activityRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    gap: 8,
+    paddingVertical: 3,
+  },
   deleteButton: {
     paddingHorizontal: 10,
     paddingVertical: 6,
@@ -16,6 +16,7 @@ import { useColors } from "@/hooks/use-colors";
 import { useThemeContext, type ThemePreference } from "@/lib/theme-provider";
 import { useDemo } from "@/lib/demo-context";
 import { useViewMode } from "@/lib/viewmode-context";
+import { useDataSource } from "@/lib/data-source-context";
 import { ViewModeToggle } from "@/components/ui/view-mode-toggle";
 import { IconSymbol } from "@/components/ui/icon-symbol";
 import {
@@ -57,6 +58,7 @@ export default function SettingsScreen() {
   const { preference, setPreference, isDark } = useThemeContext();
   const { state: demoState, resetDemo } = useDemo();
   const { mode } = useViewMode();
+  const { forceMock, setForceMock } = useDataSource();
 
   const [notifs, setNotifs] = useState<NotifState>({
     priceAlerts: true,
@@ -267,6 +269,25 @@ export default function SettingsScreen() {
             </View>
             <IconSymbol name="chevron.right" size={16} color={colors.muted} />
           </AnimatedPressable>
+          <AnimatedPressable
+            variant="card"
+            onPress={() => router.push("/notification-schedule")}
+            style={[
+              styles.row,
+              {
+                borderBottomWidth: StyleSheet.hairlineWidth,
+                borderBottomColor: colors.border,
+              },
+            ]}
+          >
+            <View style={styles.rowLeft}>
+              <View>
+                <Subhead style={{ fontFamily: FontFamily.medium, color: colors.primary }}>Delivery Schedule</Subhead>
+                <Caption1 color="muted" style={{ marginTop: 2 }}>Quiet hours, schedules and morning digest</Caption1>
+              </View>
+            </View>
+            <IconSymbol name="chevron.right" size={16} color={colors.muted} />
+          </AnimatedPressable>
           <NotifRow
             label="Daily Challenge"
             description="Reminder to complete your daily trading challenge"
@@ -308,6 +329,14 @@ export default function SettingsScreen() {
             colors={colors}
             isLast={false}
           />
+          <NotifRow
+            label="Demo Market Data"
+            description="Show simulated prices instead of live ATHEX quotes"
+            value={forceMock}
+            onToggle={() => setForceMock(!forceMock)}
+            colors={colors}
+            isLast={false}
+          />
           <SettingsRow
             label="Reset Demo Balance"
             value={`€${demoState.balance.toLocaleString()}`}
@@ -5,6 +5,8 @@
  * Grouped by date (Today, Yesterday, This Week, Earlier).
  * Each trade shows side indicator, ticker, shares, execution price,
  * and per-trade P&L computed against live prices.
+ * Signed-in users' open limit / stop orders are listed first and can be
+ * cancelled here; fills show up as ordinary trades.
  *
  * Animation: AGRX motion language applied —
  *   Header: FadeIn.duration(200)
@@ -22,6 +24,8 @@ import { ScreenContainer } from "@/components/screen-container";
 import { useColors, colorAlpha } from "@/hooks/use-colors";
 import { useDemo, type DemoTrade } from "@/lib/demo-context";
 import { useStockQuotes } from "@/hooks/use-stocks";
+import { useOrders, type PendingOrder } from "@/hooks/use-orders";
+import { OpenOrderRow } from "@/components/features/trading";
 import { IconSymbol } from "@/components/ui/icon-symbol";
 import {
   LargeTitle,
@@ -107,6 +111,7 @@ export default function TradeHistoryScreen() {
   const colors = useColors();
   const { state } = useDemo();
   const { stocks } = useStockQuotes();
+  const { openOrders, cancelOrder } = useOrders();
   const [filter, setFilter] = useState<TradeFilter>("all");
   const [sort, setSort] = useState<TradeSort>("newest");
 
@@ -170,11 +175,18 @@ export default function TradeHistoryScreen() {
 
   // Flatten for FlatList with section headers
   type ListItem =
-    | { kind: "header"; title: DateGroup; key: string }
+    | { kind: "header"; title: DateGroup | "Open Orders"; key: string }
+    | { kind: "order"; order: PendingOrder; key: string }
     | { kind: "trade"; trade: DemoTrade; key: string; index: number };
 
   const flatData = useMemo<ListItem[]>(() => {
     const result: ListItem[] = [];
+    if (openOrders.length > 0) {
+      result.push({ kind: "header", title: "Open Orders", key: "header-open-orders" });
+      for (const order of openOrders) {
+        result.push({ kind: "order", order, key: order.id });
+      }
+    }
     let tradeIndex = 0;
     for (const section of sections) {
       result.push({ kind: "header", title: section.title, key: `header-${section.title}` });
@@ -184,7 +196,7 @@ export default function TradeHistoryScreen() {
       }
     }
     return result;
-  }, [sections]);
+  }, [sections, openOrders]);
 
   // Summary stats
   const summaryStats = useMemo(() => {
@@ -262,6 +274,15 @@ export default function TradeHistoryScreen() {
         );
       }
 
+      if (listItem.kind === "order") {
+        return (
+          <OpenOrderRow
+            order={listItem.order}
+            onCancel={(order) => cancelOrder(order.id)}
+          />
+        );
+      }
+
       const { trade, index } = listItem;
       const isBuy = trade.type === "buy";
       const sideColor = isBuy ? colors.success : colors.error;
@@ -351,7 +372,7 @@ export default function TradeHistoryScreen() {
         </Animated.View>
       );
     },
-    [colors, getTradeP_L, handleTradePress]
+    [colors, getTradeP_L, handleTradePress, cancelOrder]
   );
 
   const totalPnLColor =
@@ -507,7 +528,7 @@ export default function TradeHistoryScreen() {
       )}
 
       {/* ── Empty State ── */}
-      {state.trades.length === 0 ? (
+      {state.trades.length === 0 && openOrders.length === 0 ? (
         <CDSEmptyState
           icon="clock"
           title="No Trades Yet"
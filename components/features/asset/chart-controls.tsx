@@ -0,0 +1,94 @@
+/**
+ * ChartControls — Pro chart style and indicator toggles
+ *
+ * A row of chips under the period selector: Line / Candles / OHLC, then one
+ * chip per indicator. Choices persist through the view mode context, so the
+ * same setup follows the user from stock to stock.
+ *
+ * Usage:
+ *   <ChartControls />
+ */
+import React from "react";
+import { ScrollView, StyleSheet, View } from "react-native";
+import Animated, { FadeInDown } from "react-native-reanimated";
+import { CDSChip } from "@/components/ui/cds-chip";
+import { useColors } from "@/hooks/use-colors";
+import { Spacing } from "@/constants/spacing";
+import { INDICATOR_DEFAULTS } from "@shared/indicators";
+import {
+  CHART_INDICATORS,
+  useViewMode,
+  type ChartIndicator,
+  type ChartStyle,
+} from "@/lib/viewmode-context";
+
+const STYLE_LABELS: Record<ChartStyle, string> = {
+  line: "Line",
+  candle: "Candles",
+  ohlc: "OHLC",
+};
+
+const INDICATOR_LABELS: Record<ChartIndicator, string> = {
+  volume: "Volume",
+  sma: `SMA ${INDICATOR_DEFAULTS.sma.period}`,
+  ema: `EMA ${INDICATOR_DEFAULTS.ema.period}`,
+  bollinger: "Bollinger",
+  rsi: "RSI",
+  macd: "MACD",
+};
+
+interface ChartControlsProps {
+  /** Animation delay in ms (default: 200) */
+  animationDelay?: number;
+}
+
+export function ChartControls({ animationDelay = 200 }: ChartControlsProps) {
+  const colors = useColors();
+  const { chart, setChartStyle, toggleIndicator } = useViewMode();
+
+  return (
+    <Animated.View entering={FadeInDown.duration(250).delay(animationDelay)} style={styles.container}>
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        contentContainerStyle={styles.chipList}
+      >
+        {(Object.keys(STYLE_LABELS) as ChartStyle[]).map((style) => (
+          <CDSChip
+            key={style}
+            label={STYLE_LABELS[style]}
+            selected={chart.style === style}
+            onPress={() => setChartStyle(style)}
+          />
+        ))}
+
+        <View style={[styles.divider, { backgroundColor: colors.border }]} />
+
+        {CHART_INDICATORS.map((indicator) => (
+          <CDSChip
+            key={indicator}
+            label={INDICATOR_LABELS[indicator]}
+            selected={chart.indicators.includes(indicator)}
+            onPress={() => toggleIndicator(indicator)}
+          />
+        ))}
+      </ScrollView>
+    </Animated.View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: Spacing[3],
+  },
+  chipList: {
+    paddingHorizontal: Spacing[4],
+    gap: Spacing[2],
+    alignItems: "center",
+  },
+  divider: {
+    width: StyleSheet.hairlineWidth,
+    height: 20,
+    marginHorizontal: Spacing[1],
+  },
+});
@@ -0,0 +1,3 @@
+export { AssetPriceChart } from "./price-chart";
+export { ChartControls } from "./chart-controls";
+export { MoveExplainerCard } from "./move-explainer-card";
@@ -0,0 +1,118 @@
+/**
+ * MoveExplainerCard — "Why is it moving" on the asset page
+ *
+ * Explains a sharp daily move with the articles it cites, next to the
+ * sector and ATHEX General Index moves. Marked "Unsure" when no article
+ * supports a reason. Hidden while the move is below the server's threshold.
+ *
+ * Usage:
+ *   <MoveExplainerCard ticker="ETE" explanation={explanation} />
+ */
+import React from "react";
+import { View, StyleSheet, Linking } from "react-native";
+import ReAnimated, { FadeInDown } from "react-native-reanimated";
+import { AnimatedPressable } from "@/components/ui/animated-pressable";
+import { useColors, colorAlpha } from "@/hooks/use-colors";
+import { Title3, Body, Caption1 } from "@/components/ui/typography";
+import { Caption2 } from "@/components/ui/cds-typography";
+import { FontFamily } from "@/constants/typography";
+import { Spacing, Radius } from "@/constants/spacing";
+import { formatChangePercent } from "@/lib/chart-scrub";
+import type { MoveExplanation } from "@/server/moveExplainerService";
+
+interface MoveExplainerCardProps {
+  ticker: string;
+  explanation: MoveExplanation | null;
+}
+
+export function MoveExplainerCard({ ticker, explanation }: MoveExplainerCardProps) {
+  const colors = useColors();
+
+  if (!explanation) return null;
+
+  const context = [
+    explanation.sectorChangePercent !== null
+      ? `${explanation.sector} ${formatChangePercent(explanation.sectorChangePercent)}`
+      : null,
+    explanation.indexChangePercent !== null
+      ? `ATHEX ${formatChangePercent(explanation.indexChangePercent)}`
+      : null,
+  ].filter((part): part is string => part !== null);
+
+  return (
+    <ReAnimated.View entering={FadeInDown.duration(250).delay(270)} style={styles.section}>
+      <View style={styles.titleRow}>
+        <Title3>Why is {ticker} moving?</Title3>
+        {!explanation.supported && (
+          <View style={[styles.unsureBadge, { backgroundColor: colorAlpha(colors.warning, 0.12) }]}>
+            <Caption2 style={{ color: colors.warning, fontFamily: FontFamily.semibold }}>Unsure</Caption2>
+          </View>
+        )}
+      </View>
+      <View
+        style={[
+          styles.card,
+          { backgroundColor: colors.surface, borderColor: colors.border },
+        ]}
+      >
+        <Body style={{ lineHeight: 22 }}>{explanation.text}</Body>
+
+        {context.length > 0 && (
+          <Caption1 color="muted" style={{ fontFamily: FontFamily.medium, marginTop: Spacing[2] }}>
+            {context.join(" · ")}
+          </Caption1>
+        )}
+
+        {explanation.sources.length > 0 && (
+          <View style={[styles.sources, { borderTopColor: colors.border }]}>
+            {explanation.sources.map((source, index) => (
+              <AnimatedPressable
+                key={source.url}
+                variant="card"
+                onPress={() => {
+                  Linking.openURL(source.url).catch(() => {});
+                }}
+                accessibilityLabel={`Read article: ${source.title}`}
+                accessibilityHint={`Opens in browser from ${source.source}`}
+              >
+                <Caption1 color="muted" style={{ fontFamily: FontFamily.medium }} numberOfLines={2}>
+                  {index + 1}. <Caption1 color="primary" style={{ fontFamily: FontFamily.semibold }}>{source.source}</Caption1>{" "}
+                  {source.title}
+                </Caption1>
+              </AnimatedPressable>
+            ))}
+          </View>
+        )}
+      </View>
+    </ReAnimated.View>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: {
+    paddingHorizontal: Spacing[4],
+    marginBottom: Spacing[5],
+  },
+  titleRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing[2],
+    marginBottom: Spacing[3],
+  },
+  unsureBadge: {
+    paddingHorizontal: Spacing[2],
+    paddingVertical: 2,
+    borderRadius: Radius[200],
+  },
+  card: {
+    borderRadius: Radius[400],
+    borderWidth: 1,
+    padding: Spacing[4],
+  },
+  sources: {
+    marginTop: Spacing[3],
+    paddingTop: Spacing[3],
+    borderTopWidth: StyleSheet.hairlineWidth,
+    gap: Spacing[2],
+  },
+});
@@ -0,0 +1,236 @@
+/**
+ * AssetPriceChart — Price chart with Pro indicators for the asset screen
+ *
+ * Renders the line, candlestick or OHLC view chosen in the view mode
+ * context, with SMA / EMA / Bollinger overlays on the price scale and
+ * volume, RSI and MACD sub-panes underneath. Indicator values come from
+ * shared/indicators so they match what the server and alert rules compute.
+ * Press-and-drag on the price chart scrubs it; `onScrub` reports the point.
+ * With `newsSentiment`, a NEWS pane shows each bar's daily news sentiment,
+ * so news can be read against the price moves above it.
+ *
+ * Usage:
+ *   <AssetPriceChart
+ *     closes={chartData}
+ *     bars={bars}
+ *     positive={change >= 0}
+ *     chart={activeChart}
+ *   />
+ */
+import React, { useMemo } from "react";
+import { View, StyleSheet } from "react-native";
+import { useColors, colorAlpha } from "@/hooks/use-colors";
+import { CDSLineChart, type ChartOverlay } from "@/components/ui/cds-line-chart";
+import { CDSCandlestickChart } from "@/components/ui/cds-candlestick-chart";
+import { CDSIndicatorPane } from "@/components/ui/cds-indicator-pane";
+import { Caption2 } from "@/components/ui/typography";
+import { Spacing } from "@/constants/spacing";
+import type { ChartPreferences } from "@/lib/viewmode-context";
+import type { ChartScrub } from "@/lib/chart-scrub";
+import type { ChartDataPoint } from "@/server/stockService";
+import {
+  INDICATOR_DEFAULTS,
+  bollingerBands,
+  ema,
+  lastValue,
+  macd,
+  rsi,
+  sma,
+} from "@shared/indicators";
+
+interface AssetPriceChartProps {
+  /** Closing prices, one per bar */
+  closes: number[];
+  /** OHLCV bars matching `closes` */
+  bars: ChartDataPoint[];
+  positive: boolean;
+  chart: ChartPreferences;
+  height?: number;
+  /** Called with the scrubbed point, and null on release */
+  onScrub?: (scrub: ChartScrub | null) => void;
+  /** News sentiment score (-1 to 1) per bar, null without news */
+  newsSentiment?: (number | null)[];
+}
+
+const PANE_HEIGHT = 56;
+const RSI_LEVELS = [30, 70];
+const RSI_DOMAIN: [number, number] = [0, 100];
+const MACD_ZERO = [0];
+const SENTIMENT_DOMAIN: [number, number] = [-1, 1];
+
+export function AssetPriceChart({
+  closes,
+  bars,
+  positive,
+  chart,
+  height = 200,
+  onScrub,
+  newsSentiment,
+}: AssetPriceChartProps) {
+  const colors = useColors();
+  const show = (indicator: ChartPreferences["indicators"][number]) => chart.indicators.includes(indicator);
+  // Candles need real OHLC; fall back to the line when bars don't match the closes
+  const style = bars.length === closes.length ? chart.style : "line";
+
+  const overlays = useMemo(() => {
+    const lines: ChartOverlay[] = [];
+    if (chart.indicators.includes("bollinger")) {
+      const bands = bollingerBands(closes);
+      lines.push(
+        { values: bands.upper, color: colors.warning, strokeWidth: 1 },
+        { values: bands.middle, color: colors.warning, strokeWidth: 1, dashed: true },
+        { values: bands.lower, color: colors.warning, strokeWidth: 1 }
+      );
+    }
+    if (chart.indicators.includes("sma")) {
+      lines.push({ values: sma(closes), color: colors.primary });
+    }
+    if (chart.indicators.includes("ema")) {
+      lines.push({ values: ema(closes), color: colors.accent });
+    }
+    return lines;
+  }, [closes, chart.indicators, colors.warning, colors.primary, colors.accent]);
+
+  const volumeHistogram = useMemo(
+    () => ({
+      values: bars.map((b) => b.volume),
+      colors: bars.map((b) => colorAlpha(b.close >= b.open ? colors.success : colors.error, 0.5)),
+    }),
+    [bars, colors.success, colors.error]
+  );
+
+  const sentimentHistogram = useMemo(
+    () =>
+      newsSentiment && newsSentiment.length === bars.length && newsSentiment.some((s) => s !== null)
+        ? {
+            values: newsSentiment,
+            colors: newsSentiment.map((s) => (s !== null && s > 0 ? colors.success : s !== null && s < 0 ? colors.error : colors.muted)),
+          }
+        : null,
+    [newsSentiment, bars.length, colors.success, colors.error, colors.muted]
+  );
+
+  const rsiSeries = useMemo(() => (chart.indicators.includes("rsi") ? rsi(closes) : null), [closes, chart.indicators]);
+
+  const macdSeries = useMemo(() => {
+    if (!chart.indicators.includes("macd")) return null;
+    const result = macd(closes);
+    return {
+      result,
+      histogram: {
+        values: result.histogram,
+        colors: result.histogram.map((v) => colorAlpha((v ?? 0) >= 0 ? colors.success : colors.error, 0.5)),
+      },
+      lines: [
+        { values: result.macd, color: colors.primary },
+        { values: result.signal, color: colors.warning },
+      ] as ChartOverlay[],
+    };
+  }, [closes, chart.indicators, colors.success, colors.error, colors.primary, colors.warning]);
+
+  const rsiLines = useMemo<ChartOverlay[]>(
+    () => (rsiSeries ? [{ values: rsiSeries, color: colors.accent }] : []),
+    [rsiSeries, colors.accent]
+  );
+
+  const latestRsi = rsiSeries ? lastValue(rsiSeries) : null;
+  const latestMacd = macdSeries ? lastValue(macdSeries.result.macd) : null;
+
+  return (
+    <View style={styles.container}>
+      {style === "line" ? (
+        <CDSLineChart
+          data={closes}
+          height={height}
+          positive={positive}
+          showGradient={overlays.length === 0}
+          smooth={true}
+          showDots={false}
+          showGrid={true}
+          gridLines={5}
+          overlays={overlays}
+          scrubbable={true}
+          bars={bars.length === closes.length ? bars : undefined}
+          onScrub={onScrub}
+        />
+      ) : (
+        <CDSCandlestickChart
+          bars={bars}
+          variant={style}
+          height={height}
+          showGrid={true}
+          gridLines={5}
+          overlays={overlays}
+          scrubbable={true}
+          onScrub={onScrub}
+        />
+      )}
+
+      {show("volume") && bars.length === closes.length && (
+        <View style={styles.pane}>
+          <Caption2 color="muted" style={styles.paneLabel}>VOL</Caption2>
+          <CDSIndicatorPane count={bars.length} histogram={volumeHistogram} height={PANE_HEIGHT} />
+        </View>
+      )}
+
+      {sentimentHistogram && (
+        <View style={styles.pane}>
+          <Caption2 color="muted" style={styles.paneLabel}>NEWS SENTIMENT</Caption2>
+          <CDSIndicatorPane
+            count={bars.length}
+            histogram={sentimentHistogram}
+            referenceLines={MACD_ZERO}
+            domain={SENTIMENT_DOMAIN}
+            height={PANE_HEIGHT}
+          />
+        </View>
+      )}
+
+      {rsiSeries && (
+        <View style={styles.pane}>
+          <Caption2 color="muted" style={styles.paneLabel}>
+            RSI {INDICATOR_DEFAULTS.rsi.period}
+            {latestRsi !== null ? ` · ${latestRsi.toFixed(1)}` : ""}
+          </Caption2>
+          <CDSIndicatorPane
+            count={closes.length}
+            lines={rsiLines}
+            referenceLines={RSI_LEVELS}
+            domain={RSI_DOMAIN}
+            height={PANE_HEIGHT}
+          />
+        </View>
+      )}
+
+      {macdSeries && (
+        <View style={styles.pane}>
+          <Caption2 color="muted" style={styles.paneLabel}>
+            MACD {INDICATOR_DEFAULTS.macd.fast},{INDICATOR_DEFAULTS.macd.slow},{INDICATOR_DEFAULTS.macd.signal}
+            {latestMacd !== null ? ` · ${latestMacd.toFixed(3)}` : ""}
+          </Caption2>
+          <CDSIndicatorPane
+            count={closes.length}
+            histogram={macdSeries.histogram}
+            lines={macdSeries.lines}
+            referenceLines={MACD_ZERO}
+            height={PANE_HEIGHT}
+          />
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    width: "100%",
+  },
+  pane: {
+    width: "100%",
+    marginTop: Spacing[1],
+  },
+  paneLabel: {
+    // Aligned with the plot area, past the chart's left padding
+    paddingLeft: Spacing[12],
+  },
+});
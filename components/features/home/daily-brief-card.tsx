@@ -0,0 +1,180 @@
+/**
+ * DailyBriefCard — AI daily market brief
+ *
+ * Shows the latest brief: headline, three bullets, the stocks it mentions
+ * with their moves on the day, and the articles it cites. Hidden until a
+ * brief has been written.
+ *
+ * Usage:
+ *   <DailyBriefCard brief={brief} isLoading={false} />
+ */
+import React from "react";
+import { View, StyleSheet, Linking } from "react-native";
+import Animated, { FadeInDown } from "react-native-reanimated";
+import { useRouter } from "expo-router";
+import { SectionHeader } from "@/components/ui/section-header";
+import { AnimatedPressable } from "@/components/ui/animated-pressable";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useColors } from "@/hooks/use-colors";
+import { Caption1 } from "@/components/ui/typography";
+import { Footnote, Subhead } from "@/components/ui/cds-typography";
+import { FontFamily } from "@/constants/typography";
+import { formatChangePercent } from "@/lib/chart-scrub";
+import type { DailyBrief } from "@/server/dailyBriefService";
+
+interface DailyBriefCardProps {
+  brief: DailyBrief | null;
+  isLoading: boolean;
+}
+
+/** "Mon 16 Feb" from "2026-02-16" */
+function formatBriefDay(day: string): string {
+  const [year, month, date] = day.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, date)).toLocaleDateString("en-GB", {
+    weekday: "short",
+    day: "numeric",
+    month: "short",
+    timeZone: "UTC",
+  });
+}
+
+export function DailyBriefCard({ brief, isLoading }: DailyBriefCardProps) {
+  const colors = useColors();
+  const router = useRouter();
+
+  if (isLoading) {
+    return (
+      <Animated.View entering={FadeInDown.duration(250).delay(200)} style={styles.section}>
+        <SectionHeader title="Daily Brief" />
+        <View style={[styles.card, { backgroundColor: colors.surface, borderColor: colors.border }]}>
+          <Skeleton width="90%" height={16} borderRadius={4} />
+          {[1, 2, 3].map((i) => (
+            <Skeleton key={i} width="100%" height={12} borderRadius={4} style={{ marginTop: 10 }} />
+          ))}
+        </View>
+      </Animated.View>
+    );
+  }
+
+  if (!brief) return null;
+
+  return (
+    <Animated.View entering={FadeInDown.duration(250).delay(200)} style={styles.section}>
+      <SectionHeader title="Daily Brief" />
+      <View style={[styles.card, { backgroundColor: colors.surface, borderColor: colors.border }]}>
+        <Caption1 color="muted" style={{ fontFamily: FontFamily.medium }}>
+          ATHEX · {formatBriefDay(brief.day)}
+        </Caption1>
+        <Subhead style={{ fontFamily: FontFamily.semibold, lineHeight: 20, marginTop: 4 }}>
+          {brief.headline}
+        </Subhead>
+
+        <View style={styles.bullets}>
+          {brief.bullets.map((bullet, index) => (
+            <View key={index} style={styles.bulletRow}>
+              <View style={[styles.bulletDot, { backgroundColor: colors.primary }]} />
+              <Footnote style={{ flex: 1, fontFamily: FontFamily.regular, lineHeight: 18 }}>{bullet}</Footnote>
+            </View>
+          ))}
+        </View>
+
+        {brief.stocks.length > 0 && (
+          <View style={styles.stockRow}>
+            {brief.stocks.map((stock) => (
+              <AnimatedPressable
+                key={stock.stockId}
+                variant="chip"
+                onPress={() =>
+                  router.push({
+                    pathname: "/asset/[id]" as any,
+                    params: { id: stock.stockId },
+                  })
+                }
+                style={[styles.stockChip, { borderColor: colors.border }]}
+                accessibilityLabel={`${stock.name} ${formatChangePercent(stock.changePercent)}`}
+                accessibilityHint="Opens the stock"
+              >
+                <Caption1 style={{ fontFamily: FontFamily.semibold }}>{stock.ticker}</Caption1>
+                <Caption1
+                  color={stock.changePercent >= 0 ? "success" : "error"}
+                  style={{ fontFamily: FontFamily.semibold }}
+                >
+                  {formatChangePercent(stock.changePercent)}
+                </Caption1>
+              </AnimatedPressable>
+            ))}
+          </View>
+        )}
+
+        {brief.sources.length > 0 && (
+          <View style={[styles.sources, { borderTopColor: colors.border }]}>
+            {brief.sources.map((source, index) => (
+              <AnimatedPressable
+                key={source.url}
+                variant="card"
+                onPress={() => {
+                  Linking.openURL(source.url).catch(() => {});
+                }}
+                accessibilityLabel={`Read article: ${source.title}`}
+                accessibilityHint={`Opens in browser from ${source.source}`}
+              >
+                <Caption1 color="muted" style={{ fontFamily: FontFamily.medium }} numberOfLines={1}>
+                  {index + 1}. <Caption1 color="primary" style={{ fontFamily: FontFamily.semibold }}>{source.source}</Caption1>{" "}
+                  {source.title}
+                </Caption1>
+              </AnimatedPressable>
+            ))}
+          </View>
+        )}
+      </View>
+    </Animated.View>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: {
+    marginTop: 20,
+  },
+  card: {
+    marginHorizontal: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    padding: 14,
+  },
+  bullets: {
+    marginTop: 10,
+    gap: 8,
+  },
+  bulletRow: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+    gap: 8,
+  },
+  bulletDot: {
+    width: 5,
+    height: 5,
+    borderRadius: 3,
+    marginTop: 7,
+  },
+  stockRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 6,
+    marginTop: 12,
+  },
+  stockChip: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+  },
+  sources: {
+    marginTop: 12,
+    paddingTop: 10,
+    borderTopWidth: StyleSheet.hairlineWidth,
+    gap: 6,
+  },
+});
@@ -22,6 +22,7 @@ interface HomeHeaderProps {
   userName: string;
   isPro: boolean;
   isLive: boolean;
+  isStale?: boolean;
   lastUpdated?: number | null;
   userStreak: number;
   unreadCount: number;
@@ -32,6 +33,7 @@ export function HomeHeader({
   userName,
   isPro,
   isLive,
+  isStale,
   lastUpdated,
   userStreak,
   unreadCount,
@@ -65,7 +67,7 @@ export function HomeHeader({
 
         {/* Right: Badges + Actions */}
         <View style={styles.headerActions}>
-          {isPro && <LiveBadge isLive={isLive} lastUpdated={lastUpdated} />}
+          {isPro && <LiveBadge isLive={isLive} isStale={isStale} lastUpdated={lastUpdated} />}
           {isPro && userStreak > 0 && (
             <View
               style={[styles.streakBadge, { backgroundColor: colors.warningAlpha }]}
@@ -3,6 +3,7 @@ export { PortfolioHero } from "./portfolio-hero";
 export { QuickStats } from "./quick-stats";
 export { QuickActions } from "./quick-actions";
 export { DailyChallengeCard } from "./daily-challenge-card";
+export { DailyBriefCard } from "./daily-brief-card";
 export { WatchlistSection } from "./watchlist-section";
 export { TrendingSection } from "./trending-section";
 export { MarketNewsSection } from "./market-news-section";
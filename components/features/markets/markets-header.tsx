@@ -1,7 +1,8 @@
 /**
  * MarketsHeader — Markets screen header with live badge and market status
  *
- * Displays title, live badge, and ATHEX market status (open/closed) with colored indicator.
+ * Displays title, live badge, and ATHEX market status (session phase or holiday)
+ * with colored indicator.
  *
  * Usage:
  *   <MarketsHeader
@@ -19,20 +20,29 @@ import { Title1 } from "@/components/ui/cds-typography";
 import { FontFamily } from "@/constants/typography";
 import { LiveBadge } from "@/components/ui/live-badge";
 
+const PHASE_LABELS = {
+  pre_open: "ATHEX Pre-open",
+  continuous: "ATHEX Open",
+  closing_auction: "ATHEX Closing auction",
+  closed: "ATHEX Closed",
+} as const;
+
 interface MarketsHeaderProps {
   isLive: boolean;
+  isStale?: boolean;
   lastUpdated?: number | null;
 }
 
-export function MarketsHeader({ isLive, lastUpdated }: MarketsHeaderProps) {
+export function MarketsHeader({ isLive, isStale, lastUpdated }: MarketsHeaderProps) {
   const colors = useColors();
-  const { isMarketOpen } = useMarketStatus();
+  const { isMarketOpen, phase, holiday } = useMarketStatus();
+  const statusLabel = holiday ? `ATHEX Closed · ${holiday}` : PHASE_LABELS[phase];
 
   return (
     <Animated.View entering={FadeIn.duration(200)} style={styles.container}>
       <Title1>Markets</Title1>
       <View style={styles.headerRight}>
-        <LiveBadge isLive={isLive} lastUpdated={lastUpdated} />
+        <LiveBadge isLive={isLive} isStale={isStale} lastUpdated={lastUpdated} />
         <View style={styles.marketStatus}>
           <View
             style={[
@@ -48,7 +58,7 @@ export function MarketsHeader({ isLive, lastUpdated }: MarketsHeaderProps) {
             color={isMarketOpen ? "success" : "muted"}
             style={{ fontFamily: FontFamily.semibold }}
           >
-            {isMarketOpen ? "ATHEX Open" : "ATHEX Closed"}
+            {statusLabel}
           </Caption1>
         </View>
       </View>
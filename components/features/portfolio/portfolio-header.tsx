@@ -27,6 +27,7 @@ interface PortfolioHeaderProps {
   holdingCount: number;
   hasHoldings: boolean;
   isLive: boolean;
+  isStale?: boolean;
   lastUpdated?: number | null;
   onShare: () => void;
 }
@@ -35,6 +36,7 @@ export function PortfolioHeader({
   holdingCount,
   hasHoldings,
   isLive,
+  isStale,
   lastUpdated,
   onShare,
 }: PortfolioHeaderProps) {
@@ -66,7 +68,7 @@ export function PortfolioHeader({
             <IconSymbol name="square.and.arrow.up" size={18} color={colors.primary} />
           </AnimatedPressable>
         )}
-        <LiveBadge isLive={isLive} lastUpdated={lastUpdated} />
+        <LiveBadge isLive={isLive} isStale={isStale} lastUpdated={lastUpdated} />
       </View>
     </Animated.View>
   );
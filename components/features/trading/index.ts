@@ -3,3 +3,5 @@ export { AmountInput } from "./amount-input";
 export { QuickAmountChips } from "./quick-amount-chips";
 export { OrderPreview } from "./order-preview";
 export { TradeSuccessScreen } from "./trade-success-screen";
+export { OrderTypeSelector, type OrderKind } from "./order-type-selector";
+export { OpenOrderRow } from "./open-order-row";
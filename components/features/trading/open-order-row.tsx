@@ -0,0 +1,140 @@
+/**
+ * OpenOrderRow — A resting limit / stop / stop-limit order
+ *
+ * Side badge, ticker, share count and price terms, with optional
+ * Edit and Cancel actions. Closed orders show their final status instead.
+ * Uses design tokens for all colors and spacing.
+ */
+import React from "react";
+import { View, StyleSheet } from "react-native";
+import { AnimatedPressable } from "@/components/ui/animated-pressable";
+import { useColors, colorAlpha } from "@/hooks/use-colors";
+import { MonoSubhead } from "@/components/ui/typography";
+import { Footnote, Caption1 } from "@/components/ui/cds-typography";
+import { FontFamily } from "@/constants/typography";
+import { Spacing, Radius } from "@/constants/spacing";
+import { describeOrderTerms, type PendingOrder } from "@/hooks/use-orders";
+
+interface OpenOrderRowProps {
+  order: PendingOrder;
+  onEdit?: (order: PendingOrder) => void;
+  onCancel?: (order: PendingOrder) => void;
+}
+
+const STATUS_LABELS: Record<PendingOrder["status"], string> = {
+  open: "Open",
+  filled: "Filled",
+  cancelled: "Cancelled",
+  expired: "Expired",
+  rejected: "Rejected",
+};
+
+function formatExpiry(order: PendingOrder): string {
+  if (order.timeInForce === "gtc") return "GTC";
+  if (!order.expiresAt) return "Day";
+  const date = new Date(order.expiresAt);
+  const minutes = date.getMinutes().toString().padStart(2, "0");
+  return `Day · until ${date.getHours()}:${minutes}`;
+}
+
+export function OpenOrderRow({ order, onEdit, onCancel }: OpenOrderRowProps) {
+  const colors = useColors();
+  const isBuy = order.side === "buy";
+  const sideColor = isBuy ? colors.success : colors.error;
+  const isOpen = order.status === "open";
+
+  return (
+    <View style={[styles.container, { borderBottomColor: colors.foregroundAlpha4 }]}>
+      <View style={[styles.sideBadge, { backgroundColor: colorAlpha(sideColor, 0.10) }]}>
+        <Caption1
+          style={{ fontFamily: FontFamily.bold, fontSize: 9, letterSpacing: 0.5, color: sideColor }}
+        >
+          {isBuy ? "BUY" : "SELL"}
+        </Caption1>
+      </View>
+
+      <View style={styles.info}>
+        <View style={styles.titleRow}>
+          <Footnote style={{ fontFamily: FontFamily.semibold, color: colors.foreground }}>
+            {order.ticker}
+          </Footnote>
+          <MonoSubhead style={{ fontSize: 12, color: colors.muted }}>
+            {order.shares.toFixed(order.shares % 1 === 0 ? 0 : 4)} sh
+          </MonoSubhead>
+        </View>
+        <Caption1 style={{ color: colors.muted, fontSize: 11 }} numberOfLines={1}>
+          {describeOrderTerms(order)}
+          {order.stopTriggered && isOpen ? " · triggered" : ""}
+          {" · "}
+          {isOpen ? formatExpiry(order) : STATUS_LABELS[order.status]}
+        </Caption1>
+        {order.status === "rejected" && order.statusReason && (
+          <Caption1 style={{ color: colors.error, fontSize: 11 }} numberOfLines={2}>
+            {order.statusReason}
+          </Caption1>
+        )}
+      </View>
+
+      {isOpen && (onEdit || onCancel) && (
+        <View style={styles.actions}>
+          {onEdit && (
+            <AnimatedPressable
+              variant="chip"
+              onPress={() => onEdit(order)}
+              style={[styles.actionButton, { backgroundColor: colors.foregroundAlpha4 }]}
+            >
+              <Footnote style={{ fontFamily: FontFamily.semibold, fontSize: 12, color: colors.foreground }}>
+                Edit
+              </Footnote>
+            </AnimatedPressable>
+          )}
+          {onCancel && (
+            <AnimatedPressable
+              variant="chip"
+              onPress={() => onCancel(order)}
+              style={[styles.actionButton, { backgroundColor: colorAlpha(colors.error, 0.08) }]}
+            >
+              <Footnote style={{ fontFamily: FontFamily.semibold, fontSize: 12, color: colors.error }}>
+                Cancel
+              </Footnote>
+            </AnimatedPressable>
+          )}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: Spacing[4],
+    paddingVertical: Spacing[3],
+    gap: Spacing[3],
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  sideBadge: {
+    paddingHorizontal: 6,
+    paddingVertical: 3,
+    borderRadius: Radius[100],
+  },
+  info: {
+    flex: 1,
+    gap: 2,
+  },
+  titleRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing[2],
+  },
+  actions: {
+    flexDirection: "row",
+    gap: Spacing[2],
+  },
+  actionButton: {
+    paddingHorizontal: Spacing[3],
+    paddingVertical: 5,
+    borderRadius: Radius.xl,
+  },
+});
@@ -0,0 +1,221 @@
+/**
+ * OrderTypeSelector — Market / Limit / Stop / Stop-limit picker
+ *
+ * Row of order type chips. For pending types it shows the trigger price
+ * inputs the type needs and a Day / GTC time-in-force toggle.
+ * Uses design tokens for all colors and spacing.
+ *
+ * Usage:
+ *   <OrderTypeSelector
+ *     orderType="limit"
+ *     onOrderTypeChange={setOrderType}
+ *     limitPrice={limitText}
+ *     onLimitPriceChange={setLimitText}
+ *     stopPrice={stopText}
+ *     onStopPriceChange={setStopText}
+ *     timeInForce="gtc"
+ *     onTimeInForceChange={setTimeInForce}
+ *     isBuy
+ *   />
+ */
+import React from "react";
+import { View, TextInput, ScrollView, StyleSheet, Platform } from "react-native";
+import * as Haptics from "expo-haptics";
+import { AnimatedPressable } from "@/components/ui/animated-pressable";
+import { CDSSegmentedTabs } from "@/components/ui/cds-segmented-tabs";
+import { useColors, colorAlpha } from "@/hooks/use-colors";
+import { Footnote } from "@/components/ui/cds-typography";
+import { FontFamily } from "@/constants/typography";
+import { Spacing, Radius } from "@/constants/spacing";
+import type { OrderType, TimeInForce } from "@/hooks/use-orders";
+
+export type OrderKind = "market" | OrderType;
+
+const ORDER_KINDS: { kind: OrderKind; label: string }[] = [
+  { kind: "market", label: "Market" },
+  { kind: "limit", label: "Limit" },
+  { kind: "stop", label: "Stop" },
+  { kind: "stop_limit", label: "Stop-limit" },
+];
+
+interface OrderTypeSelectorProps {
+  orderType: OrderKind;
+  onOrderTypeChange: (orderType: OrderKind) => void;
+  limitPrice: string;
+  onLimitPriceChange: (text: string) => void;
+  stopPrice: string;
+  onStopPriceChange: (text: string) => void;
+  timeInForce: TimeInForce;
+  onTimeInForceChange: (timeInForce: TimeInForce) => void;
+  isBuy: boolean;
+  /** Hide the chips and lock the type (e.g. when editing an existing order) */
+  lockType?: boolean;
+}
+
+interface PriceFieldProps {
+  label: string;
+  value: string;
+  onChange: (text: string) => void;
+  colors: ReturnType<typeof useColors>;
+}
+
+function PriceField({ label, value, onChange, colors }: PriceFieldProps) {
+  return (
+    <View
+      style={[
+        styles.priceField,
+        { backgroundColor: colors.foregroundAlpha4, borderColor: colors.foregroundAlpha8 },
+      ]}
+    >
+      <Footnote style={{ color: colors.muted, fontSize: 12 }}>{label}</Footnote>
+      <View style={styles.priceInputRow}>
+        <Footnote style={{ fontFamily: FontFamily.mono, color: colors.muted }}>€</Footnote>
+        <TextInput
+          value={value}
+          onChangeText={(text) => {
+            const cleaned = text.replace(/[^0-9.]/g, "");
+            const parts = cleaned.split(".");
+            if (parts.length > 2 || (parts[1]?.length ?? 0) > 4) return;
+            onChange(cleaned);
+          }}
+          keyboardType="decimal-pad"
+          placeholder="0.00"
+          placeholderTextColor={colors.muted}
+          style={[styles.priceInput, { color: colors.foreground }]}
+        />
+      </View>
+    </View>
+  );
+}
+
+export function OrderTypeSelector({
+  orderType,
+  onOrderTypeChange,
+  limitPrice,
+  onLimitPriceChange,
+  stopPrice,
+  onStopPriceChange,
+  timeInForce,
+  onTimeInForceChange,
+  isBuy,
+  lockType = false,
+}: OrderTypeSelectorProps) {
+  const colors = useColors();
+  const accentColor = isBuy ? colors.success : colors.error;
+
+  const handlePress = (kind: OrderKind) => {
+    if (Platform.OS !== "web") {
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    }
+    onOrderTypeChange(kind);
+  };
+
+  const showLimit = orderType === "limit" || orderType === "stop_limit";
+  const showStop = orderType === "stop" || orderType === "stop_limit";
+
+  return (
+    <View style={styles.container}>
+      {!lockType && (
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          contentContainerStyle={styles.scrollContent}
+        >
+          {ORDER_KINDS.map(({ kind, label }) => {
+            const isSelected = orderType === kind;
+            return (
+              <AnimatedPressable
+                key={kind}
+                variant="chip"
+                onPress={() => handlePress(kind)}
+                style={[
+                  styles.chip,
+                  {
+                    backgroundColor: isSelected
+                      ? colorAlpha(accentColor, 0.10)
+                      : colors.foregroundAlpha4,
+                    borderColor: isSelected
+                      ? colorAlpha(accentColor, 0.20)
+                      : colors.foregroundAlpha8,
+                  },
+                ]}
+              >
+                <Footnote
+                  style={{
+                    fontFamily: FontFamily.semibold,
+                    color: isSelected ? accentColor : colors.foreground,
+                    fontSize: 13,
+                  }}
+                >
+                  {label}
+                </Footnote>
+              </AnimatedPressable>
+            );
+          })}
+        </ScrollView>
+      )}
+
+      {orderType !== "market" && (
+        <View style={styles.terms}>
+          <View style={styles.priceRow}>
+            {showStop && (
+              <PriceField label="Stop price" value={stopPrice} onChange={onStopPriceChange} colors={colors} />
+            )}
+            {showLimit && (
+              <PriceField label="Limit price" value={limitPrice} onChange={onLimitPriceChange} colors={colors} />
+            )}
+          </View>
+          <CDSSegmentedTabs
+            options={["Day", "Good till cancelled"]}
+            selected={timeInForce === "day" ? 0 : 1}
+            onChange={(index) => onTimeInForceChange(index === 0 ? "day" : "gtc")}
+            colorType="primary"
+          />
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: Spacing[2],
+  },
+  scrollContent: {
+    paddingHorizontal: Spacing[4],
+    gap: Spacing[2],
+  },
+  chip: {
+    paddingHorizontal: Spacing[4],
+    paddingVertical: 7,
+    borderRadius: Radius.xl,
+    borderWidth: 1,
+  },
+  terms: {
+    marginTop: Spacing[3],
+    marginHorizontal: Spacing[4],
+    gap: Spacing[2],
+  },
+  priceRow: {
+    flexDirection: "row",
+    gap: Spacing[2],
+  },
+  priceField: {
+    flex: 1,
+    paddingHorizontal: Spacing[3],
+    paddingVertical: Spacing[2],
+    borderRadius: Radius[300],
+    borderWidth: 1,
+  },
+  priceInputRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+  },
+  priceInput: {
+    flex: 1,
+    fontFamily: FontFamily.monoMedium,
+    fontSize: 17,
+    paddingVertical: 2,
+  },
+});
@@ -2,7 +2,9 @@
  * Add Price Alert Modal
  *
  * Bottom sheet-style modal for creating a new price alert.
- * Shows current price, allows selecting alert type and threshold.
+ * Shows current price, allows selecting alert type and threshold, and can
+ * backtest the alert on the last 3 months before it is saved.
+ * Alerts are saved to the user's account, so saving needs a sign-in.
  */
 import React, { useState, useCallback } from "react";
 import {
@@ -14,6 +16,7 @@ import {
   KeyboardAvoidingView,
 } from "react-native";
 import { useColors, colorAlpha } from "@/hooks/use-colors";
+import { AlertBacktestRow } from "@/components/ui/alert-backtest";
 import { AnimatedPressable } from "@/components/ui/animated-pressable";
 import { CDSButton } from "@/components/ui/cds-button";
 import { IconSymbol } from "@/components/ui/icon-symbol";
@@ -39,7 +42,9 @@ interface AddAlertModalProps {
   currentPrice: number;
 }
 
-const ALERT_TYPES: { type: AlertType; label: string; icon: string; description: string }[] = [
+type StockAlertType = Extract<AlertType, "above" | "below" | "percent_change">;
+
+const ALERT_TYPES: { type: StockAlertType; label: string; icon: string; description: string }[] = [
   {
     type: "above",
     label: "Price Above",
@@ -70,9 +75,9 @@ export function AddAlertModal({
   currentPrice,
 }: AddAlertModalProps) {
   const colors = useColors();
-  const { addPriceAlert, hasPermission, requestPermission } = useNotifications();
+  const { addPriceAlert, canManageAlerts, hasPermission, requestPermission } = useNotifications();
 
-  const [selectedType, setSelectedType] = useState<AlertType>("above");
+  const [selectedType, setSelectedType] = useState<StockAlertType>("above");
   const [threshold, setThreshold] = useState("");
   const [loading, setLoading] = useState(false);
 
@@ -290,11 +295,24 @@ export function AddAlertModal({
             </View>
           </View>
 
+          <AlertBacktestRow
+            stockId={stockId}
+            type={selectedType}
+            threshold={isValid() ? parseFloat(threshold) : undefined}
+            disabled={!isValid() || !canManageAlerts}
+          />
+
+          {!canManageAlerts && (
+            <Caption1 color="muted" style={{ textAlign: "center", marginBottom: 8 }}>
+              Sign in to save price alerts to your account and get them on all your devices.
+            </Caption1>
+          )}
+
           {/* Save Button */}
           <CDSButton
             variant="primary"
             onPress={handleSave}
-            disabled={!isValid() || loading}
+            disabled={!isValid() || loading || !canManageAlerts}
             loading={loading}
             accessibilityLabel="Set price alert"
             accessibilityHint="Creates a new price alert for the selected stock"
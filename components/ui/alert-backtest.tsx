@@ -0,0 +1,127 @@
+/**
+ * Alert Backtest
+ *
+ * "Backtest" action for the alert sheets: replays the stock's last 3 months
+ * of daily bars through the server's alert check and says how often the
+ * alert being set up would have fired. The result is cleared whenever the
+ * alert changes.
+ */
+import React, { useState, useCallback, useEffect } from "react";
+import { View, StyleSheet } from "react-native";
+import { useColors, colorAlpha } from "@/hooks/use-colors";
+import { AnimatedPressable } from "@/components/ui/animated-pressable";
+import { Caption1, Subhead } from "@/components/ui/typography";
+import { FontFamily } from "@/constants/typography";
+import { Radius } from "@/constants/spacing";
+import { trpc } from "@/lib/trpc";
+import type { AlertRule } from "@shared/alert-rules";
+import type { AlertBacktest } from "@/server/priceAlertService";
+
+// ─── Types ──────────────────────────────────────────────────────────────────
+
+interface AlertBacktestRowProps {
+  stockId: string | null;
+  type: "above" | "below" | "percent_change" | "rule";
+  threshold?: number;
+  rule?: AlertRule;
+  /** The alert isn't complete yet */
+  disabled?: boolean;
+}
+
+type BacktestState =
+  | { status: "idle" }
+  | { status: "loading" }
+  | { status: "done"; result: AlertBacktest }
+  | { status: "error"; error: string };
+
+function formatDay(timestamp: number): string {
+  return new Date(timestamp).toLocaleDateString(undefined, { day: "numeric", month: "short" });
+}
+
+function describeBacktest(result: AlertBacktest): string {
+  if (result.firings.length === 0) {
+    return `Wouldn't have fired in the ${result.sessions} sessions since ${formatDay(result.from)}.`;
+  }
+  const times = result.firings.length === 1 ? "once" : `${result.firings.length} times`;
+  return `Would have fired ${times}, on ${result.sessionsFired} of ${result.sessions} sessions since ${formatDay(result.from)}. Last: ${formatDay(result.firings[result.firings.length - 1].timestamp)}.`;
+}
+
+// ─── Component ──────────────────────────────────────────────────────────────
+
+export function AlertBacktestRow({ stockId, type, threshold, rule, disabled }: AlertBacktestRowProps) {
+  const colors = useColors();
+  const utils = trpc.useUtils();
+  const [state, setState] = useState<BacktestState>({ status: "idle" });
+
+  // A result only describes the alert it was run for
+  const inputKey = JSON.stringify([stockId, type, threshold, rule]);
+  useEffect(() => {
+    setState({ status: "idle" });
+  }, [inputKey]);
+
+  const handleBacktest = useCallback(async () => {
+    if (!stockId) return;
+    setState({ status: "loading" });
+    try {
+      const response = await utils.notifications.backtestAlert.fetch({ stockId, type, threshold, rule });
+      setState(response.success ? { status: "done", result: response.data } : { status: "error", error: response.error });
+    } catch {
+      setState({ status: "error", error: "Couldn't run the backtest. Please try again." });
+    }
+  }, [utils, stockId, type, threshold, rule]);
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.surface, borderColor: colors.border }]}>
+      <View style={styles.header}>
+        <View style={{ flex: 1 }}>
+          <Subhead style={{ fontFamily: FontFamily.medium }}>Backtest</Subhead>
+          <Caption1 color="muted">How often this alert would have fired in the last 3 months</Caption1>
+        </View>
+        <AnimatedPressable
+          variant="chip"
+          onPress={handleBacktest}
+          disabled={disabled || !stockId || state.status === "loading"}
+          style={[styles.button, { backgroundColor: colorAlpha(colors.primary, disabled ? 0.08 : 0.2) }]}
+          accessibilityLabel="Backtest this alert"
+          accessibilityRole="button"
+        >
+          <Caption1 style={{ color: colors.primary, fontFamily: FontFamily.semibold }}>
+            {state.status === "loading" ? "Running..." : "Run"}
+          </Caption1>
+        </AnimatedPressable>
+      </View>
+      {state.status === "done" && (
+        <>
+          <Caption1 style={{ marginTop: 8, fontFamily: FontFamily.medium }}>{describeBacktest(state.result)}</Caption1>
+          <Caption1 color="muted" style={{ marginTop: 2 }}>
+            Replayed on daily bars, so intraday timing is estimated.
+          </Caption1>
+        </>
+      )}
+      {state.status === "error" && (
+        <Caption1 style={{ marginTop: 8, color: colors.error }}>{state.error}</Caption1>
+      )}
+    </View>
+  );
+}
+
+// ─── Styles ─────────────────────────────────────────────────────────────────
+
+const styles = StyleSheet.create({
+  container: {
+    borderRadius: 14,
+    borderWidth: StyleSheet.hairlineWidth,
+    padding: 12,
+    marginBottom: 12,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+  },
+  button: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: Radius[500],
+  },
+});
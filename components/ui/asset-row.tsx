@@ -11,9 +11,11 @@ import { FontFamily } from "@/constants/typography";
 import { Spacing, Radius } from "@/constants/spacing";
 import { IconSymbol } from "./icon-symbol";
 import type { Asset } from "@/lib/mock-data";
+import type { QuoteSource } from "@/hooks/use-stocks";
 
 interface AssetRowProps {
-  asset: Asset;
+  /** `source` marks delayed or mock prices with a small dot after the ticker */
+  asset: Asset & { source?: QuoteSource };
   onPress?: () => void;
   showSparkline?: boolean;
   showStar?: boolean;
@@ -44,6 +46,9 @@ export function AssetRow({
   const isPositive = asset.change >= 0;
   const tintColor = isPositive ? colors.success : colors.error;
 
+  const sourceDotColor =
+    asset.source === "stale" ? colors.warning : asset.source === "mock" ? colors.muted : null;
+
   return (
     <AnimatedPressable
       variant="card"
@@ -73,12 +78,20 @@ export function AssetRow({
           </Caption1>
         </View>
         <View style={styles.nameContainer}>
-          <Subhead
-            style={{ fontFamily: FontFamily.semibold, marginBottom: 1 }}
-            numberOfLines={1}
-          >
-            {asset.ticker}
-          </Subhead>
+          <View style={styles.tickerRow}>
+            <Subhead
+              style={{ fontFamily: FontFamily.semibold, marginBottom: 1 }}
+              numberOfLines={1}
+            >
+              {asset.ticker}
+            </Subhead>
+            {sourceDotColor && (
+              <View
+                accessibilityLabel={asset.source === "stale" ? "Delayed price" : "Demo price"}
+                style={[styles.sourceDot, { backgroundColor: sourceDotColor }]}
+              />
+            )}
+          </View>
           <Caption1
             color="muted"
             style={{ fontFamily: FontFamily.regular, fontSize: 12 }}
@@ -188,6 +201,16 @@ const styles = StyleSheet.create({
   nameContainer: {
     flex: 1,
   },
+  tickerRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+  },
+  sourceDot: {
+    width: 5,
+    height: 5,
+    borderRadius: 2.5,
+  },
   center: {
     marginHorizontal: Spacing[3],
   },
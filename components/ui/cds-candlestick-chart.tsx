@@ -0,0 +1,244 @@
+/**
+ * CDSCandlestickChart — OHLC price chart following CDS chart design patterns
+ *
+ * Draws each bar as a candle (filled body + wick) or as a classic OHLC bar
+ * (vertical range with open/close ticks). Up bars use the success color and
+ * down bars the error color. Indicator lines share the price scale via
+ * `overlays`, and `scrubbable` adds the same crosshair, like CDSLineChart.
+ *
+ * Usage:
+ *   <CDSCandlestickChart
+ *     bars={[{ open: 10, high: 12, low: 9.5, close: 11.5 }, ...]}
+ *     height={200}
+ *     variant="candle"
+ *     showGrid={true}
+ *   />
+ */
+import React, { useMemo, useState } from "react";
+import { View, LayoutChangeEvent } from "react-native";
+import Svg, { Line, Path, Rect } from "react-native-svg";
+import { useColors } from "@/hooks/use-colors";
+import { Spacing } from "@/constants/spacing";
+import { buildOverlayPath, type ChartOverlay } from "@/components/ui/cds-line-chart";
+import { ChartCrosshair, type ScrubBar } from "@/components/ui/chart-crosshair";
+import type { ChartScrub } from "@/lib/chart-scrub";
+
+export interface CandleBar {
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+}
+
+/** Bars with a timestamp and volume also fill in the scrub tooltip */
+type ChartBar = CandleBar | ScrubBar;
+
+interface PaddingConfig {
+  top?: number;
+  right?: number;
+  bottom?: number;
+  left?: number;
+}
+
+interface CDSCandlestickChartProps {
+  bars: ChartBar[];
+  /** "candle" draws bodies and wicks; "ohlc" draws range bars with ticks */
+  variant?: "candle" | "ohlc";
+  /** Chart width - undefined fills container (responsive) */
+  width?: number;
+  height?: number;
+  /** Whether to show grid lines */
+  showGrid?: boolean;
+  /** Number of grid lines to show */
+  gridLines?: number;
+  /** Optional indicator lines sharing the price scale */
+  overlays?: ChartOverlay[];
+  /** Optional custom padding override */
+  padding?: PaddingConfig;
+  /** Enable press-and-drag crosshair scrubbing */
+  scrubbable?: boolean;
+  /** Called with the scrubbed bar, and null on release */
+  onScrub?: (scrub: ChartScrub | null) => void;
+}
+
+const DEFAULT_PADDING = {
+  top: Spacing[5],    // 20px
+  right: Spacing[5],  // 20px
+  bottom: Spacing[6], // 24px
+  left: Spacing[12],  // 48px
+};
+
+/** Fraction of each bar slot taken by the candle body */
+const BODY_RATIO = 0.6;
+
+export function CDSCandlestickChart({
+  bars,
+  variant = "candle",
+  width: propWidth,
+  height = 200,
+  showGrid = false,
+  gridLines = 5,
+  overlays,
+  padding: paddingOverride,
+  scrubbable = false,
+  onScrub,
+}: CDSCandlestickChartProps) {
+  const colors = useColors();
+  const [measuredWidth, setMeasuredWidth] = useState<number | undefined>(propWidth);
+
+  const handleLayout = (event: LayoutChangeEvent) => {
+    if (propWidth === undefined) {
+      setMeasuredWidth(event.nativeEvent.layout.width);
+    }
+  };
+
+  const chart = useMemo(() => {
+    const width = propWidth ?? measuredWidth;
+    if (!bars || bars.length < 2 || width === undefined) return null;
+
+    const overlayValues = (overlays ?? []).flatMap((o) =>
+      o.values.filter((v): v is number => v !== null && Number.isFinite(v))
+    );
+    const min = Math.min(...bars.map((b) => b.low), ...overlayValues);
+    const max = Math.max(...bars.map((b) => b.high), ...overlayValues);
+    const range = max - min || 1;
+
+    const padding = {
+      top: paddingOverride?.top ?? DEFAULT_PADDING.top,
+      right: paddingOverride?.right ?? DEFAULT_PADDING.right,
+      bottom: paddingOverride?.bottom ?? DEFAULT_PADDING.bottom,
+      left: paddingOverride?.left ?? DEFAULT_PADDING.left,
+    };
+    const chartWidth = width - padding.left - padding.right;
+    const chartHeight = height - padding.top - padding.bottom;
+
+    // Bars sit in equal slots; x is the slot centre
+    const slot = chartWidth / bars.length;
+    const toX = (i: number) => padding.left + slot * (i + 0.5);
+    const toY = (value: number) => padding.top + chartHeight - ((value - min) / range) * chartHeight;
+    const bodyWidth = Math.max(1, slot * BODY_RATIO);
+
+    const shapes = bars.map((bar, i) => {
+      const up = bar.close >= bar.open;
+      const openY = toY(bar.open);
+      const closeY = toY(bar.close);
+      return {
+        x: toX(i),
+        highY: toY(bar.high),
+        lowY: toY(bar.low),
+        openY,
+        closeY,
+        bodyTop: Math.min(openY, closeY),
+        bodyHeight: Math.max(1, Math.abs(closeY - openY)),
+        color: up ? colors.success : colors.error,
+      };
+    });
+
+    const gridLinesArr: number[] = [];
+    if (showGrid) {
+      for (let i = 0; i <= gridLines; i++) {
+        gridLinesArr.push(padding.top + (chartHeight / gridLines) * i);
+      }
+    }
+
+    const overlayPaths = (overlays ?? []).map((overlay) => ({
+      overlay,
+      path: buildOverlayPath(overlay.values, toX, toY),
+    }));
+
+    const closes = bars.map((b) => b.close);
+    const lastUp = bars[bars.length - 1].close >= bars[0].close;
+
+    return {
+      width,
+      padding,
+      shapes,
+      bodyWidth,
+      gridLinesArr,
+      overlayPaths,
+      closes,
+      closeYs: closes.map(toY),
+      color: lastUp ? colors.success : colors.error,
+      scrubBars: bars.every((b) => "timestamp" in b) ? (bars as ScrubBar[]) : undefined,
+    };
+  }, [bars, propWidth, measuredWidth, height, showGrid, gridLines, overlays, paddingOverride, colors.success, colors.error]);
+
+  const svg = chart && (
+    <Svg width={chart.width} height={height}>
+      {/* Grid lines */}
+      {chart.gridLinesArr.map((y, i) => (
+        <Line
+          key={`grid-${i}`}
+          x1={chart.padding.left}
+          y1={y}
+          x2={chart.width - chart.padding.right}
+          y2={y}
+          stroke={colors.border}
+          strokeWidth={0.5}
+          strokeDasharray={[4, 4]}
+        />
+      ))}
+
+      {/* Bars */}
+      {chart.shapes.map((s, i) =>
+        variant === "candle" ? (
+          <React.Fragment key={i}>
+            <Line x1={s.x} y1={s.highY} x2={s.x} y2={s.lowY} stroke={s.color} strokeWidth={1} />
+            <Rect
+              x={s.x - chart.bodyWidth / 2}
+              y={s.bodyTop}
+              width={chart.bodyWidth}
+              height={s.bodyHeight}
+              fill={s.color}
+            />
+          </React.Fragment>
+        ) : (
+          <Path
+            key={i}
+            d={`M ${s.x} ${s.highY} L ${s.x} ${s.lowY} M ${s.x - chart.bodyWidth / 2} ${s.openY} L ${s.x} ${s.openY} M ${s.x} ${s.closeY} L ${s.x + chart.bodyWidth / 2} ${s.closeY}`}
+            stroke={s.color}
+            strokeWidth={1}
+            fill="none"
+          />
+        )
+      )}
+
+      {/* Indicator overlays */}
+      {chart.overlayPaths.map(({ overlay, path }, i) =>
+        path ? (
+          <Path
+            key={`overlay-${i}`}
+            d={path}
+            fill="none"
+            stroke={overlay.color}
+            strokeWidth={overlay.strokeWidth ?? 1.25}
+            strokeDasharray={overlay.dashed ? [4, 3] : undefined}
+            strokeLinejoin="round"
+          />
+        ) : null
+      )}
+    </Svg>
+  );
+
+  return (
+    <View style={{ width: propWidth ?? "100%", height }} onLayout={handleLayout}>
+      {chart && scrubbable ? (
+        <ChartCrosshair
+          width={chart.width}
+          height={height}
+          padding={chart.padding}
+          align="slots"
+          closes={chart.closes}
+          pointYs={chart.closeYs}
+          bars={chart.scrubBars}
+          color={chart.color}
+          onScrub={onScrub}
+        >
+          {svg}
+        </ChartCrosshair>
+      ) : (
+        svg
+      )}
+    </View>
+  );
+}
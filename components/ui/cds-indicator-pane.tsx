@@ -0,0 +1,188 @@
+/**
+ * CDSIndicatorPane — Compact sub-pane for volume and oscillators
+ *
+ * Sits under a price chart and lines up with it bar-for-bar (same padding,
+ * one slot per bar). Draws any mix of a histogram (volume, MACD histogram),
+ * indicator lines (RSI, MACD/signal) and dashed reference levels (RSI 30/70,
+ * MACD zero line). The value scale fits the data unless `domain` is given.
+ *
+ * Usage:
+ *   <CDSIndicatorPane
+ *     count={closes.length}
+ *     lines={[{ values: rsi(closes), color: colors.accent }]}
+ *     referenceLines={[30, 70]}
+ *     domain={[0, 100]}
+ *   />
+ */
+import React, { useMemo, useState } from "react";
+import { View, LayoutChangeEvent } from "react-native";
+import Svg, { Line, Path, Rect } from "react-native-svg";
+import { useColors } from "@/hooks/use-colors";
+import { Spacing } from "@/constants/spacing";
+import { buildOverlayPath, type ChartOverlay } from "@/components/ui/cds-line-chart";
+
+interface PaddingConfig {
+  top?: number;
+  right?: number;
+  bottom?: number;
+  left?: number;
+}
+
+export interface PaneHistogram {
+  values: (number | null)[];
+  /** One color for every bar, or one per bar */
+  colors: string | string[];
+}
+
+interface CDSIndicatorPaneProps {
+  /** Number of bars on the parent chart */
+  count: number;
+  histogram?: PaneHistogram;
+  lines?: ChartOverlay[];
+  /** Values marked with a dashed horizontal line */
+  referenceLines?: number[];
+  /** Fixed [min, max] scale, e.g. [0, 100] for RSI */
+  domain?: [number, number];
+  /** Chart width - undefined fills container (responsive) */
+  width?: number;
+  height?: number;
+  /** Optional custom padding override; match the parent chart's left/right */
+  padding?: PaddingConfig;
+}
+
+const DEFAULT_PADDING = {
+  top: Spacing[1],    // 4px
+  right: Spacing[5],  // 20px
+  bottom: Spacing[1], // 4px
+  left: Spacing[12],  // 48px
+};
+
+/** Fraction of each bar slot taken by a histogram bar */
+const BAR_RATIO = 0.6;
+
+function finite(values: (number | null)[]): number[] {
+  return values.filter((v): v is number => v !== null && Number.isFinite(v));
+}
+
+export function CDSIndicatorPane({
+  count,
+  histogram,
+  lines,
+  referenceLines,
+  domain,
+  width: propWidth,
+  height = 64,
+  padding: paddingOverride,
+}: CDSIndicatorPaneProps) {
+  const colors = useColors();
+  const [measuredWidth, setMeasuredWidth] = useState<number | undefined>(propWidth);
+
+  const handleLayout = (event: LayoutChangeEvent) => {
+    if (propWidth === undefined) {
+      setMeasuredWidth(event.nativeEvent.layout.width);
+    }
+  };
+
+  const pane = useMemo(() => {
+    const width = propWidth ?? measuredWidth;
+    if (count < 2 || width === undefined) return null;
+
+    let min: number;
+    let max: number;
+    if (domain) {
+      [min, max] = domain;
+    } else {
+      // Histograms grow from zero, so zero is always on the scale
+      const values = [
+        ...(histogram ? [0, ...finite(histogram.values)] : []),
+        ...(lines ?? []).flatMap((l) => finite(l.values)),
+        ...(referenceLines ?? []),
+      ];
+      if (values.length === 0) return null;
+      min = Math.min(...values);
+      max = Math.max(...values);
+    }
+    const range = max - min || 1;
+
+    const padding = {
+      top: paddingOverride?.top ?? DEFAULT_PADDING.top,
+      right: paddingOverride?.right ?? DEFAULT_PADDING.right,
+      bottom: paddingOverride?.bottom ?? DEFAULT_PADDING.bottom,
+      left: paddingOverride?.left ?? DEFAULT_PADDING.left,
+    };
+    const chartWidth = width - padding.left - padding.right;
+    const chartHeight = height - padding.top - padding.bottom;
+
+    const slot = chartWidth / count;
+    const toX = (i: number) => padding.left + slot * (i + 0.5);
+    const toY = (value: number) => padding.top + chartHeight - ((value - min) / range) * chartHeight;
+    const barWidth = Math.max(1, slot * BAR_RATIO);
+
+    const zeroY = toY(Math.min(Math.max(0, min), max));
+    const bars = histogram
+      ? histogram.values.flatMap((value, i) => {
+          if (value === null || !Number.isFinite(value)) return [];
+          const y = toY(value);
+          return [
+            {
+              x: toX(i) - barWidth / 2,
+              y: Math.min(y, zeroY),
+              height: Math.max(1, Math.abs(zeroY - y)),
+              color: Array.isArray(histogram.colors) ? histogram.colors[i] : histogram.colors,
+            },
+          ];
+        })
+      : [];
+
+    const linePaths = (lines ?? []).map((line) => ({
+      line,
+      path: buildOverlayPath(line.values, toX, toY),
+    }));
+
+    const references = (referenceLines ?? []).map(toY);
+
+    return { width, padding, bars, barWidth, linePaths, references };
+  }, [count, histogram, lines, referenceLines, domain, propWidth, measuredWidth, height, paddingOverride]);
+
+  return (
+    <View style={{ width: propWidth ?? "100%", height }} onLayout={handleLayout}>
+      {pane && (
+        <Svg width={pane.width} height={height}>
+          {/* Reference levels */}
+          {pane.references.map((y, i) => (
+            <Line
+              key={`ref-${i}`}
+              x1={pane.padding.left}
+              y1={y}
+              x2={pane.width - pane.padding.right}
+              y2={y}
+              stroke={colors.border}
+              strokeWidth={0.75}
+              strokeDasharray={[4, 4]}
+            />
+          ))}
+
+          {/* Histogram */}
+          {pane.bars.map((bar, i) => (
+            <Rect key={`bar-${i}`} x={bar.x} y={bar.y} width={pane.barWidth} height={bar.height} fill={bar.color} />
+          ))}
+
+          {/* Lines */}
+          {pane.linePaths.map(({ line, path }, i) =>
+            path ? (
+              <Path
+                key={`line-${i}`}
+                d={path}
+                fill="none"
+                stroke={line.color}
+                strokeWidth={line.strokeWidth ?? 1.25}
+                strokeDasharray={line.dashed ? [4, 3] : undefined}
+                strokeLinejoin="round"
+              />
+            ) : null
+          )}
+        </Svg>
+      )}
+    </View>
+  );
+}
@@ -12,12 +12,20 @@
  *     positive={true}
  *     showDots={true}
  *   />
+ *
+ * Indicator lines (moving averages, Bollinger Bands) can be drawn on the same
+ * scale with `overlays`; null values leave a gap in the overlay line.
+ *
+ * With `scrubbable`, press-and-drag shows a crosshair and tooltip (see
+ * ChartCrosshair); pass `bars` to include OHLC and volume in the tooltip.
  */
 import React, { useMemo, useState } from "react";
 import { View, StyleSheet, LayoutChangeEvent } from "react-native";
 import Svg, { Path, Defs, LinearGradient, Stop, Circle, Line } from "react-native-svg";
 import { useColors } from "@/hooks/use-colors";
 import { Spacing, Radius } from "@/constants/spacing";
+import { ChartCrosshair, type ScrubBar } from "@/components/ui/chart-crosshair";
+import type { ChartScrub } from "@/lib/chart-scrub";
 
 interface PaddingConfig {
   top?: number;
@@ -26,6 +34,37 @@ interface PaddingConfig {
   left?: number;
 }
 
+/** A line drawn on the chart's price scale, aligned index-for-index with its data */
+export interface ChartOverlay {
+  /** One value per data point; null leaves a gap (e.g. indicator warm-up) */
+  values: (number | null)[];
+  color: string;
+  strokeWidth?: number;
+  dashed?: boolean;
+}
+
+/**
+ * Straight-segment SVG path for an overlay, starting a new subpath after
+ * every gap. `toX`/`toY` map an index and value to chart coordinates.
+ */
+export function buildOverlayPath(
+  values: (number | null)[],
+  toX: (index: number) => number,
+  toY: (value: number) => number
+): string {
+  let path = "";
+  let penDown = false;
+  values.forEach((value, i) => {
+    if (value === null || !Number.isFinite(value)) {
+      penDown = false;
+      return;
+    }
+    path += `${penDown ? " L" : " M"} ${toX(i)} ${toY(value)}`;
+    penDown = true;
+  });
+  return path.trim();
+}
+
 interface CDSLineChartProps {
   data: number[];
   /** Chart width - undefined fills container (responsive) */
@@ -48,6 +87,14 @@ interface CDSLineChartProps {
   labels?: string[];
   /** Optional custom padding override */
   padding?: PaddingConfig;
+  /** Optional indicator lines sharing the price scale */
+  overlays?: ChartOverlay[];
+  /** Enable press-and-drag crosshair scrubbing */
+  scrubbable?: boolean;
+  /** OHLCV per data point, shown in the scrub tooltip */
+  bars?: ScrubBar[];
+  /** Called with the scrubbed point, and null on release */
+  onScrub?: (scrub: ChartScrub | null) => void;
 }
 
 const DEFAULT_PADDING = {
@@ -70,6 +117,10 @@ export function CDSLineChart({
   gridLines = 5,
   labels,
   padding: paddingOverride,
+  overlays,
+  scrubbable = false,
+  bars,
+  onScrub,
 }: CDSLineChartProps) {
   const colors = useColors();
   const [measuredWidth, setMeasuredWidth] = useState<number | undefined>(propWidth);
@@ -90,8 +141,12 @@ export function CDSLineChart({
       positive !== undefined ? positive : data[data.length - 1] >= data[0];
     const color = isPositive ? colors.success : colors.error;
 
-    const min = Math.min(...data);
-    const max = Math.max(...data);
+    // Overlays share the scale so bands never get clipped
+    const overlayValues = (overlays ?? []).flatMap((o) =>
+      o.values.filter((v): v is number => v !== null && Number.isFinite(v))
+    );
+    const min = Math.min(...data, ...overlayValues);
+    const max = Math.max(...data, ...overlayValues);
     const range = max - min || 1;
 
     const padding = {
@@ -148,85 +203,132 @@ export function CDSLineChart({
       ? `${path} L ${points[points.length - 1].x} ${padding.top + chartHeight} L ${points[0].x} ${padding.top + chartHeight} Z`
       : null;
 
-    return { points, path, fillPath, color, padding, gridLinesArr, isPositive };
-  }, [data, propWidth, measuredWidth, height, positive, colors.success, colors.error, showGradient, smooth, showGrid, gridLines, paddingOverride]);
+    const overlayPaths = (overlays ?? []).map((overlay) => ({
+      overlay,
+      path: buildOverlayPath(
+        overlay.values,
+        (i) => padding.left + (i / (data.length - 1)) * chartWidth,
+        (value) => padding.top + chartHeight - ((value - min) / range) * chartHeight
+      ),
+    }));
 
-  if (!chartData) return null;
+    return { points, path, fillPath, color, padding, gridLinesArr, isPositive, overlayPaths };
+  }, [data, propWidth, measuredWidth, height, positive, colors.success, colors.error, showGradient, smooth, showGrid, gridLines, paddingOverride, overlays]);
 
-  const { points, path, fillPath, color, padding, gridLinesArr, isPositive } = chartData;
+  // Keep the container mounted so onLayout can measure a responsive width
+  if (!chartData) {
+    return <View style={{ width: propWidth ?? '100%', height }} onLayout={handleLayout} />;
+  }
+
+  const { points, path, fillPath, color, padding, gridLinesArr, overlayPaths } = chartData;
   const finalWidth = propWidth ?? measuredWidth;
 
-  return (
-    <View style={{ width: propWidth ?? '100%', height }} onLayout={handleLayout}>
-      <Svg width={finalWidth} height={height}>
-        <Defs>
-          <LinearGradient id={`line-gradient-${color}`} x1="0" y1="0" x2="0" y2="1">
-            <Stop offset="0%" stopColor={color} stopOpacity={0.2} />
-            <Stop offset="100%" stopColor={color} stopOpacity={0.0} />
-          </LinearGradient>
-        </Defs>
-
-        {/* Grid lines */}
-        {gridLinesArr.map((line, i) => (
-          <Line
-            key={i}
-            x1={padding.left}
-            y1={line.y}
-            x2={finalWidth! - padding.right}
-            y2={line.y}
-            stroke={colors.border}
-            strokeWidth={0.5}
-            strokeDasharray={[4, 4]}
-          />
-        ))}
+  const svg = (
+    <Svg width={finalWidth} height={height}>
+      <Defs>
+        <LinearGradient id={`line-gradient-${color}`} x1="0" y1="0" x2="0" y2="1">
+          <Stop offset="0%" stopColor={color} stopOpacity={0.2} />
+          <Stop offset="100%" stopColor={color} stopOpacity={0.0} />
+        </LinearGradient>
+      </Defs>
 
-        {/* Gradient fill */}
-        {fillPath && (
-          <Path
-            d={fillPath}
-            fill={`url(#line-gradient-${color})`}
-            stroke="none"
-          />
-        )}
+      {/* Grid lines */}
+      {gridLinesArr.map((line, i) => (
+        <Line
+          key={i}
+          x1={padding.left}
+          y1={line.y}
+          x2={finalWidth! - padding.right}
+          y2={line.y}
+          stroke={colors.border}
+          strokeWidth={0.5}
+          strokeDasharray={[4, 4]}
+        />
+      ))}
 
-        {/* Line */}
+      {/* Gradient fill */}
+      {fillPath && (
         <Path
-          d={path}
-          fill="none"
-          stroke={color}
-          strokeWidth={strokeWidth}
-          strokeLinecap="round"
-          strokeLinejoin="round"
+          d={fillPath}
+          fill={`url(#line-gradient-${color})`}
+          stroke="none"
         />
+      )}
 
-        {/* Data points */}
-        {showDots && points.map((point, i) => (
-          <Circle
-            key={i}
-            cx={point.x}
-            cy={point.y}
-            r={Spacing[1]} // 4px using Spacing token
-            fill={color}
-            stroke={colors.background}
-            strokeWidth={1}
+      {/* Line */}
+      <Path
+        d={path}
+        fill="none"
+        stroke={color}
+        strokeWidth={strokeWidth}
+        strokeLinecap="round"
+        strokeLinejoin="round"
+      />
+
+      {/* Indicator overlays */}
+      {overlayPaths.map(({ overlay, path: overlayPath }, i) =>
+        overlayPath ? (
+          <Path
+            key={`overlay-${i}`}
+            d={overlayPath}
+            fill="none"
+            stroke={overlay.color}
+            strokeWidth={overlay.strokeWidth ?? 1.25}
+            strokeDasharray={overlay.dashed ? [4, 3] : undefined}
+            strokeLinejoin="round"
           />
-        ))}
-
-        {/* Labels */}
-        {labels && labels.map((label, i) => {
-          if (i >= points.length) return null;
-          return (
-            <Svg key={i} x={points[i].x - 20} y={height - 25} width={40} height={20}>
-              <Path
-                d="M 20 14 Q 20 14 20 14"
-                fill={colors.muted}
-                stroke="none"
-              />
-              {/* Note: Would need Text component but react-native-svg doesn't have it built-in */}
-            </Svg>
-          );
-        })}
-      </Svg>
+        ) : null
+      )}
+
+      {/* Data points */}
+      {showDots && points.map((point, i) => (
+        <Circle
+          key={i}
+          cx={point.x}
+          cy={point.y}
+          r={Spacing[1]} // 4px using Spacing token
+          fill={color}
+          stroke={colors.background}
+          strokeWidth={1}
+        />
+      ))}
+
+      {/* Labels */}
+      {labels && labels.map((label, i) => {
+        if (i >= points.length) return null;
+        return (
+          <Svg key={i} x={points[i].x - 20} y={height - 25} width={40} height={20}>
+            <Path
+              d="M 20 14 Q 20 14 20 14"
+              fill={colors.muted}
+              stroke="none"
+            />
+            {/* Note: Would need Text component but react-native-svg doesn't have it built-in */}
+          </Svg>
+        );
+      })}
+    </Svg>
+  );
+
+  return (
+    <View style={{ width: propWidth ?? '100%', height }} onLayout={handleLayout}>
+      {scrubbable ? (
+        <ChartCrosshair
+          width={finalWidth!}
+          height={height}
+          padding={padding}
+          align="edges"
+          closes={data}
+          pointYs={points.map((p) => p.y)}
+          bars={bars}
+          color={color}
+          onScrub={onScrub}
+        >
+          {svg}
+        </ChartCrosshair>
+      ) : (
+        svg
+      )}
     </View>
   );
 }
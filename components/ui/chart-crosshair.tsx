@@ -0,0 +1,258 @@
+/**
+ * ChartCrosshair — Press-and-drag scrubbing for the price charts
+ *
+ * Wraps a chart's SVG and adds a crosshair that follows a horizontal drag,
+ * with a floating tooltip for the bar under the finger: date, OHLC, volume
+ * and change since the start of the range. Putting a second finger down
+ * measures the percent change between the two bars. Vertical drags fail
+ * the gesture so the screen can still scroll.
+ *
+ * The current point is reported through `onScrub` (null when released) so
+ * screens can show it elsewhere, e.g. in the hero price.
+ *
+ * Used by CDSLineChart and CDSCandlestickChart via their `scrubbable` prop.
+ */
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { Platform, StyleSheet, View } from "react-native";
+import { Gesture, GestureDetector, type GestureTouchEvent } from "react-native-gesture-handler";
+import Svg, { Circle, Line, Rect } from "react-native-svg";
+import * as Haptics from "expo-haptics";
+import { useColors, colorAlpha } from "@/hooks/use-colors";
+import { Caption2, MonoCaption2 } from "@/components/ui/typography";
+import { Radius, Spacing } from "@/constants/spacing";
+import {
+  formatBarTime,
+  formatChangePercent,
+  formatVolume,
+  indexForX,
+  isIntraday,
+  scrubAt,
+  xForIndex,
+  type ChartAlign,
+  type ChartScrub,
+} from "@/lib/chart-scrub";
+
+/** Optional OHLCV detail for the tooltip, one per data point */
+export interface ScrubBar {
+  timestamp: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+interface ChartCrosshairProps {
+  children: React.ReactNode;
+  width: number;
+  height: number;
+  padding: { top: number; right: number; bottom: number; left: number };
+  align: ChartAlign;
+  /** Close per data point; drives the change readout */
+  closes: number[];
+  /** Y of each close in chart coordinates, for the crosshair dot */
+  pointYs: number[];
+  bars?: ScrubBar[];
+  color: string;
+  onScrub?: (scrub: ChartScrub | null) => void;
+}
+
+const TOOLTIP_WIDTH = 148;
+/** Horizontal travel before scrubbing starts, and vertical travel that cancels it */
+const ACTIVE_OFFSET_X = 4;
+const FAIL_OFFSET_Y = 12;
+
+function sameIndexes(a: number[] | null, b: number[] | null): boolean {
+  if (a === b) return true;
+  if (!a || !b || a.length !== b.length) return false;
+  return a.every((v, i) => v === b[i]);
+}
+
+/** Touch x positions in finger order, leaving out fingers that just lifted */
+function touchXs(event: GestureTouchEvent, lifted: boolean): number[] {
+  const liftedIds = lifted ? new Set(event.changedTouches.map((t) => t.id)) : new Set<number>();
+  return event.allTouches
+    .filter((t) => !liftedIds.has(t.id))
+    .sort((a, b) => a.id - b.id)
+    .map((t) => t.x);
+}
+
+export function ChartCrosshair({
+  children,
+  width,
+  height,
+  padding,
+  align,
+  closes,
+  pointYs,
+  bars,
+  color,
+  onScrub,
+}: ChartCrosshairProps) {
+  const colors = useColors();
+  const [indexes, setIndexes] = useState<number[] | null>(null);
+  const activeRef = useRef(false);
+  const touchesRef = useRef<number[]>([]);
+  // Latest callback without re-reporting when the parent passes a new function
+  const onScrubRef = useRef(onScrub);
+  useEffect(() => {
+    onScrubRef.current = onScrub;
+  }, [onScrub]);
+
+  const count = closes.length;
+  const plot = useMemo(
+    () => ({ left: padding.left, width: width - padding.left - padding.right }),
+    [padding.left, padding.right, width]
+  );
+
+  const gesture = useMemo(() => {
+    const update = (xs: number[]) => {
+      touchesRef.current = xs;
+      if (!activeRef.current) return;
+      const next = xs.slice(0, 2).map((x) => indexForX(x, count, plot, align));
+      setIndexes((prev) => (sameIndexes(prev, next) ? prev : next));
+    };
+
+    return Gesture.Pan()
+      .runOnJS(true)
+      .enabled(count > 1)
+      .maxPointers(2)
+      .activeOffsetX([-ACTIVE_OFFSET_X, ACTIVE_OFFSET_X])
+      .failOffsetY([-FAIL_OFFSET_Y, FAIL_OFFSET_Y])
+      .onTouchesDown((event) => update(touchXs(event, false)))
+      .onTouchesMove((event) => update(touchXs(event, false)))
+      .onTouchesUp((event) => update(touchXs(event, true)))
+      .onStart(() => {
+        activeRef.current = true;
+        update(touchesRef.current);
+      })
+      .onFinalize(() => {
+        activeRef.current = false;
+        setIndexes(null);
+      });
+  }, [count, plot, align]);
+
+  const scrub = useMemo(() => (indexes ? scrubAt(closes, indexes) : null), [indexes, closes]);
+
+  // Report every new point, with a selection tick as the finger crosses bars
+  useEffect(() => {
+    onScrubRef.current?.(scrub);
+    if (scrub && Platform.OS !== "web") {
+      Haptics.selectionAsync();
+    }
+  }, [scrub]);
+
+  const intraday = useMemo(() => (bars ? isIntraday(bars.map((b) => b.timestamp)) : false), [bars]);
+
+  const renderOverlay = () => {
+    if (!scrub) return null;
+    const top = padding.top;
+    const bottom = height - padding.bottom;
+    const measure = scrub.measure;
+    const marked = measure ? [measure.fromIndex, measure.toIndex] : [scrub.index];
+    const xs = marked.map((i) => xForIndex(i, count, plot, align));
+    const centerX = xs.reduce((sum, x) => sum + x, 0) / xs.length;
+    const tooltipLeft = Math.min(Math.max(0, centerX - TOOLTIP_WIDTH / 2), Math.max(0, width - TOOLTIP_WIDTH));
+    const changeColor = (measure ?? scrub).change >= 0 ? "success" : "error";
+
+    const bar = bars?.[scrub.index];
+    const timeOf = (i: number) => (bars?.[i] ? formatBarTime(bars[i].timestamp, intraday) : null);
+
+    return (
+      <>
+        <Svg width={width} height={height} style={StyleSheet.absoluteFill} pointerEvents="none">
+          {xs.length === 2 && (
+            <Rect
+              x={xs[0]}
+              y={top}
+              width={Math.max(1, xs[1] - xs[0])}
+              height={bottom - top}
+              fill={colorAlpha(measure && measure.change < 0 ? colors.error : colors.success, 0.12)}
+            />
+          )}
+          {marked.map((index, i) => (
+            <React.Fragment key={index}>
+              <Line x1={xs[i]} y1={top} x2={xs[i]} y2={bottom} stroke={colors.muted} strokeWidth={1} />
+              {pointYs[index] !== undefined && (
+                <Circle
+                  cx={xs[i]}
+                  cy={pointYs[index]}
+                  r={Spacing[1]}
+                  fill={color}
+                  stroke={colors.background}
+                  strokeWidth={1.5}
+                />
+              )}
+            </React.Fragment>
+          ))}
+        </Svg>
+
+        <View
+          pointerEvents="none"
+          style={[
+            styles.tooltip,
+            {
+              left: tooltipLeft,
+              backgroundColor: colorAlpha(colors.surface, 0.96),
+              borderColor: colors.border,
+            },
+          ]}
+        >
+          {measure ? (
+            <>
+              <Caption2 color="muted" numberOfLines={1}>
+                {timeOf(measure.fromIndex) ?? `#${measure.fromIndex + 1}`} → {timeOf(measure.toIndex) ?? `#${measure.toIndex + 1}`}
+              </Caption2>
+              <MonoCaption2 color={changeColor}>
+                {formatChangePercent(measure.changePercent)} · {measure.change >= 0 ? "+" : "−"}€{Math.abs(measure.change).toFixed(2)}
+              </MonoCaption2>
+            </>
+          ) : (
+            <>
+              {timeOf(scrub.index) && (
+                <Caption2 color="muted" numberOfLines={1}>
+                  {timeOf(scrub.index)}
+                </Caption2>
+              )}
+              {bar ? (
+                <>
+                  <MonoCaption2 color="foreground">
+                    O {bar.open.toFixed(2)}  H {bar.high.toFixed(2)}
+                  </MonoCaption2>
+                  <MonoCaption2 color="foreground">
+                    L {bar.low.toFixed(2)}  C {bar.close.toFixed(2)}
+                  </MonoCaption2>
+                  <MonoCaption2 color="muted">Vol {formatVolume(bar.volume)}</MonoCaption2>
+                </>
+              ) : (
+                <MonoCaption2 color="foreground">€{scrub.value.toFixed(2)}</MonoCaption2>
+              )}
+              <MonoCaption2 color={changeColor}>{formatChangePercent(scrub.changePercent)} in range</MonoCaption2>
+            </>
+          )}
+        </View>
+      </>
+    );
+  };
+
+  return (
+    <GestureDetector gesture={gesture}>
+      <View style={{ width, height }}>
+        {children}
+        {renderOverlay()}
+      </View>
+    </GestureDetector>
+  );
+}
+
+const styles = StyleSheet.create({
+  tooltip: {
+    position: "absolute",
+    top: 0,
+    width: TOOLTIP_WIDTH,
+    paddingHorizontal: Spacing[2],
+    paddingVertical: Spacing[1],
+    borderRadius: Radius[200],
+    borderWidth: StyleSheet.hairlineWidth,
+  },
+});
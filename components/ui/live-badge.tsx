@@ -6,13 +6,16 @@ import { FontFamily } from "@/constants/typography";
 
 interface LiveBadgeProps {
   isLive: boolean;
+  /** Server data is present but has stopped updating */
+  isStale?: boolean;
   lastUpdated?: number | null;
 }
 
-export function LiveBadge({ isLive, lastUpdated }: LiveBadgeProps) {
+export function LiveBadge({ isLive, isStale = false, lastUpdated }: LiveBadgeProps) {
   const colors = useColors();
 
   const timeAgo = lastUpdated ? formatTimeAgo(lastUpdated) : null;
+  const label = isLive ? "LIVE" : isStale ? "DELAYED" : "DEMO DATA";
 
   return (
     <View style={styles.container}>
@@ -29,7 +32,7 @@ export function LiveBadge({ isLive, lastUpdated }: LiveBadgeProps) {
           letterSpacing: 0.3,
         }}
       >
-        {isLive ? "LIVE" : "DEMO DATA"}
+        {label}
       </Caption2>
       {timeAgo && (
         <Caption2 color="muted" style={{ fontFamily: FontFamily.medium }}>
@@ -0,0 +1,605 @@
+/**
+ * Rule Builder Modal
+ *
+ * Bottom sheet for creating a rule alert: pick a stock, add up to five
+ * conditions (RSI, moving average, volume spike, N-week range, gap, move)
+ * and join them with AND/OR. A live description shows what the alert will
+ * watch for, and a backtest shows how often it would have fired in the last
+ * 3 months. Rules are evaluated on the server (shared/alert-rules).
+ */
+import React, { useState, useCallback, useEffect, useMemo, useRef } from "react";
+import {
+  View,
+  Modal,
+  ScrollView,
+  StyleSheet,
+  TextInput,
+  Platform,
+  KeyboardAvoidingView,
+} from "react-native";
+import { useColors, colorAlpha } from "@/hooks/use-colors";
+import { useStockQuotes } from "@/hooks/use-stocks";
+import { AnimatedPressable } from "@/components/ui/animated-pressable";
+import { AlertBacktestRow } from "@/components/ui/alert-backtest";
+import { CDSButton } from "@/components/ui/cds-button";
+import { CDSChip } from "@/components/ui/cds-chip";
+import { useNotifications } from "@/lib/notification-context";
+import { Title3, Body, Subhead, Caption1 } from "@/components/ui/typography";
+import { Footnote } from "@/components/ui/cds-typography";
+import { FontFamily } from "@/constants/typography";
+import { Radius } from "@/constants/spacing";
+import {
+  DEFAULT_CONDITIONS,
+  MAX_RULE_CONDITIONS,
+  describeRule,
+  validateRule,
+  type AlertRule,
+  type RuleCondition,
+} from "@shared/alert-rules";
+
+// ─── Types ──────────────────────────────────────────────────────────────────
+
+interface RuleBuilderModalProps {
+  visible: boolean;
+  onClose: () => void;
+  /** Preselected stock; otherwise the user picks one */
+  stockId?: string;
+  stockName?: string;
+}
+
+/** A condition being edited; the key keeps inputs attached to their row */
+interface ConditionEntry {
+  key: number;
+  condition: RuleCondition;
+}
+
+/** The condition shapes the builder edits, one template each */
+type ConditionTemplate = "rsi" | "moving_average" | "volume" | "range" | "gap" | "move";
+
+const TEMPLATES: { template: ConditionTemplate; label: string; condition: RuleCondition }[] = [
+  { template: "rsi", label: "RSI", condition: DEFAULT_CONDITIONS.cross },
+  {
+    template: "moving_average",
+    label: "Moving Avg",
+    condition: { type: "cross", left: { kind: "price" }, direction: "above", right: { kind: "sma", period: 50 } },
+  },
+  { template: "volume", label: "Volume Spike", condition: DEFAULT_CONDITIONS.compare },
+  { template: "range", label: "52W High/Low", condition: DEFAULT_CONDITIONS.range_break },
+  { template: "gap", label: "Gap at Open", condition: DEFAULT_CONDITIONS.gap },
+  { template: "move", label: "% Move", condition: DEFAULT_CONDITIONS.change },
+];
+
+function templateOf(condition: RuleCondition): ConditionTemplate {
+  switch (condition.type) {
+    case "cross":
+      return condition.left.kind === "rsi" ? "rsi" : "moving_average";
+    case "compare":
+      return "volume";
+    case "range_break":
+      return "range";
+    case "gap":
+      return "gap";
+    case "change":
+      return "move";
+  }
+}
+
+// ─── Number Field ───────────────────────────────────────────────────────────
+
+/** Numeric input that keeps the typed text and reports parsed values */
+function NumberField({
+  label,
+  value,
+  onChange,
+  unit,
+}: {
+  label: string;
+  value: number;
+  onChange: (value: number) => void;
+  unit?: string;
+}) {
+  const colors = useColors();
+  const [text, setText] = useState(String(value));
+
+  return (
+    <View style={styles.field}>
+      <Caption1 color="muted">{label}</Caption1>
+      <View style={[styles.fieldInput, { backgroundColor: colors.surface, borderColor: colors.border }]}>
+        <TextInput
+          style={[styles.input, { color: colors.foreground, fontFamily: FontFamily.semibold }]}
+          value={text}
+          onChangeText={(next) => {
+            setText(next);
+            const parsed = parseFloat(next);
+            if (!isNaN(parsed)) onChange(parsed);
+          }}
+          keyboardType="decimal-pad"
+          returnKeyType="done"
+          accessibilityLabel={label}
+        />
+        {unit && <Caption1 color="muted">{unit}</Caption1>}
+      </View>
+    </View>
+  );
+}
+
+// ─── Condition Editor ───────────────────────────────────────────────────────
+
+function ConditionEditor({
+  condition,
+  onChange,
+  onRemove,
+}: {
+  condition: RuleCondition;
+  onChange: (condition: RuleCondition) => void;
+  onRemove: () => void;
+}) {
+  const colors = useColors();
+  const template = templateOf(condition);
+
+  const fields = (() => {
+    switch (condition.type) {
+      case "cross": {
+        const direction = (["above", "below"] as const).map((d) => (
+          <CDSChip
+            key={d}
+            label={`Crosses ${d}`}
+            selected={condition.direction === d}
+            onPress={() => onChange({ ...condition, direction: d })}
+          />
+        ));
+        if (template === "rsi" && condition.left.kind === "rsi" && condition.right.kind === "value") {
+          const { left, right } = condition;
+          return (
+            <>
+              <View style={styles.chipRow}>{direction}</View>
+              <View style={styles.fieldRow}>
+                <NumberField
+                  label="Period"
+                  value={left.period}
+                  onChange={(period) => onChange({ ...condition, left: { ...left, period } })}
+                />
+                <NumberField
+                  label="Level"
+                  value={right.value}
+                  onChange={(value) => onChange({ ...condition, right: { kind: "value", value } })}
+                />
+              </View>
+            </>
+          );
+        }
+        const average = condition.right;
+        if (average.kind !== "sma" && average.kind !== "ema") return null;
+        return (
+          <>
+            <View style={styles.chipRow}>{direction}</View>
+            <View style={styles.chipRow}>
+              {(["sma", "ema"] as const).map((kind) => (
+                <CDSChip
+                  key={kind}
+                  label={kind.toUpperCase()}
+                  selected={average.kind === kind}
+                  onPress={() => onChange({ ...condition, right: { kind, period: average.period } })}
+                />
+              ))}
+            </View>
+            <View style={styles.fieldRow}>
+              <NumberField
+                label="Period"
+                value={average.period}
+                unit="days"
+                onChange={(period) => onChange({ ...condition, right: { ...average, period } })}
+              />
+            </View>
+          </>
+        );
+      }
+      case "compare": {
+        const average = condition.right;
+        if (average.kind !== "avg_volume") return null;
+        return (
+          <View style={styles.fieldRow}>
+            <NumberField
+              label="Multiple"
+              value={condition.multiplier ?? 1}
+              unit="×"
+              onChange={(multiplier) => onChange({ ...condition, multiplier })}
+            />
+            <NumberField
+              label="Average over"
+              value={average.period}
+              unit="days"
+              onChange={(period) => onChange({ ...condition, right: { ...average, period } })}
+            />
+          </View>
+        );
+      }
+      case "range_break":
+        return (
+          <>
+            <View style={styles.chipRow}>
+              {(["high", "low"] as const).map((d) => (
+                <CDSChip
+                  key={d}
+                  label={d === "high" ? "New high" : "New low"}
+                  selected={condition.direction === d}
+                  onPress={() => onChange({ ...condition, direction: d })}
+                />
+              ))}
+            </View>
+            <View style={styles.fieldRow}>
+              <NumberField
+                label="Range"
+                value={condition.weeks}
+                unit="weeks"
+                onChange={(weeks) => onChange({ ...condition, weeks })}
+              />
+            </View>
+          </>
+        );
+      case "gap":
+        return (
+          <>
+            <View style={styles.chipRow}>
+              {(["up", "down"] as const).map((d) => (
+                <CDSChip
+                  key={d}
+                  label={d === "up" ? "Gap up" : "Gap down"}
+                  selected={condition.direction === d}
+                  onPress={() => onChange({ ...condition, direction: d })}
+                />
+              ))}
+            </View>
+            <View style={styles.fieldRow}>
+              <NumberField
+                label="At least"
+                value={condition.percent}
+                unit="%"
+                onChange={(percent) => onChange({ ...condition, percent })}
+              />
+            </View>
+          </>
+        );
+      case "change":
+        return (
+          <>
+            <View style={styles.chipRow}>
+              {(["up", "down", "either"] as const).map((d) => (
+                <CDSChip
+                  key={d}
+                  label={d === "either" ? "Either way" : d === "up" ? "Up" : "Down"}
+                  selected={condition.direction === d}
+                  onPress={() => onChange({ ...condition, direction: d })}
+                />
+              ))}
+            </View>
+            <View style={styles.fieldRow}>
+              <NumberField
+                label="From previous close"
+                value={condition.percent}
+                unit="%"
+                onChange={(percent) => onChange({ ...condition, percent })}
+              />
+            </View>
+          </>
+        );
+    }
+  })();
+
+  return (
+    <View style={[styles.conditionCard, { backgroundColor: colors.surface, borderColor: colors.border }]}>
+      <View style={styles.conditionHeader}>
+        <Subhead style={{ fontFamily: FontFamily.semibold }}>
+          {TEMPLATES.find((t) => t.template === template)?.label}
+        </Subhead>
+        <AnimatedPressable
+          variant="destructive"
+          onPress={onRemove}
+          style={[styles.removeButton, { backgroundColor: colorAlpha(colors.error, 0.2) }]}
+          accessibilityLabel="Remove condition"
+          accessibilityRole="button"
+        >
+          <Caption1 style={{ color: colors.error, fontFamily: FontFamily.semibold }}>Remove</Caption1>
+        </AnimatedPressable>
+      </View>
+      {fields}
+    </View>
+  );
+}
+
+// ─── Component ──────────────────────────────────────────────────────────────
+
+export function RuleBuilderModal({ visible, onClose, stockId, stockName }: RuleBuilderModalProps) {
+  const colors = useColors();
+  const { stocks } = useStockQuotes();
+  const { addPriceAlert, canManageAlerts, hasPermission, requestPermission } = useNotifications();
+
+  const nextKey = useRef(1);
+  const [selectedStockId, setSelectedStockId] = useState<string | null>(stockId ?? null);
+  const [match, setMatch] = useState<AlertRule["match"]>("all");
+  const [entries, setEntries] = useState<ConditionEntry[]>([{ key: 0, condition: DEFAULT_CONDITIONS.cross }]);
+  const [loading, setLoading] = useState(false);
+
+  const rule = useMemo<AlertRule>(() => ({ match, conditions: entries.map((e) => e.condition) }), [match, entries]);
+
+  useEffect(() => {
+    if (stockId) setSelectedStockId(stockId);
+  }, [stockId]);
+
+  const selectedStock = stocks.find((s) => s.id === selectedStockId);
+  const error = validateRule(rule);
+
+  const updateCondition = useCallback((key: number, condition: RuleCondition) => {
+    setEntries((prev) => prev.map((e) => (e.key === key ? { key, condition } : e)));
+  }, []);
+
+  const removeCondition = useCallback((key: number) => {
+    setEntries((prev) => prev.filter((e) => e.key !== key));
+  }, []);
+
+  const addCondition = useCallback((condition: RuleCondition) => {
+    setEntries((prev) =>
+      prev.length >= MAX_RULE_CONDITIONS ? prev : [...prev, { key: nextKey.current++, condition }]
+    );
+  }, []);
+
+  const handleSave = useCallback(async () => {
+    if (!selectedStockId || validateRule(rule)) return;
+
+    // Request permission if not granted
+    if (!hasPermission) {
+      const granted = await requestPermission();
+      if (!granted) return;
+    }
+
+    setLoading(true);
+    try {
+      const alert = await addPriceAlert({
+        stockId: selectedStockId,
+        stockName: selectedStock?.name ?? stockName ?? selectedStockId,
+        type: "rule",
+        rule,
+      });
+
+      if (alert) {
+        onClose();
+        setMatch("all");
+        setEntries([{ key: nextKey.current++, condition: DEFAULT_CONDITIONS.cross }]);
+      }
+    } finally {
+      setLoading(false);
+    }
+  }, [selectedStockId, selectedStock, stockName, rule, hasPermission, requestPermission, addPriceAlert, onClose]);
+
+  const sectionLabel = {
+    fontFamily: FontFamily.semibold,
+    textTransform: "uppercase" as const,
+    letterSpacing: 0.8,
+    marginBottom: 8,
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <KeyboardAvoidingView behavior={Platform.OS === "ios" ? "padding" : "height"} style={styles.overlay}>
+        <AnimatedPressable
+          variant="card"
+          style={[styles.backdrop, { backgroundColor: colorAlpha(colors.background, 0.5) }]}
+          onPress={onClose}
+          haptic={false}
+          accessibilityLabel="Close modal"
+          accessibilityHint="Closes the rule builder without saving"
+          accessibilityRole="button"
+        />
+        <View
+          style={[styles.sheet, { backgroundColor: colors.background, borderColor: colors.border }]}
+          accessible={false}
+          accessibilityLabel="Rule alert builder"
+        >
+          <View style={styles.handleContainer}>
+            <View style={[styles.handle, { backgroundColor: colorAlpha(colors.muted, 0.25) }]} />
+          </View>
+
+          <ScrollView showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+            <View style={styles.sheetHeader}>
+              <Title3 style={{ fontFamily: FontFamily.bold }}>New Rule Alert</Title3>
+              <Caption1 color="muted">
+                {selectedStock
+                  ? `${selectedStock.name} · Current: €${selectedStock.price.toFixed(2)}`
+                  : "Pick a stock and the conditions to watch for"}
+              </Caption1>
+            </View>
+
+            {/* Stock */}
+            {!stockId && (
+              <View style={styles.section}>
+                <Footnote color="muted" style={sectionLabel}>
+                  Stock
+                </Footnote>
+                <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+                  {stocks.map((s) => (
+                    <CDSChip
+                      key={s.id}
+                      label={s.ticker}
+                      selected={s.id === selectedStockId}
+                      onPress={() => setSelectedStockId(s.id)}
+                    />
+                  ))}
+                </ScrollView>
+              </View>
+            )}
+
+            {/* Match */}
+            <View style={styles.section}>
+              <Footnote color="muted" style={sectionLabel}>
+                Trigger When
+              </Footnote>
+              <View style={styles.chipRow}>
+                <CDSChip
+                  label="All conditions (AND)"
+                  selected={match === "all"}
+                  onPress={() => setMatch("all")}
+                />
+                <CDSChip
+                  label="Any condition (OR)"
+                  selected={match === "any"}
+                  onPress={() => setMatch("any")}
+                />
+              </View>
+            </View>
+
+            {/* Conditions */}
+            <View style={[styles.section, { gap: 8 }]}>
+              {entries.map(({ key, condition }) => (
+                <ConditionEditor
+                  key={key}
+                  condition={condition}
+                  onChange={(next) => updateCondition(key, next)}
+                  onRemove={() => removeCondition(key)}
+                />
+              ))}
+            </View>
+
+            {entries.length < MAX_RULE_CONDITIONS && (
+              <View style={styles.section}>
+                <Footnote color="muted" style={sectionLabel}>
+                  Add Condition
+                </Footnote>
+                <View style={[styles.chipRow, { flexWrap: "wrap" }]}>
+                  {TEMPLATES.map((t) => (
+                    <CDSChip key={t.template} label={`+ ${t.label}`} onPress={() => addCondition(t.condition)} />
+                  ))}
+                </View>
+              </View>
+            )}
+
+            {/* Preview */}
+            <View style={[styles.preview, { backgroundColor: colorAlpha(colors.primary, 0.1) }]}>
+              <Body style={{ fontFamily: FontFamily.medium }}>
+                {entries.length > 0 ? describeRule(rule) : "No conditions yet"}
+              </Body>
+              {error && entries.length > 0 && (
+                <Caption1 style={{ color: colors.error, marginTop: 4 }}>{error}</Caption1>
+              )}
+              <Caption1 color="muted" style={{ marginTop: 4 }}>
+                Checked during market hours on daily bars; fires at most once per session.
+              </Caption1>
+            </View>
+
+            <AlertBacktestRow
+              stockId={selectedStockId}
+              type="rule"
+              rule={rule}
+              disabled={error !== null || !canManageAlerts}
+            />
+
+            {!canManageAlerts && (
+              <Caption1 color="muted" style={{ textAlign: "center", marginBottom: 8 }}>
+                Sign in to save price alerts to your account and get them on all your devices.
+              </Caption1>
+            )}
+
+            <CDSButton
+              variant="primary"
+              onPress={handleSave}
+              disabled={!selectedStockId || error !== null || loading || !canManageAlerts}
+              loading={loading}
+              accessibilityLabel="Create rule alert"
+              accessibilityHint="Creates a rule alert for the selected stock"
+            >
+              <Body style={{ fontFamily: FontFamily.semibold, textAlign: "center" }}>
+                {loading ? "Saving..." : "Create Alert"}
+              </Body>
+            </CDSButton>
+
+            <View style={{ height: 20 }} />
+          </ScrollView>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
+
+// ─── Styles ─────────────────────────────────────────────────────────────────
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: "flex-end",
+  },
+  backdrop: {
+    ...StyleSheet.absoluteFillObject,
+  },
+  sheet: {
+    maxHeight: "90%",
+    borderTopLeftRadius: Radius[500],
+    borderTopRightRadius: Radius[500],
+    borderWidth: StyleSheet.hairlineWidth,
+    borderBottomWidth: 0,
+    paddingHorizontal: 20,
+    paddingBottom: Platform.OS === "ios" ? 34 : 20,
+  },
+  handleContainer: {
+    alignItems: "center",
+    paddingTop: 10,
+    paddingBottom: 8,
+  },
+  handle: {
+    width: 36,
+    height: 4,
+    borderRadius: 2,
+  },
+  sheetHeader: {
+    paddingVertical: 12,
+    gap: 4,
+  },
+  section: {
+    paddingVertical: 8,
+  },
+  chipRow: {
+    flexDirection: "row",
+    gap: 8,
+  },
+  conditionCard: {
+    padding: 12,
+    borderRadius: 14,
+    borderWidth: StyleSheet.hairlineWidth,
+    gap: 10,
+  },
+  conditionHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+  },
+  removeButton: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: Radius[200],
+  },
+  fieldRow: {
+    flexDirection: "row",
+    gap: 8,
+  },
+  field: {
+    flex: 1,
+    gap: 4,
+  },
+  fieldInput: {
+    flexDirection: "row",
+    alignItems: "center",
+    borderRadius: 10,
+    borderWidth: StyleSheet.hairlineWidth,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    gap: 4,
+  },
+  input: {
+    flex: 1,
+    fontSize: 16,
+    padding: 0,
+  },
+  preview: {
+    padding: 12,
+    borderRadius: 14,
+    marginVertical: 12,
+  },
+});
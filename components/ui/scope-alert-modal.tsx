@@ -0,0 +1,298 @@
+/**
+ * Scope Alert Modal
+ *
+ * Bottom sheet for alerts that watch more than one stock: the demo
+ * portfolio's total value or daily P&L, a holding dropping on the day, or
+ * anything on the watchlist moving more than the percentThreshold
+ * preference. Portfolios and watchlists are read on the server, so these
+ * alerts need a signed-in account.
+ */
+import React, { useState, useCallback } from "react";
+import {
+  View,
+  Modal,
+  ScrollView,
+  StyleSheet,
+  TextInput,
+  Platform,
+  KeyboardAvoidingView,
+} from "react-native";
+import { useColors, colorAlpha } from "@/hooks/use-colors";
+import { AnimatedPressable } from "@/components/ui/animated-pressable";
+import { CDSButton } from "@/components/ui/cds-button";
+import { CDSChip } from "@/components/ui/cds-chip";
+import { useNotifications } from "@/lib/notification-context";
+import { Title3, Body, Caption1 } from "@/components/ui/typography";
+import { Footnote } from "@/components/ui/cds-typography";
+import { FontFamily } from "@/constants/typography";
+import { Radius } from "@/constants/spacing";
+import type { AlertScope, AlertType } from "@/server/priceAlertService";
+
+// ─── Types ──────────────────────────────────────────────────────────────────
+
+interface ScopeAlertModalProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+interface ScopeAlertOption {
+  key: string;
+  label: string;
+  scope: AlertScope;
+  type: AlertType;
+  /** Threshold field label and unit; watchlist alerts have none */
+  input: { label: string; unit: "€" | "%"; placeholder: string } | null;
+}
+
+const OPTIONS: ScopeAlertOption[] = [
+  {
+    key: "value_above",
+    label: "Value above",
+    scope: "portfolio",
+    type: "above",
+    input: { label: "Portfolio value at least", unit: "€", placeholder: "110000" },
+  },
+  {
+    key: "value_below",
+    label: "Value below",
+    scope: "portfolio",
+    type: "below",
+    input: { label: "Portfolio value at most", unit: "€", placeholder: "90000" },
+  },
+  {
+    key: "pnl_gain",
+    label: "Daily gain",
+    scope: "portfolio",
+    type: "pnl_gain",
+    input: { label: "Up today by at least", unit: "€", placeholder: "500" },
+  },
+  {
+    key: "pnl_loss",
+    label: "Daily loss",
+    scope: "portfolio",
+    type: "pnl_loss",
+    input: { label: "Down today by at least", unit: "€", placeholder: "500" },
+  },
+  {
+    key: "holding_drop",
+    label: "Holding drops",
+    scope: "portfolio",
+    type: "holding_drop",
+    input: { label: "Any holding down by at least", unit: "%", placeholder: "5" },
+  },
+  { key: "watchlist", label: "Watchlist movers", scope: "watchlist", type: "percent_change", input: null },
+];
+
+// ─── Component ──────────────────────────────────────────────────────────────
+
+export function ScopeAlertModal({ visible, onClose }: ScopeAlertModalProps) {
+  const colors = useColors();
+  const { addPriceAlert, canManageAlerts, hasPermission, requestPermission, preferences } = useNotifications();
+
+  const [option, setOption] = useState<ScopeAlertOption>(OPTIONS[0]);
+  const [inputValue, setInputValue] = useState("");
+  const [loading, setLoading] = useState(false);
+
+  const value = parseFloat(inputValue);
+  const valid = option.input === null || (!isNaN(value) && value > 0);
+
+  const handleSave = useCallback(async () => {
+    if (!valid) return;
+
+    // Request permission if not granted
+    if (!hasPermission) {
+      const granted = await requestPermission();
+      if (!granted) return;
+    }
+
+    setLoading(true);
+    try {
+      const alert = await addPriceAlert({
+        scope: option.scope,
+        type: option.type,
+        threshold: option.input ? value : undefined,
+      });
+
+      if (alert) {
+        setInputValue("");
+        onClose();
+      }
+    } finally {
+      setLoading(false);
+    }
+  }, [valid, hasPermission, requestPermission, addPriceAlert, option, value, onClose]);
+
+  const sectionLabel = {
+    fontFamily: FontFamily.semibold,
+    textTransform: "uppercase" as const,
+    letterSpacing: 0.8,
+    marginBottom: 8,
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <KeyboardAvoidingView behavior={Platform.OS === "ios" ? "padding" : "height"} style={styles.overlay}>
+        <AnimatedPressable
+          variant="card"
+          style={[styles.backdrop, { backgroundColor: colorAlpha(colors.background, 0.5) }]}
+          onPress={onClose}
+          haptic={false}
+          accessibilityLabel="Close modal"
+          accessibilityHint="Closes the alert form without saving"
+          accessibilityRole="button"
+        />
+        <View
+          style={[styles.sheet, { backgroundColor: colors.background, borderColor: colors.border }]}
+          accessible={false}
+          accessibilityLabel="Portfolio and watchlist alert form"
+        >
+          <View style={styles.handleContainer}>
+            <View style={[styles.handle, { backgroundColor: colorAlpha(colors.muted, 0.25) }]} />
+          </View>
+
+          <ScrollView showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+            <View style={styles.sheetHeader}>
+              <Title3 style={{ fontFamily: FontFamily.bold }}>Portfolio & Watchlist Alert</Title3>
+              <Caption1 color="muted">Get notified about your whole demo portfolio or watchlist</Caption1>
+            </View>
+
+            <View style={styles.section}>
+              <Footnote color="muted" style={sectionLabel}>
+                Portfolio
+              </Footnote>
+              <View style={[styles.chipRow, { flexWrap: "wrap" }]}>
+                {OPTIONS.filter((o) => o.scope === "portfolio").map((o) => (
+                  <CDSChip key={o.key} label={o.label} selected={o.key === option.key} onPress={() => setOption(o)} />
+                ))}
+              </View>
+            </View>
+
+            <View style={styles.section}>
+              <Footnote color="muted" style={sectionLabel}>
+                Watchlist
+              </Footnote>
+              <View style={styles.chipRow}>
+                {OPTIONS.filter((o) => o.scope === "watchlist").map((o) => (
+                  <CDSChip key={o.key} label={o.label} selected={o.key === option.key} onPress={() => setOption(o)} />
+                ))}
+              </View>
+            </View>
+
+            {option.input ? (
+              <View style={styles.section}>
+                <Caption1 color="muted" style={{ marginBottom: 4 }}>
+                  {option.input.label}
+                </Caption1>
+                <View style={[styles.inputRow, { backgroundColor: colors.surface, borderColor: colors.border }]}>
+                  {option.input.unit === "€" && <Body color="muted">€</Body>}
+                  <TextInput
+                    style={[styles.input, { color: colors.foreground, fontFamily: FontFamily.semibold }]}
+                    value={inputValue}
+                    onChangeText={setInputValue}
+                    placeholder={option.input.placeholder}
+                    placeholderTextColor={colors.muted}
+                    keyboardType="decimal-pad"
+                    returnKeyType="done"
+                    accessibilityLabel={option.input.label}
+                  />
+                  {option.input.unit === "%" && <Body color="muted">%</Body>}
+                </View>
+              </View>
+            ) : (
+              <View style={[styles.preview, { backgroundColor: colorAlpha(colors.primary, 0.1) }]}>
+                <Body style={{ fontFamily: FontFamily.medium }}>
+                  Any watchlist stock moving ±{preferences?.percentThreshold ?? 5}% on the day
+                </Body>
+                <Caption1 color="muted" style={{ marginTop: 4 }}>
+                  Uses the % threshold from your notification settings. Each stock is announced once per session.
+                </Caption1>
+              </View>
+            )}
+
+            {!canManageAlerts && (
+              <Caption1 color="muted" style={{ textAlign: "center", marginBottom: 8 }}>
+                Sign in to save portfolio and watchlist alerts to your account.
+              </Caption1>
+            )}
+
+            <CDSButton
+              variant="primary"
+              onPress={handleSave}
+              disabled={!valid || loading || !canManageAlerts}
+              loading={loading}
+              accessibilityLabel="Create alert"
+              accessibilityHint="Creates a portfolio or watchlist alert"
+            >
+              <Body style={{ fontFamily: FontFamily.semibold, textAlign: "center" }}>
+                {loading ? "Saving..." : "Create Alert"}
+              </Body>
+            </CDSButton>
+
+            <View style={{ height: 20 }} />
+          </ScrollView>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
+
+// ─── Styles ─────────────────────────────────────────────────────────────────
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: "flex-end",
+  },
+  backdrop: {
+    ...StyleSheet.absoluteFillObject,
+  },
+  sheet: {
+    maxHeight: "90%",
+    borderTopLeftRadius: Radius[500],
+    borderTopRightRadius: Radius[500],
+    borderWidth: StyleSheet.hairlineWidth,
+    borderBottomWidth: 0,
+    paddingHorizontal: 20,
+    paddingBottom: Platform.OS === "ios" ? 34 : 20,
+  },
+  handleContainer: {
+    alignItems: "center",
+    paddingTop: 10,
+    paddingBottom: 8,
+  },
+  handle: {
+    width: 36,
+    height: 4,
+    borderRadius: 2,
+  },
+  sheetHeader: {
+    paddingVertical: 12,
+    gap: 4,
+  },
+  section: {
+    paddingVertical: 8,
+  },
+  chipRow: {
+    flexDirection: "row",
+    gap: 8,
+  },
+  inputRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    borderRadius: 10,
+    borderWidth: StyleSheet.hairlineWidth,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    gap: 4,
+  },
+  input: {
+    flex: 1,
+    fontSize: 16,
+    padding: 0,
+  },
+  preview: {
+    padding: 12,
+    borderRadius: 14,
+    marginVertical: 12,
+  },
+});
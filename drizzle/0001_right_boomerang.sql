@@ -0,0 +1,42 @@
+CREATE TABLE `holdings` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`portfolioId` int NOT NULL,
+	`stockId` varchar(32) NOT NULL,
+	`ticker` varchar(32) NOT NULL,
+	`name` varchar(255) NOT NULL,
+	`shares` double NOT NULL,
+	`totalCost` double NOT NULL,
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `holdings_id` PRIMARY KEY(`id`),
+	CONSTRAINT `holdings_portfolio_stock_idx` UNIQUE(`portfolioId`,`stockId`)
+);
+--> statement-breakpoint
+CREATE TABLE `portfolios` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`userId` int NOT NULL,
+	`balance` double NOT NULL,
+	`xp` int NOT NULL DEFAULT 0,
+	`streak` int NOT NULL DEFAULT 0,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `portfolios_id` PRIMARY KEY(`id`),
+	CONSTRAINT `portfolios_userId_unique` UNIQUE(`userId`)
+);
+--> statement-breakpoint
+CREATE TABLE `trades` (
+	`id` varchar(64) NOT NULL,
+	`portfolioId` int NOT NULL,
+	`stockId` varchar(32) NOT NULL,
+	`ticker` varchar(32) NOT NULL,
+	`name` varchar(255) NOT NULL,
+	`type` enum('buy','sell') NOT NULL,
+	`amount` double NOT NULL,
+	`shares` double NOT NULL,
+	`price` double NOT NULL,
+	`executedAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `trades_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `users` ADD `avatarUrl` varchar(512);--> statement-breakpoint
+ALTER TABLE `users` ADD `useFaceHash` boolean DEFAULT true NOT NULL;--> statement-breakpoint
+CREATE INDEX `trades_portfolio_executed_idx` ON `trades` (`portfolioId`,`executedAt`);
\ No newline at end of file
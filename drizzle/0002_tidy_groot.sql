@@ -0,0 +1,24 @@
+CREATE TABLE `orders` (
+	`id` varchar(64) NOT NULL,
+	`portfolioId` int NOT NULL,
+	`stockId` varchar(32) NOT NULL,
+	`ticker` varchar(32) NOT NULL,
+	`name` varchar(255) NOT NULL,
+	`side` enum('buy','sell') NOT NULL,
+	`orderType` enum('limit','stop','stop_limit') NOT NULL,
+	`shares` double NOT NULL,
+	`limitPrice` double,
+	`stopPrice` double,
+	`timeInForce` enum('day','gtc') NOT NULL DEFAULT 'gtc',
+	`status` enum('open','filled','cancelled','expired','rejected') NOT NULL DEFAULT 'open',
+	`stopTriggered` boolean NOT NULL DEFAULT false,
+	`statusReason` varchar(255),
+	`tradeId` varchar(64),
+	`expiresAt` timestamp,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `orders_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE INDEX `orders_portfolio_status_idx` ON `orders` (`portfolioId`,`status`);--> statement-breakpoint
+CREATE INDEX `orders_status_idx` ON `orders` (`status`);
\ No newline at end of file
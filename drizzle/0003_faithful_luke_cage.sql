@@ -0,0 +1,14 @@
+CREATE TABLE `price_bars` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`stockId` varchar(32) NOT NULL,
+	`interval` varchar(8) NOT NULL,
+	`timestamp` bigint NOT NULL,
+	`open` double NOT NULL,
+	`high` double NOT NULL,
+	`low` double NOT NULL,
+	`close` double NOT NULL,
+	`volume` double NOT NULL,
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `price_bars_id` PRIMARY KEY(`id`),
+	CONSTRAINT `price_bars_stock_interval_ts_idx` UNIQUE(`stockId`,`interval`,`timestamp`)
+);
@@ -0,0 +1,67 @@
+CREATE TABLE `alert_triggers` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`alertId` varchar(64) NOT NULL,
+	`deviceId` varchar(128) NOT NULL,
+	`stockId` varchar(32) NOT NULL,
+	`price` double NOT NULL,
+	`previousPrice` double,
+	`title` varchar(255) NOT NULL,
+	`body` text NOT NULL,
+	`status` enum('sent','failed') NOT NULL,
+	`triggeredAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `alert_triggers_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `job_leases` (
+	`name` varchar(64) NOT NULL,
+	`holder` varchar(128) NOT NULL,
+	`expiresAt` bigint NOT NULL,
+	CONSTRAINT `job_leases_name` PRIMARY KEY(`name`)
+);
+--> statement-breakpoint
+CREATE TABLE `last_known_prices` (
+	`stockId` varchar(32) NOT NULL,
+	`price` double NOT NULL,
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `last_known_prices_stockId` PRIMARY KEY(`stockId`)
+);
+--> statement-breakpoint
+CREATE TABLE `notification_preferences` (
+	`deviceId` varchar(128) NOT NULL,
+	`priceAlerts` boolean NOT NULL DEFAULT true,
+	`dailyChallenge` boolean NOT NULL DEFAULT true,
+	`socialActivity` boolean NOT NULL DEFAULT false,
+	`marketNews` boolean NOT NULL DEFAULT true,
+	`percentThreshold` double NOT NULL DEFAULT 5,
+	`quietHoursStart` int,
+	`quietHoursEnd` int,
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `notification_preferences_deviceId` PRIMARY KEY(`deviceId`)
+);
+--> statement-breakpoint
+CREATE TABLE `price_alerts` (
+	`id` varchar(64) NOT NULL,
+	`deviceId` varchar(128) NOT NULL,
+	`stockId` varchar(32) NOT NULL,
+	`stockName` varchar(255) NOT NULL,
+	`type` enum('above','below','percent_change') NOT NULL,
+	`threshold` double NOT NULL,
+	`enabled` boolean NOT NULL DEFAULT true,
+	`lastTriggered` bigint,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `price_alerts_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `push_devices` (
+	`deviceId` varchar(128) NOT NULL,
+	`pushToken` varchar(255) NOT NULL,
+	`platform` enum('ios','android','web') NOT NULL,
+	`lastSeen` timestamp NOT NULL DEFAULT (now()),
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `push_devices_deviceId` PRIMARY KEY(`deviceId`)
+);
+--> statement-breakpoint
+CREATE INDEX `alert_triggers_device_triggered_idx` ON `alert_triggers` (`deviceId`,`triggeredAt`);--> statement-breakpoint
+CREATE INDEX `alert_triggers_alert_idx` ON `alert_triggers` (`alertId`);--> statement-breakpoint
+CREATE INDEX `price_alerts_device_idx` ON `price_alerts` (`deviceId`);--> statement-breakpoint
+CREATE INDEX `price_alerts_enabled_stock_idx` ON `price_alerts` (`enabled`,`stockId`);
\ No newline at end of file
@@ -0,0 +1,30 @@
+DROP INDEX `alert_triggers_device_triggered_idx` ON `alert_triggers`;--> statement-breakpoint
+ALTER TABLE `alert_triggers` MODIFY COLUMN `deviceId` varchar(128);--> statement-breakpoint
+ALTER TABLE `price_alerts` MODIFY COLUMN `deviceId` varchar(128);--> statement-breakpoint
+CREATE TABLE `device_notification_preferences` (
+	`deviceId` varchar(128) NOT NULL,
+	`priceAlerts` boolean NOT NULL DEFAULT true,
+	`dailyChallenge` boolean NOT NULL DEFAULT true,
+	`socialActivity` boolean NOT NULL DEFAULT false,
+	`marketNews` boolean NOT NULL DEFAULT true,
+	`percentThreshold` double NOT NULL DEFAULT 5,
+	`quietHoursStart` int,
+	`quietHoursEnd` int,
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `device_notification_preferences_deviceId` PRIMARY KEY(`deviceId`)
+);
+--> statement-breakpoint
+-- Preferences move from devices to accounts. No device has an account yet, so
+-- each device's row waits here until the device is claimed.
+INSERT INTO `device_notification_preferences` (`deviceId`, `priceAlerts`, `dailyChallenge`, `socialActivity`, `marketNews`, `percentThreshold`, `quietHoursStart`, `quietHoursEnd`, `updatedAt`) SELECT `deviceId`, `priceAlerts`, `dailyChallenge`, `socialActivity`, `marketNews`, `percentThreshold`, `quietHoursStart`, `quietHoursEnd`, `updatedAt` FROM `notification_preferences`;--> statement-breakpoint
+DELETE FROM `notification_preferences`;--> statement-breakpoint
+ALTER TABLE `notification_preferences` DROP PRIMARY KEY;--> statement-breakpoint
+ALTER TABLE `notification_preferences` DROP COLUMN `deviceId`;--> statement-breakpoint
+ALTER TABLE `notification_preferences` ADD `userId` int NOT NULL;--> statement-breakpoint
+ALTER TABLE `notification_preferences` ADD PRIMARY KEY(`userId`);--> statement-breakpoint
+ALTER TABLE `alert_triggers` ADD `userId` int;--> statement-breakpoint
+ALTER TABLE `price_alerts` ADD `userId` int;--> statement-breakpoint
+ALTER TABLE `push_devices` ADD `userId` int;--> statement-breakpoint
+CREATE INDEX `alert_triggers_user_triggered_idx` ON `alert_triggers` (`userId`,`triggeredAt`);--> statement-breakpoint
+CREATE INDEX `price_alerts_user_idx` ON `price_alerts` (`userId`);--> statement-breakpoint
+CREATE INDEX `push_devices_user_idx` ON `push_devices` (`userId`);
@@ -0,0 +1,2 @@
+ALTER TABLE `price_alerts` MODIFY COLUMN `type` enum('above','below','percent_change','rule') NOT NULL;--> statement-breakpoint
+ALTER TABLE `price_alerts` ADD `rule` json;
\ No newline at end of file
@@ -0,0 +1,15 @@
+CREATE TABLE `watchlist_items` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`userId` int NOT NULL,
+	`stockId` varchar(32) NOT NULL,
+	`addedAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `watchlist_items_id` PRIMARY KEY(`id`),
+	CONSTRAINT `watchlist_items_user_stock_idx` UNIQUE(`userId`,`stockId`)
+);
+--> statement-breakpoint
+DROP INDEX `alert_triggers_alert_idx` ON `alert_triggers`;--> statement-breakpoint
+ALTER TABLE `alert_triggers` MODIFY COLUMN `stockId` varchar(32);--> statement-breakpoint
+ALTER TABLE `price_alerts` MODIFY COLUMN `stockId` varchar(32);--> statement-breakpoint
+ALTER TABLE `price_alerts` MODIFY COLUMN `type` enum('above','below','percent_change','rule','pnl_gain','pnl_loss','holding_drop') NOT NULL;--> statement-breakpoint
+ALTER TABLE `price_alerts` ADD `scope` enum('stock','portfolio','watchlist') DEFAULT 'stock' NOT NULL;--> statement-breakpoint
+CREATE INDEX `alert_triggers_alert_idx` ON `alert_triggers` (`alertId`,`triggeredAt`);
\ No newline at end of file
@@ -0,0 +1,19 @@
+CREATE TABLE `held_notifications` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`userId` int,
+	`deviceId` varchar(128),
+	`category` enum('alerts','news','challenge','social') NOT NULL,
+	`title` varchar(255) NOT NULL,
+	`body` text NOT NULL,
+	`data` json NOT NULL,
+	`deliverAt` bigint NOT NULL,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `held_notifications_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `alert_triggers` MODIFY COLUMN `status` enum('sent','failed','held') NOT NULL;--> statement-breakpoint
+ALTER TABLE `notification_preferences` ADD `timezone` varchar(64) DEFAULT 'Europe/Athens' NOT NULL;--> statement-breakpoint
+ALTER TABLE `notification_preferences` ADD `schedules` json;--> statement-breakpoint
+ALTER TABLE `notification_preferences` ADD `heldDelivery` enum('when_quiet_ends','morning_digest') DEFAULT 'when_quiet_ends' NOT NULL;--> statement-breakpoint
+ALTER TABLE `notification_preferences` ADD `digestHour` int DEFAULT 8 NOT NULL;--> statement-breakpoint
+CREATE INDEX `held_notifications_deliver_idx` ON `held_notifications` (`deliverAt`);
\ No newline at end of file
@@ -0,0 +1,22 @@
+CREATE TABLE `push_messages` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`notificationId` varchar(64) NOT NULL,
+	`pushToken` varchar(255) NOT NULL,
+	`title` varchar(255) NOT NULL,
+	`body` text NOT NULL,
+	`data` json NOT NULL,
+	`status` enum('queued','sent','delivered','failed','unregistered') NOT NULL,
+	`attempts` int NOT NULL DEFAULT 0,
+	`nextAttemptAt` bigint NOT NULL,
+	`ticketId` varchar(64),
+	`error` text,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `push_messages_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `alert_triggers` MODIFY COLUMN `status` enum('queued','sent','failed','held') NOT NULL;--> statement-breakpoint
+ALTER TABLE `alert_triggers` ADD `notificationId` varchar(64);--> statement-breakpoint
+ALTER TABLE `held_notifications` ADD `notificationId` varchar(64) NOT NULL;--> statement-breakpoint
+CREATE INDEX `push_messages_due_idx` ON `push_messages` (`status`,`nextAttemptAt`);--> statement-breakpoint
+CREATE INDEX `push_messages_notification_idx` ON `push_messages` (`notificationId`);
\ No newline at end of file
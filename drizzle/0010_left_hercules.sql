@@ -0,0 +1,14 @@
+CREATE TABLE `notifications` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`userId` int NOT NULL,
+	`notificationId` varchar(64) NOT NULL,
+	`category` enum('alerts','news','challenge','social') NOT NULL,
+	`title` varchar(255) NOT NULL,
+	`body` text NOT NULL,
+	`data` json NOT NULL,
+	`read` boolean NOT NULL DEFAULT false,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `notifications_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE INDEX `notifications_user_idx` ON `notifications` (`userId`,`id`);
\ No newline at end of file
@@ -0,0 +1,14 @@
+CREATE TABLE `alert_evaluations` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`alertId` varchar(64) NOT NULL,
+	`userId` int,
+	`deviceId` varchar(128),
+	`outcome` enum('not_met','fired','cooling_down','claimed_elsewhere','no_data') NOT NULL,
+	`price` double,
+	`count` int NOT NULL DEFAULT 1,
+	`firstEvaluatedAt` bigint NOT NULL,
+	`lastEvaluatedAt` bigint NOT NULL,
+	CONSTRAINT `alert_evaluations_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE INDEX `alert_evaluations_alert_idx` ON `alert_evaluations` (`alertId`,`id`);
\ No newline at end of file
@@ -0,0 +1,13 @@
+CREATE TABLE `news_pushes` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`userId` int NOT NULL,
+	`articleKey` varchar(64) NOT NULL,
+	`stockId` varchar(32),
+	`reason` enum('stock','market','sentiment') NOT NULL,
+	`title` varchar(255) NOT NULL,
+	`pushedAt` bigint NOT NULL,
+	CONSTRAINT `news_pushes_id` PRIMARY KEY(`id`),
+	CONSTRAINT `news_pushes_user_article_idx` UNIQUE(`userId`,`articleKey`)
+);
+--> statement-breakpoint
+CREATE INDEX `news_pushes_user_pushed_idx` ON `news_pushes` (`userId`,`pushedAt`);
\ No newline at end of file
@@ -0,0 +1,32 @@
+CREATE TABLE `news_articles` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`stockId` varchar(32) NOT NULL,
+	`articleKey` varchar(64) NOT NULL,
+	`title` varchar(512) NOT NULL,
+	`source` varchar(128) NOT NULL,
+	`url` text NOT NULL,
+	`language` enum('en','el'),
+	`kind` enum('news','announcement','ir') NOT NULL DEFAULT 'news',
+	`sentiment` enum('bullish','bearish','neutral') NOT NULL,
+	`publishedAt` bigint NOT NULL,
+	`day` varchar(10) NOT NULL,
+	`firstSeenAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `news_articles_id` PRIMARY KEY(`id`),
+	CONSTRAINT `news_articles_stock_article_idx` UNIQUE(`stockId`,`articleKey`)
+);
+--> statement-breakpoint
+CREATE TABLE `news_sentiment_days` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`stockId` varchar(32) NOT NULL,
+	`day` varchar(10) NOT NULL,
+	`articles` int NOT NULL,
+	`bullish` int NOT NULL,
+	`bearish` int NOT NULL,
+	`neutral` int NOT NULL,
+	`score` double NOT NULL,
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `news_sentiment_days_id` PRIMARY KEY(`id`),
+	CONSTRAINT `news_sentiment_days_stock_day_idx` UNIQUE(`stockId`,`day`)
+);
+--> statement-breakpoint
+CREATE INDEX `news_articles_stock_day_idx` ON `news_articles` (`stockId`,`day`);
\ No newline at end of file
@@ -0,0 +1,12 @@
+CREATE TABLE `daily_briefs` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`day` varchar(10) NOT NULL,
+	`headline` varchar(255) NOT NULL,
+	`bullets` json NOT NULL,
+	`stocks` json NOT NULL,
+	`sources` json NOT NULL,
+	`model` varchar(128) NOT NULL,
+	`generatedAt` bigint NOT NULL,
+	CONSTRAINT `daily_briefs_id` PRIMARY KEY(`id`),
+	CONSTRAINT `daily_briefs_day_unique` UNIQUE(`day`)
+);
@@ -1,4 +1,19 @@
-import { boolean, int, mysqlEnum, mysqlTable, text, timestamp, varchar } from "drizzle-orm/mysql-core";
+import {
+  bigint,
+  boolean,
+  double,
+  index,
+  int,
+  json,
+  mysqlEnum,
+  mysqlTable,
+  text,
+  timestamp,
+  uniqueIndex,
+  varchar,
+} from "drizzle-orm/mysql-core";
+import type { AlertRule } from "../shared/alert-rules.js";
+import type { DeliveryWindow, NotificationCategory } from "../shared/notification-schedule.js";
 
 /**
  * Core user table backing auth flow.
@@ -29,4 +44,566 @@ export const users = mysqlTable("users", {
 export type User = typeof users.$inferSelect;
 export type InsertUser = typeof users.$inferInsert;
 
-// TODO: Add your tables here
+/**
+ * Demo (paper-trading) portfolio — one per user.
+ * Mirrors the client-side DemoState so a signed-in user's history survives reinstalls.
+ */
+export const portfolios = mysqlTable("portfolios", {
+  id: int("id").autoincrement().primaryKey(),
+  /** Owner — references users.id. */
+  userId: int("userId").notNull().unique(),
+  /** Uninvested cash in EUR. */
+  balance: double("balance").notNull(),
+  xp: int("xp").default(0).notNull(),
+  streak: int("streak").default(0).notNull(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+});
+
+export type Portfolio = typeof portfolios.$inferSelect;
+export type InsertPortfolio = typeof portfolios.$inferInsert;
+
+/** Current position in a single stock. One row per (portfolio, stock). */
+export const holdings = mysqlTable(
+  "holdings",
+  {
+    id: int("id").autoincrement().primaryKey(),
+    portfolioId: int("portfolioId").notNull(),
+    /** Internal AGRX stock ID (key of ATHEX_SYMBOLS). */
+    stockId: varchar("stockId", { length: 32 }).notNull(),
+    ticker: varchar("ticker", { length: 32 }).notNull(),
+    name: varchar("name", { length: 255 }).notNull(),
+    shares: double("shares").notNull(),
+    /** Total cost paid for all shares (avgCost = totalCost / shares). */
+    totalCost: double("totalCost").notNull(),
+    updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+  },
+  (table) => [uniqueIndex("holdings_portfolio_stock_idx").on(table.portfolioId, table.stockId)],
+);
+
+export type HoldingRow = typeof holdings.$inferSelect;
+export type InsertHolding = typeof holdings.$inferInsert;
+
+/** Immutable trade log. */
+export const trades = mysqlTable(
+  "trades",
+  {
+    /** Same `trade-<ts>-<rand>` format the client generates for local trades. */
+    id: varchar("id", { length: 64 }).primaryKey(),
+    portfolioId: int("portfolioId").notNull(),
+    stockId: varchar("stockId", { length: 32 }).notNull(),
+    ticker: varchar("ticker", { length: 32 }).notNull(),
+    name: varchar("name", { length: 255 }).notNull(),
+    type: mysqlEnum("type", ["buy", "sell"]).notNull(),
+    /** EUR value of the trade. */
+    amount: double("amount").notNull(),
+    shares: double("shares").notNull(),
+    price: double("price").notNull(),
+    executedAt: timestamp("executedAt").defaultNow().notNull(),
+  },
+  (table) => [index("trades_portfolio_executed_idx").on(table.portfolioId, table.executedAt)],
+);
+
+export type TradeRow = typeof trades.$inferSelect;
+export type InsertTrade = typeof trades.$inferInsert;
+
+/**
+ * Pending limit / stop / stop-limit orders for the demo portfolio.
+ * Evaluated by the server check loop; a fill is recorded as a normal trade.
+ */
+export const orders = mysqlTable(
+  "orders",
+  {
+    /** `order-<ts>-<rand>` */
+    id: varchar("id", { length: 64 }).primaryKey(),
+    portfolioId: int("portfolioId").notNull(),
+    stockId: varchar("stockId", { length: 32 }).notNull(),
+    ticker: varchar("ticker", { length: 32 }).notNull(),
+    name: varchar("name", { length: 255 }).notNull(),
+    side: mysqlEnum("side", ["buy", "sell"]).notNull(),
+    orderType: mysqlEnum("orderType", ["limit", "stop", "stop_limit"]).notNull(),
+    /** Quantity to trade — fixed at placement from amount / order price. */
+    shares: double("shares").notNull(),
+    /** Required for limit and stop_limit. */
+    limitPrice: double("limitPrice"),
+    /** Required for stop and stop_limit. */
+    stopPrice: double("stopPrice"),
+    timeInForce: mysqlEnum("timeInForce", ["day", "gtc"]).default("gtc").notNull(),
+    status: mysqlEnum("status", ["open", "filled", "cancelled", "expired", "rejected"])
+      .default("open")
+      .notNull(),
+    /** Set once a stop_limit's stop price is hit; it then rests as a limit order. */
+    stopTriggered: boolean("stopTriggered").default(false).notNull(),
+    /** Why the order was rejected at fill time (e.g. insufficient balance). */
+    statusReason: varchar("statusReason", { length: 255 }),
+    /** The trade recorded when this order filled. */
+    tradeId: varchar("tradeId", { length: 64 }),
+    /** Session close for day orders; null for good-till-cancelled. */
+    expiresAt: timestamp("expiresAt"),
+    createdAt: timestamp("createdAt").defaultNow().notNull(),
+    updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+  },
+  (table) => [
+    index("orders_portfolio_status_idx").on(table.portfolioId, table.status),
+    index("orders_status_idx").on(table.status),
+  ],
+);
+
+export type OrderRow = typeof orders.$inferSelect;
+export type InsertOrder = typeof orders.$inferInsert;
+
+/**
+ * Historical OHLCV bars, one row per (stock, interval, bar start).
+ * Filled incrementally by the price history backfill; charts read from here
+ * first and only fetch the missing tail from the market data provider.
+ */
+export const priceBars = mysqlTable(
+  "price_bars",
+  {
+    id: int("id").autoincrement().primaryKey(),
+    /** Internal AGRX stock ID (key of ATHEX_SYMBOLS). */
+    stockId: varchar("stockId", { length: 32 }).notNull(),
+    /** Stored bar size: "5m", "15m" or "1d". */
+    interval: varchar("interval", { length: 8 }).notNull(),
+    /** Bar start, unix seconds (same as ChartDataPoint.timestamp). */
+    timestamp: bigint("timestamp", { mode: "number" }).notNull(),
+    open: double("open").notNull(),
+    high: double("high").notNull(),
+    low: double("low").notNull(),
+    close: double("close").notNull(),
+    volume: double("volume").notNull(),
+    updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+  },
+  (table) => [
+    uniqueIndex("price_bars_stock_interval_ts_idx").on(table.stockId, table.interval, table.timestamp),
+  ],
+);
+
+export type PriceBarRow = typeof priceBars.$inferSelect;
+export type InsertPriceBar = typeof priceBars.$inferInsert;
+
+/**
+ * Devices registered for push notifications, keyed by the client-generated
+ * device ID. A device is anonymous until a signed-in user registers it;
+ * after that it receives the pushes for that account's alerts.
+ */
+export const pushDevices = mysqlTable(
+  "push_devices",
+  {
+    deviceId: varchar("deviceId", { length: 128 }).primaryKey(),
+    /** Owning account (users.id); null for anonymous demo devices. */
+    userId: int("userId"),
+    /** Expo push token (ExponentPushToken[...]). */
+    pushToken: varchar("pushToken", { length: 255 }).notNull(),
+    platform: mysqlEnum("platform", ["ios", "android", "web"]).notNull(),
+    lastSeen: timestamp("lastSeen").defaultNow().notNull(),
+    createdAt: timestamp("createdAt").defaultNow().notNull(),
+  },
+  (table) => [index("push_devices_user_idx").on(table.userId)],
+);
+
+export type PushDeviceRow = typeof pushDevices.$inferSelect;
+export type InsertPushDevice = typeof pushDevices.$inferInsert;
+
+/** Per-account notification preferences, shared by all of the user's devices. */
+export const notificationPreferences = mysqlTable("notification_preferences", {
+  userId: int("userId").primaryKey(),
+  priceAlerts: boolean("priceAlerts").default(true).notNull(),
+  dailyChallenge: boolean("dailyChallenge").default(true).notNull(),
+  socialActivity: boolean("socialActivity").default(false).notNull(),
+  marketNews: boolean("marketNews").default(true).notNull(),
+  /** Minimum percentage change to trigger a notification. */
+  percentThreshold: double("percentThreshold").default(5).notNull(),
+  /** Quiet hours, hour of day 0-23 in `timezone`; both null = off. */
+  quietHoursStart: int("quietHoursStart"),
+  quietHoursEnd: int("quietHoursEnd"),
+  /** IANA timezone quiet hours and schedules are read in. */
+  timezone: varchar("timezone", { length: 64 }).default("Europe/Athens").notNull(),
+  /** Delivery window per category; missing categories are delivered any time. */
+  schedules: json("schedules").$type<Partial<Record<NotificationCategory, DeliveryWindow>>>(),
+  heldDelivery: mysqlEnum("heldDelivery", ["when_quiet_ends", "morning_digest"])
+    .default("when_quiet_ends")
+    .notNull(),
+  /** Local hour of the morning digest. */
+  digestHour: int("digestHour").default(8).notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+});
+
+export type NotificationPreferencesRow = typeof notificationPreferences.$inferSelect;
+export type InsertNotificationPreferences = typeof notificationPreferences.$inferInsert;
+
+/**
+ * Preferences devices set before preferences moved to accounts. A row is
+ * copied to the account that claims its device (unless the account has its
+ * own) and then removed.
+ */
+export const devicePreferences = mysqlTable("device_notification_preferences", {
+  deviceId: varchar("deviceId", { length: 128 }).primaryKey(),
+  priceAlerts: boolean("priceAlerts").default(true).notNull(),
+  dailyChallenge: boolean("dailyChallenge").default(true).notNull(),
+  socialActivity: boolean("socialActivity").default(false).notNull(),
+  marketNews: boolean("marketNews").default(true).notNull(),
+  percentThreshold: double("percentThreshold").default(5).notNull(),
+  quietHoursStart: int("quietHoursStart"),
+  quietHoursEnd: int("quietHoursEnd"),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+});
+
+export type DevicePreferencesRow = typeof devicePreferences.$inferSelect;
+
+/**
+ * Price alerts, checked by the server alert loop. Owned by an account
+ * (userId), or by an anonymous device until that device is claimed. Stock
+ * alerts watch one stock; portfolio and watchlist alerts watch the owner's
+ * demo portfolio or watchlist and have no stockId.
+ */
+export const priceAlerts = mysqlTable(
+  "price_alerts",
+  {
+    /** `alert-<ts>-<rand>` */
+    id: varchar("id", { length: 64 }).primaryKey(),
+    userId: int("userId"),
+    /** Anonymous owner; cleared when the device is claimed by an account. */
+    deviceId: varchar("deviceId", { length: 128 }),
+    scope: mysqlEnum("scope", ["stock", "portfolio", "watchlist"]).default("stock").notNull(),
+    stockId: varchar("stockId", { length: 32 }),
+    /** Stock name, or the portfolio / watchlist label. */
+    stockName: varchar("stockName", { length: 255 }).notNull(),
+    type: mysqlEnum("type", [
+      "above",
+      "below",
+      "percent_change",
+      "rule",
+      "pnl_gain",
+      "pnl_loss",
+      "holding_drop",
+    ]).notNull(),
+    /**
+     * Target price (or portfolio value) for above/below, EUR for pnl_*,
+     * percentage for percent_change and holding_drop, 0 for rule.
+     */
+    threshold: double("threshold").notNull(),
+    /** Conditions of a "rule" alert (shared/alert-rules). */
+    rule: json("rule").$type<AlertRule>(),
+    enabled: boolean("enabled").default(true).notNull(),
+    /**
+     * Last send, unix ms. Also the cross-instance claim: an instance only
+     * pushes after moving this forward past the cooldown.
+     */
+    lastTriggered: bigint("lastTriggered", { mode: "number" }),
+    createdAt: timestamp("createdAt").defaultNow().notNull(),
+  },
+  (table) => [
+    index("price_alerts_user_idx").on(table.userId),
+    index("price_alerts_device_idx").on(table.deviceId),
+    index("price_alerts_enabled_stock_idx").on(table.enabled, table.stockId),
+  ],
+);
+
+export type PriceAlertRow = typeof priceAlerts.$inferSelect;
+export type InsertPriceAlert = typeof priceAlerts.$inferInsert;
+
+/** Append-only log of every alert the loop fired, whether or not the push went through. */
+export const alertTriggers = mysqlTable(
+  "alert_triggers",
+  {
+    id: int("id").autoincrement().primaryKey(),
+    alertId: varchar("alertId", { length: 64 }).notNull(),
+    /** Alert owner at the time it fired: an account, or an anonymous device. */
+    userId: int("userId"),
+    deviceId: varchar("deviceId", { length: 128 }),
+    /** Stock that moved; null for portfolio value and P&L alerts. */
+    stockId: varchar("stockId", { length: 32 }),
+    /** Stock price, or portfolio value / P&L for portfolio alerts. */
+    price: double("price").notNull(),
+    /** Previous close when the alert fired (percent_change reference). */
+    previousPrice: double("previousPrice"),
+    title: varchar("title", { length: 255 }).notNull(),
+    body: text("body").notNull(),
+    /**
+     * Outcome when the loop finished: "held" = queued in held_notifications by
+     * quiet hours or a schedule, "queued" = waiting for a push retry.
+     */
+    status: mysqlEnum("status", ["queued", "sent", "failed", "held"]).notNull(),
+    /** push_messages.notificationId, for the delivery status on each device. */
+    notificationId: varchar("notificationId", { length: 64 }),
+    triggeredAt: timestamp("triggeredAt").defaultNow().notNull(),
+  },
+  (table) => [
+    index("alert_triggers_user_triggered_idx").on(table.userId, table.triggeredAt),
+    index("alert_triggers_alert_idx").on(table.alertId, table.triggeredAt),
+  ],
+);
+
+export type AlertTriggerRow = typeof alertTriggers.$inferSelect;
+export type InsertAlertTrigger = typeof alertTriggers.$inferInsert;
+
+/**
+ * Audit log of alert checks. Consecutive checks of an alert with the same
+ * outcome share a row (count, first and last check), so an alert checked
+ * every 30 seconds adds a row only when its outcome changes.
+ */
+export const alertEvaluations = mysqlTable(
+  "alert_evaluations",
+  {
+    id: int("id").autoincrement().primaryKey(),
+    alertId: varchar("alertId", { length: 64 }).notNull(),
+    userId: int("userId"),
+    deviceId: varchar("deviceId", { length: 128 }),
+    /**
+     * "not_met" = condition false, "cooling_down" = within the cooldown after
+     * firing, "claimed_elsewhere" = another instance fired it first,
+     * "no_data" = the prices or portfolio it watches were unavailable.
+     */
+    outcome: mysqlEnum("outcome", ["not_met", "fired", "cooling_down", "claimed_elsewhere", "no_data"]).notNull(),
+    /** Stock price or portfolio value at the latest check; null if unknown. */
+    price: double("price"),
+    count: int("count").default(1).notNull(),
+    firstEvaluatedAt: bigint("firstEvaluatedAt", { mode: "number" }).notNull(),
+    lastEvaluatedAt: bigint("lastEvaluatedAt", { mode: "number" }).notNull(),
+  },
+  (table) => [index("alert_evaluations_alert_idx").on(table.alertId, table.id)],
+);
+
+export type AlertEvaluationRow = typeof alertEvaluations.$inferSelect;
+export type InsertAlertEvaluation = typeof alertEvaluations.$inferInsert;
+
+/** Price seen at the last alert check, per stock (reference for rule crosses). */
+export const lastKnownPrices = mysqlTable("last_known_prices", {
+  stockId: varchar("stockId", { length: 32 }).primaryKey(),
+  price: double("price").notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+});
+
+export type LastKnownPriceRow = typeof lastKnownPrices.$inferSelect;
+
+/**
+ * Time-limited leases for background jobs, so only one server instance runs
+ * a job at a time. The holder renews by re-acquiring before `expiresAt`.
+ */
+export const jobLeases = mysqlTable("job_leases", {
+  name: varchar("name", { length: 64 }).primaryKey(),
+  /** Instance ID of the current holder. */
+  holder: varchar("holder", { length: 128 }).notNull(),
+  /** Unix ms; anyone may take the lease after this. */
+  expiresAt: bigint("expiresAt", { mode: "number" }).notNull(),
+});
+
+export type JobLeaseRow = typeof jobLeases.$inferSelect;
+
+/** Signed-in users' watchlists, one row per (user, stock). */
+export const watchlistItems = mysqlTable(
+  "watchlist_items",
+  {
+    id: int("id").autoincrement().primaryKey(),
+    userId: int("userId").notNull(),
+    /** Internal AGRX stock ID (key of ATHEX_SYMBOLS). */
+    stockId: varchar("stockId", { length: 32 }).notNull(),
+    addedAt: timestamp("addedAt").defaultNow().notNull(),
+  },
+  (table) => [uniqueIndex("watchlist_items_user_stock_idx").on(table.userId, table.stockId)],
+);
+
+export type WatchlistItemRow = typeof watchlistItems.$inferSelect;
+export type InsertWatchlistItem = typeof watchlistItems.$inferInsert;
+
+/**
+ * Notifications held by quiet hours or a category's delivery window, sent
+ * one by one or as a morning digest once `deliverAt` passes.
+ */
+export const heldNotifications = mysqlTable(
+  "held_notifications",
+  {
+    id: int("id").autoincrement().primaryKey(),
+    /** Kept when the notification is sent (push_messages.notificationId). */
+    notificationId: varchar("notificationId", { length: 64 }).notNull(),
+    /** Recipient: an account, or an anonymous device. */
+    userId: int("userId"),
+    deviceId: varchar("deviceId", { length: 128 }),
+    category: mysqlEnum("category", ["alerts", "news", "challenge", "social"]).notNull(),
+    title: varchar("title", { length: 255 }).notNull(),
+    body: text("body").notNull(),
+    data: json("data").$type<Record<string, string>>().notNull(),
+    /** Unix ms it may be sent. */
+    deliverAt: bigint("deliverAt", { mode: "number" }).notNull(),
+    createdAt: timestamp("createdAt").defaultNow().notNull(),
+  },
+  (table) => [index("held_notifications_deliver_idx").on(table.deliverAt)],
+);
+
+export type HeldNotificationRow = typeof heldNotifications.$inferSelect;
+export type InsertHeldNotification = typeof heldNotifications.$inferInsert;
+
+/**
+ * Outgoing Expo pushes, one row per notification and device token. Queued
+ * messages are sent in batches and retried with backoff; sent ones wait
+ * for their push receipt. `nextAttemptAt` is when the message is next due
+ * (a send, a retry or a receipt check), and is moved forward while an
+ * instance works on it.
+ */
+export const pushMessages = mysqlTable(
+  "push_messages",
+  {
+    id: int("id").autoincrement().primaryKey(),
+    /** Shared by the messages of one notification to all of a recipient's devices. */
+    notificationId: varchar("notificationId", { length: 64 }).notNull(),
+    pushToken: varchar("pushToken", { length: 255 }).notNull(),
+    title: varchar("title", { length: 255 }).notNull(),
+    body: text("body").notNull(),
+    data: json("data").$type<Record<string, string>>().notNull(),
+    /** "unregistered" = Expo reported DeviceNotRegistered and the device was removed. */
+    status: mysqlEnum("status", ["queued", "sent", "delivered", "failed", "unregistered"]).notNull(),
+    /** Send attempts so far. */
+    attempts: int("attempts").default(0).notNull(),
+    /** Unix ms. */
+    nextAttemptAt: bigint("nextAttemptAt", { mode: "number" }).notNull(),
+    /** Expo push ticket ID, used to fetch the receipt. */
+    ticketId: varchar("ticketId", { length: 64 }),
+    /** Last error from Expo or the network. */
+    error: text("error"),
+    createdAt: timestamp("createdAt").defaultNow().notNull(),
+    updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+  },
+  (table) => [
+    index("push_messages_due_idx").on(table.status, table.nextAttemptAt),
+    index("push_messages_notification_idx").on(table.notificationId),
+  ],
+);
+
+export type PushMessageRow = typeof pushMessages.$inferSelect;
+export type InsertPushMessage = typeof pushMessages.$inferInsert;
+
+/**
+ * Each account's notification inbox: every notification addressed to the
+ * user, whether or not a device received the push, with its read state
+ * shared by all of the user's devices.
+ */
+export const notifications = mysqlTable(
+  "notifications",
+  {
+    id: int("id").autoincrement().primaryKey(),
+    userId: int("userId").notNull(),
+    /** push_messages.notificationId of the push that carried it. */
+    notificationId: varchar("notificationId", { length: 64 }).notNull(),
+    category: mysqlEnum("category", ["alerts", "news", "challenge", "social"]).notNull(),
+    title: varchar("title", { length: 255 }).notNull(),
+    body: text("body").notNull(),
+    /** The push's data payload (stock, alert, notification type). */
+    data: json("data").$type<Record<string, string>>().notNull(),
+    read: boolean("read").default(false).notNull(),
+    createdAt: timestamp("createdAt").defaultNow().notNull(),
+  },
+  (table) => [index("notifications_user_idx").on(table.userId, table.id)],
+);
+
+export type NotificationRow = typeof notifications.$inferSelect;
+export type InsertNotification = typeof notifications.$inferInsert;
+
+/**
+ * Market news pushed to each account: one row per (user, story), so a story
+ * carried by several sources is pushed once, and the daily cap counts rows.
+ */
+export const newsPushes = mysqlTable(
+  "news_pushes",
+  {
+    id: int("id").autoincrement().primaryKey(),
+    userId: int("userId").notNull(),
+    /** Hash of the normalized headline, or the sentiment shift's stock and day. */
+    articleKey: varchar("articleKey", { length: 64 }).notNull(),
+    stockId: varchar("stockId", { length: 32 }),
+    /** "stock" = held, watched or alerted stock, "sentiment" = strong sentiment shift. */
+    reason: mysqlEnum("reason", ["stock", "market", "sentiment"]).notNull(),
+    title: varchar("title", { length: 255 }).notNull(),
+    /** Unix ms. */
+    pushedAt: bigint("pushedAt", { mode: "number" }).notNull(),
+  },
+  (table) => [
+    uniqueIndex("news_pushes_user_article_idx").on(table.userId, table.articleKey),
+    index("news_pushes_user_pushed_idx").on(table.userId, table.pushedAt),
+  ],
+);
+
+export type NewsPushRow = typeof newsPushes.$inferSelect;
+export type InsertNewsPush = typeof newsPushes.$inferInsert;
+
+/**
+ * Archive of the news served per stock, so sentiment can be followed over
+ * time after the in-memory news caches have expired. A story is stored once
+ * per stock; its label is updated when the story is analyzed again.
+ */
+export const newsArticles = mysqlTable(
+  "news_articles",
+  {
+    id: int("id").autoincrement().primaryKey(),
+    /** Internal AGRX stock ID (key of ATHEX_SYMBOLS). */
+    stockId: varchar("stockId", { length: 32 }).notNull(),
+    /** Hash of the normalized headline. */
+    articleKey: varchar("articleKey", { length: 64 }).notNull(),
+    title: varchar("title", { length: 512 }).notNull(),
+    source: varchar("source", { length: 128 }).notNull(),
+    url: text("url").notNull(),
+    language: mysqlEnum("language", ["en", "el"]),
+    kind: mysqlEnum("kind", ["news", "announcement", "ir"]).default("news").notNull(),
+    sentiment: mysqlEnum("sentiment", ["bullish", "bearish", "neutral"]).notNull(),
+    /** Unix ms. */
+    publishedAt: bigint("publishedAt", { mode: "number" }).notNull(),
+    /** Athens date of publishedAt, "YYYY-MM-DD". */
+    day: varchar("day", { length: 10 }).notNull(),
+    firstSeenAt: timestamp("firstSeenAt").defaultNow().notNull(),
+  },
+  (table) => [
+    uniqueIndex("news_articles_stock_article_idx").on(table.stockId, table.articleKey),
+    index("news_articles_stock_day_idx").on(table.stockId, table.day),
+  ],
+);
+
+export type NewsArticleRow = typeof newsArticles.$inferSelect;
+export type InsertNewsArticle = typeof newsArticles.$inferInsert;
+
+/**
+ * Daily news sentiment per stock, recomputed from news_articles whenever
+ * articles published that day are archived or relabeled.
+ */
+export const newsSentimentDays = mysqlTable(
+  "news_sentiment_days",
+  {
+    id: int("id").autoincrement().primaryKey(),
+    stockId: varchar("stockId", { length: 32 }).notNull(),
+    /** Athens date, "YYYY-MM-DD". */
+    day: varchar("day", { length: 10 }).notNull(),
+    articles: int("articles").notNull(),
+    bullish: int("bullish").notNull(),
+    bearish: int("bearish").notNull(),
+    neutral: int("neutral").notNull(),
+    /** (bullish - bearish) / articles, -1 to 1. */
+    score: double("score").notNull(),
+    updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+  },
+  (table) => [uniqueIndex("news_sentiment_days_stock_day_idx").on(table.stockId, table.day)],
+);
+
+export type NewsSentimentDayRow = typeof newsSentimentDays.$inferSelect;
+
+/**
+ * The AI daily market brief, one per Athens trading day. The stocks' moves
+ * are taken from the quotes, not from the model.
+ */
+export const dailyBriefs = mysqlTable("daily_briefs", {
+  id: int("id").autoincrement().primaryKey(),
+  /** Athens date, "YYYY-MM-DD". */
+  day: varchar("day", { length: 10 }).notNull().unique(),
+  headline: varchar("headline", { length: 255 }).notNull(),
+  bullets: json("bullets").$type<string[]>().notNull(),
+  /** Stocks the brief mentions, with their moves on the day. */
+  stocks: json("stocks")
+    .$type<{ stockId: string; ticker: string; name: string; price: number; changePercent: number }[]>()
+    .notNull(),
+  /** Articles the brief cites. */
+  sources: json("sources").$type<{ title: string; source: string; url: string }[]>().notNull(),
+  model: varchar("model", { length: 128 }).notNull(),
+  /** Unix ms. */
+  generatedAt: bigint("generatedAt", { mode: "number" }).notNull(),
+});
+
+export type DailyBriefRow = typeof dailyBriefs.$inferSelect;
+export type InsertDailyBrief = typeof dailyBriefs.$inferInsert;
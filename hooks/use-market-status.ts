@@ -1,39 +1,48 @@
 /**
- * useMarketStatus — Check if ATHEX (Athens Stock Exchange) is currently open
+ * useMarketStatus — Current ATHEX (Athens Stock Exchange) session status
  *
- * ATHEX Trading Hours:
- * - Monday-Friday: 10:00 - 17:00 Athens time (EET/EEST)
- * - Saturday-Sunday: Closed
+ * Backed by the shared market calendar (`shared/market-calendar.ts`), so it
+ * accounts for Greek exchange holidays (including Orthodox Easter) and the
+ * session phases, all in Athens time (EET/EEST):
+ * - 10:00–10:30 Pre-open auction
+ * - 10:30–17:20 Continuous trading
+ * - 17:20–17:30 Closing auction
  *
- * @returns Object with isMarketOpen boolean
+ * Re-evaluates every 30 seconds so phase changes show without a remount.
+ *
+ * @returns isMarketOpen plus phase, holiday and next open / close times
  *
  * Usage:
- *   const { isMarketOpen } = useMarketStatus();
+ *   const { isMarketOpen, phase, nextOpen } = useMarketStatus();
  */
-import { useMemo } from "react";
+import { useEffect, useState } from "react";
+import { getMarketSession, type MarketPhase } from "@shared/market-calendar";
+
+/** How often to re-check the session phase */
+const REFRESH_INTERVAL_MS = 30_000;
 
 interface MarketStatusResult {
   isMarketOpen: boolean;
+  phase: MarketPhase;
+  /** Today's exchange holiday name, if any */
+  holiday: string | null;
+  nextOpen: Date;
+  nextClose: Date;
 }
 
 export function useMarketStatus(): MarketStatusResult {
-  const isMarketOpen = useMemo(() => {
-    const now = new Date();
-
-    // Get current time in Athens timezone
-    const athensTime = new Date(
-      now.toLocaleString("en-US", { timeZone: "Europe/Athens" })
-    );
-
-    // Check if it's a weekday (Monday=1, Friday=5)
-    const isWeekday = athensTime.getDay() >= 1 && athensTime.getDay() <= 5;
-
-    // Get current hour in Athens (0-23)
-    const athensHour = athensTime.getHours();
+  const [session, setSession] = useState(() => getMarketSession());
 
-    // ATHEX is open 10:00-17:00 on weekdays
-    return isWeekday && athensHour >= 10 && athensHour < 17;
-  }, []); // Empty deps - recalculates on every render for time-based status
+  useEffect(() => {
+    const timer = setInterval(() => setSession(getMarketSession()), REFRESH_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, []);
 
-  return { isMarketOpen };
+  return {
+    isMarketOpen: session.isOpen,
+    phase: session.phase,
+    holiday: session.holiday,
+    nextOpen: session.nextOpen,
+    nextClose: session.nextClose,
+  };
 }
@@ -1,10 +1,21 @@
 /**
  * AGRX News Hooks
  *
- * NEWS API IS CURRENTLY DISABLED.
- * These hooks return empty/idle results to prevent API calls.
- * Re-enable by uncommenting the trpc queries below.
+ * THE LIVE NEWS API IS CURRENTLY DISABLED.
+ * useStockNews and useMarketNews return empty/idle results to prevent API
+ * calls. useSentimentHistory reads the archived daily sentiment and
+ * useDailyBrief the stored daily market brief, which cost no news fetches.
+ * useMoveExplanation explains a sharp move of one stock, once per day.
  */
+import { useMemo } from "react";
+import { useDataSource } from "@/lib/data-source-context";
+import { sentimentHistoryStart, sentimentPerBar } from "@/lib/news-sentiment";
+import { trpc } from "@/lib/trpc";
+import type { ChartDataPoint } from "@/server/stockService";
+
+const SENTIMENT_HISTORY_STALE_MS = 15 * 60 * 1000;
+const DAILY_BRIEF_STALE_MS = 15 * 60 * 1000;
+const MOVE_EXPLANATION_STALE_MS = 15 * 60 * 1000;
 
 /**
  * Hook to fetch news and sentiment for a specific stock.
@@ -35,3 +46,70 @@ export function useMarketNews() {
     isFetching: false,
   };
 }
+
+/**
+ * Archived daily news sentiment over the span of a chart, one score per bar
+ * (null where there was no news). Empty in mock mode.
+ */
+export function useSentimentHistory(stockId: string, bars: ChartDataPoint[]) {
+  const { forceMock } = useDataSource();
+  const from = sentimentHistoryStart(bars);
+  const query = trpc.news.getSentimentHistory.useQuery(
+    { stockId, from: from ?? "" },
+    {
+      enabled: !forceMock && !!stockId && from !== null,
+      staleTime: SENTIMENT_HISTORY_STALE_MS,
+      retry: 1,
+    },
+  );
+
+  const days = useMemo(() => (query.data?.success ? query.data.data : []), [query.data]);
+  const perBar = useMemo(() => sentimentPerBar(bars, days), [bars, days]);
+
+  return {
+    days,
+    /** Score per bar of `bars`, -1 to 1 */
+    perBar,
+    hasNews: perBar.some((s) => s !== null),
+    isLoading: query.isLoading,
+  };
+}
+
+/**
+ * The latest AI daily market brief; null until one has been written.
+ * Not fetched in mock mode.
+ */
+export function useDailyBrief() {
+  const { forceMock } = useDataSource();
+  const query = trpc.news.getDailyBrief.useQuery(undefined, {
+    enabled: !forceMock,
+    staleTime: DAILY_BRIEF_STALE_MS,
+    retry: 1,
+  });
+
+  return {
+    brief: query.data?.success ? query.data.data : null,
+    isLoading: query.isLoading,
+  };
+}
+
+/**
+ * Why a stock is moving today; null while its move is below the server's
+ * threshold. Not fetched in mock mode.
+ */
+export function useMoveExplanation(stockId: string) {
+  const { forceMock } = useDataSource();
+  const query = trpc.news.getMoveExplanation.useQuery(
+    { stockId },
+    {
+      enabled: !forceMock && !!stockId,
+      staleTime: MOVE_EXPLANATION_STALE_MS,
+      retry: 1,
+    },
+  );
+
+  return {
+    explanation: query.data?.success ? query.data.data : null,
+    isLoading: query.isLoading,
+  };
+}
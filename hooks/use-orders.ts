@@ -0,0 +1,125 @@
+/**
+ * AGRX Pending Order Hooks
+ *
+ * Limit, stop and stop-limit orders for the signed-in demo portfolio.
+ * Orders are stored and filled server-side, so these hooks are idle for
+ * signed-out users (market orders only).
+ *
+ * When a resting order fills, the portfolio query is invalidated so the
+ * new trade, holding and balance show up in DemoContext.
+ */
+import { useCallback, useEffect, useRef } from "react";
+import { trpc } from "@/lib/trpc";
+import { useAuth } from "@/hooks/use-auth";
+import type { OrderSide, OrderType, PendingOrder, TimeInForce } from "@/server/orderService";
+
+export type { OrderSide, OrderType, PendingOrder, TimeInForce };
+
+/** How often to poll for fills while a screen shows orders */
+const ORDER_REFRESH_INTERVAL = 60_000;
+
+export interface OrderTerms {
+  /** EUR notional at the order price */
+  amount: number;
+  limitPrice?: number | null;
+  stopPrice?: number | null;
+  timeInForce: TimeInForce;
+}
+
+export interface PlaceOrderInput extends OrderTerms {
+  stockId: string;
+  side: OrderSide;
+  orderType: OrderType;
+}
+
+export interface OrderActionResult {
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * Open and recently closed orders, plus place / modify / cancel actions.
+ */
+export function useOrders() {
+  const { isAuthenticated } = useAuth();
+  const utils = trpc.useUtils();
+
+  const listQuery = trpc.orders.list.useQuery(undefined, {
+    enabled: isAuthenticated,
+    refetchInterval: ORDER_REFRESH_INTERVAL,
+  });
+  const { mutateAsync: placeMutation } = trpc.orders.place.useMutation();
+  const { mutateAsync: modifyMutation } = trpc.orders.modify.useMutation();
+  const { mutateAsync: cancelMutation } = trpc.orders.cancel.useMutation();
+
+  const openOrders: PendingOrder[] = listQuery.data?.data.open ?? [];
+  const recentOrders: PendingOrder[] = listQuery.data?.data.recent ?? [];
+
+  // Refresh the portfolio when a fill we haven't seen yet appears
+  const seenFills = useRef<Set<string> | null>(null);
+  useEffect(() => {
+    if (!listQuery.data) return;
+    const filledIds = listQuery.data.data.recent.filter((o) => o.status === "filled").map((o) => o.id);
+    if (seenFills.current && filledIds.some((id) => !seenFills.current!.has(id))) {
+      utils.portfolio.load.invalidate();
+    }
+    seenFills.current = new Set(filledIds);
+  }, [listQuery.data, utils]);
+
+  const run = useCallback(
+    async (action: () => Promise<{ success: boolean; error?: string }>): Promise<OrderActionResult> => {
+      try {
+        const result = await action();
+        await utils.orders.list.invalidate();
+        return result.success ? { success: true } : { success: false, error: result.error };
+      } catch {
+        return { success: false, error: "Couldn't reach the trading server. Please try again." };
+      }
+    },
+    [utils],
+  );
+
+  const placeOrder = useCallback(
+    (input: PlaceOrderInput) => run(() => placeMutation(input)),
+    [run, placeMutation],
+  );
+
+  const modifyOrder = useCallback(
+    (orderId: string, terms: OrderTerms) => run(() => modifyMutation({ orderId, ...terms })),
+    [run, modifyMutation],
+  );
+
+  const cancelOrder = useCallback(
+    (orderId: string) => run(() => cancelMutation({ orderId })),
+    [run, cancelMutation],
+  );
+
+  return {
+    /** Pending orders need a signed-in account */
+    isAvailable: isAuthenticated,
+    isLoading: listQuery.isLoading && isAuthenticated,
+    openOrders,
+    recentOrders,
+    placeOrder,
+    modifyOrder,
+    cancelOrder,
+    refetch: listQuery.refetch,
+  };
+}
+
+/**
+ * Short label for an order's type and price terms, e.g. "Limit €12.40"
+ * or "Stop €9.80 · Limit €9.70".
+ */
+export function describeOrderTerms(order: Pick<PendingOrder, "orderType" | "limitPrice" | "stopPrice">): string {
+  const limit = order.limitPrice != null ? `€${order.limitPrice.toFixed(2)}` : "";
+  const stop = order.stopPrice != null ? `€${order.stopPrice.toFixed(2)}` : "";
+  switch (order.orderType) {
+    case "limit":
+      return `Limit ${limit}`;
+    case "stop":
+      return `Stop ${stop}`;
+    case "stop_limit":
+      return `Stop ${stop} · Limit ${limit}`;
+  }
+}
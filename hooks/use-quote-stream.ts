@@ -0,0 +1,30 @@
+/**
+ * useQuoteStream — Live quotes for a set of symbols from the shared stream
+ *
+ * Subscribes the given symbols on the app-wide quote stream connection
+ * (lib/quote-stream.ts) for as long as the component is mounted, and
+ * re-renders when streamed quotes arrive.
+ *
+ * Usage:
+ *   const { quotes, status } = useQuoteStream(["opap", "ete"]);
+ *   const opap = quotes.get("opap");
+ */
+import { useEffect, useMemo, useSyncExternalStore } from "react";
+import {
+  getQuoteStreamSnapshot,
+  subscribeToQuoteStream,
+  subscribeToSymbols,
+  type QuoteStreamSnapshot,
+} from "@/lib/quote-stream";
+
+export function useQuoteStream(symbols: string[]): QuoteStreamSnapshot {
+  // Stable key so a new array with the same symbols doesn't resubscribe
+  const key = useMemo(() => Array.from(new Set(symbols)).sort().join(","), [symbols]);
+
+  useEffect(() => {
+    if (!key) return;
+    return subscribeToSymbols(key.split(","));
+  }, [key]);
+
+  return useSyncExternalStore(subscribeToQuoteStream, getQuoteStreamSnapshot, getQuoteStreamSnapshot);
+}
@@ -1,15 +1,32 @@
 /**
- * Client-side hooks for ATHEX stock data using mock data.
+ * Client-side hooks for ATHEX stock data.
  *
- * Mock-only mode for instant, reliable data without API dependencies.
- * All data is deterministic and uses realistic ATHEX tickers and prices.
+ * Quotes and charts come from the stocks tRPC router through React Query,
+ * with live prices from the shared quote stream (hooks/use-quote-stream)
+ * layered on top for the stocks a screen streams (useStreamedStocks).
+ * Deterministic mock data (realistic ATHEX tickers and prices) renders
+ * instantly and fills in per symbol whenever the server or its data
+ * provider has nothing for it.
+ *
+ * Every quote carries a `source`:
+ * - "live"  — server or stream data updated within STALE_AFTER_MS
+ * - "stale" — server data that has stopped updating (provider down, cached)
+ * - "mock"  — no server data for this symbol, or mock mode forced in settings
  */
 import { GREEK_STOCKS, PORTFOLIO_HOLDINGS, generateChartData } from "@/lib/mock-data";
 import type { Asset } from "@/lib/mock-data";
 import { getSector, type Sector } from "@/lib/sectors";
-import { useMemo } from "react";
+import type { StreamedQuote } from "@/lib/quote-stream";
+import { useQuoteStream } from "@/hooks/use-quote-stream";
+import { useDataSource } from "@/lib/data-source-context";
+import { trpc } from "@/lib/trpc";
+import type { ChartDataPoint, StockQuote } from "@/server/stockService";
+import { useCallback, useEffect, useMemo, useState } from "react";
 
 // ─── Types ──────────────────────────────────────────────────────────────────
+
+export type QuoteSource = "live" | "stale" | "mock";
+
 export interface LiveStockQuote {
   id: string;
   ticker: string;
@@ -28,11 +45,41 @@ export interface LiveStockQuote {
   fiftyTwoWeekLow: number;
   currency: string;
   isLive: boolean;
+  source: QuoteSource;
+  /** When the price was last updated upstream, or null for mock data */
+  lastUpdated: number | null;
 }
 
+type ChartRange = "1D" | "1W" | "1M" | "3M" | "1Y" | "ALL";
+
+// ─── Constants ──────────────────────────────────────────────────────────────
+
+/** Server data older than this is shown as stale rather than live */
+export const STALE_AFTER_MS = 5 * 60 * 1000;
+
+const QUOTES_REFETCH_MS = 60_000;
+const CHART_STALE_MS_1D = 60_000;
+const CHART_STALE_MS_OTHER = 5 * 60 * 1000;
+
+/** Re-evaluate live vs stale even when no new data arrives */
+const SOURCE_TICK_MS = 30_000;
+
+const CHART_RANGES: ChartRange[] = ["1D", "1W", "1M", "3M", "1Y", "ALL"];
+const NO_SYMBOLS: string[] = [];
+
+/** Approximate spacing of mock chart points per range, for tooltip dates */
+const MOCK_BAR_SECONDS: Record<string, number> = {
+  "1D": 10 * 60,
+  "1W": 60 * 60,
+  "1M": 24 * 60 * 60,
+  "3M": 24 * 60 * 60,
+  "1Y": 24 * 60 * 60,
+  ALL: 60 * 60 * 60,
+};
+
 // ─── Helpers ────────────────────────────────────────────────────────────────
 
-/** Convert a mock Asset to a LiveStockQuote with isLive: false */
+/** Convert a mock Asset to a LiveStockQuote with source "mock" */
 function mockToQuote(s: Asset): LiveStockQuote {
   return {
     id: s.id,
@@ -52,95 +99,298 @@ function mockToQuote(s: Asset): LiveStockQuote {
     fiftyTwoWeekLow: s.price * 0.8,
     currency: "EUR",
     isLive: false,
+    source: "mock",
+    lastUpdated: null,
   };
 }
 
+function sourceForAge(lastUpdated: number, now: number): QuoteSource {
+  return now - lastUpdated > STALE_AFTER_MS ? "stale" : "live";
+}
+
+/** Replace the mock base with a server quote, keeping mock fields the server lacks */
+function applyServerQuote(base: LiveStockQuote, server: StockQuote | undefined): LiveStockQuote {
+  if (!server || !(server.price > 0)) return base;
+  return {
+    ...base,
+    name: server.name || base.name,
+    price: server.price,
+    change: server.change,
+    changePercent: server.changePercent,
+    dayHigh: server.dayHigh,
+    dayLow: server.dayLow,
+    volume: server.volume,
+    sparkline: server.sparkline.length > 1 ? server.sparkline : base.sparkline,
+    marketCap: server.marketCap || base.marketCap,
+    fiftyTwoWeekHigh: server.fiftyTwoWeekHigh || base.fiftyTwoWeekHigh,
+    fiftyTwoWeekLow: server.fiftyTwoWeekLow || base.fiftyTwoWeekLow,
+    currency: server.currency || base.currency,
+    lastUpdated: server.lastUpdated,
+  };
+}
+
+/** Overlay a streamed quote when it is newer than what we already have */
+function applyStreamedQuote(base: LiveStockQuote, live: StreamedQuote | undefined): LiveStockQuote {
+  if (!live || (base.lastUpdated !== null && live.lastUpdated <= base.lastUpdated)) return base;
+  return {
+    ...base,
+    price: live.price,
+    change: live.change,
+    changePercent: live.changePercent,
+    dayHigh: live.dayHigh,
+    dayLow: live.dayLow,
+    volume: live.volume,
+    sparkline: live.sparkline && live.sparkline.length > 1 ? live.sparkline : base.sparkline,
+    marketCap: live.marketCap ?? base.marketCap,
+    fiftyTwoWeekHigh: live.fiftyTwoWeekHigh || base.fiftyTwoWeekHigh,
+    fiftyTwoWeekLow: live.fiftyTwoWeekLow || base.fiftyTwoWeekLow,
+    lastUpdated: live.lastUpdated,
+  };
+}
+
+/** Combine mock, server and stream data for one symbol and label its source */
+function resolveQuote(
+  mock: LiveStockQuote,
+  server: StockQuote | undefined,
+  streamed: StreamedQuote | undefined,
+  now: number,
+): LiveStockQuote {
+  const quote = applyStreamedQuote(applyServerQuote(mock, server), streamed);
+  if (quote.lastUpdated === null) return quote;
+  const source = sourceForAge(quote.lastUpdated, now);
+  return { ...quote, source, isLive: source === "live" };
+}
+
+function mockChart(stockId: string, range: string): number[] {
+  const mockStock = GREEK_STOCKS.find((s) => s.id === stockId);
+  if (!mockStock) return [];
+
+  const mockPoints =
+    range === "1D"
+      ? 48
+      : range === "1W"
+      ? 168
+      : range === "1M"
+      ? 30
+      : range === "3M"
+      ? 90
+      : range === "1Y"
+      ? 365
+      : 730;
+
+  return generateChartData(mockStock.price * 0.9, mockStock.price * 0.02, mockPoints).map(
+    (d) => d.value
+  );
+}
+
+/**
+ * OHLCV bars for mock closes: each bar opens at the previous close, with
+ * small wicks and volume loosely following the size of the move.
+ */
+function mockBars(closes: number[], range: string): ChartDataPoint[] {
+  const now = Math.floor(Date.now() / 1000);
+  const step = MOCK_BAR_SECONDS[range] ?? MOCK_BAR_SECONDS["1M"];
+  return closes.map((close, i) => {
+    const open = i > 0 ? closes[i - 1] : close;
+    const move = Math.abs(close - open);
+    const wick = move * 0.5 + close * 0.002;
+    return {
+      timestamp: now - (closes.length - 1 - i) * step,
+      open,
+      high: Math.round((Math.max(open, close) + Math.random() * wick) * 100) / 100,
+      low: Math.round((Math.min(open, close) - Math.random() * wick) * 100) / 100,
+      close,
+      volume: Math.round(20_000 + (move / close) * 4_000_000 + Math.random() * 30_000),
+    };
+  });
+}
+
+/** Current time, refreshed every SOURCE_TICK_MS so stale labels appear on their own */
+function useNow(): number {
+  const [now, setNow] = useState(() => Date.now());
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), SOURCE_TICK_MS);
+    return () => clearInterval(timer);
+  }, []);
+  return now;
+}
+
+const MOCK_QUOTES = GREEK_STOCKS.map(mockToQuote);
+
 // ─── Hooks ──────────────────────────────────────────────────────────────────
 
 /**
- * Fetch all stock quotes using mock data.
+ * All stock quotes: mock data instantly, server quotes once they load,
+ * live prices as they stream in for the stocks on screen.
  *
- * Returns all 135 Greek stocks instantly with no API calls.
+ * Returns all 135 Greek stocks with no loading state. Streams nothing by
+ * itself: pair it with useStreamedStocks for the stocks the screen shows.
  */
 export function useStockQuotes() {
-  // Use useMemo to prevent recreating the array on every render
-  const stocks = useMemo(() => GREEK_STOCKS.map(mockToQuote), []);
+  const { forceMock } = useDataSource();
+  const quotesQuery = trpc.stocks.getQuotes.useQuery(undefined, {
+    enabled: !forceMock,
+    staleTime: QUOTES_REFETCH_MS,
+    refetchInterval: QUOTES_REFETCH_MS,
+    retry: 1,
+  });
+  // Read whatever is streamed for any screen, without subscribing
+  const { quotes: streamed, lastMessageAt } = useQuoteStream(NO_SYMBOLS);
+  const now = useNow();
+
+  const serverQuotes = useMemo(
+    () => new Map((quotesQuery.data?.data ?? []).map((q) => [q.id, q])),
+    [quotesQuery.data],
+  );
+
+  const stocks = useMemo(() => {
+    if (forceMock) return MOCK_QUOTES;
+    return MOCK_QUOTES.map((q) => resolveQuote(q, serverQuotes.get(q.id), streamed.get(q.id), now));
+  }, [forceMock, serverQuotes, streamed, now]);
+
+  const sourceCounts = useMemo(() => {
+    const counts: Record<QuoteSource, number> = { live: 0, stale: 0, mock: 0 };
+    for (const s of stocks) counts[s.source]++;
+    return counts;
+  }, [stocks]);
+
+  const { refetch: refetchQuotes } = quotesQuery;
+  const refetch = useCallback(async () => {
+    if (!forceMock) await refetchQuotes();
+  }, [forceMock, refetchQuotes]);
+
+  const lastUpdated = forceMock
+    ? null
+    : Math.max(lastMessageAt ?? 0, quotesQuery.dataUpdatedAt) || null;
 
   return {
     stocks,
-    isLoading: false, // Instant data, no loading
-    isError: false,
-    isLive: false, // Mock data is not live
-    lastUpdated: Date.now(), // Number timestamp for LiveBadge compatibility
-    refetch: () => {
-      // No-op for mock data, but can be used to trigger a refresh
-      // if you want to simulate price updates later
-      return Promise.resolve();
-    },
+    isLoading: false, // Mock data fills in until the server responds
+    isError: quotesQuery.isError,
+    isLive: sourceCounts.live > 0,
+    /** Server data exists but none of it is fresh */
+    isStale: sourceCounts.live === 0 && sourceCounts.stale > 0,
+    isMockMode: forceMock,
+    sourceCounts,
+    lastUpdated,
+    refetch,
   };
 }
 
 /**
- * Fetch a single stock quote using mock data.
+ * Stream live prices for the stocks a screen shows; useStockQuotes picks
+ * them up. Everything else refreshes with the polled quotes, so the server
+ * never polls the whole market for one client.
+ */
+export function useStreamedStocks(stockIds: string[]): void {
+  const { forceMock } = useDataSource();
+  useQuoteStream(forceMock ? NO_SYMBOLS : stockIds);
+}
+
+/**
+ * A single stock quote from the server, live from the shared stream when
+ * available, falling back to mock data.
  */
 export function useStockQuote(stockId: string) {
+  const { forceMock } = useDataSource();
+  const quoteQuery = trpc.stocks.getQuote.useQuery(
+    { stockId },
+    {
+      enabled: !forceMock && !!stockId,
+      staleTime: QUOTES_REFETCH_MS,
+      refetchInterval: QUOTES_REFETCH_MS,
+      retry: 1,
+    },
+  );
+  const symbols = useMemo(() => (forceMock || !stockId ? NO_SYMBOLS : [stockId]), [forceMock, stockId]);
+  const { quotes: streamed } = useQuoteStream(symbols);
+  const live = streamed.get(stockId);
+  const server = quoteQuery.data?.success ? quoteQuery.data.data : undefined;
+  const now = useNow();
+
   const stock = useMemo(() => {
-    const mockStock = GREEK_STOCKS.find((s) => s.id === stockId);
-    return mockStock ? mockToQuote(mockStock) : null;
-  }, [stockId]);
+    const mockStock = MOCK_QUOTES.find((s) => s.id === stockId);
+    if (!mockStock) return null;
+    return forceMock ? mockStock : resolveQuote(mockStock, server, live, now);
+  }, [stockId, forceMock, server, live, now]);
+
+  const { refetch: refetchQuote } = quoteQuery;
+  const refetch = useCallback(async () => {
+    if (!forceMock) await refetchQuote();
+  }, [forceMock, refetchQuote]);
 
   return {
     stock,
-    isLoading: false, // Instant data, no loading
+    isLoading: false, // Mock data fills in until the server responds
     isError: !stock, // Error only if stock not found
-    isLive: false,
-    refetch: () => Promise.resolve(),
+    isLive: stock?.source === "live",
+    isStale: stock?.source === "stale",
+    source: stock?.source ?? "mock",
+    refetch,
   };
 }
 
 /**
- * Fetch chart data for a stock using mock data.
+ * Chart closes and OHLCV bars for a stock from the server, falling back to
+ * mock data when the server has no chart for this range.
  */
 export function useStockChart(stockId: string, range: string = "1M") {
-  const chartData = useMemo(() => {
-    const mockStock = GREEK_STOCKS.find((s) => s.id === stockId);
-    if (!mockStock) return [];
-
-    const mockPoints =
-      range === "1D"
-        ? 48
-        : range === "1W"
-        ? 168
-        : range === "1M"
-        ? 30
-        : range === "3M"
-        ? 90
-        : range === "1Y"
-        ? 365
-        : 730;
-
-    return generateChartData(mockStock.price * 0.9, mockStock.price * 0.02, mockPoints).map(
-      (d) => d.value
-    );
-  }, [stockId, range]);
+  const { forceMock } = useDataSource();
+  const chartRange: ChartRange = CHART_RANGES.includes(range as ChartRange) ? (range as ChartRange) : "1M";
+  const chartQuery = trpc.stocks.getChart.useQuery(
+    { stockId, range: chartRange },
+    {
+      enabled: !forceMock && !!stockId,
+      staleTime: chartRange === "1D" ? CHART_STALE_MS_1D : CHART_STALE_MS_OTHER,
+      retry: 1,
+    },
+  );
+
+  const serverBars = useMemo(() => {
+    const chart = chartQuery.data?.success ? chartQuery.data.data : null;
+    return chart && chart.data.length > 1 ? chart.data : null;
+  }, [chartQuery.data]);
+  const serverCloses = useMemo(() => serverBars?.map((d) => d.close) ?? null, [serverBars]);
+
+  const mockData = useMemo(() => mockChart(stockId, range), [stockId, range]);
+  const mockOhlcv = useMemo(() => mockBars(mockData, range), [mockData, range]);
+
+  const { refetch: refetchChart } = chartQuery;
+  const refetch = useCallback(async () => {
+    if (!forceMock) await refetchChart();
+  }, [forceMock, refetchChart]);
 
   return {
-    chartData,
-    isLoading: false, // Instant data, no loading
-    isError: false,
-    isLive: false,
-    refetch: () => Promise.resolve(),
+    chartData: serverCloses ?? mockData,
+    /** OHLCV bars matching chartData one-to-one */
+    bars: serverBars ?? mockOhlcv,
+    isLoading: !forceMock && chartQuery.isLoading,
+    isError: chartQuery.isError,
+    isLive: serverCloses !== null,
+    source: (serverCloses ? "live" : "mock") as QuoteSource,
+    refetch,
   };
 }
 
 /**
- * Mutation to force-refresh the cache (no-op for mock data).
+ * Mutation to force-refresh the server cache, then refetch stock queries.
+ * A no-op while mock mode is forced.
  */
 export function useRefreshCache() {
-  return {
-    mutateAsync: async () => {
-      // No-op for mock data, always succeeds
+  const { forceMock } = useDataSource();
+  const utils = trpc.useUtils();
+  const { mutateAsync: refreshCache } = trpc.stocks.refreshCache.useMutation();
+
+  const mutateAsync = useCallback(async () => {
+    if (forceMock) return { success: true };
+    try {
+      await refreshCache();
+      await utils.stocks.invalidate();
       return { success: true };
-    },
-  };
+    } catch {
+      return { success: false };
+    }
+  }, [forceMock, refreshCache, utils]);
+
+  return { mutateAsync };
 }
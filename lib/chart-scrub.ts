@@ -0,0 +1,124 @@
+/**
+ * Chart scrubbing helpers
+ *
+ * Pure geometry and formatting behind the crosshair on the price charts:
+ * mapping touch positions to bar indexes, change between two points, and
+ * the date labels shown in the tooltip. Kept free of React so it can be
+ * unit tested.
+ */
+import { ATHEX_TIMEZONE } from "@shared/market-calendar";
+
+// ─── Types ──────────────────────────────────────────────────────────────────
+
+/**
+ * How bars sit across the plot width:
+ * - "edges": first and last points on the plot edges (line charts)
+ * - "slots": one equal slot per bar, centred (candlesticks, histograms)
+ */
+export type ChartAlign = "edges" | "slots";
+
+export interface PlotArea {
+  /** X of the plot's left edge, after chart padding */
+  left: number;
+  /** Plot width, excluding padding */
+  width: number;
+}
+
+export interface PriceChange {
+  change: number;
+  changePercent: number;
+}
+
+/** What the user is pointing at, reported to the screen while scrubbing */
+export interface ChartScrub extends PriceChange {
+  /** Scrubbed bar index */
+  index: number;
+  /** Close at the scrubbed bar */
+  value: number;
+  /** Set while a second finger measures between two bars */
+  measure?: PriceChange & { fromIndex: number; toIndex: number };
+}
+
+// ─── Constants ──────────────────────────────────────────────────────────────
+
+const DAY_SECONDS = 24 * 60 * 60;
+
+const dateFormatter = new Intl.DateTimeFormat("en-GB", {
+  timeZone: ATHEX_TIMEZONE,
+  day: "numeric",
+  month: "short",
+  year: "numeric",
+});
+
+const dateTimeFormatter = new Intl.DateTimeFormat("en-GB", {
+  timeZone: ATHEX_TIMEZONE,
+  weekday: "short",
+  day: "numeric",
+  month: "short",
+  hour: "2-digit",
+  minute: "2-digit",
+  hour12: false,
+});
+
+// ─── Geometry ───────────────────────────────────────────────────────────────
+
+export function xForIndex(index: number, count: number, plot: PlotArea, align: ChartAlign): number {
+  if (align === "slots") {
+    return plot.left + (plot.width / count) * (index + 0.5);
+  }
+  return plot.left + (count > 1 ? (index / (count - 1)) * plot.width : plot.width / 2);
+}
+
+/** Nearest bar index for a touch x, clamped to the data */
+export function indexForX(x: number, count: number, plot: PlotArea, align: ChartAlign): number {
+  if (count <= 1) return 0;
+  const ratio = (x - plot.left) / plot.width;
+  const index = align === "slots" ? Math.floor(ratio * count) : Math.round(ratio * (count - 1));
+  return Math.min(count - 1, Math.max(0, index));
+}
+
+// ─── Values ─────────────────────────────────────────────────────────────────
+
+export function changeBetween(from: number, to: number): PriceChange {
+  const change = to - from;
+  return { change, changePercent: from !== 0 ? (change / from) * 100 : 0 };
+}
+
+/**
+ * Scrub state for one or two touched bars. With two, the measure runs from
+ * the earlier bar to the later one whichever finger is where.
+ */
+export function scrubAt(closes: number[], indexes: number[]): ChartScrub | null {
+  if (closes.length === 0 || indexes.length === 0) return null;
+  const index = indexes[0];
+  const scrub: ChartScrub = { index, value: closes[index], ...changeBetween(closes[0], closes[index]) };
+  if (indexes.length > 1) {
+    const fromIndex = Math.min(indexes[0], indexes[1]);
+    const toIndex = Math.max(indexes[0], indexes[1]);
+    scrub.measure = { fromIndex, toIndex, ...changeBetween(closes[fromIndex], closes[toIndex]) };
+  }
+  return scrub;
+}
+
+// ─── Formatting ─────────────────────────────────────────────────────────────
+
+/** Whether bars are closer together than a day, from their first two timestamps */
+export function isIntraday(timestamps: number[]): boolean {
+  return timestamps.length > 1 && timestamps[1] - timestamps[0] < DAY_SECONDS;
+}
+
+/** Athens-time label for a bar: "Thu 12 Feb, 14:35" intraday, "12 Feb 2026" otherwise */
+export function formatBarTime(timestamp: number, intraday: boolean): string {
+  const date = new Date(timestamp * 1000);
+  return (intraday ? dateTimeFormatter : dateFormatter).format(date);
+}
+
+export function formatVolume(vol: number): string {
+  if (vol >= 1_000_000) return `${(vol / 1_000_000).toFixed(1)}M`;
+  if (vol >= 1_000) return `${(vol / 1_000).toFixed(0)}K`;
+  return vol.toString();
+}
+
+export function formatChangePercent(changePercent: number): string {
+  return `${changePercent >= 0 ? "+" : ""}${changePercent.toFixed(2)}%`;
+}
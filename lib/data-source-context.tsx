@@ -0,0 +1,62 @@
+import React, { createContext, useContext, useState, useEffect, useCallback } from "react";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+// ─── Types ──────────────────────────────────────────────────────────────────
+
+interface DataSourceContextValue {
+  /** Ignore the server and show mock market data everywhere (for demos) */
+  forceMock: boolean;
+  setForceMock: (forceMock: boolean) => void;
+  /** Whether the setting has been loaded from storage */
+  isLoaded: boolean;
+}
+
+// ─── Constants ──────────────────────────────────────────────────────────────
+
+const STORAGE_KEY = "@agrx/force-mock-data";
+
+// ─── Context ────────────────────────────────────────────────────────────────
+
+const DataSourceContext = createContext<DataSourceContextValue>({
+  forceMock: false,
+  setForceMock: () => {},
+  isLoaded: false,
+});
+
+// ─── Provider ───────────────────────────────────────────────────────────────
+
+export function DataSourceProvider({ children }: { children: React.ReactNode }) {
+  const [forceMock, setForceMockState] = useState(false);
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  // Hydrate from AsyncStorage
+  useEffect(() => {
+    (async () => {
+      try {
+        const stored = await AsyncStorage.getItem(STORAGE_KEY);
+        if (stored !== null) {
+          setForceMockState(stored === "true");
+        }
+      } catch {
+        // Silently fall back to default
+      } finally {
+        setIsLoaded(true);
+      }
+    })();
+  }, []);
+
+  const setForceMock = useCallback((next: boolean) => {
+    setForceMockState(next);
+    AsyncStorage.setItem(STORAGE_KEY, String(next)).catch(() => {});
+  }, []);
+
+  const value: DataSourceContextValue = { forceMock, setForceMock, isLoaded };
+
+  return <DataSourceContext value={value}>{children}</DataSourceContext>;
+}
+
+// ─── Hook ───────────────────────────────────────────────────────────────────
+
+export function useDataSource(): DataSourceContextValue {
+  return useContext(DataSourceContext);
+}
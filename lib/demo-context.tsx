@@ -8,6 +8,9 @@ import React, {
   type ReactNode,
 } from "react";
 import AsyncStorage from "@react-native-async-storage/async-storage";
+import { useAuth } from "@/hooks/use-auth";
+import { trpc } from "@/lib/trpc";
+import type { PortfolioSnapshot } from "@/server/portfolioService";
 import {
   DEMO_BALANCE,
   PORTFOLIO_HOLDINGS,
@@ -40,7 +43,11 @@ export interface DemoTrade {
   timestamp: number;
 }
 
-/** Trade input — what the caller passes to executeTrade */
+/**
+ * Trade input — what the caller passes to executeTrade.
+ * `price` is only used for local (signed-out) trades; the server fills
+ * signed-in trades at its own quote.
+ */
 export interface TradeInput {
   stockId: string;
   ticker: string;
@@ -50,7 +57,7 @@ export interface TradeInput {
   price: number;
 }
 
-/** Result of a trade attempt */
+/** Result of a trade attempt — `trade` is the canonical fill to display */
 export interface TradeResult {
   success: boolean;
   error?: string;
@@ -69,12 +76,17 @@ interface DemoState {
   level: number;
   streak: number;
   isLoaded: boolean;
+  /** True once state has been loaded from the signed-in user's server portfolio */
+  isSynced: boolean;
 }
 
 interface DemoContextType {
   state: DemoState;
-  /** Execute a trade — returns success/error. Updates balance + holdings atomically. */
-  executeTrade: (input: TradeInput) => TradeResult;
+  /**
+   * Execute a trade — returns success/error. Updates balance + holdings atomically.
+   * Signed-in users trade against the server portfolio; everyone else trades locally.
+   */
+  executeTrade: (input: TradeInput) => Promise<TradeResult>;
   addXP: (amount: number) => void;
   resetDemo: () => void;
   /** Get all holdings as an array (convenience) */
@@ -101,6 +113,29 @@ const STORAGE_KEY_TRADES = "agrx_demo_trades";
 const STORAGE_KEY_XP = "agrx_demo_xp";
 const STORAGE_KEY_STREAK = "agrx_demo_streak";
 
+interface StorageKeys {
+  balance: string;
+  holdings: string;
+  trades: string;
+  xp: string;
+  streak: string;
+}
+
+/**
+ * Where a portfolio is persisted: the signed-out demo portfolio under the
+ * plain keys, each account's cached server copy under its own.
+ */
+function getStorageKeys(userId: number | null): StorageKeys {
+  const suffix = userId === null ? "" : `_user_${userId}`;
+  return {
+    balance: STORAGE_KEY_BALANCE + suffix,
+    holdings: STORAGE_KEY_HOLDINGS + suffix,
+    trades: STORAGE_KEY_TRADES + suffix,
+    xp: STORAGE_KEY_XP + suffix,
+    streak: STORAGE_KEY_STREAK + suffix,
+  };
+}
+
 // ─── Seed Holdings ──────────────────────────────────────────────────────
 
 /** Build initial holdings from the mock PORTFOLIO_HOLDINGS so users start with positions */
@@ -153,13 +188,14 @@ const initialState: DemoState = {
   level: 3,
   streak: 5,
   isLoaded: false,
+  isSynced: false,
 };
 
 // ─── Context ────────────────────────────────────────────────────────────
 
 const DemoContext = createContext<DemoContextType>({
   state: initialState,
-  executeTrade: () => ({ success: false, error: "Not initialized" }),
+  executeTrade: async () => ({ success: false, error: "Not initialized" }),
   addXP: () => {},
   resetDemo: () => {},
   holdingsArray: [],
@@ -175,19 +211,53 @@ const DemoContext = createContext<DemoContextType>({
 
 export function DemoProvider({ children }: { children: ReactNode }) {
   const [state, setState] = useState<DemoState>(initialState);
+  const { user, isAuthenticated } = useAuth();
+  const userId = isAuthenticated && user ? user.id : null;
+  const storageKeys = useMemo(() => getStorageKeys(userId), [userId]);
+  // Keys `state` was loaded from; nothing is persisted until they match storageKeys
+  const [loadedKeys, setLoadedKeys] = useState<StorageKeys | null>(null);
+
+  // Server portfolio (signed-in users only)
+  const utils = trpc.useUtils();
+  const portfolioQuery = trpc.portfolio.load.useQuery(undefined, {
+    enabled: isAuthenticated,
+  });
+  const { mutateAsync: executeServerTrade } = trpc.portfolio.executeTrade.useMutation();
+  const { mutate: resetServerPortfolio } = trpc.portfolio.reset.useMutation();
+
+  /** Replace local state with the server's copy of the portfolio */
+  const applyServerPortfolio = useCallback((portfolio: PortfolioSnapshot) => {
+    setState((prev) => ({
+      ...prev,
+      balance: portfolio.balance,
+      holdings: portfolio.holdings,
+      trades: portfolio.trades,
+      xp: portfolio.xp,
+      streak: portfolio.streak,
+      level: Math.floor(portfolio.xp / 100) + 1,
+      isLoaded: true,
+      isSynced: true,
+    }));
+  }, []);
 
-  // ── Load persisted state on mount ──────────────────────────────────
+  // ── Load persisted state on mount and on sign-in / sign-out ────────
+  // Signing out drops the account's portfolio and reloads the local one
   useEffect(() => {
+    let cancelled = false;
+    setLoadedKeys(null);
+    setState(initialState);
+
     (async () => {
       try {
         const [balanceStr, holdingsStr, tradesStr, xpStr, streakStr] =
           await Promise.all([
-            AsyncStorage.getItem(STORAGE_KEY_BALANCE),
-            AsyncStorage.getItem(STORAGE_KEY_HOLDINGS),
-            AsyncStorage.getItem(STORAGE_KEY_TRADES),
-            AsyncStorage.getItem(STORAGE_KEY_XP),
-            AsyncStorage.getItem(STORAGE_KEY_STREAK),
+            AsyncStorage.getItem(storageKeys.balance),
+            AsyncStorage.getItem(storageKeys.holdings),
+            AsyncStorage.getItem(storageKeys.trades),
+            AsyncStorage.getItem(storageKeys.xp),
+            AsyncStorage.getItem(storageKeys.streak),
           ]);
+        if (cancelled) return;
 
         // Safely parse each field with validation - prevents partial state corruption
         const parseBalance = (): number | null => {
@@ -247,43 +317,78 @@ export function DemoProvider({ children }: { children: ReactNode }) {
         const loadedXP = parseXP();
         const loadedStreak = parseStreak();
 
-        setState((prev) => ({
-          ...prev,
-          balance: loadedBalance ?? prev.balance,
-          holdings: loadedHoldings ?? prev.holdings,
-          trades: loadedTrades ?? prev.trades,
-          xp: loadedXP ?? prev.xp,
-          streak: loadedStreak ?? prev.streak,
-          level: loadedXP != null ? Math.floor(loadedXP / 100) + 1 : prev.level,
-          isLoaded: true,
-        }));
+        setState((prev) => {
+          // Server portfolio already arrived — it wins over the local cache
+          if (prev.isSynced) return { ...prev, isLoaded: true };
+          return {
+            ...prev,
+            balance: loadedBalance ?? prev.balance,
+            holdings: loadedHoldings ?? prev.holdings,
+            trades: loadedTrades ?? prev.trades,
+            xp: loadedXP ?? prev.xp,
+            streak: loadedStreak ?? prev.streak,
+            level: loadedXP != null ? Math.floor(loadedXP / 100) + 1 : prev.level,
+            isLoaded: true,
+          };
+        });
+        setLoadedKeys(storageKeys);
       } catch {
+        if (cancelled) return;
         // If loading fails catastrophically, just mark as loaded with defaults
         setState((prev) => ({ ...prev, isLoaded: true }));
+        setLoadedKeys(storageKeys);
       }
     })();
-  }, []);
+
+    return () => {
+      cancelled = true;
+    };
+  }, [storageKeys]);
+
+  // ── Signed out: drop the account's portfolio from the query cache ──
+  // so the next account to sign in never sees it
+  useEffect(() => {
+    if (userId === null) utils.portfolio.load.reset();
+  }, [userId, utils]);
+
+  // ── Sync from server when signed in ───────────────────────────────
+  useEffect(() => {
+    if (userId !== null && portfolioQuery.data?.success) {
+      applyServerPortfolio(portfolioQuery.data.data);
+    }
+  }, [userId, portfolioQuery.data, applyServerPortfolio]);
 
   // ── Persist state changes ─────────────────────────────────────────
+  // Signed-in users write their account's copy under its own keys, so the
+  // last synced portfolio is available offline and on the next cold start.
   useEffect(() => {
-    if (!state.isLoaded) return;
+    if (!state.isLoaded || loadedKeys !== storageKeys) return;
 
     // Batch all AsyncStorage writes into a single operation for better performance
     const keyValuePairPairs: [string, string][] = [
-      [STORAGE_KEY_BALANCE, JSON.stringify(state.balance)],
-      [STORAGE_KEY_HOLDINGS, JSON.stringify(state.holdings)],
-      [STORAGE_KEY_TRADES, JSON.stringify(state.trades)],
-      [STORAGE_KEY_XP, JSON.stringify(state.xp)],
-      [STORAGE_KEY_STREAK, JSON.stringify(state.streak)],
+      [storageKeys.balance, JSON.stringify(state.balance)],
+      [storageKeys.holdings, JSON.stringify(state.holdings)],
+      [storageKeys.trades, JSON.stringify(state.trades)],
+      [storageKeys.xp, JSON.stringify(state.xp)],
+      [storageKeys.streak, JSON.stringify(state.streak)],
     ];
 
     AsyncStorage.multiSet(keyValuePairPairs).catch((error) => {
       console.warn("[DemoProvider] Failed to persist state:", error);
     });
-  }, [state.isLoaded, state.balance, state.holdings, state.trades, state.xp, state.streak]);
-
-  // ── Execute Trade ─────────────────────────────────────────────────
-  const executeTrade = useCallback(
+  }, [
+    loadedKeys,
+    storageKeys,
+    state.isLoaded,
+    state.balance,
+    state.holdings,
+    state.trades,
+    state.xp,
+    state.streak,
+  ]);
+
+  // ── Execute Trade (local) ─────────────────────────────────────────
+  const executeLocalTrade = useCallback(
     (input: TradeInput): TradeResult => {
       const { stockId, ticker, name, type, amount, price } = input;
       // Round shares to 4 decimal places to prevent floating point precision errors
@@ -410,6 +515,35 @@ export function DemoProvider({ children }: { children: ReactNode }) {
     []
   );
 
+  // ── Execute Trade ─────────────────────────────────────────────────
+  const executeTrade = useCallback(
+    async (input: TradeInput): Promise<TradeResult> => {
+      if (!isAuthenticated) {
+        return executeLocalTrade(input);
+      }
+
+      try {
+        const result = await executeServerTrade({
+          stockId: input.stockId,
+          type: input.type,
+          amount: input.amount,
+        });
+        if (!result.success) {
+          return { success: false, error: result.error };
+        }
+        applyServerPortfolio(result.data.portfolio);
+        return { success: true, trade: result.data.trade };
+      } catch (error) {
+        console.warn("[DemoProvider] Server trade failed:", error);
+        return {
+          success: false,
+          error: "Couldn't reach the trading server. Please try again.",
+        };
+      }
+    },
+    [isAuthenticated, executeLocalTrade, executeServerTrade, applyServerPortfolio]
+  );
+
   // ── Add XP ────────────────────────────────────────────────────────
   const addXP = useCallback((amount: number) => {
     setState((prev) => {
@@ -421,16 +555,18 @@ export function DemoProvider({ children }: { children: ReactNode }) {
 
   // ── Reset Demo ────────────────────────────────────────────────────
   const resetDemo = useCallback(() => {
+    if (isAuthenticated) {
+      resetServerPortfolio(undefined, {
+        onSuccess: (result) => applyServerPortfolio(result.data),
+        onError: (error) => {
+          console.warn("[DemoProvider] Failed to reset server portfolio:", error);
+        },
+      });
+    }
     setState({ ...initialState, isLoaded: true });
     // Clear persisted data
-    AsyncStorage.multiRemove([
-      STORAGE_KEY_BALANCE,
-      STORAGE_KEY_HOLDINGS,
-      STORAGE_KEY_TRADES,
-      STORAGE_KEY_XP,
-      STORAGE_KEY_STREAK,
-    ]);
-  }, []);
+    AsyncStorage.multiRemove(Object.values(storageKeys));
+  }, [isAuthenticated, storageKeys, resetServerPortfolio, applyServerPortfolio]);
 
   // ── Derived: holdings array ───────────────────────────────────────
   const holdingsArray = useMemo(
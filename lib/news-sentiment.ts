@@ -0,0 +1,49 @@
+/**
+ * News sentiment helpers
+ *
+ * Lines up the daily news sentiment archived on the server with the bars of
+ * a price chart, so the asset screen can draw it bar-for-bar under the
+ * price. Kept free of React so it can be unit tested.
+ */
+import { getAthensDate } from "@shared/market-calendar";
+import type { SentimentDay } from "@/server/newsArchiveService";
+
+/** Athens date of a bar's timestamp (unix seconds) */
+function barDay(timestamp: number): string {
+  return getAthensDate(new Date(timestamp * 1000));
+}
+
+/** First day the history is needed for: the day of the chart's first bar */
+export function sentimentHistoryStart(bars: { timestamp: number }[]): string | null {
+  return bars.length > 0 ? barDay(bars[0].timestamp) : null;
+}
+
+/**
+ * News sentiment score of each bar's day, or null for days without news.
+ * Weekly and monthly bars take the article-weighted score of the days they
+ * span, so no day's news is dropped.
+ */
+export function sentimentPerBar(bars: { timestamp: number }[], history: SentimentDay[]): (number | null)[] {
+  if (history.length === 0) return bars.map(() => null);
+  const byDay = new Map(history.map((d) => [d.day, d]));
+
+  return bars.map((bar, i) => {
+    const start = barDay(bar.timestamp);
+    const next = bars[i + 1] ? barDay(bars[i + 1].timestamp) : null;
+    // Intraday bars share a day; longer bars cover every day up to the next
+    // bar, and the last bar every day since it started
+    const days =
+      next === start
+        ? [byDay.get(start)]
+        : history.filter((d) => d.day >= start && (next === null || d.day < next));
+
+    let articles = 0;
+    let weighted = 0;
+    for (const day of days) {
+      if (!day) continue;
+      articles += day.articles;
+      weighted += day.score * day.articles;
+    }
+    return articles > 0 ? Math.round((weighted / articles) * 100) / 100 : null;
+  });
+}
@@ -3,11 +3,17 @@
  *
  * Manages push notification lifecycle:
  * - Permission requests (with graceful web fallback)
- * - Expo push token registration with server
+ * - Expo push token registration with server (linked to the account when
+ *   signed in, which also claims a device that registered anonymously)
+ * - Price alerts and preferences, kept on the server per account and
+ *   shared by all of the user's devices (signed-out users have none)
  * - Local notification display and handling
  * - Notification tap routing to relevant screens
  * - Device ID generation and persistence
- * - Notification history with AsyncStorage persistence and unread badge
+ * - Notification history and unread badge: signed-in users see their
+ *   server inbox (every notification sent to the account, on any device,
+ *   with read state synced), merged with items kept on this device in
+ *   AsyncStorage (alert confirmations, pushes received while signed out)
  */
 import React, {
   createContext,
@@ -24,7 +30,11 @@ import * as Notifications from "expo-notifications";
 import type { EventSubscription } from "expo-modules-core";
 import { useRouter } from "expo-router";
 import { trpc } from "@/lib/trpc";
-import type { PriceAlert, NotificationPreferences, AlertType } from "@/server/priceAlertService";
+import { useAuth } from "@/hooks/use-auth";
+import type { PriceAlert, NotificationPreferences, AlertScope, AlertType } from "@/server/priceAlertService";
+import type { InboxNotification } from "@/server/alertStore";
+import { describeRule, type AlertRule } from "@shared/alert-rules";
+import { DEFAULT_DIGEST_HOUR, DEFAULT_TIMEZONE, isValidTimeZone } from "@shared/notification-schedule";
 
 // ─── Constants ──────────────────────────────────────────────────────────────
 
@@ -78,6 +88,8 @@ export interface NotificationHistoryItem {
   read: boolean;
   /** Timestamp when the notification was received */
   timestamp: number;
+  /** Server inbox ID; items without one are kept on this device only */
+  inboxId?: number;
 }
 
 interface NotificationContextValue {
@@ -93,20 +105,28 @@ interface NotificationContextValue {
   deviceId: string | null;
   /** Whether the notification system is initializing */
   loading: boolean;
+  /** Alerts belong to an account, so they need a signed-in user */
+  canManageAlerts: boolean;
   /** Request notification permission from the user */
   requestPermission: () => Promise<boolean>;
-  /** Register a price alert for a stock */
+  /**
+   * Register a price alert: a threshold, or a rule for type "rule". Stock
+   * alerts (the default scope) need a stock; portfolio and watchlist alerts
+   * don't.
+   */
   addPriceAlert: (params: {
-    stockId: string;
-    stockName: string;
+    scope?: AlertScope;
+    stockId?: string;
+    stockName?: string;
     type: AlertType;
-    threshold: number;
+    threshold?: number;
+    rule?: AlertRule;
   }) => Promise<PriceAlert | null>;
   /** Remove a price alert */
   removePriceAlert: (alertId: string) => Promise<boolean>;
   /** Toggle a price alert on/off */
   togglePriceAlert: (alertId: string) => Promise<boolean>;
-  /** Get all alerts for the current device */
+  /** All alerts of the signed-in account */
   alerts: PriceAlert[];
   /** Get alerts for a specific stock */
   getAlertsForStock: (stockId: string) => PriceAlert[];
@@ -122,6 +142,12 @@ interface NotificationContextValue {
   history: NotificationHistoryItem[];
   /** Count of unread notifications */
   unreadCount: number;
+  /** Whether older inbox notifications can be loaded */
+  hasMoreHistory: boolean;
+  /** Load the next page of the inbox */
+  loadMoreHistory: () => void;
+  /** Fetch the inbox again, e.g. when the history screen opens */
+  refreshHistory: () => void;
   /** Mark a single notification as read */
   markAsRead: (notificationId: string) => void;
   /** Mark all notifications as read */
@@ -140,6 +166,10 @@ const defaultPreferences: NotificationPreferences = {
   percentThreshold: 5,
   quietHoursStart: null,
   quietHoursEnd: null,
+  timezone: DEFAULT_TIMEZONE,
+  schedules: {},
+  heldDelivery: "when_quiet_ends",
+  digestHour: DEFAULT_DIGEST_HOUR,
 };
 
 const NotificationContext = createContext<NotificationContextValue>({
@@ -149,6 +179,7 @@ const NotificationContext = createContext<NotificationContextValue>({
   pushToken: null,
   deviceId: null,
   loading: true,
+  canManageAlerts: false,
   requestPermission: async () => false,
   addPriceAlert: async () => null,
   removePriceAlert: async () => false,
@@ -160,6 +191,9 @@ const NotificationContext = createContext<NotificationContextValue>({
   refreshAlerts: () => {},
   history: [],
   unreadCount: 0,
+  hasMoreHistory: false,
+  loadMoreHistory: () => {},
+  refreshHistory: () => {},
   markAsRead: () => {},
   markAllAsRead: () => {},
   removeFromHistory: () => {},
@@ -237,10 +271,65 @@ function mapNotificationToHistoryType(data: Record<string, any> | undefined): No
   }
 }
 
+/** History item for a push, as received on this device or kept in the inbox */
+function toHistoryItem(
+  content: { title: string | null; body: string | null; data: Record<string, any> | undefined },
+  read: boolean,
+  timestamp: number
+): NotificationHistoryItem {
+  const { data } = content;
+  return {
+    id: generateHistoryId(),
+    title: content.title ?? "AGRX Alert",
+    body: content.body ?? "",
+    type: mapNotificationToHistoryType(data),
+    stockId: data?.stockId,
+    stockTicker: data?.stockTicker,
+    threshold: data?.threshold ? Number(data.threshold) : undefined,
+    actualPrice: data?.actualPrice ? Number(data.actualPrice) : undefined,
+    read,
+    timestamp,
+  };
+}
+
+function fromInbox(item: InboxNotification): NotificationHistoryItem {
+  return {
+    ...toHistoryItem(item, item.read, item.createdAt),
+    id: `inbox-${item.id}`,
+    inboxId: item.id,
+  };
+}
+
+/** History text for a newly created alert */
+function describeNewAlert(params: {
+  scope?: AlertScope;
+  stockName?: string;
+  type: AlertType;
+  threshold?: number;
+  rule?: AlertRule;
+}): string {
+  const threshold = params.threshold ?? 0;
+  switch (params.scope ?? "stock") {
+    case "watchlist":
+      return "Watchlist movers alert set";
+    case "portfolio":
+      if (params.type === "holding_drop") return `Holding down ${threshold}% alert set for your portfolio`;
+      if (params.type === "pnl_gain") return `Daily gain over €${threshold.toFixed(2)} alert set for your portfolio`;
+      if (params.type === "pnl_loss") return `Daily loss over €${threshold.toFixed(2)} alert set for your portfolio`;
+      return `${params.type === "above" ? "Above" : "Below"} €${threshold.toFixed(2)} alert set for your portfolio`;
+    default:
+      return params.rule
+        ? `"${describeRule(params.rule)}" alert set for ${params.stockName}`
+        : `${params.type === "above" ? "Above" : params.type === "below" ? "Below" : "±"} €${threshold.toFixed(2)} alert set for ${params.stockName}`;
+  }
+}
+
 // ─── Provider ───────────────────────────────────────────────────────────────
 
 export function NotificationProvider({ children }: { children: React.ReactNode }) {
   const router = useRouter();
+  const { user, isAuthenticated } = useAuth();
+  const userId = user?.id ?? null;
   const [isSupported, setIsSupported] = useState(false);
   const [hasPermission, setHasPermission] = useState(false);
   const [permissionAsked, setPermissionAsked] = useState(false);
@@ -250,6 +339,8 @@ export function NotificationProvider({ children }: { children: React.ReactNode }
   const [alerts, setAlerts] = useState<PriceAlert[]>([]);
   const [preferences, setPreferences] = useState<NotificationPreferences | null>(null);
   const [history, setHistory] = useState<NotificationHistoryItem[]>([]);
+  const [inbox, setInbox] = useState<NotificationHistoryItem[]>([]);
+  const [inboxUnread, setInboxUnread] = useState(0);
 
   const notificationListener = useRef<EventSubscription | undefined>(undefined);
   const responseListener = useRef<EventSubscription | undefined>(undefined);
@@ -261,20 +352,35 @@ export function NotificationProvider({ children }: { children: React.ReactNode }
   const removeAlertMutation = trpc.notifications.removeAlert.useMutation();
   const toggleAlertMutation = trpc.notifications.toggleAlert.useMutation();
   const updatePrefsMutation = trpc.notifications.updatePreferences.useMutation();
-
-  // tRPC queries (disabled until we have a deviceId)
-  const alertsQuery = trpc.notifications.getAlerts.useQuery(
-    { deviceId: deviceId ?? "" },
-    { enabled: !!deviceId && !!pushToken }
+  const { mutate: markInboxRead } = trpc.notifications.markInboxRead.useMutation();
+  const { mutate: removeInboxNotifications } = trpc.notifications.removeInboxNotifications.useMutation();
+
+  // tRPC queries (alerts and preferences belong to the signed-in account)
+  const alertsQuery = trpc.notifications.getAlerts.useQuery(undefined, {
+    enabled: isAuthenticated,
+  });
+
+  const prefsQuery = trpc.notifications.getPreferences.useQuery(undefined, {
+    enabled: isAuthenticated,
+  });
+
+  const inboxQuery = trpc.notifications.getInbox.useInfiniteQuery(
+    {},
+    {
+      enabled: isAuthenticated,
+      getNextPageParam: (lastPage) => lastPage.data.nextCursor ?? undefined,
+    }
   );
+  const { refetch: refetchInbox, fetchNextPage, hasNextPage, isFetchingNextPage } = inboxQuery;
 
-  const prefsQuery = trpc.notifications.getPreferences.useQuery(
-    { deviceId: deviceId ?? "" },
-    { enabled: !!deviceId && !!pushToken }
+  // ── Derived: inbox merged with device-only history, newest first ──
+  const mergedHistory = useMemo(
+    () => [...inbox, ...history].sort((a, b) => b.timestamp - a.timestamp),
+    [inbox, history]
   );
 
-  // ── Derived: unread count ──
-  const unreadCount = useMemo(() => history.filter((h) => !h.read).length, [history]);
+  // ── Derived: unread count (the inbox count includes pages not loaded yet) ──
+  const unreadCount = useMemo(() => history.filter((h) => !h.read).length + inboxUnread, [history, inboxUnread]);
 
   // ── Initialize ──
   useEffect(() => {
@@ -328,8 +434,9 @@ export function NotificationProvider({ children }: { children: React.ReactNode }
   useEffect(() => {
     if (!deviceId || !pushToken) return;
 
-    // Create a unique combo string to track if we've already registered this device/token pair
-    const combo = `${deviceId}:${pushToken}`;
+    // Create a unique combo string to track if we've already registered this device/token/account.
+    // Signing in re-registers, which links (claims) the device for the account.
+    const combo = `${deviceId}:${pushToken}:${userId ?? "anonymous"}`;
 
     // Skip if we've already registered this exact combo (prevents duplicate registrations)
     if (lastRegisteredCombo.current === combo) {
@@ -350,6 +457,8 @@ export function NotificationProvider({ children }: { children: React.ReactNode }
           onSuccess: (result) => {
             if (result.success) {
               console.log("[Notifications] Device registered with server");
+            } else {
+              console.warn("[Notifications] Registration rejected:", result.error);
             }
           },
           onError: (error) => {
@@ -364,7 +473,25 @@ export function NotificationProvider({ children }: { children: React.ReactNode }
     return () => {
       clearTimeout(timeoutId);
     };
-  }, [deviceId, pushToken]);
+  }, [deviceId, pushToken, userId]);
+
+  // ── Signed out: alerts and preferences stay with the account ──
+  useEffect(() => {
+    if (!isAuthenticated) {
+      setAlerts([]);
+      setPreferences(null);
+      setInbox([]);
+      setInboxUnread(0);
+    }
+  }, [isAuthenticated]);
+
+  // ── Sync inbox from server ──
+  useEffect(() => {
+    const pages = inboxQuery.data?.pages;
+    if (!pages || pages.length === 0) return;
+    setInbox(pages.flatMap((page) => page.data.items.map(fromInbox)));
+    setInboxUnread(pages[0].data.unreadCount);
+  }, [inboxQuery.data]);
 
   // ── Sync alerts from server ──
   useEffect(() => {
@@ -380,6 +507,19 @@ export function NotificationProvider({ children }: { children: React.ReactNode }
     }
   }, [prefsQuery.data]);
 
+  // ── Keep the account's timezone in step with this device ──
+  // Quiet hours and schedules are read in it on the server.
+  const { mutate: updatePrefs } = updatePrefsMutation;
+  useEffect(() => {
+    const stored = prefsQuery.data?.success ? prefsQuery.data.data.timezone : null;
+    const deviceTimezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+    if (!stored || !deviceTimezone || stored === deviceTimezone || !isValidTimeZone(deviceTimezone)) return;
+    updatePrefs(
+      { preferences: { timezone: deviceTimezone } },
+      { onSuccess: (result) => setPreferences(result.data) }
+    );
+  }, [prefsQuery.data, updatePrefs]);
+
   // ── Helper: add item to history ──
   const addToHistory = useCallback((item: NotificationHistoryItem) => {
     setHistory((prev) => {
@@ -398,19 +538,12 @@ export function NotificationProvider({ children }: { children: React.ReactNode }
         const content = notification.request.content;
         const data = content.data as Record<string, any> | undefined;
 
-        // Add to history
-        addToHistory({
-          id: generateHistoryId(),
-          title: content.title ?? "AGRX Alert",
-          body: content.body ?? "",
-          type: mapNotificationToHistoryType(data),
-          stockId: data?.stockId,
-          stockTicker: data?.stockTicker,
-          threshold: data?.threshold ? Number(data.threshold) : undefined,
-          actualPrice: data?.actualPrice ? Number(data.actualPrice) : undefined,
-          read: false,
-          timestamp: Date.now(),
-        });
+        // Already in the account's inbox; fetch it from there
+        if (isAuthenticated && data?.inboxId) {
+          refetchInbox();
+          return;
+        }
+        addToHistory(toHistoryItem({ ...content, data }, false, Date.now()));
       }
     );
 
@@ -420,21 +553,15 @@ export function NotificationProvider({ children }: { children: React.ReactNode }
         const content = response.notification.request.content;
         const data = content.data as Record<string, any> | undefined;
 
-        // Also add to history if not already there (e.g. background notification)
-        addToHistory({
-          id: generateHistoryId(),
-          title: content.title ?? "AGRX Alert",
-          body: content.body ?? "",
-          type: mapNotificationToHistoryType(data),
-          stockId: data?.stockId,
-          stockTicker: data?.stockTicker,
-          threshold: data?.threshold ? Number(data.threshold) : undefined,
-          actualPrice: data?.actualPrice ? Number(data.actualPrice) : undefined,
-          read: true, // Tapped = read
-          timestamp: Date.now(),
-        });
+        // Tapped = read. Inbox notifications are marked on the server;
+        // others are added to history if not already there (e.g. background notification)
+        if (isAuthenticated && data?.inboxId) {
+          markInboxRead({ ids: [Number(data.inboxId)] }, { onSettled: () => refetchInbox() });
+        } else {
+          addToHistory(toHistoryItem({ ...content, data }, true, Date.now()));
+        }
 
-        if (data?.type === "price_alert" && data?.stockId) {
+        if ((data?.type === "price_alert" || data?.type === "market_news") && data?.stockId) {
           router.push(`/asset/${data.stockId}`);
         }
       }
@@ -448,7 +575,7 @@ export function NotificationProvider({ children }: { children: React.ReactNode }
         responseListener.current.remove();
       }
     };
-  }, [router, addToHistory]);
+  }, [router, addToHistory, isAuthenticated, refetchInbox, markInboxRead]);
 
   // ── Set up Android notification channel ──
   useEffect(() => {
@@ -500,16 +627,17 @@ export function NotificationProvider({ children }: { children: React.ReactNode }
   // ── Add Price Alert ──
   const addPriceAlert = useCallback(
     async (params: {
-      stockId: string;
-      stockName: string;
+      scope?: AlertScope;
+      stockId?: string;
+      stockName?: string;
       type: AlertType;
-      threshold: number;
+      threshold?: number;
+      rule?: AlertRule;
     }): Promise<PriceAlert | null> => {
-      if (!deviceId) return null;
+      if (!isAuthenticated) return null;
 
       try {
         const result = await addAlertMutation.mutateAsync({
-          deviceId,
           ...params,
           enabled: true,
         });
@@ -521,10 +649,17 @@ export function NotificationProvider({ children }: { children: React.ReactNode }
           addToHistory({
             id: generateHistoryId(),
             title: "Price Alert Created",
-            body: `${params.type === "above" ? "Above" : params.type === "below" ? "Below" : "±"} €${params.threshold.toFixed(2)} alert set for ${params.stockName}`,
-            type: params.type === "above" ? "price_above" : params.type === "below" ? "price_below" : "percent_change",
+            body: describeNewAlert(params),
+            type:
+              params.type === "above"
+                ? "price_above"
+                : params.type === "below"
+                ? "price_below"
+                : params.type === "percent_change"
+                ? "percent_change"
+                : "system",
             stockId: params.stockId,
-            stockTicker: params.stockName,
+            stockTicker: params.stockId ? params.stockName : undefined,
             threshold: params.threshold,
             read: true, // User just created it, so it's "read"
             timestamp: Date.now(),
@@ -538,19 +673,16 @@ export function NotificationProvider({ children }: { children: React.ReactNode }
         return null;
       }
     },
-    [deviceId, addAlertMutation, addToHistory]
+    [isAuthenticated, addAlertMutation, addToHistory]
   );
 
   // ── Remove Price Alert ──
   const removePriceAlert = useCallback(
     async (alertId: string): Promise<boolean> => {
-      if (!deviceId) return false;
+      if (!isAuthenticated) return false;
 
       try {
-        const result = await removeAlertMutation.mutateAsync({
-          deviceId,
-          alertId,
-        });
+        const result = await removeAlertMutation.mutateAsync({ alertId });
 
         if (result.success) {
           setAlerts((prev) => prev.filter((a) => a.id !== alertId));
@@ -561,19 +693,16 @@ export function NotificationProvider({ children }: { children: React.ReactNode }
         return false;
       }
     },
-    [deviceId, removeAlertMutation]
+    [isAuthenticated, removeAlertMutation]
   );
 
   // ── Toggle Price Alert ──
   const togglePriceAlert = useCallback(
     async (alertId: string): Promise<boolean> => {
-      if (!deviceId) return false;
+      if (!isAuthenticated) return false;
 
       try {
-        const result = await toggleAlertMutation.mutateAsync({
-          deviceId,
-          alertId,
-        });
+        const result = await toggleAlertMutation.mutateAsync({ alertId });
 
         if (result.success) {
           setAlerts((prev) =>
@@ -588,7 +717,7 @@ export function NotificationProvider({ children }: { children: React.ReactNode }
         return false;
       }
     },
-    [deviceId, toggleAlertMutation]
+    [isAuthenticated, toggleAlertMutation]
   );
 
   // ── Get Alerts for Stock ──
@@ -602,13 +731,10 @@ export function NotificationProvider({ children }: { children: React.ReactNode }
   // ── Update Preferences ──
   const updatePreferencesHandler = useCallback(
     async (prefs: Partial<NotificationPreferences>): Promise<void> => {
-      if (!deviceId) return;
+      if (!isAuthenticated) return;
 
       try {
-        const result = await updatePrefsMutation.mutateAsync({
-          deviceId,
-          preferences: prefs,
-        });
+        const result = await updatePrefsMutation.mutateAsync({ preferences: prefs });
 
         if (result.success && result.data) {
           setPreferences(result.data as NotificationPreferences);
@@ -617,25 +743,51 @@ export function NotificationProvider({ children }: { children: React.ReactNode }
         console.warn("[Notifications] Update preferences error:", error);
       }
     },
-    [deviceId, updatePrefsMutation]
+    [isAuthenticated, updatePrefsMutation]
   );
 
   // ── Refresh Alerts ──
   const refreshAlerts = useCallback(() => {
+    if (!isAuthenticated) return;
     alertsQuery.refetch();
     prefsQuery.refetch();
-  }, [alertsQuery, prefsQuery]);
+  }, [isAuthenticated, alertsQuery, prefsQuery]);
+
+  // ── History: Inbox Paging ──
+  const loadMoreHistory = useCallback(() => {
+    if (hasNextPage && !isFetchingNextPage) fetchNextPage();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  const refreshHistory = useCallback(() => {
+    if (isAuthenticated) refetchInbox();
+  }, [isAuthenticated, refetchInbox]);
+
+  // Inbox changes are applied here first, then the server's unread count wins
+  const syncUnread = useMemo(
+    () => ({ onSuccess: (result: { data: { unreadCount: number } }) => setInboxUnread(result.data.unreadCount) }),
+    []
+  );
 
   // ── History: Mark as Read ──
-  const markAsRead = useCallback((notificationId: string) => {
-    setHistory((prev) => {
-      const updated = prev.map((item) =>
-        item.id === notificationId ? { ...item, read: true } : item
-      );
-      saveHistory(updated);
-      return updated;
-    });
-  }, []);
+  const markAsRead = useCallback(
+    (notificationId: string) => {
+      const inboxItem = inbox.find((item) => item.id === notificationId);
+      if (inboxItem?.inboxId !== undefined) {
+        setInbox((prev) => prev.map((item) => (item === inboxItem ? { ...item, read: true } : item)));
+        if (!inboxItem.read) setInboxUnread((n) => Math.max(n - 1, 0));
+        markInboxRead({ ids: [inboxItem.inboxId] }, syncUnread);
+        return;
+      }
+      setHistory((prev) => {
+        const updated = prev.map((item) =>
+          item.id === notificationId ? { ...item, read: true } : item
+        );
+        saveHistory(updated);
+        return updated;
+      });
+    },
+    [inbox, markInboxRead, syncUnread]
+  );
 
   // ── History: Mark All as Read ──
   const markAllAsRead = useCallback(() => {
@@ -644,22 +796,42 @@ export function NotificationProvider({ children }: { children: React.ReactNode }
       saveHistory(updated);
       return updated;
     });
-  }, []);
+    if (isAuthenticated) {
+      setInbox((prev) => prev.map((item) => ({ ...item, read: true })));
+      setInboxUnread(0);
+      markInboxRead({}, syncUnread);
+    }
+  }, [isAuthenticated, markInboxRead, syncUnread]);
 
   // ── History: Remove from History ──
-  const removeFromHistory = useCallback((notificationId: string) => {
-    setHistory((prev) => {
-      const updated = prev.filter((item) => item.id !== notificationId);
-      saveHistory(updated);
-      return updated;
-    });
-  }, []);
+  const removeFromHistory = useCallback(
+    (notificationId: string) => {
+      const inboxItem = inbox.find((item) => item.id === notificationId);
+      if (inboxItem?.inboxId !== undefined) {
+        setInbox((prev) => prev.filter((item) => item !== inboxItem));
+        if (!inboxItem.read) setInboxUnread((n) => Math.max(n - 1, 0));
+        removeInboxNotifications({ ids: [inboxItem.inboxId] }, syncUnread);
+        return;
+      }
+      setHistory((prev) => {
+        const updated = prev.filter((item) => item.id !== notificationId);
+        saveHistory(updated);
+        return updated;
+      });
+    },
+    [inbox, removeInboxNotifications, syncUnread]
+  );
 
   // ── History: Clear All ──
   const clearHistory = useCallback(() => {
     setHistory([]);
     AsyncStorage.removeItem(NOTIFICATION_HISTORY_KEY).catch(() => {});
-  }, []);
+    if (isAuthenticated) {
+      setInbox([]);
+      setInboxUnread(0);
+      removeInboxNotifications({}, syncUnread);
+    }
+  }, [isAuthenticated, removeInboxNotifications, syncUnread]);
 
   const value = useMemo<NotificationContextValue>(
     () => ({
@@ -669,6 +841,7 @@ export function NotificationProvider({ children }: { children: React.ReactNode }
       pushToken,
       deviceId,
       loading,
+      canManageAlerts: isAuthenticated,
       requestPermission,
       addPriceAlert,
       removePriceAlert,
@@ -678,8 +851,11 @@ export function NotificationProvider({ children }: { children: React.ReactNode }
       updatePreferences: updatePreferencesHandler,
       preferences,
       refreshAlerts,
-      history,
+      history: mergedHistory,
       unreadCount,
+      hasMoreHistory: isAuthenticated && !!hasNextPage,
+      loadMoreHistory,
+      refreshHistory,
       markAsRead,
       markAllAsRead,
       removeFromHistory,
@@ -692,6 +868,7 @@ export function NotificationProvider({ children }: { children: React.ReactNode }
       pushToken,
       deviceId,
       loading,
+      isAuthenticated,
       requestPermission,
       addPriceAlert,
       removePriceAlert,
@@ -701,8 +878,11 @@ export function NotificationProvider({ children }: { children: React.ReactNode }
       updatePreferencesHandler,
       preferences,
       refreshAlerts,
-      history,
+      mergedHistory,
       unreadCount,
+      hasNextPage,
+      loadMoreHistory,
+      refreshHistory,
       markAsRead,
       markAllAsRead,
       removeFromHistory,
@@ -0,0 +1,267 @@
+/**
+ * Quote Stream — one shared live-quote connection for the whole app
+ *
+ * Connects to the server's Server-Sent Events endpoint
+ * (GET /api/quotes/stream) and keeps the latest quote per symbol.
+ * Screens subscribe to the symbols they show; the stream requests the
+ * union of all subscriptions over a single connection, so home, markets,
+ * asset and portfolio never open parallel feeds.
+ *
+ * - Uses XMLHttpRequest progress events, which work on native and web
+ *   (React Native has no EventSource)
+ * - Reconnects with exponential backoff plus jitter on errors
+ * - Disconnects while the app is in the background
+ *
+ * React components should use `useQuoteStream` from hooks/use-quote-stream.
+ */
+import { AppState, type AppStateStatus } from "react-native";
+import { getApiBaseUrl } from "@/constants/oauth";
+import type { StockQuote } from "@/server/stockService";
+import type { QuoteDelta } from "@/server/quoteStreamService";
+
+// ─── Types ──────────────────────────────────────────────────────────────────
+
+export type QuoteStreamStatus = "idle" | "connecting" | "open" | "reconnecting";
+
+/** Latest known data for a symbol: always the delta fields, plus the rest once a snapshot arrived */
+export type StreamedQuote = QuoteDelta & Partial<StockQuote>;
+
+export interface QuoteStreamSnapshot {
+  status: QuoteStreamStatus;
+  quotes: ReadonlyMap<string, StreamedQuote>;
+  /** When the last event arrived, or null */
+  lastMessageAt: number | null;
+}
+
+// ─── Constants ──────────────────────────────────────────────────────────────
+
+const INITIAL_BACKOFF_MS = 1_000;
+const MAX_BACKOFF_MS = 30_000;
+
+/** Wait for subscription changes to settle before reconnecting */
+const RESUBSCRIBE_DEBOUNCE_MS = 250;
+
+/**
+ * XHR keeps the whole response in memory; start a fresh connection once it
+ * grows past this many characters.
+ */
+const MAX_RESPONSE_CHARS = 1_000_000;
+
+// ─── State ──────────────────────────────────────────────────────────────────
+
+const symbolRefs = new Map<string, number>();
+const listeners = new Set<() => void>();
+let quotes = new Map<string, StreamedQuote>();
+let snapshot: QuoteStreamSnapshot = { status: "idle", quotes, lastMessageAt: null };
+
+let xhr: XMLHttpRequest | null = null;
+let connectedSymbols = "";
+let readIndex = 0;
+let buffer = "";
+let attempt = 0;
+let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+let resubscribeTimer: ReturnType<typeof setTimeout> | null = null;
+let appState: AppStateStatus = AppState.currentState;
+let appStateListenerAdded = false;
+
+// ─── Store ──────────────────────────────────────────────────────────────────
+
+function publish(changes: Partial<QuoteStreamSnapshot>): void {
+  snapshot = { ...snapshot, ...changes };
+  for (const listener of listeners) listener();
+}
+
+/** Listen for snapshot changes (useSyncExternalStore subscribe) */
+export function subscribeToQuoteStream(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/** Current stream state (useSyncExternalStore getSnapshot) */
+export function getQuoteStreamSnapshot(): QuoteStreamSnapshot {
+  return snapshot;
+}
+
+// ─── Event Parsing ──────────────────────────────────────────────────────────
+
+function applyEvent(event: string, data: string): void {
+  let payload: unknown;
+  try {
+    payload = JSON.parse(data);
+  } catch {
+    return;
+  }
+  if (!Array.isArray(payload)) return;
+
+  if (event === "snapshot" || event === "quotes") {
+    const next = new Map(quotes);
+    for (const item of payload as StreamedQuote[]) {
+      next.set(item.id, { ...next.get(item.id), ...item });
+    }
+    quotes = next;
+    publish({ quotes, lastMessageAt: Date.now() });
+  }
+}
+
+/** Parse complete SSE messages out of the buffer, keeping any partial tail */
+function drainBuffer(): void {
+  let boundary = buffer.indexOf("\n\n");
+  while (boundary !== -1) {
+    const message = buffer.slice(0, boundary);
+    buffer = buffer.slice(boundary + 2);
+
+    let event = "message";
+    const dataLines: string[] = [];
+    for (const line of message.split("\n")) {
+      // Lines starting with ":" are heartbeats
+      if (line.startsWith("event:")) event = line.slice(6).trim();
+      else if (line.startsWith("data:")) dataLines.push(line.slice(5).trimStart());
+    }
+    if (dataLines.length > 0) applyEvent(event, dataLines.join("\n"));
+
+    boundary = buffer.indexOf("\n\n");
+  }
+}
+
+// ─── Connection ─────────────────────────────────────────────────────────────
+
+function wantedSymbols(): string {
+  return Array.from(symbolRefs.keys()).sort().join(",");
+}
+
+function closeConnection(): void {
+  if (xhr) {
+    const current = xhr;
+    xhr = null;
+    current.onreadystatechange = null;
+    current.onprogress = null;
+    current.onerror = null;
+    current.abort();
+  }
+  connectedSymbols = "";
+  readIndex = 0;
+  buffer = "";
+}
+
+function scheduleReconnect(): void {
+  if (reconnectTimer) return;
+  const backoff = Math.min(MAX_BACKOFF_MS, INITIAL_BACKOFF_MS * 2 ** attempt);
+  const delay = backoff / 2 + Math.random() * (backoff / 2);
+  attempt++;
+  publish({ status: "reconnecting" });
+  reconnectTimer = setTimeout(() => {
+    reconnectTimer = null;
+    connect();
+  }, delay);
+}
+
+function connect(): void {
+  closeConnection();
+  const symbols = wantedSymbols();
+  if (!symbols || appState !== "active") {
+    publish({ status: "idle" });
+    return;
+  }
+
+  const request = new XMLHttpRequest();
+  xhr = request;
+  connectedSymbols = symbols;
+  publish({ status: attempt > 0 ? "reconnecting" : "connecting" });
+
+  const onData = () => {
+    if (xhr !== request) return;
+    const text = request.responseText ?? "";
+    if (text.length > readIndex) {
+      buffer += text.slice(readIndex);
+      readIndex = text.length;
+      if (snapshot.status !== "open") {
+        attempt = 0;
+        publish({ status: "open" });
+      }
+      drainBuffer();
+    }
+    if (readIndex > MAX_RESPONSE_CHARS) {
+      connect();
+    }
+  };
+
+  request.onprogress = onData;
+  request.onreadystatechange = () => {
+    if (xhr !== request) return;
+    if (request.readyState === 3) onData();
+    if (request.readyState === 4) {
+      onData();
+      // The server never ends the stream on its own — treat any end as a drop
+      closeConnection();
+      scheduleReconnect();
+    }
+  };
+  request.onerror = () => {
+    if (xhr !== request) return;
+    closeConnection();
+    scheduleReconnect();
+  };
+
+  request.open("GET", `${getApiBaseUrl()}/api/quotes/stream?symbols=${encodeURIComponent(symbols)}`);
+  request.setRequestHeader("Accept", "text/event-stream");
+  request.setRequestHeader("Cache-Control", "no-cache");
+  request.send();
+}
+
+function scheduleResubscribe(): void {
+  if (resubscribeTimer) clearTimeout(resubscribeTimer);
+  resubscribeTimer = setTimeout(() => {
+    resubscribeTimer = null;
+    if (wantedSymbols() === connectedSymbols && xhr) return;
+    if (reconnectTimer) {
+      clearTimeout(reconnectTimer);
+      reconnectTimer = null;
+    }
+    connect();
+  }, RESUBSCRIBE_DEBOUNCE_MS);
+}
+
+function ensureAppStateListener(): void {
+  if (appStateListenerAdded) return;
+  appStateListenerAdded = true;
+  AppState.addEventListener("change", (next) => {
+    const wasActive = appState === "active";
+    appState = next;
+    if (next === "active" && !wasActive) {
+      attempt = 0;
+      scheduleResubscribe();
+    } else if (next !== "active" && wasActive) {
+      if (reconnectTimer) {
+        clearTimeout(reconnectTimer);
+        reconnectTimer = null;
+      }
+      closeConnection();
+      publish({ status: "idle" });
+    }
+  });
+}
+
+// ─── Public API ─────────────────────────────────────────────────────────────
+
+/**
+ * Add symbols to the shared stream. Returns a function that removes them
+ * again; the connection closes when nothing is subscribed.
+ */
+export function subscribeToSymbols(symbols: string[]): () => void {
+  ensureAppStateListener();
+  for (const symbol of symbols) {
+    symbolRefs.set(symbol, (symbolRefs.get(symbol) ?? 0) + 1);
+  }
+  scheduleResubscribe();
+
+  return () => {
+    for (const symbol of symbols) {
+      const count = (symbolRefs.get(symbol) ?? 0) - 1;
+      if (count <= 0) symbolRefs.delete(symbol);
+      else symbolRefs.set(symbol, count);
+    }
+    scheduleResubscribe();
+  };
+}
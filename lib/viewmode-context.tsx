@@ -5,6 +5,17 @@ import AsyncStorage from "@react-native-async-storage/async-storage";
 
 export type ViewMode = "simple" | "pro";
 
+/** How price bars are drawn on the asset chart */
+export type ChartStyle = "line" | "candle" | "ohlc";
+
+/** Chart overlays and sub-panes available in Pro mode */
+export type ChartIndicator = "volume" | "sma" | "ema" | "bollinger" | "rsi" | "macd";
+
+export interface ChartPreferences {
+  style: ChartStyle;
+  indicators: ChartIndicator[];
+}
+
 interface ViewModeContextValue {
   /** Current view mode */
   mode: ViewMode;
@@ -18,6 +29,17 @@ interface ViewModeContextValue {
   setMode: (mode: ViewMode) => void;
   /** Whether the mode has been loaded from storage */
   isLoaded: boolean;
+  /**
+   * Pro chart settings as chosen by the user. Simple mode always renders a
+   * plain line chart; use `activeChart` for what should be drawn right now.
+   */
+  chart: ChartPreferences;
+  /** Chart settings in effect for the current mode */
+  activeChart: ChartPreferences;
+  /** Set the Pro chart style */
+  setChartStyle: (style: ChartStyle) => void;
+  /** Turn a Pro chart indicator on or off */
+  toggleIndicator: (indicator: ChartIndicator) => void;
 }
 
 // ─── Constants ──────────────────────────────────────────────────────────────
@@ -25,6 +47,27 @@ interface ViewModeContextValue {
 const STORAGE_KEY = "@agrx/view-mode";
 const DEFAULT_MODE: ViewMode = "simple";
 
+const CHART_STORAGE_KEY = "@agrx/chart-preferences";
+const CHART_STYLES: ChartStyle[] = ["line", "candle", "ohlc"];
+export const CHART_INDICATORS: ChartIndicator[] = ["volume", "sma", "ema", "bollinger", "rsi", "macd"];
+const DEFAULT_CHART: ChartPreferences = { style: "candle", indicators: ["volume"] };
+const SIMPLE_CHART: ChartPreferences = { style: "line", indicators: [] };
+
+/** Validate stored chart preferences, dropping anything unknown */
+function parseChartPreferences(raw: string | null): ChartPreferences {
+  if (!raw) return DEFAULT_CHART;
+  try {
+    const parsed = JSON.parse(raw) as Partial<ChartPreferences>;
+    const style = CHART_STYLES.includes(parsed.style as ChartStyle) ? (parsed.style as ChartStyle) : DEFAULT_CHART.style;
+    const indicators = Array.isArray(parsed.indicators)
+      ? CHART_INDICATORS.filter((i) => parsed.indicators!.includes(i))
+      : DEFAULT_CHART.indicators;
+    return { style, indicators };
+  } catch {
+    return DEFAULT_CHART;
+  }
+}
+
 // ─── Context ────────────────────────────────────────────────────────────────
 
 const ViewModeContext = createContext<ViewModeContextValue>({
@@ -34,22 +77,31 @@ const ViewModeContext = createContext<ViewModeContextValue>({
   toggle: () => {},
   setMode: () => {},
   isLoaded: false,
+  chart: DEFAULT_CHART,
+  activeChart: SIMPLE_CHART,
+  setChartStyle: () => {},
+  toggleIndicator: () => {},
 });
 
 // ─── Provider ───────────────────────────────────────────────────────────────
 
 export function ViewModeProvider({ children }: { children: React.ReactNode }) {
   const [mode, setModeState] = useState<ViewMode>(DEFAULT_MODE);
+  const [chart, setChart] = useState<ChartPreferences>(DEFAULT_CHART);
   const [isLoaded, setIsLoaded] = useState(false);
 
   // Hydrate from AsyncStorage
   useEffect(() => {
     (async () => {
       try {
-        const stored = await AsyncStorage.getItem(STORAGE_KEY);
+        const [stored, storedChart] = await Promise.all([
+          AsyncStorage.getItem(STORAGE_KEY),
+          AsyncStorage.getItem(CHART_STORAGE_KEY),
+        ]);
         if (stored === "simple" || stored === "pro") {
           setModeState(stored);
         }
+        setChart(parseChartPreferences(storedChart));
       } catch {
         // Silently fall back to default
       } finally {
@@ -71,6 +123,30 @@ export function ViewModeProvider({ children }: { children: React.ReactNode }) {
     });
   }, []);
 
+  const updateChart = useCallback((update: (prev: ChartPreferences) => ChartPreferences) => {
+    setChart((prev) => {
+      const next = update(prev);
+      AsyncStorage.setItem(CHART_STORAGE_KEY, JSON.stringify(next)).catch(() => {});
+      return next;
+    });
+  }, []);
+
+  const setChartStyle = useCallback(
+    (style: ChartStyle) => updateChart((prev) => ({ ...prev, style })),
+    [updateChart]
+  );
+
+  const toggleIndicator = useCallback(
+    (indicator: ChartIndicator) =>
+      updateChart((prev) => ({
+        ...prev,
+        indicators: prev.indicators.includes(indicator)
+          ? prev.indicators.filter((i) => i !== indicator)
+          : CHART_INDICATORS.filter((i) => i === indicator || prev.indicators.includes(i)),
+      })),
+    [updateChart]
+  );
+
   const value: ViewModeContextValue = {
     mode,
     isSimple: mode === "simple",
@@ -78,6 +154,10 @@ export function ViewModeProvider({ children }: { children: React.ReactNode }) {
     toggle,
     setMode,
     isLoaded,
+    chart,
+    activeChart: mode === "pro" ? chart : SIMPLE_CHART,
+    setChartStyle,
+    toggleIndicator,
   };
 
   return <ViewModeContext value={value}>{children}</ViewModeContext>;
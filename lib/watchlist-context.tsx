@@ -5,8 +5,11 @@ import React, {
   useEffect,
   useCallback,
   useMemo,
+  useRef,
 } from "react";
 import AsyncStorage from "@react-native-async-storage/async-storage";
+import { useAuth } from "@/hooks/use-auth";
+import { trpc } from "@/lib/trpc";
 
 const STORAGE_KEY = "@agrx/watchlist";
 const SEEDED_KEY = "@agrx/watchlist-seeded";
@@ -35,6 +38,23 @@ const WatchlistContext = createContext<WatchlistContextValue>({
 export function WatchlistProvider({ children }: { children: React.ReactNode }) {
   const [watchlist, setWatchlist] = useState<Set<string>>(new Set());
   const [loaded, setLoaded] = useState(false);
+  const { isAuthenticated } = useAuth();
+
+  // Server watchlist (signed-in users only); it powers watchlist alerts
+  const { mutate: mergeServerWatchlist } = trpc.watchlist.merge.useMutation();
+  const { mutate: addServerStock } = trpc.watchlist.add.useMutation();
+  const { mutate: removeServerStock } = trpc.watchlist.remove.useMutation();
+  const merged = useRef(false);
+  const watchlistRef = useRef(watchlist);
+  watchlistRef.current = watchlist;
+
+  /** Replace local state with the server's copy of the watchlist */
+  const applyServerWatchlist = useCallback(
+    (result: { success: true; data: string[] } | { success: false; error: string }) => {
+      if (result.success) setWatchlist(new Set(result.data));
+    },
+    []
+  );
 
   // Load from AsyncStorage on mount, auto-seed for first-time users
   useEffect(() => {
@@ -58,6 +78,28 @@ export function WatchlistProvider({ children }: { children: React.ReactNode }) {
     })();
   }, []);
 
+  // ── Sync with the server when signed in ───────────────────────────
+  // The local watchlist is merged into the account's once per sign-in,
+  // then the server's copy wins.
+  useEffect(() => {
+    if (!isAuthenticated) {
+      merged.current = false;
+      return;
+    }
+    if (!loaded || merged.current) return;
+    merged.current = true;
+    mergeServerWatchlist(
+      { stockIds: Array.from(watchlistRef.current) },
+      {
+        onSuccess: applyServerWatchlist,
+        onError: (error) => {
+          console.warn("[WatchlistProvider] Failed to sync watchlist:", error);
+          merged.current = false;
+        },
+      }
+    );
+  }, [isAuthenticated, loaded, mergeServerWatchlist, applyServerWatchlist]);
+
   // Persist to AsyncStorage whenever watchlist changes (after initial load)
   useEffect(() => {
     if (!loaded) return;
@@ -65,17 +107,35 @@ export function WatchlistProvider({ children }: { children: React.ReactNode }) {
     AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(ids)).catch(() => {});
   }, [watchlist, loaded]);
 
-  const toggle = useCallback((stockId: string) => {
-    setWatchlist((prev) => {
-      const next = new Set(prev);
-      if (next.has(stockId)) {
-        next.delete(stockId);
+  const toggle = useCallback(
+    (stockId: string) => {
+      const removing = watchlistRef.current.has(stockId);
+      setWatchlist((prev) => {
+        const next = new Set(prev);
+        if (removing) {
+          next.delete(stockId);
+        } else {
+          next.add(stockId);
+        }
+        return next;
+      });
+
+      // Write through once synced; the server's answer wins
+      if (!isAuthenticated || !merged.current) return;
+      const options = {
+        onSuccess: applyServerWatchlist,
+        onError: (error: unknown) => {
+          console.warn("[WatchlistProvider] Failed to update server watchlist:", error);
+        },
+      };
+      if (removing) {
+        removeServerStock({ stockId }, options);
       } else {
-        next.add(stockId);
+        addServerStock({ stockId }, options);
       }
-      return next;
-    });
-  }, []);
+    },
+    [isAuthenticated, addServerStock, removeServerStock, applyServerWatchlist]
+  );
 
   const isWatchlisted = useCallback(
     (stockId: string) => watchlist.has(stockId),
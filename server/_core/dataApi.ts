@@ -3,6 +3,9 @@
  *   await callDataApi("Youtube/search", {
  *     query: { gl: "US", hl: "en", q: "manus" },
  *   })
+ *
+ * Every call's latency and outcome is kept per apiId in memory (the last
+ * LATENCY_SAMPLES calls) for the admin dashboard; see getDataApiHealth().
  */
 import { ENV } from "./env";
 
@@ -13,10 +16,89 @@ export type DataApiCallOptions = {
   formData?: Record<string, unknown>;
 };
 
+export type DataApiHealth = {
+  apiId: string;
+  calls: number;
+  failures: number;
+  /** Over the last LATENCY_SAMPLES calls, in ms */
+  avgLatencyMs: number;
+  p95LatencyMs: number;
+  lastLatencyMs: number;
+  lastSuccessAt: number | null;
+  lastFailureAt: number | null;
+  lastError: string | null;
+};
+
+type ApiCalls = Pick<DataApiHealth, "calls" | "failures" | "lastSuccessAt" | "lastFailureAt" | "lastError"> & {
+  latencies: number[];
+};
+
+const LATENCY_SAMPLES = 100;
+
+const health = new Map<string, ApiCalls>();
+
+function recordCall(apiId: string, startedAt: number, error: unknown): void {
+  const entry = health.get(apiId) ?? {
+    latencies: [],
+    calls: 0,
+    failures: 0,
+    lastSuccessAt: null,
+    lastFailureAt: null,
+    lastError: null,
+  };
+  const now = Date.now();
+  entry.calls++;
+  entry.latencies.push(now - startedAt);
+  if (entry.latencies.length > LATENCY_SAMPLES) entry.latencies.shift();
+  if (error) {
+    entry.failures++;
+    entry.lastFailureAt = now;
+    entry.lastError = error instanceof Error ? error.message : String(error);
+  } else {
+    entry.lastSuccessAt = now;
+  }
+  health.set(apiId, entry);
+}
+
+/** Call counts, failures and latency of each Data API this process has called */
+export function getDataApiHealth(): DataApiHealth[] {
+  return Array.from(health, ([apiId, entry]) => {
+    const latencies = [...entry.latencies].sort((a, b) => a - b);
+    return {
+      apiId,
+      calls: entry.calls,
+      failures: entry.failures,
+      avgLatencyMs: Math.round(latencies.reduce((sum, l) => sum + l, 0) / latencies.length),
+      p95LatencyMs: latencies[Math.min(latencies.length - 1, Math.floor(latencies.length * 0.95))],
+      lastLatencyMs: entry.latencies[entry.latencies.length - 1],
+      lastSuccessAt: entry.lastSuccessAt,
+      lastFailureAt: entry.lastFailureAt,
+      lastError: entry.lastError,
+    };
+  });
+}
+
+/** Forget recorded calls (tests) */
+export function resetDataApiHealth(): void {
+  health.clear();
+}
+
 export async function callDataApi(
   apiId: string,
   options: DataApiCallOptions = {},
 ): Promise<unknown> {
+  const startedAt = Date.now();
+  try {
+    const result = await requestDataApi(apiId, options);
+    recordCall(apiId, startedAt, null);
+    return result;
+  } catch (error) {
+    recordCall(apiId, startedAt, error);
+    throw error;
+  }
+}
+
+async function requestDataApi(apiId: string, options: DataApiCallOptions): Promise<unknown> {
   if (!ENV.forgeApiUrl) {
     throw new Error("BUILT_IN_FORGE_API_URL is not configured");
   }
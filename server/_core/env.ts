@@ -1,3 +1,9 @@
+/** A numeric variable, or `fallback` when it is unset or not a number */
+function numberEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return process.env[name] && Number.isFinite(value) ? value : fallback;
+}
+
 export const ENV = {
   appId: process.env.VITE_APP_ID ?? "",
   cookieSecret: process.env.JWT_SECRET ?? "",
@@ -7,4 +13,30 @@ export const ENV = {
   isProduction: process.env.NODE_ENV === "production",
   forgeApiUrl: process.env.BUILT_IN_FORGE_API_URL ?? "",
   forgeApiKey: process.env.BUILT_IN_FORGE_API_KEY ?? "",
+  /** Reject demo trades when the fill quote was fetched longer ago than this */
+  tradeMaxQuoteAgeMs: numberEnv("TRADE_MAX_QUOTE_AGE_MS", 5 * 60 * 1000),
+  /** Also reject them when, during the session, the last trade is older than this; 0 disables it */
+  tradeMaxLastTradeAgeMs: numberEnv("TRADE_MAX_LAST_TRADE_AGE_MS", 0),
+  /** How often the quote stream poller refreshes subscribed symbols during trading hours */
+  quoteStreamIntervalMs: numberEnv("QUOTE_STREAM_INTERVAL_MS", 15_000),
+  /** Where quotes and charts come from: "yahoo", "fixture" (recorded JSON) or "simulator" */
+  marketDataProvider: process.env.MARKET_DATA_PROVIDER ?? "yahoo",
+  /** Directory of recorded Yahoo chart responses for the fixture provider */
+  marketDataFixtureDir: process.env.MARKET_DATA_FIXTURE_DIR ?? "",
+  /** When set, the Yahoo provider saves every chart response here as a fixture */
+  marketDataRecordDir: process.env.MARKET_DATA_RECORD_DIR ?? "",
+  /** How often the price history backfill brings daily bars up to date; 0 disables it */
+  priceBackfillIntervalMs: numberEnv("PRICE_BACKFILL_INTERVAL_MS", 6 * 60 * 60 * 1000),
+  /** How often the market news push job polls the news feed; 0 disables it */
+  newsPushIntervalMs: numberEnv("NEWS_PUSH_INTERVAL_MS", 10 * 60 * 1000),
+  /** How often the daily brief job checks whether today's brief is due; 0 disables it */
+  dailyBriefIntervalMs: numberEnv("DAILY_BRIEF_INTERVAL_MS", 15 * 60 * 1000),
+  /** RSS/Atom feed of ATHEX regulatory announcements, read into stock and market news */
+  athexAnnouncementsFeedUrl: process.env.ATHEX_ANNOUNCEMENTS_FEED_URL ?? "",
+  /** Company investor relations feeds as "stockId=url" pairs, comma-separated */
+  newsIrFeeds: process.env.NEWS_IR_FEEDS ?? "",
+  /** Expo Push API base; /send and /getReceipts are appended. Tests point it at a local server */
+  expoPushApiUrl: process.env.EXPO_PUSH_API_URL ?? "https://exp.host/--/api/v2/push",
+  /** Expo access token, required when enhanced push security is on for the project */
+  expoAccessToken: process.env.EXPO_ACCESS_TOKEN ?? "",
 };
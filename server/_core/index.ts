@@ -5,6 +5,11 @@ import net from "net";
 import { createExpressMiddleware } from "@trpc/server/adapters/express";
 import { registerOAuthRoutes } from "./oauth";
 import { appRouter } from "../routers";
+import { handleQuoteStream } from "../quoteStreamService";
+import { startPriceBackfill } from "../priceHistoryService";
+import { initPriceAlertService } from "../priceAlertService";
+import { startNewsPushJob } from "../newsPushService";
+import { startDailyBriefJob } from "../dailyBriefService";
 import { createContext } from "./context";
 
 function isPortAvailable(port: number): Promise<boolean> {
@@ -60,6 +65,9 @@ async function startServer() {
     res.json({ ok: true, timestamp: Date.now() });
   });
 
+  // Live quote deltas over Server-Sent Events (see quoteStreamService)
+  app.get("/api/quotes/stream", handleQuoteStream);
+
   app.use(
     "/api/trpc",
     createExpressMiddleware({
@@ -77,6 +85,12 @@ async function startServer() {
 
   server.listen(port, () => {
     console.log(`[api] server listening on port ${port}`);
+    startPriceBackfill();
+    startNewsPushJob();
+    startDailyBriefJob();
+    initPriceAlertService().catch((err) =>
+      console.warn("[PriceAlertService] Failed to load alerts:", err)
+    );
   });
 }
 
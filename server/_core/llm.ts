@@ -252,7 +252,22 @@ const normalizeResponseFormat = ({
   };
 };
 
+export type LLMClient = (params: InvokeParams) => Promise<InvokeResult>;
+
+let client: LLMClient | null = null;
+
+/** Answer invokeLLM() calls with `next` instead of the API (tests), or pass null to undo */
+export function setLLMClient(next: LLMClient | null): void {
+  client = next;
+}
+
+/** Whether invokeLLM() can be called: an API key or a replacement client is set */
+export function isLLMConfigured(): boolean {
+  return client !== null || Boolean(ENV.forgeApiKey);
+}
+
 export async function invokeLLM(params: InvokeParams): Promise<InvokeResult> {
+  if (client) return client(params);
   assertApiKey();
 
   const {
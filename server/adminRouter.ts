@@ -0,0 +1,133 @@
+/**
+ * AGRX Admin Router
+ *
+ * tRPC router behind the operations dashboard (app/dev/alert-service):
+ * - Price alert service status, with start/stop and an on-demand check
+ * - The latest check runs and their checked/triggered/sent counts
+ * - Registered devices and alert volume per stock
+ * - Data API health: calls, failures and latency per upstream API
+ * - News sentiment analyses: model, latency and token usage of each
+ *
+ * Every procedure is adminProcedure. Check runs, Data API health and
+ * sentiment analyses are kept in memory, so they describe the instance
+ * that answers the request.
+ */
+import { z } from "zod";
+import { getDataApiHealth } from "./_core/dataApi";
+import { adminProcedure, router } from "./_core/trpc";
+import { getSentimentAnalyses } from "./newsService";
+import {
+  checkPriceAlerts,
+  getAlertVolume,
+  getCheckRuns,
+  getRecentDevices,
+  getServiceStats,
+  isCheckInProgress,
+  isServiceRunning,
+  startPriceAlertService,
+  stopPriceAlertService,
+} from "./priceAlertService";
+
+// ─── Input Schemas ──────────────────────────────────────────────────────────
+
+const listDevicesSchema = z.object({
+  limit: z.number().int().min(1).max(200).default(50),
+});
+
+const alertVolumeSchema = z.object({
+  /** Triggers are counted over this many days */
+  days: z.number().int().min(1).max(90).default(7),
+});
+
+const checkRunsSchema = z.object({
+  limit: z.number().int().min(1).max(50).default(20),
+});
+
+const sentimentAnalysesSchema = z.object({
+  limit: z.number().int().min(1).max(50).default(20),
+});
+
+// ─── Router ─────────────────────────────────────────────────────────────────
+
+export const adminRouter = router({
+  /**
+   * Price alert service status and store counts
+   */
+  getServiceStatus: adminProcedure.query(async () => {
+    return { success: true as const, data: await getServiceStats() };
+  }),
+
+  /**
+   * Most recently seen devices, push tokens masked
+   */
+  listDevices: adminProcedure.input(listDevicesSchema).query(async ({ input }) => {
+    return { success: true as const, data: await getRecentDevices(input.limit) };
+  }),
+
+  /**
+   * Alerts per stock, and how often they fired over the last `days`
+   */
+  getAlertVolume: adminProcedure.input(alertVolumeSchema).query(async ({ input }) => {
+    const since = Date.now() - input.days * 24 * 60 * 60 * 1000;
+    return { success: true as const, data: await getAlertVolume(since) };
+  }),
+
+  /**
+   * Latest check runs, newest first
+   */
+  getCheckRuns: adminProcedure.input(checkRunsSchema).query(({ input }) => {
+    return { success: true as const, data: getCheckRuns(input.limit) };
+  }),
+
+  /**
+   * Calls, failures and latency per Data API
+   */
+  getProviderHealth: adminProcedure.query(() => {
+    return { success: true as const, data: getDataApiHealth() };
+  }),
+
+  /**
+   * Latest news sentiment analyses, newest first
+   */
+  getSentimentAnalyses: adminProcedure.input(sentimentAnalysesSchema).query(({ input }) => {
+    return { success: true as const, data: getSentimentAnalyses(input.limit) };
+  }),
+
+  /**
+   * Start the periodic checks
+   */
+  startService: adminProcedure.mutation(() => {
+    if (isServiceRunning()) {
+      return { success: false as const, error: "The service is already running." };
+    }
+    startPriceAlertService();
+    return { success: true as const };
+  }),
+
+  /**
+   * Stop the periodic checks
+   */
+  stopService: adminProcedure.mutation(() => {
+    if (!isServiceRunning()) {
+      return { success: false as const, error: "The service isn't running." };
+    }
+    stopPriceAlertService();
+    return { success: true as const };
+  }),
+
+  /**
+   * Run a price check now and return its run
+   */
+  runCheck: adminProcedure.mutation(async () => {
+    if (isCheckInProgress()) {
+      return { success: false as const, error: "A check is already in progress." };
+    }
+    try {
+      await checkPriceAlerts("manual");
+    } catch (error) {
+      // Logged as a failed run, returned below
+      console.error("[AdminRouter] Manual check failed:", error);
+    }
+    return { success: true as const, data: getCheckRuns(1)[0] };
+  }),
+});
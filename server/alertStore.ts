@@ -0,0 +1,331 @@
+/**
+ * AGRX Alert Store
+ *
+ * Everything the price alert service keeps: devices, alerts, preferences,
+ * trigger and evaluation logs, notifications held by quiet hours until they
+ * are due, the push queue, inboxes, news pushes and the last prices seen.
+ * Alerts and preferences belong to an account; claiming a device moves its
+ * anonymous alerts to the account. Uses drizzle tables when DATABASE_URL is
+ * set, otherwise an in-memory store that is lost on restart.
+ *
+ * Cross-instance safety lives in claimAlert(): an instance must move an
+ * alert's lastTriggered past the cooldown before it may push, and only one
+ * instance can win that update.
+ */
+import { DEFAULT_DIGEST_HOUR, DEFAULT_TIMEZONE, type NotificationCategory } from "../shared/notification-schedule.js";
+import { getDb } from "./db";
+import { createDatabaseAlertStore } from "./databaseAlertStore";
+import { createMemoryAlertStore } from "./memoryAlertStore";
+import type {
+  DeviceRegistration,
+  NotificationPreferences,
+  PriceAlert,
+} from "./priceAlertService";
+
+// ─── Types ──────────────────────────────────────────────────────────────────
+
+export type DevicePlatform = DeviceRegistration["platform"];
+
+/** Who an alert belongs to: an account, or an anonymous device not yet claimed */
+export type AlertOwner = { userId: number } | { deviceId: string };
+
+/** An enabled alert whose owner has price alerts switched on */
+export interface ActiveAlert {
+  alert: PriceAlert;
+  owner: AlertOwner;
+  /** Every device the push goes to */
+  pushTokens: string[];
+  preferences: NotificationPreferences;
+}
+
+export interface AlertTrigger {
+  alertId: string;
+  userId: number | null;
+  deviceId: string | null;
+  /** Null for portfolio value and P&L alerts */
+  stockId: string | null;
+  /** Stock price, or portfolio value / P&L */
+  price: number;
+  /** Previous close when the alert fired */
+  previousPrice: number | null;
+  title: string;
+  body: string;
+  /**
+   * Outcome when the check finished: "held" = waiting for quiet hours or the
+   * delivery window to end, "queued" = the push is being retried
+   */
+  status: "queued" | "sent" | "failed" | "held";
+  /** The push and inbox notification (see getDeliveryStatus); null on older rows */
+  notificationId: string | null;
+  /** Unix ms */
+  triggeredAt: number;
+}
+
+export type AlertEvaluationOutcome = "not_met" | "fired" | "cooling_down" | "claimed_elsewhere" | "no_data";
+
+/**
+ * A run of consecutive checks of one alert with the same outcome. "fired"
+ * runs are never extended: each firing has its own row and trigger.
+ */
+export interface AlertEvaluation {
+  id: number;
+  alertId: string;
+  userId: number | null;
+  deviceId: string | null;
+  outcome: AlertEvaluationOutcome;
+  /** Stock price or portfolio value at the latest check; null if unknown */
+  price: number | null;
+  /** Checks in this run */
+  count: number;
+  /** Unix ms */
+  firstEvaluatedAt: number;
+  /** Unix ms */
+  lastEvaluatedAt: number;
+}
+
+/** A notification waiting for quiet hours or its delivery window to end */
+export interface HeldNotification {
+  id: number;
+  /** Kept when the notification is finally pushed */
+  notificationId: string;
+  userId: number | null;
+  deviceId: string | null;
+  category: NotificationCategory;
+  title: string;
+  body: string;
+  data: Record<string, string>;
+  /** Unix ms it may be sent */
+  deliverAt: number;
+  /** Unix ms */
+  createdAt: number;
+}
+
+/**
+ * "unregistered" = Expo reported the token as DeviceNotRegistered; the
+ * device was removed
+ */
+export type PushMessageStatus = "queued" | "sent" | "delivered" | "failed" | "unregistered";
+
+/** One notification on its way to one device token */
+export interface PushMessage {
+  id: number;
+  notificationId: string;
+  pushToken: string;
+  title: string;
+  body: string;
+  data: Record<string, string>;
+  status: PushMessageStatus;
+  attempts: number;
+  /** Unix ms the next send, retry or receipt check is due */
+  nextAttemptAt: number;
+  /** Expo push ticket, set once Expo accepts the message */
+  ticketId: string | null;
+  error: string | null;
+  /** Unix ms */
+  createdAt: number;
+}
+
+export type PushMessageUpdate = Partial<Pick<PushMessage, "status" | "attempts" | "nextAttemptAt" | "ticketId" | "error">>;
+
+/** A notification in an account's inbox, whether or not a device got the push */
+export interface InboxNotification {
+  id: number;
+  userId: number;
+  /** The push that carried it (see getDeliveryStatus) */
+  notificationId: string;
+  category: NotificationCategory;
+  title: string;
+  body: string;
+  data: Record<string, string>;
+  read: boolean;
+  /** Unix ms */
+  createdAt: number;
+}
+
+export interface AlertStoreStats {
+  registeredDevices: number;
+  /** Devices linked to an account */
+  linkedDevices: number;
+  totalAlerts: number;
+  activeAlerts: number;
+  stocksMonitored: number;
+}
+
+/** An account that gets market news pushes: marketNews on and at least one device */
+export interface NewsSubscriber {
+  userId: number;
+  pushTokens: string[];
+  preferences: NotificationPreferences;
+}
+
+/**
+ * "stock" = a headline about a stock the user holds, watches or has alerts
+ * on, "market" = an ATHEX-wide headline, "sentiment" = a stock's news
+ * sentiment turned strongly bullish or bearish
+ */
+export type NewsPushReason = "stock" | "market" | "sentiment";
+
+/** A market news push sent to an account */
+export interface NewsPush {
+  userId: number;
+  /** The story (or sentiment shift), so it is pushed once however many sources carry it */
+  articleKey: string;
+  stockId: string | null;
+  reason: NewsPushReason;
+  title: string;
+  /** Unix ms */
+  pushedAt: number;
+}
+
+/** Alert volume on one stock, for the admin dashboard */
+export interface StockAlertVolume {
+  stockId: string;
+  /** Stock-scope alerts on it */
+  alerts: number;
+  enabled: number;
+  /** Trigger rows naming it (any scope) in the period asked for */
+  triggers: number;
+}
+
+export interface AlertStore {
+  readonly name: "database" | "memory";
+
+  /** Create the device, or refresh its token and lastSeen; never changes its owner */
+  upsertDevice(deviceId: string, pushToken: string, platform: DevicePlatform): Promise<DeviceRegistration>;
+  /**
+   * Link a device to an account, but only while it still belongs to
+   * `previousUserId` (anonymous by default), so of two concurrent claims one
+   * wins. Alerts the device created while anonymous move to the account,
+   * and so do preferences it set before accounts existed unless the account
+   * has its own. False when the device is gone or changed hands first.
+   */
+  claimDevice(deviceId: string, userId: number, previousUserId?: number | null): Promise<boolean>;
+  /** Remove the device and any alerts it owns anonymously */
+  deleteDevice(deviceId: string): Promise<boolean>;
+  getDevice(deviceId: string): Promise<DeviceRegistration | null>;
+  listDevices(userId: number): Promise<DeviceRegistration[]>;
+
+  listAlerts(userId: number): Promise<PriceAlert[]>;
+  insertAlert(userId: number, alert: PriceAlert): Promise<void>;
+  deleteAlert(userId: number, alertId: string): Promise<boolean>;
+  toggleAlert(userId: number, alertId: string): Promise<boolean>;
+
+  /** Stored preferences, or the defaults if the user never changed them */
+  getPreferences(userId: number): Promise<NotificationPreferences>;
+  updatePreferences(userId: number, prefs: Partial<NotificationPreferences>): Promise<NotificationPreferences>;
+
+  /** Every enabled alert of owners with price alerts on and at least one device */
+  listActiveAlerts(): Promise<ActiveAlert[]>;
+  getLastPrices(): Promise<Map<string, number>>;
+  setLastPrices(prices: Map<string, number>): Promise<void>;
+
+  /**
+   * Set lastTriggered to `now` if the alert is enabled and out of cooldown.
+   * Returns true for exactly one caller, whichever instance gets there first.
+   */
+  claimAlert(alertId: string, now: number, cooldownMs: number): Promise<boolean>;
+  /** Undo a claim after a failed push, unless the alert was claimed again since */
+  releaseAlert(alertId: string, claimedAt: number, previous: number | null): Promise<void>;
+
+  recordTrigger(trigger: AlertTrigger): Promise<void>;
+  /** Most recent triggers of a user's alerts, newest first */
+  listTriggers(userId: number, limit: number): Promise<AlertTrigger[]>;
+  /** Triggers of one alert since `since` (unix ms), oldest first */
+  listAlertTriggers(alertId: string, since: number): Promise<AlertTrigger[]>;
+
+  /**
+   * Log one check of an alert at `now`: extends the alert's latest run if it
+   * had the same outcome (and didn't fire), otherwise starts a new one
+   */
+  recordEvaluation(
+    evaluation: Pick<AlertEvaluation, "alertId" | "userId" | "deviceId" | "outcome" | "price">,
+    now: number
+  ): Promise<void>;
+  /** Latest evaluation runs of one alert, newest first */
+  listEvaluations(alertId: string, limit: number): Promise<AlertEvaluation[]>;
+
+  holdNotification(notification: Omit<HeldNotification, "id">): Promise<void>;
+  /**
+   * Remove and return the held notifications due by `now`, oldest first.
+   * Each is returned to one caller only.
+   */
+  takeDueNotifications(now: number): Promise<HeldNotification[]>;
+
+  enqueuePushMessages(messages: Omit<PushMessage, "id">[]): Promise<void>;
+  /**
+   * Up to `limit` messages in `status` due by `now`, longest overdue first. Their
+   * nextAttemptAt moves to `leaseUntil`, so each is returned to one caller
+   * only and comes back if that caller dies before updating it.
+   */
+  claimPushMessages(status: "queued" | "sent", now: number, limit: number, leaseUntil: number): Promise<PushMessage[]>;
+  updatePushMessage(id: number, update: PushMessageUpdate): Promise<void>;
+  listPushMessages(notificationId: string): Promise<PushMessage[]>;
+  /** Remove every device registered with a dead token; returns how many */
+  deleteDevicesByToken(pushToken: string): Promise<number>;
+
+  /** Returns the new inbox ID */
+  addInboxNotification(notification: Omit<InboxNotification, "id" | "read">): Promise<number>;
+  /** A user's inbox newest first, starting below ID `before` when given */
+  listInbox(userId: number, before: number | null, limit: number): Promise<InboxNotification[]>;
+  countUnreadInbox(userId: number): Promise<number>;
+  /** Mark the given notifications, or all of the user's when `ids` is null */
+  setInboxRead(userId: number, ids: number[] | null, read: boolean): Promise<void>;
+  /** Delete the given notifications, or all of the user's when `ids` is null */
+  deleteInboxNotifications(userId: number, ids: number[] | null): Promise<void>;
+
+  /** Accounts with market news on and at least one device */
+  listNewsSubscribers(): Promise<NewsSubscriber[]>;
+  /**
+   * Log a news push unless the user already got the same story. Returns true
+   * for exactly one caller per user and articleKey.
+   */
+  claimNewsPush(push: NewsPush): Promise<boolean>;
+  /** News pushes logged for a user since `since` (unix ms) */
+  countNewsPushes(userId: number, since: number): Promise<number>;
+
+  getStats(): Promise<AlertStoreStats>;
+  /** Most recently seen devices of all owners */
+  listRecentDevices(limit: number): Promise<DeviceRegistration[]>;
+  /** Alert and trigger counts per stock, triggers counted since `since` (unix ms) */
+  getAlertVolume(since: number): Promise<StockAlertVolume[]>;
+}
+
+// ─── Constants ──────────────────────────────────────────────────────────────
+
+export const DEFAULT_PREFERENCES: NotificationPreferences = {
+  priceAlerts: true,
+  dailyChallenge: true,
+  socialActivity: false,
+  marketNews: true,
+  percentThreshold: 5,
+  quietHoursStart: null,
+  quietHoursEnd: null,
+  timezone: DEFAULT_TIMEZONE,
+  schedules: {},
+  heldDelivery: "when_quiet_ends",
+  digestHour: DEFAULT_DIGEST_HOUR,
+};
+
+// ─── Store Selection ────────────────────────────────────────────────────────
+
+let store: AlertStore | null = null;
+
+export async function getAlertStore(): Promise<AlertStore> {
+  if (!store) {
+    const db = await getDb();
+    if (db) {
+      store = createDatabaseAlertStore(db);
+    } else {
+      console.warn(
+        "[PriceAlertService] No database configured; devices and alerts are kept in memory and lost on restart"
+      );
+      store = createMemoryAlertStore();
+    }
+  }
+  return store;
+}
+
+/** Replace the store (tests), or pass null to pick again on next use */
+export function setAlertStore(next: AlertStore | null): void {
+  store = next;
+}
@@ -0,0 +1,390 @@
+/**
+ * AGRX Daily Brief Service
+ *
+ * Writes the daily ATHEX brief: a headline, three bullets, the stocks it
+ * mentions with their moves, and the articles it cites. The day's top
+ * movers (getMultipleQuotes), sector performance (lib/sectors) and the most
+ * widely reported market stories (getMarketNews) go to the shared LLM
+ * client (invokeLLM, strict JSON schema output).
+ *
+ * - The model picks stocks and cites stories by number from what it was
+ *   given; the moves and URLs in the brief come from the data, so it can't
+ *   misquote a price or invent a link
+ * - A scheduled job writes one brief per trading day after the close; only
+ *   the instance holding the brief lease runs it
+ * - Briefs are stored per Athens day in `daily_briefs` and kept in memory,
+ *   so an instance without a database still serves the briefs it wrote
+ */
+import { desc, eq, sql } from "drizzle-orm";
+import { z } from "zod";
+import { getSector, type Sector } from "../lib/sectors";
+import { getAthensDate, getNextClose, isTradingDay } from "../shared/market-calendar.js";
+import { ENV } from "./_core/env";
+import { invokeLLM, isLLMConfigured, type InvokeResult, type JsonSchema } from "./_core/llm";
+import { getDb } from "./db";
+import { acquireJobLease } from "./jobLease";
+import { getMarketNews, type NewsArticle } from "./newsService";
+import { getMultipleQuotes, type StockQuote } from "./stockService";
+import { dailyBriefs, type DailyBriefRow } from "../drizzle/schema";
+
+// ─── Types ──────────────────────────────────────────────────────────────────
+
+export type DailyBriefStock = DailyBriefRow["stocks"][number];
+export type DailyBriefSource = DailyBriefRow["sources"][number];
+
+export interface DailyBrief {
+  /** Athens date, "YYYY-MM-DD" */
+  day: string;
+  headline: string;
+  /** Always three */
+  bullets: string[];
+  stocks: DailyBriefStock[];
+  sources: DailyBriefSource[];
+  model: string;
+  /** Unix ms */
+  generatedAt: number;
+}
+
+export type DailyBriefResult = { success: true; brief: DailyBrief } | { success: false; error: string };
+
+interface SectorMove {
+  sector: Sector;
+  /** Mean change of the sector's quoted stocks */
+  changePercent: number;
+  stocks: number;
+}
+
+// ─── Constants ──────────────────────────────────────────────────────────────
+
+const BRIEF_LEASE = "daily-brief";
+
+/** Gainers and losers each offered to the model */
+const MOVERS_PER_SIDE = 5;
+
+/** Stories offered to the model */
+const MAX_STORIES = 6;
+
+/** Older stories are not part of the day's brief */
+const MAX_STORY_AGE_MS = 24 * 60 * 60 * 1000;
+
+/** Briefs kept in memory */
+const MAX_CACHED_BRIEFS = 7;
+
+// ─── State ──────────────────────────────────────────────────────────────────
+
+/** Briefs by day, most recently written last */
+const briefCache = new Map<string, DailyBrief>();
+
+let briefInterval: ReturnType<typeof setInterval> | null = null;
+let briefRunning = false;
+
+function cacheBrief(brief: DailyBrief): void {
+  briefCache.delete(brief.day);
+  briefCache.set(brief.day, brief);
+  while (briefCache.size > MAX_CACHED_BRIEFS) {
+    briefCache.delete(briefCache.keys().next().value as string);
+  }
+}
+
+// ─── Inputs ─────────────────────────────────────────────────────────────────
+
+function formatChange(changePercent: number): string {
+  return `${changePercent >= 0 ? "+" : ""}${changePercent.toFixed(2)}%`;
+}
+
+/** Biggest gainers and losers of the day, gainers first */
+function topMovers(quotes: StockQuote[]): StockQuote[] {
+  const traded = quotes.filter((q) => q.price > 0 && q.previousClose > 0);
+  const byChange = [...traded].sort((a, b) => b.changePercent - a.changePercent);
+  const gainers = byChange.filter((q) => q.changePercent > 0).slice(0, MOVERS_PER_SIDE);
+  const losers = byChange
+    .filter((q) => q.changePercent < 0)
+    .reverse()
+    .slice(0, MOVERS_PER_SIDE);
+  return [...gainers, ...losers];
+}
+
+/** Mean change per sector, best first */
+function sectorMoves(quotes: StockQuote[]): SectorMove[] {
+  const totals = new Map<Sector, { sum: number; stocks: number }>();
+  for (const quote of quotes) {
+    if (quote.price <= 0 || quote.previousClose <= 0) continue;
+    const sector = getSector(quote.id);
+    const total = totals.get(sector) ?? { sum: 0, stocks: 0 };
+    total.sum += quote.changePercent;
+    total.stocks++;
+    totals.set(sector, total);
+  }
+  return Array.from(totals, ([sector, t]) => ({
+    sector,
+    changePercent: Math.round((t.sum / t.stocks) * 100) / 100,
+    stocks: t.stocks,
+  })).sort((a, b) => b.changePercent - a.changePercent);
+}
+
+/** The day's stories carried by the most sources, then the newest */
+function topStories(articles: NewsArticle[], now: number): NewsArticle[] {
+  const coverage = (a: NewsArticle) => 1 + (a.alsoReportedBy?.length ?? 0);
+  return articles
+    .filter((a) => {
+      const publishedAt = new Date(a.publishedAt).getTime();
+      return a.url && now - publishedAt <= MAX_STORY_AGE_MS;
+    })
+    .sort(
+      (a, b) =>
+        coverage(b) - coverage(a) || new Date(b.publishedAt).getTime() - new Date(a.publishedAt).getTime()
+    )
+    .slice(0, MAX_STORIES);
+}
+
+// ─── Generation ─────────────────────────────────────────────────────────────
+
+/** Output the model must return; strict, so every field is always present */
+function briefSchema(stockIds: string[]): JsonSchema {
+  return {
+    name: "daily_brief",
+    strict: true,
+    schema: {
+      type: "object",
+      properties: {
+        headline: {
+          type: "string",
+          description: "One line summing up the session, at most 90 characters",
+        },
+        bullets: {
+          type: "array",
+          description: "Exactly three short bullets, the most important first",
+          items: { type: "string" },
+        },
+        stocks: {
+          type: "array",
+          description: "IDs of the stocks the headline and bullets mention",
+          items: { type: "string", enum: stockIds },
+        },
+        citations: {
+          type: "array",
+          description: "Numbers of the stories the bullets draw on",
+          items: { type: "integer" },
+        },
+      },
+      required: ["headline", "bullets", "stocks", "citations"],
+      additionalProperties: false,
+    },
+  };
+}
+
+const briefResponseSchema = z
+  .object({
+    headline: z.string().trim().min(1).max(255),
+    bullets: z.array(z.string().trim().min(1)).length(3),
+    stocks: z.array(z.string()),
+    citations: z.array(z.number().int()),
+  })
+  .strict();
+
+/**
+ * Write the brief for `day` from its quotes and market news. Fails when
+ * there is nothing to write about, no LLM is configured, or its answer is
+ * outside the schema or cites stocks or stories it wasn't given.
+ */
+export async function composeDailyBrief(
+  day: string,
+  quotes: StockQuote[],
+  articles: NewsArticle[],
+  now: number = Date.now()
+): Promise<DailyBriefResult> {
+  const movers = topMovers(quotes);
+  if (movers.length === 0) return { success: false, error: "No price moves to write about" };
+  if (!isLLMConfigured()) return { success: false, error: "No LLM configured" };
+
+  const sectors = sectorMoves(quotes);
+  const stories = topStories(articles, now);
+  const advancing = quotes.filter((q) => q.changePercent > 0).length;
+  const declining = quotes.filter((q) => q.changePercent < 0).length;
+
+  let response: InvokeResult;
+  try {
+    response = await invokeLLM({
+      messages: [
+        {
+          role: "system",
+          content:
+            "You write the end-of-day brief on the Athens Stock Exchange (ATHEX) for retail investors. Use only the data given. Only explain a move with a story you cite; without one, report the move without a reason. Write in English; stories may be in Greek.",
+        },
+        {
+          role: "user",
+          content: `Session of ${day}: ${advancing} stocks rose, ${declining} fell.
+
+Top movers:
+${movers.map((q) => `- ${q.id}: ${q.name} (${q.ticker}) ${formatChange(q.changePercent)} at €${q.price.toFixed(2)}`).join("\n")}
+
+Sectors:
+${sectors.map((s) => `- ${s.sector}: ${formatChange(s.changePercent)} (${s.stocks} stocks)`).join("\n")}
+
+Stories:
+${stories.length > 0 ? stories.map((a, i) => `${i + 1}. ${a.title} (${[a.source, ...(a.alsoReportedBy ?? [])].join(", ")})`).join("\n") : "None"}`,
+        },
+      ],
+      responseFormat: { type: "json_schema", json_schema: briefSchema(movers.map((q) => q.id)) },
+    });
+  } catch (error) {
+    console.warn(`[DailyBrief] Generation failed for ${day}:`, error);
+    return { success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+
+  const content = response.choices?.[0]?.message?.content;
+  let parsed: z.infer<typeof briefResponseSchema>;
+  try {
+    parsed = briefResponseSchema.parse(JSON.parse(typeof content === "string" ? content : ""));
+  } catch {
+    console.warn(`[DailyBrief] Brief for ${day} didn't match the schema`);
+    return { success: false, error: "Response didn't match the schema" };
+  }
+
+  const moverById = new Map(movers.map((q) => [q.id, q]));
+  if (parsed.stocks.some((id) => !moverById.has(id))) {
+    return { success: false, error: "Brief mentions a stock it wasn't given" };
+  }
+  if (parsed.citations.some((n) => n < 1 || n > stories.length)) {
+    return { success: false, error: "Brief cites a story it wasn't given" };
+  }
+
+  const brief: DailyBrief = {
+    day,
+    headline: parsed.headline,
+    bullets: parsed.bullets,
+    stocks: Array.from(new Set(parsed.stocks), (id) => {
+      const quote = moverById.get(id)!;
+      return {
+        stockId: id,
+        ticker: quote.ticker,
+        name: quote.name,
+        price: quote.price,
+        changePercent: quote.changePercent,
+      };
+    }),
+    sources: Array.from(new Set(parsed.citations), (n) => {
+      const story = stories[n - 1];
+      return { title: story.title, source: story.source, url: story.url };
+    }),
+    model: response.model,
+    generatedAt: now,
+  };
+  console.log(
+    `[DailyBrief] Brief for ${day}: ${response.model}, ${response.usage?.prompt_tokens ?? 0}+${response.usage?.completion_tokens ?? 0} tokens`
+  );
+  return { success: true, brief };
+}
+
+// ─── Storage ────────────────────────────────────────────────────────────────
+
+async function saveDailyBrief(brief: DailyBrief): Promise<void> {
+  cacheBrief(brief);
+  const db = await getDb();
+  if (!db) return;
+
+  await db
+    .insert(dailyBriefs)
+    .values(brief)
+    .onDuplicateKeyUpdate({
+      set: {
+        headline: sql`values(${dailyBriefs.headline})`,
+        bullets: sql`values(${dailyBriefs.bullets})`,
+        stocks: sql`values(${dailyBriefs.stocks})`,
+        sources: sql`values(${dailyBriefs.sources})`,
+        model: sql`values(${dailyBriefs.model})`,
+        generatedAt: sql`values(${dailyBriefs.generatedAt})`,
+      },
+    });
+}
+
+function toBrief(row: DailyBriefRow): DailyBrief {
+  const { id: _id, ...brief } = row;
+  return brief;
+}
+
+/**
+ * The brief for `day` ("YYYY-MM-DD"), or the latest one without a day.
+ * Null when there is none.
+ */
+export async function getDailyBrief(day?: string): Promise<DailyBrief | null> {
+  if (day && briefCache.has(day)) return briefCache.get(day)!;
+
+  const db = await getDb();
+  if (!db) {
+    if (day) return null;
+    const days = Array.from(briefCache.keys()).sort();
+    return days.length > 0 ? briefCache.get(days[days.length - 1])! : null;
+  }
+
+  const [row] = await db
+    .select()
+    .from(dailyBriefs)
+    .where(day ? eq(dailyBriefs.day, day) : undefined)
+    .orderBy(desc(dailyBriefs.day))
+    .limit(1);
+  return row ? toBrief(row) : null;
+}
+
+/** Forget briefs kept in memory (tests) */
+export function clearDailyBriefCache(): void {
+  briefCache.clear();
+}
+
+// ─── Job ────────────────────────────────────────────────────────────────────
+
+/**
+ * Write today's brief if the session is over and it hasn't been written.
+ * Returns the brief written, or null when there was nothing to do or it
+ * failed.
+ */
+export async function runDailyBriefJob(now: number = Date.now()): Promise<DailyBrief | null> {
+  const date = new Date(now);
+  const day = getAthensDate(date);
+  // The next close falls on a later day once today's session is over
+  if (!isTradingDay(date) || getAthensDate(getNextClose(date)) === day) return null;
+  if (!isLLMConfigured() || (await getDailyBrief(day))) return null;
+  if (!(await acquireJobLease(BRIEF_LEASE, Math.max(ENV.dailyBriefIntervalMs, 60_000) * 2, now))) return null;
+
+  const [quotes, articles] = await Promise.all([getMultipleQuotes(), getMarketNews()]);
+  const result = await composeDailyBrief(day, quotes, articles, now);
+  if (!result.success) {
+    console.warn(`[DailyBrief] No brief for ${day}: ${result.error}`);
+    return null;
+  }
+  await saveDailyBrief(result.brief);
+  return result.brief;
+}
+
+// ─── Service Lifecycle ──────────────────────────────────────────────────────
+
+/**
+ * Run the job every ENV.dailyBriefIntervalMs, starting shortly after
+ * startup. Does nothing when the interval is 0.
+ */
+export function startDailyBriefJob(): void {
+  if (briefInterval || ENV.dailyBriefIntervalMs <= 0) return;
+
+  console.log(`[DailyBrief] Starting daily brief job (interval: ${Math.round(ENV.dailyBriefIntervalMs / 60_000)}m)`);
+  const run = async () => {
+    if (briefRunning) return;
+    briefRunning = true;
+    try {
+      await runDailyBriefJob();
+    } catch (error) {
+      console.warn("[DailyBrief] Run failed:", error);
+    } finally {
+      briefRunning = false;
+    }
+  };
+
+  setTimeout(run, 60_000);
+  briefInterval = setInterval(run, ENV.dailyBriefIntervalMs);
+}
+
+export function stopDailyBriefJob(): void {
+  if (briefInterval) {
+    clearInterval(briefInterval);
+    briefInterval = null;
+  }
+}
@@ -0,0 +1,624 @@
+/**
+ * AGRX Database Alert Store
+ *
+ * AlertStore on the push_devices, notification_preferences,
+ * device_notification_preferences, price_alerts, alert_triggers,
+ * alert_evaluations, held_notifications, push_messages, notifications and
+ * last_known_prices tables. Every instance reads the same rows, and
+ * claimAlert() is a single conditional UPDATE, so the database decides
+ * which instance sends a given alert.
+ */
+import { and, asc, count, countDistinct, desc, eq, gte, inArray, isNotNull, isNull, lt, lte, or, sql } from "drizzle-orm";
+import {
+  alertEvaluations,
+  alertTriggers,
+  devicePreferences,
+  heldNotifications,
+  lastKnownPrices,
+  newsPushes,
+  notificationPreferences,
+  notifications,
+  priceAlerts,
+  pushDevices,
+  pushMessages,
+  type AlertTriggerRow,
+  type HeldNotificationRow,
+  type NotificationPreferencesRow,
+  type NotificationRow,
+  type PriceAlertRow,
+  type PushDeviceRow,
+  type PushMessageRow,
+} from "../drizzle/schema";
+import {
+  DEFAULT_PREFERENCES,
+  type ActiveAlert,
+  type AlertStore,
+  type AlertTrigger,
+  type HeldNotification,
+  type InboxNotification,
+  type NewsSubscriber,
+  type PushMessage,
+  type StockAlertVolume,
+} from "./alertStore";
+import type { Db } from "./portfolioService";
+import type { DeviceRegistration, NotificationPreferences, PriceAlert } from "./priceAlertService";
+
+// ─── Row Mapping ────────────────────────────────────────────────────────────
+
+function toAlert(row: PriceAlertRow): PriceAlert {
+  return {
+    id: row.id,
+    scope: row.scope,
+    stockId: row.stockId,
+    stockName: row.stockName,
+    type: row.type,
+    threshold: row.threshold,
+    rule: row.rule ?? null,
+    enabled: row.enabled,
+    createdAt: row.createdAt.getTime(),
+    lastTriggered: row.lastTriggered,
+  };
+}
+
+function toPreferences(row: NotificationPreferencesRow | null | undefined): NotificationPreferences {
+  if (!row) return { ...DEFAULT_PREFERENCES };
+  return {
+    priceAlerts: row.priceAlerts,
+    dailyChallenge: row.dailyChallenge,
+    socialActivity: row.socialActivity,
+    marketNews: row.marketNews,
+    percentThreshold: row.percentThreshold,
+    quietHoursStart: row.quietHoursStart,
+    quietHoursEnd: row.quietHoursEnd,
+    timezone: row.timezone,
+    schedules: row.schedules ?? {},
+    heldDelivery: row.heldDelivery,
+    digestHour: row.digestHour,
+  };
+}
+
+function toHeld(row: HeldNotificationRow): HeldNotification {
+  return {
+    id: row.id,
+    notificationId: row.notificationId,
+    userId: row.userId,
+    deviceId: row.deviceId,
+    category: row.category,
+    title: row.title,
+    body: row.body,
+    data: row.data,
+    deliverAt: row.deliverAt,
+    createdAt: row.createdAt.getTime(),
+  };
+}
+
+function toTrigger(row: AlertTriggerRow): AlertTrigger {
+  return {
+    alertId: row.alertId,
+    userId: row.userId,
+    deviceId: row.deviceId,
+    stockId: row.stockId,
+    price: row.price,
+    previousPrice: row.previousPrice,
+    title: row.title,
+    body: row.body,
+    status: row.status,
+    notificationId: row.notificationId,
+    triggeredAt: row.triggeredAt.getTime(),
+  };
+}
+
+function toInbox(row: NotificationRow): InboxNotification {
+  return {
+    id: row.id,
+    userId: row.userId,
+    notificationId: row.notificationId,
+    category: row.category,
+    title: row.title,
+    body: row.body,
+    data: row.data,
+    read: row.read,
+    createdAt: row.createdAt.getTime(),
+  };
+}
+
+function toPushMessage(row: PushMessageRow): PushMessage {
+  return {
+    id: row.id,
+    notificationId: row.notificationId,
+    pushToken: row.pushToken,
+    title: row.title,
+    body: row.body,
+    data: row.data,
+    status: row.status,
+    attempts: row.attempts,
+    nextAttemptAt: row.nextAttemptAt,
+    ticketId: row.ticketId,
+    error: row.error,
+    createdAt: row.createdAt.getTime(),
+  };
+}
+
+function toDevice(row: PushDeviceRow): DeviceRegistration {
+  return {
+    deviceId: row.deviceId,
+    userId: row.userId,
+    pushToken: row.pushToken,
+    platform: row.platform,
+    lastSeen: row.lastSeen.getTime(),
+  };
+}
+
+// ─── Store ──────────────────────────────────────────────────────────────────
+
+export function createDatabaseAlertStore(db: Db): AlertStore {
+  async function getDevice(deviceId: string): Promise<DeviceRegistration | null> {
+    const [row] = await db.select().from(pushDevices).where(eq(pushDevices.deviceId, deviceId)).limit(1);
+    return row ? toDevice(row) : null;
+  }
+
+  async function getPreferences(userId: number): Promise<NotificationPreferences> {
+    const [row] = await db
+      .select()
+      .from(notificationPreferences)
+      .where(eq(notificationPreferences.userId, userId))
+      .limit(1);
+    return toPreferences(row);
+  }
+
+  async function deleteDevice(deviceId: string): Promise<boolean> {
+    return db.transaction(async (tx) => {
+      await tx.delete(priceAlerts).where(and(isNull(priceAlerts.userId), eq(priceAlerts.deviceId, deviceId)));
+      await tx.delete(devicePreferences).where(eq(devicePreferences.deviceId, deviceId));
+      const [result] = await tx.delete(pushDevices).where(eq(pushDevices.deviceId, deviceId));
+      return result.affectedRows > 0;
+    });
+  }
+
+  return {
+    name: "database",
+
+    async upsertDevice(deviceId, pushToken, platform) {
+      await db
+        .insert(pushDevices)
+        .values({ deviceId, pushToken, platform })
+        .onDuplicateKeyUpdate({ set: { pushToken, platform, lastSeen: new Date() } });
+      const device = await getDevice(deviceId);
+      if (!device) throw new Error(`Device ${deviceId} missing after upsert`);
+      return device;
+    },
+
+    async claimDevice(deviceId, userId, previousUserId = null) {
+      return db.transaction(async (tx) => {
+        const [result] = await tx
+          .update(pushDevices)
+          .set({ userId })
+          .where(
+            and(
+              eq(pushDevices.deviceId, deviceId),
+              previousUserId === null ? isNull(pushDevices.userId) : eq(pushDevices.userId, previousUserId)
+            )
+          );
+        if (result.affectedRows === 0) return false;
+        await tx
+          .update(priceAlerts)
+          .set({ userId, deviceId: null })
+          .where(and(isNull(priceAlerts.userId), eq(priceAlerts.deviceId, deviceId)));
+
+        const [legacy] = await tx
+          .select()
+          .from(devicePreferences)
+          .where(eq(devicePreferences.deviceId, deviceId))
+          .limit(1);
+        if (legacy) {
+          // The account's own preferences, if any, win
+          await tx.insert(notificationPreferences).ignore().values({
+            userId,
+            priceAlerts: legacy.priceAlerts,
+            dailyChallenge: legacy.dailyChallenge,
+            socialActivity: legacy.socialActivity,
+            marketNews: legacy.marketNews,
+            percentThreshold: legacy.percentThreshold,
+            quietHoursStart: legacy.quietHoursStart,
+            quietHoursEnd: legacy.quietHoursEnd,
+          });
+          await tx.delete(devicePreferences).where(eq(devicePreferences.deviceId, deviceId));
+        }
+        return true;
+      });
+    },
+
+    deleteDevice,
+
+    getDevice,
+
+    async listDevices(userId) {
+      const rows = await db
+        .select()
+        .from(pushDevices)
+        .where(eq(pushDevices.userId, userId))
+        .orderBy(desc(pushDevices.lastSeen));
+      return rows.map(toDevice);
+    },
+
+    async listAlerts(userId) {
+      const rows = await db
+        .select()
+        .from(priceAlerts)
+        .where(eq(priceAlerts.userId, userId))
+        .orderBy(priceAlerts.createdAt);
+      return rows.map(toAlert);
+    },
+
+    async insertAlert(userId, alert) {
+      await db.insert(priceAlerts).values({
+        id: alert.id,
+        userId,
+        scope: alert.scope,
+        stockId: alert.stockId,
+        stockName: alert.stockName,
+        type: alert.type,
+        threshold: alert.threshold,
+        rule: alert.rule,
+        enabled: alert.enabled,
+        lastTriggered: alert.lastTriggered,
+        createdAt: new Date(alert.createdAt),
+      });
+    },
+
+    async deleteAlert(userId, alertId) {
+      const [result] = await db
+        .delete(priceAlerts)
+        .where(and(eq(priceAlerts.id, alertId), eq(priceAlerts.userId, userId)));
+      return result.affectedRows > 0;
+    },
+
+    async toggleAlert(userId, alertId) {
+      const [result] = await db
+        .update(priceAlerts)
+        .set({ enabled: sql`not ${priceAlerts.enabled}` })
+        .where(and(eq(priceAlerts.id, alertId), eq(priceAlerts.userId, userId)));
+      return result.affectedRows > 0;
+    },
+
+    getPreferences,
+
+    async updatePreferences(userId, prefs) {
+      await db
+        .insert(notificationPreferences)
+        .values({ userId, ...prefs })
+        .onDuplicateKeyUpdate({ set: { ...prefs, userId } });
+      return getPreferences(userId);
+    },
+
+    async listActiveAlerts() {
+      const [userAlerts, deviceAlerts] = await Promise.all([
+        db
+          .select({ alert: priceAlerts, prefs: notificationPreferences })
+          .from(priceAlerts)
+          .leftJoin(notificationPreferences, eq(notificationPreferences.userId, priceAlerts.userId))
+          .where(and(eq(priceAlerts.enabled, true), isNotNull(priceAlerts.userId))),
+        // Anonymous devices have no stored preferences; they get the defaults
+        db
+          .select({ alert: priceAlerts, pushToken: pushDevices.pushToken })
+          .from(priceAlerts)
+          .innerJoin(pushDevices, eq(pushDevices.deviceId, priceAlerts.deviceId))
+          .where(and(eq(priceAlerts.enabled, true), isNull(priceAlerts.userId))),
+      ]);
+
+      const userIds = Array.from(new Set(userAlerts.map((r) => r.alert.userId!)));
+      const tokensByUser = new Map<number, string[]>();
+      if (userIds.length > 0) {
+        const devices = await db
+          .select({ userId: pushDevices.userId, pushToken: pushDevices.pushToken })
+          .from(pushDevices)
+          .where(inArray(pushDevices.userId, userIds));
+        for (const d of devices) {
+          tokensByUser.set(d.userId!, [...(tokensByUser.get(d.userId!) ?? []), d.pushToken]);
+        }
+      }
+
+      const active: ActiveAlert[] = [];
+      for (const row of userAlerts) {
+        const userId = row.alert.userId!;
+        const pushTokens = tokensByUser.get(userId) ?? [];
+        const preferences = toPreferences(row.prefs);
+        if (pushTokens.length === 0 || !preferences.priceAlerts) continue;
+        active.push({ alert: toAlert(row.alert), owner: { userId }, pushTokens, preferences });
+      }
+      for (const row of deviceAlerts) {
+        active.push({
+          alert: toAlert(row.alert),
+          owner: { deviceId: row.alert.deviceId! },
+          pushTokens: [row.pushToken],
+          preferences: { ...DEFAULT_PREFERENCES },
+        });
+      }
+      return active;
+    },
+
+    async getLastPrices() {
+      const rows = await db.select().from(lastKnownPrices);
+      return new Map(rows.map((r) => [r.stockId, r.price]));
+    },
+
+    async setLastPrices(prices) {
+      if (prices.size === 0) return;
+      await db
+        .insert(lastKnownPrices)
+        .values(Array.from(prices, ([stockId, price]) => ({ stockId, price })))
+        .onDuplicateKeyUpdate({ set: { price: sql`values(${lastKnownPrices.price})` } });
+    },
+
+    async claimAlert(alertId, now, cooldownMs) {
+      const [result] = await db
+        .update(priceAlerts)
+        .set({ lastTriggered: now })
+        .where(
+          and(
+            eq(priceAlerts.id, alertId),
+            eq(priceAlerts.enabled, true),
+            or(isNull(priceAlerts.lastTriggered), lt(priceAlerts.lastTriggered, now - cooldownMs))
+          )
+        );
+      return result.affectedRows > 0;
+    },
+
+    async releaseAlert(alertId, claimedAt, previous) {
+      await db
+        .update(priceAlerts)
+        .set({ lastTriggered: previous })
+        .where(and(eq(priceAlerts.id, alertId), eq(priceAlerts.lastTriggered, claimedAt)));
+    },
+
+    async recordTrigger(trigger) {
+      await db.insert(alertTriggers).values({ ...trigger, triggeredAt: new Date(trigger.triggeredAt) });
+    },
+
+    async listTriggers(userId, limit) {
+      const rows = await db
+        .select()
+        .from(alertTriggers)
+        .where(eq(alertTriggers.userId, userId))
+        .orderBy(desc(alertTriggers.triggeredAt), desc(alertTriggers.id))
+        .limit(limit);
+      return rows.map(toTrigger);
+    },
+
+    async listAlertTriggers(alertId, since) {
+      const rows = await db
+        .select()
+        .from(alertTriggers)
+        .where(and(eq(alertTriggers.alertId, alertId), gte(alertTriggers.triggeredAt, new Date(since))))
+        .orderBy(alertTriggers.triggeredAt, alertTriggers.id);
+      return rows.map(toTrigger);
+    },
+
+    async recordEvaluation(evaluation, now) {
+      const [latest] = await db
+        .select()
+        .from(alertEvaluations)
+        .where(eq(alertEvaluations.alertId, evaluation.alertId))
+        .orderBy(desc(alertEvaluations.id))
+        .limit(1);
+      if (latest && latest.outcome === evaluation.outcome && evaluation.outcome !== "fired") {
+        await db
+          .update(alertEvaluations)
+          .set({ count: sql`${alertEvaluations.count} + 1`, price: evaluation.price, lastEvaluatedAt: now })
+          .where(eq(alertEvaluations.id, latest.id));
+        return;
+      }
+      await db.insert(alertEvaluations).values({ ...evaluation, firstEvaluatedAt: now, lastEvaluatedAt: now });
+    },
+
+    async listEvaluations(alertId, limit) {
+      return db
+        .select()
+        .from(alertEvaluations)
+        .where(eq(alertEvaluations.alertId, alertId))
+        .orderBy(desc(alertEvaluations.id))
+        .limit(limit);
+    },
+
+    async holdNotification({ createdAt, ...notification }) {
+      await db.insert(heldNotifications).values({ ...notification, createdAt: new Date(createdAt) });
+    },
+
+    async takeDueNotifications(now) {
+      const rows = await db
+        .select()
+        .from(heldNotifications)
+        .where(lte(heldNotifications.deliverAt, now))
+        .orderBy(asc(heldNotifications.createdAt), asc(heldNotifications.id));
+      const taken: HeldNotification[] = [];
+      // Deleting one row at a time means another instance can't send it too
+      for (const row of rows) {
+        const [result] = await db.delete(heldNotifications).where(eq(heldNotifications.id, row.id));
+        if (result.affectedRows > 0) taken.push(toHeld(row));
+      }
+      return taken;
+    },
+
+    async enqueuePushMessages(messages) {
+      if (messages.length === 0) return;
+      await db
+        .insert(pushMessages)
+        .values(messages.map(({ createdAt, ...message }) => ({ ...message, createdAt: new Date(createdAt) })));
+    },
+
+    async claimPushMessages(status, now, limit, leaseUntil) {
+      const rows = await db
+        .select()
+        .from(pushMessages)
+        .where(and(eq(pushMessages.status, status), lte(pushMessages.nextAttemptAt, now)))
+        .orderBy(asc(pushMessages.nextAttemptAt), asc(pushMessages.id))
+        .limit(limit);
+      const claimed: PushMessage[] = [];
+      // Same conditional update as claimAlert: only one instance moves each row
+      for (const row of rows) {
+        const [result] = await db
+          .update(pushMessages)
+          .set({ nextAttemptAt: leaseUntil })
+          .where(
+            and(
+              eq(pushMessages.id, row.id),
+              eq(pushMessages.status, status),
+              eq(pushMessages.nextAttemptAt, row.nextAttemptAt)
+            )
+          );
+        if (result.affectedRows > 0) claimed.push({ ...toPushMessage(row), nextAttemptAt: leaseUntil });
+      }
+      return claimed;
+    },
+
+    async updatePushMessage(id, update) {
+      await db.update(pushMessages).set(update).where(eq(pushMessages.id, id));
+    },
+
+    async listPushMessages(notificationId) {
+      const rows = await db
+        .select()
+        .from(pushMessages)
+        .where(eq(pushMessages.notificationId, notificationId))
+        .orderBy(asc(pushMessages.id));
+      return rows.map(toPushMessage);
+    },
+
+    async deleteDevicesByToken(pushToken) {
+      const rows = await db
+        .select({ deviceId: pushDevices.deviceId })
+        .from(pushDevices)
+        .where(eq(pushDevices.pushToken, pushToken));
+      let deleted = 0;
+      for (const row of rows) {
+        if (await deleteDevice(row.deviceId)) deleted++;
+      }
+      return deleted;
+    },
+
+    async addInboxNotification({ createdAt, ...notification }) {
+      const [{ id }] = await db
+        .insert(notifications)
+        .values({ ...notification, createdAt: new Date(createdAt) })
+        .$returningId();
+      return id;
+    },
+
+    async listInbox(userId, before, limit) {
+      const rows = await db
+        .select()
+        .from(notifications)
+        .where(and(eq(notifications.userId, userId), before !== null ? lt(notifications.id, before) : undefined))
+        .orderBy(desc(notifications.id))
+        .limit(limit);
+      return rows.map(toInbox);
+    },
+
+    async countUnreadInbox(userId) {
+      const [row] = await db
+        .select({ n: count() })
+        .from(notifications)
+        .where(and(eq(notifications.userId, userId), eq(notifications.read, false)));
+      return row?.n ?? 0;
+    },
+
+    async setInboxRead(userId, ids, read) {
+      if (ids?.length === 0) return;
+      await db
+        .update(notifications)
+        .set({ read })
+        .where(and(eq(notifications.userId, userId), ids ? inArray(notifications.id, ids) : undefined));
+    },
+
+    async deleteInboxNotifications(userId, ids) {
+      if (ids?.length === 0) return;
+      await db
+        .delete(notifications)
+        .where(and(eq(notifications.userId, userId), ids ? inArray(notifications.id, ids) : undefined));
+    },
+
+    async getStats() {
+      const [[devices], [alerts], [active]] = await Promise.all([
+        db.select({ n: count(), linked: count(pushDevices.userId) }).from(pushDevices),
+        db.select({ n: count() }).from(priceAlerts),
+        db
+          .select({ n: count(), stocks: countDistinct(priceAlerts.stockId) })
+          .from(priceAlerts)
+          .where(eq(priceAlerts.enabled, true)),
+      ]);
+      return {
+        registeredDevices: devices?.n ?? 0,
+        linkedDevices: devices?.linked ?? 0,
+        totalAlerts: alerts?.n ?? 0,
+        activeAlerts: active?.n ?? 0,
+        stocksMonitored: active?.stocks ?? 0,
+      };
+    },
+
+    async listNewsSubscribers() {
+      const rows = await db
+        .select({ userId: pushDevices.userId, pushToken: pushDevices.pushToken, prefs: notificationPreferences })
+        .from(pushDevices)
+        .leftJoin(notificationPreferences, eq(notificationPreferences.userId, pushDevices.userId))
+        .where(isNotNull(pushDevices.userId));
+
+      const subscribers = new Map<number, NewsSubscriber>();
+      for (const row of rows) {
+        const userId = row.userId!;
+        const subscriber = subscribers.get(userId) ?? { userId, pushTokens: [], preferences: toPreferences(row.prefs) };
+        subscriber.pushTokens.push(row.pushToken);
+        subscribers.set(userId, subscriber);
+      }
+      return Array.from(subscribers.values()).filter((s) => s.preferences.marketNews);
+    },
+
+    async claimNewsPush(push) {
+      const [result] = await db.insert(newsPushes).ignore().values(push);
+      return result.affectedRows > 0;
+    },
+
+    async countNewsPushes(userId, since) {
+      const [row] = await db
+        .select({ pushes: count() })
+        .from(newsPushes)
+        .where(and(eq(newsPushes.userId, userId), gte(newsPushes.pushedAt, since)));
+      return row?.pushes ?? 0;
+    },
+
+    async listRecentDevices(limit) {
+      const rows = await db.select().from(pushDevices).orderBy(desc(pushDevices.lastSeen)).limit(limit);
+      return rows.map(toDevice);
+    },
+
+    async getAlertVolume(since) {
+      const [alertCounts, triggerCounts] = await Promise.all([
+        db
+          .select({
+            stockId: priceAlerts.stockId,
+            alerts: count(),
+            enabled: sql<number>`sum(case when ${priceAlerts.enabled} then 1 else 0 end)`,
+          })
+          .from(priceAlerts)
+          .where(isNotNull(priceAlerts.stockId))
+          .groupBy(priceAlerts.stockId),
+        db
+          .select({ stockId: alertTriggers.stockId, triggers: count() })
+          .from(alertTriggers)
+          .where(and(isNotNull(alertTriggers.stockId), gte(alertTriggers.triggeredAt, new Date(since))))
+          .groupBy(alertTriggers.stockId),
+      ]);
+
+      const volume = new Map<string, StockAlertVolume>();
+      for (const row of alertCounts) {
+        if (!row.stockId) continue;
+        volume.set(row.stockId, { stockId: row.stockId, alerts: row.alerts, enabled: Number(row.enabled), triggers: 0 });
+      }
+      for (const row of triggerCounts) {
+        if (!row.stockId) continue;
+        const entry = volume.get(row.stockId) ?? { stockId: row.stockId, alerts: 0, enabled: 0, triggers: 0 };
+        volume.set(row.stockId, { ...entry, triggers: row.triggers });
+      }
+      return Array.from(volume.values());
+    },
+  };
+}
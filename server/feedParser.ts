@@ -0,0 +1,294 @@
+/**
+ * AGRX Feed Parser
+ *
+ * Parses RSS 2.0, RSS 1.0 (RDF) and Atom feeds into plain entries, without
+ * external dependencies. A small XML parser underneath handles CDATA,
+ * comments, processing instructions, DOCTYPEs, namespaced tags, quoted
+ * attributes and character references. It is lenient the way feed readers
+ * have to be: unclosed tags are closed at the end of the document and a
+ * stray closing tag is ignored, so a slightly broken feed still yields its
+ * entries. HTML in descriptions and in Atom html/xhtml text is reduced to
+ * text.
+ */
+
+// ─── Types ──────────────────────────────────────────────────────────────────
+
+export interface XmlElement {
+  /** Qualified name as written, e.g. "item" or "dc:date" */
+  name: string;
+  attributes: Record<string, string>;
+  children: (XmlElement | string)[];
+}
+
+export interface FeedEntry {
+  title: string;
+  url: string;
+  /** ISO date; null when the entry has none or it doesn't parse */
+  publishedAt: string | null;
+  /** Publisher named by the entry: RSS <source>, Atom <source><title> */
+  source: string | null;
+  /** Plain-text description or summary */
+  summary: string;
+  /** guid or Atom id */
+  id: string | null;
+}
+
+export interface ParsedFeed {
+  format: "rss" | "rdf" | "atom";
+  /** Channel or feed title */
+  title: string;
+  entries: FeedEntry[];
+}
+
+// ─── XML ────────────────────────────────────────────────────────────────────
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  // HTML entities that turn up in feeds regardless
+  nbsp: " ",
+  ndash: "–",
+  mdash: "—",
+  lsquo: "‘",
+  rsquo: "’",
+  ldquo: "“",
+  rdquo: "”",
+  laquo: "«",
+  raquo: "»",
+  hellip: "…",
+  euro: "€",
+};
+
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, ref: string) => {
+    if (ref[0] === "#") {
+      const code = ref[1] === "x" || ref[1] === "X" ? parseInt(ref.slice(2), 16) : parseInt(ref.slice(1), 10);
+      return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+    }
+    return NAMED_ENTITIES[ref.toLowerCase()] ?? entity;
+  });
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const attrRegex = /([^\s=/]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+  let match;
+  while ((match = attrRegex.exec(source)) !== null) {
+    attributes[match[1]] = decodeEntities(match[2] ?? match[3] ?? "");
+  }
+  return attributes;
+}
+
+/**
+ * Parse a document into a tree under a synthetic "#document" element.
+ * Never throws; malformed markup is kept as far as it can be read.
+ */
+export function parseXml(xml: string): XmlElement {
+  const document: XmlElement = { name: "#document", attributes: {}, children: [] };
+  const stack: XmlElement[] = [document];
+  const top = () => stack[stack.length - 1];
+  let pos = 0;
+
+  const pushText = (text: string) => {
+    if (text) top().children.push(text);
+  };
+
+  while (pos < xml.length) {
+    const lt = xml.indexOf("<", pos);
+    if (lt < 0) {
+      pushText(decodeEntities(xml.slice(pos)));
+      break;
+    }
+    pushText(decodeEntities(xml.slice(pos, lt)));
+
+    if (xml.startsWith("<![CDATA[", lt)) {
+      const end = xml.indexOf("]]>", lt + 9);
+      pushText(xml.slice(lt + 9, end < 0 ? xml.length : end));
+      pos = end < 0 ? xml.length : end + 3;
+    } else if (xml.startsWith("<!--", lt)) {
+      const end = xml.indexOf("-->", lt + 4);
+      pos = end < 0 ? xml.length : end + 3;
+    } else if (xml.startsWith("<?", lt)) {
+      const end = xml.indexOf("?>", lt + 2);
+      pos = end < 0 ? xml.length : end + 2;
+    } else if (xml.startsWith("<!", lt)) {
+      // DOCTYPE, possibly with an internal subset in brackets
+      let depth = 0;
+      let end = lt + 2;
+      for (; end < xml.length; end++) {
+        if (xml[end] === "[") depth++;
+        else if (xml[end] === "]") depth--;
+        else if (xml[end] === ">" && depth <= 0) break;
+      }
+      pos = end + 1;
+    } else if (xml[lt + 1] === "/") {
+      const end = xml.indexOf(">", lt);
+      const name = xml.slice(lt + 2, end < 0 ? xml.length : end).trim();
+      // Close up to the matching open tag; ignore a close with no open tag
+      const openAt = stack.map((el) => el.name).lastIndexOf(name);
+      if (openAt > 0) stack.length = openAt;
+      pos = end < 0 ? xml.length : end + 1;
+    } else {
+      // Find the end of the tag, skipping ">" inside quoted attribute values
+      let end = lt + 1;
+      let quote: string | null = null;
+      for (; end < xml.length; end++) {
+        const ch = xml[end];
+        if (quote) {
+          if (ch === quote) quote = null;
+        } else if (ch === '"' || ch === "'") {
+          quote = ch;
+        } else if (ch === ">") {
+          break;
+        }
+      }
+      const body = xml.slice(lt + 1, end);
+      const nameMatch = body.match(/^[^\s/>]+/);
+      if (!nameMatch) {
+        // A bare "<" in text
+        pushText("<");
+        pos = lt + 1;
+        continue;
+      }
+      const selfClosing = body.endsWith("/");
+      const element: XmlElement = {
+        name: nameMatch[0],
+        attributes: parseAttributes(body.slice(nameMatch[0].length, selfClosing ? -1 : undefined)),
+        children: [],
+      };
+      top().children.push(element);
+      if (!selfClosing) stack.push(element);
+      pos = end + 1;
+    }
+  }
+
+  return document;
+}
+
+/** Child elements with one of `names` */
+export function childElements(element: XmlElement, ...names: string[]): XmlElement[] {
+  return element.children.filter((c): c is XmlElement => typeof c !== "string" && names.includes(c.name));
+}
+
+/** First child element with one of `names`, in the order of `names` */
+export function childElement(element: XmlElement, ...names: string[]): XmlElement | null {
+  for (const name of names) {
+    const found = childElements(element, name)[0];
+    if (found) return found;
+  }
+  return null;
+}
+
+/** All text inside an element, nested elements included */
+export function textContent(element: XmlElement | null): string {
+  if (!element) return "";
+  return element.children.map((c) => (typeof c === "string" ? c : textContent(c))).join("");
+}
+
+// ─── Feeds ──────────────────────────────────────────────────────────────────
+
+/** Text of HTML markup: tags removed, entities decoded, whitespace collapsed */
+export function htmlToText(html: string): string {
+  return plainText(decodeEntities(html.replace(/<[^>]*>/g, " ")));
+}
+
+function plainText(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+function toIsoDate(value: string): string | null {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+  const time = new Date(trimmed).getTime();
+  return Number.isNaN(time) ? null : new Date(time).toISOString();
+}
+
+function findElement(element: XmlElement, names: string[]): XmlElement | null {
+  for (const child of element.children) {
+    if (typeof child === "string") continue;
+    if (names.includes(child.name)) return child;
+    const nested = findElement(child, names);
+    if (nested) return nested;
+  }
+  return null;
+}
+
+function rssEntry(item: XmlElement): FeedEntry {
+  const guid = childElement(item, "guid");
+  const guidText = textContent(guid).trim();
+  const link =
+    textContent(childElement(item, "link")).trim() ||
+    childElement(item, "atom:link")?.attributes.href ||
+    (guid?.attributes.isPermaLink !== "false" && /^https?:\/\//.test(guidText) ? guidText : "");
+  return {
+    // RSS titles are plain text; "<" in a CDATA title is a character, not a tag
+    title: plainText(textContent(childElement(item, "title"))),
+    url: link.trim(),
+    publishedAt: toIsoDate(textContent(childElement(item, "pubDate", "dc:date", "published", "updated"))),
+    source: plainText(textContent(childElement(item, "source", "dc:publisher"))) || null,
+    summary: htmlToText(textContent(childElement(item, "description", "content:encoded"))),
+    id: guidText || null,
+  };
+}
+
+function atomText(element: XmlElement | null): string {
+  if (!element) return "";
+  // type="text" is plain; html is escaped markup and xhtml nested markup, both read as text
+  return element.attributes.type === "text" || !element.attributes.type
+    ? plainText(textContent(element))
+    : htmlToText(textContent(element));
+}
+
+function atomEntry(entry: XmlElement): FeedEntry {
+  const links = childElements(entry, "link");
+  const source = childElement(entry, "source");
+  const link = links.find((l) => !l.attributes.rel || l.attributes.rel === "alternate") ?? links[0];
+  return {
+    title: atomText(childElement(entry, "title")),
+    url: (link?.attributes.href ?? "").trim(),
+    publishedAt: toIsoDate(textContent(childElement(entry, "published", "updated"))),
+    source: (source && atomText(childElement(source, "title"))) || null,
+    summary: atomText(childElement(entry, "summary", "content")),
+    id: textContent(childElement(entry, "id")).trim() || null,
+  };
+}
+
+/**
+ * Parse an RSS or Atom document. Returns null when it isn't a feed; entries
+ * without a title or link are dropped.
+ */
+export function parseFeed(xml: string): ParsedFeed | null {
+  const root = parseXml(xml).children.find((c): c is XmlElement => typeof c !== "string");
+  if (!root) return null;
+
+  let feed: ParsedFeed;
+  if (root.name === "feed") {
+    feed = {
+      format: "atom",
+      title: atomText(childElement(root, "title")),
+      entries: childElements(root, "entry").map(atomEntry),
+    };
+  } else if (root.name === "rss") {
+    const channel = childElement(root, "channel") ?? root;
+    feed = {
+      format: "rss",
+      title: plainText(textContent(childElement(channel, "title"))),
+      entries: childElements(channel, "item").map(rssEntry),
+    };
+  } else if (root.name === "rdf:RDF") {
+    // RSS 1.0 items are siblings of the channel
+    feed = {
+      format: "rdf",
+      title: plainText(textContent(findElement(root, ["title"]))),
+      entries: childElements(root, "item").map(rssEntry),
+    };
+  } else {
+    return null;
+  }
+
+  feed.entries = feed.entries.filter((e) => e.title && e.url);
+  return feed;
+}
@@ -0,0 +1,51 @@
+/**
+ * AGRX Fixture Market Data Provider
+ *
+ * Replays recorded Yahoo chart responses from a directory, so tests and
+ * offline dev boxes get realistic data without reaching Yahoo. Files are
+ * named by fixtureFileName() (e.g. "OPAP.AT_1d_5m.json"); record new ones
+ * by running the Yahoo provider with MARKET_DATA_RECORD_DIR set.
+ *
+ * Symbols or ranges without a fixture return null, like an unknown symbol.
+ */
+import { readFile } from "fs/promises";
+import path from "path";
+import { QUOTE_SPEC, type MarketDataProvider } from "./marketDataProvider";
+import { fixtureFileName, parseYahooChart, parseYahooQuote } from "./yahooMarketDataProvider";
+
+/** Used when MARKET_DATA_FIXTURE_DIR is not set */
+export const DEFAULT_FIXTURE_DIR = "server/fixtures/market-data";
+
+export function createFixtureProvider(dir: string = ""): MarketDataProvider {
+  const root = path.resolve(dir || DEFAULT_FIXTURE_DIR);
+  // Parsed files (or null for missing ones), loaded once per process
+  const cache = new Map<string, Promise<unknown>>();
+
+  function load(fileName: string): Promise<unknown> {
+    let entry = cache.get(fileName);
+    if (!entry) {
+      entry = readFile(path.join(root, fileName), "utf8")
+        .then((text) => JSON.parse(text) as unknown)
+        .catch((error: NodeJS.ErrnoException) => {
+          if (error.code !== "ENOENT") {
+            console.warn(`[MarketData] Unreadable fixture ${fileName}:`, error);
+          }
+          return null;
+        });
+      cache.set(fileName, entry);
+    }
+    return entry;
+  }
+
+  return {
+    name: "fixture",
+
+    async getQuote(symbol) {
+      return parseYahooQuote(await load(fixtureFileName(symbol.yahoo, QUOTE_SPEC)));
+    },
+
+    async getChart(symbol, spec) {
+      return parseYahooChart(await load(fixtureFileName(symbol.yahoo, spec)), symbol.yahoo, spec);
+    },
+  };
+}
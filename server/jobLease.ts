@@ -0,0 +1,37 @@
+/**
+ * AGRX Job Leases
+ *
+ * Lets several server instances share a periodic background job: before
+ * each run an instance tries to take (or renew) a named lease in the
+ * `job_leases` table, and only the holder runs the job. A holder that dies
+ * loses the lease once `expiresAt` passes. Without a database there is only
+ * one instance, so the lease is always granted.
+ */
+import { hostname } from "os";
+import { and, eq, lt, or } from "drizzle-orm";
+import { getDb } from "./db";
+import { jobLeases } from "../drizzle/schema";
+
+/** Identifies this process as a lease holder */
+export const INSTANCE_ID = `${hostname()}-${process.pid}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Take or renew the lease `name` for `ttlMs`. Returns true if this instance
+ * holds it afterwards. Use a TTL longer than the job interval so the holder
+ * renews before anyone else can take over.
+ */
+export async function acquireJobLease(name: string, ttlMs: number, now: number = Date.now()): Promise<boolean> {
+  const db = await getDb();
+  if (!db) return true;
+
+  const expiresAt = now + ttlMs;
+  const [renewed] = await db
+    .update(jobLeases)
+    .set({ holder: INSTANCE_ID, expiresAt })
+    .where(and(eq(jobLeases.name, name), or(eq(jobLeases.holder, INSTANCE_ID), lt(jobLeases.expiresAt, now))));
+  if (renewed.affectedRows > 0) return true;
+
+  // No row yet, or someone else holds it; the insert only wins in the first case
+  const [inserted] = await db.insert(jobLeases).ignore().values({ name, holder: INSTANCE_ID, expiresAt });
+  return inserted.affectedRows > 0;
+}
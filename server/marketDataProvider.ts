@@ -0,0 +1,157 @@
+/**
+ * AGRX Market Data Provider
+ *
+ * The source behind stockService's quotes and charts. stockService owns
+ * caching, the symbol list and the StockQuote shape; a provider only fetches
+ * raw price data for one symbol at a time.
+ *
+ * Implementations (selected by MARKET_DATA_PROVIDER, see server/_core/env.ts):
+ * - "yahoo"     — Yahoo Finance via the built-in data API (default)
+ * - "fixture"   — replays recorded Yahoo chart responses from disk
+ * - "simulator" — deterministic random walk on the ATHEX calendar
+ */
+import { ENV } from "./_core/env";
+import type { ChartDataPoint, ChartResponse } from "./stockService";
+import { createYahooProvider } from "./yahooMarketDataProvider";
+import { createFixtureProvider } from "./fixtureMarketDataProvider";
+import { createSimulatedProvider } from "./simulatedMarketDataProvider";
+
+// ─── Types ──────────────────────────────────────────────────────────────────
+
+export type MarketDataProviderName = "yahoo" | "fixture" | "simulator";
+
+export type ChartRange = "1D" | "1W" | "1M" | "3M" | "1Y" | "ALL";
+
+/** A listed symbol as the provider sees it */
+export interface MarketSymbol {
+  id: string;
+  /** Yahoo Finance symbol, e.g. "OPAP.AT" */
+  yahoo: string;
+  name: string;
+}
+
+/** Raw quote fields; stockService derives change, sparkline and formatting */
+export interface ProviderQuote {
+  name?: string;
+  price: number;
+  previousClose: number;
+  dayHigh: number;
+  dayLow: number;
+  volume: number;
+  fiftyTwoWeekHigh: number;
+  fiftyTwoWeekLow: number;
+  /** Market capitalisation in the quote currency, if known */
+  marketCap?: number;
+  currency: string;
+  exchange: string;
+  /** Today's intraday closes, oldest first */
+  intradayCloses: number[];
+  /** Unix ms of the last trade the price comes from, if the provider reports it */
+  marketTime?: number;
+}
+
+/** A bar interval and lookback, in Yahoo's vocabulary (e.g. "5m" over "1d") */
+export interface ChartSpec {
+  /** "5m" | "15m" | "1d" | "1wk" | "1mo" */
+  interval: string;
+  /** "1d" | "5d" | "1mo" | "3mo" | "1y" | "5y" | "max" */
+  range: string;
+}
+
+export interface MarketDataProvider {
+  readonly name: MarketDataProviderName;
+  /** Latest quote, or null if the provider has no data for the symbol */
+  getQuote(symbol: MarketSymbol): Promise<ProviderQuote | null>;
+  /** OHLCV bars for an interval and lookback, or null if the provider has no data */
+  getChart(symbol: MarketSymbol, spec: ChartSpec): Promise<ChartResponse | null>;
+}
+
+// ─── Ranges ─────────────────────────────────────────────────────────────────
+
+/** Bar interval and Yahoo range string per chart range */
+export const CHART_RANGE_SPECS: Record<ChartRange, ChartSpec> = {
+  "1D": { interval: "5m", range: "1d" },
+  "1W": { interval: "15m", range: "5d" },
+  "1M": { interval: "1d", range: "1mo" },
+  "3M": { interval: "1d", range: "3mo" },
+  "1Y": { interval: "1wk", range: "1y" },
+  ALL: { interval: "1mo", range: "5y" },
+};
+
+/** Quotes are built from today's 5-minute bars */
+export const QUOTE_SPEC = CHART_RANGE_SPECS["1D"];
+
+export function toChartRange(range: string): ChartRange {
+  return range in CHART_RANGE_SPECS ? (range as ChartRange) : "1M";
+}
+
+// ─── Bars ───────────────────────────────────────────────────────────────────
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Bucket key for a bar (unix seconds) at a coarser interval, in UTC */
+function bucketKey(timestamp: number, interval: "15m" | "1wk" | "1mo"): string {
+  if (interval === "15m") return String(Math.floor(timestamp / 900));
+  const date = new Date(timestamp * 1000);
+  if (interval === "1mo") return date.toISOString().slice(0, 7);
+  // Monday of the bar's week
+  const monday = new Date(date.getTime() - ((date.getUTCDay() + 6) % 7) * DAY_MS);
+  return monday.toISOString().slice(0, 10);
+}
+
+/**
+ * Merge consecutive bars into 15-minute, weekly or monthly bars. Each bar
+ * keeps the timestamp of its first input bar.
+ */
+export function aggregateBars(bars: ChartDataPoint[], interval: "15m" | "1wk" | "1mo"): ChartDataPoint[] {
+  const result: ChartDataPoint[] = [];
+  let currentKey: string | null = null;
+  for (const bar of bars) {
+    const key = bucketKey(bar.timestamp, interval);
+    const last = result[result.length - 1];
+    if (key === currentKey && last) {
+      last.high = Math.max(last.high, bar.high);
+      last.low = Math.min(last.low, bar.low);
+      last.close = bar.close;
+      last.volume += bar.volume;
+    } else {
+      currentKey = key;
+      result.push({ ...bar });
+    }
+  }
+  return result;
+}
+
+// ─── Selection ──────────────────────────────────────────────────────────────
+
+let activeProvider: MarketDataProvider | null = null;
+
+function createProvider(name: string): MarketDataProvider {
+  switch (name) {
+    case "fixture":
+      return createFixtureProvider(ENV.marketDataFixtureDir);
+    case "simulator":
+      return createSimulatedProvider();
+    case "yahoo":
+      return createYahooProvider();
+    default:
+      console.warn(`[MarketData] Unknown MARKET_DATA_PROVIDER "${name}", using yahoo`);
+      return createYahooProvider();
+  }
+}
+
+/**
+ * The provider chosen by MARKET_DATA_PROVIDER, created on first use.
+ */
+export function getMarketDataProvider(): MarketDataProvider {
+  if (!activeProvider) {
+    activeProvider = createProvider(ENV.marketDataProvider);
+    console.log(`[MarketData] Using ${activeProvider.name} provider`);
+  }
+  return activeProvider;
+}
+
+/** Replace the provider (tests), or pass null to pick again on next use */
+export function setMarketDataProvider(next: MarketDataProvider | null): void {
+  activeProvider = next;
+}
@@ -0,0 +1,360 @@
+/**
+ * AGRX In-Memory Alert Store
+ *
+ * Map-backed AlertStore for development without a database and for tests.
+ * Single-process only: nothing is shared between instances or kept across
+ * restarts.
+ */
+import {
+  DEFAULT_PREFERENCES,
+  type ActiveAlert,
+  type AlertEvaluation,
+  type AlertStore,
+  type AlertTrigger,
+  type HeldNotification,
+  type InboxNotification,
+  type NewsPush,
+  type PushMessage,
+  type StockAlertVolume,
+} from "./alertStore";
+import type { DeviceRegistration, NotificationPreferences, PriceAlert } from "./priceAlertService";
+
+/** Trigger log entries kept per process */
+const MAX_TRIGGERS = 1000;
+
+/** Evaluation runs kept per process, across all alerts */
+const MAX_EVALUATIONS = 5000;
+
+/** Push messages kept per process, oldest dropped first */
+const MAX_PUSH_MESSAGES = 5000;
+
+/** Inbox notifications kept per process, across all users */
+const MAX_INBOX = 5000;
+
+/** News pushes kept per process, across all users */
+const MAX_NEWS_PUSHES = 5000;
+
+type StoredAlert = PriceAlert & { userId: number | null; deviceId: string | null };
+
+function toAlert({ userId: _userId, deviceId: _deviceId, ...alert }: StoredAlert): PriceAlert {
+  return alert;
+}
+
+export function createMemoryAlertStore(): AlertStore {
+  const devices = new Map<string, DeviceRegistration>();
+  const alerts = new Map<string, StoredAlert>();
+  const preferences = new Map<number, NotificationPreferences>();
+  const lastPrices = new Map<string, number>();
+  const triggers: AlertTrigger[] = [];
+  const evaluations: AlertEvaluation[] = [];
+  let nextEvaluationId = 1;
+  let held: HeldNotification[] = [];
+  let nextHeldId = 1;
+  const pushMessages: PushMessage[] = [];
+  let nextPushId = 1;
+  let inbox: InboxNotification[] = [];
+  let nextInboxId = 1;
+  const newsPushes: NewsPush[] = [];
+
+  function findAlert(userId: number, alertId: string): StoredAlert | null {
+    const alert = alerts.get(alertId);
+    return alert && alert.userId === userId ? alert : null;
+  }
+
+  function prefsFor(userId: number): NotificationPreferences {
+    return { ...(preferences.get(userId) ?? DEFAULT_PREFERENCES) };
+  }
+
+  async function deleteDevice(deviceId: string): Promise<boolean> {
+    for (const [id, alert] of alerts) {
+      if (alert.userId === null && alert.deviceId === deviceId) alerts.delete(id);
+    }
+    return devices.delete(deviceId);
+  }
+
+  return {
+    name: "memory",
+
+    async upsertDevice(deviceId, pushToken, platform) {
+      const device: DeviceRegistration = {
+        deviceId,
+        userId: devices.get(deviceId)?.userId ?? null,
+        pushToken,
+        platform,
+        lastSeen: Date.now(),
+      };
+      devices.set(deviceId, device);
+      return { ...device };
+    },
+
+    async claimDevice(deviceId, userId, previousUserId = null) {
+      const device = devices.get(deviceId);
+      if (!device || device.userId !== previousUserId) return false;
+      device.userId = userId;
+      for (const alert of alerts.values()) {
+        if (alert.userId === null && alert.deviceId === deviceId) {
+          alert.userId = userId;
+          alert.deviceId = null;
+        }
+      }
+      return true;
+    },
+
+    deleteDevice,
+
+    async getDevice(deviceId) {
+      const device = devices.get(deviceId);
+      return device ? { ...device } : null;
+    },
+
+    async listDevices(userId) {
+      return Array.from(devices.values())
+        .filter((d) => d.userId === userId)
+        .map((d) => ({ ...d }));
+    },
+
+    async listAlerts(userId) {
+      return Array.from(alerts.values())
+        .filter((a) => a.userId === userId)
+        .map(toAlert);
+    },
+
+    async insertAlert(userId, alert) {
+      alerts.set(alert.id, { ...alert, userId, deviceId: null });
+    },
+
+    async deleteAlert(userId, alertId) {
+      return findAlert(userId, alertId) !== null && alerts.delete(alertId);
+    },
+
+    async toggleAlert(userId, alertId) {
+      const alert = findAlert(userId, alertId);
+      if (!alert) return false;
+      alert.enabled = !alert.enabled;
+      return true;
+    },
+
+    async getPreferences(userId) {
+      return prefsFor(userId);
+    },
+
+    async updatePreferences(userId, prefs) {
+      const updated = { ...prefsFor(userId), ...prefs };
+      preferences.set(userId, updated);
+      return { ...updated };
+    },
+
+    async listActiveAlerts() {
+      const active: ActiveAlert[] = [];
+      for (const alert of alerts.values()) {
+        if (!alert.enabled) continue;
+        const owned =
+          alert.userId !== null
+            ? Array.from(devices.values()).filter((d) => d.userId === alert.userId)
+            : Array.from(devices.values()).filter((d) => d.deviceId === alert.deviceId);
+        const prefs = alert.userId !== null ? prefsFor(alert.userId) : { ...DEFAULT_PREFERENCES };
+        if (owned.length === 0 || !prefs.priceAlerts) continue;
+        active.push({
+          alert: toAlert(alert),
+          owner: alert.userId !== null ? { userId: alert.userId } : { deviceId: alert.deviceId! },
+          pushTokens: owned.map((d) => d.pushToken),
+          preferences: prefs,
+        });
+      }
+      return active;
+    },
+
+    async getLastPrices() {
+      return new Map(lastPrices);
+    },
+
+    async setLastPrices(prices) {
+      for (const [stockId, price] of prices) lastPrices.set(stockId, price);
+    },
+
+    async claimAlert(alertId, now, cooldownMs) {
+      const alert = alerts.get(alertId);
+      if (!alert || !alert.enabled) return false;
+      const { lastTriggered } = alert;
+      if (lastTriggered !== null && now - lastTriggered < cooldownMs) return false;
+      alert.lastTriggered = now;
+      return true;
+    },
+
+    async releaseAlert(alertId, claimedAt, previous) {
+      const alert = alerts.get(alertId);
+      if (alert && alert.lastTriggered === claimedAt) {
+        alert.lastTriggered = previous;
+      }
+    },
+
+    async recordTrigger(trigger) {
+      triggers.push({ ...trigger });
+      if (triggers.length > MAX_TRIGGERS) triggers.splice(0, triggers.length - MAX_TRIGGERS);
+    },
+
+    async listTriggers(userId, limit) {
+      return triggers
+        .filter((t) => t.userId === userId)
+        .reverse()
+        .slice(0, limit);
+    },
+
+    async listAlertTriggers(alertId, since) {
+      return triggers
+        .filter((t) => t.alertId === alertId && t.triggeredAt >= since)
+        .sort((a, b) => a.triggeredAt - b.triggeredAt);
+    },
+
+    async recordEvaluation(evaluation, now) {
+      const latest = evaluations.findLast((e) => e.alertId === evaluation.alertId);
+      if (latest && latest.outcome === evaluation.outcome && evaluation.outcome !== "fired") {
+        latest.count++;
+        latest.price = evaluation.price;
+        latest.lastEvaluatedAt = now;
+        return;
+      }
+      evaluations.push({ ...evaluation, id: nextEvaluationId++, count: 1, firstEvaluatedAt: now, lastEvaluatedAt: now });
+      if (evaluations.length > MAX_EVALUATIONS) evaluations.splice(0, evaluations.length - MAX_EVALUATIONS);
+    },
+
+    async listEvaluations(alertId, limit) {
+      return evaluations
+        .filter((e) => e.alertId === alertId)
+        .reverse()
+        .slice(0, limit)
+        .map((e) => ({ ...e }));
+    },
+
+    async holdNotification(notification) {
+      held.push({ ...notification, id: nextHeldId++ });
+    },
+
+    async takeDueNotifications(now) {
+      const due = held.filter((n) => n.deliverAt <= now);
+      held = held.filter((n) => n.deliverAt > now);
+      return due.sort((a, b) => a.createdAt - b.createdAt || a.id - b.id);
+    },
+
+    async enqueuePushMessages(messages) {
+      for (const message of messages) pushMessages.push({ ...message, id: nextPushId++ });
+      if (pushMessages.length > MAX_PUSH_MESSAGES) pushMessages.splice(0, pushMessages.length - MAX_PUSH_MESSAGES);
+    },
+
+    async claimPushMessages(status, now, limit, leaseUntil) {
+      const due = pushMessages
+        .filter((m) => m.status === status && m.nextAttemptAt <= now)
+        .sort((a, b) => a.nextAttemptAt - b.nextAttemptAt || a.id - b.id)
+        .slice(0, limit);
+      for (const message of due) message.nextAttemptAt = leaseUntil;
+      return due.map((m) => ({ ...m }));
+    },
+
+    async updatePushMessage(id, update) {
+      const message = pushMessages.find((m) => m.id === id);
+      if (message) Object.assign(message, update);
+    },
+
+    async listPushMessages(notificationId) {
+      return pushMessages.filter((m) => m.notificationId === notificationId).map((m) => ({ ...m }));
+    },
+
+    async deleteDevicesByToken(pushToken) {
+      const dead = Array.from(devices.values()).filter((d) => d.pushToken === pushToken);
+      for (const device of dead) await deleteDevice(device.deviceId);
+      return dead.length;
+    },
+
+    async addInboxNotification(notification) {
+      const id = nextInboxId++;
+      inbox.push({ ...notification, id, read: false });
+      if (inbox.length > MAX_INBOX) inbox.splice(0, inbox.length - MAX_INBOX);
+      return id;
+    },
+
+    async listInbox(userId, before, limit) {
+      return inbox
+        .filter((n) => n.userId === userId && (before === null || n.id < before))
+        .sort((a, b) => b.id - a.id)
+        .slice(0, limit)
+        .map((n) => ({ ...n }));
+    },
+
+    async countUnreadInbox(userId) {
+      return inbox.filter((n) => n.userId === userId && !n.read).length;
+    },
+
+    async setInboxRead(userId, ids, read) {
+      for (const n of inbox) {
+        if (n.userId === userId && (ids === null || ids.includes(n.id))) n.read = read;
+      }
+    },
+
+    async deleteInboxNotifications(userId, ids) {
+      inbox = inbox.filter((n) => n.userId !== userId || (ids !== null && !ids.includes(n.id)));
+    },
+
+    async getStats() {
+      let activeAlerts = 0;
+      const stocksMonitored = new Set<string>();
+      for (const alert of alerts.values()) {
+        if (alert.enabled) {
+          activeAlerts++;
+          if (alert.stockId) stocksMonitored.add(alert.stockId);
+        }
+      }
+      return {
+        registeredDevices: devices.size,
+        linkedDevices: Array.from(devices.values()).filter((d) => d.userId !== null).length,
+        totalAlerts: alerts.size,
+        activeAlerts,
+        stocksMonitored: stocksMonitored.size,
+      };
+    },
+
+    async listNewsSubscribers() {
+      const tokensByUser = new Map<number, string[]>();
+      for (const device of devices.values()) {
+        if (device.userId === null) continue;
+        tokensByUser.set(device.userId, [...(tokensByUser.get(device.userId) ?? []), device.pushToken]);
+      }
+      return Array.from(tokensByUser, ([userId, pushTokens]) => ({ userId, pushTokens, preferences: prefsFor(userId) }))
+        .filter((s) => s.preferences.marketNews);
+    },
+
+    async claimNewsPush(push) {
+      if (newsPushes.some((p) => p.userId === push.userId && p.articleKey === push.articleKey)) return false;
+      newsPushes.push({ ...push });
+      if (newsPushes.length > MAX_NEWS_PUSHES) newsPushes.shift();
+      return true;
+    },
+
+    async countNewsPushes(userId, since) {
+      return newsPushes.filter((p) => p.userId === userId && p.pushedAt >= since).length;
+    },
+
+    async listRecentDevices(limit) {
+      return Array.from(devices.values())
+        .sort((a, b) => b.lastSeen - a.lastSeen)
+        .slice(0, limit)
+        .map((d) => ({ ...d }));
+    },
+
+    async getAlertVolume(since) {
+      const volume = new Map<string, StockAlertVolume>();
+      const entry = (stockId: string) => {
+        if (!volume.has(stockId)) volume.set(stockId, { stockId, alerts: 0, enabled: 0, triggers: 0 });
+        return volume.get(stockId)!;
+      };
+      for (const alert of alerts.values()) {
+        if (!alert.stockId) continue;
+        entry(alert.stockId).alerts++;
+        if (alert.enabled) entry(alert.stockId).enabled++;
+      }
+      for (const trigger of triggers) {
+        if (trigger.stockId && trigger.triggeredAt >= since) entry(trigger.stockId).triggers++;
+      }
+      return Array.from(volume.values());
+    },
+  };
+}
@@ -0,0 +1,319 @@
+/**
+ * AGRX Move Explainer Service
+ *
+ * "Why is it moving": when a stock's daily move passes
+ * MOVE_EXPLAINER_THRESHOLD_PERCENT, its recent articles (getStockNews), the
+ * moves of its sector peers (lib/sectors) and of the ATHEX General Index go
+ * to the shared LLM client (invokeLLM, strict JSON schema output) for a
+ * short explanation that cites the articles it relies on.
+ *
+ * - The explanation is only marked supported when it cites an article it
+ *   was given; otherwise it says it is unsure and sticks to the sector and
+ *   index moves
+ * - Without recent articles, or without an LLM, the unsure explanation is
+ *   written from the data alone
+ * - Cached per stock and Athens day, and written again when the move drifts
+ *   MOVE_DRIFT_PERCENT from the one explained or, while the market is open,
+ *   after EXPLANATION_TTL_MS, so later moves and articles are picked up
+ * - A failed generation is not cached, so the next request tries again
+ */
+import { z } from "zod";
+import { getSector, type Sector } from "../lib/sectors";
+import { getAthensDate, isMarketOpen } from "../shared/market-calendar.js";
+import { invokeLLM, isLLMConfigured, type InvokeResult, type JsonSchema } from "./_core/llm";
+import { getStockNews, type NewsArticle } from "./newsService";
+import {
+  ATHEX_SYMBOLS,
+  getIndexChangePercent,
+  getMultipleQuotes,
+  getStockQuote,
+  type StockQuote,
+} from "./stockService";
+
+// ─── Types ──────────────────────────────────────────────────────────────────
+
+export interface MoveSource {
+  title: string;
+  source: string;
+  url: string;
+  /** ISO date */
+  publishedAt: string;
+}
+
+export interface MoveExplanation {
+  stockId: string;
+  /** Athens date, "YYYY-MM-DD" */
+  day: string;
+  /** The move explained, as quoted when the explanation was written */
+  changePercent: number;
+  /** Two or three sentences */
+  text: string;
+  /** False when no cited article supports the explanation: it says it is unsure */
+  supported: boolean;
+  /** Cited articles */
+  sources: MoveSource[];
+  sector: Sector;
+  /** Mean move of the sector's other stocks; null when none are quoted */
+  sectorChangePercent: number | null;
+  /** Null when the index isn't quoted */
+  indexChangePercent: number | null;
+  /** Null when written from the data alone */
+  model: string | null;
+  /** Unix ms */
+  generatedAt: number;
+}
+
+interface MoveContext {
+  quote: StockQuote;
+  sector: Sector;
+  peers: StockQuote[];
+  sectorChangePercent: number | null;
+  indexChangePercent: number | null;
+  articles: NewsArticle[];
+}
+
+// ─── Constants ──────────────────────────────────────────────────────────────
+
+/** Absolute daily move, in percent, from which a move is explained */
+export const MOVE_EXPLAINER_THRESHOLD_PERCENT = 3;
+
+/** Older articles don't explain today's move */
+const MAX_ARTICLE_AGE_MS = 3 * 24 * 60 * 60 * 1000;
+
+const MAX_ARTICLES = 8;
+
+/** Peers listed in the prompt */
+const MAX_PEERS = 8;
+
+/** Percentage points the move may drift from the one explained before it is explained again */
+const MOVE_DRIFT_PERCENT = 2;
+
+/** How long an explanation is served while the market is open */
+const EXPLANATION_TTL_MS = 60 * 60 * 1000;
+
+// ─── Cache ──────────────────────────────────────────────────────────────────
+
+interface CachedExplanation {
+  /** Pending too, so concurrent requests share a generation */
+  explanation: Promise<MoveExplanation>;
+  /** The move being explained */
+  changePercent: number;
+  /** Unix ms */
+  createdAt: number;
+}
+
+/** Explanations by "stockId:day" */
+const explanationCache = new Map<string, CachedExplanation>();
+let cacheDay: string | null = null;
+
+// ─── Context ────────────────────────────────────────────────────────────────
+
+function formatChange(changePercent: number): string {
+  return `${changePercent >= 0 ? "+" : ""}${changePercent.toFixed(2)}%`;
+}
+
+async function gatherContext(quote: StockQuote, now: number): Promise<MoveContext> {
+  const sector = getSector(quote.id);
+  const peerIds = Object.keys(ATHEX_SYMBOLS).filter((id) => id !== quote.id && getSector(id) === sector);
+  const [peerQuotes, indexChangePercent, news] = await Promise.all([
+    peerIds.length > 0 ? getMultipleQuotes(peerIds) : Promise.resolve([]),
+    getIndexChangePercent(),
+    getStockNews(quote.id),
+  ]);
+
+  const peers = peerQuotes.filter((q) => q.price > 0 && q.previousClose > 0);
+  const sectorChangePercent =
+    peers.length > 0 ? Math.round((peers.reduce((sum, q) => sum + q.changePercent, 0) / peers.length) * 100) / 100 : null;
+  const articles = news.articles
+    .filter((a) => a.url && now - new Date(a.publishedAt).getTime() <= MAX_ARTICLE_AGE_MS)
+    .slice(0, MAX_ARTICLES);
+
+  return { quote, sector, peers, sectorChangePercent, indexChangePercent, articles };
+}
+
+/** The unsure explanation, from the sector and index moves alone */
+function unsureText(context: MoveContext): string {
+  const { quote, sector, sectorChangePercent, indexChangePercent } = context;
+  const market = [
+    sectorChangePercent !== null ? `${sector} stocks moved ${formatChange(sectorChangePercent)} on average` : null,
+    indexChangePercent !== null ? `the ATHEX General Index ${formatChange(indexChangePercent)}` : null,
+  ]
+    .filter((part): part is string => part !== null)
+    .join(" and ");
+  return (
+    `We're not sure why ${quote.name} moved ${formatChange(quote.changePercent)} today: no recent article explains it.` +
+    (market ? ` ${market[0].toUpperCase()}${market.slice(1)}.` : "")
+  );
+}
+
+function fromData(context: MoveContext, day: string, now: number): MoveExplanation {
+  return {
+    stockId: context.quote.id,
+    day,
+    changePercent: context.quote.changePercent,
+    text: unsureText(context),
+    supported: false,
+    sources: [],
+    sector: context.sector,
+    sectorChangePercent: context.sectorChangePercent,
+    indexChangePercent: context.indexChangePercent,
+    model: null,
+    generatedAt: now,
+  };
+}
+
+// ─── Generation ─────────────────────────────────────────────────────────────
+
+/** Output the model must return; strict, so every field is always present */
+const EXPLANATION_SCHEMA: JsonSchema = {
+  name: "move_explanation",
+  strict: true,
+  schema: {
+    type: "object",
+    properties: {
+      explanation: {
+        type: "string",
+        description: "Two or three sentences on why the stock moved today",
+      },
+      supported: {
+        type: "boolean",
+        description: "True only if a cited article gives the reason for the move",
+      },
+      citations: {
+        type: "array",
+        description: "Numbers of the articles the explanation relies on",
+        items: { type: "integer" },
+      },
+    },
+    required: ["explanation", "supported", "citations"],
+    additionalProperties: false,
+  },
+};
+
+const explanationResponseSchema = z
+  .object({
+    explanation: z.string().trim().min(1),
+    supported: z.boolean(),
+    citations: z.array(z.number().int()),
+  })
+  .strict();
+
+/**
+ * Explain the move in `context`. Returns null when the model fails or
+ * answers outside the schema, so the caller can fall back without caching.
+ */
+async function explainWithLLM(context: MoveContext, day: string, now: number): Promise<MoveExplanation | null> {
+  const { quote, sector, peers, sectorChangePercent, indexChangePercent, articles } = context;
+
+  let response: InvokeResult;
+  try {
+    response = await invokeLLM({
+      messages: [
+        {
+          role: "system",
+          content:
+            "You explain daily moves of stocks listed on the Athens Stock Exchange (ATHEX) to retail investors. Use only the data given and never speculate. A reason for the move must come from an article you cite; if no article gives one, set supported to false and say plainly that you are not sure why the stock moved, mentioning only the sector and index moves. Write in English; articles may be in Greek.",
+        },
+        {
+          role: "user",
+          content: `${quote.name} (${quote.ticker}) moved ${formatChange(quote.changePercent)} today to €${quote.price.toFixed(2)}.
+
+Sector (${sector}): ${sectorChangePercent !== null ? `${formatChange(sectorChangePercent)} on average` : "no other stocks quoted"}
+${peers.slice(0, MAX_PEERS).map((q) => `- ${q.name}: ${formatChange(q.changePercent)}`).join("\n")}
+
+ATHEX General Index: ${indexChangePercent !== null ? formatChange(indexChangePercent) : "not available"}
+
+Articles:
+${articles.map((a, i) => `${i + 1}. ${a.title} (${a.source}, ${a.relativeTime})`).join("\n")}`,
+        },
+      ],
+      responseFormat: { type: "json_schema", json_schema: EXPLANATION_SCHEMA },
+    });
+  } catch (error) {
+    console.warn(`[MoveExplainer] Explanation failed for ${quote.id}:`, error);
+    return null;
+  }
+
+  const content = response.choices?.[0]?.message?.content;
+  let parsed: z.infer<typeof explanationResponseSchema>;
+  try {
+    parsed = explanationResponseSchema.parse(JSON.parse(typeof content === "string" ? content : ""));
+  } catch {
+    console.warn(`[MoveExplainer] Explanation for ${quote.id} didn't match the schema`);
+    return null;
+  }
+  if (parsed.citations.some((n) => n < 1 || n > articles.length)) {
+    console.warn(`[MoveExplainer] Explanation for ${quote.id} cites an article it wasn't given`);
+    return null;
+  }
+
+  const sources = Array.from(new Set(parsed.citations), (n) => {
+    const article = articles[n - 1];
+    return { title: article.title, source: article.source, url: article.url, publishedAt: article.publishedAt };
+  });
+  // A reason is only as good as the article behind it
+  const supported = parsed.supported && sources.length > 0;
+  console.log(
+    `[MoveExplainer] ${quote.id} on ${day}: ${supported ? "supported" : "unsure"}, ${response.model}, ${response.usage?.prompt_tokens ?? 0}+${response.usage?.completion_tokens ?? 0} tokens`
+  );
+
+  return {
+    ...fromData(context, day, now),
+    text: parsed.supported && !supported ? unsureText(context) : parsed.explanation,
+    supported,
+    sources,
+    model: response.model,
+  };
+}
+
+// ─── Public API ─────────────────────────────────────────────────────────────
+
+/**
+ * Why `stockId` is moving today, or null when its move is below the
+ * threshold or it isn't quoted.
+ */
+export async function getMoveExplanation(stockId: string, now: number = Date.now()): Promise<MoveExplanation | null> {
+  const quote = await getStockQuote(stockId);
+  if (!quote || Math.abs(quote.changePercent) < MOVE_EXPLAINER_THRESHOLD_PERCENT) return null;
+
+  const day = getAthensDate(new Date(now));
+  if (cacheDay !== day) {
+    explanationCache.clear();
+    cacheDay = day;
+  }
+  const key = `${stockId}:${day}`;
+  const cached = explanationCache.get(key);
+  if (
+    cached &&
+    Math.abs(quote.changePercent - cached.changePercent) < MOVE_DRIFT_PERCENT &&
+    (!isMarketOpen(new Date(now)) || now - cached.createdAt < EXPLANATION_TTL_MS)
+  ) {
+    return cached.explanation;
+  }
+
+  const forget = () => {
+    if (explanationCache.get(key) === entry) explanationCache.delete(key);
+  };
+  const entry: CachedExplanation = {
+    explanation: (async () => {
+      const context = await gatherContext(quote, now);
+      if (context.articles.length === 0 || !isLLMConfigured()) return fromData(context, day, now);
+
+      const explanation = await explainWithLLM(context, day, now);
+      if (explanation) return explanation;
+      forget();
+      return fromData(context, day, now);
+    })(),
+    changePercent: quote.changePercent,
+    createdAt: now,
+  };
+  explanationCache.set(key, entry);
+  entry.explanation.catch(forget);
+  return entry.explanation;
+}
+
+/** Forget cached explanations (tests) */
+export function clearMoveExplanations(): void {
+  explanationCache.clear();
+  cacheDay = null;
+}
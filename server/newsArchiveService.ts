@@ -0,0 +1,137 @@
+/**
+ * AGRX News Archive Service
+ *
+ * Persists the news served for each stock in `news_articles` and keeps a
+ * daily sentiment series per stock in `news_sentiment_days`, so sentiment
+ * can be compared with price long after the in-memory news caches expire.
+ *
+ * - Articles are archived by getStockNews() each time it fetches, once per
+ *   stock and story; a later analysis may relabel a story
+ * - A day's sentiment is recomputed from that day's archived articles
+ *   whenever one of them is written, so it counts each story once
+ * - Days are Athens dates of publication, matching the daily price bars
+ *
+ * Without a database nothing is archived and the history is empty.
+ */
+import { and, asc, count, eq, gte, inArray, sql } from "drizzle-orm";
+import { getAthensDate } from "../shared/market-calendar.js";
+import { getDb } from "./db";
+import { newsArticleKey } from "./newsIngestion";
+import type { NewsArticle } from "./newsService";
+import { newsArticles, newsSentimentDays, type InsertNewsArticle } from "../drizzle/schema";
+
+// ─── Types ──────────────────────────────────────────────────────────────────
+
+export interface SentimentDay {
+  /** Athens date, "YYYY-MM-DD" */
+  day: string;
+  articles: number;
+  bullish: number;
+  bearish: number;
+  neutral: number;
+  /** (bullish - bearish) / articles, -1 to 1 */
+  score: number;
+}
+
+// ─── Helpers ────────────────────────────────────────────────────────────────
+
+/** A day's sentiment from its label counts */
+export function summarizeSentimentDay(
+  day: string,
+  counts: Partial<Record<NonNullable<NewsArticle["sentiment"]>, number>>
+): SentimentDay {
+  const bullish = counts.bullish ?? 0;
+  const bearish = counts.bearish ?? 0;
+  const neutral = counts.neutral ?? 0;
+  const articles = bullish + bearish + neutral;
+  const score = articles > 0 ? Math.round(((bullish - bearish) / articles) * 100) / 100 : 0;
+  return { day, articles, bullish, bearish, neutral, score };
+}
+
+// ─── Writes ─────────────────────────────────────────────────────────────────
+
+/**
+ * Archive a stock's labeled articles and bring the daily sentiment of the
+ * days they were published on up to date. Returns the number of articles
+ * written; 0 without a database.
+ */
+export async function archiveStockNews(stockId: string, articles: NewsArticle[]): Promise<number> {
+  const db = await getDb();
+  if (!db) return 0;
+
+  const rows: InsertNewsArticle[] = [];
+  for (const article of articles) {
+    const publishedAt = new Date(article.publishedAt).getTime();
+    if (!article.sentiment || Number.isNaN(publishedAt)) continue;
+    rows.push({
+      stockId,
+      articleKey: newsArticleKey(article.title),
+      title: article.title.slice(0, 512),
+      source: article.source.slice(0, 128),
+      url: article.url,
+      language: article.language ?? null,
+      kind: article.kind ?? "news",
+      sentiment: article.sentiment,
+      publishedAt,
+      day: getAthensDate(new Date(publishedAt)),
+    });
+  }
+  if (rows.length === 0) return 0;
+
+  await db
+    .insert(newsArticles)
+    .values(rows)
+    .onDuplicateKeyUpdate({ set: { sentiment: sql`values(${newsArticles.sentiment})` } });
+
+  const days = Array.from(new Set(rows.map((r) => r.day)));
+  const counts = await db
+    .select({ day: newsArticles.day, sentiment: newsArticles.sentiment, articles: count() })
+    .from(newsArticles)
+    .where(and(eq(newsArticles.stockId, stockId), inArray(newsArticles.day, days)))
+    .groupBy(newsArticles.day, newsArticles.sentiment);
+
+  const summaries = days.map((day) =>
+    summarizeSentimentDay(
+      day,
+      Object.fromEntries(counts.filter((c) => c.day === day).map((c) => [c.sentiment, c.articles]))
+    )
+  );
+  await db
+    .insert(newsSentimentDays)
+    .values(summaries.map((s) => ({ stockId, ...s })))
+    .onDuplicateKeyUpdate({
+      set: {
+        articles: sql`values(${newsSentimentDays.articles})`,
+        bullish: sql`values(${newsSentimentDays.bullish})`,
+        bearish: sql`values(${newsSentimentDays.bearish})`,
+        neutral: sql`values(${newsSentimentDays.neutral})`,
+        score: sql`values(${newsSentimentDays.score})`,
+      },
+    });
+
+  return rows.length;
+}
+
+// ─── Reads ──────────────────────────────────────────────────────────────────
+
+/**
+ * Daily news sentiment for a stock from `from` ("YYYY-MM-DD") on, oldest
+ * first. Days without archived news are absent. Empty without a database.
+ */
+export async function getSentimentHistory(stockId: string, from: string): Promise<SentimentDay[]> {
+  const db = await getDb();
+  if (!db) return [];
+
+  return db
+    .select({
+      day: newsSentimentDays.day,
+      articles: newsSentimentDays.articles,
+      bullish: newsSentimentDays.bullish,
+      bearish: newsSentimentDays.bearish,
+      neutral: newsSentimentDays.neutral,
+      score: newsSentimentDays.score,
+    })
+    .from(newsSentimentDays)
+    .where(and(eq(newsSentimentDays.stockId, stockId), gte(newsSentimentDays.day, from)))
+    .orderBy(asc(newsSentimentDays.day));
+}
@@ -0,0 +1,389 @@
+/**
+ * AGRX News Ingestion
+ *
+ * Collects news from several RSS/Atom sources for newsService:
+ * - Google News searches in English and Greek, per stock and for the market
+ * - ATHEX regulatory announcements (ENV.athexAnnouncementsFeedUrl)
+ * - Company investor relations feeds (ENV.newsIrFeeds)
+ *
+ * Each article is matched to the stocks it mentions, by company name, Greek
+ * name or ticker, and near-duplicate headlines carried by several sources
+ * are merged into one article that lists the other sources. Feeds shared by
+ * every stock (announcements) are cached between calls.
+ */
+import { createHash } from "crypto";
+import { ENV } from "./_core/env";
+import { parseFeed } from "./feedParser";
+import type { NewsArticle } from "./newsService";
+import { ATHEX_SYMBOLS } from "./stockService";
+
+// ─── Types ──────────────────────────────────────────────────────────────────
+
+export type NewsLanguage = "en" | "el";
+
+export interface NewsSource {
+  /** Shown in logs, e.g. "google:el:ΟΠΑΠ μετοχή" */
+  id: string;
+  kind: NonNullable<NewsArticle["kind"]>;
+  /** null: told from each headline's script */
+  language: NewsLanguage | null;
+  url: string;
+  /** IR feeds: every entry is about this stock */
+  stockId?: string;
+}
+
+// ─── Constants ──────────────────────────────────────────────────────────────
+
+const SHARED_FEED_CACHE_TTL = 10 * 60 * 1000; // 10 minutes
+
+/** Headlines sharing at least this share of their words are the same story */
+const DUPLICATE_SIMILARITY = 0.75;
+
+const MARKET_QUERIES: Record<NewsLanguage, string[]> = {
+  en: ["Athens stock exchange ATHEX", "Greek stock market"],
+  el: ["Χρηματιστήριο Αθηνών"],
+};
+
+/**
+ * Names the press uses besides ATHEX_SYMBOLS' name: Greek names (with the
+ * genitive where it differs), former names and acronyms. The first Greek
+ * name is used for the stock's Greek search.
+ */
+const STOCK_ALIASES: Record<string, string[]> = {
+  eee: ["CCHBC", "Coca-Cola Τρία Έψιλον", "Coca-Cola HBC AG"],
+  eurob: ["Eurobank Ergasias"],
+  ete: ["Εθνική Τράπεζα", "Εθνικής Τράπεζας", "National Bank", "NBG"],
+  tpeir: ["Τράπεζα Πειραιώς", "Τράπεζας Πειραιώς", "Piraeus Financial Holdings"],
+  ppc: ["ΔΕΗ", "PPC", "Public Power Corporation"],
+  hto: ["ΟΤΕ", "OTE", "Hellenic Telecommunications"],
+  opap: ["ΟΠΑΠ", "Allwyn Hellas"],
+  mtln: ["Metlen", "Μυτιληναίος", "Μυτιληναίου", "Mytilineos"],
+  bochgr: ["Τράπεζα Κύπρου", "Τράπεζας Κύπρου"],
+  cener: ["Cenergy"],
+  titc: ["Τιτάν", "Titan Cement Group", "Titan SA"],
+  moh: ["Motor Oil", "Μότορ Όιλ"],
+  gekterna: ["ΓΕΚ ΤΕΡΝΑ"],
+  aia: ["Διεθνής Αερολιμένας Αθηνών", "Διεθνούς Αερολιμένα Αθηνών", "Athens International Airport", "Athens Airport"],
+  bela: ["Jumbo"],
+  vio: ["Βιοχάλκο"],
+  elpe: ["Ελληνικά Πετρέλαια", "HELLENiQ", "Hellenic Petroleum", "ΕΛΠΕ"],
+  credia: ["CrediaBank", "Credia Bank", "Attica Bank"],
+  kare: ["Καρέλια", "Karelia"],
+  ppa: ["ΟΛΠ", "Piraeus Port"],
+  eydap: ["ΕΥΔΑΠ", "EYDAP"],
+  kri: ["Κρι Κρι", "Kri-Kri", "Kri Kri"],
+  admie: ["ΑΔΜΗΕ", "IPTO"],
+  eyaps: ["ΕΥΑΘ", "EYATH"],
+  aktr: ["Άκτωρ", "Aktor"],
+  bylot: ["Intralot", "Ιντραλότ"],
+  elha: ["ElvalHalcor", "Ελβαλχαλκόρ"],
+  aegn: ["Aegean Αεροπορία", "Αεροπορία Αιγαίου"],
+  lamda: ["Lamda", "Λάμδα"],
+  sar: ["Σαράντης", "Sarantis"],
+  otoel: ["Autohellas", "Hertz Hellas"],
+  avax: ["Άβαξ", "Avax"],
+  ellaktor: ["Ελλάκτωρ"],
+  attica: ["Attica Group", "Attica Συμμετοχών"],
+  olth: ["ΟΛΘ", "Thessaloniki Port Authority"],
+  exae: ["Ελληνικά Χρηματιστήρια", "Euronext Athens", "ATHEX Group"],
+  intek: ["Ideal Holdings", "Ideal Συμμετοχών"],
+  tell: ["Τράπεζα της Ελλάδος", "Τράπεζας της Ελλάδος"],
+  intrk: ["Intracom"],
+  acag: ["Austriacard"],
+  foyrk: ["Fourlis", "Φουρλής"],
+  prof: ["Profile"],
+  plat: ["Thrace Group", "Πλαστικά Θράκης"],
+  plakr: ["Πλαστικά Κρήτης"],
+  iatr: ["Ιατρικό Αθηνών"],
+  pap: ["Παπουτσάνης"],
+  frigo: ["Frigoglass"],
+};
+
+/** Tickers that are ordinary words or abbreviations in headlines */
+const AMBIGUOUS_TICKERS = new Set(["SPACE", "TELL", "MOTO", "QUAL", "ONYX", "MEDIC", "PERF", "PROF", "MODA", "PLAT", "REVOIL", "BIOT"]);
+
+/** Legal form dropped from company names for searches and aliases */
+const LEGAL_FORM = /\s+S\.A\.$/;
+
+// ─── State ──────────────────────────────────────────────────────────────────
+
+interface EntityIndex {
+  /** Normalized names (see normalizeForMatching()), longest first */
+  aliases: { stockId: string; text: string }[];
+  tickers: { stockId: string; pattern: RegExp }[];
+}
+
+let entityIndex: EntityIndex | null = null;
+
+const sharedFeedCache = new Map<string, { articles: NewsArticle[]; timestamp: number }>();
+
+// ─── Text Normalization ─────────────────────────────────────────────────────
+
+/**
+ * Lowercase words separated by single spaces, accents removed and Greek
+ * final sigma folded, so "ΟΠΑΠ: Κέρδη" and "οπαπ κερδη" match
+ */
+export function normalizeForMatching(text: string): string {
+  return text
+    .normalize("NFKD")
+    .replace(/\p{M}/gu, "")
+    .toLowerCase()
+    .replace(/ς/g, "σ")
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+}
+
+/** Same story, same key: case, accents and punctuation are ignored */
+export function newsArticleKey(headline: string): string {
+  return createHash("sha1").update(normalizeForMatching(headline)).digest("hex");
+}
+
+function searchName(stockId: string): string {
+  const name = ATHEX_SYMBOLS[stockId]?.name ?? stockId.toUpperCase();
+  return name.replace(/\s*\([^)]*\)/g, "").replace(LEGAL_FORM, "").trim();
+}
+
+// ─── Entity Matching ────────────────────────────────────────────────────────
+
+function buildEntityIndex(): EntityIndex {
+  const index: EntityIndex = { aliases: [], tickers: [] };
+  for (const [stockId, { yahoo, name }] of Object.entries(ATHEX_SYMBOLS)) {
+    const names = [name.replace(/\s*\([^)]*\)/g, ""), searchName(stockId), ...(STOCK_ALIASES[stockId] ?? [])];
+    for (const text of Array.from(new Set(names.map(normalizeForMatching)))) {
+      if (text) index.aliases.push({ stockId, text });
+    }
+    const ticker = yahoo.replace(/\.AT$/, "");
+    if (ticker.length >= 4 && !AMBIGUOUS_TICKERS.has(ticker)) {
+      index.tickers.push({ stockId, pattern: new RegExp(`(^|[^\\p{L}\\p{N}])${ticker}($|[^\\p{L}\\p{N}])`, "u") });
+    }
+  }
+  // Longest first, so "National Bank of Greece" wins over "Bank of Greece"
+  index.aliases.sort((a, b) => b.text.length - a.text.length);
+  return index;
+}
+
+/**
+ * Stocks a headline or announcement mentions, in order of first mention.
+ * Names match case- and accent-insensitively as whole words; a name inside
+ * a longer matched name doesn't count. Tickers match in capitals only.
+ */
+export function matchStocks(text: string): string[] {
+  entityIndex ??= buildEntityIndex();
+  const normalized = ` ${normalizeForMatching(text)} `;
+  const taken: [number, number][] = [];
+  const found: { stockId: string; at: number }[] = [];
+
+  for (const alias of entityIndex.aliases) {
+    for (let at = normalized.indexOf(` ${alias.text} `); at >= 0; at = normalized.indexOf(` ${alias.text} `, at + 1)) {
+      const start = at;
+      const end = at + alias.text.length + 1;
+      if (taken.some(([s, e]) => start < e && end > s)) continue;
+      taken.push([start, end]);
+      found.push({ stockId: alias.stockId, at });
+    }
+  }
+
+  for (const { stockId, pattern } of entityIndex.tickers) {
+    const at = text.search(pattern);
+    if (at >= 0) found.push({ stockId, at });
+  }
+
+  return Array.from(new Set(found.sort((a, b) => a.at - b.at).map((f) => f.stockId)));
+}
+
+// ─── Duplicate Merging ──────────────────────────────────────────────────────
+
+function headlineWords(title: string): Set<string> {
+  return new Set(normalizeForMatching(title).split(" ").filter(Boolean));
+}
+
+function similarity(a: Set<string>, b: Set<string>): number {
+  let shared = 0;
+  for (const word of Array.from(a)) if (b.has(word)) shared++;
+  return shared / (a.size + b.size - shared || 1);
+}
+
+/**
+ * Merge articles whose headlines are the same story: the first one seen is
+ * kept, gains the other sources in alsoReportedBy and the stocks they were
+ * matched to.
+ */
+export function mergeDuplicates(articles: NewsArticle[]): NewsArticle[] {
+  const kept: { article: NewsArticle; words: Set<string> }[] = [];
+  for (const article of articles) {
+    const words = headlineWords(article.title);
+    const same = kept.find((k) => similarity(k.words, words) >= DUPLICATE_SIMILARITY);
+    if (!same) {
+      kept.push({ article: { ...article }, words });
+      continue;
+    }
+    const merged = same.article;
+    const sources = new Set([...(merged.alsoReportedBy ?? []), ...(article.alsoReportedBy ?? []), article.source]);
+    sources.delete(merged.source);
+    if (sources.size > 0) merged.alsoReportedBy = Array.from(sources);
+    if (article.stockIds?.length) merged.stockIds = Array.from(new Set([...(merged.stockIds ?? []), ...article.stockIds]));
+  }
+  return kept.map((k) => k.article);
+}
+
+// ─── Sources ────────────────────────────────────────────────────────────────
+
+export function googleNewsSource(query: string, language: NewsLanguage): NewsSource {
+  const locale = language === "el" ? "hl=el&gl=GR&ceid=GR:el" : "hl=en&gl=GR&ceid=GR:en";
+  return {
+    id: `google:${language}:${query}`,
+    kind: "news",
+    language,
+    url: `https://news.google.com/rss/search?q=${encodeURIComponent(query)}&${locale}`,
+  };
+}
+
+/** Google News searches for one stock, in English and Greek */
+export function stockQueries(stockId: string): Record<NewsLanguage, string> {
+  const name = searchName(stockId);
+  const greek = STOCK_ALIASES[stockId]?.find((a) => /\p{Script=Greek}/u.test(a)) ?? name;
+  return { en: `${name} Greece stock`, el: `${greek} μετοχή` };
+}
+
+/** IR feeds from ENV.newsIrFeeds: "opap=https://…,ppc=https://…" */
+function irSources(): NewsSource[] {
+  return ENV.newsIrFeeds
+    .split(",")
+    .map((entry) => entry.trim().match(/^([a-z0-9]+)=(https?:\/\/\S+)$/))
+    .filter((m): m is RegExpMatchArray => m !== null && m[1] in ATHEX_SYMBOLS)
+    .map(([, stockId, url]) => ({ id: `ir:${stockId}`, kind: "ir" as const, language: null, url, stockId }));
+}
+
+function announcementSource(): NewsSource | null {
+  if (!ENV.athexAnnouncementsFeedUrl) return null;
+  return { id: "athex:announcements", kind: "announcement", language: null, url: ENV.athexAnnouncementsFeedUrl };
+}
+
+// ─── Fetching ───────────────────────────────────────────────────────────────
+
+export function parseRelativeTime(dateStr: string): string {
+  try {
+    const date = new Date(dateStr);
+    const now = new Date();
+    const diffMs = now.getTime() - date.getTime();
+    const diffMins = Math.floor(diffMs / 60000);
+    const diffHours = Math.floor(diffMs / 3600000);
+    const diffDays = Math.floor(diffMs / 86400000);
+
+    if (diffMins < 60) return `${Math.max(1, diffMins)}m ago`;
+    if (diffHours < 24) return `${diffHours}h ago`;
+    if (diffDays < 7) return `${diffDays}d ago`;
+    if (diffDays < 30) return `${Math.floor(diffDays / 7)}w ago`;
+    return `${Math.floor(diffDays / 30)}mo ago`;
+  } catch {
+    return "recently";
+  }
+}
+
+/**
+ * Fetch and parse one source. Never throws: a failing source is logged and
+ * contributes no articles.
+ */
+export async function fetchSource(source: NewsSource, maxResults: number = 10): Promise<NewsArticle[]> {
+  try {
+    const response = await fetch(source.url, {
+      headers: {
+        "User-Agent": "Mozilla/5.0 (compatible; AGRX/1.0)",
+      },
+      signal: AbortSignal.timeout(10000),
+    });
+
+    if (!response.ok) {
+      console.warn(`[NewsIngestion] ${source.id} returned ${response.status}`);
+      return [];
+    }
+
+    const feed = parseFeed(await response.text());
+    if (!feed) {
+      console.warn(`[NewsIngestion] ${source.id} isn't an RSS or Atom feed`);
+      return [];
+    }
+
+    const fetchedAt = new Date().toISOString();
+    return feed.entries.slice(0, maxResults).map((entry) => {
+      let title = entry.title;
+      let publisher = entry.source;
+      if (source.kind === "news") {
+        // Google News appends " - Source Name" to titles
+        const dashIdx = title.lastIndexOf(" - ");
+        if (dashIdx > 0) {
+          publisher ??= title.substring(dashIdx + 3).trim();
+          title = title.substring(0, dashIdx).trim();
+        }
+      }
+      const mentioned = matchStocks(source.kind === "news" ? title : `${title} ${entry.summary}`);
+      return {
+        title,
+        source: publisher || feed.title || "News",
+        url: entry.url,
+        publishedAt: entry.publishedAt ?? fetchedAt,
+        relativeTime: entry.publishedAt ? parseRelativeTime(entry.publishedAt) : "recently",
+        language: source.language ?? (/\p{Script=Greek}/u.test(title) ? "el" : "en"),
+        kind: source.kind,
+        stockIds: source.stockId ? Array.from(new Set([source.stockId, ...mentioned])) : mentioned,
+      };
+    });
+  } catch (error) {
+    console.warn(`[NewsIngestion] Failed to fetch ${source.id}`, error);
+    return [];
+  }
+}
+
+/** Feeds every stock reads from, fetched once per SHARED_FEED_CACHE_TTL */
+async function fetchSharedSource(source: NewsSource): Promise<NewsArticle[]> {
+  const cached = sharedFeedCache.get(source.url);
+  if (cached && Date.now() - cached.timestamp < SHARED_FEED_CACHE_TTL) return cached.articles;
+  const articles = await fetchSource(source, 50);
+  sharedFeedCache.set(source.url, { articles, timestamp: Date.now() });
+  return articles;
+}
+
+function newestFirst(articles: NewsArticle[]): NewsArticle[] {
+  return articles.sort((a, b) => new Date(b.publishedAt).getTime() - new Date(a.publishedAt).getTime());
+}
+
+// ─── Public API ─────────────────────────────────────────────────────────────
+
+/**
+ * News about one stock from every source, merged and newest first. Search
+ * results that only mention other stocks are dropped.
+ */
+export async function ingestStockNews(stockId: string, maxResults: number = 10): Promise<NewsArticle[]> {
+  const queries = stockQueries(stockId);
+  const announcements = announcementSource();
+  const [english, greek, ir, shared] = await Promise.all([
+    fetchSource(googleNewsSource(queries.en, "en"), maxResults),
+    fetchSource(googleNewsSource(queries.el, "el"), maxResults),
+    Promise.all(irSources().filter((s) => s.stockId === stockId).map((s) => fetchSource(s, maxResults))),
+    announcements ? fetchSharedSource(announcements) : Promise.resolve([]),
+  ]);
+
+  const articles = [
+    ...[...english, ...greek].filter((a) => !a.stockIds?.length || a.stockIds.includes(stockId)),
+    ...ir.flat(),
+    ...shared.filter((a) => a.stockIds?.includes(stockId)),
+  ];
+  return newestFirst(mergeDuplicates(articles)).slice(0, maxResults);
+}
+
+/** ATHEX-wide news in English and Greek, and announcements, merged and newest first */
+export async function ingestMarketNews(maxResults: number = 15): Promise<NewsArticle[]> {
+  const announcements = announcementSource();
+  const results = await Promise.all([
+    ...MARKET_QUERIES.en.map((q) => fetchSource(googleNewsSource(q, "en"), 8)),
+    ...MARKET_QUERIES.el.map((q) => fetchSource(googleNewsSource(q, "el"), 8)),
+    // The latest few, so filings don't crowd out the news
+    announcements ? fetchSharedSource(announcements).then((a) => a.slice(0, 5)) : Promise.resolve([]),
+  ]);
+  return newestFirst(mergeDuplicates(results.flat())).slice(0, maxResults);
+}
+
+/** Forget cached shared feeds */
+export function clearIngestionCache(): void {
+  sharedFeedCache.clear();
+}
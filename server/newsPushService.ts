@@ -0,0 +1,282 @@
+/**
+ * AGRX News Push Service
+ *
+ * Scheduled job behind the marketNews notification preference. Each run
+ * polls getMarketNews() and getStockNews() for every stock a subscriber
+ * holds, watches or has a price alert on, and pushes high-signal news:
+ * - a strong sentiment shift: a stock's news sentiment turning strongly
+ *   bullish or bearish since the previous run
+ * - recent headlines about the user's stocks with a clear bullish or
+ *   bearish tone
+ * - recent ATHEX-wide headlines with a clear tone
+ *
+ * Architecture:
+ * - A story carried by several sources or queries is pushed once: stories
+ *   are keyed by their normalized headline, and each push is claimed in the
+ *   store (news_pushes) per user before it is sent
+ * - At most MAX_NEWS_PUSHES_PER_DAY per user and day in their timezone,
+ *   the most important first
+ * - Delivery goes through deliverNotification(), so quiet hours and the
+ *   news delivery window hold pushes and every push lands in the inbox
+ * - Sentiment baselines are kept per instance; after a restart the first
+ *   run only sets them
+ * - Only the instance holding the news lease runs the job
+ */
+import { localTime } from "../shared/notification-schedule.js";
+import { ENV } from "./_core/env";
+import { getAlertStore, type NewsPushReason, type NewsSubscriber } from "./alertStore";
+import { acquireJobLease } from "./jobLease";
+import { newsArticleKey } from "./newsIngestion";
+import { getMarketNews, getStockNews, tagHeadlineSentiment, type NewsArticle } from "./newsService";
+import { findPortfolio } from "./portfolioService";
+import { deliverNotification, type NotificationPayload } from "./priceAlertService";
+import { ATHEX_SYMBOLS } from "./stockService";
+import { getWatchlists } from "./watchlistService";
+
+// ─── Types ──────────────────────────────────────────────────────────────────
+
+export interface NewsPushResult {
+  /** Pushes queued or held for quiet hours */
+  pushed: number;
+  /** Subscribers whose daily cap held back news */
+  capped: number;
+}
+
+interface NewsCandidate {
+  articleKey: string;
+  reason: NewsPushReason;
+  stockId: string | null;
+  notification: NotificationPayload;
+  /** Unix ms */
+  publishedAt: number;
+}
+
+// ─── Constants ──────────────────────────────────────────────────────────────
+
+const NEWS_LEASE = "news-push";
+
+/** News pushes per user and day */
+export const MAX_NEWS_PUSHES_PER_DAY = 3;
+
+/** Older headlines are not pushed */
+const MAX_ARTICLE_AGE_MS = 3 * 60 * 60 * 1000;
+
+/** |score| a stock's news sentiment must reach to count as strongly bullish or bearish */
+const STRONG_SENTIMENT = 0.5;
+
+/** Minimum score change since the previous run for a sentiment shift */
+const SENTIMENT_SHIFT = 0.4;
+
+/** Pushed first when the cap leaves room for only some */
+const REASON_PRIORITY: Record<NewsPushReason, number> = { sentiment: 0, stock: 1, market: 2 };
+
+// ─── State ──────────────────────────────────────────────────────────────────
+
+/** News sentiment score per stock at the previous run */
+const lastSentiment = new Map<string, number>();
+
+let newsInterval: ReturnType<typeof setInterval> | null = null;
+let newsRunning = false;
+
+// ─── Helpers ────────────────────────────────────────────────────────────────
+
+/** Unix ms of the latest local midnight in `timeZone` */
+function startOfLocalDay(now: number, timeZone: string): number {
+  const local = localTime(now, timeZone);
+  return now - (now % 60_000) - (local.hour * 60 + local.minute) * 60_000;
+}
+
+function stockName(stockId: string): string {
+  return ATHEX_SYMBOLS[stockId]?.name ?? stockId.toUpperCase();
+}
+
+function isRecent(article: NewsArticle, now: number): boolean {
+  const age = now - new Date(article.publishedAt).getTime();
+  return age >= 0 && age <= MAX_ARTICLE_AGE_MS;
+}
+
+function headlineCandidate(article: NewsArticle, stockId: string | null): NewsCandidate {
+  const tone = article.sentiment ?? tagHeadlineSentiment(article.title);
+  const icon = tone === "bullish" ? "📈" : "📉";
+  return {
+    articleKey: newsArticleKey(article.title),
+    reason: stockId ? "stock" : "market",
+    stockId,
+    notification: {
+      title: stockId ? `${icon} ${stockName(stockId)} in the news` : `${icon} Market news`,
+      body: `${article.title} (${article.source})`,
+      data: { type: "market_news", url: article.url, ...(stockId && { stockId }) },
+    },
+    publishedAt: new Date(article.publishedAt).getTime(),
+  };
+}
+
+/** High-signal news about one stock, and a sentiment shift if there is one */
+async function stockCandidates(stockId: string, now: number): Promise<NewsCandidate[]> {
+  const news = await getStockNews(stockId);
+  const candidates = news.articles
+    .filter((a) => isRecent(a, now) && a.sentiment && a.sentiment !== "neutral")
+    .map((a) => headlineCandidate(a, stockId));
+
+  const { score } = news.sentiment;
+  const previous = lastSentiment.get(stockId);
+  lastSentiment.set(stockId, score);
+  if (
+    news.articles.length > 0 &&
+    previous !== undefined &&
+    Math.abs(score) >= STRONG_SENTIMENT &&
+    Math.abs(score - previous) >= SENTIMENT_SHIFT
+  ) {
+    const direction = score > 0 ? "bullish" : "bearish";
+    const lead = news.articles.find((a) => a.sentiment === direction) ?? news.articles[0];
+    const day = new Date(now).toLocaleDateString("en-CA", { timeZone: "Europe/Athens" });
+    candidates.unshift({
+      // One shift per stock, direction and day
+      articleKey: `sentiment:${stockId}:${direction}:${day}`,
+      reason: "sentiment",
+      stockId,
+      notification: {
+        title: `${direction === "bullish" ? "🟢" : "🔴"} News on ${stockName(stockId)} turned ${direction}`,
+        body: `${news.articles.filter((a) => a.sentiment === direction).length} of ${news.articles.length} recent headlines are ${direction}. Latest: ${lead.title}`,
+        data: { type: "market_news", stockId, sentiment: direction },
+      },
+      publishedAt: now,
+    });
+  }
+  return candidates;
+}
+
+/** Stocks each subscriber holds, watches or has an enabled price alert on */
+async function loadInterests(subscribers: NewsSubscriber[]): Promise<Map<number, Set<string>>> {
+  const store = await getAlertStore();
+  const watchlists = await getWatchlists(subscribers.map((s) => s.userId));
+  const interests = new Map<number, Set<string>>();
+  for (const { userId } of subscribers) {
+    const stocks = new Set(watchlists.get(userId) ?? []);
+    try {
+      const portfolio = await findPortfolio(userId);
+      for (const stockId of Object.keys(portfolio?.holdings ?? {})) stocks.add(stockId);
+    } catch (error) {
+      console.warn(`[NewsPush] Failed to load portfolio of user ${userId}:`, error);
+    }
+    for (const alert of await store.listAlerts(userId)) {
+      if (alert.enabled && alert.stockId) stocks.add(alert.stockId);
+    }
+    interests.set(userId, stocks);
+  }
+  return interests;
+}
+
+// ─── Job ────────────────────────────────────────────────────────────────────
+
+/**
+ * Poll the news feed and push high-signal news to every subscriber, up to
+ * their daily cap
+ */
+export async function pushMarketNews(now: number = Date.now()): Promise<NewsPushResult> {
+  const result: NewsPushResult = { pushed: 0, capped: 0 };
+  if (!(await acquireJobLease(NEWS_LEASE, Math.max(ENV.newsPushIntervalMs, 60_000) * 2, now))) return result;
+
+  const store = await getAlertStore();
+  const subscribers = await store.listNewsSubscribers();
+  if (subscribers.length === 0) return result;
+
+  const interests = await loadInterests(subscribers);
+  const byStock = new Map<string, NewsCandidate[]>();
+  for (const stockId of new Set(Array.from(interests.values()).flatMap((s) => Array.from(s)))) {
+    try {
+      byStock.set(stockId, await stockCandidates(stockId, now));
+    } catch (error) {
+      console.warn(`[NewsPush] Failed to load news for ${stockId}:`, error);
+    }
+  }
+  const market = (await getMarketNews())
+    .filter((a) => isRecent(a, now) && tagHeadlineSentiment(a.title) !== "neutral")
+    .map((a) => headlineCandidate(a, null));
+
+  for (const subscriber of subscribers) {
+    const candidates = [
+      ...Array.from(interests.get(subscriber.userId) ?? []).flatMap((stockId) => byStock.get(stockId) ?? []),
+      ...market,
+    ].sort((a, b) => REASON_PRIORITY[a.reason] - REASON_PRIORITY[b.reason] || b.publishedAt - a.publishedAt);
+
+    if (candidates.length === 0) continue;
+
+    let remaining =
+      MAX_NEWS_PUSHES_PER_DAY -
+      (await store.countNewsPushes(subscriber.userId, startOfLocalDay(now, subscriber.preferences.timezone)));
+    const seen = new Set<string>();
+    for (const candidate of candidates) {
+      // The same story about two of the user's stocks, or about a stock and the market
+      if (seen.has(candidate.articleKey)) continue;
+      seen.add(candidate.articleKey);
+      if (remaining <= 0) {
+        result.capped++;
+        break;
+      }
+      const claimed = await store.claimNewsPush({
+        userId: subscriber.userId,
+        articleKey: candidate.articleKey,
+        stockId: candidate.stockId,
+        reason: candidate.reason,
+        title: candidate.notification.title,
+        pushedAt: now,
+      });
+      if (!claimed) continue;
+
+      await deliverNotification(
+        { userId: subscriber.userId },
+        subscriber.pushTokens,
+        subscriber.preferences,
+        "news",
+        candidate.notification,
+        now
+      );
+      result.pushed++;
+      remaining--;
+    }
+  }
+
+  if (result.pushed > 0) {
+    console.log(`[NewsPush] Run complete: ${result.pushed} pushed, ${result.capped} subscribers at the daily cap`);
+  }
+  return result;
+}
+
+/** Forget sentiment baselines (tests) */
+export function resetNewsSentiment(): void {
+  lastSentiment.clear();
+}
+
+// ─── Service Lifecycle ──────────────────────────────────────────────────────
+
+/**
+ * Run the job every ENV.newsPushIntervalMs, starting shortly after startup.
+ * Does nothing when the interval is 0.
+ */
+export function startNewsPushJob(): void {
+  if (newsInterval || ENV.newsPushIntervalMs <= 0) return;
+
+  console.log(`[NewsPush] Starting market news job (interval: ${Math.round(ENV.newsPushIntervalMs / 60_000)}m)`);
+  const run = async () => {
+    if (newsRunning) return;
+    newsRunning = true;
+    try {
+      await pushMarketNews();
+    } catch (error) {
+      console.warn("[NewsPush] Run failed:", error);
+    } finally {
+      newsRunning = false;
+    }
+  };
+
+  setTimeout(run, 60_000);
+  newsInterval = setInterval(run, ENV.newsPushIntervalMs);
+}
+
+export function stopNewsPushJob(): void {
+  if (newsInterval) {
+    clearInterval(newsInterval);
+    newsInterval = null;
+  }
+}
@@ -1,11 +1,15 @@
 /**
  * AGRX News Router
  *
- * tRPC router exposing live news and sentiment endpoints.
- * Uses Google News RSS (free) + OpenRouter for sentiment analysis.
+ * tRPC router exposing live news and sentiment endpoints, the daily
+ * sentiment history archived per stock, the AI daily market brief, and
+ * "why is it moving" explanations of sharp daily moves.
  */
 import { z } from "zod";
 import { publicProcedure, router } from "./_core/trpc";
+import { getDailyBrief } from "./dailyBriefService";
+import { getMoveExplanation } from "./moveExplainerService";
+import { getSentimentHistory } from "./newsArchiveService";
 import { getStockNews, getMarketNews, clearNewsCache } from "./newsService";
 
 export const newsRouter = router({
@@ -42,6 +46,54 @@ export const newsRouter = router({
     }
   }),
 
+  /**
+   * Daily news sentiment for a stock from `from` (Athens date) on, oldest
+   * first; days without news are absent
+   */
+  getSentimentHistory: publicProcedure
+    .input(z.object({ stockId: z.string(), from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/) }))
+    .query(async ({ input }) => {
+      try {
+        const days = await getSentimentHistory(input.stockId, input.from);
+        return { success: true as const, data: days };
+      } catch (error) {
+        console.error(`[NewsRouter] Failed to get sentiment history for ${input.stockId}:`, error);
+        return { success: false as const, error: "Failed to fetch sentiment history" };
+      }
+    }),
+
+  /**
+   * The AI daily market brief for `day` (Athens date), or the latest one;
+   * null until one has been written
+   */
+  getDailyBrief: publicProcedure
+    .input(z.object({ day: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional() }).optional())
+    .query(async ({ input }) => {
+      try {
+        const brief = await getDailyBrief(input?.day);
+        return { success: true as const, data: brief };
+      } catch (error) {
+        console.error("[NewsRouter] Failed to get daily brief:", error);
+        return { success: false as const, error: "Failed to fetch daily brief" };
+      }
+    }),
+
+  /**
+   * Why a stock is moving today, with the articles cited; null while its
+   * move is below the threshold
+   */
+  getMoveExplanation: publicProcedure
+    .input(z.object({ stockId: z.string() }))
+    .query(async ({ input }) => {
+      try {
+        const explanation = await getMoveExplanation(input.stockId);
+        return { success: true as const, data: explanation };
+      } catch (error) {
+        console.error(`[NewsRouter] Failed to explain the move of ${input.stockId}:`, error);
+        return { success: false as const, error: "Failed to explain the move" };
+      }
+    }),
+
   /**
    * Force refresh news cache
    */
@@ -1,10 +1,20 @@
 /**
  * AGRX News Service
  *
- * Fetches real-time stock news from Google News RSS (free, no API key)
- * and computes sentiment scores via OpenRouter LLM analysis.
- * Includes in-memory caching to avoid excessive requests.
+ * Serves stock and market news gathered by newsIngestion (Google News in
+ * English and Greek, ATHEX announcements and IR feeds) and labels each
+ * headline and the stock's overall sentiment with the shared LLM client
+ * (invokeLLM, strict JSON schema output), or with keywords when no LLM is
+ * configured or its answer is unusable. The model, latency and token usage
+ * of each analysis are kept for the admin dashboard. Includes in-memory
+ * caching to avoid excessive requests; every fetch is also archived
+ * (newsArchiveService) for the sentiment history.
  */
+import { z } from "zod";
+import { invokeLLM, isLLMConfigured, type InvokeResult, type JsonSchema } from "./_core/llm";
+import { archiveStockNews } from "./newsArchiveService";
+import { clearIngestionCache, ingestMarketNews, ingestStockNews } from "./newsIngestion";
+import { ATHEX_SYMBOLS } from "./stockService";
 
 // ─── Types ──────────────────────────────────────────────────────────────────
 
@@ -15,6 +25,13 @@ export interface NewsArticle {
   publishedAt: string;      // ISO date string
   relativeTime: string;     // e.g. "2h ago", "3d ago"
   sentiment?: "bullish" | "bearish" | "neutral";
+  language?: "en" | "el";
+  /** Press coverage, an ATHEX regulatory announcement, or a company IR release */
+  kind?: "news" | "announcement" | "ir";
+  /** Stocks the headline mentions */
+  stockIds?: string[];
+  /** Other sources that carried the same story */
+  alsoReportedBy?: string[];
 }
 
 export interface StockNews {
@@ -27,51 +44,31 @@ export interface StockNews {
     bearishPercent: number;  // 0-100
     neutralPercent: number;  // 0-100
   };
+  /** How the sentiment was computed */
+  analysis: SentimentAnalysis;
   lastUpdated: number;
 }
 
-// ─── Stock Name Mapping (for search queries) ────────────────────────────────
-
-const STOCK_SEARCH_TERMS: Record<string, string> = {
-  eee: "Coca-Cola HBC Greece stock",
-  eurob: "Eurobank Greece stock",
-  ete: "National Bank Greece stock",
-  tpeir: "Piraeus Bank Greece stock",
-  alpha: "Alpha Bank Greece stock",
-  ppc: "Public Power Corporation Greece",
-  hto: "OTE Hellenic Telecom stock",
-  opap: "OPAP Greece stock",
-  mtln: "Metlen Energy Metals Greece",
-  bochgr: "Bank of Cyprus stock",
-  cener: "Cenergy Holdings stock",
-  titc: "Titan Cement Greece stock",
-  moh: "Motor Oil Hellas stock",
-  gekterna: "GEK TERNA Greece stock",
-  aia: "Athens International Airport stock",
-  bela: "Jumbo SA Greece stock",
-  vio: "Viohalco stock",
-  elpe: "HELLENiQ Energy Greece stock",
-  prodea: "Prodea REIC Greece",
-  kare: "Karelia Tobacco Greece",
-  ppa: "Piraeus Port Authority stock",
-  eydap: "EYDAP Athens Water stock",
-  kri: "Kri-Kri Milk Greece stock",
-  admie: "ADMIE Holdings Greece",
-  lamda: "Lamda Development Greece",
-  aegn: "Aegean Airlines Greece stock",
-  terna: "TERNA Energy Greece",
-  foyrk: "Fourlis Holdings Greece",
-  ffgrp: "Frigoglass Greece stock",
-  quest: "Quest Holdings Greece",
-  intrk: "Intracom Holdings Greece",
-  avax: "AVAX Greece construction",
-  exae: "Athens Stock Exchange ATHEX",
-  opapr: "OPAP Greece gaming",
-  autohellas: "Autohellas Greece car rental",
-  plakr: "Plastika Kritis Greece",
-  plath: "Plastika Thrakis Greece",
-  olth: "Thessaloniki Port Authority",
-};
+/** One sentiment analysis: by the LLM, or by keywords without one */
+export interface SentimentAnalysis {
+  method: "llm" | "keywords";
+  /** Model that answered; null for keywords */
+  model: string | null;
+  latencyMs: number;
+  promptTokens: number;
+  completionTokens: number;
+  /** Why the LLM's answer wasn't used, if it was asked */
+  error: string | null;
+  /** Unix ms */
+  analyzedAt: number;
+}
+
+interface SentimentResult {
+  sentiment: StockNews["sentiment"];
+  /** One per headline, in order */
+  labels: NonNullable<NewsArticle["sentiment"]>[];
+  analysis: SentimentAnalysis;
+}
 
 // ─── Cache ──────────────────────────────────────────────────────────────────
 
@@ -84,185 +81,169 @@ const newsCache = new Map<string, CacheEntry>();
 const NEWS_CACHE_TTL = 15 * 60 * 1000; // 15 minutes
 const SENTIMENT_CACHE_TTL = 30 * 60 * 1000; // 30 minutes for sentiment
 
-const sentimentCache = new Map<string, { sentiment: StockNews["sentiment"]; timestamp: number }>();
+const sentimentCache = new Map<string, { result: SentimentResult; headlines: string[]; timestamp: number }>();
+
+/** Latest analyses, newest first, for the admin dashboard */
+const recentAnalyses: (SentimentAnalysis & { stockId: string })[] = [];
+const MAX_RECENT_ANALYSES = 50;
 
 // General market news cache
 let marketNewsCache: { articles: NewsArticle[]; timestamp: number } | null = null;
 const MARKET_NEWS_CACHE_TTL = 10 * 60 * 1000; // 10 minutes
 
-// ─── Google News RSS Parser ─────────────────────────────────────────────────
-
-function parseRelativeTime(dateStr: string): string {
-  try {
-    const date = new Date(dateStr);
-    const now = new Date();
-    const diffMs = now.getTime() - date.getTime();
-    const diffMins = Math.floor(diffMs / 60000);
-    const diffHours = Math.floor(diffMs / 3600000);
-    const diffDays = Math.floor(diffMs / 86400000);
-
-    if (diffMins < 60) return `${Math.max(1, diffMins)}m ago`;
-    if (diffHours < 24) return `${diffHours}h ago`;
-    if (diffDays < 7) return `${diffDays}d ago`;
-    if (diffDays < 30) return `${Math.floor(diffDays / 7)}w ago`;
-    return `${Math.floor(diffDays / 30)}mo ago`;
-  } catch {
-    return "recently";
-  }
-}
-
-function parseRSSXml(xml: string): NewsArticle[] {
-  const articles: NewsArticle[] = [];
-
-  // Simple XML parsing without external dependencies
-  const itemRegex = /<item>([\s\S]*?)<\/item>/g;
-  let match;
-
-  while ((match = itemRegex.exec(xml)) !== null) {
-    const itemXml = match[1];
-
-    const titleMatch = itemXml.match(/<title><!\[CDATA\[([\s\S]*?)\]\]>|<title>([\s\S]*?)<\/title>/);
-    const linkMatch = itemXml.match(/<link>([\s\S]*?)<\/link>/);
-    const pubDateMatch = itemXml.match(/<pubDate>([\s\S]*?)<\/pubDate>/);
-    const sourceMatch = itemXml.match(/<source[^>]*>([\s\S]*?)<\/source>/);
-
-    const rawTitle = (titleMatch?.[1] || titleMatch?.[2] || "").trim();
-    // Google News often appends " - Source Name" to titles
-    const dashIdx = rawTitle.lastIndexOf(" - ");
-    const title = dashIdx > 0 ? rawTitle.substring(0, dashIdx).trim() : rawTitle;
-    const fallbackSource = dashIdx > 0 ? rawTitle.substring(dashIdx + 3).trim() : "";
-
-    const url = (linkMatch?.[1] || "").trim();
-    const publishedAt = (pubDateMatch?.[1] || "").trim();
-    const source = (sourceMatch?.[1] || fallbackSource || "News").trim();
-
-    if (title && url) {
-      articles.push({
-        title,
-        source,
-        url,
-        publishedAt: publishedAt ? new Date(publishedAt).toISOString() : new Date().toISOString(),
-        relativeTime: publishedAt ? parseRelativeTime(publishedAt) : "recently",
-      });
-    }
-  }
-
-  return articles;
-}
-
-async function fetchGoogleNewsRSS(query: string, maxResults: number = 10): Promise<NewsArticle[]> {
-  try {
-    const encodedQuery = encodeURIComponent(query);
-    const url = `https://news.google.com/rss/search?q=${encodedQuery}&hl=en&gl=GR&ceid=GR:en`;
-
-    const response = await fetch(url, {
-      headers: {
-        "User-Agent": "Mozilla/5.0 (compatible; AGRX/1.0)",
+// ─── Sentiment Analysis via LLM ─────────────────────────────────────────────
+
+const SENTIMENT_LABELS = ["bullish", "bearish", "neutral"] as const;
+
+/** Output the model must return; strict, so every field is always present */
+const SENTIMENT_SCHEMA: JsonSchema = {
+  name: "headline_sentiment",
+  strict: true,
+  schema: {
+    type: "object",
+    properties: {
+      labels: {
+        type: "array",
+        description: "One label per headline, in the order given",
+        items: { type: "string", enum: [...SENTIMENT_LABELS] },
       },
-      signal: AbortSignal.timeout(10000),
-    });
-
-    if (!response.ok) {
-      console.warn(`[NewsService] Google News RSS returned ${response.status} for query: ${query}`);
-      return [];
-    }
-
-    const xml = await response.text();
-    const articles = parseRSSXml(xml);
+      score: {
+        type: "number",
+        description: "Overall sentiment for the stock, from -1.0 (very bearish) to 1.0 (very bullish)",
+      },
+    },
+    required: ["labels", "score"],
+    additionalProperties: false,
+  },
+};
 
-    return articles.slice(0, maxResults);
-  } catch (error) {
-    console.warn(`[NewsService] Failed to fetch Google News RSS for: ${query}`, error);
-    return [];
+const sentimentResponseSchema = z
+  .object({
+    labels: z.array(z.enum(SENTIMENT_LABELS)),
+    score: z.number().min(-1).max(1),
+  })
+  .strict();
+
+function recordAnalysis(stockId: string, analysis: SentimentAnalysis): void {
+  recentAnalyses.unshift({ stockId, ...analysis });
+  recentAnalyses.splice(MAX_RECENT_ANALYSES);
+  if (analysis.method === "llm") {
+    console.log(
+      `[NewsService] Sentiment for ${stockId}: ${analysis.model}, ${analysis.latencyMs}ms, ${analysis.promptTokens}+${analysis.completionTokens} tokens`
+    );
   }
 }
 
-// ─── Sentiment Analysis via OpenRouter ──────────────────────────────────────
-
+/**
+ * Overall sentiment and one label per headline. Uses the LLM when one is
+ * configured and falls back to keywords when it isn't, fails, or answers
+ * outside the schema.
+ */
 async function analyzeSentiment(
   stockId: string,
   stockName: string,
   headlines: string[]
-): Promise<StockNews["sentiment"]> {
-  // Check sentiment cache first
+): Promise<SentimentResult> {
+  // Check sentiment cache first; labels only fit the headlines they were made for
   const cached = sentimentCache.get(stockId);
-  if (cached && Date.now() - cached.timestamp < SENTIMENT_CACHE_TTL) {
-    return cached.sentiment;
+  if (
+    cached &&
+    Date.now() - cached.timestamp < SENTIMENT_CACHE_TTL &&
+    cached.headlines.join("\n") === headlines.join("\n")
+  ) {
+    return cached.result;
   }
 
-  const apiKey = process.env.OPENROUTER_API_KEY;
-  if (!apiKey || headlines.length === 0) {
-    return computeFallbackSentiment(headlines);
-  }
+  const startedAt = Date.now();
+  const fallback = (error: string | null): SentimentResult => {
+    const analysis: SentimentAnalysis = {
+      method: "keywords",
+      model: null,
+      latencyMs: Date.now() - startedAt,
+      promptTokens: 0,
+      completionTokens: 0,
+      error,
+      analyzedAt: Date.now(),
+    };
+    recordAnalysis(stockId, analysis);
+    return {
+      sentiment: computeFallbackSentiment(headlines),
+      labels: headlines.map(tagHeadlineSentiment),
+      analysis,
+    };
+  };
+
+  if (headlines.length === 0) return fallback(null);
+  if (!isLLMConfigured()) return fallback(null);
 
+  let response: InvokeResult;
   try {
-    const prompt = `Analyze the sentiment of these news headlines about ${stockName} (Greek stock market). For each headline, classify as bullish, bearish, or neutral. Then provide an overall sentiment score.
+    response = await invokeLLM({
+      messages: [
+        {
+          role: "system",
+          content:
+            "You classify news headlines about stocks listed on the Athens Stock Exchange (ATHEX) by their likely effect on the stock price. Headlines may be in English or Greek.",
+        },
+        {
+          role: "user",
+          content: `Label each headline about ${stockName} as bullish, bearish or neutral, then give an overall sentiment score.
 
 Headlines:
-${headlines.map((h, i) => `${i + 1}. ${h}`).join("\n")}
-
-Respond ONLY with valid JSON in this exact format, no other text:
-{"bullish": <count>, "bearish": <count>, "neutral": <count>, "score": <number from -1.0 to 1.0>}`;
-
-    const response = await fetch("https://openrouter.ai/api/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        "Authorization": `Bearer ${apiKey}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: "google/gemini-2.0-flash-001",
-        messages: [{ role: "user", content: prompt }],
-        max_tokens: 100,
-        temperature: 0.1,
-      }),
-      signal: AbortSignal.timeout(15000),
+${headlines.map((h, i) => `${i + 1}. ${h}`).join("\n")}`,
+        },
+      ],
+      responseFormat: { type: "json_schema", json_schema: SENTIMENT_SCHEMA },
     });
-
-    if (!response.ok) {
-      console.warn(`[NewsService] OpenRouter returned ${response.status}`);
-      return computeFallbackSentiment(headlines);
-    }
-
-    const data = await response.json() as {
-      choices?: Array<{ message?: { content?: string } }>;
-    };
-    const content = data.choices?.[0]?.message?.content?.trim() || "";
-
-    // Extract JSON from response (handle markdown code blocks)
-    const jsonMatch = content.match(/\{[\s\S]*?\}/);
-    if (!jsonMatch) {
-      return computeFallbackSentiment(headlines);
-    }
-
-    const parsed = JSON.parse(jsonMatch[0]) as {
-      bullish?: number;
-      bearish?: number;
-      neutral?: number;
-      score?: number;
-    };
-    const total = (parsed.bullish || 0) + (parsed.bearish || 0) + (parsed.neutral || 0);
-
-    const sentiment: StockNews["sentiment"] = {
-      score: Math.max(-1, Math.min(1, parsed.score || 0)),
-      label: (parsed.score || 0) > 0.15 ? "Bullish" : (parsed.score || 0) < -0.15 ? "Bearish" : "Neutral",
-      bullishPercent: total > 0 ? Math.round(((parsed.bullish || 0) / total) * 100) : 33,
-      bearishPercent: total > 0 ? Math.round(((parsed.bearish || 0) / total) * 100) : 33,
-      neutralPercent: total > 0 ? Math.round(((parsed.neutral || 0) / total) * 100) : 34,
-    };
-
-    // Cache the result
-    sentimentCache.set(stockId, { sentiment, timestamp: Date.now() });
-
-    return sentiment;
   } catch (error) {
     console.warn(`[NewsService] Sentiment analysis failed for ${stockId}:`, error);
-    return computeFallbackSentiment(headlines);
+    return fallback(error instanceof Error ? error.message : String(error));
+  }
+
+  const content = response.choices?.[0]?.message?.content;
+  let parsed: z.infer<typeof sentimentResponseSchema>;
+  try {
+    parsed = sentimentResponseSchema.parse(JSON.parse(typeof content === "string" ? content : ""));
+  } catch {
+    console.warn(`[NewsService] Sentiment for ${stockId} didn't match the schema`);
+    return fallback("Response didn't match the schema");
   }
+  if (parsed.labels.length !== headlines.length) {
+    console.warn(`[NewsService] Sentiment for ${stockId} labeled ${parsed.labels.length} of ${headlines.length} headlines`);
+    return fallback("Labels didn't match the headlines");
+  }
+
+  const count = (label: (typeof SENTIMENT_LABELS)[number]) => parsed.labels.filter((l) => l === label).length;
+  const bullishPercent = Math.round((count("bullish") / headlines.length) * 100);
+  const bearishPercent = Math.round((count("bearish") / headlines.length) * 100);
+  const analysis: SentimentAnalysis = {
+    method: "llm",
+    model: response.model,
+    latencyMs: Date.now() - startedAt,
+    promptTokens: response.usage?.prompt_tokens ?? 0,
+    completionTokens: response.usage?.completion_tokens ?? 0,
+    error: null,
+    analyzedAt: Date.now(),
+  };
+  recordAnalysis(stockId, analysis);
+
+  const result: SentimentResult = {
+    sentiment: {
+      score: parsed.score,
+      label: parsed.score > 0.15 ? "Bullish" : parsed.score < -0.15 ? "Bearish" : "Neutral",
+      bullishPercent,
+      bearishPercent,
+      neutralPercent: 100 - bullishPercent - bearishPercent,
+    },
+    labels: parsed.labels,
+    analysis,
+  };
+  sentimentCache.set(stockId, { result, headlines, timestamp: Date.now() });
+  return result;
 }
 
 /**
- * Keyword-based fallback sentiment when OpenRouter is unavailable.
+ * Keyword-based fallback sentiment when the LLM is unavailable.
  * Scans headlines for bullish/bearish signal words.
  */
 function computeFallbackSentiment(headlines: string[]): StockNews["sentiment"] {
@@ -305,6 +286,21 @@ function computeFallbackSentiment(headlines: string[]): StockNews["sentiment"] {
 
 // ─── Public API ─────────────────────────────────────────────────────────────
 
+/**
+ * Keyword-based tone of a single headline; used to tag articles and by the
+ * market news push job.
+ */
+export function tagHeadlineSentiment(headline: string): NonNullable<NewsArticle["sentiment"]> {
+  const lower = headline.toLowerCase();
+  const bullishWords = ["surge", "soar", "rally", "gain", "rise", "jump", "boost", "record", "high", "profit", "growth", "upgrade", "buy", "beat", "strong", "positive", "expand", "dividend"];
+  const bearishWords = ["fall", "drop", "decline", "loss", "plunge", "crash", "slump", "cut", "low", "downgrade", "sell", "miss", "weak", "negative", "risk", "debt", "lawsuit"];
+
+  const bScore = bullishWords.filter((w) => lower.includes(w)).length;
+  const sScore = bearishWords.filter((w) => lower.includes(w)).length;
+
+  return bScore > sScore ? "bullish" : sScore > bScore ? "bearish" : "neutral";
+}
+
 /**
  * Get news and sentiment for a specific stock.
  */
@@ -315,45 +311,37 @@ export async function getStockNews(stockId: string): Promise<StockNews> {
     return cached.data;
   }
 
-  // Build search query
-  const searchTerm = STOCK_SEARCH_TERMS[stockId];
-  const query = searchTerm || `${stockId} Greece stock`;
-
-  // Fetch news
-  const articles = await fetchGoogleNewsRSS(query, 10);
+  // Fetch news from every source
+  const articles = await ingestStockNews(stockId, 10);
 
   // Analyze sentiment from headlines
-  const stockName = searchTerm?.replace(/ stock$| Greece.*$/, "") || stockId;
-  const sentiment = await analyzeSentiment(
+  const stockName = ATHEX_SYMBOLS[stockId]?.name ?? stockId.toUpperCase();
+  const { sentiment, labels, analysis } = await analyzeSentiment(
     stockId,
     stockName,
     articles.map((a) => a.title)
   );
 
-  // Tag individual articles with sentiment (keyword-based, fast)
-  const taggedArticles = articles.map((article) => {
-    const lower = article.title.toLowerCase();
-    const bullishWords = ["surge", "soar", "rally", "gain", "rise", "jump", "boost", "record", "high", "profit", "growth", "upgrade", "buy", "beat", "strong", "positive", "expand", "dividend"];
-    const bearishWords = ["fall", "drop", "decline", "loss", "plunge", "crash", "slump", "cut", "low", "downgrade", "sell", "miss", "weak", "negative", "risk", "debt", "lawsuit"];
-
-    const bScore = bullishWords.filter((w) => lower.includes(w)).length;
-    const sScore = bearishWords.filter((w) => lower.includes(w)).length;
-
-    return {
-      ...article,
-      sentiment: bScore > sScore ? "bullish" as const : sScore > bScore ? "bearish" as const : "neutral" as const,
-    };
-  });
+  const taggedArticles = articles.map((article, i) => ({
+    ...article,
+    sentiment: labels[i],
+  }));
 
   const result: StockNews = {
     stockId,
     articles: taggedArticles,
     sentiment,
+    analysis,
     lastUpdated: Date.now(),
   };
 
-  // Cache
+  // Cache, and archive for the sentiment history
   newsCache.set(stockId, { data: result, timestamp: Date.now() });
+  try {
+    await archiveStockNews(stockId, taggedArticles);
+  } catch (error) {
+    console.warn(`[NewsService] Failed to archive news for ${stockId}:`, error);
+  }
 
   return result;
 }
@@ -366,35 +354,17 @@ export async function getMarketNews(): Promise<NewsArticle[]> {
     return marketNewsCache.articles;
   }
 
-  const queries = [
-    "Athens stock exchange ATHEX",
-    "Greek stock market",
-  ];
-
-  const allArticles: NewsArticle[] = [];
-  for (const q of queries) {
-    const articles = await fetchGoogleNewsRSS(q, 8);
-    allArticles.push(...articles);
-  }
-
-  // Deduplicate by title similarity
-  const seen = new Set<string>();
-  const unique = allArticles.filter((a) => {
-    const key = a.title.toLowerCase().substring(0, 50);
-    if (seen.has(key)) return false;
-    seen.add(key);
-    return true;
-  });
-
-  // Sort by date (newest first)
-  unique.sort((a, b) => new Date(b.publishedAt).getTime() - new Date(a.publishedAt).getTime());
-
-  const result = unique.slice(0, 15);
+  const result = await ingestMarketNews(15);
   marketNewsCache = { articles: result, timestamp: Date.now() };
 
   return result;
 }
 
+/** Latest sentiment analyses, newest first */
+export function getSentimentAnalyses(limit: number = MAX_RECENT_ANALYSES): (SentimentAnalysis & { stockId: string })[] {
+  return recentAnalyses.slice(0, limit);
+}
+
 /**
  * Clear all news caches.
  */
@@ -402,4 +372,5 @@ export function clearNewsCache(): void {
   newsCache.clear();
   sentimentCache.clear();
   marketNewsCache = null;
+  clearIngestionCache();
 }
@@ -0,0 +1,82 @@
+/**
+ * AGRX Notification Inbox Service
+ *
+ * Server-side record of every notification sent to an account, behind the
+ * app's notification history. deliverNotification() (priceAlertService)
+ * files each notification here before it is pushed or held, so the inbox
+ * also has what arrived while the app was uninstalled or on another
+ * device. Read state is kept here too and shared by all of the user's
+ * devices.
+ *
+ * The inbox is paged newest first by ID: a page's nextCursor is passed back
+ * as `cursor` for the page after it.
+ */
+import type { NotificationCategory } from "../shared/notification-schedule.js";
+import { getAlertStore, type InboxNotification } from "./alertStore";
+import type { NotificationPayload } from "./priceAlertService";
+
+// ─── Types ──────────────────────────────────────────────────────────────────
+
+export interface InboxPage {
+  items: InboxNotification[];
+  /** Cursor for the next page; null on the last one */
+  nextCursor: number | null;
+  unreadCount: number;
+}
+
+// ─── Constants ──────────────────────────────────────────────────────────────
+
+export const INBOX_PAGE_SIZE = 30;
+export const MAX_INBOX_PAGE_SIZE = 100;
+
+// ─── Public API ─────────────────────────────────────────────────────────────
+
+/** File a notification in the user's inbox; returns its inbox ID */
+export async function recordInboxNotification(
+  userId: number,
+  notificationId: string,
+  category: NotificationCategory,
+  notification: NotificationPayload,
+  now: number = Date.now()
+): Promise<number> {
+  const store = await getAlertStore();
+  return store.addInboxNotification({
+    userId,
+    notificationId,
+    category,
+    title: notification.title,
+    body: notification.body,
+    data: notification.data ?? {},
+    createdAt: now,
+  });
+}
+
+export async function getInbox(
+  userId: number,
+  cursor: number | null = null,
+  limit: number = INBOX_PAGE_SIZE
+): Promise<InboxPage> {
+  const store = await getAlertStore();
+  // One extra row tells whether another page follows
+  const rows = await store.listInbox(userId, cursor, limit + 1);
+  const items = rows.slice(0, limit);
+  return {
+    items,
+    nextCursor: rows.length > limit ? items[items.length - 1].id : null,
+    unreadCount: await store.countUnreadInbox(userId),
+  };
+}
+
+/** Mark notifications read (or unread); all of the user's when `ids` is null */
+export async function markInboxRead(userId: number, ids: number[] | null, read = true): Promise<number> {
+  const store = await getAlertStore();
+  await store.setInboxRead(userId, ids, read);
+  return store.countUnreadInbox(userId);
+}
+
+/** Delete notifications; all of the user's when `ids` is null */
+export async function removeInboxNotifications(userId: number, ids: number[] | null): Promise<number> {
+  const store = await getAlertStore();
+  await store.deleteInboxNotifications(userId, ids);
+  return store.countUnreadInbox(userId);
+}
@@ -3,16 +3,30 @@
  *
  * tRPC router for push notification management:
  * - Device registration (push token)
- * - Price alert CRUD
- * - Notification preference management
+ * - Price alert CRUD (simple thresholds, AND/OR rules, portfolio and
+ *   watchlist alerts)
+ * - Notification preference management (timezone, quiet hours, delivery
+ *   window per category, morning digest)
+ * - Trigger history, each alert's audit trail (checks, firings, delivery)
+ *   and backtests of unsaved stock alerts
+ * - Notification inbox: paged, with read state shared across devices
  * - Service stats
+ *
+ * Devices register with a client-generated deviceId and may do so signed
+ * out. Alerts, preferences and history belong to the signed-in account
+ * (protectedProcedure) and are shared by all of its devices; signing in on
+ * an anonymous device claims it. Everything is persisted by the alert store
+ * (see alertStore).
  */
 import { z } from "zod";
-import { publicProcedure, router } from "./_core/trpc";
+import { MAX_RULE_CONDITIONS, MAX_RULE_PERIOD, validateRule, type AlertRule } from "../shared/alert-rules.js";
+import { isValidTimeZone, type DeliveryWindow } from "../shared/notification-schedule.js";
+import { protectedProcedure, publicProcedure, router } from "./_core/trpc";
 import {
   registerDevice,
   unregisterDevice,
-  getDevice,
+  claimDevice,
+  getDevices,
   addAlert,
   removeAlert,
   toggleAlert,
@@ -20,46 +34,182 @@ import {
   getAlertsForStock,
   updatePreferences,
   getPreferences,
+  getTriggerHistory,
+  getAlertAudit,
+  backtestAlert,
   getServiceStats,
   startPriceAlertService,
   isServiceRunning,
+  SCOPE_ALERT_TYPES,
+  type AlertScope,
   type AlertType,
 } from "./priceAlertService";
+import {
+  getInbox,
+  markInboxRead,
+  removeInboxNotifications,
+  INBOX_PAGE_SIZE,
+  MAX_INBOX_PAGE_SIZE,
+} from "./notificationInboxService";
 
 // ─── Input Schemas ──────────────────────────────────────────────────────────
 
+// Lengths match the push_devices / price_alerts columns
+const deviceIdSchema = z.string().min(1).max(128);
+const alertIdSchema = z.string().min(1).max(64);
+
 const registerDeviceSchema = z.object({
-  deviceId: z.string().min(1),
-  pushToken: z.string().min(1),
+  deviceId: deviceIdSchema,
+  pushToken: z.string().min(1).max(255),
   platform: z.enum(["ios", "android", "web"]),
 });
 
-const addAlertSchema = z.object({
-  deviceId: z.string().min(1),
-  stockId: z.string().min(1),
-  stockName: z.string().min(1),
-  type: z.enum(["above", "below", "percent_change"]) as z.ZodType<AlertType>,
-  threshold: z.number().positive(),
-  enabled: z.boolean().default(true),
+const periodSchema = z.number().int().min(1).max(MAX_RULE_PERIOD);
+
+const ruleSeriesSchema = z.discriminatedUnion("kind", [
+  z.object({ kind: z.literal("price") }),
+  z.object({ kind: z.literal("sma"), period: periodSchema }),
+  z.object({ kind: z.literal("ema"), period: periodSchema }),
+  z.object({ kind: z.literal("rsi"), period: periodSchema }),
+  z.object({ kind: z.literal("volume") }),
+  z.object({ kind: z.literal("avg_volume"), period: periodSchema }),
+]);
+
+const ruleOperandSchema = z.union([ruleSeriesSchema, z.object({ kind: z.literal("value"), value: z.number() })]);
+
+const ruleConditionSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("compare"),
+    left: ruleSeriesSchema,
+    op: z.enum(["above", "below"]),
+    right: ruleOperandSchema,
+    multiplier: z.number().positive().max(100).optional(),
+  }),
+  z.object({
+    type: z.literal("cross"),
+    left: ruleSeriesSchema,
+    direction: z.enum(["above", "below"]),
+    right: ruleOperandSchema,
+  }),
+  z.object({ type: z.literal("change"), direction: z.enum(["up", "down", "either"]), percent: z.number().positive() }),
+  z.object({ type: z.literal("range_break"), direction: z.enum(["high", "low"]), weeks: z.number().int().min(1).max(80) }),
+  z.object({ type: z.literal("gap"), direction: z.enum(["up", "down"]), percent: z.number().positive() }),
+]);
+
+const alertRuleSchema = z.object({
+  match: z.enum(["all", "any"]),
+  conditions: z.array(ruleConditionSchema).min(1).max(MAX_RULE_CONDITIONS),
+}) satisfies z.ZodType<AlertRule>;
+
+const addAlertSchema = z
+  .object({
+    scope: z.enum(["stock", "portfolio", "watchlist"]).default("stock"),
+    /** Required for stock alerts */
+    stockId: z.string().min(1).max(32).optional(),
+    /** Required for stock alerts */
+    stockName: z.string().min(1).max(255).optional(),
+    type: z.enum([
+      "above",
+      "below",
+      "percent_change",
+      "rule",
+      "pnl_gain",
+      "pnl_loss",
+      "holding_drop",
+    ]) as z.ZodType<AlertType>,
+    /** Required except for rule and watchlist alerts */
+    threshold: z.number().positive().optional(),
+    /** Required for rule */
+    rule: alertRuleSchema.optional(),
+    enabled: z.boolean().default(true),
+  })
+  .superRefine((input, ctx) => {
+    if (!SCOPE_ALERT_TYPES[input.scope].includes(input.type)) {
+      ctx.addIssue({ code: "custom", path: ["type"], message: `${input.type} alerts can't watch a ${input.scope}` });
+    } else if (input.scope === "stock" && (!input.stockId || !input.stockName)) {
+      ctx.addIssue({ code: "custom", path: ["stockId"], message: "Stock alerts need a stock" });
+    } else if (input.type === "rule") {
+      const error = input.rule ? validateRule(input.rule) : "A rule alert needs conditions";
+      if (error) ctx.addIssue({ code: "custom", path: ["rule"], message: error });
+    } else if (input.scope !== "watchlist" && input.threshold === undefined) {
+      ctx.addIssue({ code: "custom", path: ["threshold"], message: "Threshold is required" });
+    }
+  });
+
+/** Label stored as stockName for alerts that don't watch one stock */
+const SCOPE_LABELS: Record<AlertScope, string> = {
+  stock: "",
+  portfolio: "Portfolio",
+  watchlist: "Watchlist",
+};
+
+const alertIdInputSchema = z.object({
+  alertId: alertIdSchema,
 });
 
-const removeAlertSchema = z.object({
-  deviceId: z.string().min(1),
-  alertId: z.string().min(1),
+const getAlertsSchema = z
+  .object({
+    stockId: z.string().optional(),
+  })
+  .optional();
+
+const alertAuditSchema = z.object({
+  alertId: alertIdSchema,
+  limit: z.number().int().min(1).max(200).default(50),
 });
 
-const toggleAlertSchema = z.object({
-  deviceId: z.string().min(1),
-  alertId: z.string().min(1),
+const backtestAlertSchema = z
+  .object({
+    stockId: z.string().min(1).max(32),
+    type: z.enum(["above", "below", "percent_change", "rule"]),
+    /** Required except for rule */
+    threshold: z.number().positive().optional(),
+    /** Required for rule */
+    rule: alertRuleSchema.optional(),
+  })
+  .superRefine((input, ctx) => {
+    if (input.type === "rule") {
+      const error = input.rule ? validateRule(input.rule) : "A rule alert needs conditions";
+      if (error) ctx.addIssue({ code: "custom", path: ["rule"], message: error });
+    } else if (input.threshold === undefined) {
+      ctx.addIssue({ code: "custom", path: ["threshold"], message: "Threshold is required" });
+    }
+  });
+
+const triggerHistorySchema = z
+  .object({
+    limit: z.number().int().min(1).max(200).default(50),
+  })
+  .optional();
+
+const inboxIdsSchema = z.array(z.number().int().positive()).min(1).max(MAX_INBOX_PAGE_SIZE);
+
+// Not optional: useInfiniteQuery passes the cursor inside the input
+const getInboxSchema = z.object({
+  cursor: z.number().int().positive().nullish(),
+  limit: z.number().int().min(1).max(MAX_INBOX_PAGE_SIZE).default(INBOX_PAGE_SIZE),
 });
 
-const getAlertsSchema = z.object({
-  deviceId: z.string().min(1),
-  stockId: z.string().optional(),
+const markInboxReadSchema = z.object({
+  /** Omit to mark the whole inbox */
+  ids: inboxIdsSchema.optional(),
+  read: z.boolean().default(true),
 });
 
+const removeInboxSchema = z.object({
+  /** Omit to clear the whole inbox */
+  ids: inboxIdsSchema.optional(),
+});
+
+const hourSchema = z.number().int().min(0).max(23);
+
+const deliveryWindowSchema = z.object({
+  startHour: hourSchema,
+  endHour: hourSchema,
+  weekends: z.boolean(),
+}) satisfies z.ZodType<DeliveryWindow>;
+
 const updatePreferencesSchema = z.object({
-  deviceId: z.string().min(1),
   preferences: z.object({
     priceAlerts: z.boolean().optional(),
     dailyChallenge: z.boolean().optional(),
@@ -68,6 +218,17 @@ const updatePreferencesSchema = z.object({
     percentThreshold: z.number().min(0.1).max(100).optional(),
     quietHoursStart: z.number().min(0).max(23).nullable().optional(),
     quietHoursEnd: z.number().min(0).max(23).nullable().optional(),
+    timezone: z.string().max(64).refine(isValidTimeZone, "Unknown timezone").optional(),
+    schedules: z
+      .object({
+        alerts: deliveryWindowSchema.optional(),
+        news: deliveryWindowSchema.optional(),
+        challenge: deliveryWindowSchema.optional(),
+        social: deliveryWindowSchema.optional(),
+      })
+      .optional(),
+    heldDelivery: z.enum(["when_quiet_ends", "morning_digest"]).optional(),
+    digestHour: hourSchema.optional(),
   }),
 });
 
@@ -75,57 +236,92 @@ const updatePreferencesSchema = z.object({
 
 export const notificationRouter = router({
   /**
-   * Register a device for push notifications
+   * Register a device for push notifications. Signed-in callers link the
+   * device to their account.
    */
   registerDevice: publicProcedure
     .input(registerDeviceSchema)
-    .mutation(({ input }) => {
-      const device = registerDevice(input.deviceId, input.pushToken, input.platform);
+    .mutation(async ({ ctx, input }) => {
+      const result = await registerDevice(
+        input.deviceId,
+        input.pushToken,
+        input.platform,
+        ctx.user?.id ?? null
+      );
+      if (!result.success) {
+        return { success: false as const, error: result.error };
+      }
 
       // Auto-start the price alert service when first device registers
       if (!isServiceRunning()) {
         startPriceAlertService();
       }
 
+      const { device } = result;
       return {
         success: true as const,
         data: {
           deviceId: device.deviceId,
           platform: device.platform,
-          alertCount: device.alerts.length,
-          preferences: device.preferences,
+          linked: device.userId !== null,
         },
       };
     }),
 
   /**
-   * Unregister a device
+   * Unregister a device (anonymous devices, or the caller's own)
    */
   unregisterDevice: publicProcedure
-    .input(z.object({ deviceId: z.string().min(1) }))
-    .mutation(({ input }) => {
-      const deleted = unregisterDevice(input.deviceId);
+    .input(z.object({ deviceId: deviceIdSchema }))
+    .mutation(async ({ ctx, input }) => {
+      const deleted = await unregisterDevice(input.deviceId, ctx.user?.id ?? null);
       return { success: deleted };
     }),
 
+  /**
+   * Link an anonymous device to the signed-in account, moving its alerts
+   */
+  claimDevice: protectedProcedure
+    .input(z.object({ deviceId: deviceIdSchema }))
+    .mutation(async ({ ctx, input }) => {
+      const result = await claimDevice(input.deviceId, ctx.user.id);
+      if (!result.success) {
+        return { success: false as const, error: result.error };
+      }
+      return { success: true as const };
+    }),
+
+  /**
+   * Devices linked to the signed-in account
+   */
+  getDevices: protectedProcedure.query(async ({ ctx }) => {
+    const devices = await getDevices(ctx.user.id);
+    return {
+      success: true as const,
+      data: devices.map(({ deviceId, platform, lastSeen }) => ({ deviceId, platform, lastSeen })),
+    };
+  }),
+
   /**
    * Add a price alert
    */
-  addAlert: publicProcedure
+  addAlert: protectedProcedure
     .input(addAlertSchema)
-    .mutation(({ input }) => {
-      const alert = addAlert(input.deviceId, {
-        stockId: input.stockId,
-        stockName: input.stockName,
+    .mutation(async ({ ctx, input }) => {
+      const alert = await addAlert(ctx.user.id, {
+        scope: input.scope,
+        stockId: input.scope === "stock" ? input.stockId ?? null : null,
+        stockName: input.scope === "stock" ? input.stockName ?? "" : SCOPE_LABELS[input.scope],
         type: input.type,
-        threshold: input.threshold,
+        threshold: input.type === "rule" || input.scope === "watchlist" ? 0 : input.threshold ?? 0,
+        rule: input.type === "rule" ? input.rule ?? null : null,
         enabled: input.enabled,
       });
 
       if (!alert) {
         return {
           success: false as const,
-          error: "Failed to add alert. Device not registered or max alerts reached.",
+          error: "Failed to add alert. Max alerts reached.",
         };
       }
 
@@ -135,32 +331,32 @@ export const notificationRouter = router({
   /**
    * Remove a price alert
    */
-  removeAlert: publicProcedure
-    .input(removeAlertSchema)
-    .mutation(({ input }) => {
-      const removed = removeAlert(input.deviceId, input.alertId);
+  removeAlert: protectedProcedure
+    .input(alertIdInputSchema)
+    .mutation(async ({ ctx, input }) => {
+      const removed = await removeAlert(ctx.user.id, input.alertId);
       return { success: removed };
     }),
 
   /**
    * Toggle a price alert on/off
    */
-  toggleAlert: publicProcedure
-    .input(toggleAlertSchema)
-    .mutation(({ input }) => {
-      const toggled = toggleAlert(input.deviceId, input.alertId);
+  toggleAlert: protectedProcedure
+    .input(alertIdInputSchema)
+    .mutation(async ({ ctx, input }) => {
+      const toggled = await toggleAlert(ctx.user.id, input.alertId);
       return { success: toggled };
     }),
 
   /**
    * Get all alerts (optionally filtered by stock)
    */
-  getAlerts: publicProcedure
+  getAlerts: protectedProcedure
     .input(getAlertsSchema)
-    .query(({ input }) => {
-      const alerts = input.stockId
-        ? getAlertsForStock(input.deviceId, input.stockId)
-        : getAlerts(input.deviceId);
+    .query(async ({ ctx, input }) => {
+      const alerts = input?.stockId
+        ? await getAlertsForStock(ctx.user.id, input.stockId)
+        : await getAlerts(ctx.user.id);
 
       return { success: true as const, data: alerts };
     }),
@@ -168,38 +364,93 @@ export const notificationRouter = router({
   /**
    * Update notification preferences
    */
-  updatePreferences: publicProcedure
+  updatePreferences: protectedProcedure
     .input(updatePreferencesSchema)
-    .mutation(({ input }) => {
-      const prefs = updatePreferences(input.deviceId, input.preferences);
-
-      if (!prefs) {
-        return {
-          success: false as const,
-          error: "Device not registered.",
-        };
-      }
-
+    .mutation(async ({ ctx, input }) => {
+      const prefs = await updatePreferences(ctx.user.id, input.preferences);
       return { success: true as const, data: prefs };
     }),
 
   /**
    * Get notification preferences
    */
-  getPreferences: publicProcedure
-    .input(z.object({ deviceId: z.string().min(1) }))
-    .query(({ input }) => {
-      const prefs = getPreferences(input.deviceId);
-      return {
-        success: prefs !== null,
-        data: prefs,
-      };
+  getPreferences: protectedProcedure.query(async ({ ctx }) => {
+    const prefs = await getPreferences(ctx.user.id);
+    return { success: true as const, data: prefs };
+  }),
+
+  /**
+   * Get recent alert triggers, newest first
+   */
+  getTriggerHistory: protectedProcedure
+    .input(triggerHistorySchema)
+    .query(async ({ ctx, input }) => {
+      const triggers = await getTriggerHistory(ctx.user.id, input?.limit ?? 50);
+      return { success: true as const, data: triggers };
+    }),
+
+  /**
+   * Audit trail of one alert: recent firings with their push delivery, and
+   * recent check outcomes
+   */
+  getAlertAudit: protectedProcedure
+    .input(alertAuditSchema)
+    .query(async ({ ctx, input }) => {
+      const audit = await getAlertAudit(ctx.user.id, input.alertId, input.limit);
+      if (!audit) return { success: false as const, error: "Alert not found." };
+      return { success: true as const, data: audit };
+    }),
+
+  /**
+   * How often a stock alert would have fired over the last 3 months
+   */
+  backtestAlert: protectedProcedure
+    .input(backtestAlertSchema)
+    .query(async ({ input }) => {
+      const result = await backtestAlert({
+        stockId: input.stockId,
+        type: input.type,
+        threshold: input.type === "rule" ? 0 : input.threshold ?? 0,
+        rule: input.type === "rule" ? input.rule ?? null : null,
+      });
+      if (!result) return { success: false as const, error: "No price history for this stock yet." };
+      return { success: true as const, data: result };
+    }),
+
+  /**
+   * One page of the account's notification inbox, newest first
+   */
+  getInbox: protectedProcedure
+    .input(getInboxSchema)
+    .query(async ({ ctx, input }) => {
+      const page = await getInbox(ctx.user.id, input.cursor ?? null, input.limit);
+      return { success: true as const, data: page };
+    }),
+
+  /**
+   * Mark inbox notifications read or unread on every device
+   */
+  markInboxRead: protectedProcedure
+    .input(markInboxReadSchema)
+    .mutation(async ({ ctx, input }) => {
+      const unreadCount = await markInboxRead(ctx.user.id, input.ids ?? null, input.read);
+      return { success: true as const, data: { unreadCount } };
+    }),
+
+  /**
+   * Delete inbox notifications
+   */
+  removeInboxNotifications: protectedProcedure
+    .input(removeInboxSchema)
+    .mutation(async ({ ctx, input }) => {
+      const unreadCount = await removeInboxNotifications(ctx.user.id, input.ids ?? null);
+      return { success: true as const, data: { unreadCount } };
     }),
 
   /**
    * Get service stats (for debugging/admin)
    */
-  getStats: publicProcedure.query(() => {
-    return { success: true as const, data: getServiceStats() };
+  getStats: publicProcedure.query(async () => {
+    return { success: true as const, data: await getServiceStats() };
   }),
 });
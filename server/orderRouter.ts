@@ -0,0 +1,84 @@
+/**
+ * AGRX Order Router
+ *
+ * tRPC router for pending limit, stop and stop-limit orders on the
+ * signed-in user's demo portfolio. Orders are filled by the price alert
+ * service's check loop, so placing one makes sure that loop is running.
+ */
+import { z } from "zod";
+import { protectedProcedure, router } from "./_core/trpc";
+import { cancelOrder, listOrders, modifyOrder, placeOrder } from "./orderService";
+import { isServiceRunning, startPriceAlertService } from "./priceAlertService";
+
+const orderTermsSchema = z.object({
+  amount: z.number().positive(),
+  limitPrice: z.number().positive().nullish(),
+  stopPrice: z.number().positive().nullish(),
+  timeInForce: z.enum(["day", "gtc"]).default("gtc"),
+});
+
+const placeOrderSchema = orderTermsSchema.extend({
+  stockId: z.string().min(1),
+  side: z.enum(["buy", "sell"]),
+  orderType: z.enum(["limit", "stop", "stop_limit"]),
+});
+
+const modifyOrderSchema = orderTermsSchema.extend({
+  orderId: z.string().min(1),
+});
+
+export const orderRouter = router({
+  /**
+   * Open orders plus recently filled, cancelled, expired or rejected ones
+   */
+  list: protectedProcedure.query(async ({ ctx }) => {
+    const orders = await listOrders(ctx.user.id);
+    return { success: true as const, data: orders };
+  }),
+
+  /**
+   * Place a new pending order
+   */
+  place: protectedProcedure
+    .input(placeOrderSchema)
+    .mutation(async ({ ctx, input }) => {
+      const result = await placeOrder(ctx.user.id, input);
+      if (!result.success) {
+        return { success: false as const, error: result.error };
+      }
+
+      // Auto-start the check loop that fills orders
+      if (!isServiceRunning()) {
+        startPriceAlertService();
+      }
+
+      return { success: true as const, data: result.order };
+    }),
+
+  /**
+   * Change the amount, prices or time in force of an open order
+   */
+  modify: protectedProcedure
+    .input(modifyOrderSchema)
+    .mutation(async ({ ctx, input }) => {
+      const { orderId, ...changes } = input;
+      const result = await modifyOrder(ctx.user.id, orderId, changes);
+      if (!result.success) {
+        return { success: false as const, error: result.error };
+      }
+      return { success: true as const, data: result.order };
+    }),
+
+  /**
+   * Cancel an open order
+   */
+  cancel: protectedProcedure
+    .input(z.object({ orderId: z.string().min(1) }))
+    .mutation(async ({ ctx, input }) => {
+      const cancelled = await cancelOrder(ctx.user.id, input.orderId);
+      if (!cancelled) {
+        return { success: false as const, error: "Order not found or no longer open" };
+      }
+      return { success: true as const };
+    }),
+});
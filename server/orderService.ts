@@ -0,0 +1,466 @@
+/**
+ * AGRX Order Service
+ *
+ * Pending limit, stop and stop-limit orders for the signed-in demo portfolio.
+ *
+ * Architecture:
+ * - Orders live in the `orders` table with a fixed share quantity
+ * - checkOpenOrders() runs inside the price alert service's interval loop,
+ *   pricing every open order with one getMultipleQuotes call
+ * - A fill goes through fillPortfolioTrade, so it is recorded as a normal trade
+ * - Open orders reserve what they need (getOrderReservations): buys their
+ *   shares at the order price, sells their shares. Other orders and market
+ *   trades can't use it; cancelling or expiring an order releases it
+ * - Orders only fill during continuous trading and the closing auction
+ * - Day orders expire at the session close (shared market calendar);
+ *   GTC orders rest until cancelled
+ */
+import { and, desc, eq, inArray, ne } from "drizzle-orm";
+import { getMarketPhase, getNextClose } from "../shared/market-calendar.js";
+import { orders, holdings, portfolios, type OrderRow } from "../drizzle/schema";
+import {
+  ensurePortfolio,
+  fillPortfolioTrade,
+  getOrderReservations,
+  isQuoteFresh,
+  requireDb,
+  roundFinancial,
+  type Tx,
+} from "./portfolioService";
+import { getDb } from "./db";
+import { getMultipleQuotes, getStockQuote } from "./stockService";
+
+// ─── Types ──────────────────────────────────────────────────────────────────
+
+export type OrderSide = "buy" | "sell";
+export type OrderType = "limit" | "stop" | "stop_limit";
+export type TimeInForce = "day" | "gtc";
+export type OrderStatus = "open" | "filled" | "cancelled" | "expired" | "rejected";
+
+export interface PendingOrder {
+  id: string;
+  stockId: string;
+  ticker: string;
+  name: string;
+  side: OrderSide;
+  orderType: OrderType;
+  shares: number;
+  limitPrice: number | null;
+  stopPrice: number | null;
+  timeInForce: TimeInForce;
+  status: OrderStatus;
+  /** A stop_limit whose stop has been hit and now rests as a limit order */
+  stopTriggered: boolean;
+  statusReason: string | null;
+  tradeId: string | null;
+  expiresAt: number | null;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface OrderInput {
+  stockId: string;
+  side: OrderSide;
+  orderType: OrderType;
+  /** EUR notional at the order price — converted to shares at placement */
+  amount: number;
+  limitPrice?: number | null;
+  stopPrice?: number | null;
+  timeInForce: TimeInForce;
+}
+
+export type OrderResult =
+  | { success: true; order: PendingOrder }
+  | { success: false; error: string };
+
+export type OrderEvaluation =
+  | { action: "none" }
+  /** stop_limit stop was hit, but the limit is not yet marketable */
+  | { action: "trigger" }
+  | { action: "fill"; price: number };
+
+// ─── Constants ──────────────────────────────────────────────────────────────
+
+/** Maximum open orders per portfolio */
+const MAX_OPEN_ORDERS = 50;
+
+/** How many closed orders to return alongside open ones */
+const RECENT_CLOSED_LIMIT = 20;
+
+// ─── Helpers ────────────────────────────────────────────────────────────────
+
+function generateOrderId(): string {
+  return `order-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`;
+}
+
+function toPendingOrder(row: OrderRow): PendingOrder {
+  return {
+    id: row.id,
+    stockId: row.stockId,
+    ticker: row.ticker,
+    name: row.name,
+    side: row.side,
+    orderType: row.orderType,
+    shares: row.shares,
+    limitPrice: row.limitPrice,
+    stopPrice: row.stopPrice,
+    timeInForce: row.timeInForce,
+    status: row.status,
+    stopTriggered: row.stopTriggered,
+    statusReason: row.statusReason,
+    tradeId: row.tradeId,
+    expiresAt: row.expiresAt ? row.expiresAt.getTime() : null,
+    createdAt: row.createdAt.getTime(),
+    updatedAt: row.updatedAt.getTime(),
+  };
+}
+
+/** Check the prices an order type requires and return the price that sizes it */
+function validateOrderPrices(input: Pick<OrderInput, "orderType" | "limitPrice" | "stopPrice">): string | number {
+  const { orderType, limitPrice, stopPrice } = input;
+  if ((orderType === "limit" || orderType === "stop_limit") && !(limitPrice && limitPrice > 0)) {
+    return "A positive limit price is required";
+  }
+  if ((orderType === "stop" || orderType === "stop_limit") && !(stopPrice && stopPrice > 0)) {
+    return "A positive stop price is required";
+  }
+  return orderType === "stop" ? stopPrice! : limitPrice!;
+}
+
+// ─── Evaluation ─────────────────────────────────────────────────────────────
+
+/**
+ * Decide what a pending order should do at the current market price.
+ * Marketable orders fill at the quote, which is at or better than the limit.
+ */
+export function evaluateOrder(
+  order: Pick<PendingOrder, "side" | "orderType" | "limitPrice" | "stopPrice" | "stopTriggered">,
+  price: number,
+): OrderEvaluation {
+  const isBuy = order.side === "buy";
+  const stopHit = order.stopPrice != null && (isBuy ? price >= order.stopPrice : price <= order.stopPrice);
+  const limitOk = order.limitPrice != null && (isBuy ? price <= order.limitPrice : price >= order.limitPrice);
+
+  switch (order.orderType) {
+    case "limit":
+      return limitOk ? { action: "fill", price } : { action: "none" };
+    case "stop":
+      return stopHit ? { action: "fill", price } : { action: "none" };
+    case "stop_limit": {
+      if (!order.stopTriggered && !stopHit) return { action: "none" };
+      if (limitOk) return { action: "fill", price };
+      return order.stopTriggered ? { action: "none" } : { action: "trigger" };
+    }
+    default:
+      return { action: "none" };
+  }
+}
+
+// ─── Order Management ───────────────────────────────────────────────────────
+
+/**
+ * Place a new pending order, reserving its cash or shares until it fills,
+ * is cancelled or expires. Balance and shares are checked again at fill
+ * time, since a stop can fill above its stop price.
+ */
+export async function placeOrder(userId: number, input: OrderInput): Promise<OrderResult> {
+  const sizingPrice = validateOrderPrices(input);
+  if (typeof sizingPrice === "string") return { success: false, error: sizingPrice };
+  if (input.amount <= 0) return { success: false, error: "Amount must be positive" };
+
+  const quote = await getStockQuote(input.stockId);
+  if (!quote) return { success: false, error: "Stock not found" };
+
+  const db = await requireDb();
+  const portfolioId = await ensurePortfolio(db, userId);
+  const shares = roundFinancial(input.amount / sizingPrice, 4);
+
+  const id = generateOrderId();
+  const error = await db.transaction(async (tx): Promise<string | null> => {
+    const fundsError = await checkFunds(tx, portfolioId, input.side, input.stockId, input.amount, shares);
+    if (fundsError) return fundsError;
+
+    const openOrders = await tx
+      .select({ id: orders.id })
+      .from(orders)
+      .where(and(eq(orders.portfolioId, portfolioId), eq(orders.status, "open")));
+    if (openOrders.length >= MAX_OPEN_ORDERS) {
+      return `You can have at most ${MAX_OPEN_ORDERS} open orders`;
+    }
+
+    await tx.insert(orders).values({
+      id,
+      portfolioId,
+      stockId: input.stockId,
+      ticker: quote.ticker,
+      name: quote.name,
+      side: input.side,
+      orderType: input.orderType,
+      shares,
+      limitPrice: input.orderType === "stop" ? null : input.limitPrice,
+      stopPrice: input.orderType === "limit" ? null : input.stopPrice,
+      timeInForce: input.timeInForce,
+      expiresAt: input.timeInForce === "day" ? getNextClose() : null,
+    });
+    return null;
+  });
+  if (error) return { success: false, error };
+
+  const [row] = await db.select().from(orders).where(eq(orders.id, id)).limit(1);
+  console.log(`[OrderService] Order placed: ${input.orderType} ${input.side} ${shares} ${quote.ticker}`);
+  return { success: true, order: toPendingOrder(row) };
+}
+
+/**
+ * Change the size, prices or expiry of an open order.
+ */
+export async function modifyOrder(
+  userId: number,
+  orderId: string,
+  changes: Omit<OrderInput, "stockId" | "side" | "orderType">,
+): Promise<OrderResult> {
+  const db = await requireDb();
+  const portfolioId = await ensurePortfolio(db, userId);
+
+  const [existing] = await db
+    .select()
+    .from(orders)
+    .where(and(eq(orders.id, orderId), eq(orders.portfolioId, portfolioId)))
+    .limit(1);
+  if (!existing) return { success: false, error: "Order not found" };
+  if (existing.status !== "open") return { success: false, error: "Only open orders can be modified" };
+
+  const sizingPrice = validateOrderPrices({ orderType: existing.orderType, ...changes });
+  if (typeof sizingPrice === "string") return { success: false, error: sizingPrice };
+  if (changes.amount <= 0) return { success: false, error: "Amount must be positive" };
+
+  const shares = roundFinancial(changes.amount / sizingPrice, 4);
+  const stopPrice = existing.orderType === "limit" ? null : (changes.stopPrice ?? null);
+  const fundsError = await db.transaction(async (tx): Promise<string | null> => {
+    // The order's current reservation is replaced, not added to
+    const error = await checkFunds(tx, portfolioId, existing.side, existing.stockId, changes.amount, shares, orderId);
+    if (error) return error;
+
+    await tx
+      .update(orders)
+      .set({
+        shares,
+        limitPrice: existing.orderType === "stop" ? null : (changes.limitPrice ?? null),
+        stopPrice,
+        timeInForce: changes.timeInForce,
+        // A new stop price re-arms a triggered stop_limit
+        stopTriggered: stopPrice === existing.stopPrice ? existing.stopTriggered : false,
+        expiresAt: changes.timeInForce === "day" ? (existing.expiresAt ?? getNextClose()) : null,
+      })
+      // Guard against the check loop filling the order in between
+      .where(and(eq(orders.id, orderId), eq(orders.status, "open")));
+    return null;
+  });
+  if (fundsError) return { success: false, error: fundsError };
+
+  const [row] = await db.select().from(orders).where(eq(orders.id, orderId)).limit(1);
+  if (row.status !== "open") return { success: false, error: "Order was filled or closed before it could be modified" };
+  return { success: true, order: toPendingOrder(row) };
+}
+
+/**
+ * Cancel an open order, releasing what it reserved.
+ */
+export async function cancelOrder(userId: number, orderId: string): Promise<boolean> {
+  const db = await requireDb();
+  const portfolioId = await ensurePortfolio(db, userId);
+
+  const [result] = await db
+    .update(orders)
+    .set({ status: "cancelled" })
+    .where(and(eq(orders.id, orderId), eq(orders.portfolioId, portfolioId), eq(orders.status, "open")));
+  return result.affectedRows > 0;
+}
+
+/**
+ * Open orders (oldest first) plus the most recently closed ones (newest first).
+ */
+export async function listOrders(userId: number): Promise<{ open: PendingOrder[]; recent: PendingOrder[] }> {
+  const db = await requireDb();
+  const portfolioId = await ensurePortfolio(db, userId);
+
+  const openRows = await db
+    .select()
+    .from(orders)
+    .where(and(eq(orders.portfolioId, portfolioId), eq(orders.status, "open")))
+    .orderBy(orders.createdAt);
+  const recentRows = await db
+    .select()
+    .from(orders)
+    .where(and(eq(orders.portfolioId, portfolioId), ne(orders.status, "open")))
+    .orderBy(desc(orders.updatedAt))
+    .limit(RECENT_CLOSED_LIMIT);
+
+  return { open: openRows.map(toPendingOrder), recent: recentRows.map(toPendingOrder) };
+}
+
+/**
+ * Check the balance or shares not already reserved by other open orders
+ * cover an order. Locks the portfolio row for the caller's transaction, so
+ * two orders placed at once can't reserve the same cash.
+ */
+async function checkFunds(
+  tx: Tx,
+  portfolioId: number,
+  side: OrderSide,
+  stockId: string,
+  amount: number,
+  shares: number,
+  exceptOrderId?: string,
+): Promise<string | null> {
+  const [portfolio] = await tx
+    .select({ balance: portfolios.balance })
+    .from(portfolios)
+    .where(eq(portfolios.id, portfolioId))
+    .limit(1)
+    .for("update");
+  const reserved = await getOrderReservations(tx, portfolioId, exceptOrderId);
+
+  if (side === "buy") {
+    const available = roundFinancial(portfolio.balance - reserved.cash);
+    if (amount > available) {
+      return `Insufficient balance (€${available.toFixed(2)} available)`;
+    }
+    return null;
+  }
+
+  const [holding] = await tx
+    .select({ shares: holdings.shares })
+    .from(holdings)
+    .where(and(eq(holdings.portfolioId, portfolioId), eq(holdings.stockId, stockId)))
+    .limit(1);
+  const available = roundFinancial((holding?.shares ?? 0) - (reserved.shares[stockId] ?? 0), 4);
+  if (shares > available) {
+    return `Insufficient shares. You have ${available.toFixed(4)} available but the order is for ${shares.toFixed(4)}`;
+  }
+  return null;
+}
+
+// ─── Order Check Loop ───────────────────────────────────────────────────────
+
+/**
+ * Expire, trigger and fill open orders against current quotes.
+ * Called from the price alert service's interval loop.
+ */
+export async function checkOpenOrders(): Promise<{
+  checked: number;
+  filled: number;
+  expired: number;
+  rejected: number;
+}> {
+  let checked = 0;
+  let filled = 0;
+  let expired = 0;
+  let rejected = 0;
+
+  const db = await getDb();
+  if (!db) return { checked, filled, expired, rejected };
+
+  const openRows = await db.select().from(orders).where(eq(orders.status, "open"));
+  if (openRows.length === 0) return { checked, filled, expired, rejected };
+
+  // Expire day orders past the session close
+  const now = Date.now();
+  const expiredIds = openRows
+    .filter((o) => o.expiresAt && o.expiresAt.getTime() <= now)
+    .map((o) => o.id);
+  if (expiredIds.length > 0) {
+    await db
+      .update(orders)
+      .set({ status: "expired" })
+      .where(and(inArray(orders.id, expiredIds), eq(orders.status, "open")));
+    expired = expiredIds.length;
+  }
+
+  // Quotes don't move outside trading, and the pre-open auction hasn't set a price yet
+  const phase = getMarketPhase();
+  if (phase !== "continuous" && phase !== "closing_auction") {
+    return { checked, filled, expired, rejected };
+  }
+
+  const live = openRows.filter((o) => !expiredIds.includes(o.id));
+  if (live.length === 0) return { checked, filled, expired, rejected };
+
+  const quotes = await getMultipleQuotes(Array.from(new Set(live.map((o) => o.stockId))));
+  const priceMap = new Map<string, number>();
+  for (const quote of quotes) {
+    // Never fill against a stale quote
+    if (isQuoteFresh(quote, now)) {
+      priceMap.set(quote.id, quote.price);
+    }
+  }
+
+  for (const order of live) {
+    const price = priceMap.get(order.stockId);
+    if (price === undefined) continue;
+
+    checked++;
+    const evaluation = evaluateOrder(order, price);
+
+    if (evaluation.action === "trigger") {
+      await db
+        .update(orders)
+        .set({ stopTriggered: true })
+        .where(and(eq(orders.id, order.id), eq(orders.status, "open")));
+      continue;
+    }
+    if (evaluation.action !== "fill") continue;
+
+    const outcome = await fillOrder(order, evaluation.price);
+    if (outcome === "filled") filled++;
+    if (outcome === "rejected") rejected++;
+  }
+
+  if (filled > 0 || expired > 0 || rejected > 0) {
+    console.log(
+      `[OrderService] Check complete: ${checked} checked, ${filled} filled, ${expired} expired, ${rejected} rejected`
+    );
+  }
+
+  return { checked, filled, expired, rejected };
+}
+
+async function fillOrder(order: OrderRow, price: number): Promise<"filled" | "rejected" | "skipped"> {
+  const db = await requireDb();
+
+  return db.transaction(async (tx) => {
+    // Re-read under lock so a concurrent cancel or second instance can't double-fill
+    const [current] = await tx
+      .select()
+      .from(orders)
+      .where(eq(orders.id, order.id))
+      .limit(1)
+      .for("update");
+    if (!current || current.status !== "open") return "skipped";
+
+    const result = await fillPortfolioTrade(tx, current.portfolioId, {
+      stockId: current.stockId,
+      ticker: current.ticker,
+      name: current.name,
+      type: current.side,
+      amount: roundFinancial(current.shares * price, 2),
+      shares: current.shares,
+      price,
+      orderId: current.id,
+    });
+
+    if (!result.success) {
+      await tx
+        .update(orders)
+        .set({ status: "rejected", statusReason: result.error.slice(0, 255) })
+        .where(eq(orders.id, current.id));
+      return "rejected";
+    }
+
+    await tx
+      .update(orders)
+      .set({ status: "filled", tradeId: result.trade.id, stopTriggered: current.orderType === "stop_limit" })
+      .where(eq(orders.id, current.id));
+    return "filled";
+  });
+}
@@ -0,0 +1,51 @@
+/**
+ * AGRX Portfolio Router
+ *
+ * tRPC router for the signed-in user's demo portfolio.
+ * All endpoints require authentication (protectedProcedure); signed-out
+ * clients keep their portfolio in AsyncStorage instead.
+ */
+import { z } from "zod";
+import { protectedProcedure, router } from "./_core/trpc";
+import { executePortfolioTrade, getPortfolio, resetPortfolio } from "./portfolioService";
+
+const executeTradeSchema = z.object({
+  stockId: z.string().min(1),
+  type: z.enum(["buy", "sell"]),
+  amount: z.number().positive(),
+});
+
+export const portfolioRouter = router({
+  /**
+   * Load the full portfolio (seeded on first access)
+   */
+  load: protectedProcedure.query(async ({ ctx }) => {
+    const portfolio = await getPortfolio(ctx.user.id);
+    return { success: true as const, data: portfolio };
+  }),
+
+  /**
+   * Execute a market buy or sell at the server's current quote.
+   * Returns the canonical trade as filled.
+   */
+  executeTrade: protectedProcedure
+    .input(executeTradeSchema)
+    .mutation(async ({ ctx, input }) => {
+      const result = await executePortfolioTrade(ctx.user.id, input);
+      if (!result.success) {
+        return { success: false as const, error: result.error };
+      }
+      return {
+        success: true as const,
+        data: { trade: result.trade, portfolio: result.portfolio },
+      };
+    }),
+
+  /**
+   * Reset to the seeded starting portfolio
+   */
+  reset: protectedProcedure.mutation(async ({ ctx }) => {
+    const portfolio = await resetPortfolio(ctx.user.id);
+    return { success: true as const, data: portfolio };
+  }),
+});
@@ -0,0 +1,522 @@
+/**
+ * AGRX Demo Portfolio Service
+ *
+ * Server-side persistence for the paper-trading portfolio that the client
+ * keeps in `lib/demo-context.tsx`. Signed-in users read and write through
+ * here so balance, holdings, trades, XP and streak survive reinstalls and
+ * follow the account across devices.
+ *
+ * Trades are server-authoritative: the fill price comes from getStockQuote,
+ * never from the client, and stale quotes are rejected (isQuoteFresh).
+ * Every mutation runs in a transaction with the portfolio row locked, so
+ * two devices trading at once cannot overspend the balance. Cash and shares
+ * held by open orders (getOrderReservations) can't be traded away.
+ */
+import { and, asc, eq } from "drizzle-orm";
+import { ENV } from "./_core/env";
+import { getMarketPhase } from "../shared/market-calendar.js";
+import { getDb } from "./db";
+import { getStockQuote, type StockQuote } from "./stockService";
+import { holdings, orders, portfolios, trades, type HoldingRow, type TradeRow } from "../drizzle/schema";
+import { DEMO_BALANCE, PORTFOLIO_HOLDINGS } from "../lib/mock-data";
+
+// ─── Types ──────────────────────────────────────────────────────────────────
+
+/** Same shape as the client's DemoHolding */
+export interface PortfolioHolding {
+  stockId: string;
+  ticker: string;
+  name: string;
+  shares: number;
+  totalCost: number;
+}
+
+/** Same shape as the client's DemoTrade */
+export interface PortfolioTrade {
+  id: string;
+  stockId: string;
+  ticker: string;
+  name: string;
+  type: "buy" | "sell";
+  amount: number;
+  shares: number;
+  price: number;
+  timestamp: number;
+}
+
+export interface PortfolioSnapshot {
+  balance: number;
+  holdings: Record<string, PortfolioHolding>;
+  /** Oldest first, matching the order the client appends trades */
+  trades: PortfolioTrade[];
+  xp: number;
+  streak: number;
+}
+
+/** What the client may choose — price, ticker and name are resolved server-side */
+export interface PortfolioTradeInput {
+  stockId: string;
+  type: "buy" | "sell";
+  /** EUR value to buy or sell */
+  amount: number;
+}
+
+/** A fully priced trade, ready to apply to a portfolio */
+export interface TradeFill {
+  stockId: string;
+  ticker: string;
+  name: string;
+  type: "buy" | "sell";
+  /** EUR value (shares × price) */
+  amount: number;
+  shares: number;
+  price: number;
+  /** The open order being filled; its own reservation is available to it */
+  orderId?: string;
+}
+
+/** What a portfolio's open orders hold back from trading */
+export interface OrderReservations {
+  /** EUR held by buy orders */
+  cash: number;
+  /** Shares held by sell orders, by stock ID */
+  shares: Record<string, number>;
+}
+
+/** A portfolio marked to live prices, for portfolio-scope price alerts */
+export interface PortfolioValuation {
+  /** Cash plus holdings at the latest price */
+  totalValue: number;
+  /** Change since the previous close of today's holdings */
+  dailyPnl: number;
+}
+
+export type PortfolioTradeResult =
+  | { success: true; trade: PortfolioTrade; portfolio: PortfolioSnapshot }
+  | { success: false; error: string };
+
+// ─── Constants ──────────────────────────────────────────────────────────────
+
+/** Starting XP / streak for a fresh portfolio (matches the client's initialState) */
+const SEED_XP = 240;
+const SEED_STREAK = 5;
+
+/** XP awarded for every executed trade */
+const TRADE_XP = 15;
+
+/** Holdings below this many shares are treated as fully sold */
+const MIN_SHARES = 0.0001;
+
+// ─── Helpers ────────────────────────────────────────────────────────────────
+
+/** Round to fixed decimals to avoid floating point drift (2 for EUR, 4 for shares) */
+export function roundFinancial(value: number, decimals: number = 2): number {
+  const multiplier = Math.pow(10, decimals);
+  return Math.round(value * multiplier) / multiplier;
+}
+
+/**
+ * Whether a trade may fill at `quote`: fetched within ENV.tradeMaxQuoteAgeMs.
+ * When ENV.tradeMaxLastTradeAgeMs is set, the last trade must also fall
+ * within it during continuous trading; outside it the last close stands.
+ */
+export function isQuoteFresh(
+  quote: Pick<StockQuote, "lastUpdated" | "marketTime">,
+  now: number = Date.now(),
+): boolean {
+  if (now - quote.lastUpdated > ENV.tradeMaxQuoteAgeMs) return false;
+  const maxTradeAge = ENV.tradeMaxLastTradeAgeMs;
+  if (maxTradeAge <= 0 || quote.marketTime === null) return true;
+  if (getMarketPhase(new Date(now)) !== "continuous") return true;
+  return now - quote.marketTime <= maxTradeAge;
+}
+
+function generateTradeId(): string {
+  return `trade-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`;
+}
+
+function seedHoldings(): PortfolioHolding[] {
+  return PORTFOLIO_HOLDINGS.map((h) => ({
+    stockId: h.asset.id,
+    ticker: h.asset.ticker,
+    name: h.asset.name,
+    shares: h.shares,
+    totalCost: h.shares * h.avgCost,
+  }));
+}
+
+function seedBalance(): number {
+  const seedCost = PORTFOLIO_HOLDINGS.reduce((sum, h) => sum + h.shares * h.avgCost, 0);
+  return DEMO_BALANCE - seedCost;
+}
+
+function toPortfolioHolding(row: HoldingRow): PortfolioHolding {
+  return {
+    stockId: row.stockId,
+    ticker: row.ticker,
+    name: row.name,
+    shares: row.shares,
+    totalCost: row.totalCost,
+  };
+}
+
+function toPortfolioTrade(row: TradeRow): PortfolioTrade {
+  return {
+    id: row.id,
+    stockId: row.stockId,
+    ticker: row.ticker,
+    name: row.name,
+    type: row.type,
+    amount: row.amount,
+    shares: row.shares,
+    price: row.price,
+    timestamp: row.executedAt.getTime(),
+  };
+}
+
+export async function requireDb() {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not available");
+  }
+  return db;
+}
+
+export type Db = Awaited<ReturnType<typeof requireDb>>;
+export type Tx = Parameters<Parameters<Db["transaction"]>[0]>[0];
+
+/**
+ * Return the user's portfolio ID, creating a seeded portfolio on first use.
+ */
+export async function ensurePortfolio(db: Db, userId: number): Promise<number> {
+  const existing = await db
+    .select({ id: portfolios.id })
+    .from(portfolios)
+    .where(eq(portfolios.userId, userId))
+    .limit(1);
+  if (existing.length > 0) return existing[0].id;
+
+  await db.transaction(async (tx) => {
+    // Ignore the duplicate if another request seeded the portfolio first
+    await tx
+      .insert(portfolios)
+      .values({ userId, balance: seedBalance(), xp: SEED_XP, streak: SEED_STREAK })
+      .onDuplicateKeyUpdate({ set: { userId } });
+
+    const [created] = await tx
+      .select({ id: portfolios.id })
+      .from(portfolios)
+      .where(eq(portfolios.userId, userId))
+      .limit(1);
+
+    const seedRows = seedHoldings().map((h) => ({ ...h, portfolioId: created.id }));
+    if (seedRows.length > 0) {
+      await tx
+        .insert(holdings)
+        .values(seedRows)
+        .onDuplicateKeyUpdate({ set: { portfolioId: created.id } });
+    }
+  });
+
+  const [row] = await db
+    .select({ id: portfolios.id })
+    .from(portfolios)
+    .where(eq(portfolios.userId, userId))
+    .limit(1);
+  return row.id;
+}
+
+/**
+ * Cash and shares held by the portfolio's open orders: a buy holds its
+ * shares at the order price that sized it, a sell holds its shares.
+ * Cancelled and expired orders are no longer open, so that releases them.
+ * `exceptOrderId` leaves out the order being filled or modified.
+ */
+export async function getOrderReservations(
+  db: Db | Tx,
+  portfolioId: number,
+  exceptOrderId?: string,
+): Promise<OrderReservations> {
+  const rows = await db
+    .select({
+      id: orders.id,
+      stockId: orders.stockId,
+      side: orders.side,
+      shares: orders.shares,
+      limitPrice: orders.limitPrice,
+      stopPrice: orders.stopPrice,
+    })
+    .from(orders)
+    .where(and(eq(orders.portfolioId, portfolioId), eq(orders.status, "open")));
+
+  const reservations: OrderReservations = { cash: 0, shares: {} };
+  for (const row of rows) {
+    if (row.id === exceptOrderId) continue;
+    if (row.side === "buy") {
+      reservations.cash += row.shares * (row.limitPrice ?? row.stopPrice ?? 0);
+    } else {
+      reservations.shares[row.stockId] = (reservations.shares[row.stockId] ?? 0) + row.shares;
+    }
+  }
+  reservations.cash = roundFinancial(reservations.cash);
+  return reservations;
+}
+
+async function readSnapshot(db: Db | Tx, portfolioId: number): Promise<PortfolioSnapshot> {
+  const [portfolio] = await db
+    .select()
+    .from(portfolios)
+    .where(eq(portfolios.id, portfolioId))
+    .limit(1);
+  const holdingRows = await db
+    .select()
+    .from(holdings)
+    .where(eq(holdings.portfolioId, portfolioId));
+  const tradeRows = await db
+    .select()
+    .from(trades)
+    .where(eq(trades.portfolioId, portfolioId))
+    .orderBy(asc(trades.executedAt));
+
+  const holdingMap: Record<string, PortfolioHolding> = {};
+  for (const row of holdingRows) {
+    holdingMap[row.stockId] = toPortfolioHolding(row);
+  }
+
+  return {
+    balance: portfolio.balance,
+    holdings: holdingMap,
+    trades: tradeRows.map(toPortfolioTrade),
+    xp: portfolio.xp,
+    streak: portfolio.streak,
+  };
+}
+
+// ─── Public API ─────────────────────────────────────────────────────────────
+
+/**
+ * Load the user's full portfolio, seeding it on first access.
+ */
+export async function getPortfolio(userId: number): Promise<PortfolioSnapshot> {
+  const db = await requireDb();
+  const portfolioId = await ensurePortfolio(db, userId);
+  return readSnapshot(db, portfolioId);
+}
+
+/**
+ * The user's portfolio if they have one; unlike getPortfolio this never
+ * seeds one. Null without a database.
+ */
+export async function findPortfolio(userId: number): Promise<PortfolioSnapshot | null> {
+  const db = await getDb();
+  if (!db) return null;
+
+  const [row] = await db
+    .select({ id: portfolios.id })
+    .from(portfolios)
+    .where(eq(portfolios.userId, userId))
+    .limit(1);
+  return row ? readSnapshot(db, row.id) : null;
+}
+
+/**
+ * Value a portfolio at the given quotes. Holdings without a quote count at
+ * cost with no daily change.
+ */
+export function valuePortfolio(
+  portfolio: Pick<PortfolioSnapshot, "balance" | "holdings">,
+  quotes: Map<string, Pick<StockQuote, "price" | "previousClose">>,
+): PortfolioValuation {
+  let totalValue = portfolio.balance;
+  let dailyPnl = 0;
+  for (const holding of Object.values(portfolio.holdings)) {
+    const quote = quotes.get(holding.stockId);
+    if (!quote) {
+      totalValue += holding.totalCost;
+      continue;
+    }
+    totalValue += holding.shares * quote.price;
+    if (quote.previousClose > 0) dailyPnl += holding.shares * (quote.price - quote.previousClose);
+  }
+  return { totalValue: roundFinancial(totalValue), dailyPnl: roundFinancial(dailyPnl) };
+}
+
+/**
+ * Fill a market trade at the current server-side quote and apply it to the
+ * stored portfolio. Uses the same rules and rounding as the client's local
+ * executeTrade.
+ */
+export async function executePortfolioTrade(
+  userId: number,
+  input: PortfolioTradeInput,
+): Promise<PortfolioTradeResult> {
+  const { stockId, type, amount } = input;
+
+  if (amount <= 0) {
+    return { success: false, error: "Amount must be positive" };
+  }
+
+  const quote = await getStockQuote(stockId);
+  if (!quote || quote.price <= 0) {
+    return { success: false, error: "No price is available for this stock right now" };
+  }
+  if (!isQuoteFresh(quote)) {
+    return {
+      success: false,
+      error: `The price for ${quote.ticker} is out of date. Please try again in a moment.`,
+    };
+  }
+
+  const { ticker, name, price } = quote;
+  const db = await requireDb();
+  const portfolioId = await ensurePortfolio(db, userId);
+  const shares = roundFinancial(amount / price, 4);
+
+  return db.transaction(async (tx): Promise<PortfolioTradeResult> => {
+    const result = await fillPortfolioTrade(tx, portfolioId, {
+      stockId,
+      ticker,
+      name,
+      type,
+      amount,
+      shares,
+      price,
+    });
+    if (!result.success) return result;
+    return { ...result, portfolio: await readSnapshot(tx, portfolioId) };
+  });
+}
+
+/**
+ * Apply an already-priced fill inside the caller's transaction: checks
+ * balance or shares, updates the holding and balance, and logs the trade.
+ * Shared by market trades and pending-order fills.
+ */
+export async function fillPortfolioTrade(
+  tx: Tx,
+  portfolioId: number,
+  fill: TradeFill,
+): Promise<{ success: true; trade: PortfolioTrade } | { success: false; error: string }> {
+  const { stockId, ticker, name, type, amount, shares, price, orderId } = fill;
+
+  const [portfolio] = await tx
+    .select()
+    .from(portfolios)
+    .where(eq(portfolios.id, portfolioId))
+    .limit(1)
+    .for("update");
+  const reserved = await getOrderReservations(tx, portfolioId, orderId);
+
+  const [existing] = await tx
+    .select()
+    .from(holdings)
+    .where(and(eq(holdings.portfolioId, portfolioId), eq(holdings.stockId, stockId)))
+    .limit(1);
+
+  let newBalance: number;
+
+  if (type === "buy") {
+    const available = roundFinancial(portfolio.balance - reserved.cash);
+    if (amount > available) {
+      return {
+        success: false,
+        error: `Insufficient balance. You have €${available.toFixed(2)} available but need €${amount.toFixed(2)}`,
+      };
+    }
+
+    if (existing) {
+      await tx
+        .update(holdings)
+        .set({
+          shares: roundFinancial(existing.shares + shares, 4),
+          totalCost: roundFinancial(existing.totalCost + amount, 2),
+        })
+        .where(eq(holdings.id, existing.id));
+    } else {
+      await tx.insert(holdings).values({ portfolioId, stockId, ticker, name, shares, totalCost: amount });
+    }
+
+    newBalance = portfolio.balance - amount;
+  } else {
+    const availableShares = roundFinancial((existing?.shares ?? 0) - (reserved.shares[stockId] ?? 0), 4);
+    if (!existing || availableShares < shares) {
+      return {
+        success: false,
+        error: `Insufficient shares. You have ${availableShares.toFixed(4)} shares of ${ticker} available but tried to sell ${shares.toFixed(4)}`,
+      };
+    }
+
+    // Remove the proportional cost basis
+    const avgCost = roundFinancial(existing.totalCost / existing.shares, 2);
+    const costRemoved = roundFinancial(avgCost * shares, 2);
+    const newShares = existing.shares - shares;
+
+    if (newShares < MIN_SHARES) {
+      await tx.delete(holdings).where(eq(holdings.id, existing.id));
+    } else {
+      await tx
+        .update(holdings)
+        .set({ shares: newShares, totalCost: roundFinancial(existing.totalCost - costRemoved, 2) })
+        .where(eq(holdings.id, existing.id));
+    }
+
+    newBalance = portfolio.balance + amount;
+  }
+
+  const trade: PortfolioTrade = {
+    id: generateTradeId(),
+    stockId,
+    ticker,
+    name,
+    type,
+    amount,
+    shares,
+    price,
+    timestamp: Date.now(),
+  };
+
+  await tx.insert(trades).values({
+    id: trade.id,
+    portfolioId,
+    stockId,
+    ticker,
+    name,
+    type,
+    amount,
+    shares,
+    price,
+    executedAt: new Date(trade.timestamp),
+  });
+
+  await tx
+    .update(portfolios)
+    .set({ balance: newBalance, xp: portfolio.xp + TRADE_XP })
+    .where(eq(portfolios.id, portfolioId));
+
+  return { success: true, trade };
+}
+
+/**
+ * Wipe trades, holdings and pending orders and restore the seeded starting portfolio.
+ */
+export async function resetPortfolio(userId: number): Promise<PortfolioSnapshot> {
+  const db = await requireDb();
+  const portfolioId = await ensurePortfolio(db, userId);
+
+  await db.transaction(async (tx) => {
+    await tx.delete(orders).where(eq(orders.portfolioId, portfolioId));
+    await tx.delete(trades).where(eq(trades.portfolioId, portfolioId));
+    await tx.delete(holdings).where(eq(holdings.portfolioId, portfolioId));
+    await tx
+      .update(portfolios)
+      .set({ balance: seedBalance(), xp: SEED_XP, streak: SEED_STREAK })
+      .where(eq(portfolios.id, portfolioId));
+
+    const seedRows = seedHoldings().map((h) => ({ ...h, portfolioId }));
+    if (seedRows.length > 0) {
+      await tx.insert(holdings).values(seedRows);
+    }
+  });
+
+  return readSnapshot(db, portfolioId);
+}
@@ -1,29 +1,106 @@
 /**
  * AGRX Price Alert Service
  *
- * Server-side service that monitors watchlisted stock prices and sends
- * push notifications when user-defined thresholds are breached.
+ * Server-side service that monitors stock prices and sends push
+ * notifications when user-defined alerts fire.
  *
  * Architecture:
- * - In-memory store for push tokens and alert preferences (no DB required for MVP)
- * - Periodic price checks via the existing stockService
- * - Expo Push Notification delivery for native devices
- * - Cooldown mechanism to prevent notification spam
+ * - Alerts and preferences belong to the signed-in account and fire on every
+ *   device linked to it; devices stay anonymous until a signed-in user
+ *   registers them. Everything is kept in the alert store (alertStore)
+ * - An interval loop, skipped while ATHEX is closed, evaluates every alert
+ *   as a rule (shared/alert-rules) on one stock, the account's demo
+ *   portfolio or its watchlist, then checks pending demo orders
+ *   (orderService) and sends held notifications that are due
+ * - Cooldowns keep an alert quiet for 30 minutes (price targets) or the rest
+ *   of the session (moves and rules)
+ * - Notifications wait out quiet hours and delivery windows
+ *   (shared/notification-schedule), are filed in the account's inbox and
+ *   go out through the push queue (pushDeliveryService)
+ * - Every check is logged for the admin dashboard, and alerts can be
+ *   backtested on a stock's daily history before they are saved
  */
 
-import { getMultipleQuotes, type StockQuote } from "./stockService";
+import {
+  describeRule,
+  evaluateRule,
+  ruleLookback,
+  type AlertRule,
+  type RuleMarketData,
+} from "../shared/alert-rules.js";
+import { getMarketPhase, getTradingSessions, isMarketOpen } from "../shared/market-calendar.js";
+import {
+  isDeliveryHeld,
+  nextDeliveryTime,
+  type DeliveryWindow,
+  type HeldDelivery,
+  type NotificationCategory,
+} from "../shared/notification-schedule.js";
+import {
+  DEFAULT_PREFERENCES,
+  getAlertStore,
+  type ActiveAlert,
+  type AlertEvaluation,
+  type AlertEvaluationOutcome,
+  type AlertOwner,
+  type AlertStore,
+  type AlertTrigger,
+  type DevicePlatform,
+  type HeldNotification,
+  type StockAlertVolume,
+} from "./alertStore";
+import { acquireJobLease } from "./jobLease";
+import { checkOpenOrders } from "./orderService";
+import { recordInboxNotification } from "./notificationInboxService";
+import { findPortfolio, valuePortfolio, type PortfolioSnapshot, type PortfolioValuation } from "./portfolioService";
+import {
+  enqueuePush,
+  getDeliveryStatus,
+  newNotificationId,
+  processPushQueue,
+  startPushDelivery,
+  stopPushDelivery,
+  type DeliveryStatus,
+} from "./pushDeliveryService";
+import {
+  getDailyHistory,
+  getMultipleQuotes,
+  type ChartDataPoint,
+  type StockQuote,
+} from "./stockService";
+import { getWatchlists } from "./watchlistService";
 
 // ─── Types ──────────────────────────────────────────────────────────────────
 
-export type AlertType = "above" | "below" | "percent_change";
+export type AlertType =
+  | "above"
+  | "below"
+  | "percent_change"
+  | "rule"
+  | "pnl_gain"
+  | "pnl_loss"
+  | "holding_drop";
+
+/** What an alert watches: one stock, the demo portfolio, or the watchlist */
+export type AlertScope = "stock" | "portfolio" | "watchlist";
 
 export interface PriceAlert {
   id: string;
-  stockId: string;
+  scope: AlertScope;
+  /** Watched stock; null for portfolio and watchlist alerts */
+  stockId: string | null;
+  /** Stock name, or the portfolio / watchlist label */
   stockName: string;
   type: AlertType;
-  /** Target price for above/below, or percentage for percent_change */
+  /**
+   * Target price (stock) or total value (portfolio) for above/below, EUR
+   * gained or lost today for pnl_gain/pnl_loss, percentage for
+   * percent_change and holding_drop, 0 for rule. Watchlist alerts use the
+   * percentThreshold preference instead.
+   */
   threshold: number;
+  /** Conditions of a "rule" alert; null for the other types */
+  rule: AlertRule | null;
   /** Whether the alert is currently active */
   enabled: boolean;
   /** Timestamp of last trigger (for cooldown) */
@@ -35,11 +112,9 @@ export interface PriceAlert {
 export interface DeviceRegistration {
   pushToken: string;
   deviceId: string;
+  /** Owning account; null until a signed-in user registers the device */
+  userId: number | null;
   platform: "ios" | "android" | "web";
-  /** All alerts for this device */
-  alerts: PriceAlert[];
-  /** Global notification preferences */
-  preferences: NotificationPreferences;
   /** Last seen timestamp */
   lastSeen: number;
 }
@@ -54,341 +129,898 @@ export interface NotificationPreferences {
   /** Quiet hours — no notifications between these times */
   quietHoursStart: number | null; // hour 0-23
   quietHoursEnd: number | null;   // hour 0-23
+  /** IANA timezone quiet hours and schedules are read in */
+  timezone: string;
+  /** Delivery window per category (shared/notification-schedule) */
+  schedules: Partial<Record<NotificationCategory, DeliveryWindow>>;
+  /** Held notifications go out when the hold lifts, or as a morning digest */
+  heldDelivery: HeldDelivery;
+  /** Local hour of the morning digest */
+  digestHour: number;
 }
 
+export type DeviceResult =
+  | { success: true; device: DeviceRegistration }
+  | { success: false; error: string };
+
 export interface NotificationPayload {
   title: string;
   body: string;
   data?: Record<string, string>;
 }
 
+export interface DeliveryOutcome {
+  /**
+   * "queued" until processPushQueue() sends it, "held" by quiet hours or a
+   * delivery window, "failed" when the recipient has no devices
+   */
+  status: "queued" | "held" | "failed";
+  /** Push and inbox notification ID */
+  notificationId: string;
+}
+
+/** A firing with how far its push got */
+export interface AuditedTrigger extends AlertTrigger {
+  /** Latest push status; null if nothing was pushed (held into a digest, or no devices) */
+  delivery: DeliveryStatus | null;
+}
+
+/** An alert's audit trail, newest first */
+export interface AlertAudit {
+  triggers: AuditedTrigger[];
+  evaluations: AlertEvaluation[];
+}
+
+/** An unsaved stock alert to backtest */
+export type BacktestInput = Pick<PriceAlert, "type" | "threshold" | "rule"> & { stockId: string };
+
+export interface AlertBacktest {
+  /** Unix ms of the first and last replayed session */
+  from: number;
+  to: number;
+  /** Sessions replayed */
+  sessions: number;
+  /** Sessions in which the alert fired at least once */
+  sessionsFired: number;
+  /** Each simulated firing, oldest first */
+  firings: { timestamp: number; price: number }[];
+}
+
+export type CheckRunOutcome = "completed" | "market_closed" | "standby" | "idle" | "error";
+
+/** One run of checkPriceAlerts() on this instance */
+export interface CheckRun {
+  /** Unix ms */
+  startedAt: number;
+  durationMs: number;
+  /** Started by the interval, or by an operator from the admin dashboard */
+  source: "schedule" | "manual";
+  /**
+   * "market_closed" and "standby" (another instance holds the check lease)
+   * skip the check; "idle" = no alerts or stocks to check
+   */
+  outcome: CheckRunOutcome;
+  checked: number;
+  triggered: number;
+  sent: number;
+  error: string | null;
+}
+
 // ─── Constants ──────────────────────────────────────────────────────────────
 
-/** Minimum time between repeated alerts for the same stock (30 minutes) */
+/** Alert types each scope supports */
+export const SCOPE_ALERT_TYPES: Record<AlertScope, readonly AlertType[]> = {
+  stock: ["above", "below", "percent_change", "rule"],
+  portfolio: ["above", "below", "pnl_gain", "pnl_loss", "holding_drop"],
+  watchlist: ["percent_change"],
+};
+
+/** Minimum time between repeated above/below alerts (30 minutes) */
 const ALERT_COOLDOWN_MS = 30 * 60 * 1000;
 
+/** Session-scoped alerts reset this long before continuous trading starts */
+const SESSION_LEAD_MS = 60 * 60 * 1000;
+
 /** How often to check prices (5 minutes) */
 const CHECK_INTERVAL_MS = 5 * 60 * 1000;
 
-/** Maximum alerts per device */
-const MAX_ALERTS_PER_DEVICE = 50;
+/** Maximum alerts per account */
+const MAX_ALERTS_PER_USER = 50;
+
+/** Lease taken by the instance that runs the alert check */
+const CHECK_LEASE = "price-alert-check";
 
-/** Expo Push API endpoint */
-const EXPO_PUSH_URL = "https://exp.host/--/api/v2/push/send";
+/** Lease taken by the instance that sends held notifications */
+const HELD_LEASE = "held-notifications";
 
-// ─── In-Memory Store ────────────────────────────────────────────────────────
+/** How far back a backtest replays (3 months) */
+const BACKTEST_DAYS = 91;
 
-/** Map of deviceId -> DeviceRegistration */
-const deviceStore = new Map<string, DeviceRegistration>();
+/** Trading sessions fetched to cover BACKTEST_DAYS, plus slack for holidays */
+const BACKTEST_SESSIONS = 70;
 
-/** Track last known prices for change detection */
-const lastKnownPrices = new Map<string, number>();
+/** Check runs kept for the admin dashboard */
+const MAX_CHECK_RUNS = 50;
+
+/** Titles listed in a morning digest before "and N more" */
+const DIGEST_MAX_ITEMS = 4;
 
 /** Interval handle for periodic checks */
 let checkInterval: ReturnType<typeof setInterval> | null = null;
 
+/** Latest check runs, newest first */
+const checkRuns: CheckRun[] = [];
+let checkInProgress = false;
+
 // ─── Device Registration ────────────────────────────────────────────────────
 
-export function registerDevice(
+/**
+ * Register or refresh a device's push token. With a `userId` the device is
+ * linked to that account (claiming an anonymous device, or taking over a
+ * device another account signed out of); without one it stays anonymous.
+ * A device linked to an account only changes hands when the caller sends
+ * its current push token, so a leaked device ID can't redirect pushes.
+ */
+export async function registerDevice(
   deviceId: string,
   pushToken: string,
-  platform: "ios" | "android" | "web"
-): DeviceRegistration {
-  const existing = deviceStore.get(deviceId);
-
-  if (existing) {
-    // Update token and last seen
-    existing.pushToken = pushToken;
-    existing.platform = platform;
-    existing.lastSeen = Date.now();
-    return existing;
-  }
-
-  const registration: DeviceRegistration = {
-    pushToken,
-    deviceId,
-    platform,
-    alerts: [],
-    preferences: {
-      priceAlerts: true,
-      dailyChallenge: true,
-      socialActivity: false,
-      marketNews: true,
-      percentThreshold: 5,
-      quietHoursStart: null,
-      quietHoursEnd: null,
-    },
-    lastSeen: Date.now(),
-  };
+  platform: DevicePlatform,
+  userId: number | null = null
+): Promise<DeviceResult> {
+  const store = await getAlertStore();
+  const existing = await store.getDevice(deviceId);
+
+  if (existing?.userId != null && existing.userId !== userId) {
+    if (userId === null || existing.pushToken !== pushToken) {
+      return { success: false, error: "This device is linked to another account." };
+    }
+    console.log(`[PriceAlertService] Device ${deviceId} moved to user ${userId}`);
+  }
+
+  const registration = await store.upsertDevice(deviceId, pushToken, platform);
+  if (!existing) {
+    console.log(`[PriceAlertService] Device registered: ${deviceId} (${platform})`);
+  }
+  if (userId !== null && registration.userId !== userId) {
+    if (!(await store.claimDevice(deviceId, userId, registration.userId))) {
+      return { success: false, error: "This device is linked to another account." };
+    }
+    if (existing?.userId == null) {
+      console.log(`[PriceAlertService] Device ${deviceId} claimed by user ${userId}`);
+    }
+    return { success: true, device: { ...registration, userId } };
+  }
+  return { success: true, device: registration };
+}
+
+/**
+ * Link an anonymous device to an account, moving its alerts. Used when a
+ * user signs in on a device that registered before.
+ */
+export async function claimDevice(deviceId: string, userId: number): Promise<DeviceResult> {
+  const store = await getAlertStore();
+  const existing = await store.getDevice(deviceId);
+  if (!existing) return { success: false, error: "Device not registered." };
+  if (existing.userId !== null && existing.userId !== userId) {
+    return { success: false, error: "This device is linked to another account." };
+  }
 
-  deviceStore.set(deviceId, registration);
-  console.log(`[PriceAlertService] Device registered: ${deviceId} (${platform})`);
-  return registration;
+  if (existing.userId === null) {
+    // Fails when another account claimed it since the read above
+    if (!(await store.claimDevice(deviceId, userId))) {
+      return { success: false, error: "This device is linked to another account." };
+    }
+    console.log(`[PriceAlertService] Device ${deviceId} claimed by user ${userId}`);
+  }
+  return { success: true, device: { ...existing, userId } };
 }
 
-export function unregisterDevice(deviceId: string): boolean {
-  const deleted = deviceStore.delete(deviceId);
+/**
+ * Remove a device. Anonymous devices can be removed by anyone holding the
+ * ID; linked devices only by their owner.
+ */
+export async function unregisterDevice(deviceId: string, userId: number | null = null): Promise<boolean> {
+  const store = await getAlertStore();
+  const existing = await store.getDevice(deviceId);
+  if (!existing || (existing.userId !== null && existing.userId !== userId)) return false;
+
+  const deleted = await store.deleteDevice(deviceId);
   if (deleted) {
     console.log(`[PriceAlertService] Device unregistered: ${deviceId}`);
   }
   return deleted;
 }
 
-export function getDevice(deviceId: string): DeviceRegistration | undefined {
-  return deviceStore.get(deviceId);
+export async function getDevice(deviceId: string): Promise<DeviceRegistration | null> {
+  const store = await getAlertStore();
+  return store.getDevice(deviceId);
+}
+
+/** Devices linked to an account, most recently seen first */
+export async function getDevices(userId: number): Promise<DeviceRegistration[]> {
+  const store = await getAlertStore();
+  return store.listDevices(userId);
 }
 
-export function getRegisteredDeviceCount(): number {
-  return deviceStore.size;
+export async function getRegisteredDeviceCount(): Promise<number> {
+  const store = await getAlertStore();
+  return (await store.getStats()).registeredDevices;
 }
 
 // ─── Alert Management ───────────────────────────────────────────────────────
 
-export function addAlert(
-  deviceId: string,
+export async function addAlert(
+  userId: number,
   alert: Omit<PriceAlert, "id" | "lastTriggered" | "createdAt">
-): PriceAlert | null {
-  const device = deviceStore.get(deviceId);
-  if (!device) return null;
+): Promise<PriceAlert | null> {
+  const store = await getAlertStore();
 
-  if (device.alerts.length >= MAX_ALERTS_PER_DEVICE) {
-    console.warn(`[PriceAlertService] Max alerts reached for device ${deviceId}`);
+  const existing = await store.listAlerts(userId);
+  if (existing.length >= MAX_ALERTS_PER_USER) {
+    console.warn(`[PriceAlertService] Max alerts reached for user ${userId}`);
     return null;
   }
 
   const newAlert: PriceAlert = {
     ...alert,
-    id: `${deviceId}-${alert.stockId}-${Date.now()}`,
+    id: `alert-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
     lastTriggered: null,
     createdAt: Date.now(),
   };
 
-  device.alerts.push(newAlert);
+  await store.insertAlert(userId, newAlert);
   console.log(
-    `[PriceAlertService] Alert added: ${newAlert.type} ${newAlert.threshold} for ${newAlert.stockId}`
+    `[PriceAlertService] Alert added: ${newAlert.type === "rule" ? describeRule(alertRule(newAlert)) : `${newAlert.type} ${newAlert.threshold}`} for ${newAlert.stockId ?? newAlert.scope}`
   );
   return newAlert;
 }
 
-export function removeAlert(deviceId: string, alertId: string): boolean {
-  const device = deviceStore.get(deviceId);
-  if (!device) return false;
-
-  const idx = device.alerts.findIndex((a) => a.id === alertId);
-  if (idx === -1) return false;
-
-  device.alerts.splice(idx, 1);
-  return true;
+export async function removeAlert(userId: number, alertId: string): Promise<boolean> {
+  const store = await getAlertStore();
+  return store.deleteAlert(userId, alertId);
 }
 
-export function toggleAlert(deviceId: string, alertId: string): boolean {
-  const device = deviceStore.get(deviceId);
-  if (!device) return false;
+export async function toggleAlert(userId: number, alertId: string): Promise<boolean> {
+  const store = await getAlertStore();
+  return store.toggleAlert(userId, alertId);
+}
 
-  const alert = device.alerts.find((a) => a.id === alertId);
-  if (!alert) return false;
+export async function getAlerts(userId: number): Promise<PriceAlert[]> {
+  const store = await getAlertStore();
+  return store.listAlerts(userId);
+}
 
-  alert.enabled = !alert.enabled;
-  return true;
+/** Stock-scope alerts for one stock */
+export async function getAlertsForStock(userId: number, stockId: string): Promise<PriceAlert[]> {
+  return (await getAlerts(userId)).filter((a) => a.stockId === stockId);
 }
 
-export function getAlerts(deviceId: string): PriceAlert[] {
-  return deviceStore.get(deviceId)?.alerts ?? [];
+/** Most recent alert firings for an account, newest first */
+export async function getTriggerHistory(userId: number, limit = 50): Promise<AlertTrigger[]> {
+  const store = await getAlertStore();
+  return store.listTriggers(userId, limit);
 }
 
-export function getAlertsForStock(deviceId: string, stockId: string): PriceAlert[] {
-  return (deviceStore.get(deviceId)?.alerts ?? []).filter(
-    (a) => a.stockId === stockId
-  );
+/**
+ * Audit trail of one of the user's alerts: its latest firings, each with
+ * where its push is now (sent, delivered per Expo's receipt, failed), and
+ * its latest check outcomes. Null if the alert isn't the user's.
+ */
+export async function getAlertAudit(userId: number, alertId: string, limit = 50): Promise<AlertAudit | null> {
+  const store = await getAlertStore();
+  if (!(await store.listAlerts(userId)).some((a) => a.id === alertId)) return null;
+
+  const triggers = (await store.listAlertTriggers(alertId, 0)).reverse().slice(0, limit);
+  // Stocks named in the same firing share one notification
+  const deliveries = new Map<string, DeliveryStatus | null>();
+  for (const { notificationId } of triggers) {
+    if (notificationId && !deliveries.has(notificationId)) {
+      deliveries.set(notificationId, await getDeliveryStatus(notificationId));
+    }
+  }
+
+  return {
+    triggers: triggers.map((t) => ({
+      ...t,
+      delivery: t.notificationId ? deliveries.get(t.notificationId) ?? null : null,
+    })),
+    evaluations: await store.listEvaluations(alertId, limit),
+  };
 }
 
 // ─── Notification Preferences ───────────────────────────────────────────────
 
-export function updatePreferences(
-  deviceId: string,
+export async function updatePreferences(
+  userId: number,
   prefs: Partial<NotificationPreferences>
-): NotificationPreferences | null {
-  const device = deviceStore.get(deviceId);
-  if (!device) return null;
+): Promise<NotificationPreferences> {
+  const store = await getAlertStore();
+  return store.updatePreferences(userId, prefs);
+}
 
-  device.preferences = { ...device.preferences, ...prefs };
-  return device.preferences;
+export async function getPreferences(userId: number): Promise<NotificationPreferences> {
+  const store = await getAlertStore();
+  return store.getPreferences(userId);
 }
 
-export function getPreferences(deviceId: string): NotificationPreferences | null {
-  return deviceStore.get(deviceId)?.preferences ?? null;
+// ─── Scheduled Delivery ─────────────────────────────────────────────────────
+
+function ownerOf(held: Pick<HeldNotification, "userId" | "deviceId">): AlertOwner | null {
+  if (held.userId !== null) return { userId: held.userId };
+  return held.deviceId !== null ? { deviceId: held.deviceId } : null;
 }
 
-// ─── Push Notification Delivery ─────────────────────────────────────────────
+async function pushTokensOf(store: AlertStore, owner: AlertOwner): Promise<string[]> {
+  if ("userId" in owner) return (await store.listDevices(owner.userId)).map((d) => d.pushToken);
+  const device = await store.getDevice(owner.deviceId);
+  return device ? [device.pushToken] : [];
+}
 
-async function sendPushNotification(
-  pushToken: string,
-  notification: NotificationPayload
-): Promise<boolean> {
-  try {
-    const response = await fetch(EXPO_PUSH_URL, {
-      method: "POST",
-      headers: {
-        Accept: "application/json",
-        "Accept-Encoding": "gzip, deflate",
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        to: pushToken,
-        sound: "default",
-        title: notification.title,
-        body: notification.body,
-        data: notification.data ?? {},
-        priority: "high",
-        channelId: "price-alerts",
-      }),
-    });
+/**
+ * Queue a push to the recipient's devices, or hold it in the store when
+ * their quiet hours or the category's delivery window say so. Queued
+ * pushes go out on the next processPushQueue(); held ones are queued by
+ * flushHeldNotifications.
+ */
+export async function deliverNotification(
+  owner: AlertOwner,
+  pushTokens: string[],
+  preferences: NotificationPreferences,
+  category: NotificationCategory,
+  notification: NotificationPayload,
+  now: number = Date.now()
+): Promise<DeliveryOutcome> {
+  const notificationId = newNotificationId(now);
+  // Accounts get it in their inbox even if no device receives the push
+  const inboxId =
+    "userId" in owner ? await recordInboxNotification(owner.userId, notificationId, category, notification, now) : null;
+  const payload: NotificationPayload = {
+    ...notification,
+    data: { ...notification.data, notificationId, ...(inboxId !== null && { inboxId: String(inboxId) }) },
+  };
 
-    if (!response.ok) {
-      const text = await response.text().catch(() => "");
-      console.warn(
-        `[PriceAlertService] Push failed (${response.status}): ${text}`
-      );
-      return false;
-    }
+  if (!isDeliveryHeld(preferences, category, now)) {
+    const queued = await enqueuePush(notificationId, pushTokens, payload, now);
+    return { status: queued > 0 ? "queued" : "failed", notificationId };
+  }
 
-    const result = await response.json();
-    // Expo returns { data: [{ status: "ok" }] } on success
-    if (result?.data?.[0]?.status === "error") {
-      console.warn(
-        `[PriceAlertService] Push error: ${result.data[0].message}`
-      );
-      return false;
+  const store = await getAlertStore();
+  await store.holdNotification({
+    notificationId,
+    userId: "userId" in owner ? owner.userId : null,
+    deviceId: "deviceId" in owner ? owner.deviceId : null,
+    category,
+    title: payload.title,
+    body: payload.body,
+    data: payload.data ?? {},
+    deliverAt: nextDeliveryTime(preferences, category, now),
+    createdAt: now,
+  });
+  return { status: "held", notificationId };
+}
+
+function formatDigest(held: HeldNotification[]): NotificationPayload {
+  const lines = held.slice(0, DIGEST_MAX_ITEMS).map((n) => `• ${n.title}`);
+  if (held.length > DIGEST_MAX_ITEMS) lines.push(`and ${held.length - DIGEST_MAX_ITEMS} more`);
+  return {
+    title: `☀️ Your morning digest: ${held.length} updates`,
+    body: lines.join("\n"),
+    data: { type: "digest" },
+  };
+}
+
+/**
+ * Send held notifications that are due: one by one, or combined into one
+ * digest per recipient who chose the morning digest. Returns how many were
+ * queued for push and how many were dropped because the recipient has no
+ * devices left.
+ */
+export async function flushHeldNotifications(now: number = Date.now()): Promise<{ queued: number; failed: number }> {
+  let queued = 0;
+  let failed = 0;
+  if (!(await acquireJobLease(HELD_LEASE, CHECK_INTERVAL_MS * 2, now))) return { queued, failed };
+
+  const store = await getAlertStore();
+  const due = await store.takeDueNotifications(now);
+
+  // Group by recipient so each can get a single digest
+  const byRecipient = new Map<string, HeldNotification[]>();
+  for (const held of due) {
+    const key = held.userId !== null ? `user:${held.userId}` : `device:${held.deviceId}`;
+    byRecipient.set(key, [...(byRecipient.get(key) ?? []), held]);
+  }
+
+  for (const held of byRecipient.values()) {
+    const owner = ownerOf(held[0]);
+    if (!owner) continue;
+    const pushTokens = await pushTokensOf(store, owner);
+    const preferences = "userId" in owner ? await store.getPreferences(owner.userId) : DEFAULT_PREFERENCES;
+    const notifications =
+      preferences.heldDelivery === "morning_digest" && held.length > 1
+        ? [{ ...formatDigest(held), notificationId: newNotificationId(now) }]
+        : held.map(({ notificationId, title, body, data }) => ({ notificationId, title, body, data }));
+
+    for (const { notificationId, ...notification } of notifications) {
+      if ((await enqueuePush(notificationId, pushTokens, notification, now)) > 0) {
+        queued++;
+      } else {
+        failed++;
+      }
     }
+  }
 
-    return true;
-  } catch (error) {
-    console.warn("[PriceAlertService] Push delivery error:", error);
-    return false;
+  if (due.length > 0) {
+    await processPushQueue(now);
+    console.log(`[PriceAlertService] Held notifications: ${queued} queued, ${failed} without devices`);
   }
+  return { queued, failed };
 }
 
-// ─── Quiet Hours Check ──────────────────────────────────────────────────────
+// ─── Price Check Logic ──────────────────────────────────────────────────────
 
-function isInQuietHours(prefs: NotificationPreferences): boolean {
-  if (prefs.quietHoursStart === null || prefs.quietHoursEnd === null) {
-    return false;
+/**
+ * The rule an alert evaluates. Simple types map to one condition; moves
+ * are measured from the previous close, not the previous check.
+ */
+export function alertRule(alert: PriceAlert): AlertRule {
+  switch (alert.type) {
+    case "above":
+    case "below":
+      return {
+        match: "all",
+        conditions: [
+          { type: "compare", left: { kind: "price" }, op: alert.type, right: { kind: "value", value: alert.threshold } },
+        ],
+      };
+    case "percent_change":
+      return { match: "all", conditions: [{ type: "change", direction: "either", percent: alert.threshold }] };
+    case "rule":
+      return alert.rule ?? { match: "all", conditions: [] };
+    default:
+      // Portfolio types aren't stock rules (see checkPortfolioCondition)
+      return { match: "all", conditions: [] };
   }
+}
 
-  const now = new Date();
-  const currentHour = now.getHours();
-  const start = prefs.quietHoursStart;
-  const end = prefs.quietHoursEnd;
+/** Start of today's session including the pre-open lead, or null on non-trading days */
+function sessionStart(now: number): number | null {
+  const [session] = getTradingSessions(new Date(now), new Date(now));
+  return session ? session.open.getTime() - SESSION_LEAD_MS : null;
+}
 
-  // Handle overnight quiet hours (e.g., 22:00 - 07:00)
-  if (start > end) {
-    return currentHour >= start || currentHour < end;
+/**
+ * How long after firing an alert stays quiet. Price and value targets
+ * repeat after ALERT_COOLDOWN_MS; moves, P&L and rules describe the whole
+ * session ("up 5% today", "gap up"), so they fire at most once per session.
+ * Holding and watchlist alerts also use ALERT_COOLDOWN_MS, but name each
+ * stock only once per session (see findMovers).
+ */
+export function alertCooldownMs(alert: PriceAlert, now: number = Date.now()): number {
+  if (
+    alert.type === "above" ||
+    alert.type === "below" ||
+    alert.type === "holding_drop" ||
+    alert.scope === "watchlist"
+  ) {
+    return ALERT_COOLDOWN_MS;
   }
+  const start = sessionStart(now);
+  if (start === null) return ALERT_COOLDOWN_MS;
+  return Math.max(ALERT_COOLDOWN_MS, now - start);
+}
 
-  return currentHour >= start && currentHour < end;
+function isCoolingDown(alert: PriceAlert, now: number): boolean {
+  return alert.lastTriggered !== null && now - alert.lastTriggered < alertCooldownMs(alert, now);
 }
 
-// ─── Price Check Logic ──────────────────────────────────────────────────────
+/**
+ * Rule inputs for a stock from its live quote and daily bars. Bars from
+ * today's session are split off (their open is the gap reference); without
+ * bars the previous close stands in for history, which is all the simple
+ * alert types need.
+ */
+export function toRuleMarketData(
+  quote: StockQuote,
+  dailyBars: ChartDataPoint[] | null,
+  previousPrice: number | null,
+  now: number = Date.now()
+): RuleMarketData {
+  const [session] = getTradingSessions(new Date(now), new Date(now));
+  // Daily bars are stamped anywhere from Athens midnight to the open
+  const todayStart = session ? session.open.getTime() / 1000 - 12 * 60 * 60 : Infinity;
+  const bars = dailyBars ?? [];
+  const history = bars.filter((b) => b.timestamp < todayStart);
+  const todayBar = bars.find((b) => b.timestamp >= todayStart);
+  const { previousClose } = quote;
+
+  return {
+    history:
+      history.length > 0 || previousClose <= 0
+        ? history
+        : [{ open: previousClose, high: previousClose, low: previousClose, close: previousClose, volume: 0 }],
+    today: {
+      open: todayBar?.open ?? quote.sparkline[0] ?? quote.price,
+      high: quote.dayHigh || quote.price,
+      low: quote.dayLow || quote.price,
+      price: quote.price,
+      volume: quote.volume,
+    },
+    previousPrice,
+  };
+}
 
-function checkAlertCondition(
+export function checkAlertCondition(
   alert: PriceAlert,
-  currentPrice: number,
-  previousPrice: number | undefined
+  market: RuleMarketData,
+  now: number = Date.now()
 ): boolean {
-  if (!alert.enabled) return false;
+  if (!alert.enabled || isCoolingDown(alert, now)) return false;
+  return evaluateRule(alertRule(alert), market);
+}
 
-  // Cooldown check
-  if (
-    alert.lastTriggered &&
-    Date.now() - alert.lastTriggered < ALERT_COOLDOWN_MS
-  ) {
-    return false;
-  }
+/** Whether a portfolio value or P&L alert fires */
+export function checkPortfolioCondition(
+  alert: PriceAlert,
+  valuation: PortfolioValuation,
+  now: number = Date.now()
+): boolean {
+  if (!alert.enabled || isCoolingDown(alert, now)) return false;
 
   switch (alert.type) {
     case "above":
-      return currentPrice >= alert.threshold;
+      return valuation.totalValue >= alert.threshold;
     case "below":
-      return currentPrice <= alert.threshold;
-    case "percent_change": {
-      if (!previousPrice || previousPrice === 0) return false;
-      const change = Math.abs(
-        ((currentPrice - previousPrice) / previousPrice) * 100
-      );
-      return change >= alert.threshold;
-    }
+      return valuation.totalValue <= alert.threshold;
+    case "pnl_gain":
+      return valuation.dailyPnl >= alert.threshold;
+    case "pnl_loss":
+      return valuation.dailyPnl <= -alert.threshold;
     default:
       return false;
   }
 }
 
-function formatAlertMessage(
+/**
+ * Stocks a holding_drop or watchlist alert fires for: holdings down at
+ * least `threshold`% on the day, or watchlist stocks that moved at least
+ * `percentThreshold`% either way. Stocks in `notified` (already named this
+ * session) are left out.
+ */
+export function findMovers(
   alert: PriceAlert,
-  currentPrice: number,
-  previousPrice: number | undefined
-): NotificationPayload {
+  quotes: StockQuote[],
+  percentThreshold: number,
+  notified: Set<string> = new Set()
+): StockQuote[] {
+  return quotes.filter((q) => {
+    if (notified.has(q.id)) return false;
+    return alert.scope === "watchlist"
+      ? Math.abs(q.changePercent) >= percentThreshold
+      : q.changePercent <= -alert.threshold;
+  });
+}
+
+function formatAlertMessage(alert: PriceAlert, quote: StockQuote): NotificationPayload {
+  const currentPrice = quote.price;
   const priceStr = `€${currentPrice.toFixed(2)}`;
+  // The app's notification history reads the ticker and price from here
+  const data = {
+    stockId: quote.id,
+    stockTicker: quote.ticker,
+    actualPrice: String(currentPrice),
+    alertId: alert.id,
+    alertType: alert.type,
+    type: "price_alert",
+  };
 
   switch (alert.type) {
     case "above":
       return {
         title: `📈 ${alert.stockName} hit €${alert.threshold.toFixed(2)}`,
         body: `${alert.stockName} is now trading at ${priceStr}, above your target of €${alert.threshold.toFixed(2)}.`,
-        data: { stockId: alert.stockId, alertId: alert.id, type: "price_alert" },
+        data,
       };
     case "below":
       return {
         title: `📉 ${alert.stockName} dropped to ${priceStr}`,
         body: `${alert.stockName} is now trading at ${priceStr}, below your target of €${alert.threshold.toFixed(2)}.`,
-        data: { stockId: alert.stockId, alertId: alert.id, type: "price_alert" },
+        data,
       };
     case "percent_change": {
-      const change = previousPrice
-        ? ((currentPrice - previousPrice) / previousPrice) * 100
-        : 0;
+      const change = quote.changePercent;
       const direction = change >= 0 ? "up" : "down";
       const emoji = change >= 0 ? "🔥" : "⚠️";
       return {
         title: `${emoji} ${alert.stockName} moved ${Math.abs(change).toFixed(1)}% ${direction}`,
         body: `${alert.stockName} is now at ${priceStr} (${change >= 0 ? "+" : ""}${change.toFixed(1)}%).`,
-        data: { stockId: alert.stockId, alertId: alert.id, type: "price_alert" },
+        data,
+      };
+    }
+    default: {
+      const change = quote.changePercent;
+      return {
+        title: `🔔 ${alert.stockName} matched your alert`,
+        body: `${describeRule(alertRule(alert))}. ${alert.stockName} is now at ${priceStr} (${change >= 0 ? "+" : ""}${change.toFixed(1)}% today).`,
+        data,
       };
     }
+  }
+}
+
+function formatPortfolioMessage(alert: PriceAlert, valuation: PortfolioValuation): NotificationPayload {
+  const value = `€${valuation.totalValue.toFixed(2)}`;
+  const pnl = `${valuation.dailyPnl >= 0 ? "+" : "-"}€${Math.abs(valuation.dailyPnl).toFixed(2)}`;
+  const target = `€${alert.threshold.toFixed(2)}`;
+  const data = { alertId: alert.id, type: "price_alert", scope: "portfolio" };
+
+  switch (alert.type) {
+    case "above":
+      return {
+        title: `📈 Your portfolio passed ${target}`,
+        body: `Your demo portfolio is worth ${value} (${pnl} today), above your target of ${target}.`,
+        data,
+      };
+    case "below":
+      return {
+        title: `📉 Your portfolio fell below ${target}`,
+        body: `Your demo portfolio is worth ${value} (${pnl} today), below your target of ${target}.`,
+        data,
+      };
+    case "pnl_gain":
+      return {
+        title: `🔥 Your portfolio is up ${pnl} today`,
+        body: `Your demo portfolio gained more than ${target} today and is worth ${value}.`,
+        data,
+      };
     default:
       return {
-        title: `Price Alert: ${alert.stockName}`,
-        body: `${alert.stockName} is now at ${priceStr}.`,
-        data: { stockId: alert.stockId, alertId: alert.id, type: "price_alert" },
+        title: `⚠️ Your portfolio is down ${pnl} today`,
+        body: `Your demo portfolio lost more than ${target} today and is worth ${value}.`,
+        data,
       };
   }
 }
 
+function formatMoversMessage(alert: PriceAlert, movers: StockQuote[]): NotificationPayload {
+  const sorted = [...movers].sort((a, b) => Math.abs(b.changePercent) - Math.abs(a.changePercent));
+  const [top] = sorted;
+  const signed = (q: StockQuote) => `${q.changePercent >= 0 ? "+" : ""}${q.changePercent.toFixed(1)}%`;
+  const list =
+    sorted
+      .slice(0, 5)
+      .map((q) => `${q.ticker} ${signed(q)}`)
+      .join(", ") + (sorted.length > 5 ? ` and ${sorted.length - 5} more` : "");
+  // A single stock opens its asset screen
+  const data: Record<string, string> = { alertId: alert.id, type: "price_alert", scope: alert.scope };
+  if (sorted.length === 1) data.stockId = top.id;
+
+  if (alert.scope === "watchlist") {
+    return {
+      title:
+        sorted.length === 1
+          ? `👀 ${top.name} moved ${Math.abs(top.changePercent).toFixed(1)}% ${top.changePercent >= 0 ? "up" : "down"}`
+          : `👀 ${sorted.length} watchlist stocks are moving`,
+      body: `${list} today.`,
+      data,
+    };
+  }
+  return {
+    title:
+      sorted.length === 1
+        ? `⚠️ ${top.name} is down ${Math.abs(top.changePercent).toFixed(1)}% today`
+        : `⚠️ ${sorted.length} of your holdings are down over ${alert.threshold}% today`,
+    body: `${list}.`,
+    data,
+  };
+}
+
+/** What the check loop reads once and shares between alerts */
+interface CheckInputs {
+  quotes: Map<string, StockQuote>;
+  marketData: Map<string, RuleMarketData>;
+  portfolios: Map<number, PortfolioSnapshot>;
+  watchlists: Map<number, string[]>;
+}
+
+interface AlertFiring {
+  notification: NotificationPayload;
+  /** Logged one row per stock, or a single row without a stock for portfolio totals */
+  triggers: Pick<AlertTrigger, "stockId" | "price" | "previousPrice">[];
+}
+
+/** A firing this instance claimed, with its push */
+interface ClaimedFiring {
+  alert: PriceAlert;
+  owner: AlertOwner;
+  firing: AlertFiring;
+  claimedAt: number;
+  delivery: DeliveryOutcome;
+}
+
+/** A queued push right after the send: accepted by Expo, retrying or failed */
+function triggerStatus(delivery: DeliveryStatus | null): AlertTrigger["status"] {
+  if (delivery === "sent" || delivery === "delivered") return "sent";
+  return delivery === "queued" ? "queued" : "failed";
+}
+
+function stockTrigger(quote: StockQuote): AlertFiring["triggers"][number] {
+  return { stockId: quote.id, price: quote.price, previousPrice: quote.previousClose || null };
+}
+
+/**
+ * What an alert would send now: a firing, null if its condition isn't met,
+ * or undefined if the data it watches is missing (not counted as checked).
+ */
+async function evaluateAlert(
+  { alert, owner, preferences }: ActiveAlert,
+  inputs: CheckInputs,
+  store: AlertStore,
+  now: number
+): Promise<AlertFiring | null | undefined> {
+  if (alert.scope === "stock") {
+    const quote = alert.stockId ? inputs.quotes.get(alert.stockId) : undefined;
+    const market = alert.stockId ? inputs.marketData.get(alert.stockId) : undefined;
+    if (!quote || !market) return undefined;
+    if (!checkAlertCondition(alert, market, now)) return null;
+    return { notification: formatAlertMessage(alert, quote), triggers: [stockTrigger(quote)] };
+  }
+
+  // Portfolios and watchlists belong to accounts
+  if (!("userId" in owner)) return undefined;
+  const portfolio = inputs.portfolios.get(owner.userId);
+
+  if (alert.scope === "portfolio" && alert.type !== "holding_drop") {
+    if (!portfolio) return undefined;
+    const valuation = valuePortfolio(portfolio, inputs.quotes);
+    if (!checkPortfolioCondition(alert, valuation, now)) return null;
+    const isPnl = alert.type === "pnl_gain" || alert.type === "pnl_loss";
+    return {
+      notification: formatPortfolioMessage(alert, valuation),
+      triggers: [{ stockId: null, price: isPnl ? valuation.dailyPnl : valuation.totalValue, previousPrice: null }],
+    };
+  }
+
+  const stockIds =
+    alert.scope === "watchlist" ? inputs.watchlists.get(owner.userId) : portfolio && Object.keys(portfolio.holdings);
+  if (!stockIds) return undefined;
+  if (!alert.enabled || isCoolingDown(alert, now)) return null;
+
+  const quotes = stockIds.flatMap((id) => inputs.quotes.get(id) ?? []);
+  if (findMovers(alert, quotes, preferences.percentThreshold).length === 0) return null;
+
+  // Name each stock once per session
+  const history = await store.listAlertTriggers(alert.id, sessionStart(now) ?? now - ALERT_COOLDOWN_MS);
+  const notified = new Set(history.flatMap((t) => (t.status !== "failed" && t.stockId ? [t.stockId] : [])));
+  const movers = findMovers(alert, quotes, preferences.percentThreshold, notified);
+  if (movers.length === 0) return null;
+  return { notification: formatMoversMessage(alert, movers), triggers: movers.map(stockTrigger) };
+}
+
+/** Add one check to the alert's audit trail; a failed write doesn't stop the loop */
+async function logEvaluation(
+  store: AlertStore,
+  { alert, owner }: ActiveAlert,
+  outcome: AlertEvaluationOutcome,
+  price: number | null,
+  now: number
+): Promise<void> {
+  try {
+    await store.recordEvaluation(
+      {
+        alertId: alert.id,
+        userId: "userId" in owner ? owner.userId : null,
+        deviceId: "deviceId" in owner ? owner.deviceId : null,
+        outcome,
+        price,
+      },
+      now
+    );
+  } catch (error) {
+    console.warn(`[PriceAlertService] Failed to log check of alert ${alert.id}:`, error);
+  }
+}
+
+async function loadPortfolios(userIds: number[]): Promise<Map<number, PortfolioSnapshot>> {
+  const portfolios = new Map<number, PortfolioSnapshot>();
+  for (const userId of userIds) {
+    try {
+      const portfolio = await findPortfolio(userId);
+      if (portfolio) portfolios.set(userId, portfolio);
+    } catch (error) {
+      console.warn(`[PriceAlertService] Failed to load portfolio of user ${userId}:`, error);
+    }
+  }
+  return portfolios;
+}
+
 /**
- * Main price check loop — called periodically.
- * Fetches current prices for all stocks that have active alerts,
- * checks conditions, and sends notifications.
+ * Main price check loop — called periodically, or by an operator.
+ * Fetches current prices for every stock an active alert watches (alert
+ * stocks, holdings, watchlists), checks conditions, and sends notifications.
+ * Each run is logged (see getCheckRuns); a run requested while another is
+ * in progress is dropped.
+ *
+ * Only the instance holding the check lease runs it, and each alert is
+ * claimed in the store before sending, so a push is never duplicated even
+ * if two instances overlap while the lease changes hands.
  */
-export async function checkPriceAlerts(): Promise<{
+export async function checkPriceAlerts(source: CheckRun["source"] = "schedule"): Promise<{
   checked: number;
   triggered: number;
   sent: number;
 }> {
+  if (checkInProgress) return { checked: 0, triggered: 0, sent: 0 };
+  checkInProgress = true;
+  const startedAt = Date.now();
+  let run: Omit<CheckRun, "startedAt" | "durationMs" | "source"> = {
+    outcome: "error",
+    checked: 0,
+    triggered: 0,
+    sent: 0,
+    error: null,
+  };
+  try {
+    run = await runPriceCheck();
+    return { checked: run.checked, triggered: run.triggered, sent: run.sent };
+  } catch (error) {
+    run.error = error instanceof Error ? error.message : String(error);
+    throw error;
+  } finally {
+    checkInProgress = false;
+    checkRuns.unshift({ startedAt, durationMs: Date.now() - startedAt, source, ...run });
+    checkRuns.splice(MAX_CHECK_RUNS);
+  }
+}
+
+async function runPriceCheck(): Promise<Omit<CheckRun, "startedAt" | "durationMs" | "source">> {
   let checked = 0;
   let triggered = 0;
   let sent = 0;
+  const skipped = (outcome: CheckRunOutcome, error: string | null = null) => ({
+    outcome,
+    checked,
+    triggered,
+    sent,
+    error,
+  });
+
+  // Prices don't move while the exchange is closed (nights, weekends, holidays)
+  if (!isMarketOpen()) return skipped("market_closed");
+
+  if (!(await acquireJobLease(CHECK_LEASE, CHECK_INTERVAL_MS * 2))) {
+    return skipped("standby");
+  }
 
-  // Collect all unique stock IDs with active alerts
-  const stockIdsToCheck = new Set<string>();
-  for (const device of deviceStore.values()) {
-    if (!device.preferences.priceAlerts) continue;
-    for (const alert of device.alerts) {
-      if (alert.enabled) {
-        stockIdsToCheck.add(alert.stockId);
-      }
-    }
+  const store = await getAlertStore();
+  const activeAlerts = await store.listActiveAlerts();
+  if (activeAlerts.length === 0) return skipped("idle");
+
+  // Portfolios and watchlists of accounts with portfolio / watchlist alerts
+  const portfolioUsers = new Set<number>();
+  const watchlistUsers = new Set<number>();
+  for (const { alert, owner } of activeAlerts) {
+    if (!("userId" in owner)) continue;
+    if (alert.scope === "portfolio") portfolioUsers.add(owner.userId);
+    if (alert.scope === "watchlist") watchlistUsers.add(owner.userId);
   }
+  const portfolios = await loadPortfolios(Array.from(portfolioUsers));
+  const watchlists = await getWatchlists(Array.from(watchlistUsers)).catch((error) => {
+    console.warn("[PriceAlertService] Failed to load watchlists:", error);
+    return new Map<number, string[]>();
+  });
 
-  if (stockIdsToCheck.size === 0) return { checked, triggered, sent };
+  // Collect every stock an alert watches
+  const stockIdsToCheck = new Set<string>();
+  for (const { alert } of activeAlerts) {
+    if (alert.stockId) stockIdsToCheck.add(alert.stockId);
+  }
+  for (const portfolio of portfolios.values()) {
+    for (const stockId of Object.keys(portfolio.holdings)) stockIdsToCheck.add(stockId);
+  }
+  for (const stockIds of watchlists.values()) {
+    for (const stockId of stockIds) stockIdsToCheck.add(stockId);
+  }
+  if (stockIdsToCheck.size === 0) return skipped("idle");
 
   // Fetch current prices
   let quotes: StockQuote[];
@@ -396,48 +1028,98 @@ export async function checkPriceAlerts(): Promise<{
     quotes = await getMultipleQuotes(Array.from(stockIdsToCheck));
   } catch (error) {
     console.warn("[PriceAlertService] Failed to fetch quotes:", error);
-    return { checked, triggered, sent };
+    return skipped("error", `Failed to fetch quotes: ${error instanceof Error ? error.message : String(error)}`);
   }
 
-  // Build price map
-  const priceMap = new Map<string, number>();
+  const priceMap = new Map(quotes.map((q) => [q.id, q.price]));
+  const lastKnownPrices = await store.getLastPrices();
+
+  // Daily history only for stocks with rule alerts, as deep as the deepest rule
+  const lookbacks = new Map<string, number>();
+  for (const { alert } of activeAlerts) {
+    if (alert.type !== "rule" || !alert.stockId) continue;
+    lookbacks.set(alert.stockId, Math.max(lookbacks.get(alert.stockId) ?? 0, ruleLookback(alertRule(alert))));
+  }
+  const marketData = new Map<string, RuleMarketData>();
   for (const quote of quotes) {
-    priceMap.set(quote.id, quote.price);
+    const sessions = lookbacks.get(quote.id);
+    const bars = sessions
+      ? await getDailyHistory(quote.id, sessions).catch((error) => {
+          console.warn(`[PriceAlertService] Daily history unavailable for ${quote.id}:`, error);
+          return null;
+        })
+      : null;
+    marketData.set(quote.id, toRuleMarketData(quote, bars, lastKnownPrices.get(quote.id) ?? null));
   }
 
-  // Check each device's alerts
-  for (const device of deviceStore.values()) {
-    if (!device.preferences.priceAlerts) continue;
-    if (isInQuietHours(device.preferences)) continue;
+  const inputs: CheckInputs = {
+    quotes: new Map(quotes.map((q) => [q.id, q])),
+    marketData,
+    portfolios,
+    watchlists,
+  };
+
+  // Pushes are queued during the loop and sent together afterwards
+  const fired: ClaimedFiring[] = [];
+  for (const active of activeAlerts) {
+    const { alert, owner, pushTokens, preferences } = active;
+
+    const evaluatedAt = Date.now();
+    const firing = await evaluateAlert(active, inputs, store, evaluatedAt);
+    if (firing === undefined) {
+      await logEvaluation(store, active, "no_data", null, evaluatedAt);
+      continue;
+    }
+    checked++;
+    if (!firing) {
+      const price = alert.stockId ? inputs.quotes.get(alert.stockId)?.price ?? null : null;
+      await logEvaluation(store, active, isCoolingDown(alert, evaluatedAt) ? "cooling_down" : "not_met", price, evaluatedAt);
+      continue;
+    }
+
+    // Another instance may have sent this alert since we read it
+    const claimedAt = Date.now();
+    const price = firing.triggers[0]?.price ?? null;
+    if (!(await store.claimAlert(alert.id, claimedAt, alertCooldownMs(alert, claimedAt)))) {
+      await logEvaluation(store, active, "claimed_elsewhere", price, claimedAt);
+      continue;
+    }
 
-    for (const alert of device.alerts) {
-      const currentPrice = priceMap.get(alert.stockId);
-      if (currentPrice === undefined) continue;
+    await logEvaluation(store, active, "fired", price, claimedAt);
+    triggered++;
+    const delivery = await deliverNotification(owner, pushTokens, preferences, "alerts", firing.notification, claimedAt);
+    fired.push({ alert, owner, firing, claimedAt, delivery });
+  }
 
-      checked++;
-      const previousPrice = lastKnownPrices.get(alert.stockId);
+  if (fired.some((f) => f.delivery.status === "queued")) await processPushQueue();
 
-      if (checkAlertCondition(alert, currentPrice, previousPrice)) {
-        triggered++;
-        const notification = formatAlertMessage(alert, currentPrice, previousPrice);
+  for (const { alert, owner, firing, claimedAt, delivery } of fired) {
+    const status = delivery.status === "queued" ? triggerStatus(await getDeliveryStatus(delivery.notificationId)) : delivery.status;
 
-        const success = await sendPushNotification(
-          device.pushToken,
-          notification
-        );
+    if (status === "sent") {
+      sent++;
+    } else if (status === "failed") {
+      // Let the next check retry instead of waiting out the cooldown
+      await store.releaseAlert(alert.id, claimedAt, alert.lastTriggered);
+    }
 
-        if (success) {
-          sent++;
-          alert.lastTriggered = Date.now();
-        }
-      }
+    for (const trigger of firing.triggers) {
+      await store.recordTrigger({
+        ...trigger,
+        alertId: alert.id,
+        userId: "userId" in owner ? owner.userId : null,
+        deviceId: "deviceId" in owner ? owner.deviceId : null,
+        title: firing.notification.title,
+        body: firing.notification.body,
+        status,
+        notificationId: delivery.notificationId,
+        triggeredAt: claimedAt,
+      });
     }
   }
 
   // Update last known prices
-  for (const [stockId, price] of priceMap) {
-    lastKnownPrices.set(stockId, price);
-  }
+  await store.setLastPrices(priceMap);
 
   if (triggered > 0) {
     console.log(
@@ -445,11 +1127,120 @@ export async function checkPriceAlerts(): Promise<{
     );
   }
 
-  return { checked, triggered, sent };
+  return { outcome: "completed", checked, triggered, sent, error: null };
+}
+
+// ─── Backtest ───────────────────────────────────────────────────────────────
+
+/**
+ * Prices the check loop would have seen during a session: daily bars only
+ * have open, high, low and close, so the price is taken to move in straight
+ * lines open → low → high → close on up days (open → high → low → close on
+ * down days), sampled every CHECK_INTERVAL_MS from the open to the close.
+ */
+function replaySession(bar: ChartDataPoint, open: number, close: number): { timestamp: number; today: RuleMarketData["today"] }[] {
+  const path = bar.close >= bar.open ? [bar.open, bar.low, bar.high, bar.close] : [bar.open, bar.high, bar.low, bar.close];
+  const steps = Math.max(1, Math.floor((close - open) / CHECK_INTERVAL_MS));
+  const checks = [];
+  let high = bar.open;
+  let low = bar.open;
+  for (let i = 0; i <= steps; i++) {
+    // Position along the three legs of the path
+    const at = (i / steps) * (path.length - 1);
+    const leg = Math.min(Math.floor(at), path.length - 2);
+    const price = path[leg] + (path[leg + 1] - path[leg]) * (at - leg);
+    high = Math.max(high, price);
+    low = Math.min(low, price);
+    checks.push({
+      timestamp: open + (i / steps) * (close - open),
+      today: { open: bar.open, high, low, price, volume: bar.volume * (i / steps) },
+    });
+  }
+  return checks;
+}
+
+/**
+ * Replay daily bars through checkAlertCondition(): each session between
+ * `from` and `until` is checked as the loop would have (see replaySession), with the
+ * sessions before it as history and the cooldown applied after every
+ * firing. Portfolio and watchlist alerts can't be replayed.
+ */
+export function replayAlert(
+  alert: PriceAlert,
+  bars: ChartDataPoint[],
+  from: number,
+  until: number = Infinity
+): AlertBacktest {
+  let replayed: PriceAlert = { ...alert, enabled: true, lastTriggered: null };
+  const firings: AlertBacktest["firings"] = [];
+  let sessions = 0;
+  let sessionsFired = 0;
+  let first: number | null = null;
+  let last: number | null = null;
+
+  bars.forEach((bar, i) => {
+    const [session] = getTradingSessions(new Date(bar.timestamp * 1000), new Date(bar.timestamp * 1000));
+    if (!session || session.close.getTime() < from || session.close.getTime() > until) return;
+
+    const history = bars.slice(0, i).map(({ open, high, low, close, volume }) => ({ open, high, low, close, volume }));
+    const fired = firings.length;
+    let previousPrice: number | null = null;
+    for (const { timestamp, today } of replaySession(bar, session.open.getTime(), session.close.getTime())) {
+      if (checkAlertCondition(replayed, { history, today, previousPrice }, timestamp)) {
+        firings.push({ timestamp, price: today.price });
+        replayed = { ...replayed, lastTriggered: timestamp };
+      }
+      previousPrice = today.price;
+    }
+
+    sessions++;
+    if (firings.length > fired) sessionsFired++;
+    first ??= session.open.getTime();
+    last = session.close.getTime();
+  });
+
+  return { from: first ?? from, to: last ?? from, sessions, sessionsFired, firings };
+}
+
+/**
+ * How often a stock alert would have fired over the last 3 months, from
+ * the stock's stored daily history. Null when there's no history.
+ */
+export async function backtestAlert(input: BacktestInput, now: number = Date.now()): Promise<AlertBacktest | null> {
+  const alert: PriceAlert = {
+    id: "backtest",
+    scope: "stock",
+    stockId: input.stockId,
+    stockName: input.stockId,
+    type: input.type,
+    threshold: input.threshold,
+    rule: input.rule,
+    enabled: true,
+    lastTriggered: null,
+    createdAt: now,
+  };
+  const bars = await getDailyHistory(input.stockId, BACKTEST_SESSIONS + ruleLookback(alertRule(alert)));
+  if (!bars || bars.length === 0) return null;
+  // Today's bar is incomplete until the close
+  return replayAlert(alert, bars, now - BACKTEST_DAYS * 24 * 60 * 60 * 1000, now);
 }
 
 // ─── Service Lifecycle ──────────────────────────────────────────────────────
 
+/**
+ * Called once at server startup: reloads persisted registrations and starts
+ * the check loop, so alerts keep firing after a deploy or crash without
+ * waiting for a device to register again.
+ */
+export async function initPriceAlertService(): Promise<void> {
+  const store = await getAlertStore();
+  const stats = await store.getStats();
+  console.log(
+    `[PriceAlertService] Loaded ${stats.registeredDevices} devices (${stats.linkedDevices} signed in) and ${stats.activeAlerts}/${stats.totalAlerts} active alerts (${store.name} store)`
+  );
+  startPriceAlertService();
+}
+
 export function startPriceAlertService(): void {
   if (checkInterval) {
     console.warn("[PriceAlertService] Service already running");
@@ -459,12 +1250,19 @@ export function startPriceAlertService(): void {
   console.log(
     `[PriceAlertService] Starting price alert service (interval: ${CHECK_INTERVAL_MS / 1000}s)`
   );
+  startPushDelivery();
 
   // Run initial check after a short delay
   setTimeout(() => {
     checkPriceAlerts().catch((err) =>
       console.warn("[PriceAlertService] Initial check failed:", err)
     );
+    checkOpenOrders().catch((err) =>
+      console.warn("[PriceAlertService] Initial order check failed:", err)
+    );
+    flushHeldNotifications().catch((err) =>
+      console.warn("[PriceAlertService] Initial held notification flush failed:", err)
+    );
   }, 10_000);
 
   // Set up periodic checks
@@ -472,6 +1270,12 @@ export function startPriceAlertService(): void {
     checkPriceAlerts().catch((err) =>
       console.warn("[PriceAlertService] Periodic check failed:", err)
     );
+    checkOpenOrders().catch((err) =>
+      console.warn("[PriceAlertService] Periodic order check failed:", err)
+    );
+    flushHeldNotifications().catch((err) =>
+      console.warn("[PriceAlertService] Held notification flush failed:", err)
+    );
   }, CHECK_INTERVAL_MS);
 }
 
@@ -479,6 +1283,7 @@ export function stopPriceAlertService(): void {
   if (checkInterval) {
     clearInterval(checkInterval);
     checkInterval = null;
+    stopPushDelivery();
     console.log("[PriceAlertService] Service stopped");
   }
 }
@@ -489,26 +1294,43 @@ export function isServiceRunning(): boolean {
 
 // ─── Stats ──────────────────────────────────────────────────────────────────
 
-export function getServiceStats() {
-  let totalAlerts = 0;
-  let activeAlerts = 0;
-  const stocksMonitored = new Set<string>();
-
-  for (const device of deviceStore.values()) {
-    for (const alert of device.alerts) {
-      totalAlerts++;
-      if (alert.enabled) {
-        activeAlerts++;
-        stocksMonitored.add(alert.stockId);
-      }
-    }
-  }
-
+export async function getServiceStats() {
+  const store = await getAlertStore();
   return {
-    registeredDevices: deviceStore.size,
-    totalAlerts,
-    activeAlerts,
-    stocksMonitored: stocksMonitored.size,
+    ...(await store.getStats()),
+    store: store.name,
     isRunning: isServiceRunning(),
+    checkInProgress,
+    checkIntervalMs: CHECK_INTERVAL_MS,
+    marketPhase: getMarketPhase(),
   };
 }
+
+/** Latest check runs on this instance, newest first */
+export function getCheckRuns(limit: number = MAX_CHECK_RUNS): CheckRun[] {
+  return checkRuns.slice(0, limit);
+}
+
+export function isCheckInProgress(): boolean {
+  return checkInProgress;
+}
+
+/**
+ * Most recently seen devices of all accounts, for the admin dashboard. Push
+ * tokens are masked: anyone holding one can push to the device.
+ */
+export async function getRecentDevices(limit: number): Promise<DeviceRegistration[]> {
+  const store = await getAlertStore();
+  const devices = await store.listRecentDevices(limit);
+  return devices.map((device) => ({
+    ...device,
+    pushToken: device.pushToken.replace(/\[(.{4}).+(.{4})\]$/, "[$1…$2]"),
+  }));
+}
+
+/** Alerts and triggers per stock, busiest first; triggers counted since `since` (unix ms) */
+export async function getAlertVolume(since: number): Promise<StockAlertVolume[]> {
+  const store = await getAlertStore();
+  const volume = await store.getAlertVolume(since);
+  return volume.sort((a, b) => b.triggers - a.triggers || b.alerts - a.alerts || a.stockId.localeCompare(b.stockId));
+}
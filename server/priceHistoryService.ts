@@ -0,0 +1,409 @@
+/**
+ * AGRX Price History Service
+ *
+ * Persistent OHLCV store in the `price_bars` table, so charts survive
+ * restarts and stop re-downloading history on every request.
+ *
+ * - Three stored intervals: 5m (1D charts), 15m (1W) and 1d (everything
+ *   else; weekly and monthly bars are aggregated on read)
+ * - Incremental sync: only bars from the latest stored one onwards are
+ *   fetched from the market data provider; the latest bar is rewritten in
+ *   case it was stored mid-session
+ * - Daily history is backfilled with Yahoo's "max" range, so ALL charts
+ *   reach back past the 5y limit of a single chart request
+ * - A background job keeps daily bars of every symbol current and prunes
+ *   old intraday bars
+ *
+ * Without a database every read returns null and stockService falls back
+ * to the provider directly.
+ */
+import { and, asc, eq, gte, lt, max, sql } from "drizzle-orm";
+import { ENV } from "./_core/env";
+import { getDb } from "./db";
+import { priceBars, type InsertPriceBar } from "../drizzle/schema";
+import { getTradingSessions } from "../shared/market-calendar.js";
+import {
+  aggregateBars,
+  getMarketDataProvider,
+  type ChartRange,
+  type MarketSymbol,
+} from "./marketDataProvider";
+import { ATHEX_SYMBOLS, type ChartDataPoint, type ChartResponse } from "./stockService";
+
+// ─── Types ──────────────────────────────────────────────────────────────────
+
+export type StoredInterval = "5m" | "15m" | "1d";
+
+type Db = NonNullable<Awaited<ReturnType<typeof getDb>>>;
+
+export interface BackfillResult {
+  symbols: number;
+  /** Bars written (new or rewritten) */
+  bars: number;
+  failed: number;
+  /** Old intraday bars deleted */
+  pruned: number;
+}
+
+// ─── Constants ──────────────────────────────────────────────────────────────
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Which stored bars serve each chart range, and the interval / range reported */
+const RANGE_SOURCES: Record<ChartRange, { interval: StoredInterval; output: string; range: string }> = {
+  "1D": { interval: "5m", output: "5m", range: "1d" },
+  "1W": { interval: "15m", output: "15m", range: "5d" },
+  "1M": { interval: "1d", output: "1d", range: "1mo" },
+  "3M": { interval: "1d", output: "1d", range: "3mo" },
+  "1Y": { interval: "1d", output: "1wk", range: "1y" },
+  ALL: { interval: "1d", output: "1mo", range: "max" },
+};
+
+/** Calendar days read from the store per range; ALL reads everything */
+const RANGE_DAYS: Record<ChartRange, number> = {
+  "1D": 7, // then cut to the latest session
+  "1W": 14, // then cut to the last five sessions
+  "1M": 30,
+  "3M": 91,
+  "1Y": 365,
+  ALL: Infinity,
+};
+
+/** Provider lookbacks from shortest to longest, with the days each covers */
+const TAIL_RANGES: { range: string; days: number }[] = [
+  { range: "1d", days: 1 },
+  { range: "5d", days: 5 },
+  { range: "1mo", days: 30 },
+  { range: "3mo", days: 90 },
+  { range: "1y", days: 365 },
+  { range: "5y", days: 5 * 365 },
+  { range: "max", days: Infinity },
+];
+
+/** Longest lookback per stored interval (Yahoo only keeps recent intraday bars) */
+const MAX_RANGE: Record<StoredInterval, string> = {
+  "5m": "5d",
+  "15m": "1mo",
+  "1d": "max",
+};
+
+/** Check the provider for new bars at most this often */
+const SYNC_TTL_MS: Record<StoredInterval, number> = {
+  "5m": 60_000,
+  "15m": 300_000,
+  "1d": 300_000,
+};
+
+/** Intraday bars older than this are pruned by the backfill job */
+const RETENTION_DAYS: Partial<Record<StoredInterval, number>> = {
+  "5m": 10,
+  "15m": 45,
+};
+
+const INSERT_BATCH_SIZE = 500;
+
+// ─── State ──────────────────────────────────────────────────────────────────
+
+/** Replaces the app database when set (setPriceHistoryDb) */
+let dbOverride: Db | null = null;
+
+const lastSyncedAt = new Map<string, number>();
+const inFlightSyncs = new Map<string, Promise<number>>();
+
+let backfillInterval: ReturnType<typeof setInterval> | null = null;
+let backfillRunning = false;
+let lastBackfillAt: number | null = null;
+let lastBackfillResult: BackfillResult | null = null;
+
+// ─── Helpers ────────────────────────────────────────────────────────────────
+
+async function historyDb(): Promise<Db | null> {
+  return dbOverride ?? getDb();
+}
+
+function syncKey(stockId: string, interval: StoredInterval): string {
+  return `${stockId}:${interval}`;
+}
+
+/** Shortest provider lookback that reaches back to `latest` (unix seconds) */
+function tailRange(latest: number, interval: StoredInterval, now: number = Date.now()): string {
+  // One extra day so the latest stored bar is always refetched
+  const gapDays = (now - latest * 1000) / DAY_MS + 1;
+  const limit = TAIL_RANGES.findIndex((r) => r.range === MAX_RANGE[interval]);
+  const index = TAIL_RANGES.findIndex((r) => r.days >= gapDays);
+  return TAIL_RANGES[index === -1 ? limit : Math.min(index, limit)].range;
+}
+
+async function upsertBars(stockId: string, interval: StoredInterval, bars: ChartDataPoint[]): Promise<void> {
+  const db = await historyDb();
+  if (!db || bars.length === 0) return;
+
+  for (let i = 0; i < bars.length; i += INSERT_BATCH_SIZE) {
+    const rows: InsertPriceBar[] = bars.slice(i, i + INSERT_BATCH_SIZE).map((bar) => ({
+      stockId,
+      interval,
+      timestamp: bar.timestamp,
+      open: bar.open,
+      high: bar.high,
+      low: bar.low,
+      close: bar.close,
+      volume: bar.volume,
+    }));
+    await db
+      .insert(priceBars)
+      .values(rows)
+      .onDuplicateKeyUpdate({
+        set: {
+          open: sql`values(${priceBars.open})`,
+          high: sql`values(${priceBars.high})`,
+          low: sql`values(${priceBars.low})`,
+          close: sql`values(${priceBars.close})`,
+          volume: sql`values(${priceBars.volume})`,
+        },
+      });
+  }
+}
+
+/** Start of the window a range reads, in unix seconds */
+function rangeStart(range: ChartRange, now: number): number {
+  const days = RANGE_DAYS[range];
+  return Number.isFinite(days) ? Math.floor((now - days * DAY_MS) / 1000) : 0;
+}
+
+/** Keep only the bars of the last `count` trading sessions */
+function lastSessions(bars: ChartDataPoint[], count: number): ChartDataPoint[] {
+  if (bars.length === 0) return bars;
+  const last = new Date(bars[bars.length - 1].timestamp * 1000);
+  const sessions = getTradingSessions(new Date(last.getTime() - 14 * DAY_MS), last);
+  const first = sessions[Math.max(0, sessions.length - count)];
+  if (!first) return bars;
+  // Any bar from that session's morning onwards (pre-open bars included)
+  const cutoff = Math.floor(first.open.getTime() / 1000) - 60 * 60;
+  return bars.filter((b) => b.timestamp >= cutoff);
+}
+
+/** Sync the missing tail when the last sync is older than SYNC_TTL_MS */
+async function syncIfStale(symbol: MarketSymbol, interval: StoredInterval): Promise<void> {
+  const key = syncKey(symbol.id, interval);
+  if (Date.now() - (lastSyncedAt.get(key) ?? 0) <= SYNC_TTL_MS[interval]) return;
+  try {
+    await syncPriceBars(symbol, interval);
+  } catch (error) {
+    // Serve whatever is stored; the next request retries the sync
+    console.warn(`[PriceHistory] Tail sync failed for ${key}:`, error);
+  }
+}
+
+// ─── Reads ──────────────────────────────────────────────────────────────────
+
+/**
+ * Stored bars for a stock since `since` (unix seconds), oldest first.
+ * Returns an empty list without a database.
+ */
+export async function getStoredBars(
+  stockId: string,
+  interval: StoredInterval,
+  since: number = 0,
+): Promise<ChartDataPoint[]> {
+  const db = await historyDb();
+  if (!db) return [];
+
+  return db
+    .select({
+      timestamp: priceBars.timestamp,
+      open: priceBars.open,
+      high: priceBars.high,
+      low: priceBars.low,
+      close: priceBars.close,
+      volume: priceBars.volume,
+    })
+    .from(priceBars)
+    .where(
+      and(
+        eq(priceBars.stockId, stockId),
+        eq(priceBars.interval, interval),
+        gte(priceBars.timestamp, since),
+      ),
+    )
+    .orderBy(asc(priceBars.timestamp));
+}
+
+/**
+ * A chart served from the store, syncing the missing tail first when the
+ * last sync is older than SYNC_TTL_MS. Returns null without a database or
+ * when nothing is stored for the range, so callers can fall back to the
+ * provider.
+ */
+export async function getStoredChart(symbol: MarketSymbol, range: ChartRange): Promise<ChartResponse | null> {
+  const db = await historyDb();
+  if (!db) return null;
+
+  const source = RANGE_SOURCES[range];
+  await syncIfStale(symbol, source.interval);
+
+  const bars = await getStoredBars(symbol.id, source.interval, rangeStart(range, Date.now()));
+  const data =
+    range === "1D"
+      ? lastSessions(bars, 1)
+      : range === "1W"
+      ? lastSessions(bars, 5)
+      : source.output === "1wk" || source.output === "1mo"
+      ? aggregateBars(bars, source.output)
+      : bars;
+  if (data.length === 0) return null;
+
+  return {
+    symbol: symbol.yahoo,
+    interval: source.output,
+    range: source.range,
+    data,
+    meta: {
+      currency: "EUR",
+      exchange: "ATH",
+      regularMarketPrice: data[data.length - 1].close,
+    },
+  };
+}
+
+/**
+ * Daily bars since `since` (unix seconds), oldest first, synced like
+ * charts. The last bar is today's session while the market is open. Returns
+ * null without a database or when nothing is stored.
+ */
+export async function getStoredDailyBars(symbol: MarketSymbol, since: number): Promise<ChartDataPoint[] | null> {
+  const db = await historyDb();
+  if (!db) return null;
+
+  await syncIfStale(symbol, "1d");
+  const bars = await getStoredBars(symbol.id, "1d", since);
+  return bars.length > 0 ? bars : null;
+}
+
+// ─── Sync ───────────────────────────────────────────────────────────────────
+
+/**
+ * Fetch bars from the latest stored one onwards (or the full history when
+ * nothing is stored) and upsert them. Concurrent calls for the same stock
+ * and interval share one fetch. Returns the number of bars written.
+ */
+export function syncPriceBars(symbol: MarketSymbol, interval: StoredInterval): Promise<number> {
+  const key = syncKey(symbol.id, interval);
+  const existing = inFlightSyncs.get(key);
+  if (existing) return existing;
+
+  const sync = (async () => {
+    const db = await historyDb();
+    if (!db) return 0;
+
+    const [row] = await db
+      .select({ latest: max(priceBars.timestamp) })
+      .from(priceBars)
+      .where(and(eq(priceBars.stockId, symbol.id), eq(priceBars.interval, interval)));
+    const latest = row?.latest ?? null;
+
+    const range = latest === null ? MAX_RANGE[interval] : tailRange(latest, interval);
+    const chart = await getMarketDataProvider().getChart(symbol, { interval, range });
+    lastSyncedAt.set(key, Date.now());
+    if (!chart) return 0;
+
+    const bars = latest === null ? chart.data : chart.data.filter((b) => b.timestamp >= latest);
+    await upsertBars(symbol.id, interval, bars);
+    return bars.length;
+  })().finally(() => inFlightSyncs.delete(key));
+
+  inFlightSyncs.set(key, sync);
+  return sync;
+}
+
+async function pruneIntradayBars(now: number = Date.now()): Promise<number> {
+  const db = await historyDb();
+  if (!db) return 0;
+
+  let pruned = 0;
+  for (const [interval, days] of Object.entries(RETENTION_DAYS)) {
+    const cutoff = Math.floor((now - (days ?? 0) * DAY_MS) / 1000);
+    const [result] = await db
+      .delete(priceBars)
+      .where(and(eq(priceBars.interval, interval), lt(priceBars.timestamp, cutoff)));
+    pruned += result.affectedRows;
+  }
+  return pruned;
+}
+
+// ─── Backfill Job ───────────────────────────────────────────────────────────
+
+/**
+ * Bring the daily bars of every symbol up to date, one symbol at a time to
+ * stay within provider quotas, then prune old intraday bars.
+ */
+export async function runPriceBackfill(): Promise<BackfillResult> {
+  const result: BackfillResult = { symbols: 0, bars: 0, failed: 0, pruned: 0 };
+  const db = await historyDb();
+  if (!db || backfillRunning) return result;
+
+  backfillRunning = true;
+  try {
+    for (const [id, info] of Object.entries(ATHEX_SYMBOLS)) {
+      try {
+        result.bars += await syncPriceBars({ id, yahoo: info.yahoo, name: info.name }, "1d");
+        result.symbols++;
+      } catch (error) {
+        result.failed++;
+        console.warn(`[PriceHistory] Backfill failed for ${id}:`, error);
+      }
+    }
+    result.pruned = await pruneIntradayBars();
+
+    console.log(
+      `[PriceHistory] Backfill complete: ${result.symbols} symbols, ${result.bars} bars, ${result.failed} failed, ${result.pruned} pruned`,
+    );
+    lastBackfillAt = Date.now();
+    lastBackfillResult = result;
+    return result;
+  } finally {
+    backfillRunning = false;
+  }
+}
+
+/**
+ * Run the backfill shortly after startup and then every
+ * ENV.priceBackfillIntervalMs. Does nothing without a database or when the
+ * interval is 0.
+ */
+export function startPriceBackfill(): void {
+  if (backfillInterval || !ENV.databaseUrl || ENV.priceBackfillIntervalMs <= 0) return;
+
+  console.log(
+    `[PriceHistory] Starting backfill job (interval: ${Math.round(ENV.priceBackfillIntervalMs / 60_000)}m)`,
+  );
+
+  setTimeout(() => {
+    runPriceBackfill().catch((err) => console.warn("[PriceHistory] Initial backfill failed:", err));
+  }, 30_000);
+
+  backfillInterval = setInterval(() => {
+    runPriceBackfill().catch((err) => console.warn("[PriceHistory] Periodic backfill failed:", err));
+  }, ENV.priceBackfillIntervalMs);
+}
+
+export function stopPriceBackfill(): void {
+  if (backfillInterval) {
+    clearInterval(backfillInterval);
+    backfillInterval = null;
+  }
+}
+
+/** Replace the database (tests), or pass null to use the app's again. Forgets every sync. */
+export function setPriceHistoryDb(next: Db | null): void {
+  dbOverride = next;
+  lastSyncedAt.clear();
+}
+
+export function getPriceBackfillStats() {
+  return {
+    isRunning: backfillInterval !== null,
+    inProgress: backfillRunning,
+    lastRunAt: lastBackfillAt,
+    lastResult: lastBackfillResult,
+  };
+}
@@ -0,0 +1,375 @@
+/**
+ * AGRX Push Delivery Service
+ *
+ * Queue between the notification code and the Expo Push API. Callers
+ * enqueue a notification for a recipient's device tokens; the queue sends
+ * whatever is due in batches of up to 100 messages (Expo's limit per
+ * request), then fetches push receipts to learn whether each message
+ * reached Apple or Google.
+ *
+ * Architecture:
+ * - Messages live in the alert store (push_messages, or memory without a
+ *   database) and are claimed before each send or receipt check, so
+ *   several server instances never send the same message twice
+ * - Rate limiting (429), Expo outages (5xx), network errors and
+ *   MessageRateExceeded are retried with exponential backoff, up to
+ *   MAX_ATTEMPTS sends; any other error fails the message
+ * - Receipts are fetched RECEIPT_DELAY_MS after the send, as Expo suggests
+ * - DeviceNotRegistered, on a ticket or a receipt, removes every device
+ *   registered with that token
+ * - The messages of one notification to all of a recipient's devices share
+ *   a notification ID; getDeliveryStatus() sums them up
+ */
+import { ENV } from "./_core/env";
+import { getAlertStore, type AlertStore, type PushMessage } from "./alertStore";
+import type { NotificationPayload } from "./priceAlertService";
+
+// ─── Types ──────────────────────────────────────────────────────────────────
+
+/**
+ * A notification's progress across its devices: "delivered" once any device
+ * has a successful receipt, "failed" when none can get it any more
+ */
+export type DeliveryStatus = "queued" | "sent" | "delivered" | "failed";
+
+export interface PushQueueResult {
+  sent: number;
+  failed: number;
+  /** Transient failures scheduled for another attempt */
+  retrying: number;
+}
+
+export interface PushReceiptResult {
+  delivered: number;
+  failed: number;
+  /** Receipts Expo doesn't have yet */
+  pending: number;
+}
+
+/** Expo push ticket or receipt */
+interface ExpoResult {
+  status: "ok" | "error";
+  /** Ticket ID; tickets only */
+  id?: string;
+  message?: string;
+  details?: { error?: string };
+}
+
+type ExpoResponse<T> =
+  | { ok: true; data: T }
+  | { ok: false; error: string; transient: boolean; retryAfterMs: number | null };
+
+interface PushFailure {
+  error: string;
+  /** Expo error code, e.g. "DeviceNotRegistered" */
+  code: string | null;
+  transient: boolean;
+  retryAfterMs?: number | null;
+}
+
+// ─── Constants ──────────────────────────────────────────────────────────────
+
+/** Messages per /send request (Expo's limit) */
+const SEND_BATCH_SIZE = 100;
+
+/** Ticket IDs per /getReceipts request (Expo's limit) */
+const RECEIPT_BATCH_SIZE = 1000;
+
+/** Sends before a transient failure becomes permanent */
+const MAX_ATTEMPTS = 5;
+
+/** First retry delay; doubles with every attempt up to RETRY_MAX_MS */
+const RETRY_BASE_MS = 30_000;
+const RETRY_MAX_MS = 15 * 60 * 1000;
+
+/** Wait after a send before asking for its receipt */
+const RECEIPT_DELAY_MS = 15 * 60 * 1000;
+
+/** Expo keeps receipts for a day; after that the outcome is unknown */
+const RECEIPT_TTL_MS = 24 * 60 * 60 * 1000;
+
+/** How long a claimed message stays with the instance working on it */
+const CLAIM_MS = 2 * 60 * 1000;
+
+/** How often retries and receipts are picked up */
+const DELIVERY_INTERVAL_MS = 30_000;
+
+/** Ticket and receipt errors worth another try */
+const TRANSIENT_ERRORS = new Set(["MessageRateExceeded"]);
+
+/** Android notification channel created by the app */
+const ANDROID_CHANNEL_ID = "price-alerts";
+
+let deliveryInterval: ReturnType<typeof setInterval> | null = null;
+let deliveryRunning = false;
+
+// ─── Queue ──────────────────────────────────────────────────────────────────
+
+export function newNotificationId(now: number = Date.now()): string {
+  return `push-${now}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * Queue a notification for each of a recipient's device tokens; it goes
+ * out on the next processPushQueue(). Returns the number of messages
+ * queued.
+ */
+export async function enqueuePush(
+  notificationId: string,
+  pushTokens: string[],
+  notification: NotificationPayload,
+  now: number = Date.now()
+): Promise<number> {
+  const tokens = Array.from(new Set(pushTokens));
+  if (tokens.length === 0) return 0;
+
+  const store = await getAlertStore();
+  await store.enqueuePushMessages(
+    tokens.map((pushToken) => ({
+      notificationId,
+      pushToken,
+      title: notification.title,
+      body: notification.body,
+      data: notification.data ?? {},
+      status: "queued",
+      attempts: 0,
+      nextAttemptAt: now,
+      ticketId: null,
+      error: null,
+      createdAt: now,
+    }))
+  );
+  return tokens.length;
+}
+
+/** Delivery status of a notification, or null if nothing was queued for it */
+export async function getDeliveryStatus(notificationId: string): Promise<DeliveryStatus | null> {
+  const store = await getAlertStore();
+  const messages = await store.listPushMessages(notificationId);
+  if (messages.length === 0) return null;
+  for (const status of ["delivered", "sent", "queued"] as const) {
+    if (messages.some((m) => m.status === status)) return status;
+  }
+  return "failed";
+}
+
+// ─── Expo Push API ──────────────────────────────────────────────────────────
+
+async function postToExpo<T>(endpoint: "send" | "getReceipts", payload: unknown): Promise<ExpoResponse<T>> {
+  try {
+    const response = await fetch(`${ENV.expoPushApiUrl}/${endpoint}`, {
+      method: "POST",
+      headers: {
+        Accept: "application/json",
+        "Accept-Encoding": "gzip, deflate",
+        "Content-Type": "application/json",
+        ...(ENV.expoAccessToken ? { Authorization: `Bearer ${ENV.expoAccessToken}` } : {}),
+      },
+      body: JSON.stringify(payload),
+    });
+
+    if (!response.ok) {
+      const text = await response.text().catch(() => "");
+      const retryAfter = Number(response.headers.get("retry-after"));
+      return {
+        ok: false,
+        error: `Expo ${endpoint} failed (${response.status}): ${text.slice(0, 200)}`,
+        transient: response.status === 429 || response.status >= 500,
+        retryAfterMs: retryAfter > 0 ? retryAfter * 1000 : null,
+      };
+    }
+
+    const result = await response.json();
+    if (!result?.data) {
+      return { ok: false, error: `Expo ${endpoint} returned no data`, transient: true, retryAfterMs: null };
+    }
+    return { ok: true, data: result.data as T };
+  } catch (error) {
+    return { ok: false, error: `Expo ${endpoint} unreachable: ${String(error)}`, transient: true, retryAfterMs: null };
+  }
+}
+
+function toExpoMessage(message: PushMessage) {
+  return {
+    to: message.pushToken,
+    sound: "default",
+    title: message.title,
+    body: message.body,
+    data: message.data,
+    priority: "high",
+    channelId: ANDROID_CHANNEL_ID,
+  };
+}
+
+function resultFailure(result: ExpoResult | undefined, missing: string): PushFailure {
+  const code = result?.details?.error ?? null;
+  return {
+    error: result?.message ?? code ?? missing,
+    code,
+    transient: code !== null && TRANSIENT_ERRORS.has(code),
+  };
+}
+
+// ─── Delivery ───────────────────────────────────────────────────────────────
+
+function retryDelayMs(attempts: number): number {
+  return Math.min(RETRY_BASE_MS * 2 ** Math.max(attempts - 1, 0), RETRY_MAX_MS);
+}
+
+async function pruneToken(store: AlertStore, pushToken: string): Promise<void> {
+  const removed = await store.deleteDevicesByToken(pushToken);
+  if (removed > 0) {
+    console.log(`[PushDelivery] Removed ${removed} device(s) whose token is no longer registered`);
+  }
+}
+
+/**
+ * Record a failed send or receipt: prune a dead token, schedule a retry for
+ * a transient error, or give up.
+ */
+async function settleFailure(
+  store: AlertStore,
+  message: PushMessage,
+  attempts: number,
+  failure: PushFailure,
+  now: number
+): Promise<"retrying" | "failed"> {
+  if (failure.code === "DeviceNotRegistered") {
+    await store.updatePushMessage(message.id, { status: "unregistered", attempts, error: failure.error });
+    await pruneToken(store, message.pushToken);
+    return "failed";
+  }
+
+  if (failure.transient && attempts < MAX_ATTEMPTS) {
+    const delay = Math.max(retryDelayMs(attempts), failure.retryAfterMs ?? 0);
+    await store.updatePushMessage(message.id, {
+      status: "queued",
+      attempts,
+      error: failure.error,
+      nextAttemptAt: now + delay,
+    });
+    return "retrying";
+  }
+
+  await store.updatePushMessage(message.id, { status: "failed", attempts, error: failure.error });
+  console.warn(`[PushDelivery] Push ${message.notificationId} failed after ${attempts} attempt(s): ${failure.error}`);
+  return "failed";
+}
+
+async function sendBatch(store: AlertStore, batch: PushMessage[], now: number, result: PushQueueResult): Promise<void> {
+  const response = await postToExpo<ExpoResult[]>("send", batch.map(toExpoMessage));
+
+  for (const [i, message] of batch.entries()) {
+    const attempts = message.attempts + 1;
+    // Tickets come back in the order the messages were sent
+    const ticket = response.ok ? response.data[i] : undefined;
+
+    if (ticket?.status === "ok" && ticket.id) {
+      await store.updatePushMessage(message.id, {
+        status: "sent",
+        attempts,
+        ticketId: ticket.id,
+        error: null,
+        nextAttemptAt: now + RECEIPT_DELAY_MS,
+      });
+      result.sent++;
+      continue;
+    }
+
+    const failure = response.ok ? resultFailure(ticket, "Missing push ticket") : { ...response, code: null };
+    result[await settleFailure(store, message, attempts, failure, now)]++;
+  }
+}
+
+/**
+ * Send every queued message that is due, SEND_BATCH_SIZE per request. Safe
+ * to call from several places at once: each message is claimed first.
+ */
+export async function processPushQueue(now: number = Date.now()): Promise<PushQueueResult> {
+  const store = await getAlertStore();
+  const result: PushQueueResult = { sent: 0, failed: 0, retrying: 0 };
+
+  // Claimed and retried messages are due after `now`, so this ends
+  for (;;) {
+    const batch = await store.claimPushMessages("queued", now, SEND_BATCH_SIZE, now + CLAIM_MS);
+    if (batch.length === 0) break;
+    await sendBatch(store, batch, now, result);
+  }
+
+  if (result.failed > 0 || result.retrying > 0) {
+    console.log(
+      `[PushDelivery] Sent ${result.sent}, failed ${result.failed}, retrying ${result.retrying}`
+    );
+  }
+  return result;
+}
+
+/**
+ * Fetch receipts for messages sent at least RECEIPT_DELAY_MS ago and record
+ * whether each reached its device.
+ */
+export async function checkPushReceipts(now: number = Date.now()): Promise<PushReceiptResult> {
+  const store = await getAlertStore();
+  const result: PushReceiptResult = { delivered: 0, failed: 0, pending: 0 };
+
+  for (;;) {
+    const batch = await store.claimPushMessages("sent", now, RECEIPT_BATCH_SIZE, now + CLAIM_MS);
+    if (batch.length === 0) break;
+
+    const response = await postToExpo<Record<string, ExpoResult>>("getReceipts", {
+      ids: batch.map((m) => m.ticketId),
+    });
+    if (!response.ok) {
+      // The claim runs out and the next run asks again
+      console.warn(`[PushDelivery] ${response.error}`);
+      result.pending += batch.length;
+      break;
+    }
+
+    for (const message of batch) {
+      const receipt = message.ticketId ? response.data[message.ticketId] : undefined;
+
+      if (receipt?.status === "ok") {
+        await store.updatePushMessage(message.id, { status: "delivered", error: null });
+        result.delivered++;
+      } else if (receipt) {
+        const outcome = await settleFailure(store, message, message.attempts, resultFailure(receipt, "Push receipt error"), now);
+        if (outcome === "failed") result.failed++;
+        else result.pending++;
+      } else if (now - message.createdAt > RECEIPT_TTL_MS) {
+        await store.updatePushMessage(message.id, { status: "failed", error: "No push receipt" });
+        result.failed++;
+      } else {
+        await store.updatePushMessage(message.id, { nextAttemptAt: now + RECEIPT_DELAY_MS });
+        result.pending++;
+      }
+    }
+  }
+  return result;
+}
+
+// ─── Service Lifecycle ──────────────────────────────────────────────────────
+
+/** Keep sending retries and collecting receipts in the background */
+export function startPushDelivery(): void {
+  if (deliveryInterval) return;
+  deliveryInterval = setInterval(async () => {
+    if (deliveryRunning) return;
+    deliveryRunning = true;
+    try {
+      await processPushQueue();
+      await checkPushReceipts();
+    } catch (error) {
+      console.warn("[PushDelivery] Delivery run failed:", error);
+    } finally {
+      deliveryRunning = false;
+    }
+  }, DELIVERY_INTERVAL_MS);
+}
+
+export function stopPushDelivery(): void {
+  if (deliveryInterval) {
+    clearInterval(deliveryInterval);
+    deliveryInterval = null;
+  }
+}
@@ -0,0 +1,254 @@
+/**
+ * AGRX Quote Stream Service
+ *
+ * Server-Sent Events feed of live quote changes, mounted at
+ * GET /api/quotes/stream?symbols=opap,ete,... in server/_core/index.ts.
+ *
+ * Architecture:
+ * - One shared poller for all connected clients; it runs only while at
+ *   least one client is connected
+ * - Each tick fetches the union of subscribed symbols with one batched
+ *   getMultipleQuotes call (concurrency-limited market data provider requests)
+ * - Clients get a `snapshot` event with full quotes on connect, then
+ *   `quotes` events carrying only the symbols whose price data changed
+ * - Symbols a new client needs that no poll has fetched recently are
+ *   fetched for it right away, even while a poll is running
+ * - A comment heartbeat keeps idle connections open through proxies
+ */
+import type { Request, Response } from "express";
+import { isMarketOpen } from "../shared/market-calendar.js";
+import { ENV } from "./_core/env";
+import { ATHEX_SYMBOLS, getMultipleQuotes, type StockQuote } from "./stockService";
+
+// ─── Types ──────────────────────────────────────────────────────────────────
+
+/** The fields that move intraday — what a `quotes` event carries per symbol */
+export type QuoteDelta = Pick<
+  StockQuote,
+  "id" | "price" | "previousClose" | "change" | "changePercent" | "dayHigh" | "dayLow" | "volume" | "lastUpdated"
+>;
+
+interface StreamClient {
+  id: number;
+  symbols: Set<string>;
+  res: Response;
+}
+
+// ─── Constants ──────────────────────────────────────────────────────────────
+
+/** Keep-alive comment interval */
+const HEARTBEAT_MS = 25_000;
+
+/** Poll cadence while ATHEX is closed — prices only change at the open */
+const CLOSED_POLL_INTERVAL_MS = 5 * 60 * 1000;
+
+/** Maximum concurrent stream connections per server instance */
+const MAX_CLIENTS = 500;
+
+// ─── State ──────────────────────────────────────────────────────────────────
+
+const clients = new Map<number, StreamClient>();
+const lastQuotes = new Map<string, StockQuote>();
+let nextClientId = 1;
+let pollTimer: ReturnType<typeof setTimeout> | null = null;
+let heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+let lastPollAt = 0;
+let isPolling = false;
+
+// ─── Helpers ────────────────────────────────────────────────────────────────
+
+export function toQuoteDelta(quote: StockQuote): QuoteDelta {
+  return {
+    id: quote.id,
+    price: quote.price,
+    previousClose: quote.previousClose,
+    change: quote.change,
+    changePercent: quote.changePercent,
+    dayHigh: quote.dayHigh,
+    dayLow: quote.dayLow,
+    volume: quote.volume,
+    lastUpdated: quote.lastUpdated,
+  };
+}
+
+/**
+ * Quotes in `next` whose price data differs from `previous`
+ * (a quote with no previous value always counts as changed).
+ */
+export function computeQuoteDeltas(
+  previous: ReadonlyMap<string, StockQuote>,
+  next: StockQuote[],
+): QuoteDelta[] {
+  const deltas: QuoteDelta[] = [];
+  for (const quote of next) {
+    const prev = previous.get(quote.id);
+    if (
+      !prev ||
+      prev.price !== quote.price ||
+      prev.previousClose !== quote.previousClose ||
+      prev.dayHigh !== quote.dayHigh ||
+      prev.dayLow !== quote.dayLow ||
+      prev.volume !== quote.volume
+    ) {
+      deltas.push(toQuoteDelta(quote));
+    }
+  }
+  return deltas;
+}
+
+/** Parse and validate the `symbols` query parameter */
+function parseSymbols(raw: unknown): Set<string> {
+  const list = typeof raw === "string" ? raw.split(",") : [];
+  return new Set(list.map((s) => s.trim().toLowerCase()).filter((s) => s in ATHEX_SYMBOLS));
+}
+
+function sendEvent(client: StreamClient, event: string, data: unknown): void {
+  client.res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+function subscribedSymbols(): string[] {
+  const union = new Set<string>();
+  for (const client of clients.values()) {
+    for (const symbol of client.symbols) union.add(symbol);
+  }
+  return Array.from(union);
+}
+
+// ─── Poller ─────────────────────────────────────────────────────────────────
+
+function currentInterval(): number {
+  return isMarketOpen() ? ENV.quoteStreamIntervalMs : CLOSED_POLL_INTERVAL_MS;
+}
+
+function schedulePoll(delayMs: number): void {
+  if (pollTimer) clearTimeout(pollTimer);
+  pollTimer = setTimeout(() => {
+    pollTimer = null;
+    pollQuotes()
+      .catch((err) => console.warn("[QuoteStream] Poll failed:", err))
+      .finally(() => {
+        if (clients.size > 0) schedulePoll(currentInterval());
+      });
+  }, delayMs);
+}
+
+/**
+ * Record fetched quotes and fan the changes out to the clients that
+ * subscribe to them. Quotes older than what we already have are dropped,
+ * since a poll and a new client's fetch can finish in either order.
+ */
+function publishQuotes(fetched: StockQuote[]): void {
+  const quotes = fetched.filter((q) => !(q.lastUpdated < (lastQuotes.get(q.id)?.lastUpdated ?? 0)));
+  const deltas = computeQuoteDeltas(lastQuotes, quotes);
+  for (const quote of quotes) lastQuotes.set(quote.id, quote);
+  if (deltas.length === 0) return;
+
+  for (const client of clients.values()) {
+    const relevant = deltas.filter((d) => client.symbols.has(d.id));
+    if (relevant.length > 0) sendEvent(client, "quotes", relevant);
+  }
+}
+
+/**
+ * Fetch every subscribed symbol once and fan the changes out to clients.
+ */
+async function pollQuotes(): Promise<void> {
+  if (isPolling) return;
+  const symbols = subscribedSymbols();
+  if (symbols.length === 0) return;
+
+  isPolling = true;
+  try {
+    // Allow the cache to serve anything fetched within this tick's window
+    const quotes = await getMultipleQuotes(symbols, currentInterval());
+    lastPollAt = Date.now();
+    publishQuotes(quotes);
+  } finally {
+    isPolling = false;
+  }
+}
+
+function startTimers(): void {
+  if (!heartbeatTimer) {
+    heartbeatTimer = setInterval(() => {
+      for (const client of clients.values()) client.res.write(": ping\n\n");
+    }, HEARTBEAT_MS);
+  }
+  if (!pollTimer && !isPolling) {
+    // Poll right away when the last poll is older than one interval
+    const sinceLast = Date.now() - lastPollAt;
+    schedulePoll(Math.max(0, currentInterval() - sinceLast));
+  }
+}
+
+function stopTimers(): void {
+  if (pollTimer) {
+    clearTimeout(pollTimer);
+    pollTimer = null;
+  }
+  if (heartbeatTimer) {
+    clearInterval(heartbeatTimer);
+    heartbeatTimer = null;
+  }
+}
+
+// ─── HTTP Handler ───────────────────────────────────────────────────────────
+
+/**
+ * Express handler for GET /api/quotes/stream.
+ */
+export function handleQuoteStream(req: Request, res: Response): void {
+  const symbols = parseSymbols(req.query.symbols);
+  if (symbols.size === 0) {
+    res.status(400).json({ error: "No valid symbols requested" });
+    return;
+  }
+  if (clients.size >= MAX_CLIENTS) {
+    res.status(503).json({ error: "Too many stream connections" });
+    return;
+  }
+
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache, no-transform",
+    Connection: "keep-alive",
+    // Disable response buffering in nginx-style proxies
+    "X-Accel-Buffering": "no",
+  });
+
+  const client: StreamClient = { id: nextClientId++, symbols, res };
+  clients.set(client.id, client);
+
+  // Send whatever we already know; anything missing is fetched below
+  const known = Array.from(symbols)
+    .map((id) => lastQuotes.get(id))
+    .filter((q): q is StockQuote => q !== undefined);
+  sendEvent(client, "snapshot", known);
+
+  // Fetch missing or outdated symbols now rather than on the next tick
+  const missing = Array.from(symbols).filter((id) => {
+    const quote = lastQuotes.get(id);
+    return !quote || Date.now() - quote.lastUpdated > currentInterval();
+  });
+  if (missing.length > 0) {
+    getMultipleQuotes(missing, currentInterval())
+      .then(publishQuotes)
+      .catch((err) => console.warn("[QuoteStream] Fetch for new client failed:", err));
+  }
+  startTimers();
+
+  req.on("close", () => {
+    clients.delete(client.id);
+    if (clients.size === 0) stopTimers();
+  });
+}
+
+// ─── Stats ──────────────────────────────────────────────────────────────────
+
+export function getQuoteStreamStats() {
+  return {
+    connectedClients: clients.size,
+    subscribedSymbols: subscribedSymbols().length,
+    lastPollAt: lastPollAt || null,
+  };
+}
@@ -2,10 +2,14 @@ import { COOKIE_NAME } from "../shared/const.js";
 import { getSessionCookieOptions } from "./_core/cookies";
 import { systemRouter } from "./_core/systemRouter";
 import { publicProcedure, router } from "./_core/trpc";
+import { adminRouter } from "./adminRouter";
 import { stockRouter } from "./stockRouter";
 import { newsRouter } from "./newsRouter";
 import { notificationRouter } from "./notificationRouter";
+import { orderRouter } from "./orderRouter";
+import { portfolioRouter } from "./portfolioRouter";
 import { userRouter } from "./userRouter";
+import { watchlistRouter } from "./watchlistRouter";
 
 export const appRouter = router({
   // if you need to use socket.io, read and register route in server/_core/index.ts, all api should start with '/api/' so that the gateway can route correctly
@@ -21,10 +25,14 @@ export const appRouter = router({
     }),
   }),
 
+  admin: adminRouter,
   stocks: stockRouter,
   news: newsRouter,
   notifications: notificationRouter,
+  orders: orderRouter,
+  portfolio: portfolioRouter,
   users: userRouter,
+  watchlist: watchlistRouter,
 });
 
 export type AppRouter = typeof appRouter;
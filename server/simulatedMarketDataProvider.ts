@@ -0,0 +1,309 @@
+/**
+ * AGRX Simulated Market Data Provider
+ *
+ * Deterministic random-walk prices for every symbol, laid out on the real
+ * ATHEX calendar (trading days, holidays, 10:30–17:30 sessions). The walk
+ * is seeded by symbol and date, so every process and every run agrees on
+ * the same history, and prices move through the day while the market is
+ * open. Useful for offline development and demos with lively data.
+ *
+ * - Daily closes: geometric random walk from SIM_EPOCH
+ * - Intraday: 5-minute bars bridged from the open to that day's close
+ * - 15-minute, weekly and monthly bars are aggregated with aggregateBars
+ */
+import { getTradingSessions, type TradingSession } from "../shared/market-calendar.js";
+import type { ChartDataPoint } from "./stockService";
+import {
+  aggregateBars,
+  type MarketDataProvider,
+  type MarketSymbol,
+  type ProviderQuote,
+} from "./marketDataProvider";
+
+// ─── Constants ──────────────────────────────────────────────────────────────
+
+/** First simulated trading day */
+const SIM_EPOCH = new Date("2019-01-02T12:00:00Z");
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const BAR_MS = 5 * 60 * 1000;
+
+/** Trading sessions in a 52-week window */
+const SESSIONS_PER_YEAR = 252;
+
+/** Calendar days of history per Yahoo range; "max" is everything since SIM_EPOCH */
+const RANGE_DAYS: Record<string, number> = {
+  "1mo": 30,
+  "3mo": 91,
+  "1y": 365,
+  "5y": 5 * 365,
+};
+
+/** Trading sessions per intraday range */
+const RANGE_SESSIONS: Record<string, number> = {
+  "1d": 1,
+  "5d": 5,
+};
+
+// ─── Types ──────────────────────────────────────────────────────────────────
+
+interface SymbolProfile {
+  seed: number;
+  basePrice: number;
+  /** Daily volatility of log returns */
+  volatility: number;
+  averageVolume: number;
+  sharesOutstanding: number;
+}
+
+interface DailyBar extends ChartDataPoint {
+  session: TradingSession;
+}
+
+// ─── Random ─────────────────────────────────────────────────────────────────
+
+/** FNV-1a string hash */
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/** mulberry32: small, fast seeded PRNG returning [0, 1) */
+function createRng(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Standard normal sample (Box–Muller) */
+function gaussian(rng: () => number): number {
+  const u = Math.max(rng(), 1e-12);
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * rng());
+}
+
+function round(value: number, decimals: number = 3): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+function profileFor(symbolId: string): SymbolProfile {
+  const seed = hashString(symbolId);
+  const rng = createRng(seed);
+  return {
+    seed,
+    basePrice: 1 + rng() * 39,
+    volatility: 0.01 + rng() * 0.015,
+    averageVolume: Math.round(20_000 + rng() * 980_000),
+    sharesOutstanding: Math.round(20e6 + rng() * 580e6),
+  };
+}
+
+// ─── Simulation ─────────────────────────────────────────────────────────────
+
+/**
+ * Simulated history for one symbol. Daily bars are extended incrementally
+ * as new sessions start; intraday bars are derived on demand.
+ */
+class SymbolSimulation {
+  private readonly bars: DailyBar[] = [];
+
+  constructor(private readonly profile: SymbolProfile) {}
+
+  /** Daily bars for `sessions` (a prefix-compatible list from SIM_EPOCH) */
+  daily(sessions: TradingSession[]): DailyBar[] {
+    const { seed, volatility, averageVolume } = this.profile;
+    for (let i = this.bars.length; i < sessions.length; i++) {
+      const session = sessions[i];
+      const rng = createRng(seed ^ hashString(session.date));
+      const prevClose = i > 0 ? this.bars[i - 1].close : this.profile.basePrice;
+      const open = prevClose * Math.exp(gaussian(rng) * volatility * 0.2);
+      const close = open * Math.exp(gaussian(rng) * volatility - (volatility * volatility) / 2);
+      const high = Math.max(open, close) * (1 + Math.abs(gaussian(rng)) * volatility * 0.5);
+      const low = Math.min(open, close) * (1 - Math.abs(gaussian(rng)) * volatility * 0.5);
+      this.bars.push({
+        session,
+        timestamp: Math.floor(session.open.getTime() / 1000),
+        open: round(open),
+        high: round(high),
+        low: round(low),
+        close: round(close),
+        volume: Math.round(averageVolume * (0.5 + rng())),
+      });
+    }
+    return this.bars.slice(0, sessions.length);
+  }
+
+  /**
+   * 5-minute bars for one session, bridged so the last full-session bar
+   * closes at the daily close. Bars after `now` are dropped.
+   */
+  intraday(day: DailyBar, now: number): ChartDataPoint[] {
+    const { seed, volatility } = this.profile;
+    const start = day.session.open.getTime();
+    const count = Math.round((day.session.close.getTime() - start) / BAR_MS);
+    const rng = createRng(seed ^ hashString(`${day.session.date}:intraday`));
+    const stepVol = volatility / Math.sqrt(count);
+
+    // Free walk from the open, then pull it onto the daily close
+    const walk: number[] = [day.open];
+    for (let i = 1; i <= count; i++) {
+      walk.push(walk[i - 1] * Math.exp(gaussian(rng) * stepVol));
+    }
+    const drift = day.close - walk[count];
+    const path = walk.map((price, i) => price + (drift * i) / count);
+
+    const bars: ChartDataPoint[] = [];
+    for (let i = 0; i < count; i++) {
+      const timestamp = start + i * BAR_MS;
+      if (timestamp > now) break;
+      const open = path[i];
+      const close = path[i + 1];
+      const wick = Math.abs(gaussian(rng)) * stepVol * 0.5;
+      bars.push({
+        timestamp: Math.floor(timestamp / 1000),
+        open: round(open),
+        high: round(Math.max(open, close) * (1 + wick)),
+        low: round(Math.min(open, close) * (1 - wick)),
+        close: round(close),
+        volume: Math.round((day.volume / count) * (0.3 + rng() * 1.4)),
+      });
+    }
+    return bars;
+  }
+}
+
+function toPoint(bar: DailyBar): ChartDataPoint {
+  const { timestamp, open, high, low, close, volume } = bar;
+  return { timestamp, open, high, low, close, volume };
+}
+
+// ─── Provider ───────────────────────────────────────────────────────────────
+
+/**
+ * @param clock Current time source; tests pass a fixed clock for repeatable output
+ */
+export function createSimulatedProvider(clock: () => number = Date.now): MarketDataProvider {
+  const simulations = new Map<string, SymbolSimulation>();
+  let sessionCache: { key: string; sessions: TradingSession[] } | null = null;
+
+  /** Sessions from SIM_EPOCH that have started by `now` */
+  function startedSessions(now: number): TradingSession[] {
+    const key = new Date(now).toISOString().slice(0, 10);
+    if (sessionCache?.key !== key) {
+      sessionCache = { key, sessions: getTradingSessions(SIM_EPOCH, new Date(now + DAY_MS)) };
+    }
+    return sessionCache.sessions.filter((s) => s.open.getTime() <= now);
+  }
+
+  function simulationFor(symbol: MarketSymbol): SymbolSimulation {
+    let simulation = simulations.get(symbol.id);
+    if (!simulation) {
+      simulation = new SymbolSimulation(profileFor(symbol.id));
+      simulations.set(symbol.id, simulation);
+    }
+    return simulation;
+  }
+
+  /** Daily bars up to now, with the in-progress session cut at the current bar */
+  function dailyBarsUntil(simulation: SymbolSimulation, now: number): { daily: ChartDataPoint[]; today: ChartDataPoint[] } {
+    const bars = simulation.daily(startedSessions(now));
+    if (bars.length === 0) return { daily: [], today: [] };
+
+    const latest = bars[bars.length - 1];
+    const today = simulation.intraday(latest, now);
+    const daily: ChartDataPoint[] = bars.slice(0, -1).map(toPoint);
+    if (today.length > 0) {
+      daily.push({
+        timestamp: latest.timestamp,
+        open: today[0].open,
+        high: Math.max(...today.map((b) => b.high)),
+        low: Math.min(...today.map((b) => b.low)),
+        close: today[today.length - 1].close,
+        volume: today.reduce((sum, b) => sum + b.volume, 0),
+      });
+    }
+    return { daily, today };
+  }
+
+  return {
+    name: "simulator",
+
+    async getQuote(symbol) {
+      const now = clock();
+      const simulation = simulationFor(symbol);
+      const { daily, today } = dailyBarsUntil(simulation, now);
+      if (daily.length === 0 || today.length === 0) return null;
+
+      const latest = daily[daily.length - 1];
+      const previous = daily.length > 1 ? daily[daily.length - 2] : latest;
+      const year = daily.slice(-SESSIONS_PER_YEAR);
+      const profile = profileFor(symbol.id);
+
+      const quote: ProviderQuote = {
+        name: symbol.name,
+        price: latest.close,
+        previousClose: previous.close,
+        dayHigh: latest.high,
+        dayLow: latest.low,
+        volume: latest.volume,
+        fiftyTwoWeekHigh: Math.max(...year.map((b) => b.high)),
+        fiftyTwoWeekLow: Math.min(...year.map((b) => b.low)),
+        marketCap: latest.close * profile.sharesOutstanding,
+        currency: "EUR",
+        exchange: "ATH",
+        intradayCloses: today.map((b) => b.close),
+        // The end of the latest bar, or now while it is still forming
+        marketTime: Math.min(now, today[today.length - 1].timestamp * 1000 + BAR_MS),
+      };
+      return quote;
+    },
+
+    async getChart(symbol, spec) {
+      const now = clock();
+      const simulation = simulationFor(symbol);
+      const sessions = startedSessions(now);
+      if (sessions.length === 0) return null;
+
+      let data: ChartDataPoint[];
+      if (spec.interval === "5m" || spec.interval === "15m") {
+        const since = now - (RANGE_DAYS[spec.range] ?? 1) * DAY_MS;
+        const count =
+          RANGE_SESSIONS[spec.range] ?? sessions.filter((s) => s.open.getTime() >= since).length;
+        const days = simulation.daily(sessions).slice(-Math.max(1, count));
+        const bars = days.flatMap((day) => simulation.intraday(day, now));
+        data = spec.interval === "15m" ? aggregateBars(bars, "15m") : bars;
+      } else {
+        const { daily } = dailyBarsUntil(simulation, now);
+        const days = RANGE_DAYS[spec.range];
+        const since = days ? Math.floor((now - days * DAY_MS) / 1000) : 0;
+        const inRange = daily.filter((b) => b.timestamp >= since);
+        data =
+          spec.interval === "1wk" || spec.interval === "1mo"
+            ? aggregateBars(inRange, spec.interval)
+            : inRange;
+      }
+
+      if (data.length === 0) return null;
+      return {
+        symbol: symbol.yahoo,
+        interval: spec.interval,
+        range: spec.range,
+        data,
+        meta: {
+          currency: "EUR",
+          exchange: "ATH",
+          regularMarketPrice: data[data.length - 1].close,
+        },
+      };
+    },
+  };
+}
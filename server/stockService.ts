@@ -1,11 +1,19 @@
 /**
  * AGRX Stock Data Service
  * 
- * Server-side service that fetches live ATHEX stock data from Yahoo Finance
- * via the built-in data API. Includes an in-memory cache to respect rate limits
+ * Server-side service for ATHEX quotes and charts. Prices come from the
+ * active market data provider (Yahoo Finance by default, see
+ * marketDataProvider.ts); charts read the persisted price history first
+ * (priceHistoryService.ts). Includes an in-memory cache to respect rate limits
  * and provide fast responses. Covers the complete ATHEX listing (135 verified symbols).
  */
-import { callDataApi } from "./_core/dataApi";
+import {
+  CHART_RANGE_SPECS,
+  getMarketDataProvider,
+  toChartRange,
+  type MarketSymbol,
+} from "./marketDataProvider";
+import { getStoredChart, getStoredDailyBars } from "./priceHistoryService";
 
 // ─── Symbol Mapping ─────────────────────────────────────────────────────────
 // Maps our internal AGRX stock IDs to Yahoo Finance ATHEX symbols (.AT suffix)
@@ -153,6 +161,9 @@ export const ATHEX_SYMBOLS: Record<string, { yahoo: string; name: string; catego
   yalco:     { yahoo: "YALCO.AT",     name: "YALCO",                          category: "growth" },
 };
 
+/** The ATHEX General Index, quoted through the provider but not listed as a stock */
+const ATHEX_INDEX: MarketSymbol = { id: "athex", yahoo: "GD.AT", name: "ATHEX General Index" };
+
 // ─── Types ──────────────────────────────────────────────────────────────────
 export interface StockQuote {
   id: string;
@@ -173,7 +184,10 @@ export interface StockQuote {
   exchange: string;
   category: "blue-chip" | "growth" | "dividend";
   sparkline: number[];
+  /** Unix ms the quote was fetched */
   lastUpdated: number;
+  /** Unix ms of the last trade the price comes from; null when the provider doesn't say */
+  marketTime: number | null;
 }
 
 export interface ChartDataPoint {
@@ -204,6 +218,7 @@ interface CacheEntry<T> {
 }
 
 const quoteCache = new Map<string, CacheEntry<StockQuote>>();
+let indexCache: CacheEntry<number | null> | undefined;
 const chartCache = new Map<string, CacheEntry<ChartResponse>>();
 
 // Cache TTLs in milliseconds
@@ -227,28 +242,9 @@ function formatMarketCap(value: number | undefined): string {
   return `€${value.toLocaleString()}`;
 }
 
-function mapIntervalToYahoo(interval: string): string {
-  const mapping: Record<string, string> = {
-    "1D": "5m",
-    "1W": "15m",
-    "1M": "1d",
-    "3M": "1d",
-    "1Y": "1wk",
-    "ALL": "1mo",
-  };
-  return mapping[interval] || "1d";
-}
-
-function mapRangeToYahoo(range: string): string {
-  const mapping: Record<string, string> = {
-    "1D": "1d",
-    "1W": "5d",
-    "1M": "1mo",
-    "3M": "3mo",
-    "1Y": "1y",
-    "ALL": "5y",
-  };
-  return mapping[range] || "1mo";
+function toMarketSymbol(stockId: string): MarketSymbol {
+  const { yahoo, name } = ATHEX_SYMBOLS[stockId];
+  return { id: stockId, yahoo, name };
 }
 
 // ─── Concurrency Helper ────────────────────────────────────────────────────
@@ -279,36 +275,29 @@ async function runWithConcurrency<T>(
 // ─── API Functions ──────────────────────────────────────────────────────────
 
 /**
- * Fetch a single stock quote with sparkline data
+ * Fetch a single stock quote with sparkline data.
+ * `maxAgeMs` overrides the cache TTL (the quote stream poller refreshes faster).
  */
-export async function getStockQuote(stockId: string): Promise<StockQuote | null> {
+export async function getStockQuote(
+  stockId: string,
+  maxAgeMs: number = QUOTE_CACHE_TTL,
+): Promise<StockQuote | null> {
   const symbolInfo = ATHEX_SYMBOLS[stockId];
   if (!symbolInfo) return null;
 
   // Check cache
   const cached = quoteCache.get(stockId);
-  if (isCacheValid(cached, QUOTE_CACHE_TTL)) {
+  if (isCacheValid(cached, maxAgeMs)) {
     return cached.data;
   }
 
   try {
-    const response = await callDataApi("YahooFinance/get_stock_chart", {
-      query: {
-        symbol: symbolInfo.yahoo,
-        interval: "5m",
-        range: "1d",
-      },
-    }) as any;
-
-    if (!response?.chart?.result?.[0]) return null;
-
-    const result = response.chart.result[0];
-    const meta = result.meta;
-    const quotes = result.indicators?.quote?.[0] || {};
-    const closePrices = (quotes.close || []).filter((p: number | null) => p !== null);
-
-    const price = meta.regularMarketPrice ?? closePrices[closePrices.length - 1] ?? 0;
-    const previousClose = meta.chartPreviousClose ?? meta.previousClose ?? price;
+    const raw = await getMarketDataProvider().getQuote(toMarketSymbol(stockId));
+    if (!raw) return null;
+
+    const closePrices = raw.intradayCloses;
+    const price = raw.price;
+    const previousClose = raw.previousClose;
     const change = price - previousClose;
     const changePercent = previousClose > 0 ? (change / previousClose) * 100 : 0;
 
@@ -320,22 +309,23 @@ export async function getStockQuote(stockId: string): Promise<StockQuote | null>
       id: stockId,
       ticker: symbolInfo.yahoo.replace(".AT", ""),
       yahooSymbol: symbolInfo.yahoo,
-      name: meta.longName || meta.shortName || symbolInfo.name,
+      name: raw.name || symbolInfo.name,
       price,
       previousClose,
       change,
       changePercent,
-      dayHigh: meta.regularMarketDayHigh ?? Math.max(...closePrices),
-      dayLow: meta.regularMarketDayLow ?? Math.min(...closePrices),
-      volume: meta.regularMarketVolume ?? 0,
-      fiftyTwoWeekHigh: meta.fiftyTwoWeekHigh ?? 0,
-      fiftyTwoWeekLow: meta.fiftyTwoWeekLow ?? 0,
-      marketCap: formatMarketCap(meta.marketCap),
-      currency: meta.currency ?? "EUR",
-      exchange: meta.exchangeName ?? "ATH",
+      dayHigh: raw.dayHigh,
+      dayLow: raw.dayLow,
+      volume: raw.volume,
+      fiftyTwoWeekHigh: raw.fiftyTwoWeekHigh,
+      fiftyTwoWeekLow: raw.fiftyTwoWeekLow,
+      marketCap: formatMarketCap(raw.marketCap),
+      currency: raw.currency,
+      exchange: raw.exchange,
       category: symbolInfo.category,
       sparkline,
       lastUpdated: Date.now(),
+      marketTime: raw.marketTime ?? null,
     };
 
     quoteCache.set(stockId, { data: quote, timestamp: Date.now() });
@@ -353,7 +343,10 @@ export async function getStockQuote(stockId: string): Promise<StockQuote | null>
  * Fetch quotes for multiple stocks in parallel with concurrency limiting.
  * When fetching all stocks, prioritizes blue-chips first for faster initial render.
  */
-export async function getMultipleQuotes(stockIds?: string[]): Promise<StockQuote[]> {
+export async function getMultipleQuotes(
+  stockIds?: string[],
+  maxAgeMs: number = QUOTE_CACHE_TTL,
+): Promise<StockQuote[]> {
   const allIds = stockIds ?? Object.keys(ATHEX_SYMBOLS);
   
   // Sort: blue-chips first, then dividends, then growth — so the most important
@@ -365,7 +358,7 @@ export async function getMultipleQuotes(stockIds?: string[]): Promise<StockQuote
     return (catOrder[catA] ?? 2) - (catOrder[catB] ?? 2);
   });
 
-  const tasks = sortedIds.map((id) => () => getStockQuote(id));
+  const tasks = sortedIds.map((id) => () => getStockQuote(id, maxAgeMs));
   const results = await runWithConcurrency(tasks, MAX_CONCURRENT);
 
   return results
@@ -384,8 +377,6 @@ export async function getStockChart(
   const symbolInfo = ATHEX_SYMBOLS[stockId];
   if (!symbolInfo) return null;
 
-  const interval = mapIntervalToYahoo(range);
-  const yahooRange = mapRangeToYahoo(range);
   const cacheKey = `${stockId}:${range}`;
 
   // Check cache
@@ -395,42 +386,23 @@ export async function getStockChart(
     return cached.data;
   }
 
+  // Persisted history first; it only fetches the missing tail
   try {
-    const response = await callDataApi("YahooFinance/get_stock_chart", {
-      query: {
-        symbol: symbolInfo.yahoo,
-        interval,
-        range: yahooRange,
-      },
-    }) as any;
-
-    if (!response?.chart?.result?.[0]) return null;
-
-    const result = response.chart.result[0];
-    const meta = result.meta;
-    const timestamps = result.timestamp || [];
-    const quotes = result.indicators?.quote?.[0] || {};
-
-    const data: ChartDataPoint[] = timestamps.map((ts: number, i: number) => ({
-      timestamp: ts,
-      open: quotes.open?.[i] ?? 0,
-      high: quotes.high?.[i] ?? 0,
-      low: quotes.low?.[i] ?? 0,
-      close: quotes.close?.[i] ?? 0,
-      volume: quotes.volume?.[i] ?? 0,
-    })).filter((d: ChartDataPoint) => d.close > 0);
-
-    const chartResponse: ChartResponse = {
-      symbol: symbolInfo.yahoo,
-      interval,
-      range: yahooRange,
-      data,
-      meta: {
-        currency: meta.currency ?? "EUR",
-        exchange: meta.exchangeName ?? "ATH",
-        regularMarketPrice: meta.regularMarketPrice ?? 0,
-      },
-    };
+    const stored = await getStoredChart(toMarketSymbol(stockId), toChartRange(range));
+    if (stored) {
+      chartCache.set(cacheKey, { data: stored, timestamp: Date.now() });
+      return stored;
+    }
+  } catch (error) {
+    console.warn(`[StockService] Price history unavailable for ${stockId}:`, error);
+  }
+
+  try {
+    const chartResponse = await getMarketDataProvider().getChart(
+      toMarketSymbol(stockId),
+      CHART_RANGE_SPECS[toChartRange(range)],
+    );
+    if (!chartResponse) return null;
 
     chartCache.set(cacheKey, { data: chartResponse, timestamp: Date.now() });
     return chartResponse;
@@ -442,6 +414,68 @@ export async function getStockChart(
   }
 }
 
+/**
+ * Daily bars covering at least the last `sessions` trading sessions, oldest
+ * first (used by alert rules for indicators and N-week ranges). While the
+ * market is open the last bar is today's session so far.
+ */
+export async function getDailyHistory(stockId: string, sessions: number): Promise<ChartDataPoint[] | null> {
+  if (!ATHEX_SYMBOLS[stockId]) return null;
+
+  // ~5 sessions per 7 days, plus slack for holidays
+  const days = Math.ceil((sessions * 7) / 5) + 14;
+  try {
+    const stored = await getStoredDailyBars(
+      toMarketSymbol(stockId),
+      Math.floor((Date.now() - days * 24 * 60 * 60 * 1000) / 1000),
+    );
+    if (stored) return stored;
+  } catch (error) {
+    console.warn(`[StockService] Price history unavailable for ${stockId}:`, error);
+  }
+
+  const range = days <= 365 ? "1y" : "5y";
+  const cacheKey = `${stockId}:daily:${range}`;
+  const cached = chartCache.get(cacheKey);
+  if (isCacheValid(cached, CHART_CACHE_TTL_OTHER)) {
+    return cached.data.data;
+  }
+
+  try {
+    const chartResponse = await getMarketDataProvider().getChart(toMarketSymbol(stockId), { interval: "1d", range });
+    if (!chartResponse) return null;
+
+    chartCache.set(cacheKey, { data: chartResponse, timestamp: Date.now() });
+    return chartResponse.data;
+  } catch (error) {
+    console.error(`[StockService] Failed to fetch daily history for ${stockId}:`, error);
+    return chartCache.get(cacheKey)?.data.data ?? null;
+  }
+}
+
+/**
+ * Today's move of the ATHEX General Index in percent, or null when the
+ * provider doesn't quote it. A failed fetch is cached like a quote, so the
+ * provider isn't asked again on every call while it fails.
+ */
+export async function getIndexChangePercent(maxAgeMs: number = QUOTE_CACHE_TTL): Promise<number | null> {
+  if (isCacheValid(indexCache, maxAgeMs)) {
+    return indexCache.data;
+  }
+
+  try {
+    const raw = await getMarketDataProvider().getQuote(ATHEX_INDEX);
+    const changePercent =
+      raw && raw.previousClose > 0 ? ((raw.price - raw.previousClose) / raw.previousClose) * 100 : null;
+    indexCache = { data: changePercent, timestamp: Date.now() };
+    return changePercent;
+  } catch (error) {
+    console.error("[StockService] Failed to fetch the ATHEX General Index:", error);
+    indexCache = { data: null, timestamp: Date.now() };
+    return null;
+  }
+}
+
 /**
  * Get all available stock IDs
  */
@@ -462,4 +496,5 @@ export function getStockCount(): number {
 export function clearCache(): void {
   quoteCache.clear();
   chartCache.clear();
+  indexCache = undefined;
 }
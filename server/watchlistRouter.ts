@@ -0,0 +1,58 @@
+/**
+ * AGRX Watchlist Router
+ *
+ * tRPC router for the signed-in user's watchlist.
+ * All endpoints require authentication (protectedProcedure); signed-out
+ * clients keep their watchlist in AsyncStorage instead.
+ */
+import { z } from "zod";
+import { protectedProcedure, router } from "./_core/trpc";
+import { addToWatchlist, getWatchlist, MAX_WATCHLIST_SIZE, removeFromWatchlist } from "./watchlistService";
+
+const stockIdSchema = z.string().min(1).max(32);
+
+export const watchlistRouter = router({
+  /**
+   * Load the watchlist
+   */
+  list: protectedProcedure.query(async ({ ctx }) => {
+    const stockIds = await getWatchlist(ctx.user.id);
+    return { success: true as const, data: stockIds };
+  }),
+
+  /**
+   * Add one stock
+   */
+  add: protectedProcedure
+    .input(z.object({ stockId: stockIdSchema }))
+    .mutation(async ({ ctx, input }) => {
+      const result = await addToWatchlist(ctx.user.id, [input.stockId]);
+      if (!result.success) {
+        return { success: false as const, error: result.error };
+      }
+      return { success: true as const, data: result.stockIds };
+    }),
+
+  /**
+   * Remove one stock
+   */
+  remove: protectedProcedure
+    .input(z.object({ stockId: stockIdSchema }))
+    .mutation(async ({ ctx, input }) => {
+      const stockIds = await removeFromWatchlist(ctx.user.id, input.stockId);
+      return { success: true as const, data: stockIds };
+    }),
+
+  /**
+   * Merge a device's local watchlist into the account's (on sign-in)
+   */
+  merge: protectedProcedure
+    .input(z.object({ stockIds: z.array(stockIdSchema).max(MAX_WATCHLIST_SIZE) }))
+    .mutation(async ({ ctx, input }) => {
+      const result = await addToWatchlist(ctx.user.id, input.stockIds);
+      if (!result.success) {
+        return { success: false as const, error: result.error };
+      }
+      return { success: true as const, data: result.stockIds };
+    }),
+});
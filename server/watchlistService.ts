@@ -0,0 +1,89 @@
+/**
+ * AGRX Watchlist Service
+ *
+ * Server-side copy of the watchlist the client keeps in
+ * `lib/watchlist-context.tsx`, so it follows the account across devices
+ * and the alert loop can watch it (watchlist-scope price alerts).
+ *
+ * The first sign-in on a device merges its local watchlist into the
+ * account's; after that every toggle is written through.
+ */
+import { and, asc, eq, inArray } from "drizzle-orm";
+import { getDb } from "./db";
+import { requireDb } from "./portfolioService";
+import { ATHEX_SYMBOLS } from "./stockService";
+import { watchlistItems } from "../drizzle/schema";
+
+// ─── Types ──────────────────────────────────────────────────────────────────
+
+export type WatchlistResult =
+  | { success: true; stockIds: string[] }
+  | { success: false; error: string };
+
+// ─── Constants ──────────────────────────────────────────────────────────────
+
+/** Maximum stocks per watchlist */
+export const MAX_WATCHLIST_SIZE = 100;
+
+// ─── Public API ─────────────────────────────────────────────────────────────
+
+/** The user's watchlist, in the order stocks were added */
+export async function getWatchlist(userId: number): Promise<string[]> {
+  const db = await requireDb();
+  const rows = await db
+    .select({ stockId: watchlistItems.stockId })
+    .from(watchlistItems)
+    .where(eq(watchlistItems.userId, userId))
+    .orderBy(asc(watchlistItems.addedAt), asc(watchlistItems.id));
+  return rows.map((r) => r.stockId);
+}
+
+/**
+ * Watchlists of several users, for the alert loop. Empty without a
+ * database.
+ */
+export async function getWatchlists(userIds: number[]): Promise<Map<number, string[]>> {
+  const watchlists = new Map<number, string[]>();
+  const db = await getDb();
+  if (!db || userIds.length === 0) return watchlists;
+
+  const rows = await db
+    .select({ userId: watchlistItems.userId, stockId: watchlistItems.stockId })
+    .from(watchlistItems)
+    .where(inArray(watchlistItems.userId, userIds));
+  for (const row of rows) {
+    watchlists.set(row.userId, [...(watchlists.get(row.userId) ?? []), row.stockId]);
+  }
+  return watchlists;
+}
+
+/**
+ * Add stocks the user doesn't have yet (unknown IDs are skipped) and return
+ * the full watchlist. Used for single adds and for merging a device's local
+ * watchlist on sign-in.
+ */
+export async function addToWatchlist(userId: number, stockIds: string[]): Promise<WatchlistResult> {
+  const db = await requireDb();
+  const current = await getWatchlist(userId);
+  const additions = Array.from(new Set(stockIds)).filter((id) => ATHEX_SYMBOLS[id] && !current.includes(id));
+  if (additions.length === 0) return { success: true, stockIds: current };
+
+  if (current.length + additions.length > MAX_WATCHLIST_SIZE) {
+    return { success: false, error: `Watchlists hold up to ${MAX_WATCHLIST_SIZE} stocks.` };
+  }
+
+  // Ignore duplicates from a concurrent add on another device
+  await db
+    .insert(watchlistItems)
+    .values(additions.map((stockId) => ({ userId, stockId })))
+    .onDuplicateKeyUpdate({ set: { userId } });
+  return { success: true, stockIds: await getWatchlist(userId) };
+}
+
+export async function removeFromWatchlist(userId: number, stockId: string): Promise<string[]> {
+  const db = await requireDb();
+  await db
+    .delete(watchlistItems)
+    .where(and(eq(watchlistItems.userId, userId), eq(watchlistItems.stockId, stockId)));
+  return getWatchlist(userId);
+}
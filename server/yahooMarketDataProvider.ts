@@ -0,0 +1,141 @@
+/**
+ * AGRX Yahoo Market Data Provider
+ *
+ * Fetches ATHEX quotes and charts from Yahoo Finance through the built-in
+ * data API and parses Yahoo's `chart.result` shape. The parsers are shared
+ * with the fixture provider, which replays recorded responses.
+ *
+ * Set MARKET_DATA_RECORD_DIR to save every response as a fixture file.
+ */
+import { mkdir, writeFile } from "fs/promises";
+import path from "path";
+import { callDataApi } from "./_core/dataApi";
+import { ENV } from "./_core/env";
+import type { ChartDataPoint, ChartResponse } from "./stockService";
+import {
+  QUOTE_SPEC,
+  type ChartSpec,
+  type MarketDataProvider,
+  type MarketSymbol,
+  type ProviderQuote,
+} from "./marketDataProvider";
+
+// ─── Fixtures ───────────────────────────────────────────────────────────────
+
+/** File name a chart response is recorded under, e.g. "OPAP.AT_1d_5m.json" */
+export function fixtureFileName(yahooSymbol: string, spec: ChartSpec): string {
+  return `${yahooSymbol}_${spec.range}_${spec.interval}.json`;
+}
+
+async function recordResponse(
+  yahooSymbol: string,
+  spec: ChartSpec,
+  response: unknown,
+): Promise<void> {
+  try {
+    await mkdir(ENV.marketDataRecordDir, { recursive: true });
+    await writeFile(
+      path.join(ENV.marketDataRecordDir, fixtureFileName(yahooSymbol, spec)),
+      JSON.stringify(response, null, 2),
+    );
+  } catch (error) {
+    console.warn(`[MarketData] Failed to record ${yahooSymbol}:`, error);
+  }
+}
+
+// ─── Parsing ────────────────────────────────────────────────────────────────
+
+/**
+ * Quote fields from a Yahoo chart response, or null if it has no result.
+ */
+export function parseYahooQuote(response: any): ProviderQuote | null {
+  const result = response?.chart?.result?.[0];
+  if (!result) return null;
+
+  const meta = result.meta ?? {};
+  const quotes = result.indicators?.quote?.[0] || {};
+  const closePrices: number[] = (quotes.close || []).filter((p: number | null) => p !== null);
+
+  const price = meta.regularMarketPrice ?? closePrices[closePrices.length - 1] ?? 0;
+
+  return {
+    name: meta.longName || meta.shortName,
+    price,
+    previousClose: meta.chartPreviousClose ?? meta.previousClose ?? price,
+    dayHigh: meta.regularMarketDayHigh ?? Math.max(...closePrices),
+    dayLow: meta.regularMarketDayLow ?? Math.min(...closePrices),
+    volume: meta.regularMarketVolume ?? 0,
+    fiftyTwoWeekHigh: meta.fiftyTwoWeekHigh ?? 0,
+    fiftyTwoWeekLow: meta.fiftyTwoWeekLow ?? 0,
+    marketCap: meta.marketCap,
+    currency: meta.currency ?? "EUR",
+    exchange: meta.exchangeName ?? "ATH",
+    intradayCloses: closePrices,
+    marketTime: typeof meta.regularMarketTime === "number" ? meta.regularMarketTime * 1000 : undefined,
+  };
+}
+
+/**
+ * OHLCV bars from a Yahoo chart response, or null if it has no result.
+ */
+export function parseYahooChart(
+  response: any,
+  yahooSymbol: string,
+  spec: ChartSpec,
+): ChartResponse | null {
+  const result = response?.chart?.result?.[0];
+  if (!result) return null;
+
+  const meta = result.meta ?? {};
+  const timestamps = result.timestamp || [];
+  const quotes = result.indicators?.quote?.[0] || {};
+
+  const data: ChartDataPoint[] = timestamps.map((ts: number, i: number) => ({
+    timestamp: ts,
+    open: quotes.open?.[i] ?? 0,
+    high: quotes.high?.[i] ?? 0,
+    low: quotes.low?.[i] ?? 0,
+    close: quotes.close?.[i] ?? 0,
+    volume: quotes.volume?.[i] ?? 0,
+  })).filter((d: ChartDataPoint) => d.close > 0);
+
+  return {
+    symbol: yahooSymbol,
+    interval: spec.interval,
+    range: spec.range,
+    data,
+    meta: {
+      currency: meta.currency ?? "EUR",
+      exchange: meta.exchangeName ?? "ATH",
+      regularMarketPrice: meta.regularMarketPrice ?? 0,
+    },
+  };
+}
+
+// ─── Provider ───────────────────────────────────────────────────────────────
+
+async function fetchChart(symbol: MarketSymbol, spec: ChartSpec): Promise<unknown> {
+  const response = await callDataApi("YahooFinance/get_stock_chart", {
+    query: {
+      symbol: symbol.yahoo,
+      interval: spec.interval,
+      range: spec.range,
+    },
+  });
+  if (ENV.marketDataRecordDir) await recordResponse(symbol.yahoo, spec, response);
+  return response;
+}
+
+export function createYahooProvider(): MarketDataProvider {
+  return {
+    name: "yahoo",
+
+    async getQuote(symbol) {
+      return parseYahooQuote(await fetchChart(symbol, QUOTE_SPEC));
+    },
+
+    async getChart(symbol, spec) {
+      return parseYahooChart(await fetchChart(symbol, spec), symbol.yahoo, spec);
+    },
+  };
+}
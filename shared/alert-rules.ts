@@ -0,0 +1,292 @@
+/**
+ * Alert Rules
+ *
+ * A small rule engine for price alerts, shared by the server alert loop
+ * (evaluation) and the app's rule builder (types, defaults, descriptions).
+ * A rule is a list of conditions joined by AND ("all") or OR ("any"):
+ *
+ * - compare      a series at or above/below another series or a number,
+ *                with an optional multiplier ("volume above 3× 20-day avg")
+ * - cross        a series crossed a series or a number since the previous
+ *                check ("RSI(14) crosses below 30", "price crosses above SMA(50)")
+ * - change       move from the previous close ("up 5% today")
+ * - range_break  new N-week high or low
+ * - gap          today's open vs the previous close ("gap up 2% at open")
+ *
+ * Indicators are computed on daily closes with today's live price as the
+ * last value, reusing shared/indicators. Conditions without enough history
+ * evaluate to false.
+ */
+import { ema, lastValue, rsi, sma } from "./indicators";
+
+// ─── Types ──────────────────────────────────────────────────────────────────
+
+export type RuleSeries =
+  | { kind: "price" }
+  | { kind: "sma"; period: number }
+  | { kind: "ema"; period: number }
+  | { kind: "rsi"; period: number }
+  | { kind: "volume" }
+  | { kind: "avg_volume"; period: number };
+
+export type RuleOperand = RuleSeries | { kind: "value"; value: number };
+
+export type RuleCondition =
+  | {
+      type: "compare";
+      left: RuleSeries;
+      op: "above" | "below";
+      right: RuleOperand;
+      /** Scales the right side, e.g. 3 for "3× average volume" */
+      multiplier?: number;
+    }
+  | { type: "cross"; left: RuleSeries; direction: "above" | "below"; right: RuleOperand }
+  | { type: "change"; direction: "up" | "down" | "either"; percent: number }
+  | { type: "range_break"; direction: "high" | "low"; weeks: number }
+  | { type: "gap"; direction: "up" | "down"; percent: number };
+
+export type RuleConditionType = RuleCondition["type"];
+
+export interface AlertRule {
+  /** "all" = AND, "any" = OR */
+  match: "all" | "any";
+  conditions: RuleCondition[];
+}
+
+/** A completed daily session */
+export interface RuleBar {
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+export interface RuleMarketData {
+  /** Completed daily sessions before today, oldest first */
+  history: RuleBar[];
+  /** Today's session so far */
+  today: { open: number; high: number; low: number; price: number; volume: number };
+  /**
+   * Price at the previous check, for crosses. Null when there was none;
+   * crosses then compare against the previous close.
+   */
+  previousPrice: number | null;
+}
+
+// ─── Constants ──────────────────────────────────────────────────────────────
+
+export const MAX_RULE_CONDITIONS = 5;
+export const MAX_RULE_PERIOD = 200;
+/** Trading sessions per week, for N-week highs and lows */
+const SESSIONS_PER_WEEK = 5;
+
+/** A sensible starting point for each condition type in the rule builder */
+export const DEFAULT_CONDITIONS: Record<RuleConditionType, RuleCondition> = {
+  compare: {
+    type: "compare",
+    left: { kind: "volume" },
+    op: "above",
+    right: { kind: "avg_volume", period: 20 },
+    multiplier: 3,
+  },
+  cross: { type: "cross", left: { kind: "rsi", period: 14 }, direction: "below", right: { kind: "value", value: 30 } },
+  change: { type: "change", direction: "either", percent: 5 },
+  range_break: { type: "range_break", direction: "high", weeks: 52 },
+  gap: { type: "gap", direction: "up", percent: 2 },
+};
+
+// ─── Evaluation ─────────────────────────────────────────────────────────────
+
+/** Daily closes and volumes with `price` as today's value */
+function withToday(data: RuleMarketData, price: number | null) {
+  const closes = data.history.map((b) => b.close);
+  if (price !== null) closes.push(price);
+  return { closes, volumes: data.history.map((b) => b.volume) };
+}
+
+/** A series' value at the current check (`price` = live price) or the previous one */
+function seriesValue(series: RuleSeries, data: RuleMarketData, price: number | null): number | null {
+  const { closes, volumes } = withToday(data, price);
+  switch (series.kind) {
+    case "price":
+      return closes.length > 0 ? closes[closes.length - 1] : null;
+    case "sma":
+      return lastValue(sma(closes, series.period));
+    case "ema":
+      return lastValue(ema(closes, series.period));
+    case "rsi":
+      return lastValue(rsi(closes, series.period));
+    case "volume":
+      return data.today.volume;
+    case "avg_volume": {
+      // Completed sessions only; today's volume is still building
+      if (volumes.length < series.period) return null;
+      const recent = volumes.slice(-series.period);
+      return recent.reduce((sum, v) => sum + v, 0) / series.period;
+    }
+  }
+}
+
+function operandValue(operand: RuleOperand, data: RuleMarketData, price: number | null): number | null {
+  return operand.kind === "value" ? operand.value : seriesValue(operand, data, price);
+}
+
+function previousClose(data: RuleMarketData): number | null {
+  return data.history.length > 0 ? data.history[data.history.length - 1].close : null;
+}
+
+function percentFrom(base: number | null, value: number): number | null {
+  return base && base > 0 ? ((value - base) / base) * 100 : null;
+}
+
+export function evaluateCondition(condition: RuleCondition, data: RuleMarketData): boolean {
+  const price = data.today.price;
+
+  switch (condition.type) {
+    case "compare": {
+      const left = seriesValue(condition.left, data, price);
+      const right = operandValue(condition.right, data, price);
+      if (left === null || right === null) return false;
+      const target = right * (condition.multiplier ?? 1);
+      return condition.op === "above" ? left >= target : left <= target;
+    }
+    case "cross": {
+      const left = seriesValue(condition.left, data, price);
+      const right = operandValue(condition.right, data, price);
+      const prevLeft = seriesValue(condition.left, data, data.previousPrice);
+      const prevRight = operandValue(condition.right, data, data.previousPrice);
+      if (left === null || right === null || prevLeft === null || prevRight === null) return false;
+      return condition.direction === "above"
+        ? prevLeft <= prevRight && left > right
+        : prevLeft >= prevRight && left < right;
+    }
+    case "change": {
+      const change = percentFrom(previousClose(data), price);
+      if (change === null) return false;
+      if (condition.direction === "up") return change >= condition.percent;
+      if (condition.direction === "down") return change <= -condition.percent;
+      return Math.abs(change) >= condition.percent;
+    }
+    case "range_break": {
+      const sessions = data.history.slice(-condition.weeks * SESSIONS_PER_WEEK);
+      if (sessions.length === 0) return false;
+      return condition.direction === "high"
+        ? Math.max(data.today.high, price) > Math.max(...sessions.map((b) => b.high))
+        : Math.min(data.today.low, price) < Math.min(...sessions.map((b) => b.low));
+    }
+    case "gap": {
+      const gap = percentFrom(previousClose(data), data.today.open);
+      if (gap === null) return false;
+      return condition.direction === "up" ? gap >= condition.percent : gap <= -condition.percent;
+    }
+  }
+}
+
+export function evaluateRule(rule: AlertRule, data: RuleMarketData): boolean {
+  if (rule.conditions.length === 0) return false;
+  return rule.match === "all"
+    ? rule.conditions.every((c) => evaluateCondition(c, data))
+    : rule.conditions.some((c) => evaluateCondition(c, data));
+}
+
+/** Completed daily sessions a rule needs to evaluate every condition */
+export function ruleLookback(rule: AlertRule): number {
+  const periods = rule.conditions.flatMap((c): number[] => {
+    switch (c.type) {
+      case "compare":
+      case "cross":
+        return [c.left, c.right].map((s) => ("period" in s ? s.period : 0));
+      case "range_break":
+        return [c.weeks * SESSIONS_PER_WEEK];
+      default:
+        return [1];
+    }
+  });
+  // RSI needs one bar more than its period; crosses need the previous close
+  return Math.max(1, ...periods) + 1;
+}
+
+// ─── Validation ─────────────────────────────────────────────────────────────
+
+function seriesError(series: RuleOperand): string | null {
+  if (series.kind === "value") return Number.isFinite(series.value) ? null : "Value must be a number";
+  if ("period" in series && (!Number.isInteger(series.period) || series.period < 1 || series.period > MAX_RULE_PERIOD)) {
+    return `Periods must be whole numbers from 1 to ${MAX_RULE_PERIOD}`;
+  }
+  return null;
+}
+
+/** Why a rule can't be saved, or null if it's valid */
+export function validateRule(rule: AlertRule): string | null {
+  if (rule.conditions.length === 0) return "Add at least one condition";
+  if (rule.conditions.length > MAX_RULE_CONDITIONS) return `At most ${MAX_RULE_CONDITIONS} conditions`;
+  for (const c of rule.conditions) {
+    switch (c.type) {
+      case "compare":
+      case "cross": {
+        const error = seriesError(c.left) ?? seriesError(c.right);
+        if (error) return error;
+        if (c.type === "compare" && c.multiplier !== undefined && !(c.multiplier > 0)) {
+          return "Multiplier must be positive";
+        }
+        break;
+      }
+      case "change":
+      case "gap":
+        if (!(c.percent > 0)) return "Percent must be positive";
+        break;
+      case "range_break":
+        if (!Number.isInteger(c.weeks) || c.weeks < 1 || c.weeks * SESSIONS_PER_WEEK > MAX_RULE_PERIOD * 2) {
+          return "Weeks must be a whole number from 1 to 80";
+        }
+        break;
+    }
+  }
+  return null;
+}
+
+// ─── Descriptions ───────────────────────────────────────────────────────────
+
+export function describeOperand(operand: RuleOperand): string {
+  switch (operand.kind) {
+    case "value":
+      return String(operand.value);
+    case "price":
+      return "Price";
+    case "sma":
+      return `SMA(${operand.period})`;
+    case "ema":
+      return `EMA(${operand.period})`;
+    case "rsi":
+      return `RSI(${operand.period})`;
+    case "volume":
+      return "Volume";
+    case "avg_volume":
+      return `${operand.period}-day avg volume`;
+  }
+}
+
+/** e.g. "RSI(14) crosses below 30", "Volume above 3× 20-day avg volume" */
+export function describeCondition(condition: RuleCondition): string {
+  switch (condition.type) {
+    case "compare": {
+      const multiplier = condition.multiplier && condition.multiplier !== 1 ? `${condition.multiplier}× ` : "";
+      return `${describeOperand(condition.left)} ${condition.op} ${multiplier}${describeOperand(condition.right)}`;
+    }
+    case "cross":
+      return `${describeOperand(condition.left)} crosses ${condition.direction} ${describeOperand(condition.right)}`;
+    case "change":
+      return condition.direction === "either"
+        ? `Moves ±${condition.percent}% from previous close`
+        : `${condition.direction === "up" ? "Up" : "Down"} ${condition.percent}% from previous close`;
+    case "range_break":
+      return `New ${condition.weeks}-week ${condition.direction}`;
+    case "gap":
+      return `Gaps ${condition.direction} ${condition.percent}% at open`;
+  }
+}
+
+export function describeRule(rule: AlertRule): string {
+  return rule.conditions.map(describeCondition).join(rule.match === "all" ? " and " : " or ");
+}
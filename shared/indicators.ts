@@ -0,0 +1,188 @@
+/**
+ * Technical Indicators
+ *
+ * Pure calculations over price series, shared by the asset chart (client),
+ * server-side price history and alert rules. Every function returns a
+ * series aligned with its input: index i describes the bar at index i, and
+ * bars before an indicator has enough history are null.
+ *
+ * Conventions follow the usual charting-platform definitions:
+ * - EMA is seeded with the SMA of its first `period` values
+ * - RSI uses Wilder's smoothing
+ * - Bollinger Bands use the population standard deviation
+ */
+
+// ─── Types ──────────────────────────────────────────────────────────────────
+
+/** One value per input bar; null while the indicator is warming up */
+export type IndicatorSeries = (number | null)[];
+
+export interface BollingerBands {
+  middle: IndicatorSeries;
+  upper: IndicatorSeries;
+  lower: IndicatorSeries;
+}
+
+export interface Macd {
+  /** Fast EMA minus slow EMA */
+  macd: IndicatorSeries;
+  /** EMA of the MACD line */
+  signal: IndicatorSeries;
+  /** MACD minus signal */
+  histogram: IndicatorSeries;
+}
+
+// ─── Constants ──────────────────────────────────────────────────────────────
+
+export const INDICATOR_DEFAULTS = {
+  sma: { period: 20 },
+  ema: { period: 20 },
+  bollinger: { period: 20, stdDev: 2 },
+  rsi: { period: 14 },
+  macd: { fast: 12, slow: 26, signal: 9 },
+} as const;
+
+// ─── Helpers ────────────────────────────────────────────────────────────────
+
+function assertPeriod(period: number): void {
+  if (!Number.isInteger(period) || period < 1) {
+    throw new RangeError(`Indicator period must be a positive integer, got ${period}`);
+  }
+}
+
+/** EMA over a series that may start with nulls; the seed window starts at the first value */
+function emaOfSeries(values: IndicatorSeries, period: number): IndicatorSeries {
+  const result: IndicatorSeries = new Array(values.length).fill(null);
+  const start = values.findIndex((v) => v !== null);
+  if (start === -1 || values.length - start < period) return result;
+
+  const k = 2 / (period + 1);
+  let sum = 0;
+  for (let i = start; i < start + period; i++) sum += values[i] as number;
+  let prev = sum / period;
+  result[start + period - 1] = prev;
+
+  for (let i = start + period; i < values.length; i++) {
+    prev = (values[i] as number) * k + prev * (1 - k);
+    result[i] = prev;
+  }
+  return result;
+}
+
+// ─── Moving Averages ────────────────────────────────────────────────────────
+
+/**
+ * Simple moving average of the last `period` values.
+ */
+export function sma(values: number[], period: number = INDICATOR_DEFAULTS.sma.period): IndicatorSeries {
+  assertPeriod(period);
+  const result: IndicatorSeries = new Array(values.length).fill(null);
+  let sum = 0;
+  for (let i = 0; i < values.length; i++) {
+    sum += values[i];
+    if (i >= period) sum -= values[i - period];
+    if (i >= period - 1) result[i] = sum / period;
+  }
+  return result;
+}
+
+/**
+ * Exponential moving average with smoothing 2 / (period + 1).
+ */
+export function ema(values: number[], period: number = INDICATOR_DEFAULTS.ema.period): IndicatorSeries {
+  assertPeriod(period);
+  return emaOfSeries(values, period);
+}
+
+// ─── Volatility ─────────────────────────────────────────────────────────────
+
+/**
+ * Bollinger Bands: SMA ± `stdDev` standard deviations over `period` values.
+ */
+export function bollingerBands(
+  values: number[],
+  period: number = INDICATOR_DEFAULTS.bollinger.period,
+  stdDev: number = INDICATOR_DEFAULTS.bollinger.stdDev,
+): BollingerBands {
+  const middle = sma(values, period);
+  const upper: IndicatorSeries = new Array(values.length).fill(null);
+  const lower: IndicatorSeries = new Array(values.length).fill(null);
+
+  for (let i = period - 1; i < values.length; i++) {
+    const mean = middle[i] as number;
+    let variance = 0;
+    for (let j = i - period + 1; j <= i; j++) variance += (values[j] - mean) ** 2;
+    const deviation = Math.sqrt(variance / period) * stdDev;
+    upper[i] = mean + deviation;
+    lower[i] = mean - deviation;
+  }
+  return { middle, upper, lower };
+}
+
+// ─── Momentum ───────────────────────────────────────────────────────────────
+
+/**
+ * Relative Strength Index (0–100) with Wilder's smoothing. The first value
+ * appears at index `period`, once `period` price changes are known.
+ */
+export function rsi(values: number[], period: number = INDICATOR_DEFAULTS.rsi.period): IndicatorSeries {
+  assertPeriod(period);
+  const result: IndicatorSeries = new Array(values.length).fill(null);
+  if (values.length <= period) return result;
+
+  const toRsi = (gain: number, loss: number) => (loss === 0 ? (gain === 0 ? 50 : 100) : 100 - 100 / (1 + gain / loss));
+
+  let avgGain = 0;
+  let avgLoss = 0;
+  for (let i = 1; i <= period; i++) {
+    const change = values[i] - values[i - 1];
+    if (change > 0) avgGain += change;
+    else avgLoss -= change;
+  }
+  avgGain /= period;
+  avgLoss /= period;
+  result[period] = toRsi(avgGain, avgLoss);
+
+  for (let i = period + 1; i < values.length; i++) {
+    const change = values[i] - values[i - 1];
+    avgGain = (avgGain * (period - 1) + Math.max(change, 0)) / period;
+    avgLoss = (avgLoss * (period - 1) + Math.max(-change, 0)) / period;
+    result[i] = toRsi(avgGain, avgLoss);
+  }
+  return result;
+}
+
+/**
+ * Moving Average Convergence Divergence.
+ */
+export function macd(
+  values: number[],
+  fast: number = INDICATOR_DEFAULTS.macd.fast,
+  slow: number = INDICATOR_DEFAULTS.macd.slow,
+  signal: number = INDICATOR_DEFAULTS.macd.signal,
+): Macd {
+  if (fast >= slow) {
+    throw new RangeError(`MACD fast period (${fast}) must be shorter than slow period (${slow})`);
+  }
+  const fastEma = ema(values, fast);
+  const slowEma = ema(values, slow);
+  const macdLine: IndicatorSeries = values.map((_, i) =>
+    fastEma[i] !== null && slowEma[i] !== null ? (fastEma[i] as number) - (slowEma[i] as number) : null,
+  );
+  assertPeriod(signal);
+  const signalLine = emaOfSeries(macdLine, signal);
+  const histogram: IndicatorSeries = macdLine.map((m, i) =>
+    m !== null && signalLine[i] !== null ? m - (signalLine[i] as number) : null,
+  );
+  return { macd: macdLine, signal: signalLine, histogram };
+}
+
+/**
+ * Latest non-null value of a series, or null.
+ */
+export function lastValue(series: IndicatorSeries): number | null {
+  for (let i = series.length - 1; i >= 0; i--) {
+    if (series[i] !== null) return series[i];
+  }
+  return null;
+}
@@ -0,0 +1,310 @@
+/**
+ * ATHEX Market Calendar
+ *
+ * Trading days, public holidays and intraday session phases for the
+ * Athens Stock Exchange. Shared by the client (useMarketStatus) and the
+ * server (price alert loop, day-order expiry, market data simulator).
+ *
+ * All session times are Athens local time (Europe/Athens, EET/EEST) and
+ * are converted with Intl so DST is handled on both platforms.
+ *
+ * Session schedule (Mon–Fri, excluding holidays):
+ * - 10:00–10:30  Pre-open auction
+ * - 10:30–17:20  Continuous trading
+ * - 17:20–17:30  Closing auction
+ * - otherwise    Closed
+ */
+
+// ─── Types ──────────────────────────────────────────────────────────────────
+
+export type MarketPhase = "pre_open" | "continuous" | "closing_auction" | "closed";
+
+export interface MarketHoliday {
+  /** Athens calendar date, YYYY-MM-DD */
+  date: string;
+  name: string;
+}
+
+export interface MarketSession {
+  phase: MarketPhase;
+  /** True during the auctions and continuous trading */
+  isOpen: boolean;
+  /** Whether today (Athens date) is a trading day */
+  isTradingDay: boolean;
+  /** Name of today's holiday, if the exchange is closed for one */
+  holiday: string | null;
+  /** Start of the next pre-open auction after `now` */
+  nextOpen: Date;
+  /** End of the current session, or of the next one if closed */
+  nextClose: Date;
+}
+
+export interface TradingSession {
+  /** Athens calendar date, YYYY-MM-DD */
+  date: string;
+  /** Start of continuous trading */
+  open: Date;
+  /** End of the closing auction */
+  close: Date;
+}
+
+interface LocalDate {
+  year: number;
+  /** 1–12 */
+  month: number;
+  day: number;
+}
+
+// ─── Constants ──────────────────────────────────────────────────────────────
+
+export const ATHEX_TIMEZONE = "Europe/Athens";
+
+/** Session boundaries in minutes after Athens midnight */
+export const ATHEX_SESSION = {
+  preOpen: 10 * 60,
+  continuous: 10 * 60 + 30,
+  closingAuction: 17 * 60 + 20,
+  close: 17 * 60 + 30,
+} as const;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Fixed-date exchange holidays as [month, day, name] */
+const FIXED_HOLIDAYS: [number, number, string][] = [
+  [1, 1, "New Year's Day"],
+  [3, 25, "Independence Day"],
+  [5, 1, "Labour Day"],
+  [8, 15, "Assumption Day"],
+  [10, 28, "Ochi Day"],
+  [12, 24, "Christmas Eve"],
+  [12, 25, "Christmas Day"],
+  [12, 26, "Boxing Day"],
+  [12, 31, "New Year's Eve"],
+];
+
+/** Holidays that move with Orthodox Easter, as [days from Easter Sunday, name] */
+const EASTER_HOLIDAYS: [number, string][] = [
+  [-48, "Clean Monday"],
+  [-2, "Good Friday"],
+  [1, "Easter Monday"],
+  [50, "Whit Monday"],
+];
+
+// ─── Timezone Helpers ───────────────────────────────────────────────────────
+
+const athensFormatter = new Intl.DateTimeFormat("en-US", {
+  timeZone: ATHEX_TIMEZONE,
+  hourCycle: "h23",
+  year: "numeric",
+  month: "numeric",
+  day: "numeric",
+  hour: "numeric",
+  minute: "numeric",
+  second: "numeric",
+});
+
+/** Athens wall-clock fields for an instant */
+function athensParts(date: Date) {
+  const parts = athensFormatter.formatToParts(date);
+  const get = (type: string) => Number(parts.find((p) => p.type === type)?.value ?? 0);
+  return {
+    year: get("year"),
+    month: get("month"),
+    day: get("day"),
+    // Some engines format midnight as 24 even with h23
+    hour: get("hour") % 24,
+    minute: get("minute"),
+    second: get("second"),
+  };
+}
+
+/** Milliseconds Athens local time is ahead of UTC at the given instant */
+function athensOffsetMs(date: Date): number {
+  const p = athensParts(date);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/** The instant at which Athens wall-clock shows `minutes` after midnight on `day` */
+function athensInstant(day: LocalDate, minutes: number): Date {
+  const wallClock = Date.UTC(day.year, day.month - 1, day.day, 0, minutes);
+  const guess = wallClock - athensOffsetMs(new Date(wallClock));
+  // Re-check the offset at the guess in case it sits across a DST change
+  return new Date(wallClock - athensOffsetMs(new Date(guess)));
+}
+
+function toLocalDate(date: Date): LocalDate {
+  const { year, month, day } = athensParts(date);
+  return { year, month, day };
+}
+
+function addDays(day: LocalDate, days: number): LocalDate {
+  const d = new Date(Date.UTC(day.year, day.month - 1, day.day) + days * DAY_MS);
+  return { year: d.getUTCFullYear(), month: d.getUTCMonth() + 1, day: d.getUTCDate() };
+}
+
+function formatLocalDate(day: LocalDate): string {
+  return `${day.year}-${String(day.month).padStart(2, "0")}-${String(day.day).padStart(2, "0")}`;
+}
+
+// ─── Holidays ───────────────────────────────────────────────────────────────
+
+/**
+ * Orthodox Easter Sunday (Gregorian date) for a year between 1900 and 2099,
+ * using Meeus' Julian algorithm plus the 13-day calendar offset.
+ */
+export function getOrthodoxEaster(year: number): LocalDate {
+  const a = year % 4;
+  const b = year % 7;
+  const c = year % 19;
+  const d = (19 * c + 15) % 30;
+  const e = (2 * a + 4 * b - d + 34) % 7;
+  const month = Math.floor((d + e + 114) / 31);
+  const day = ((d + e + 114) % 31) + 1;
+  return addDays({ year, month, day }, 13);
+}
+
+const holidayCache = new Map<number, Map<string, string>>();
+
+function holidayMap(year: number): Map<string, string> {
+  let map = holidayCache.get(year);
+  if (!map) {
+    map = new Map();
+    for (const [month, day, name] of FIXED_HOLIDAYS) {
+      map.set(formatLocalDate({ year, month, day }), name);
+    }
+    const easter = getOrthodoxEaster(year);
+    for (const [offset, name] of EASTER_HOLIDAYS) {
+      map.set(formatLocalDate(addDays(easter, offset)), name);
+    }
+    holidayCache.set(year, map);
+  }
+  return map;
+}
+
+/**
+ * All exchange holidays in a year, in date order. Holidays that fall on a
+ * weekend are listed but have no substitute day.
+ */
+export function getAthexHolidays(year: number): MarketHoliday[] {
+  return Array.from(holidayMap(year), ([date, name]) => ({ date, name })).sort((a, b) =>
+    a.date.localeCompare(b.date),
+  );
+}
+
+function holidayOn(day: LocalDate): string | null {
+  return holidayMap(day.year).get(formatLocalDate(day)) ?? null;
+}
+
+function isTradingDate(day: LocalDate): boolean {
+  const weekday = new Date(Date.UTC(day.year, day.month - 1, day.day)).getUTCDay();
+  return weekday !== 0 && weekday !== 6 && holidayOn(day) === null;
+}
+
+/**
+ * Name of the exchange holiday on the Athens date of `date`, or null.
+ */
+export function getHoliday(date: Date = new Date()): string | null {
+  return holidayOn(toLocalDate(date));
+}
+
+/**
+ * Whether the Athens date of `date` is a trading day (weekday, not a holiday).
+ */
+export function isTradingDay(date: Date = new Date()): boolean {
+  return isTradingDate(toLocalDate(date));
+}
+
+// ─── Sessions ───────────────────────────────────────────────────────────────
+
+/**
+ * Current session phase at `now`.
+ */
+export function getMarketPhase(now: Date = new Date()): MarketPhase {
+  if (!isTradingDay(now)) return "closed";
+
+  const { hour, minute } = athensParts(now);
+  const minutes = hour * 60 + minute;
+
+  if (minutes < ATHEX_SESSION.preOpen || minutes >= ATHEX_SESSION.close) return "closed";
+  if (minutes < ATHEX_SESSION.continuous) return "pre_open";
+  if (minutes < ATHEX_SESSION.closingAuction) return "continuous";
+  return "closing_auction";
+}
+
+/**
+ * True during the pre-open auction, continuous trading or closing auction.
+ */
+export function isMarketOpen(now: Date = new Date()): boolean {
+  return getMarketPhase(now) !== "closed";
+}
+
+/**
+ * The session boundary `minutes` on the first trading day where it is
+ * still ahead of `now`.
+ */
+function nextSessionTime(now: Date, minutes: number): Date {
+  let day = toLocalDate(now);
+  // Holidays never span more than a few days; the bound guards bad input
+  for (let i = 0; i < 14; i++) {
+    if (isTradingDate(day)) {
+      const instant = athensInstant(day, minutes);
+      if (instant.getTime() > now.getTime()) return instant;
+    }
+    day = addDays(day, 1);
+  }
+  return athensInstant(day, minutes);
+}
+
+/**
+ * Start of the next pre-open auction after `now`.
+ */
+export function getNextOpen(now: Date = new Date()): Date {
+  return nextSessionTime(now, ATHEX_SESSION.preOpen);
+}
+
+/**
+ * End of the current session, or of the next session if the market is closed.
+ */
+export function getNextClose(now: Date = new Date()): Date {
+  return nextSessionTime(now, ATHEX_SESSION.close);
+}
+
+/**
+ * Full market status at `now`: phase, holiday and the next open / close.
+ */
+export function getMarketSession(now: Date = new Date()): MarketSession {
+  const phase = getMarketPhase(now);
+  const holiday = getHoliday(now);
+  return {
+    phase,
+    isOpen: phase !== "closed",
+    isTradingDay: isTradingDay(now),
+    holiday,
+    nextOpen: getNextOpen(now),
+    nextClose: getNextClose(now),
+  };
+}
+
+/** Athens date of an instant, "YYYY-MM-DD" */
+export function getAthensDate(date: Date = new Date()): string {
+  return formatLocalDate(toLocalDate(date));
+}
+
+/**
+ * Trading sessions whose Athens date falls between `from` and `to`
+ * (inclusive), oldest first.
+ */
+export function getTradingSessions(from: Date, to: Date): TradingSession[] {
+  const sessions: TradingSession[] = [];
+  const last = formatLocalDate(toLocalDate(to));
+  for (let day = toLocalDate(from); formatLocalDate(day) <= last; day = addDays(day, 1)) {
+    if (!isTradingDate(day)) continue;
+    sessions.push({
+      date: formatLocalDate(day),
+      open: athensInstant(day, ATHEX_SESSION.continuous),
+      close: athensInstant(day, ATHEX_SESSION.close),
+    });
+  }
+  return sessions;
+}
@@ -0,0 +1,167 @@
+/**
+ * Notification Schedules
+ *
+ * When a notification may reach a user: their quiet hours and a delivery
+ * window per category, read in the user's own IANA timezone. Shared by the
+ * server (holding and releasing notifications) and the app (schedule
+ * settings).
+ *
+ * Hours are wall-clock hours 0–23. A range whose end is before its start
+ * wraps past midnight (22 → 7). Notifications that arrive outside the
+ * allowed hours are held until they open again, or until the next morning
+ * digest.
+ */
+import { ATHEX_TIMEZONE } from "./market-calendar";
+
+// ─── Types ──────────────────────────────────────────────────────────────────
+
+export type NotificationCategory = "alerts" | "news" | "challenge" | "social";
+
+/** Hours a category may be delivered; outside them its notifications are held */
+export interface DeliveryWindow {
+  startHour: number;
+  /** Exclusive; equal to startHour means all day */
+  endHour: number;
+  /** Also deliver on Saturdays and Sundays */
+  weekends: boolean;
+}
+
+/** What happens to held notifications */
+export type HeldDelivery = "when_quiet_ends" | "morning_digest";
+
+/** The preference fields that decide delivery times */
+export interface DeliverySettings {
+  /** IANA timezone, e.g. "Europe/Athens" */
+  timezone: string;
+  quietHoursStart: number | null;
+  quietHoursEnd: number | null;
+  /** Categories without a window are delivered any time outside quiet hours */
+  schedules: Partial<Record<NotificationCategory, DeliveryWindow>>;
+  heldDelivery: HeldDelivery;
+  /** Local hour the morning digest goes out */
+  digestHour: number;
+}
+
+export interface LocalTime {
+  /** 0 = Sunday */
+  weekday: number;
+  hour: number;
+  minute: number;
+}
+
+// ─── Constants ──────────────────────────────────────────────────────────────
+
+export const NOTIFICATION_CATEGORIES: NotificationCategory[] = ["alerts", "news", "challenge", "social"];
+
+export const CATEGORY_LABELS: Record<NotificationCategory, string> = {
+  alerts: "Price Alerts",
+  news: "Market News",
+  challenge: "Daily Challenge",
+  social: "Social Activity",
+};
+
+/** Most users trade ATHEX from Greece */
+export const DEFAULT_TIMEZONE = ATHEX_TIMEZONE;
+export const DEFAULT_DIGEST_HOUR = 8;
+
+const QUARTER_HOUR_MS = 15 * 60 * 1000;
+/** How far ahead to look for an open delivery slot */
+const SEARCH_LIMIT_MS = 8 * 24 * 60 * 60 * 1000;
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+// ─── Timezones ──────────────────────────────────────────────────────────────
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatterFor(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      weekday: "short",
+      hour: "numeric",
+      minute: "numeric",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    formatterFor(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Wall-clock time in `timeZone`; unknown zones read as DEFAULT_TIMEZONE */
+export function localTime(now: number, timeZone: string): LocalTime {
+  const zone = isValidTimeZone(timeZone) ? timeZone : DEFAULT_TIMEZONE;
+  const parts = formatterFor(zone).formatToParts(new Date(now));
+  const get = (type: string) => parts.find((p) => p.type === type)?.value ?? "";
+  return {
+    weekday: WEEKDAYS.indexOf(get("weekday")),
+    // Some engines format midnight as 24 even with h23
+    hour: Number(get("hour")) % 24,
+    minute: Number(get("minute")),
+  };
+}
+
+// ─── Delivery Rules ─────────────────────────────────────────────────────────
+
+function inHourRange(hour: number, start: number, end: number): boolean {
+  return start > end ? hour >= start || hour < end : hour >= start && hour < end;
+}
+
+export function isInQuietHours(settings: DeliverySettings, now: number): boolean {
+  if (settings.quietHoursStart === null || settings.quietHoursEnd === null) return false;
+  const { hour } = localTime(now, settings.timezone);
+  return inHourRange(hour, settings.quietHoursStart, settings.quietHoursEnd);
+}
+
+function isOutsideWindow(window: DeliveryWindow | undefined, local: LocalTime): boolean {
+  if (!window) return false;
+  if (!window.weekends && (local.weekday === 0 || local.weekday === 6)) return true;
+  if (window.startHour === window.endHour) return false;
+  return !inHourRange(local.hour, window.startHour, window.endHour);
+}
+
+/** Whether a notification of `category` has to wait right now */
+export function isDeliveryHeld(settings: DeliverySettings, category: NotificationCategory, now: number): boolean {
+  return (
+    isInQuietHours(settings, now) ||
+    isOutsideWindow(settings.schedules[category], localTime(now, settings.timezone))
+  );
+}
+
+/**
+ * When a notification held at `now` goes out: the first hour where neither
+ * quiet hours nor the category's window hold it, or for morning digests the
+ * first digest hour that qualifies.
+ */
+export function nextDeliveryTime(settings: DeliverySettings, category: NotificationCategory, now: number): number {
+  // Every UTC offset is a whole number of quarter hours, so stepping by
+  // quarter hours lands on each local top of the hour
+  const limit = now + SEARCH_LIMIT_MS;
+  for (let t = Math.ceil(now / QUARTER_HOUR_MS) * QUARTER_HOUR_MS; t <= limit; t += QUARTER_HOUR_MS) {
+    const local = localTime(t, settings.timezone);
+    if (local.minute !== 0) continue;
+    if (settings.heldDelivery === "morning_digest" && local.hour !== settings.digestHour) continue;
+    if (!isDeliveryHeld(settings, category, t)) return t;
+  }
+  // The digest hour is always held; send when the hold lifts instead
+  if (settings.heldDelivery === "morning_digest") {
+    return nextDeliveryTime({ ...settings, heldDelivery: "when_quiet_ends" }, category, now);
+  }
+  return limit;
+}
+
+/** e.g. "22:00–07:00" */
+export function describeHours(start: number, end: number): string {
+  const pad = (hour: number) => `${String(hour).padStart(2, "0")}:00`;
+  return start === end ? "All day" : `${pad(start)}–${pad(end)}`;
+}